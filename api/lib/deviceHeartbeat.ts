@@ -4,15 +4,82 @@
  * Records device heartbeats on sync and counts active devices.
  * Devices are considered stale after DEVICE_STALE_THRESHOLD and are cleaned up
  * during active device count queries.
+ *
+ * Heartbeats may carry the device's clock state (time source, GPS offset and
+ * accuracy). It is kept in a separate hash so heartbeats without a clock
+ * report (POST, DELETE, stream pings) don't overwrite the last report.
  */
 
 import type Redis from 'ioredis';
 import { CACHE_EXPIRY_SECONDS } from './atomicOps.js';
-import type { DeviceData } from './syncTypes.js';
+import type {
+  DeviceClock,
+  DeviceClockReport,
+  DeviceData,
+} from './syncTypes.js';
+import { type SharedTimingPoint, VALID_POINTS } from './validation.js';
 
 /** Device considered inactive after this many milliseconds */
 export const DEVICE_STALE_THRESHOLD = 60000; // 60 seconds — 2× normal poll interval to tolerate one missed poll
 
+/** Clock reports older than this are left out of the clock health list */
+export const DEVICE_CLOCK_STALE_THRESHOLD = 600000; // 10 minutes
+
+/** Offsets beyond this are treated as garbage rather than a wrong clock */
+const MAX_CLOCK_OFFSET_MS = 86400000; // 24 hours
+
+type QueryValue = string | string[] | undefined;
+
+function parseQueryNumber(value: QueryValue): number | null {
+  if (typeof value !== 'string' || value === '') return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+}
+
+/**
+ * Parse the clock report sent with a GET heartbeat or stream connect.
+ * The device sends its effective clock (`clockTime`, GPS- or server-corrected
+ * when available); skew is measured against the server time on receipt.
+ *
+ * @param query - Request query parameters
+ * @param receivedAt - Server time the request was received
+ * @returns Clock state, or null if the request carries no valid report
+ */
+export function parseDeviceClock(
+  query: Record<string, QueryValue>,
+  receivedAt: number,
+): DeviceClock | null {
+  const { clockSource, clockTime, gpsOffset, gpsAccuracy, point } = query;
+  if (
+    clockSource !== 'gps' &&
+    clockSource !== 'server' &&
+    clockSource !== 'system'
+  ) {
+    return null;
+  }
+
+  const time = parseQueryNumber(clockTime);
+  if (time === null || Math.abs(time - receivedAt) > MAX_CLOCK_OFFSET_MS) {
+    return null;
+  }
+
+  const offset = parseQueryNumber(gpsOffset);
+  const accuracy = parseQueryNumber(gpsAccuracy);
+
+  return {
+    source: clockSource,
+    skewMs: Math.round(time - receivedAt),
+    gpsOffsetMs:
+      offset !== null && Math.abs(offset) <= MAX_CLOCK_OFFSET_MS
+        ? Math.round(offset)
+        : null,
+    gpsAccuracy: accuracy !== null && accuracy >= 0 ? accuracy : null,
+    point: VALID_POINTS.includes(point as SharedTimingPoint)
+      ? (point as SharedTimingPoint)
+      : null,
+  };
+}
+
 /**
  * Update device heartbeat in Redis.
  * Stores the device name and last-seen timestamp in a hash.
@@ -21,23 +88,78 @@ export const DEVICE_STALE_THRESHOLD = 60000; // 60 seconds — 2× normal poll i
  * @param normalizedRaceId - Lowercased race ID
  * @param deviceId - Device identifier
  * @param deviceName - Human-readable device name
+ * @param clock - Optional clock report sent with the heartbeat
  */
 export async function updateDeviceHeartbeat(
   client: Redis,
   normalizedRaceId: string,
   deviceId: string,
   deviceName: string,
+  clock?: DeviceClock | null,
 ): Promise<void> {
   if (!deviceId) return;
 
   const devicesKey = `race:${normalizedRaceId}:devices`;
+  const lastSeen = Date.now();
   const deviceData = JSON.stringify({
     name: deviceName || 'Unknown',
-    lastSeen: Date.now(),
+    lastSeen,
   } satisfies DeviceData);
 
   await client.hset(devicesKey, deviceId, deviceData);
   await client.expire(devicesKey, CACHE_EXPIRY_SECONDS);
+
+  if (clock) {
+    const clocksKey = `race:${normalizedRaceId}:device_clocks`;
+    const report = JSON.stringify({
+      ...clock,
+      deviceId,
+      name: deviceName || 'Unknown',
+      lastSeen,
+    } satisfies DeviceClockReport);
+    await client.hset(clocksKey, deviceId, report);
+    await client.expire(clocksKey, CACHE_EXPIRY_SECONDS);
+  }
+}
+
+/**
+ * Get the latest clock report of each device, ordered by device name.
+ * Reports older than DEVICE_CLOCK_STALE_THRESHOLD are removed.
+ *
+ * @param client - Redis client
+ * @param normalizedRaceId - Lowercased race ID
+ * @returns Clock reports of recently seen devices
+ */
+export async function getDeviceClocks(
+  client: Redis,
+  normalizedRaceId: string,
+): Promise<DeviceClockReport[]> {
+  const clocksKey = `race:${normalizedRaceId}:device_clocks`;
+  const clocks = await client.hgetall(clocksKey);
+  if (!clocks) return [];
+
+  const now = Date.now();
+  const reports: DeviceClockReport[] = [];
+  const staleDevices: string[] = [];
+
+  for (const [deviceId, reportJson] of Object.entries(clocks)) {
+    try {
+      const report: DeviceClockReport = JSON.parse(reportJson);
+      if (now - report.lastSeen <= DEVICE_CLOCK_STALE_THRESHOLD) {
+        reports.push(report);
+      } else {
+        staleDevices.push(deviceId);
+      }
+    } catch (_e: unknown) {
+      staleDevices.push(deviceId);
+    }
+  }
+
+  if (staleDevices.length > 0) {
+    await client.hdel(clocksKey, ...staleDevices);
+  }
+
+  return reports.sort((a, b) => a.name.localeCompare(b.name));
 }
 
 /**
@@ -6,30 +6,38 @@
  */
 
 import type { CrossDeviceDuplicate, RaceEntry } from './syncTypes.js';
+import type { SharedPrimaryDevices } from './validation.js';
 
 /**
  * Detect if a new entry is a cross-device duplicate of an existing entry.
  * A cross-device duplicate means: same bib + same point + same run, but from a different device.
+ * At a point with a primary device, the primary and a backup timing the same
+ * racer is redundancy on purpose and not reported; two backups still are.
  *
  * @param existingEntries - All entries currently stored for the race
  * @param newEntry - The new entry being submitted
  * @param deviceId - The device ID submitting the new entry
+ * @param primaryDevices - The race's primary device per timing point
  * @returns CrossDeviceDuplicate info if a match is found, or null
  */
 export function detectCrossDeviceDuplicate(
   existingEntries: RaceEntry[],
   newEntry: RaceEntry,
   deviceId: string,
+  primaryDevices: SharedPrimaryDevices = {},
 ): CrossDeviceDuplicate | null {
   if (!newEntry.bib) return null;
 
+  const primaryDevice = primaryDevices[newEntry.point];
   const entryRun = newEntry.run ?? 1;
   const existingMatch = existingEntries.find(
     (e: RaceEntry) =>
       e.bib === newEntry.bib &&
       e.point === newEntry.point &&
       (e.run ?? 1) === entryRun &&
-      e.deviceId !== deviceId,
+      e.deviceId !== deviceId &&
+      e.deviceId !== primaryDevice &&
+      deviceId !== primaryDevice,
   );
 
   if (!existingMatch) return null;
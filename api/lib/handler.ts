@@ -8,7 +8,7 @@ import type { VercelRequest, VercelResponse } from '@vercel/node';
 import type Redis from 'ioredis';
 import { apiLogger, getRequestId } from './apiLogger.js';
 import type { ValidateAuthResult } from './jwt.js';
-import { validateAuth } from './jwt.js';
+import { authorizeRaceAccess, validateAuth } from './jwt.js';
 import { CLIENT_PIN_KEY, getRedis, hasRedisError } from './redis.js';
 import {
   getClientIP,
@@ -21,7 +21,11 @@ import {
   sendServiceUnavailable,
   setRateLimitHeaders,
 } from './response.js';
-import { checkRateLimit, type RateLimitConfig } from './validation.js';
+import {
+  checkRateLimit,
+  isValidRaceId,
+  type RateLimitConfig,
+} from './validation.js';
 
 /** Context passed to handler functions after middleware phases complete */
 export interface HandlerContext {
@@ -42,12 +46,49 @@ export interface HandlerOptions {
   auth?: boolean;
   /** Block write ops (POST/DELETE) when auth.method === 'none' — default false */
   writeRequiresAuth?: boolean;
+  /**
+   * Require the token to be valid for the race in ?raceId= (see
+   * authorizeRaceAccess) — default false. A missing or invalid raceId is
+   * left to the handler to reject.
+   */
+  raceAccess?: boolean;
+}
+
+/**
+ * Reject a request whose token is not valid for the race in ?raceId=.
+ * @returns True when the error response was sent
+ */
+async function denyRaceAccess(
+  req: VercelRequest,
+  res: VercelResponse,
+  client: Redis,
+  log: HandlerContext['log'],
+  auth: ValidateAuthResult | undefined,
+): Promise<boolean> {
+  const { raceId } = req.query;
+  if (typeof raceId !== 'string' || !isValidRaceId(raceId)) return false;
+
+  const normalizedRaceId = raceId.toLowerCase();
+  const raceAccess = await authorizeRaceAccess(auth, client, normalizedRaceId);
+  if (raceAccess.allowed) return false;
+
+  log.warn('Race access DENIED', {
+    raceId: normalizedRaceId,
+    tokenRaceId: auth?.payload?.raceId,
+  });
+  sendError(
+    res,
+    raceAccess.error!,
+    raceAccess.status,
+    raceAccess.racePinRequired ? { racePinRequired: true } : {},
+  );
+  return true;
 }
 
 /**
  * Create an API handler with composed middleware.
  * Handles: CORS preflight, Redis init, Redis health check,
- * rate limiting, authentication, request ID, and error boundary.
+ * rate limiting, authentication, race access, request ID, and error boundary.
  */
 export function createHandler(
   options: HandlerOptions,
@@ -122,6 +163,12 @@ export function createHandler(
 
     // Error boundary
     try {
+      if (
+        options.raceAccess &&
+        (await denyRaceAccess(req, res, client, log, auth))
+      ) {
+        return;
+      }
       await fn(req, res, { client, clientIP, reqId, log, auth });
     } catch (error: unknown) {
       const err = error instanceof Error ? error : new Error(String(error));
@@ -3,6 +3,7 @@ import { promisify } from 'node:util';
 import type { VercelRequest } from '@vercel/node';
 import type Redis from 'ioredis';
 import jwt from 'jsonwebtoken';
+import { getRaceChiefJudgePinKey, getRaceClientPinKey } from './redis.js';
 
 const pbkdf2Async = promisify(crypto.pbkdf2);
 
@@ -13,6 +14,8 @@ export type UserRole = 'timer' | 'gateJudge' | 'chiefJudge';
 export interface TokenPayload {
   type: string;
   role?: UserRole;
+  raceId?: string; // Set for tokens issued with a race PIN
+  deviceId?: string; // Set for tokens requested by a device
   [key: string]: unknown;
 }
 
@@ -39,6 +42,14 @@ export interface ValidateAuthResult {
   expired?: boolean;
 }
 
+/** Result of race access authorization */
+export interface RaceAccessResult {
+  allowed: boolean;
+  error?: string;
+  status?: 401 | 403;
+  racePinRequired?: boolean; // Client should re-authenticate with the race PIN
+}
+
 // JWT configuration
 const JWT_ALGORITHM = 'HS256' as const;
 const JWT_EXPIRY: string = '24h'; // Token valid for 24 hours
@@ -200,6 +211,47 @@ export async function validateAuth(
   return { valid: false, error: 'Invalid token. Please re-authenticate.' };
 }
 
+/**
+ * Check that an authenticated request may access a race.
+ * Race-scoped tokens (raceId claim) only grant access to their own race.
+ * Races with their own PINs only accept tokens scoped to them; races without
+ * fall back to the global PIN (unscoped tokens or no auth, as validateAuth allows).
+ * @param auth - Result of validateAuth for the request
+ * @param redisClient - Redis client for race PIN lookup
+ * @param raceId - Normalized (lowercase) race ID
+ */
+export async function authorizeRaceAccess(
+  auth: ValidateAuthResult | undefined,
+  redisClient: Redis,
+  raceId: string,
+): Promise<RaceAccessResult> {
+  const tokenRaceId = auth?.payload?.raceId;
+  if (typeof tokenRaceId === 'string') {
+    return tokenRaceId === raceId
+      ? { allowed: true }
+      : {
+          allowed: false,
+          error: 'Token is not valid for this race',
+          status: 403,
+        };
+  }
+
+  const [racePinHash, raceChiefPinHash] = await Promise.all([
+    redisClient.get(getRaceClientPinKey(raceId)),
+    redisClient.get(getRaceChiefJudgePinKey(raceId)),
+  ]);
+  if (!racePinHash && !raceChiefPinHash) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    error: 'This race requires its race PIN. Please re-authenticate.',
+    status: 401,
+    racePinRequired: true,
+  };
+}
+
 // PBKDF2 configuration for PIN hashing
 const PBKDF2_ITERATIONS: number = 100000;
 const PBKDF2_KEY_LENGTH: number = 32;
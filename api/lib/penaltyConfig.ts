@@ -0,0 +1,113 @@
+/**
+ * Race Penalty Config
+ *
+ * Per-race penalty configuration (default rule plus per-age-category rules)
+ * stored at race:{id}:penalties. Written by the penalties endpoint and the
+ * race definition endpoint (default rule only, via updatePenaltyConfig) and
+ * read by the results endpoint.
+ */
+
+import type Redis from 'ioredis';
+import { atomicUpdate } from './atomicOps.js';
+import { safeJsonParse } from './response.js';
+import type { PenaltyRules } from './schemas.js';
+import {
+  DEFAULT_PENALTY_OPTIONS,
+  DEFAULT_PENALTY_RULES,
+} from './validation.js';
+
+/** Penalty config as stored in Redis */
+export interface StoredPenaltyConfig {
+  usePenaltyMode: boolean;
+  penaltySeconds: number;
+  rules: PenaltyRules;
+  lastUpdated: number | null;
+  updatedBy?: string;
+}
+
+/**
+ * Redis key of a race's penalty config
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getPenaltyConfigKey(raceId: string): string {
+  return `race:${raceId}:penalties`;
+}
+
+/**
+ * Parse a stored penalty config, falling back to the default rules when the
+ * race has none yet (lastUpdated is then null)
+ */
+export function parsePenaltyConfig(
+  data: string | null | undefined,
+): StoredPenaltyConfig {
+  return normalizePenaltyConfig(
+    safeJsonParse<Partial<StoredPenaltyConfig> | null>(data, {}),
+  );
+}
+
+/**
+ * Fill in the fields of a stored penalty config (see parsePenaltyConfig)
+ */
+function normalizePenaltyConfig(
+  stored: Partial<StoredPenaltyConfig> | null,
+): StoredPenaltyConfig {
+  // Stored JSON may be null
+  const parsed = stored ?? {};
+
+  return {
+    usePenaltyMode:
+      typeof parsed.usePenaltyMode === 'boolean'
+        ? parsed.usePenaltyMode
+        : DEFAULT_PENALTY_OPTIONS.usePenaltyMode,
+    penaltySeconds:
+      typeof parsed.penaltySeconds === 'number'
+        ? parsed.penaltySeconds
+        : DEFAULT_PENALTY_OPTIONS.penaltySeconds,
+    rules:
+      parsed.rules && typeof parsed.rules === 'object'
+        ? parsed.rules
+        : DEFAULT_PENALTY_RULES,
+    lastUpdated:
+      typeof parsed.lastUpdated === 'number' ? parsed.lastUpdated : null,
+    ...(parsed.updatedBy ? { updatedBy: parsed.updatedBy } : {}),
+  };
+}
+
+/**
+ * Drop unset age categories so the stored table only lists set rules
+ */
+export function compactPenaltyRules(rules: PenaltyRules): PenaltyRules {
+  const compact: PenaltyRules = {};
+  for (const [category, rule] of Object.entries(rules)) {
+    if (rule) compact[category as keyof PenaltyRules] = rule;
+  }
+  return compact;
+}
+
+/**
+ * Update a race's penalty config with a WATCH/MULTI compare-and-set. The
+ * update function gets the config as stored now, so a concurrent change to
+ * the parts it does not touch is kept.
+ * @returns The stored config, or null after too many concurrent changes
+ */
+export async function updatePenaltyConfig(
+  client: Redis,
+  raceId: string,
+  update: (current: StoredPenaltyConfig) => StoredPenaltyConfig,
+): Promise<StoredPenaltyConfig | null> {
+  const result = await atomicUpdate<
+    Partial<StoredPenaltyConfig> | null,
+    StoredPenaltyConfig
+  >(
+    client,
+    getPenaltyConfigKey(raceId),
+    {},
+    (current) => {
+      const stored = update(normalizePenaltyConfig(current));
+      return { data: stored, result: stored };
+    },
+    'updatePenaltyConfig',
+  );
+  return 'success' in result ? null : result;
+}
@@ -0,0 +1,160 @@
+/**
+ * Entry Photo Storage
+ *
+ * Photos are kept out of the entry items in their own hashes, by the entry's
+ * "{entryId}:{deviceId}" field (keys in raceStore.ts):
+ * - race:{id}:entry_photos: full-size photo data URLs, fetched on demand
+ * - race:{id}:entry_thumbnails: small JPEG thumbnails for result lists,
+ *   created on upload (or on first request for photos stored without one)
+ *
+ * Saving or deleting a photo logs a change of its entry, so other devices
+ * pick up the entry's hasPhoto flag with their next delta sync.
+ */
+
+import type Redis from 'ioredis';
+import sharp from 'sharp';
+import { apiLogger } from './apiLogger.js';
+import {
+  getEntryPhotosKey,
+  getEntryThumbnailsKey,
+  queueItemChanges,
+} from './raceStore.js';
+
+export const MAX_PHOTO_LENGTH = 500000; // Data URL characters
+export const THUMBNAIL_SIZE = 160; // Longest side in pixels
+const THUMBNAIL_QUALITY = 60;
+
+export const ALLOWED_PHOTO_PREFIXES = [
+  'data:image/jpeg;base64,',
+  'data:image/png;base64,',
+  'data:image/webp;base64,',
+];
+
+export type PhotoSize = 'full' | 'thumbnail';
+
+/**
+ * Check that a photo is an image data URL of an allowed type
+ */
+export function isAllowedPhoto(photo: unknown): photo is string {
+  return (
+    typeof photo === 'string' &&
+    ALLOWED_PHOTO_PREFIXES.some((prefix) => photo.startsWith(prefix))
+  );
+}
+
+/**
+ * Create a JPEG thumbnail data URL of a photo (null when it can't be decoded)
+ */
+export async function createThumbnail(photo: string): Promise<string | null> {
+  try {
+    const image = Buffer.from(photo.slice(photo.indexOf(',') + 1), 'base64');
+    const thumbnail = await sharp(image)
+      .rotate() // Apply EXIF orientation
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .jpeg({ quality: THUMBNAIL_QUALITY })
+      .toBuffer();
+    return `data:image/jpeg;base64,${thumbnail.toString('base64')}`;
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    apiLogger.warn('Thumbnail creation failed', { error: message });
+    return null;
+  }
+}
+
+/**
+ * Store an entry's photo with its thumbnail. Returns the thumbnail (null
+ * when it could not be created).
+ *
+ * @param field - Entry field ("{entryId}:{deviceId}")
+ */
+export async function savePhoto(
+  client: Redis,
+  raceId: string,
+  field: string,
+  photo: string,
+): Promise<string | null> {
+  const thumbnail = await createThumbnail(photo);
+
+  const multi = client.multi();
+  multi.hset(getEntryPhotosKey(raceId), field, photo);
+  if (thumbnail) {
+    multi.hset(getEntryThumbnailsKey(raceId), field, thumbnail);
+  } else {
+    multi.hdel(getEntryThumbnailsKey(raceId), field);
+  }
+  queueItemChanges(multi, raceId, 'entry', [field], Date.now());
+  await multi.exec();
+
+  return thumbnail;
+}
+
+/**
+ * Load an entry's photo or thumbnail (null = no photo). A missing thumbnail
+ * of a stored photo is created and stored.
+ *
+ * @param field - Entry field ("{entryId}:{deviceId}")
+ */
+export async function loadPhoto(
+  client: Redis,
+  raceId: string,
+  field: string,
+  size: PhotoSize,
+): Promise<string | null> {
+  if (size === 'full') {
+    return client.hget(getEntryPhotosKey(raceId), field);
+  }
+
+  const thumbnail = await client.hget(getEntryThumbnailsKey(raceId), field);
+  if (thumbnail) return thumbnail;
+
+  const photo = await client.hget(getEntryPhotosKey(raceId), field);
+  if (!photo) return null;
+  const created = await createThumbnail(photo);
+  if (created) {
+    await client.hset(getEntryThumbnailsKey(raceId), field, created);
+  }
+  return created;
+}
+
+/**
+ * Delete an entry's photo and thumbnail. Returns whether there was a photo.
+ *
+ * @param field - Entry field ("{entryId}:{deviceId}")
+ */
+export async function deletePhoto(
+  client: Redis,
+  raceId: string,
+  field: string,
+): Promise<boolean> {
+  const multi = client.multi();
+  multi.hdel(getEntryPhotosKey(raceId), field);
+  multi.hdel(getEntryThumbnailsKey(raceId), field);
+  queueItemChanges(multi, raceId, 'entry', [field], Date.now());
+  const result = await multi.exec();
+  const removed = result?.[0]?.[1];
+  return typeof removed === 'number' && removed > 0;
+}
+
+/**
+ * Number and total size (data URL characters) of a race's photos, without
+ * loading them
+ */
+export async function getPhotoStats(
+  client: Redis,
+  raceId: string,
+): Promise<{ photoCount: number; photoTotalSize: number }> {
+  const photosKey = getEntryPhotosKey(raceId);
+  const fields = await client.hkeys(photosKey);
+  if (fields.length === 0) return { photoCount: 0, photoTotalSize: 0 };
+
+  const lengths = await Promise.all(
+    fields.map((field) => client.hstrlen(photosKey, field)),
+  );
+  return {
+    photoCount: fields.length,
+    photoTotalSize: lengths.reduce((sum, length) => sum + length, 0),
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Race Protests
+ *
+ * Protests against faults or racer statuses and the jury's decisions, stored
+ * per race in a hash at race:{id}:protests (protest ID → JSON). Evidence
+ * photos are kept out of the protest records in race:{id}:protest_photos,
+ * by "{protestId}:{index}" field. Written and read by the protests endpoint.
+ *
+ * An upheld decision is carried out here, on the stored fault or entry, so
+ * every device receives it through sync: the fault is kept, reversed and
+ * marked as deleted (audit trail), the entry gets the requested status as a
+ * new version.
+ */
+
+import type Redis from 'ioredis';
+import { apiLogger } from './apiLogger.js';
+import { CACHE_EXPIRY_SECONDS, MAX_ATOMIC_RETRIES } from './atomicOps.js';
+import { loadRaceItems, saveRaceItem } from './raceStore.js';
+import { safeJsonParse } from './response.js';
+import type { StoredFaultEntry } from './schemas.js';
+import type { EntryVersion, RaceEntry } from './syncTypes.js';
+import {
+  isValidProtest,
+  type SharedJuryDecision,
+  type SharedProtest,
+} from './validation.js';
+
+/** Result of recording a jury decision */
+export type RecordDecisionResult =
+  | { status: 'recorded'; protest: SharedProtest }
+  | { status: 'missing' }
+  | { status: 'decided'; protest: SharedProtest } // Decided before
+  | { status: 'conflict' };
+
+/**
+ * Redis key of a race's protests
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getProtestsKey(raceId: string): string {
+  return `race:${raceId}:protests`;
+}
+
+/**
+ * Redis key of a race's protest evidence photos
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getProtestPhotosKey(raceId: string): string {
+  return `race:${raceId}:protest_photos`;
+}
+
+/**
+ * Hash field of a protest's evidence photo
+ */
+export function getProtestPhotoField(protestId: string, index: number): string {
+  return `${protestId}:${index}`;
+}
+
+/**
+ * Parse a stored protest (null when missing or malformed)
+ */
+export function parseProtest(
+  data: string | null | undefined,
+): SharedProtest | null {
+  const parsed = safeJsonParse<unknown>(data, null);
+  return isValidProtest(parsed) ? parsed : null;
+}
+
+/**
+ * Parse all stored protests of a race, oldest filing first
+ */
+export function parseProtests(
+  data: Record<string, string> | null | undefined,
+): SharedProtest[] {
+  const protests: SharedProtest[] = [];
+  for (const value of Object.values(data ?? {})) {
+    const protest = parseProtest(value);
+    if (protest) protests.push(protest);
+  }
+  return protests.sort((a, b) => a.filedAt.localeCompare(b.filedAt));
+}
+
+/**
+ * Record the jury decision on a protest. Decisions are final: the protest is
+ * read and written in one WATCH compare-and-set, so of two devices deciding
+ * at the same time only the first succeeds.
+ *
+ * @param raceId - Normalized race ID
+ */
+export async function recordProtestDecision(
+  client: Redis,
+  raceId: string,
+  protestId: string,
+  decision: SharedJuryDecision,
+): Promise<RecordDecisionResult> {
+  const protestsKey = getProtestsKey(raceId);
+
+  for (let retry = 0; retry < MAX_ATOMIC_RETRIES; retry++) {
+    await client.watch(protestsKey);
+    const protest = parseProtest(await client.hget(protestsKey, protestId));
+    if (!protest) {
+      await client.unwatch();
+      return { status: 'missing' };
+    }
+    if (protest.decision) {
+      await client.unwatch();
+      return { status: 'decided', protest };
+    }
+
+    const decided: SharedProtest = { ...protest, decision };
+    const multi = client.multi();
+    multi.hset(protestsKey, protestId, JSON.stringify(decided));
+    multi.expire(protestsKey, CACHE_EXPIRY_SECONDS);
+    if ((await multi.exec()) !== null) {
+      return { status: 'recorded', protest: decided };
+    }
+    // WATCH detected change, retry
+  }
+  await client.unwatch();
+  apiLogger.warn('recordProtestDecision: max retries exceeded', {
+    race: raceId,
+    protestId,
+  });
+  return { status: 'conflict' };
+}
+
+/**
+ * Reverse an upheld fault: marked as deleted and approved by the jury in a
+ * new version, so it no longer counts but stays in the record
+ */
+function reverseFault(
+  fault: StoredFaultEntry,
+  protest: SharedProtest,
+  decision: SharedJuryDecision,
+  deviceId: string,
+): StoredFaultEntry {
+  const version = (fault.currentVersion || 1) + 1;
+  return {
+    ...fault,
+    currentVersion: version,
+    versionHistory: [
+      ...(fault.versionHistory ?? []),
+      {
+        version,
+        timestamp: decision.decidedAt,
+        editedBy: decision.decidedBy,
+        editedByDeviceId: deviceId,
+        changeType: 'edit',
+        data: {
+          id: String(fault.id),
+          bib: fault.bib,
+          run: fault.run,
+          gateNumber: fault.gateNumber,
+          faultType: fault.faultType,
+          timestamp: fault.timestamp,
+          deviceId: fault.deviceId,
+          deviceName: fault.deviceName,
+          gateRange: fault.gateRange,
+        },
+        changeDescription: `Reversed by jury decision on protest ${protest.id}`,
+      },
+    ],
+    markedForDeletion: true,
+    markedForDeletionAt: decision.decidedAt,
+    markedForDeletionBy: decision.decidedBy,
+    markedForDeletionByDeviceId: deviceId,
+    deletionApprovedAt: decision.decidedAt,
+    deletionApprovedBy: decision.decidedBy,
+    reversedByProtestId: protest.id,
+  };
+}
+
+/**
+ * Set the requested status of an upheld status protest as a new version
+ * (the first edit also records the version as recorded)
+ */
+function setProtestedStatus(
+  entry: RaceEntry,
+  status: NonNullable<RaceEntry['status']>,
+  decision: SharedJuryDecision,
+  deviceId: string,
+): RaceEntry {
+  const previousVersion = entry.currentVersion ?? 1;
+  const history: EntryVersion[] = entry.versionHistory?.length
+    ? entry.versionHistory
+    : [
+        {
+          version: previousVersion,
+          timestamp: entry.timestamp,
+          editedBy: entry.deviceName ?? '',
+          editedByDeviceId: entry.deviceId ?? '',
+          changeType: 'create',
+          data: {
+            bib: entry.bib ?? '',
+            status: entry.status ?? 'ok',
+            run: entry.run ?? 1,
+          },
+        },
+      ];
+  const version = previousVersion + 1;
+  return {
+    ...entry,
+    status,
+    currentVersion: version,
+    versionHistory: [
+      ...history,
+      {
+        version,
+        timestamp: decision.decidedAt,
+        editedBy: decision.decidedBy,
+        editedByDeviceId: deviceId,
+        changeType: 'edit',
+        data: { bib: entry.bib ?? '', status, run: entry.run ?? 1 },
+      },
+    ],
+    editedBy: decision.decidedBy,
+    editedByDeviceId: deviceId,
+  };
+}
+
+/**
+ * Carry out an upheld protest on the stored fault or entry it contests.
+ * Rejected protests change nothing. Returns false when the target is not
+ * stored (yet) or could not be saved.
+ *
+ * @param raceId - Normalized race ID
+ * @param deviceId - Device that recorded the decision (audit trail)
+ */
+export async function applyProtestDecision(
+  client: Redis,
+  raceId: string,
+  protest: SharedProtest,
+  deviceId: string,
+): Promise<boolean> {
+  const { decision } = protest;
+  if (decision?.outcome !== 'upheld') return false;
+
+  let targets: (StoredFaultEntry | RaceEntry)[];
+  if (protest.targetType === 'fault') {
+    const { items } = await loadRaceItems<StoredFaultEntry>(
+      client,
+      raceId,
+      'fault',
+    );
+    targets = items
+      .filter((f) => String(f.id) === protest.targetId)
+      .map((f) => reverseFault(f, protest, decision, deviceId));
+  } else {
+    const status = protest.requestedStatus;
+    if (!status) return false;
+    const { items } = await loadRaceItems<RaceEntry>(client, raceId, 'entry');
+    targets = items
+      .filter((e) => String(e.id) === protest.targetId)
+      .map((e) => setProtestedStatus(e, status, decision, deviceId));
+  }
+  if (targets.length === 0) return false;
+
+  let applied = true;
+  for (const target of targets) {
+    const result = await saveRaceItem<StoredFaultEntry | RaceEntry>(
+      client,
+      raceId,
+      protest.targetType,
+      target,
+      {
+        maxItems: Number.POSITIVE_INFINITY, // Only replaces (existingOnly)
+        // Not over an edit saved since the target was loaded
+        shouldReplace: (existing) =>
+          (existing.currentVersion || 1) < (target.currentVersion || 1),
+        existingOnly: true,
+      },
+    );
+    if (result.status !== 'updated') applied = false;
+  }
+  return applied;
+}
@@ -0,0 +1,135 @@
+/**
+ * Race Config
+ *
+ * Per-race configuration stored at race:{id}:config: the number of
+ * intermediate (split) timing points between start and finish, the
+ * number of runs, the primary (official) timing device per point, the
+ * course map (gate positions) and the protest deadline per run.
+ * Written by the race config endpoint and the race
+ * definition endpoint (Chief Judge), each merging only the sections it
+ * changes (updateRaceConfig), and read by timing devices, the sync and fault
+ * endpoints (run validation) and results.
+ */
+
+import type Redis from 'ioredis';
+import { atomicUpdate } from './atomicOps.js';
+import { safeJsonParse } from './response.js';
+import {
+  DEFAULT_RUN_COUNT,
+  getTimingPoints,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_RUNS,
+  type SharedCourseGate,
+  type SharedPrimaryDevices,
+  type SharedProtestDeadlines,
+  type SharedTimingPoint,
+  sanitizeCourseGates,
+  sanitizePrimaryDevices,
+  sanitizeProtestDeadlines,
+} from './validation.js';
+
+/** Race config as stored in Redis */
+export interface StoredRaceConfig {
+  intermediatePoints: number;
+  runCount: number;
+  primaryDevices: SharedPrimaryDevices; // Point → official device ID
+  courseGates: SharedCourseGate[]; // Sorted by gate number
+  protestDeadlines: SharedProtestDeadlines; // Run → deadline (ms)
+  lastUpdated: number | null;
+  updatedBy?: string;
+}
+
+/**
+ * Redis key of a race's config
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getRaceConfigKey(raceId: string): string {
+  return `race:${raceId}:config`;
+}
+
+/**
+ * Parse a stored race config, falling back to start/finish only, two runs,
+ * no primary devices, no course map and no protest deadlines when the race
+ * has none yet
+ * (lastUpdated is then null)
+ */
+export function parseRaceConfig(
+  data: string | null | undefined,
+): StoredRaceConfig {
+  return normalizeRaceConfig(
+    safeJsonParse<Partial<StoredRaceConfig> | null>(data, {}),
+  );
+}
+
+/**
+ * Fill in and sanitize the fields of a stored race config (see
+ * parseRaceConfig)
+ */
+function normalizeRaceConfig(
+  stored: Partial<StoredRaceConfig> | null,
+): StoredRaceConfig {
+  // Stored JSON may be null
+  const parsed = stored ?? {};
+  const { intermediatePoints, runCount } = parsed;
+
+  return {
+    intermediatePoints:
+      typeof intermediatePoints === 'number' &&
+      Number.isInteger(intermediatePoints) &&
+      intermediatePoints >= 0 &&
+      intermediatePoints <= MAX_INTERMEDIATE_POINTS
+        ? intermediatePoints
+        : 0,
+    runCount:
+      typeof runCount === 'number' &&
+      Number.isInteger(runCount) &&
+      runCount >= 1 &&
+      runCount <= MAX_RUNS
+        ? runCount
+        : DEFAULT_RUN_COUNT,
+    primaryDevices: sanitizePrimaryDevices(parsed.primaryDevices),
+    courseGates: sanitizeCourseGates(parsed.courseGates),
+    protestDeadlines: sanitizeProtestDeadlines(parsed.protestDeadlines),
+    lastUpdated:
+      typeof parsed.lastUpdated === 'number' ? parsed.lastUpdated : null,
+    ...(parsed.updatedBy ? { updatedBy: parsed.updatedBy } : {}),
+  };
+}
+
+/**
+ * Ordered timing points of a race config (S, I1…In, F)
+ */
+export function getRaceTimingPoints(
+  config: StoredRaceConfig,
+): SharedTimingPoint[] {
+  return getTimingPoints(config.intermediatePoints);
+}
+
+/**
+ * Update a race's config with a WATCH/MULTI compare-and-set. The update
+ * function gets the config as stored now and changes only its own sections,
+ * so Chief Judge devices editing different sections at the same time do not
+ * overwrite each other.
+ * @returns The stored config, or null after too many concurrent changes
+ */
+export async function updateRaceConfig(
+  client: Redis,
+  raceId: string,
+  update: (current: StoredRaceConfig) => StoredRaceConfig,
+): Promise<StoredRaceConfig | null> {
+  const result = await atomicUpdate<
+    Partial<StoredRaceConfig> | null,
+    StoredRaceConfig
+  >(
+    client,
+    getRaceConfigKey(raceId),
+    {},
+    (current) => {
+      const stored = update(normalizeRaceConfig(current));
+      return { data: stored, result: stored };
+    },
+    'updateRaceConfig',
+  );
+  return 'success' in result ? null : result;
+}
@@ -0,0 +1,78 @@
+/**
+ * Race Definition
+ *
+ * Race metadata stored at race:{id}:definition: name, date, venue,
+ * discipline, gate count, homologation number and jury. Written by the
+ * admin race definition endpoint (Chief Judge), listed by the admin race
+ * list and delivered to timing devices with the race config.
+ *
+ * Runs and penalty rules belong to the race definition too, but are stored
+ * in the race config and penalty config so every device keeps a single
+ * source for them.
+ */
+
+import { safeJsonParse } from './response.js';
+import type { Discipline, JuryMember } from './schemas.js';
+import { VALID_DISCIPLINES } from './validation.js';
+
+/** Race definition as stored in Redis */
+export interface StoredRaceDefinition {
+  name: string;
+  date?: string;
+  venue?: string;
+  discipline: Discipline;
+  gateCount: number;
+  homologationNumber?: string;
+  jury: JuryMember[];
+  createdAt: number;
+  lastUpdated: number;
+  updatedBy?: string;
+}
+
+/**
+ * Redis key of a race's definition
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getRaceDefinitionKey(raceId: string): string {
+  return `race:${raceId}:definition`;
+}
+
+/**
+ * Parse a stored race definition (null when the race has none or it is
+ * unreadable)
+ */
+export function parseRaceDefinition(
+  data: string | null | undefined,
+): StoredRaceDefinition | null {
+  const parsed = safeJsonParse<Partial<StoredRaceDefinition> | null>(
+    data,
+    null,
+  );
+  if (
+    !parsed ||
+    typeof parsed.name !== 'string' ||
+    !(VALID_DISCIPLINES as readonly string[]).includes(
+      parsed.discipline as string,
+    ) ||
+    typeof parsed.gateCount !== 'number'
+  ) {
+    return null;
+  }
+
+  return {
+    name: parsed.name,
+    ...(parsed.date ? { date: parsed.date } : {}),
+    ...(parsed.venue ? { venue: parsed.venue } : {}),
+    discipline: parsed.discipline as Discipline,
+    gateCount: parsed.gateCount,
+    ...(parsed.homologationNumber
+      ? { homologationNumber: parsed.homologationNumber }
+      : {}),
+    jury: Array.isArray(parsed.jury) ? parsed.jury : [],
+    createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : 0,
+    lastUpdated:
+      typeof parsed.lastUpdated === 'number' ? parsed.lastUpdated : 0,
+    ...(parsed.updatedBy ? { updatedBy: parsed.updatedBy } : {}),
+  };
+}
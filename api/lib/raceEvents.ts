@@ -0,0 +1,81 @@
+/**
+ * Race Live Events
+ *
+ * Publishes entry, fault, deletion and device-presence events on a per-race
+ * Redis pub/sub channel. The SSE stream endpoint (api/v1/stream) relays them
+ * to connected clients. Publishing is best-effort: clients that miss an event
+ * catch up with a delta fetch when their stream (re)connects, or through
+ * polling while it is down.
+ */
+
+import type Redis from 'ioredis';
+import { apiLogger } from './apiLogger.js';
+
+export type RaceEventType = 'entry' | 'deletion' | 'fault' | 'presence';
+
+export interface RaceEvent {
+  type: RaceEventType;
+  deviceId?: string; // Device that caused the change (clients skip their own)
+  id?: string; // Entry or fault ID
+  deviceCount?: number; // Active device count (presence events)
+  timestamp: number;
+}
+
+const RACE_EVENT_TYPES: readonly RaceEventType[] = [
+  'entry',
+  'deletion',
+  'fault',
+  'presence',
+];
+
+/**
+ * Pub/sub channel for a race's live events.
+ * Channels are not keys, so race deletion has nothing to clean up.
+ */
+export function getRaceEventChannel(normalizedRaceId: string): string {
+  return `race:${normalizedRaceId}:events`;
+}
+
+/**
+ * Publish a live event for a race. Never throws - a failed publish must not
+ * fail the write that triggered it.
+ */
+export async function publishRaceEvent(
+  client: Redis,
+  normalizedRaceId: string,
+  event: Omit<RaceEvent, 'timestamp'>,
+): Promise<void> {
+  try {
+    await client.publish(
+      getRaceEventChannel(normalizedRaceId),
+      JSON.stringify({ ...event, timestamp: Date.now() } satisfies RaceEvent),
+    );
+  } catch (error: unknown) {
+    apiLogger.warn('Race event publish failed', {
+      raceId: normalizedRaceId,
+      type: event.type,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Parse a pub/sub message back into a race event. Returns null for
+ * malformed messages or unknown event types.
+ */
+export function parseRaceEvent(message: string): RaceEvent | null {
+  try {
+    const event = JSON.parse(message) as RaceEvent;
+    if (!event || !RACE_EVENT_TYPES.includes(event.type)) return null;
+    return event;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Format a Server-Sent Events message (event name + single-line JSON data)
+ */
+export function formatSseEvent(eventName: string, data: unknown): string {
+  return `event: ${eventName}\ndata: ${JSON.stringify(data)}\n\n`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Race Results Loading
+ *
+ * Loads a race's entries, faults, start list, penalty config and primary
+ * timing devices from Redis and computes ranked results. Shared by the authenticated results endpoint
+ * and the public live results endpoint, which additionally requires the
+ * race to be published (race:{id}:public) and strips device data.
+ */
+
+import type Redis from 'ioredis';
+import { getPenaltyConfigKey, parsePenaltyConfig } from './penaltyConfig.js';
+import { getRaceConfigKey, parseRaceConfig } from './raceConfig.js';
+import { loadRaceItems } from './raceStore.js';
+import { safeJsonParse } from './response.js';
+import type { PenaltyRules, Racer, StoredFaultEntry } from './schemas.js';
+import type { RaceEntry } from './syncTypes.js';
+import {
+  computeRaceResults,
+  type RaceResults,
+  type ResultPenaltyConfig,
+  type ResultPenaltyOptions,
+  type SharedTimingPoint,
+} from './validation.js';
+
+/** Racer name/club keyed by bib so clients can label results */
+export type RacerInfo = Record<string, { name: string; club?: string }>;
+
+/** Computed results plus the data needed to present them */
+export interface LoadedRaceResults {
+  results: RaceResults;
+  racers: RacerInfo;
+  penalty: ResultPenaltyOptions & { rules: PenaltyRules };
+  entries: RaceEntry[];
+  lastUpdated: number | null;
+}
+
+/**
+ * Timing entry as exposed publicly: no photo, device or GPS data
+ */
+export interface PublicRaceEntry {
+  id: string;
+  bib: string;
+  point: SharedTimingPoint;
+  run: number;
+  timestamp: string;
+  status: string;
+}
+
+/**
+ * Strip photo, device IDs/names and GPS coordinates from an entry
+ */
+export function toPublicEntry(entry: RaceEntry): PublicRaceEntry {
+  return {
+    id: String(entry.id),
+    bib: entry.bib ?? '',
+    point: entry.point,
+    run: entry.run ?? 1,
+    timestamp: entry.timestamp,
+    status: entry.status ?? 'ok',
+  };
+}
+
+/**
+ * Load race data and compute results. Overrides apply one penalty rule to
+ * all racers; without overrides the race's per-category rules are used.
+ */
+export async function loadRaceResults(
+  client: Redis,
+  normalizedRaceId: string,
+  overrides: Partial<ResultPenaltyOptions> = {},
+): Promise<LoadedRaceResults> {
+  // Entries are loaded without photos - results only need the timing
+  const [race, faults, startListData, penaltiesData, configData] =
+    await Promise.all([
+      loadRaceItems<RaceEntry>(client, normalizedRaceId, 'entry'),
+      loadRaceItems<StoredFaultEntry>(client, normalizedRaceId, 'fault'),
+      client.get(`race:${normalizedRaceId}:startlist`),
+      client.get(getPenaltyConfigKey(normalizedRaceId)),
+      client.get(getRaceConfigKey(normalizedRaceId)),
+    ]);
+
+  const { racers } = safeJsonParse(startListData, { racers: [] }) as {
+    racers: Racer[];
+  };
+
+  const stored = parsePenaltyConfig(penaltiesData);
+
+  const racerInfo: RacerInfo = {};
+  const ageCategories = new Map<string, string>();
+  if (Array.isArray(racers)) {
+    for (const racer of racers) {
+      racerInfo[racer.bib] = racer.club
+        ? { name: racer.name, club: racer.club }
+        : { name: racer.name };
+      if (racer.ageCategory) ageCategories.set(racer.bib, racer.ageCategory);
+    }
+  }
+
+  const hasOverrides = Object.keys(overrides).length > 0;
+  const options: ResultPenaltyConfig = hasOverrides
+    ? {
+        usePenaltyMode: overrides.usePenaltyMode ?? stored.usePenaltyMode,
+        penaltySeconds: overrides.penaltySeconds ?? stored.penaltySeconds,
+      }
+    : {
+        usePenaltyMode: stored.usePenaltyMode,
+        penaltySeconds: stored.penaltySeconds,
+        rules: stored.rules,
+        getAgeCategory: (bib) => ageCategories.get(bib),
+      };
+
+  const entries = race.items;
+  const results = computeRaceResults(
+    entries,
+    faults.items,
+    options,
+    parseRaceConfig(configData).primaryDevices,
+  );
+
+  return {
+    results,
+    racers: racerInfo,
+    penalty: {
+      usePenaltyMode: options.usePenaltyMode,
+      penaltySeconds: options.penaltySeconds,
+      rules: options.rules ?? {},
+    },
+    entries,
+    lastUpdated: race.lastUpdated,
+  };
+}
@@ -0,0 +1,605 @@
+/**
+ * Race Item Storage
+ *
+ * Timing entries and faults are stored per item instead of one JSON blob per
+ * race, so a sync write only touches the item it changes and devices
+ * recording at the same time do not conflict:
+ * - race:{id}:entry_items / race:{id}:fault_items: hash of item JSON by
+ *   "{itemId}:{deviceId}"
+ * - race:{id}:entry_photos / race:{id}:entry_thumbnails: hash of entry
+ *   photos and their thumbnails by the same field, kept out of the item JSON
+ *   so lists, results and duplicate checks stay small (see photoStore.ts)
+ * - race:{id}:entry_changes / race:{id}:fault_changes: change log, a sorted
+ *   set of item fields scored by their last change (add, edit or delete),
+ *   used for delta sync, lastUpdated and the entries a sync write returns.
+ *   A sorted set rather than a Redis stream: a field appears once with its
+ *   latest change, so "changed since" is one ZRANGEBYSCORE and the log never
+ *   outgrows the race.
+ * - race:{id}:entry_index: entries by bib, point and run, a sorted set of
+ *   "{point}|{run}|{bib}|{field}" members read by lex range, so a sync write
+ *   finds duplicates without loading the race (see loadEntriesAt)
+ *
+ * Migration: races written before per-item storage hold one JSON blob
+ * (race:{id} for entries, race:{id}:faults for faults). Reads merge the blob
+ * in; the first write of a kind moves its items into the hash and deletes
+ * the blob.
+ */
+
+import type Redis from 'ioredis';
+import { apiLogger } from './apiLogger.js';
+import { CACHE_EXPIRY_SECONDS, MAX_ATOMIC_RETRIES } from './atomicOps.js';
+import { getRaceChiefJudgePinKey, getRaceClientPinKey } from './redis.js';
+import { safeJsonParse } from './response.js';
+
+export type RaceItemKind = 'entry' | 'fault';
+
+/** Item fields the storage relies on */
+export interface RaceItem {
+  id: string | number;
+  deviceId?: string;
+  bib?: string;
+  point?: string;
+  run?: number;
+  timestamp?: string;
+  syncedAt?: number;
+  photo?: string;
+  hasPhoto?: boolean;
+}
+
+/** Items of a race and when they last changed */
+export interface RaceItems<T> {
+  items: T[];
+  total: number; // All items, also when only changed items were loaded
+  lastUpdated: number | null;
+}
+
+/** Outcome of saving an item */
+export type SaveRaceItemResult<T> =
+  | { status: 'added' }
+  | { status: 'updated' | 'duplicate'; previous: T | null }
+  | { status: 'limit' | 'conflict' | 'missing' };
+
+interface SaveRaceItemOptions<T> {
+  maxItems: number;
+  // Whether a stored item with the same field is replaced (e.g. a higher
+  // version); otherwise the save is a duplicate
+  shouldReplace: (existing: T) => boolean;
+  // Only replace a stored item, never add one (status 'missing')
+  existingOnly?: boolean;
+}
+
+/** Outcome of deleting items */
+export type DeleteRaceItemsResult<T> =
+  | { status: 'deleted'; removed: number }
+  | { status: 'kept'; item: T }
+  | { status: 'conflict' };
+
+interface DeleteRaceItemsOptions<T> {
+  // Whether a stored item may be deleted; if one may not, nothing is
+  // deleted (status 'kept')
+  canDelete?: (existing: T) => boolean;
+}
+
+/**
+ * Redis key of a race's item hash
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getRaceItemsKey(raceId: string, kind: RaceItemKind): string {
+  return `race:${raceId}:${kind}_items`;
+}
+
+/**
+ * Redis key of a race's item change log
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getRaceChangesKey(raceId: string, kind: RaceItemKind): string {
+  return `race:${raceId}:${kind}_changes`;
+}
+
+/**
+ * Redis key of a race's entry index (bib, point and run)
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getEntryIndexKey(raceId: string): string {
+  return `race:${raceId}:entry_index`;
+}
+
+/**
+ * Redis key of a race's entry photo hash
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getEntryPhotosKey(raceId: string): string {
+  return `race:${raceId}:entry_photos`;
+}
+
+/**
+ * Redis key of a race's entry thumbnail hash
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getEntryThumbnailsKey(raceId: string): string {
+  return `race:${raceId}:entry_thumbnails`;
+}
+
+/**
+ * Redis key of a race's public results flag (set = published)
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getPublicResultsKey(raceId: string): string {
+  return `race:${raceId}:public`;
+}
+
+/**
+ * Redis key of a race's JSON blob from before per-item storage
+ *
+ * @param raceId - Normalized race ID
+ */
+export function getLegacyRaceKey(raceId: string, kind: RaceItemKind): string {
+  return kind === 'entry' ? `race:${raceId}` : `race:${raceId}:faults`;
+}
+
+/**
+ * All entry and fault storage keys of a race (for race deletion)
+ *
+ * @param raceId - Race ID as stored
+ */
+export function getRaceStorageKeys(raceId: string): string[] {
+  return [
+    getLegacyRaceKey(raceId, 'entry'),
+    getLegacyRaceKey(raceId, 'fault'),
+    getRaceItemsKey(raceId, 'entry'),
+    getRaceItemsKey(raceId, 'fault'),
+    getRaceChangesKey(raceId, 'entry'),
+    getRaceChangesKey(raceId, 'fault'),
+    getEntryIndexKey(raceId),
+    getEntryPhotosKey(raceId),
+    getEntryThumbnailsKey(raceId),
+  ];
+}
+
+/**
+ * Hash field of an item: unique per item ID and recording device
+ */
+export function getRaceItemField(item: {
+  id: string | number;
+  deviceId?: string;
+}): string {
+  return `${String(item.id)}:${item.deviceId ?? ''}`;
+}
+
+/**
+ * Entry index members of an entry's bib, point and run start with this
+ * (the bib is encoded so it cannot contain the separator)
+ */
+function getEntryIndexPrefix(entry: RaceItem): string {
+  return `${entry.point ?? ''}|${entry.run ?? 1}|${encodeURIComponent(entry.bib ?? '')}|`;
+}
+
+function getEntryIndexMember(entry: RaceItem): string {
+  return getEntryIndexPrefix(entry) + getRaceItemField(entry);
+}
+
+function parseItems<T>(values: (string | null)[]): T[] {
+  const items: T[] = [];
+  for (const value of values) {
+    const item = safeJsonParse<T | null>(value, null);
+    if (item && typeof item === 'object') items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Items of a race's JSON blob from before per-item storage (null = none)
+ */
+async function loadLegacyItems<T>(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+): Promise<{ items: T[]; lastUpdated: number | null } | null> {
+  const data = await client.get(getLegacyRaceKey(raceId, kind));
+  if (!data) return null;
+  const parsed = safeJsonParse(data, {}) as {
+    entries?: unknown;
+    faults?: unknown;
+    lastUpdated?: number | null;
+  };
+  const list = kind === 'entry' ? parsed.entries : parsed.faults;
+  return {
+    items: Array.isArray(list) ? (list as T[]) : [],
+    lastUpdated: parsed.lastUpdated || null,
+  };
+}
+
+/**
+ * Order items by timestamp (then field) so pages stay stable
+ */
+function compareItems(a: RaceItem, b: RaceItem): number {
+  const timeA = Date.parse(a.timestamp ?? '') || 0;
+  const timeB = Date.parse(b.timestamp ?? '') || 0;
+  return (
+    timeA - timeB || getRaceItemField(a).localeCompare(getRaceItemField(b))
+  );
+}
+
+/**
+ * Load a race's items, or only those changed since a time (delta sync).
+ * Photos are never loaded; with withPhotoFlags entries that have one are
+ * flagged with hasPhoto (the photo API serves the image).
+ */
+export async function loadRaceItems<T extends RaceItem>(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+  options: { since?: number; withPhotoFlags?: boolean } = {},
+): Promise<RaceItems<T>> {
+  const itemsKey = getRaceItemsKey(raceId, kind);
+  const changesKey = getRaceChangesKey(raceId, kind);
+  const { since, withPhotoFlags = false } = options;
+
+  const [legacy, latestChange, storedCount] = await Promise.all([
+    loadLegacyItems<T>(client, raceId, kind),
+    client.zrange(changesKey, -1, -1, 'WITHSCORES'),
+    client.hlen(itemsKey),
+  ]);
+
+  let items: T[];
+  if (since !== undefined) {
+    const fields = await client.zrangebyscore(changesKey, since, '+inf');
+    items =
+      fields.length > 0
+        ? parseItems<T>(await client.hmget(itemsKey, ...fields))
+        : [];
+  } else {
+    items = parseItems<T>(await client.hvals(itemsKey));
+  }
+
+  // Items still in a blob from before per-item storage (not yet migrated),
+  // with their inline photos left out
+  let total = storedCount;
+  const photoFields = new Set<string>();
+  if (legacy) {
+    const storedFields = new Set(items.map(getRaceItemField));
+    for (const { photo, ...item } of legacy.items) {
+      const field = getRaceItemField(item);
+      if (storedFields.has(field)) continue;
+      total++;
+      if (photo) photoFields.add(field);
+      if (
+        since === undefined ||
+        (typeof item.syncedAt === 'number' && item.syncedAt >= since)
+      ) {
+        items.push(item as T);
+      }
+    }
+  }
+
+  if (withPhotoFlags && kind === 'entry' && items.length > 0) {
+    for (const field of await client.hkeys(getEntryPhotosKey(raceId))) {
+      photoFields.add(field);
+    }
+    items = items.map((item) =>
+      photoFields.has(getRaceItemField(item))
+        ? { ...item, hasPhoto: true }
+        : item,
+    );
+  }
+
+  items.sort(compareItems);
+
+  const changedAt = Number(latestChange[1]) || null;
+  const lastUpdated =
+    Math.max(changedAt ?? 0, legacy?.lastUpdated ?? 0) || null;
+  return { items, total, lastUpdated };
+}
+
+/**
+ * Whether a race has items of a kind, how many and when they last changed,
+ * without loading them
+ */
+export async function getRaceItemsSummary(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+): Promise<{ exists: boolean; count: number; lastUpdated: number | null }> {
+  const [legacy, latestChange, count] = await Promise.all([
+    loadLegacyItems<RaceItem>(client, raceId, kind),
+    client.zrange(getRaceChangesKey(raceId, kind), -1, -1, 'WITHSCORES'),
+    client.hlen(getRaceItemsKey(raceId, kind)),
+  ]);
+  const changedAt = Number(latestChange[1]) || null;
+  return {
+    exists: legacy !== null || changedAt !== null,
+    count: count + (legacy?.items.length ?? 0),
+    lastUpdated: Math.max(changedAt ?? 0, legacy?.lastUpdated ?? 0) || null,
+  };
+}
+
+/**
+ * Move the items of a race's JSON blob into per-item storage and delete the
+ * blob. Items already stored per item win.
+ */
+export async function migrateLegacyItems(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+): Promise<void> {
+  const legacyKey = getLegacyRaceKey(raceId, kind);
+  if (!(await client.exists(legacyKey))) return;
+
+  const itemsKey = getRaceItemsKey(raceId, kind);
+  const changesKey = getRaceChangesKey(raceId, kind);
+  const photosKey = getEntryPhotosKey(raceId);
+
+  for (let retry = 0; retry < MAX_ATOMIC_RETRIES; retry++) {
+    await client.watch(legacyKey);
+    const legacy = await loadLegacyItems<RaceItem>(client, raceId, kind);
+    if (!legacy) {
+      // Migrated by a concurrent request
+      await client.unwatch();
+      return;
+    }
+
+    const multi = client.multi();
+    for (const item of legacy.items) {
+      const field = getRaceItemField(item);
+      const { photo, ...stored } = item;
+      multi.hsetnx(itemsKey, field, JSON.stringify(stored));
+      if (kind === 'entry' && photo) multi.hsetnx(photosKey, field, photo);
+      multi.zadd(
+        changesKey,
+        'NX',
+        item.syncedAt || legacy.lastUpdated || Date.now(),
+        field,
+      );
+    }
+    multi.del(legacyKey);
+    // Stored items may have won over blob items: index them again on the
+    // next lookup
+    if (kind === 'entry') multi.del(getEntryIndexKey(raceId));
+    multi.expire(itemsKey, CACHE_EXPIRY_SECONDS);
+    multi.expire(changesKey, CACHE_EXPIRY_SECONDS);
+    if (kind === 'entry') multi.expire(photosKey, CACHE_EXPIRY_SECONDS);
+
+    if ((await multi.exec()) !== null) {
+      apiLogger.info('Migrated race items to per-item storage', {
+        race: raceId,
+        kind,
+        count: legacy.items.length,
+      });
+      return;
+    }
+    // WATCH detected change, retry
+  }
+  // Release the stale WATCH of the last failed retry
+  await client.unwatch();
+  apiLogger.warn('migrateLegacyItems: max retries exceeded', {
+    race: raceId,
+    kind,
+  });
+}
+
+/**
+ * Queue the change log and expiry updates of changed item fields.
+ * The race PINs and the public results flag get the same expiry, so a race
+ * in use never falls back to the global PINs or stops being published.
+ */
+export function queueItemChanges(
+  multi: ReturnType<Redis['multi']>,
+  raceId: string,
+  kind: RaceItemKind,
+  fields: string[],
+  changedAt: number,
+): void {
+  const changesKey = getRaceChangesKey(raceId, kind);
+  for (const field of fields) {
+    multi.zadd(changesKey, changedAt, field);
+  }
+  multi.expire(getRaceItemsKey(raceId, kind), CACHE_EXPIRY_SECONDS);
+  multi.expire(changesKey, CACHE_EXPIRY_SECONDS);
+  if (kind === 'entry') {
+    multi.expire(getEntryIndexKey(raceId), CACHE_EXPIRY_SECONDS);
+    multi.expire(getEntryPhotosKey(raceId), CACHE_EXPIRY_SECONDS);
+    multi.expire(getEntryThumbnailsKey(raceId), CACHE_EXPIRY_SECONDS);
+  }
+  multi.expire(getRaceClientPinKey(raceId), CACHE_EXPIRY_SECONDS);
+  multi.expire(getRaceChiefJudgePinKey(raceId), CACHE_EXPIRY_SECONDS);
+  multi.expire(getPublicResultsKey(raceId), CACHE_EXPIRY_SECONDS);
+}
+
+/**
+ * Save an item. A new item claims its field with HSETNX (no transaction, so
+ * concurrent devices never conflict); an existing item is replaced with a
+ * WATCH compare-and-set only when options.shouldReplace allows it. The item
+ * limit is checked before adding and may be exceeded by concurrent adds.
+ */
+export async function saveRaceItem<T extends RaceItem>(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+  item: T,
+  options: SaveRaceItemOptions<T>,
+): Promise<SaveRaceItemResult<T>> {
+  await migrateLegacyItems(client, raceId, kind);
+
+  const itemsKey = getRaceItemsKey(raceId, kind);
+  const field = getRaceItemField(item);
+  const { photo, ...stored } = item;
+  const json = JSON.stringify(kind === 'entry' ? stored : item);
+
+  // Photos posted inline with an entry (older clients); the thumbnail is
+  // created again on request
+  const queuePhoto = (multi: ReturnType<Redis['multi']>) => {
+    if (kind === 'entry' && photo) {
+      multi.hset(getEntryPhotosKey(raceId), field, photo);
+      multi.hdel(getEntryThumbnailsKey(raceId), field);
+    }
+  };
+
+  if (!(await client.hexists(itemsKey, field))) {
+    if (options.existingOnly) return { status: 'missing' };
+    if ((await client.hlen(itemsKey)) >= options.maxItems) {
+      return { status: 'limit' };
+    }
+    if (await client.hsetnx(itemsKey, field, json)) {
+      const multi = client.multi();
+      if (kind === 'entry') {
+        multi.zadd(getEntryIndexKey(raceId), 0, getEntryIndexMember(item));
+      }
+      queuePhoto(multi);
+      queueItemChanges(multi, raceId, kind, [field], Date.now());
+      await multi.exec();
+      return { status: 'added' };
+    }
+    // Added by a concurrent request - compare as an existing item
+  }
+
+  for (let retry = 0; retry < MAX_ATOMIC_RETRIES; retry++) {
+    await client.watch(itemsKey);
+    const previous = safeJsonParse<T | null>(
+      await client.hget(itemsKey, field),
+      null,
+    );
+    if (previous && !options.shouldReplace(previous)) {
+      await client.unwatch();
+      return { status: 'duplicate', previous };
+    }
+    if (!previous && options.existingOnly) {
+      await client.unwatch();
+      return { status: 'missing' };
+    }
+
+    // Without a new photo the stored photo stays
+    const multi = client.multi();
+    multi.hset(itemsKey, field, json);
+    if (kind === 'entry') {
+      const indexKey = getEntryIndexKey(raceId);
+      if (previous) multi.zrem(indexKey, getEntryIndexMember(previous));
+      multi.zadd(indexKey, 0, getEntryIndexMember(item));
+    }
+    queuePhoto(multi);
+    queueItemChanges(multi, raceId, kind, [field], Date.now());
+    if ((await multi.exec()) !== null) {
+      return { status: 'updated', previous };
+    }
+    // WATCH detected change, retry
+  }
+  await client.unwatch();
+  apiLogger.warn('saveRaceItem: max retries exceeded', { race: raceId, kind });
+  return { status: 'conflict' };
+}
+
+/**
+ * Delete an item by ID - the one recorded by deviceId, or every device's
+ * item with that ID when no device is given. The items are read and deleted
+ * in one WATCH compare-and-set, so canDelete sees what is deleted. Deletions
+ * are kept in the change log so lastUpdated moves on.
+ */
+export async function deleteRaceItems<T extends RaceItem>(
+  client: Redis,
+  raceId: string,
+  kind: RaceItemKind,
+  itemId: string,
+  deviceId: string,
+  options: DeleteRaceItemsOptions<T> = {},
+): Promise<DeleteRaceItemsResult<T>> {
+  await migrateLegacyItems(client, raceId, kind);
+
+  const itemsKey = getRaceItemsKey(raceId, kind);
+
+  for (let retry = 0; retry < MAX_ATOMIC_RETRIES; retry++) {
+    await client.watch(itemsKey);
+    const fields = deviceId
+      ? [getRaceItemField({ id: itemId, deviceId })]
+      : (await client.hkeys(itemsKey)).filter((field) =>
+          field.startsWith(`${itemId}:`),
+        );
+    if (fields.length === 0) {
+      await client.unwatch();
+      return { status: 'deleted', removed: 0 };
+    }
+
+    const deleted = parseItems<T>(await client.hmget(itemsKey, ...fields));
+    const kept = options.canDelete
+      ? deleted.find((item) => !options.canDelete!(item))
+      : undefined;
+    if (kept) {
+      await client.unwatch();
+      return { status: 'kept', item: kept };
+    }
+
+    const multi = client.multi();
+    multi.hdel(itemsKey, ...fields);
+    if (kind === 'entry') {
+      if (deleted.length > 0) {
+        multi.zrem(
+          getEntryIndexKey(raceId),
+          ...deleted.map(getEntryIndexMember),
+        );
+      }
+      multi.hdel(getEntryPhotosKey(raceId), ...fields);
+      multi.hdel(getEntryThumbnailsKey(raceId), ...fields);
+    }
+    queueItemChanges(multi, raceId, kind, fields, Date.now());
+    const result = await multi.exec();
+    if (result !== null) {
+      const removed = result[0]?.[1];
+      return {
+        status: 'deleted',
+        removed: typeof removed === 'number' ? removed : 0,
+      };
+    }
+    // WATCH detected change, retry
+  }
+  await client.unwatch();
+  apiLogger.warn('deleteRaceItems: max retries exceeded', {
+    race: raceId,
+    kind,
+  });
+  return { status: 'conflict' };
+}
+
+/**
+ * Entries stored at an entry's bib, point and run (of any device), looked up
+ * in the entry index. Races written before the index (or just migrated)
+ * have it built from their stored entries first.
+ */
+export async function loadEntriesAt<T extends RaceItem>(
+  client: Redis,
+  raceId: string,
+  entry: RaceItem,
+): Promise<T[]> {
+  await migrateLegacyItems(client, raceId, 'entry');
+
+  const itemsKey = getRaceItemsKey(raceId, 'entry');
+  const indexKey = getEntryIndexKey(raceId);
+  if (!(await client.exists(indexKey))) {
+    const stored = parseItems<RaceItem>(await client.hvals(itemsKey));
+    if (stored.length === 0) return [];
+    await client.zadd(
+      indexKey,
+      ...stored.flatMap((item) => [0, getEntryIndexMember(item)]),
+    );
+    await client.expire(indexKey, CACHE_EXPIRY_SECONDS);
+  }
+
+  // Every member from the prefix up to the prefix with its trailing
+  // separator bumped to the next character
+  const prefix = getEntryIndexPrefix(entry);
+  const members = await client.zrangebylex(
+    indexKey,
+    `[${prefix}`,
+    `(${prefix.slice(0, -1)}}`,
+  );
+  if (members.length === 0) return [];
+  return parseItems<T>(
+    await client.hmget(
+      itemsKey,
+      ...members.map((member) => member.slice(prefix.length)),
+    ),
+  );
+}
@@ -10,6 +10,18 @@ import { apiLogger } from './apiLogger.js';
 export const CLIENT_PIN_KEY: string = 'admin:clientPin';
 export const CHIEF_JUDGE_PIN_KEY: string = 'admin:chiefJudgePin';
 
+/**
+ * Per-race PIN keys. When set, they replace the global PINs for that race
+ * and tokens issued with them are scoped to the race (raceId claim).
+ */
+export function getRaceClientPinKey(raceId: string): string {
+  return `race:${raceId}:clientPin`;
+}
+
+export function getRaceChiefJudgePinKey(raceId: string): string {
+  return `race:${raceId}:chiefJudgePin`;
+}
+
 // Singleton Redis client
 let redis: Redis | null = null;
 let redisError: Error | null = null;
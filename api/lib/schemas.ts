@@ -5,6 +5,24 @@
  */
 
 import * as v from 'valibot';
+import {
+  getProtestOutcome,
+  MAX_GATE_COUNT,
+  MAX_HOMOLOGATION_LENGTH,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_JURY_MEMBERS,
+  MAX_PENALTY_SECONDS,
+  MAX_PROTEST_PHOTOS,
+  MAX_PROTEST_TEXT_LENGTH,
+  MAX_RACE_NAME_LENGTH,
+  MAX_RUNS,
+  MAX_START_LIST_SIZE,
+  VALID_DISCIPLINES,
+  VALID_GATE_COLORS,
+  VALID_JURY_ROLES,
+  VALID_POINTS,
+  VALID_PROTEST_OUTCOMES,
+} from './validation.js';
 
 // ─── Shared Schemas ───
 
@@ -23,9 +41,17 @@ export const DeviceNameSchema = v.pipe(v.string(), v.maxLength(100));
 
 export const BibSchema = v.pipe(v.string(), v.minLength(1), v.maxLength(10));
 
-export const RunSchema = v.union([v.literal(1), v.literal(2)]);
+// Run 1 up to MAX_RUNS (whether a race has the run is its race config)
+export const RunSchema = v.pipe(
+  v.number(),
+  v.integer(),
+  v.minValue(1),
+  v.maxValue(MAX_RUNS),
+);
 
-export const TimingPointSchema = v.union([v.literal('S'), v.literal('F')]);
+// Start, intermediates I1-I9 and finish (which intermediates a race uses is
+// its race config - entries for any valid point are accepted)
+export const TimingPointSchema = v.picklist(VALID_POINTS);
 
 export const EntryStatusSchema = v.union([
   v.literal('ok'),
@@ -72,6 +98,10 @@ export const EntrySchema = v.object({
       accuracy: v.number(),
     }),
   ),
+  deviceId: v.optional(v.string()),
+  deviceName: v.optional(v.string()),
+  currentVersion: v.optional(v.pipe(v.number(), v.integer(), v.minValue(1))),
+  versionHistory: v.optional(v.array(v.unknown())),
 });
 
 export const SyncPostBodySchema = v.object({
@@ -86,6 +116,19 @@ export const SyncDeleteBodySchema = v.object({
   deviceName: v.optional(v.string()),
 });
 
+// ─── Photo Schemas ───
+
+export const PhotoPostBodySchema = v.object({
+  entryId: v.union([v.string(), v.number()]),
+  deviceId: v.pipe(v.string(), v.minLength(1), v.maxLength(50)),
+  photo: v.pipe(v.string(), v.minLength(1)),
+});
+
+export const PhotoDeleteBodySchema = v.object({
+  entryId: v.union([v.string(), v.number()]),
+  deviceId: v.pipe(v.string(), v.minLength(1), v.maxLength(50)), // Entry's device
+});
+
 // ─── Fault Schemas ───
 
 export const GateRangeSchema = v.pipe(v.array(v.number()), v.length(2));
@@ -94,7 +137,7 @@ export const FaultEntrySchema = v.object({
   id: v.union([v.number(), v.pipe(v.string(), v.minLength(1))]),
   bib: BibSchema,
   run: RunSchema,
-  gateNumber: v.pipe(v.number(), v.minValue(1), v.maxValue(100)),
+  gateNumber: v.pipe(v.number(), v.minValue(1), v.maxValue(MAX_GATE_COUNT)),
   faultType: FaultTypeSchema,
   timestamp: TimestampSchema,
   gateRange: GateRangeSchema,
@@ -129,6 +172,248 @@ export const FaultDeleteBodySchema = v.object({
   approvedBy: v.optional(v.string()),
 });
 
+// ─── Start List Schemas ───
+
+export const AgeCategorySchema = v.union([
+  v.literal('U6'),
+  v.literal('U8'),
+  v.literal('U10'),
+  v.literal('U12'),
+  v.literal('U14'),
+  v.literal('U16'),
+  v.literal('masters'),
+]);
+
+export const GenderSchema = v.union([v.literal('M'), v.literal('F')]);
+
+export const RacerSchema = v.object({
+  bib: BibSchema,
+  name: v.pipe(v.string(), v.minLength(1), v.maxLength(100)),
+  club: v.optional(v.pipe(v.string(), v.maxLength(100))),
+  nation: v.optional(v.pipe(v.string(), v.maxLength(10))),
+  gender: v.optional(GenderSchema),
+  ageCategory: v.optional(AgeCategorySchema),
+  birthYear: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(1900), v.maxValue(2100)),
+  ),
+});
+
+export const StartListPostBodySchema = v.object({
+  racers: v.pipe(v.array(RacerSchema), v.maxLength(MAX_START_LIST_SIZE)),
+  deviceName: v.optional(v.string()),
+});
+
+// ─── Penalty Schemas ───
+
+export const PenaltyRuleSchema = v.object({
+  usePenaltyMode: v.boolean(),
+  penaltySeconds: v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(0),
+    v.maxValue(MAX_PENALTY_SECONDS),
+  ),
+});
+
+export const PenaltyRulesSchema = v.object({
+  U6: v.optional(PenaltyRuleSchema),
+  U8: v.optional(PenaltyRuleSchema),
+  U10: v.optional(PenaltyRuleSchema),
+  U12: v.optional(PenaltyRuleSchema),
+  U14: v.optional(PenaltyRuleSchema),
+  U16: v.optional(PenaltyRuleSchema),
+  masters: v.optional(PenaltyRuleSchema),
+});
+
+export const PenaltyConfigPostBodySchema = v.object({
+  ...PenaltyRuleSchema.entries,
+  rules: PenaltyRulesSchema,
+  deviceName: v.optional(v.string()),
+});
+
+// ─── Race Config Schemas ───
+
+// Every section is optional: devices send only the sections they changed and
+// the server merges them into the stored config
+export const RaceConfigPostBodySchema = v.object({
+  intermediatePoints: v.optional(
+    v.pipe(
+      v.number(),
+      v.integer(),
+      v.minValue(0),
+      v.maxValue(MAX_INTERMEDIATE_POINTS),
+    ),
+  ),
+  runCount: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(MAX_RUNS)),
+  ),
+  // Official timer per point; other devices at the point are backups
+  primaryDevices: v.optional(
+    v.record(
+      v.picklist(VALID_POINTS),
+      v.pipe(
+        v.string(),
+        v.startsWith('dev_'),
+        v.minLength(5),
+        v.maxLength(100),
+      ),
+    ),
+  ),
+  // Course map: gate positions recorded by walking the course
+  courseGates: v.optional(
+    v.pipe(
+      v.array(
+        v.object({
+          number: v.pipe(
+            v.number(),
+            v.integer(),
+            v.minValue(1),
+            v.maxValue(MAX_GATE_COUNT),
+          ),
+          color: v.picklist(VALID_GATE_COLORS),
+          latitude: v.pipe(v.number(), v.minValue(-90), v.maxValue(90)),
+          longitude: v.pipe(v.number(), v.minValue(-180), v.maxValue(180)),
+        }),
+      ),
+      v.maxLength(MAX_GATE_COUNT),
+    ),
+  ),
+  // Protest deadline per run: run number → timestamp (ms)
+  protestDeadlines: v.optional(
+    v.record(
+      v.pipe(v.string(), v.regex(/^[1-9]$/)),
+      v.pipe(v.number(), v.integer(), v.minValue(1)),
+    ),
+  ),
+  deviceName: v.optional(v.string()),
+});
+
+// ─── Protest Schemas ───
+
+const ProtestTextSchema = v.pipe(
+  v.string(),
+  v.maxLength(MAX_PROTEST_TEXT_LENGTH),
+);
+
+// Fields of every protest; the variants add the contested fault or status
+const ProtestBaseSchema = v.object({
+  id: v.pipe(v.string(), v.minLength(1), v.maxLength(150)),
+  bib: BibSchema,
+  run: RunSchema,
+  targetId: v.pipe(v.string(), v.minLength(1), v.maxLength(150)),
+  filedBy: v.pipe(v.string(), v.minLength(1), v.maxLength(100)),
+  filedAt: TimestampSchema,
+  reason: v.pipe(ProtestTextSchema, v.minLength(1)),
+  evidenceNote: v.optional(ProtestTextSchema),
+  evidenceNoteSource: v.optional(
+    v.union([v.literal('voice'), v.literal('manual')]),
+  ),
+});
+
+export const ProtestPostBodySchema = v.object({
+  protest: v.variant('targetType', [
+    v.object({
+      ...ProtestBaseSchema.entries,
+      targetType: v.literal('fault'),
+      fault: v.object({
+        gateNumber: v.pipe(
+          v.number(),
+          v.integer(),
+          v.minValue(1),
+          v.maxValue(MAX_GATE_COUNT),
+        ),
+        faultType: FaultTypeSchema,
+        deviceName: DeviceNameSchema,
+      }),
+    }),
+    v.object({
+      ...ProtestBaseSchema.entries,
+      targetType: v.literal('entry'),
+      currentStatus: v.optional(EntryStatusSchema),
+      requestedStatus: EntryStatusSchema,
+    }),
+  ]),
+  // Evidence photos (image data URLs)
+  photos: v.optional(
+    v.pipe(v.array(v.string()), v.maxLength(MAX_PROTEST_PHOTOS)),
+  ),
+  deviceId: v.optional(DeviceIdSchema),
+  deviceName: v.optional(v.string()),
+});
+
+const VoteCountSchema = v.pipe(
+  v.number(),
+  v.integer(),
+  v.minValue(0),
+  v.maxValue(99),
+);
+
+// The outcome must be the one the vote decides (see getProtestOutcome)
+export const ProtestDecisionBodySchema = v.pipe(
+  v.object({
+    protestId: v.pipe(v.string(), v.minLength(1), v.maxLength(150)),
+    outcome: v.picklist(VALID_PROTEST_OUTCOMES),
+    votesFor: VoteCountSchema,
+    votesAgainst: VoteCountSchema,
+    abstentions: VoteCountSchema,
+    rationale: v.pipe(ProtestTextSchema, v.minLength(1)),
+    deviceId: v.optional(DeviceIdSchema),
+    deviceName: v.optional(v.string()),
+  }),
+  v.check(
+    (body) =>
+      body.outcome === getProtestOutcome(body.votesFor, body.votesAgainst),
+    'outcome does not match the vote majority',
+  ),
+);
+
+// ─── Race Definition Schemas ───
+
+export const DisciplineSchema = v.picklist(VALID_DISCIPLINES);
+
+export const JuryMemberSchema = v.object({
+  role: v.picklist(VALID_JURY_ROLES),
+  name: v.pipe(v.string(), v.minLength(1), v.maxLength(MAX_RACE_NAME_LENGTH)),
+});
+
+// Runs and penalty rules (default and per age category) are merged into the
+// race config and penalty config, which stay the source of truth for timing
+// devices; what is not sent is kept there
+export const RaceDefinitionPostBodySchema = v.object({
+  name: v.pipe(v.string(), v.minLength(1), v.maxLength(MAX_RACE_NAME_LENGTH)),
+  date: v.optional(v.pipe(v.string(), v.regex(/^\d{4}-\d{2}-\d{2}$/))),
+  venue: v.optional(v.pipe(v.string(), v.maxLength(MAX_RACE_NAME_LENGTH))),
+  discipline: DisciplineSchema,
+  runCount: v.optional(
+    v.pipe(v.number(), v.integer(), v.minValue(1), v.maxValue(MAX_RUNS)),
+  ),
+  gateCount: v.pipe(
+    v.number(),
+    v.integer(),
+    v.minValue(1),
+    v.maxValue(MAX_GATE_COUNT),
+  ),
+  homologationNumber: v.optional(
+    v.pipe(v.string(), v.maxLength(MAX_HOMOLOGATION_LENGTH)),
+  ),
+  jury: v.optional(
+    v.pipe(v.array(JuryMemberSchema), v.maxLength(MAX_JURY_MEMBERS)),
+  ),
+  penalty: v.optional(
+    v.object({
+      ...PenaltyRuleSchema.entries,
+      rules: v.optional(PenaltyRulesSchema),
+    }),
+  ),
+  deviceName: v.optional(v.string()),
+});
+
+// ─── Results Schemas ───
+
+export const PublishResultsBodySchema = v.object({
+  published: v.boolean(),
+});
+
 // ─── Auth Schemas ───
 
 export const TokenRequestSchema = v.object({
@@ -153,12 +438,21 @@ export type FaultEntry = v.InferOutput<typeof FaultEntrySchema>;
 export type TokenRequest = v.InferOutput<typeof TokenRequestSchema>;
 export type Role = v.InferOutput<typeof RoleSchema>;
 export type FaultType = v.InferOutput<typeof FaultTypeSchema>;
+export type Racer = v.InferOutput<typeof RacerSchema>;
+export type PenaltyRules = v.InferOutput<typeof PenaltyRulesSchema>;
+export type Discipline = v.InferOutput<typeof DisciplineSchema>;
+export type JuryMember = v.InferOutput<typeof JuryMemberSchema>;
+export type TimingPoint = v.InferOutput<typeof TimingPointSchema>;
+export type ProtestInput = v.InferOutput<
+  typeof ProtestPostBodySchema
+>['protest'];
 
 /** Server-enriched fault entry with fields added during sync */
 export type StoredFaultEntry = FaultEntry & {
   deviceId: string;
   deviceName: string;
   syncedAt: number;
+  reversedByProtestId?: string; // Set when an upheld protest reversed it
 };
 
 /**
@@ -5,31 +5,74 @@
  * without circular dependencies.
  */
 
+import type { SharedTimeSource, SharedTimingPoint } from './validation.js';
+
 export interface DeviceData {
   name: string;
   lastSeen: number;
 }
 
+/** Clock state a device reports with its heartbeat */
+export interface DeviceClock {
+  source: 'gps' | 'server' | 'system';
+  /** Device clock minus server time on receipt (includes network latency) */
+  skewMs: number;
+  /** GPS time minus system time, null without a GPS fix */
+  gpsOffsetMs: number | null;
+  /** GPS position accuracy in meters, null without a GPS fix */
+  gpsAccuracy: number | null;
+  /** Timing point the device records, null for gate judges */
+  point: SharedTimingPoint | null;
+}
+
+/** Last clock report of a device, as returned to the chief judge */
+export interface DeviceClockReport extends DeviceClock {
+  deviceId: string;
+  name: string;
+  lastSeen: number;
+}
+
 export interface GpsCoords {
   latitude: number;
   longitude: number;
   accuracy: number;
 }
 
+/** One version of an entry's edit history (bib, status and run) */
+export interface EntryVersion {
+  version: number;
+  timestamp: string;
+  editedBy: string;
+  editedByDeviceId: string;
+  changeType: 'create' | 'edit';
+  data: {
+    bib: string;
+    status: 'ok' | 'dns' | 'dnf' | 'dsq' | 'flt';
+    run: number;
+  };
+}
+
 export interface RaceEntry {
   id: string | number;
   bib?: string;
-  point: 'S' | 'F';
+  point: SharedTimingPoint;
   timestamp: string;
   status?: 'ok' | 'dns' | 'dnf' | 'dsq' | 'flt';
-  run?: 1 | 2;
+  run?: number;
   deviceId?: string;
   deviceName?: string;
   photo?: string;
+  hasPhoto?: boolean; // Set in GET responses - the photo API serves the image
   gpsCoords?: GpsCoords;
   syncedAt?: number;
-  timeSource?: 'gps' | 'system';
+  timeSource?: SharedTimeSource;
   gpsTimestamp?: number;
+  timeUncertainty?: number; // ± ms of the server clock sync
+  enteredBy?: string; // Official who typed a manual time
+  currentVersion?: number; // Absent = 1 (never edited)
+  versionHistory?: EntryVersion[];
+  editedBy?: string; // Device that posted the stored version (edits only)
+  editedByDeviceId?: string;
 }
 
 export interface RaceData {
@@ -54,19 +97,12 @@ export interface PhotoRateLimitResult {
 
 export interface AtomicAddResult {
   success: boolean;
-  existing: RaceData;
   isDuplicate?: boolean;
+  isUpdate?: boolean;
   crossDeviceDuplicate?: CrossDeviceDuplicate | null;
   error?: string;
 }
 
-export interface AtomicDeleteResult {
-  success: boolean;
-  wasRemoved?: boolean;
-  existing?: RaceData;
-  error?: string;
-}
-
 export interface HighestBibResult {
   success: boolean;
   error?: string;
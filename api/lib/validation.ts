@@ -1,19 +1,66 @@
 /**
  * API Validation Utilities
- * Core validation (isValidRaceId, constants) imported from shared/validation.ts
+ * Core validation (isValidRaceId, constants) imported from shared/validation.ts;
+ * the rest of the API reaches shared/ only through the re-exports below
  */
 
 import type Redis from 'ioredis';
 
+// Re-export shared gate coverage
+export {
+  computeGateCoverage,
+  type GateCoverage,
+} from '../../shared/gateCoverage.js';
+// Re-export the shared results engine
+export {
+  computeRaceResults,
+  DEFAULT_PENALTY_OPTIONS,
+  DEFAULT_PENALTY_RULES,
+  type RaceResults,
+  type ResultPenaltyConfig,
+  type ResultPenaltyOptions,
+} from '../../shared/results.js';
 // Re-export shared validation functions and constants
 export {
+  DEFAULT_RUN_COUNT,
+  getProtestOutcome,
+  getTimingPoints,
+  isNewerEntryVersion,
+  isValidDeviceId,
+  isValidProtest,
   isValidRaceId,
+  isValidRun,
   MAX_BIB_LENGTH,
   MAX_DEVICE_NAME_LENGTH,
+  MAX_GATE_COUNT,
+  MAX_HOMOLOGATION_LENGTH,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_JURY_MEMBERS,
+  MAX_PENALTY_SECONDS,
+  MAX_PROTEST_PHOTOS,
+  MAX_PROTEST_TEXT_LENGTH,
   MAX_RACE_ID_LENGTH,
+  MAX_RACE_NAME_LENGTH,
+  MAX_RUNS,
+  MAX_START_LIST_SIZE,
+  type SharedCourseGate,
+  type SharedJuryDecision,
+  type SharedPrimaryDevices,
+  type SharedProtest,
+  type SharedProtestDeadlines,
+  type SharedTimeSource,
+  type SharedTimingPoint,
+  sanitizeCourseGates,
+  sanitizePrimaryDevices,
+  sanitizeProtestDeadlines,
+  VALID_DISCIPLINES,
   VALID_FAULT_TYPES,
+  VALID_GATE_COLORS,
+  VALID_JURY_ROLES,
   VALID_POINTS,
+  VALID_PROTEST_OUTCOMES,
   VALID_STATUSES,
+  VALID_TIME_SOURCES,
 } from '../../shared/validation.js';
 
 /** Rate limit configuration */
@@ -1,19 +1,99 @@
+import type { VercelResponse } from '@vercel/node';
+import type Redis from 'ioredis';
 import { apiLogger } from '../../lib/apiLogger.js';
+import { CACHE_EXPIRY_SECONDS } from '../../lib/atomicOps.js';
 import { createHandler } from '../../lib/handler.js';
-import { hashPin, verifyPin } from '../../lib/jwt.js';
-import { CHIEF_JUDGE_PIN_KEY, CLIENT_PIN_KEY } from '../../lib/redis.js';
+import { hashPin, type TokenPayload, verifyPin } from '../../lib/jwt.js';
+import {
+  CHIEF_JUDGE_PIN_KEY,
+  CLIENT_PIN_KEY,
+  getRaceChiefJudgePinKey,
+  getRaceClientPinKey,
+} from '../../lib/redis.js';
 import { sendBadRequest, sendError, sendSuccess } from '../../lib/response.js';
+import { isValidRaceId } from '../../lib/validation.js';
 
 interface ChangePinRequestBody {
   currentPin?: string;
   newPin?: string;
+  raceId?: string;
+  newChiefPin?: string;
+}
+
+/**
+ * Set the race PIN and Chief Judge PIN of a race.
+ * The first setup (race creation) requires a global (unscoped) Chief Judge
+ * token; once a race has PINs, only a Chief Judge token scoped to that race
+ * may change them. Tokens scoped to another race are always rejected.
+ */
+async function setRacePins(
+  res: VercelResponse,
+  client: Redis,
+  payload: TokenPayload | undefined,
+  body: ChangePinRequestBody,
+): Promise<void> {
+  const { raceId, newPin, newChiefPin } = body;
+
+  if (typeof raceId !== 'string' || !isValidRaceId(raceId)) {
+    return sendBadRequest(res, 'Invalid raceId format');
+  }
+
+  if (typeof newPin !== 'string' || typeof newChiefPin !== 'string') {
+    return sendBadRequest(res, 'newPin and newChiefPin are required');
+  }
+
+  if (!/^\d{4}$/.test(newPin) || !/^\d{4}$/.test(newChiefPin)) {
+    return sendBadRequest(res, 'PINs must be exactly 4 digits');
+  }
+
+  const normalizedRaceId = raceId.toLowerCase();
+  const tokenRaceId = payload?.raceId;
+  if (tokenRaceId !== undefined && tokenRaceId !== normalizedRaceId) {
+    return sendError(res, 'Token is not valid for this race', 403);
+  }
+
+  const pinKey = getRaceClientPinKey(normalizedRaceId);
+  const chiefPinKey = getRaceChiefJudgePinKey(normalizedRaceId);
+
+  const [pinHash, chiefPinHash] = await Promise.all([
+    client.get(pinKey),
+    client.get(chiefPinKey),
+  ]);
+  if ((pinHash || chiefPinHash) && tokenRaceId !== normalizedRaceId) {
+    return sendError(
+      res,
+      'Changing race PINs requires a Chief Judge token for this race',
+      403,
+    );
+  }
+  if (!pinHash && !chiefPinHash && tokenRaceId !== undefined) {
+    return sendError(
+      res,
+      'Setting the first race PINs requires a global Chief Judge token',
+      403,
+    );
+  }
+
+  const [newPinHash, newChiefPinHash] = await Promise.all([
+    hashPin(newPin),
+    hashPin(newChiefPin),
+  ]);
+  await client.set(pinKey, newPinHash, 'EX', CACHE_EXPIRY_SECONDS);
+  await client.set(chiefPinKey, newChiefPinHash, 'EX', CACHE_EXPIRY_SECONDS);
+
+  apiLogger.info('Race PINs set via admin/pin API', {
+    raceId: normalizedRaceId,
+  });
+  return sendSuccess(res, { success: true, raceId: normalizedRaceId });
 }
 
 /**
  * Admin PIN Status API
  *
- * GET: Returns whether PINs are set (boolean flags only, never hashes)
- * POST: Change PIN - requires current PIN verification
+ * GET: Returns whether PINs are set (boolean flags only, never hashes).
+ *      With ?raceId=, also whether that race has its own PINs.
+ * POST: Change PIN - requires current PIN verification.
+ *       With raceId in the body, sets the race PINs instead (see setRacePins).
  *
  * SECURITY: PIN hashes are never exposed to clients to prevent:
  * - Offline brute-force attacks (4-digit = only 10,000 possibilities)
@@ -29,6 +109,20 @@ export default createHandler(
       // Return only boolean flags - NEVER expose actual hashes
       const pinHash = await client.get(CLIENT_PIN_KEY);
       const chiefPinHash = await client.get(CHIEF_JUDGE_PIN_KEY);
+
+      const raceId = req.query?.raceId;
+      if (typeof raceId === 'string' && isValidRaceId(raceId)) {
+        const normalizedRaceId = raceId.toLowerCase();
+        const racePinHash = await client.get(
+          getRaceClientPinKey(normalizedRaceId),
+        );
+        return sendSuccess(res, {
+          hasPin: !!pinHash,
+          hasChiefPin: !!chiefPinHash,
+          raceHasPin: !!racePinHash,
+        });
+      }
+
       return sendSuccess(res, {
         hasPin: !!pinHash,
         hasChiefPin: !!chiefPinHash,
@@ -42,8 +136,13 @@ export default createHandler(
         return sendError(res, 'PIN change requires Chief Judge role', 403);
       }
 
+      const body = (req.body || {}) as ChangePinRequestBody;
+      if (body.raceId !== undefined) {
+        return await setRacePins(res, client, auth?.payload, body);
+      }
+
       // Change PIN - requires current PIN verification
-      const { currentPin, newPin } = (req.body || {}) as ChangePinRequestBody;
+      const { currentPin, newPin } = body;
 
       // Validate inputs
       if (!currentPin || !newPin) {
@@ -0,0 +1,206 @@
+import { CACHE_EXPIRY_SECONDS } from '../../lib/atomicOps.js';
+import { createHandler } from '../../lib/handler.js';
+import {
+  compactPenaltyRules,
+  getPenaltyConfigKey,
+  parsePenaltyConfig,
+  updatePenaltyConfig,
+} from '../../lib/penaltyConfig.js';
+import {
+  getRaceConfigKey,
+  parseRaceConfig,
+  updateRaceConfig,
+} from '../../lib/raceConfig.js';
+import {
+  getRaceDefinitionKey,
+  parseRaceDefinition,
+  type StoredRaceDefinition,
+} from '../../lib/raceDefinition.js';
+import {
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../lib/response.js';
+import { RaceDefinitionPostBodySchema, validate } from '../../lib/schemas.js';
+import {
+  isValidRaceId,
+  MAX_DEVICE_NAME_LENGTH,
+  MAX_HOMOLOGATION_LENGTH,
+  MAX_RACE_NAME_LENGTH,
+} from '../../lib/validation.js';
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST'],
+    rateLimit: {
+      keyPrefix: 'racedefinition',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 20,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+
+    const definitionKey = getRaceDefinitionKey(normalizedRaceId);
+    const configKey = getRaceConfigKey(normalizedRaceId);
+    const penaltiesKey = getPenaltyConfigKey(normalizedRaceId);
+
+    const [definitionData, configData, penaltiesData] = await Promise.all([
+      client.get(definitionKey),
+      client.get(configKey),
+      client.get(penaltiesKey),
+    ]);
+    const config = parseRaceConfig(configData);
+    const penalties = parsePenaltyConfig(penaltiesData);
+
+    if (req.method === 'GET') {
+      return sendSuccess(res, {
+        definition: parseRaceDefinition(definitionData),
+        runCount: config.runCount,
+        penalty: {
+          usePenaltyMode: penalties.usePenaltyMode,
+          penaltySeconds: penalties.penaltySeconds,
+          rules: penalties.rules,
+        },
+      });
+    }
+
+    // The race definition sets runs and penalties for every device - Chief
+    // Judge only
+    const userRole = auth?.payload?.role as string | undefined;
+    if (userRole !== 'chiefJudge') {
+      log.warn('Race definition write DENIED', {
+        role: userRole,
+        expected: 'chiefJudge',
+        ip: clientIP,
+      });
+      return sendError(
+        res,
+        'Race definition changes require Chief Judge role',
+        403,
+      );
+    }
+
+    const bodyResult = validate(RaceDefinitionPostBodySchema, req.body);
+    if (!bodyResult.success) {
+      return sendBadRequest(
+        res,
+        `Invalid race definition: ${bodyResult.error}`,
+      );
+    }
+
+    const body = bodyResult.data;
+    const now = Date.now();
+    const updatedBy = sanitizeString(body.deviceName, MAX_DEVICE_NAME_LENGTH);
+    const existing = parseRaceDefinition(definitionData);
+
+    const venue = sanitizeString(body.venue, MAX_RACE_NAME_LENGTH);
+    const homologationNumber = sanitizeString(
+      body.homologationNumber,
+      MAX_HOMOLOGATION_LENGTH,
+    );
+    const definition: StoredRaceDefinition = {
+      name: sanitizeString(body.name, MAX_RACE_NAME_LENGTH),
+      ...(body.date ? { date: body.date } : {}),
+      ...(venue ? { venue } : {}),
+      discipline: body.discipline,
+      gateCount: body.gateCount,
+      ...(homologationNumber ? { homologationNumber } : {}),
+      jury: (body.jury ?? []).map((member) => ({
+        role: member.role,
+        name: sanitizeString(member.name, MAX_RACE_NAME_LENGTH),
+      })),
+      createdAt: existing?.createdAt || now,
+      lastUpdated: now,
+      updatedBy,
+    };
+
+    await client.set(
+      definitionKey,
+      JSON.stringify(definition),
+      'EX',
+      CACHE_EXPIRY_SECONDS,
+    );
+
+    // Runs live in the race config: merge them into the config as stored
+    // now, keeping intermediate points, primary devices, course map and
+    // protest deadlines another device may be changing. The new lastUpdated
+    // makes devices pick up the definition on their next poll.
+    const storedConfig = await updateRaceConfig(
+      client,
+      normalizedRaceId,
+      (current) => ({
+        ...current,
+        runCount: body.runCount ?? current.runCount,
+        lastUpdated: now,
+        updatedBy,
+      }),
+    );
+
+    // The default penalty rule replaces the penalty config's default, per
+    // age category rules only when sent
+    const penaltyUpdate = body.penalty;
+    const penalty = penaltyUpdate
+      ? await updatePenaltyConfig(client, normalizedRaceId, (current) => ({
+          ...current,
+          usePenaltyMode: penaltyUpdate.usePenaltyMode,
+          penaltySeconds: penaltyUpdate.penaltySeconds,
+          rules: penaltyUpdate.rules
+            ? compactPenaltyRules(penaltyUpdate.rules)
+            : current.rules,
+          lastUpdated: now,
+          updatedBy,
+        }))
+      : penalties;
+
+    if (!storedConfig || !penalty) {
+      return sendError(
+        res,
+        'Concurrent modification conflict, please retry',
+        409,
+      );
+    }
+
+    log.info('Race definition updated', {
+      race: normalizedRaceId,
+      discipline: definition.discipline,
+      runCount: storedConfig.runCount,
+      gateCount: definition.gateCount,
+      created: !existing,
+      updatedBy,
+      ip: clientIP,
+    });
+
+    return sendSuccess(res, {
+      success: true,
+      definition,
+      runCount: storedConfig.runCount,
+      penalty: {
+        usePenaltyMode: penalty.usePenaltyMode,
+        penaltySeconds: penalty.penaltySeconds,
+        rules: penalty.rules,
+      },
+    });
+  },
+);
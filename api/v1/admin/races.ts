@@ -2,21 +2,37 @@ import type Redis from 'ioredis';
 import { apiLogger } from '../../lib/apiLogger.js';
 import { getActiveDeviceCount } from '../../lib/deviceHeartbeat.js';
 import { createHandler } from '../../lib/handler.js';
+import { getProtestPhotosKey, getProtestsKey } from '../../lib/protests.js';
+import { getRaceConfigKey } from '../../lib/raceConfig.js';
+import {
+  getRaceDefinitionKey,
+  parseRaceDefinition,
+} from '../../lib/raceDefinition.js';
+import {
+  getPublicResultsKey,
+  getRaceChangesKey,
+  getRaceItemsSummary,
+  getRaceStorageKeys,
+} from '../../lib/raceStore.js';
+import {
+  getRaceChiefJudgePinKey,
+  getRaceClientPinKey,
+} from '../../lib/redis.js';
 import { sendBadRequest, sendError, sendSuccess } from '../../lib/response.js';
 
 // Configuration
 const TOMBSTONE_EXPIRY_SECONDS = 600; // 10 minutes - must exceed worst-case poll interval (ultra-low battery = 5min)
 
-interface RaceData {
-  entries?: unknown[];
-  lastUpdated?: number | null;
-}
-
 interface RaceListItem {
   raceId: string;
   entryCount: number;
   deviceCount: number;
   lastUpdated: number | null;
+  // Race definition metadata (when the race has one)
+  name?: string;
+  date?: string;
+  venue?: string;
+  discipline?: string;
 }
 
 interface DeleteRaceResult {
@@ -25,6 +41,10 @@ interface DeleteRaceResult {
   raceId?: string;
 }
 
+// Keys that identify a race: race:{id}, race:{id}:entry_changes or
+// race:{id}:definition
+const RACE_KEY_PATTERN = /^race:([^:]+)(?::(?:entry_changes|definition))?$/;
+
 // List all races using SCAN
 async function listRaces(client: Redis): Promise<RaceListItem[]> {
   const races: RaceListItem[] = [];
@@ -42,36 +62,36 @@ async function listRaces(client: Redis): Promise<RaceListItem[]> {
     cursor = nextCursor;
 
     for (const key of keys) {
-      // Skip auxiliary keys (devices, highestBib, deleted*, faults, gate_assignments)
-      if (
-        key.includes(':devices') ||
-        key.includes(':highestBib') ||
-        key.includes(':deleted') ||
-        key.includes(':faults') ||
-        key.includes(':gate_assignments')
-      ) {
-        continue;
-      }
-
-      // Extract race ID from key
-      const raceId = key.replace('race:', '');
-      if (seenRaceIds.has(raceId)) continue;
+      // Only keys that identify a race: the legacy entries blob, the entry
+      // change log, or a definition for races created via the admin API.
+      // Matched as whole keys, so a race ID like "deleted-2024" is listed
+      // and auxiliary keys (devices, faults, config, PINs...) are not.
+      const raceId = RACE_KEY_PATTERN.exec(key)?.[1];
+      if (!raceId || seenRaceIds.has(raceId)) continue;
       seenRaceIds.add(raceId);
 
       try {
-        const data = await client.get(key);
-        if (data) {
-          const parsed: RaceData = JSON.parse(data);
-          const entryCount = Array.isArray(parsed.entries)
-            ? parsed.entries.length
-            : 0;
+        const [summary, definitionData] = await Promise.all([
+          getRaceItemsSummary(client, raceId, 'entry'),
+          client.get(getRaceDefinitionKey(raceId)),
+        ]);
+        const definition = parseRaceDefinition(definitionData);
+        if (summary.exists || definition) {
           const deviceCount = await getActiveDeviceCount(client, raceId);
 
           races.push({
             raceId,
-            entryCount,
+            entryCount: summary.count,
             deviceCount,
-            lastUpdated: parsed.lastUpdated || null,
+            lastUpdated: summary.lastUpdated || definition?.lastUpdated || null,
+            ...(definition
+              ? {
+                  name: definition.name,
+                  date: definition.date,
+                  venue: definition.venue,
+                  discipline: definition.discipline,
+                }
+              : {}),
           });
         }
       } catch (e: unknown) {
@@ -104,25 +124,40 @@ async function deleteRace(
 
   // Check which key exists (original casing or normalized)
   let actualRaceId = raceId;
-  let raceKey = originalKey;
 
-  const existsOriginal = await client.exists(originalKey);
+  const existsOriginal = await client.exists(
+    originalKey,
+    getRaceChangesKey(raceId, 'entry'),
+  );
   if (!existsOriginal) {
-    // Try lowercase version
-    const existsNormalized = await client.exists(normalizedKey);
+    // Try lowercase version (races created via the admin API may only have
+    // a definition so far)
+    const existsNormalized = await client.exists(
+      normalizedKey,
+      getRaceChangesKey(normalizedRaceId, 'entry'),
+      getRaceDefinitionKey(normalizedRaceId),
+    );
     if (!existsNormalized) {
       return { success: false, error: 'Race not found' };
     }
     actualRaceId = normalizedRaceId;
-    raceKey = normalizedKey;
   }
 
   const devicesKey = `race:${actualRaceId}:devices`;
+  const deviceClocksKey = `race:${actualRaceId}:device_clocks`;
   const highestBibKey = `race:${actualRaceId}:highestBib`;
-  const faultsKey = `race:${actualRaceId}:faults`;
   const deletedEntriesKey = `race:${actualRaceId}:deleted_entries`;
   const deletedFaultsKey = `race:${actualRaceId}:deleted_faults`;
   const gateAssignmentsKey = `race:${actualRaceId}:gate_assignments`;
+  const startListKey = `race:${actualRaceId}:startlist`;
+  const penaltiesKey = `race:${actualRaceId}:penalties`;
+  const raceConfigKey = getRaceConfigKey(actualRaceId);
+  const protestsKey = getProtestsKey(actualRaceId);
+  const protestPhotosKey = getProtestPhotosKey(actualRaceId);
+  const raceDefinitionKey = getRaceDefinitionKey(actualRaceId);
+  const publicResultsKey = getPublicResultsKey(actualRaceId);
+  const clientPinKey = getRaceClientPinKey(actualRaceId);
+  const chiefJudgePinKey = getRaceChiefJudgePinKey(actualRaceId);
 
   // Set tombstone with expiry (use lowercase for tombstone for consistency)
   await client.set(
@@ -137,35 +172,62 @@ async function deleteRace(
 
   // Delete all race data including auxiliary keys
   await client.del(
-    raceKey,
+    ...getRaceStorageKeys(actualRaceId),
     devicesKey,
+    deviceClocksKey,
     highestBibKey,
-    faultsKey,
     deletedEntriesKey,
     deletedFaultsKey,
     gateAssignmentsKey,
+    startListKey,
+    penaltiesKey,
+    raceConfigKey,
+    protestsKey,
+    protestPhotosKey,
+    raceDefinitionKey,
+    publicResultsKey,
+    clientPinKey,
+    chiefJudgePinKey,
   );
 
   // Also try to delete any leftover keys with different casing
   if (actualRaceId !== normalizedRaceId) {
     await client.del(
-      normalizedKey,
+      ...getRaceStorageKeys(normalizedRaceId),
       `race:${normalizedRaceId}:devices`,
+      `race:${normalizedRaceId}:device_clocks`,
       `race:${normalizedRaceId}:highestBib`,
-      `race:${normalizedRaceId}:faults`,
       `race:${normalizedRaceId}:deleted_entries`,
       `race:${normalizedRaceId}:deleted_faults`,
       `race:${normalizedRaceId}:gate_assignments`,
+      `race:${normalizedRaceId}:startlist`,
+      `race:${normalizedRaceId}:penalties`,
+      getRaceConfigKey(normalizedRaceId),
+      getProtestsKey(normalizedRaceId),
+      getProtestPhotosKey(normalizedRaceId),
+      getRaceDefinitionKey(normalizedRaceId),
+      getPublicResultsKey(normalizedRaceId),
+      getRaceClientPinKey(normalizedRaceId),
+      getRaceChiefJudgePinKey(normalizedRaceId),
     );
   } else if (raceId !== normalizedRaceId) {
     await client.del(
-      originalKey,
+      ...getRaceStorageKeys(raceId),
       `race:${raceId}:devices`,
+      `race:${raceId}:device_clocks`,
       `race:${raceId}:highestBib`,
-      `race:${raceId}:faults`,
       `race:${raceId}:deleted_entries`,
       `race:${raceId}:deleted_faults`,
       `race:${raceId}:gate_assignments`,
+      `race:${raceId}:startlist`,
+      `race:${raceId}:penalties`,
+      getRaceConfigKey(raceId),
+      getProtestsKey(raceId),
+      getProtestPhotosKey(raceId),
+      getRaceDefinitionKey(raceId),
+      getPublicResultsKey(raceId),
+      getRaceClientPinKey(raceId),
+      getRaceChiefJudgePinKey(raceId),
     );
   }
 
@@ -197,6 +259,17 @@ export default createHandler(
 
       const { raceId, deleteAll } = req.query;
 
+      // Race-scoped tokens may only delete their own race
+      const tokenRaceId = auth?.payload?.raceId;
+      if (
+        typeof tokenRaceId === 'string' &&
+        (deleteAll === 'true' ||
+          String(raceId ?? '').toLowerCase() !== tokenRaceId)
+      ) {
+        log.warn('Race deletion DENIED', { tokenRaceId, raceId });
+        return sendError(res, 'Token is not valid for this race', 403);
+      }
+
       // Batch delete all races
       if (deleteAll === 'true') {
         const races = await listRaces(client);
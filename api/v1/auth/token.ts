@@ -1,6 +1,12 @@
+import { CACHE_EXPIRY_SECONDS } from '../../lib/atomicOps.js';
 import { createHandler } from '../../lib/handler.js';
 import { generateToken, hashPin, verifyPin } from '../../lib/jwt.js';
-import { CHIEF_JUDGE_PIN_KEY, CLIENT_PIN_KEY } from '../../lib/redis.js';
+import {
+  CHIEF_JUDGE_PIN_KEY,
+  CLIENT_PIN_KEY,
+  getRaceChiefJudgePinKey,
+  getRaceClientPinKey,
+} from '../../lib/redis.js';
 import {
   sendBadRequest,
   sendError,
@@ -9,7 +15,11 @@ import {
   sendSuccess,
   setRateLimitHeaders,
 } from '../../lib/response.js';
-import { checkRateLimit } from '../../lib/validation.js';
+import {
+  checkRateLimit,
+  isValidDeviceId,
+  isValidRaceId,
+} from '../../lib/validation.js';
 
 // Rate limiting configuration (per IP)
 // Stricter limit to prevent brute-force on 4-digit PINs
@@ -24,6 +34,8 @@ const AUTH_RATE_LIMIT = {
 interface TokenRequestBody {
   pin?: string;
   role?: string;
+  raceId?: string;
+  deviceId?: string;
 }
 
 type UserRole = 'timer' | 'gateJudge' | 'chiefJudge';
@@ -35,7 +47,8 @@ export default createHandler(
   },
   async (req, res, { client, clientIP }) => {
     // Validate PIN format before consuming rate limit token
-    const { pin, role } = (req.body || {}) as TokenRequestBody;
+    const { pin, role, raceId, deviceId } = (req.body ||
+      {}) as TokenRequestBody;
 
     if (!pin || typeof pin !== 'string') {
       return sendBadRequest(res, 'PIN is required');
@@ -45,6 +58,20 @@ export default createHandler(
       return sendBadRequest(res, 'PIN must be exactly 4 digits');
     }
 
+    if (
+      raceId !== undefined &&
+      (typeof raceId !== 'string' || !isValidRaceId(raceId))
+    ) {
+      return sendBadRequest(res, 'Invalid raceId format');
+    }
+
+    if (
+      deviceId !== undefined &&
+      (!isValidDeviceId(deviceId) || deviceId.length > 50)
+    ) {
+      return sendBadRequest(res, 'Invalid deviceId format');
+    }
+
     // Apply rate limiting only for structurally-valid auth attempts
     const rateLimitResult = await checkRateLimit(
       client,
@@ -78,6 +105,49 @@ export default createHandler(
         ? (role as UserRole)
         : 'timer';
 
+    // Tokens name the device they were issued to (e.g. for photo ownership)
+    const device = deviceId ? { deviceId } : {};
+
+    // Races with their own PINs issue tokens scoped to that race.
+    // Races without fall through to the global PINs (unscoped tokens).
+    if (raceId) {
+      const normalizedRaceId = raceId.toLowerCase();
+      const racePinKey =
+        userRole === 'chiefJudge'
+          ? getRaceChiefJudgePinKey(normalizedRaceId)
+          : getRaceClientPinKey(normalizedRaceId);
+      const racePinHash = await client.get(racePinKey);
+
+      if (racePinHash) {
+        if (!(await verifyPin(pin, racePinHash))) {
+          return sendError(
+            res,
+            userRole === 'chiefJudge'
+              ? 'Invalid Chief Judge PIN'
+              : 'Invalid PIN',
+            401,
+          );
+        }
+
+        // Keep race PINs alive as long as the race is in use
+        await client.expire(racePinKey, CACHE_EXPIRY_SECONDS);
+
+        const token = generateToken({
+          ...device,
+          authenticatedAt: Date.now(),
+          role: userRole,
+          raceId: normalizedRaceId,
+        });
+
+        return sendSuccess(res, {
+          success: true,
+          token,
+          role: userRole,
+          raceId: normalizedRaceId,
+        });
+      }
+    }
+
     // For chiefJudge role, use separate PIN validation
     if (userRole === 'chiefJudge') {
       const chiefPinHash = await client.get(CHIEF_JUDGE_PIN_KEY);
@@ -98,6 +168,7 @@ export default createHandler(
         }
 
         const token = generateToken({
+          ...device,
           createdAt: Date.now(),
           role: 'chiefJudge',
         });
@@ -126,6 +197,7 @@ export default createHandler(
 
       // Chief Judge PIN is valid, generate JWT token
       const token = generateToken({
+        ...device,
         authenticatedAt: Date.now(),
         role: 'chiefJudge',
       });
@@ -156,6 +228,7 @@ export default createHandler(
       }
 
       const token = generateToken({
+        ...device,
         createdAt: Date.now(),
         role: userRole,
       });
@@ -185,6 +258,7 @@ export default createHandler(
 
     // PIN is valid, generate JWT token
     const token = generateToken({
+      ...device,
       authenticatedAt: Date.now(),
       role: userRole,
     });
@@ -1,8 +1,18 @@
 import type Redis from 'ioredis';
-import { atomicUpdate, CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
+import { CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
 import { createHandler } from '../lib/handler.js';
+import { getRaceConfigKey, parseRaceConfig } from '../lib/raceConfig.js';
+import {
+  getRaceDefinitionKey,
+  parseRaceDefinition,
+} from '../lib/raceDefinition.js';
+import { publishRaceEvent } from '../lib/raceEvents.js';
+import {
+  deleteRaceItems,
+  loadRaceItems,
+  saveRaceItem,
+} from '../lib/raceStore.js';
 import {
-  safeJsonParse,
   sanitizeString,
   sendBadRequest,
   sendError,
@@ -13,16 +23,17 @@ import {
   type StoredFaultEntry,
   validate,
 } from '../lib/schemas.js';
-import { isValidRaceId, MAX_DEVICE_NAME_LENGTH } from '../lib/validation.js';
+import {
+  computeGateCoverage,
+  type GateCoverage,
+  isValidRaceId,
+  isValidRun,
+  MAX_DEVICE_NAME_LENGTH,
+} from '../lib/validation.js';
 
 // Configuration
 const MAX_FAULTS_PER_RACE = 5000;
 
-interface FaultsData {
-  faults: StoredFaultEntry[];
-  lastUpdated: number | null;
-}
-
 interface GateAssignment {
   deviceName: string;
   gateStart: number;
@@ -42,20 +53,6 @@ interface GateAssignmentResult {
   firstGateColor: string;
 }
 
-interface AtomicAddFaultResult {
-  success: boolean;
-  existing: FaultsData;
-  isDuplicate?: boolean;
-  error?: string;
-}
-
-interface AtomicDeleteFaultResult {
-  success: boolean;
-  wasRemoved?: boolean;
-  existing?: FaultsData;
-  error?: string;
-}
-
 interface PostRequestBody {
   fault?: Record<string, unknown>;
   deviceId?: string;
@@ -104,119 +101,43 @@ function sanitizeVersionHistoryItem(
 }
 
 /**
- * Atomically add fault to race data
+ * Add a fault to the race's per-fault storage. An existing fault (same id and
+ * device) is replaced by a higher version or a changed deletion mark, unless
+ * an upheld protest reversed it (jury decisions are final).
  */
-async function atomicAddFault(
+async function addFault(
   client: Redis,
-  redisKey: string,
+  normalizedRaceId: string,
   enrichedFault: StoredFaultEntry,
-  sanitizedDeviceId: string,
-): Promise<AtomicAddFaultResult> {
-  const result = await atomicUpdate<FaultsData, AtomicAddFaultResult>(
+): Promise<{ success: boolean; error?: string }> {
+  const saveResult = await saveRaceItem<StoredFaultEntry>(
     client,
-    redisKey,
-    { faults: [], lastUpdated: null },
-    (existing: FaultsData) => {
-      if (!Array.isArray(existing.faults)) existing.faults = [];
-
-      // Check limit
-      if (existing.faults.length >= MAX_FAULTS_PER_RACE) {
-        return {
-          abort: true,
-          result: {
-            success: false,
-            error: `Maximum faults limit (${MAX_FAULTS_PER_RACE}) reached for this race`,
-            existing,
-          },
-        };
-      }
-
-      // Check for existing fault (same fault from same device)
-      const faultId = String(enrichedFault.id);
-      const existingIndex = existing.faults.findIndex(
-        (f: StoredFaultEntry) =>
-          String(f.id) === faultId && f.deviceId === sanitizedDeviceId,
-      );
-
-      if (existingIndex !== -1) {
-        const existingFault = existing.faults[existingIndex]!;
-        const shouldUpdate =
-          (enrichedFault.currentVersion || 1) >
-            (existingFault.currentVersion || 1) ||
-          enrichedFault.markedForDeletion !== existingFault.markedForDeletion;
-
-        if (shouldUpdate) {
-          existing.faults[existingIndex] = enrichedFault;
-          existing.lastUpdated = Date.now();
-        } else {
-          return {
-            abort: true,
-            result: { success: true, existing, isDuplicate: true },
-          };
-        }
-      } else {
-        existing.faults.push(enrichedFault);
-        existing.lastUpdated = Date.now();
-      }
-
-      return {
-        data: existing,
-        result: { success: true, existing, isDuplicate: false },
-      };
+    normalizedRaceId,
+    'fault',
+    enrichedFault,
+    {
+      maxItems: MAX_FAULTS_PER_RACE,
+      shouldReplace: (existingFault) =>
+        !existingFault.reversedByProtestId &&
+        ((enrichedFault.currentVersion || 1) >
+          (existingFault.currentVersion || 1) ||
+          enrichedFault.markedForDeletion !== existingFault.markedForDeletion),
     },
-    'atomicAddFault',
   );
-  // Handle AtomicConflictError (existing: null) by providing empty default
-  if (result.existing === null) {
-    return { ...result, existing: { faults: [], lastUpdated: null } };
-  }
-  return result;
-}
-
-/**
- * Atomically delete fault from race data
- */
-async function atomicDeleteFault(
-  client: Redis,
-  redisKey: string,
-  faultIdStr: string,
-  sanitizedDeviceId: string,
-): Promise<AtomicDeleteFaultResult> {
-  const result = await atomicUpdate<FaultsData, AtomicDeleteFaultResult>(
-    client,
-    redisKey,
-    { faults: [], lastUpdated: null },
-    (existing: FaultsData) => {
-      if (!Array.isArray(existing.faults)) existing.faults = [];
-
-      const originalLength = existing.faults.length;
-      existing.faults = existing.faults.filter((f: StoredFaultEntry) => {
-        const idMatch = String(f.id) === faultIdStr;
-        if (sanitizedDeviceId)
-          return !(idMatch && f.deviceId === sanitizedDeviceId);
-        return !idMatch;
-      });
-
-      const wasRemoved = existing.faults.length < originalLength;
-      if (!wasRemoved) {
-        return {
-          abort: true,
-          result: { success: true, wasRemoved: false, existing },
-        };
-      }
 
-      existing.lastUpdated = Date.now();
-      return {
-        data: existing,
-        result: { success: true, wasRemoved: true, existing },
-      };
-    },
-    'atomicDeleteFault',
-  );
-  if (result.existing === null) {
-    return { ...result, existing: { faults: [], lastUpdated: null } };
+  if (saveResult.status === 'limit') {
+    return {
+      success: false,
+      error: `Maximum faults limit (${MAX_FAULTS_PER_RACE}) reached for this race`,
+    };
   }
-  return result;
+  if (saveResult.status === 'conflict') {
+    return {
+      success: false,
+      error: 'Concurrent modification conflict, please retry',
+    };
+  }
+  return { success: true };
 }
 
 /**
@@ -288,6 +209,23 @@ async function getGateAssignments(
   return result;
 }
 
+/**
+ * Check gate assignments against the race's gate count (race definition).
+ * Null while the race has no definition, as the gate count is unknown.
+ */
+async function getGateCoverage(
+  client: Redis,
+  normalizedRaceId: string,
+  assignments: GateAssignmentResult[],
+): Promise<GateCoverage | null> {
+  const definition = parseRaceDefinition(
+    await client.get(getRaceDefinitionKey(normalizedRaceId)),
+  );
+  return definition
+    ? computeGateCoverage(assignments, definition.gateCount)
+    : null;
+}
+
 export default createHandler(
   {
     methods: ['GET', 'POST', 'DELETE'],
@@ -298,6 +236,7 @@ export default createHandler(
       maxPosts: 50,
     },
     auth: true,
+    raceAccess: true,
     writeRequiresAuth: true,
   },
   async (req, res, { client, clientIP, log, auth }) => {
@@ -318,15 +257,14 @@ export default createHandler(
     }
 
     const normalizedRaceId = raceIdStr.toLowerCase();
-    const faultsKey = `race:${normalizedRaceId}:faults`;
 
     if (req.method === 'GET') {
       // Fetch faults for race
-      const data = await client.get(faultsKey);
-      const parsed = safeJsonParse(data, {
-        faults: [],
-        lastUpdated: null,
-      }) as FaultsData;
+      const stored = await loadRaceItems<StoredFaultEntry>(
+        client,
+        normalizedRaceId,
+        'fault',
+      );
 
       // Get deleted fault IDs
       const deletedKey = `race:${normalizedRaceId}:deleted_faults`;
@@ -380,10 +318,15 @@ export default createHandler(
       }
 
       return sendSuccess(res, {
-        faults: Array.isArray(parsed.faults) ? parsed.faults : [],
-        lastUpdated: parsed.lastUpdated || null,
+        faults: stored.items,
+        lastUpdated: stored.lastUpdated,
         deletedIds: deletedIds || [],
         gateAssignments,
+        gateCoverage: await getGateCoverage(
+          client,
+          normalizedRaceId,
+          gateAssignments,
+        ),
       });
     }
 
@@ -408,6 +351,17 @@ export default createHandler(
       }
       const validFault = faultResult.data;
 
+      // The run must exist in the race (run count from the race config)
+      const { runCount } = parseRaceConfig(
+        await client.get(getRaceConfigKey(normalizedRaceId)),
+      );
+      if (!isValidRun(validFault.run, runCount)) {
+        return sendBadRequest(
+          res,
+          `Invalid fault: run must be between 1 and ${runCount}`,
+        );
+      }
+
       const sanitizedDeviceId = sanitizeString(deviceId, 50);
       const sanitizedDeviceName = sanitizeString(
         deviceName,
@@ -459,12 +413,7 @@ export default createHandler(
         deletionApprovedBy: sanitizeString(validFault.deletionApprovedBy, 100),
       };
 
-      const addResult = await atomicAddFault(
-        client,
-        faultsKey,
-        enrichedFault,
-        sanitizedDeviceId,
-      );
+      const addResult = await addFault(client, normalizedRaceId, enrichedFault);
 
       if (!addResult.success) {
         const status = addResult.error?.includes('limit') ? 400 : 409;
@@ -505,11 +454,29 @@ export default createHandler(
         normalizedRaceId,
       );
 
+      // Notify live stream subscribers
+      await publishRaceEvent(client, normalizedRaceId, {
+        type: 'fault',
+        deviceId: sanitizedDeviceId,
+        id: String(enrichedFault.id),
+      });
+
+      const stored = await loadRaceItems<StoredFaultEntry>(
+        client,
+        normalizedRaceId,
+        'fault',
+      );
+
       return sendSuccess(res, {
         success: true,
-        faults: addResult.existing.faults,
-        lastUpdated: addResult.existing.lastUpdated,
+        faults: stored.items,
+        lastUpdated: stored.lastUpdated,
         gateAssignments,
+        gateCoverage: await getGateCoverage(
+          client,
+          normalizedRaceId,
+          gateAssignments,
+        ),
       });
     }
 
@@ -554,15 +521,28 @@ export default createHandler(
         ip: clientIP,
       });
 
-      const deleteResult = await atomicDeleteFault(
+      // Faults reversed by an upheld protest stay as the jury's record
+      const deleteResult = await deleteRaceItems<StoredFaultEntry>(
         client,
-        faultsKey,
+        normalizedRaceId,
+        'fault',
         faultIdStr,
         sanitizedDeviceId,
+        { canDelete: (fault) => !fault.reversedByProtestId },
       );
-
-      if (!deleteResult.success) {
-        return sendError(res, deleteResult.error!, 409);
+      if (deleteResult.status === 'kept') {
+        return sendError(
+          res,
+          'Fault was reversed by a jury decision and cannot be deleted',
+          409,
+        );
+      }
+      if (deleteResult.status === 'conflict') {
+        return sendError(
+          res,
+          'Concurrent modification conflict, please retry',
+          409,
+        );
       }
 
       // Track deleted fault ID with metadata
@@ -573,9 +553,16 @@ export default createHandler(
       await client.sadd(deletedKey, deleteKey);
       await client.expire(deletedKey, CACHE_EXPIRY_SECONDS);
 
+      // Notify live stream subscribers (fault deletions arrive as fault events)
+      await publishRaceEvent(client, normalizedRaceId, {
+        type: 'fault',
+        deviceId: sanitizedDeviceId,
+        id: faultIdStr,
+      });
+
       return sendSuccess(res, {
         success: true,
-        deleted: deleteResult.wasRemoved,
+        deleted: deleteResult.removed > 0,
         faultId: faultIdStr,
       });
     }
@@ -0,0 +1,120 @@
+import { CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
+import { createHandler } from '../lib/handler.js';
+import {
+  compactPenaltyRules,
+  getPenaltyConfigKey,
+  parsePenaltyConfig,
+  type StoredPenaltyConfig,
+} from '../lib/penaltyConfig.js';
+import {
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../lib/response.js';
+import { PenaltyConfigPostBodySchema, validate } from '../lib/schemas.js';
+import { isValidRaceId, MAX_DEVICE_NAME_LENGTH } from '../lib/validation.js';
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST'],
+    rateLimit: {
+      keyPrefix: 'penalties',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 20,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+    const penaltiesKey = getPenaltyConfigKey(normalizedRaceId);
+
+    if (req.method === 'GET') {
+      const { usePenaltyMode, penaltySeconds, rules, lastUpdated } =
+        parsePenaltyConfig(await client.get(penaltiesKey));
+
+      return sendSuccess(res, {
+        usePenaltyMode,
+        penaltySeconds,
+        rules,
+        lastUpdated,
+      });
+    }
+
+    // Penalty rules decide results, so changing them is a Chief Judge operation
+    const userRole = auth?.payload?.role as string | undefined;
+    if (userRole !== 'chiefJudge') {
+      log.warn('Penalty config write DENIED', {
+        role: userRole,
+        expected: 'chiefJudge',
+        ip: clientIP,
+      });
+      return sendError(
+        res,
+        'Penalty config changes require Chief Judge role',
+        403,
+      );
+    }
+
+    const bodyResult = validate(PenaltyConfigPostBodySchema, req.body);
+    if (!bodyResult.success) {
+      return sendBadRequest(res, `Invalid penalty config: ${bodyResult.error}`);
+    }
+
+    const rules = compactPenaltyRules(bodyResult.data.rules);
+
+    const stored: StoredPenaltyConfig = {
+      usePenaltyMode: bodyResult.data.usePenaltyMode,
+      penaltySeconds: bodyResult.data.penaltySeconds,
+      rules,
+      lastUpdated: Date.now(),
+      updatedBy: sanitizeString(
+        bodyResult.data.deviceName,
+        MAX_DEVICE_NAME_LENGTH,
+      ),
+    };
+
+    await client.set(
+      penaltiesKey,
+      JSON.stringify(stored),
+      'EX',
+      CACHE_EXPIRY_SECONDS,
+    );
+
+    log.info('Penalty config updated', {
+      race: normalizedRaceId,
+      usePenaltyMode: stored.usePenaltyMode,
+      penaltySeconds: stored.penaltySeconds,
+      ruleCount: Object.keys(rules).length,
+      updatedBy: stored.updatedBy,
+      ip: clientIP,
+    });
+
+    return sendSuccess(res, {
+      success: true,
+      usePenaltyMode: stored.usePenaltyMode,
+      penaltySeconds: stored.penaltySeconds,
+      rules,
+      lastUpdated: stored.lastUpdated,
+    });
+  },
+);
@@ -0,0 +1,239 @@
+import { createHandler } from '../lib/handler.js';
+import type { ValidateAuthResult } from '../lib/jwt.js';
+import { checkPhotoRateLimit } from '../lib/photoRateLimit.js';
+import {
+  deletePhoto,
+  isAllowedPhoto,
+  loadPhoto,
+  MAX_PHOTO_LENGTH,
+  type PhotoSize,
+  savePhoto,
+} from '../lib/photoStore.js';
+import { publishRaceEvent } from '../lib/raceEvents.js';
+import {
+  getRaceItemField,
+  getRaceItemsKey,
+  migrateLegacyItems,
+} from '../lib/raceStore.js';
+import {
+  checkIfNoneMatch,
+  generateETag,
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../lib/response.js';
+import {
+  PhotoDeleteBodySchema,
+  PhotoPostBodySchema,
+  validate,
+} from '../lib/schemas.js';
+import { isValidRaceId } from '../lib/validation.js';
+
+/**
+ * Whether the request may change an entry's photo: only the device that
+ * recorded the entry (as named in its token) or the Chief Judge
+ */
+function mayChangePhoto(
+  auth: ValidateAuthResult | undefined,
+  entryDeviceId: string,
+): boolean {
+  return (
+    auth?.payload?.role === 'chiefJudge' ||
+    auth?.payload?.deviceId === entryDeviceId
+  );
+}
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST', 'DELETE'],
+    rateLimit: {
+      keyPrefix: 'photos',
+      window: 60,
+      maxRequests: 200,
+      maxPosts: 30,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+
+    // Photos of races stored as one JSON blob move to the photo hash first
+    await migrateLegacyItems(client, normalizedRaceId, 'entry');
+
+    if (req.method === 'GET') {
+      const { entryId, deviceId, size } = req.query;
+      if (!entryId || typeof entryId !== 'string') {
+        return sendBadRequest(res, 'entryId is required');
+      }
+      const sanitizedDeviceId = sanitizeString(deviceId, 50);
+      const photoSize: PhotoSize = size === 'thumbnail' ? 'thumbnail' : 'full';
+
+      const photo = await loadPhoto(
+        client,
+        normalizedRaceId,
+        getRaceItemField({ id: entryId, deviceId: sanitizedDeviceId }),
+        photoSize,
+      );
+      if (!photo) {
+        return sendError(res, 'Photo not found', 404);
+      }
+
+      const responseData = {
+        entryId,
+        deviceId: sanitizedDeviceId,
+        size: photoSize,
+        photo,
+      };
+
+      // ETag support: clients re-validating a cached photo skip the download
+      const etag = generateETag(responseData);
+      res.setHeader('Cache-Control', 'private, no-cache');
+      res.setHeader('ETag', etag);
+      if (checkIfNoneMatch(req, etag)) {
+        res.status(304).end();
+        return;
+      }
+      return sendSuccess(res, responseData);
+    }
+
+    if (req.method === 'POST') {
+      const bodyResult = validate(PhotoPostBodySchema, req.body);
+      if (!bodyResult.success) {
+        return sendBadRequest(res, `Invalid photo: ${bodyResult.error}`);
+      }
+
+      const { entryId, photo } = bodyResult.data;
+      const entryIdStr = String(entryId);
+      const sanitizedDeviceId = sanitizeString(bodyResult.data.deviceId, 50);
+
+      if (!isAllowedPhoto(photo)) {
+        return sendBadRequest(
+          res,
+          'Invalid photo: must be a JPEG, PNG or WebP data URL',
+        );
+      }
+      if (photo.length > MAX_PHOTO_LENGTH) {
+        return sendError(res, 'Photo too large', 413, { photoTooLarge: true });
+      }
+
+      // Photos are photo-finish evidence: no overwriting another device's
+      if (!mayChangePhoto(auth, sanitizedDeviceId)) {
+        log.warn('Photo upload DENIED', {
+          role: auth?.payload?.role,
+          device: auth?.payload?.deviceId,
+          owner: sanitizedDeviceId,
+          ip: clientIP,
+        });
+        return sendError(
+          res,
+          'Photo upload requires the recording device or Chief Judge role',
+          403,
+        );
+      }
+
+      // Photos belong to a synced entry
+      const field = getRaceItemField({
+        id: entryIdStr,
+        deviceId: sanitizedDeviceId,
+      });
+      const entryExists = await client.hexists(
+        getRaceItemsKey(normalizedRaceId, 'entry'),
+        field,
+      );
+      if (!entryExists) {
+        return sendError(res, 'Entry not found', 404);
+      }
+
+      const photoRateLimit = await checkPhotoRateLimit(
+        client,
+        normalizedRaceId,
+        sanitizedDeviceId,
+      );
+      if (!photoRateLimit.allowed) {
+        log.warn('Photo rate limited', {
+          race: normalizedRaceId,
+          device: sanitizedDeviceId,
+          count: photoRateLimit.count,
+          limit: photoRateLimit.limit,
+        });
+        return sendError(res, 'Photo rate limit exceeded', 429, {
+          photoRateLimited: true,
+        });
+      }
+
+      const thumbnail = await savePhoto(client, normalizedRaceId, field, photo);
+
+      // Other devices pick up the photo flag with the entry
+      await publishRaceEvent(client, normalizedRaceId, {
+        type: 'entry',
+        deviceId: sanitizedDeviceId,
+        id: entryIdStr,
+      });
+
+      return sendSuccess(res, {
+        success: true,
+        entryId: entryIdStr,
+        thumbnail,
+      });
+    }
+
+    if (req.method === 'DELETE') {
+      const bodyResult = validate(PhotoDeleteBodySchema, req.body);
+      if (!bodyResult.success) {
+        return sendBadRequest(res, `Invalid request: ${bodyResult.error}`);
+      }
+
+      const entryIdStr = String(bodyResult.data.entryId);
+      const sanitizedDeviceId = sanitizeString(bodyResult.data.deviceId, 50);
+
+      if (!mayChangePhoto(auth, sanitizedDeviceId)) {
+        log.warn('Photo deletion DENIED', {
+          role: auth?.payload?.role,
+          device: auth?.payload?.deviceId,
+          owner: sanitizedDeviceId,
+          ip: clientIP,
+        });
+        return sendError(
+          res,
+          'Photo deletion requires the recording device or Chief Judge role',
+          403,
+        );
+      }
+
+      const deleted = await deletePhoto(
+        client,
+        normalizedRaceId,
+        getRaceItemField({ id: entryIdStr, deviceId: sanitizedDeviceId }),
+      );
+
+      if (deleted) {
+        await publishRaceEvent(client, normalizedRaceId, {
+          type: 'entry',
+          deviceId: sanitizedDeviceId,
+          id: entryIdStr,
+        });
+      }
+
+      return sendSuccess(res, { success: true, deleted, entryId: entryIdStr });
+    }
+  },
+);
@@ -0,0 +1,286 @@
+import { CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
+import { createHandler } from '../lib/handler.js';
+import { isAllowedPhoto, MAX_PHOTO_LENGTH } from '../lib/photoStore.js';
+import {
+  applyProtestDecision,
+  getProtestPhotoField,
+  getProtestPhotosKey,
+  getProtestsKey,
+  parseProtests,
+  recordProtestDecision,
+} from '../lib/protests.js';
+import { getRaceConfigKey, parseRaceConfig } from '../lib/raceConfig.js';
+import { publishRaceEvent } from '../lib/raceEvents.js';
+import {
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../lib/response.js';
+import {
+  ProtestDecisionBodySchema,
+  type ProtestInput,
+  ProtestPostBodySchema,
+  validate,
+} from '../lib/schemas.js';
+import {
+  isValidRaceId,
+  MAX_DEVICE_NAME_LENGTH,
+  MAX_PROTEST_PHOTOS,
+  MAX_PROTEST_TEXT_LENGTH,
+  type SharedJuryDecision,
+  type SharedProtest,
+} from '../lib/validation.js';
+
+/**
+ * Sanitize a validated protest for storage (strips markup/control characters)
+ */
+function sanitizeProtest(
+  input: ProtestInput,
+  photoCount: number,
+  deviceId: string,
+  deviceName: string,
+): SharedProtest {
+  const protest: SharedProtest = {
+    id: input.id,
+    bib: sanitizeString(input.bib, 10),
+    run: input.run,
+    targetType: input.targetType,
+    targetId: input.targetId,
+    filedBy: sanitizeString(input.filedBy, 100),
+    filedAt: input.filedAt,
+    reason: sanitizeString(input.reason, MAX_PROTEST_TEXT_LENGTH),
+    photoCount,
+    recordedBy: deviceName,
+    recordedByDeviceId: deviceId,
+  };
+  if (input.targetType === 'fault') {
+    protest.fault = {
+      gateNumber: input.fault.gateNumber,
+      faultType: input.fault.faultType,
+      deviceName: sanitizeString(
+        input.fault.deviceName,
+        MAX_DEVICE_NAME_LENGTH,
+      ),
+    };
+  } else {
+    if (input.currentStatus) protest.currentStatus = input.currentStatus;
+    protest.requestedStatus = input.requestedStatus;
+  }
+  if (input.evidenceNote) {
+    protest.evidenceNote = sanitizeString(
+      input.evidenceNote,
+      MAX_PROTEST_TEXT_LENGTH,
+    );
+    protest.evidenceNoteSource = input.evidenceNoteSource ?? 'manual';
+  }
+  return protest;
+}
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST', 'PUT'],
+    rateLimit: {
+      keyPrefix: 'protests',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 20,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+    const protestsKey = getProtestsKey(normalizedRaceId);
+    const photosKey = getProtestPhotosKey(normalizedRaceId);
+
+    if (req.method === 'GET') {
+      const { protestId, photo } = req.query;
+
+      // One evidence photo (kept out of the protest list)
+      if (protestId !== undefined) {
+        const index = Number(photo);
+        if (
+          typeof protestId !== 'string' ||
+          !Number.isInteger(index) ||
+          index < 0 ||
+          index >= MAX_PROTEST_PHOTOS
+        ) {
+          return sendBadRequest(res, 'protestId and photo index are required');
+        }
+        const data = await client.hget(
+          photosKey,
+          getProtestPhotoField(protestId, index),
+        );
+        if (!data) {
+          return sendError(res, 'Photo not found', 404);
+        }
+        return sendSuccess(res, { protestId, photo: data });
+      }
+
+      return sendSuccess(res, {
+        protests: parseProtests(await client.hgetall(protestsKey)),
+      });
+    }
+
+    // Protests and jury decisions are recorded in the Chief Judge panel
+    const userRole = auth?.payload?.role as string | undefined;
+    if (userRole !== 'chiefJudge') {
+      log.warn('Protest write DENIED', {
+        method: req.method,
+        role: userRole,
+        expected: 'chiefJudge',
+        ip: clientIP,
+      });
+      return sendError(res, 'Protests require Chief Judge role', 403);
+    }
+
+    if (req.method === 'POST') {
+      const bodyResult = validate(ProtestPostBodySchema, req.body);
+      if (!bodyResult.success) {
+        return sendBadRequest(res, `Invalid protest: ${bodyResult.error}`);
+      }
+
+      const { protest: input, deviceId, deviceName } = bodyResult.data;
+      const photos = bodyResult.data.photos ?? [];
+      if (
+        photos.some(
+          (photo) => !isAllowedPhoto(photo) || photo.length > MAX_PHOTO_LENGTH,
+        )
+      ) {
+        return sendBadRequest(res, 'Invalid evidence photo');
+      }
+
+      // No protests for a run after its deadline
+      const config = parseRaceConfig(
+        await client.get(getRaceConfigKey(normalizedRaceId)),
+      );
+      const deadline = config.protestDeadlines[String(input.run)];
+      if (deadline !== undefined && Date.now() > deadline) {
+        return sendError(res, 'Protest deadline has passed for this run', 409);
+      }
+
+      const stored = sanitizeProtest(
+        input,
+        photos.length,
+        deviceId ?? '',
+        sanitizeString(deviceName, MAX_DEVICE_NAME_LENGTH),
+      );
+
+      // HSETNX: of two devices filing the same protest only the first wins
+      if (
+        !(await client.hsetnx(protestsKey, stored.id, JSON.stringify(stored)))
+      ) {
+        return sendError(res, 'Protest already filed', 409);
+      }
+
+      const multi = client.multi();
+      multi.expire(protestsKey, CACHE_EXPIRY_SECONDS);
+      photos.forEach((photo, index) => {
+        multi.hset(photosKey, getProtestPhotoField(stored.id, index), photo);
+      });
+      if (photos.length > 0) {
+        multi.expire(photosKey, CACHE_EXPIRY_SECONDS);
+      }
+      await multi.exec();
+
+      log.info('Protest filed', {
+        race: normalizedRaceId,
+        protestId: stored.id,
+        bib: stored.bib,
+        run: stored.run,
+        targetType: stored.targetType,
+        photoCount: stored.photoCount,
+        recordedBy: stored.recordedBy,
+        ip: clientIP,
+      });
+
+      return sendSuccess(res, { success: true, protest: stored });
+    }
+
+    // PUT - record the jury decision on a protest
+    const bodyResult = validate(ProtestDecisionBodySchema, req.body);
+    if (!bodyResult.success) {
+      return sendBadRequest(res, `Invalid decision: ${bodyResult.error}`);
+    }
+
+    const { protestId, deviceId, deviceName, ...vote } = bodyResult.data;
+    const decision: SharedJuryDecision = {
+      outcome: vote.outcome,
+      votesFor: vote.votesFor,
+      votesAgainst: vote.votesAgainst,
+      abstentions: vote.abstentions,
+      rationale: sanitizeString(vote.rationale, MAX_PROTEST_TEXT_LENGTH),
+      decidedAt: new Date().toISOString(),
+      decidedBy: sanitizeString(deviceName, MAX_DEVICE_NAME_LENGTH),
+    };
+
+    const result = await recordProtestDecision(
+      client,
+      normalizedRaceId,
+      protestId,
+      decision,
+    );
+    if (result.status === 'missing') {
+      return sendError(res, 'Protest not found', 404);
+    }
+    // Decisions are final; a second device can't overwrite the first
+    if (result.status === 'decided') {
+      return sendError(res, 'Protest already decided', 409);
+    }
+    if (result.status === 'conflict') {
+      return sendError(
+        res,
+        'Concurrent modification conflict, please retry',
+        409,
+      );
+    }
+    const decided = result.protest;
+
+    // Carry out an upheld protest on the stored fault or entry
+    const applied = await applyProtestDecision(
+      client,
+      normalizedRaceId,
+      decided,
+      deviceId ?? '',
+    );
+    if (applied) {
+      // Every device (the deciding one too) fetches the changed target
+      await publishRaceEvent(client, normalizedRaceId, {
+        type: decided.targetType,
+        id: decided.targetId,
+      });
+    }
+
+    log.info('Protest decided', {
+      race: normalizedRaceId,
+      protestId,
+      outcome: decision.outcome,
+      votesFor: decision.votesFor,
+      votesAgainst: decision.votesAgainst,
+      abstentions: decision.abstentions,
+      decidedBy: decision.decidedBy,
+      applied,
+      ip: clientIP,
+    });
+
+    return sendSuccess(res, { success: true, protest: decided, applied });
+  },
+);
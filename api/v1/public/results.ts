@@ -0,0 +1,77 @@
+import { createHandler } from '../../lib/handler.js';
+import { loadRaceResults, toPublicEntry } from '../../lib/raceResults.js';
+import { getPublicResultsKey } from '../../lib/raceStore.js';
+import {
+  checkIfNoneMatch,
+  generateETag,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../lib/response.js';
+import { isValidRaceId } from '../../lib/validation.js';
+
+/**
+ * Public live results (no auth). Only races the Chief Judge has published
+ * are served, and entries never include photos, device data or GPS.
+ */
+export default createHandler(
+  {
+    methods: ['GET'],
+    rateLimit: {
+      // Spectators often share one IP (venue Wi-Fi, carrier NAT)
+      keyPrefix: 'public-results',
+      window: 60,
+      maxRequests: 300,
+      maxPosts: 0,
+    },
+  },
+  async (req, res, { client }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+
+    // Same response for unknown and unpublished races
+    const publicFlag = await client.get(getPublicResultsKey(normalizedRaceId));
+    if (publicFlag === null) {
+      return sendError(res, 'Results are not published for this race', 404);
+    }
+
+    const loaded = await loadRaceResults(client, normalizedRaceId);
+
+    const responseData = {
+      raceId: normalizedRaceId,
+      ...loaded.results,
+      racers: loaded.racers,
+      penalty: loaded.penalty,
+      entries: loaded.entries.map(toPublicEntry),
+      lastUpdated: loaded.lastUpdated,
+    };
+
+    // Short shared cache: many spectators refresh the same race
+    res.setHeader('Cache-Control', 'public, max-age=10');
+
+    const etag = generateETag(responseData);
+    if (checkIfNoneMatch(req, etag)) {
+      res.setHeader('ETag', etag);
+      res.status(304).end();
+      return;
+    }
+    res.setHeader('ETag', etag);
+
+    return sendSuccess(res, responseData);
+  },
+);
@@ -0,0 +1,159 @@
+import { createHandler } from '../lib/handler.js';
+import {
+  getRaceConfigKey,
+  getRaceTimingPoints,
+  parseRaceConfig,
+  updateRaceConfig,
+} from '../lib/raceConfig.js';
+import {
+  getRaceDefinitionKey,
+  parseRaceDefinition,
+} from '../lib/raceDefinition.js';
+import {
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../lib/response.js';
+import { RaceConfigPostBodySchema, validate } from '../lib/schemas.js';
+import {
+  isValidRaceId,
+  MAX_DEVICE_NAME_LENGTH,
+  sanitizeCourseGates,
+  sanitizeProtestDeadlines,
+} from '../lib/validation.js';
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST'],
+    rateLimit: {
+      keyPrefix: 'raceconfig',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 20,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+    const configKey = getRaceConfigKey(normalizedRaceId);
+
+    if (req.method === 'GET') {
+      const [configData, definitionData] = await Promise.all([
+        client.get(configKey),
+        client.get(getRaceDefinitionKey(normalizedRaceId)),
+      ]);
+      const config = parseRaceConfig(configData);
+
+      // Race definition rides along so devices need no admin API call
+      return sendSuccess(res, {
+        intermediatePoints: config.intermediatePoints,
+        points: getRaceTimingPoints(config),
+        runCount: config.runCount,
+        primaryDevices: config.primaryDevices,
+        courseGates: config.courseGates,
+        protestDeadlines: config.protestDeadlines,
+        definition: parseRaceDefinition(definitionData),
+        lastUpdated: config.lastUpdated,
+      });
+    }
+
+    // Timing points define the course for every device - Chief Judge only
+    const userRole = auth?.payload?.role as string | undefined;
+    if (userRole !== 'chiefJudge') {
+      log.warn('Race config write DENIED', {
+        role: userRole,
+        expected: 'chiefJudge',
+        ip: clientIP,
+      });
+      return sendError(
+        res,
+        'Race config changes require Chief Judge role',
+        403,
+      );
+    }
+
+    const bodyResult = validate(RaceConfigPostBodySchema, req.body);
+    if (!bodyResult.success) {
+      return sendBadRequest(res, `Invalid race config: ${bodyResult.error}`);
+    }
+
+    // Devices send only the sections they changed (older clients omit the
+    // sections they do not know); the rest keeps the race's current values
+    const {
+      intermediatePoints,
+      runCount,
+      primaryDevices,
+      courseGates,
+      protestDeadlines,
+    } = bodyResult.data;
+    const updatedBy = sanitizeString(
+      bodyResult.data.deviceName,
+      MAX_DEVICE_NAME_LENGTH,
+    );
+    const stored = await updateRaceConfig(
+      client,
+      normalizedRaceId,
+      (current) => ({
+        intermediatePoints: intermediatePoints ?? current.intermediatePoints,
+        runCount: runCount ?? current.runCount,
+        primaryDevices: primaryDevices ?? current.primaryDevices,
+        courseGates: courseGates
+          ? sanitizeCourseGates(courseGates)
+          : current.courseGates,
+        protestDeadlines: protestDeadlines
+          ? sanitizeProtestDeadlines(protestDeadlines)
+          : current.protestDeadlines,
+        lastUpdated: Date.now(),
+        updatedBy,
+      }),
+    );
+    if (!stored) {
+      return sendError(
+        res,
+        'Concurrent modification conflict, please retry',
+        409,
+      );
+    }
+
+    log.info('Race config updated', {
+      race: normalizedRaceId,
+      intermediatePoints: stored.intermediatePoints,
+      runCount: stored.runCount,
+      primaryDevices: stored.primaryDevices,
+      courseGates: stored.courseGates.length,
+      protestDeadlines: stored.protestDeadlines,
+      updatedBy: stored.updatedBy,
+      ip: clientIP,
+    });
+
+    return sendSuccess(res, {
+      success: true,
+      intermediatePoints: stored.intermediatePoints,
+      points: getRaceTimingPoints(stored),
+      runCount: stored.runCount,
+      primaryDevices: stored.primaryDevices,
+      courseGates: stored.courseGates,
+      protestDeadlines: stored.protestDeadlines,
+      lastUpdated: stored.lastUpdated,
+    });
+  },
+);
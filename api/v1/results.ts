@@ -0,0 +1,135 @@
+import { CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
+import { createHandler } from '../lib/handler.js';
+import { loadRaceResults } from '../lib/raceResults.js';
+import { getPublicResultsKey } from '../lib/raceStore.js';
+import { sendBadRequest, sendError, sendSuccess } from '../lib/response.js';
+import { PublishResultsBodySchema, validate } from '../lib/schemas.js';
+import {
+  isValidRaceId,
+  MAX_PENALTY_SECONDS,
+  type ResultPenaltyOptions,
+} from '../lib/validation.js';
+
+/**
+ * Parse penalty overrides from query params
+ * (?penaltyMode=penalty|dsq&penaltySeconds=5). Returns null when invalid.
+ */
+function parsePenaltyOverrides(
+  query: Record<string, string | string[] | undefined>,
+): Partial<ResultPenaltyOptions> | null {
+  const { penaltyMode, penaltySeconds } = query;
+  const overrides: Partial<ResultPenaltyOptions> = {};
+
+  if (penaltyMode !== undefined) {
+    if (penaltyMode !== 'penalty' && penaltyMode !== 'dsq') return null;
+    overrides.usePenaltyMode = penaltyMode === 'penalty';
+  }
+
+  if (penaltySeconds !== undefined) {
+    const seconds = parseInt(String(penaltySeconds), 10);
+    if (Number.isNaN(seconds) || seconds < 0 || seconds > MAX_PENALTY_SECONDS) {
+      return null;
+    }
+    overrides.penaltySeconds = seconds;
+  }
+
+  return overrides;
+}
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST'],
+    rateLimit: {
+      keyPrefix: 'results',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 20,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+    const publicKey = getPublicResultsKey(normalizedRaceId);
+
+    if (req.method === 'POST') {
+      // Publishing results to spectators is a Chief Judge decision
+      const userRole = auth?.payload?.role as string | undefined;
+      if (userRole !== 'chiefJudge') {
+        log.warn('Results publish DENIED', {
+          role: userRole,
+          expected: 'chiefJudge',
+          ip: clientIP,
+        });
+        return sendError(
+          res,
+          'Publishing results requires Chief Judge role',
+          403,
+        );
+      }
+
+      const bodyResult = validate(PublishResultsBodySchema, req.body);
+      if (!bodyResult.success) {
+        return sendBadRequest(res, `Invalid request: ${bodyResult.error}`);
+      }
+
+      const { published } = bodyResult.data;
+      if (published) {
+        await client.set(
+          publicKey,
+          JSON.stringify({ publishedAt: Date.now() }),
+          'EX',
+          CACHE_EXPIRY_SECONDS,
+        );
+      } else {
+        await client.del(publicKey);
+      }
+
+      log.info('Results publication changed', {
+        race: normalizedRaceId,
+        published,
+        ip: clientIP,
+      });
+
+      return sendSuccess(res, { success: true, published });
+    }
+
+    const overrides = parsePenaltyOverrides(req.query);
+    if (!overrides) {
+      return sendBadRequest(
+        res,
+        `Invalid penalty config. Use penaltyMode=penalty|dsq and penaltySeconds 0-${MAX_PENALTY_SECONDS}.`,
+      );
+    }
+
+    const [loaded, publicFlag] = await Promise.all([
+      loadRaceResults(client, normalizedRaceId, overrides),
+      client.get(publicKey),
+    ]);
+
+    return sendSuccess(res, {
+      ...loaded.results,
+      racers: loaded.racers,
+      penalty: loaded.penalty,
+      published: publicFlag !== null,
+      lastUpdated: loaded.lastUpdated,
+    });
+  },
+);
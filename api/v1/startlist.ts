@@ -0,0 +1,155 @@
+import { CACHE_EXPIRY_SECONDS } from '../lib/atomicOps.js';
+import { createHandler } from '../lib/handler.js';
+import {
+  safeJsonParse,
+  sanitizeString,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../lib/response.js';
+import {
+  type Racer,
+  StartListPostBodySchema,
+  validate,
+} from '../lib/schemas.js';
+import { isValidRaceId, MAX_DEVICE_NAME_LENGTH } from '../lib/validation.js';
+
+interface StartListData {
+  racers: Racer[];
+  lastUpdated: number | null;
+  updatedBy?: string;
+}
+
+/**
+ * Sanitize a validated racer for storage (strips markup/control characters)
+ */
+function sanitizeRacer(racer: Racer): Racer {
+  const sanitized: Racer = {
+    bib: sanitizeString(racer.bib, 10),
+    name: sanitizeString(racer.name, 100),
+  };
+  if (racer.club) sanitized.club = sanitizeString(racer.club, 100);
+  if (racer.nation) sanitized.nation = sanitizeString(racer.nation, 10);
+  if (racer.gender) sanitized.gender = racer.gender;
+  if (racer.ageCategory) sanitized.ageCategory = racer.ageCategory;
+  if (racer.birthYear !== undefined) sanitized.birthYear = racer.birthYear;
+  return sanitized;
+}
+
+export default createHandler(
+  {
+    methods: ['GET', 'POST', 'DELETE'],
+    rateLimit: {
+      keyPrefix: 'startlist',
+      window: 60,
+      maxRequests: 100,
+      maxPosts: 10,
+    },
+    auth: true,
+    raceAccess: true,
+    writeRequiresAuth: true,
+  },
+  async (req, res, { client, clientIP, log, auth }) => {
+    const { raceId } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+    const startListKey = `race:${normalizedRaceId}:startlist`;
+
+    if (req.method === 'GET') {
+      const data = await client.get(startListKey);
+      const parsed = safeJsonParse(data, {
+        racers: [],
+        lastUpdated: null,
+      }) as StartListData;
+
+      return sendSuccess(res, {
+        racers: Array.isArray(parsed.racers) ? parsed.racers : [],
+        lastUpdated: parsed.lastUpdated || null,
+      });
+    }
+
+    // Replacing or clearing the start list is a Chief Judge operation
+    const userRole = auth?.payload?.role as string | undefined;
+    if (userRole !== 'chiefJudge') {
+      log.warn('Start list write DENIED', {
+        method: req.method,
+        role: userRole,
+        expected: 'chiefJudge',
+        ip: clientIP,
+      });
+      return sendError(res, 'Start list changes require Chief Judge role', 403);
+    }
+
+    if (req.method === 'POST') {
+      const bodyResult = validate(StartListPostBodySchema, req.body);
+      if (!bodyResult.success) {
+        return sendBadRequest(res, `Invalid start list: ${bodyResult.error}`);
+      }
+
+      // Keep the first racer per bib (duplicate bibs are an import error)
+      const seenBibs = new Set<string>();
+      const racers: Racer[] = [];
+      for (const racer of bodyResult.data.racers) {
+        const sanitized = sanitizeRacer(racer);
+        if (!sanitized.bib || !sanitized.name || seenBibs.has(sanitized.bib)) {
+          continue;
+        }
+        seenBibs.add(sanitized.bib);
+        racers.push(sanitized);
+      }
+
+      const stored: StartListData = {
+        racers,
+        lastUpdated: Date.now(),
+        updatedBy: sanitizeString(
+          bodyResult.data.deviceName,
+          MAX_DEVICE_NAME_LENGTH,
+        ),
+      };
+
+      await client.set(
+        startListKey,
+        JSON.stringify(stored),
+        'EX',
+        CACHE_EXPIRY_SECONDS,
+      );
+
+      log.info('Start list updated', {
+        race: normalizedRaceId,
+        racerCount: racers.length,
+        updatedBy: stored.updatedBy,
+        ip: clientIP,
+      });
+
+      return sendSuccess(res, {
+        success: true,
+        racers,
+        lastUpdated: stored.lastUpdated,
+      });
+    }
+
+    // DELETE - clear the start list for this race
+    await client.del(startListKey);
+
+    log.info('Start list cleared', {
+      race: normalizedRaceId,
+      ip: clientIP,
+    });
+
+    return sendSuccess(res, { success: true });
+  },
+);
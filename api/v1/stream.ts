@@ -0,0 +1,167 @@
+import {
+  getActiveDeviceCount,
+  parseDeviceClock,
+  updateDeviceHeartbeat,
+} from '../lib/deviceHeartbeat.js';
+import { createHandler } from '../lib/handler.js';
+import {
+  formatSseEvent,
+  getRaceEventChannel,
+  parseRaceEvent,
+  publishRaceEvent,
+} from '../lib/raceEvents.js';
+import { sanitizeString, sendBadRequest } from '../lib/response.js';
+import { isValidRaceId, MAX_DEVICE_NAME_LENGTH } from '../lib/validation.js';
+
+// Heartbeat keeps proxies from closing the idle connection and refreshes the
+// device heartbeat (well within DEVICE_STALE_THRESHOLD)
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+// Close the stream before the serverless function limit; clients reconnect
+const MAX_STREAM_DURATION_MS = 55000;
+
+// Suggested client reconnect delay (SSE retry field)
+const RETRY_MS = 3000;
+
+export default createHandler(
+  {
+    methods: ['GET'],
+    rateLimit: {
+      keyPrefix: 'stream',
+      window: 60,
+      maxRequests: 30,
+      maxPosts: 0,
+    },
+    auth: true,
+    raceAccess: true,
+  },
+  async (req, res, { client, log }) => {
+    const receivedAt = Date.now();
+    const { raceId, deviceId, deviceName } = req.query;
+
+    // Validate raceId
+    if (!raceId) {
+      return sendBadRequest(res, 'raceId is required');
+    }
+
+    const raceIdStr = typeof raceId === 'string' ? raceId : String(raceId);
+
+    if (!isValidRaceId(raceIdStr)) {
+      return sendBadRequest(
+        res,
+        'Invalid raceId format. Use alphanumeric characters, hyphens, and underscores only.',
+      );
+    }
+
+    const normalizedRaceId = raceIdStr.toLowerCase();
+
+    const sanitizedDeviceId = sanitizeString(deviceId, 50);
+    const sanitizedDeviceName = sanitizeString(
+      deviceName,
+      MAX_DEVICE_NAME_LENGTH,
+    );
+
+    // Subscribe on a dedicated connection (a subscribed client cannot run
+    // other commands). The cleanup is registered right away so the connection
+    // never leaks, whichever step below fails or the client leaves.
+    const subscriber = client.duplicate();
+    let streaming = false;
+    let closed = false;
+    let heartbeat: ReturnType<typeof setInterval> | undefined;
+    let maxDuration: ReturnType<typeof setTimeout> | undefined;
+    let resolveClosed: () => void = () => {};
+    const closedPromise = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    const close = (): void => {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      clearTimeout(maxDuration);
+      subscriber.quit().catch(() => subscriber.disconnect());
+      // Before the headers are flushed, the error boundary still responds
+      if (streaming && !res.writableEnded) res.end();
+      resolveClosed();
+    };
+    req.on('close', close);
+
+    try {
+      // Subscribe before sending headers so failures still produce a normal
+      // error response
+      await subscriber.subscribe(getRaceEventChannel(normalizedRaceId));
+      if (closed) return;
+
+      res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.status(200);
+      res.flushHeaders();
+      streaming = true;
+
+      subscriber.on('message', (_channel: string, message: string) => {
+        const event = parseRaceEvent(message);
+        if (event && !closed) {
+          res.write(formatSseEvent(event.type, event));
+        }
+      });
+
+      // Announce this device with its clock report (sent on every connect)
+      // and send the current device count
+      await updateDeviceHeartbeat(
+        client,
+        normalizedRaceId,
+        sanitizedDeviceId,
+        sanitizedDeviceName,
+        parseDeviceClock(req.query, receivedAt),
+      );
+      let deviceCount = await getActiveDeviceCount(client, normalizedRaceId);
+      if (closed) return;
+      res.write(`retry: ${RETRY_MS}\n\n`);
+      res.write(formatSseEvent('ready', { deviceCount }));
+      await publishRaceEvent(client, normalizedRaceId, {
+        type: 'presence',
+        deviceId: sanitizedDeviceId,
+        deviceCount,
+      });
+      if (closed) return;
+
+      heartbeat = setInterval(() => {
+        res.write(': ping\n\n');
+        updateDeviceHeartbeat(
+          client,
+          normalizedRaceId,
+          sanitizedDeviceId,
+          sanitizedDeviceName,
+        )
+          .then(() => getActiveDeviceCount(client, normalizedRaceId))
+          .then((count) => {
+            // Devices going stale produce no event - report count changes here
+            if (!closed && count !== deviceCount) {
+              deviceCount = count;
+              res.write(formatSseEvent('presence', { deviceCount }));
+            }
+          })
+          .catch((error: unknown) => {
+            log.warn('Stream heartbeat failed', {
+              raceId: normalizedRaceId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+      }, HEARTBEAT_INTERVAL_MS);
+      maxDuration = setTimeout(close, MAX_STREAM_DURATION_MS);
+
+      await closedPromise;
+    } catch (error: unknown) {
+      // A JSON error cannot follow flushed SSE headers - just end the stream
+      if (!streaming) throw error;
+      log.error('Stream failed', {
+        raceId: normalizedRaceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      close();
+    }
+  },
+);
@@ -1,18 +1,35 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import type Redis from 'ioredis';
 import { apiLogger } from '../lib/apiLogger.js';
-import {
-  atomicUpdate,
-  CACHE_EXPIRY_SECONDS,
-  MAX_ATOMIC_RETRIES,
-} from '../lib/atomicOps.js';
+import { CACHE_EXPIRY_SECONDS, MAX_ATOMIC_RETRIES } from '../lib/atomicOps.js';
 import {
   getActiveDeviceCount,
+  getDeviceClocks,
+  parseDeviceClock,
   updateDeviceHeartbeat,
 } from '../lib/deviceHeartbeat.js';
 import { detectCrossDeviceDuplicate } from '../lib/duplicateDetection.js';
 import { createHandler } from '../lib/handler.js';
 import { checkPhotoRateLimit } from '../lib/photoRateLimit.js';
+import {
+  getPhotoStats,
+  isAllowedPhoto,
+  MAX_PHOTO_LENGTH,
+} from '../lib/photoStore.js';
+import {
+  getRaceConfigKey,
+  parseRaceConfig,
+  type StoredRaceConfig,
+} from '../lib/raceConfig.js';
+import { publishRaceEvent } from '../lib/raceEvents.js';
+import {
+  deleteRaceItems,
+  getRaceItemsSummary,
+  loadEntriesAt,
+  loadRaceItems,
+  migrateLegacyItems,
+  saveRaceItem,
+} from '../lib/raceStore.js';
 import {
   checkIfNoneMatch,
   generateETag,
@@ -25,22 +42,29 @@ import {
 import { EntrySchema, validate } from '../lib/schemas.js';
 import type {
   AtomicAddResult,
-  AtomicDeleteResult,
   BatchEntryResult,
   DeleteRequestBody,
+  EntryVersion,
   HighestBibResult,
   PaginationMeta,
   PostRequestBody,
-  RaceData,
   RaceEntry,
 } from '../lib/syncTypes.js';
-import { isValidRaceId, MAX_DEVICE_NAME_LENGTH } from '../lib/validation.js';
+import {
+  isNewerEntryVersion,
+  isValidRaceId,
+  isValidRun,
+  MAX_DEVICE_NAME_LENGTH,
+  VALID_TIME_SOURCES,
+} from '../lib/validation.js';
 
 // Configuration
 const MAX_ENTRIES_PER_RACE = 10000;
 const MAX_BATCH_SIZE = 10;
 const DEFAULT_PAGE_LIMIT = 500;
 const MAX_PAGE_LIMIT = 2000;
+const MAX_VERSION_HISTORY = 50;
+const VALID_ENTRY_STATUSES = ['ok', 'dns', 'dnf', 'dsq', 'flt'] as const;
 
 // Update highest bib if new bib is higher (atomic with WATCH)
 // Returns { success: true } on success, { success: false, error: string } on failure
@@ -82,126 +106,138 @@ async function updateHighestBib(
 }
 
 /**
- * Atomically add entry to race data using WATCH/MULTI/EXEC
- * Returns { success, existing, isDuplicate, crossDeviceDuplicate, error }
+ * Keep the valid records of an entry's edit history, sanitized for storage
+ */
+function sanitizeEntryVersionHistory(history: unknown): EntryVersion[] {
+  if (!Array.isArray(history)) return [];
+  const sanitized: EntryVersion[] = [];
+  for (const item of history.slice(-MAX_VERSION_HISTORY)) {
+    if (!item || typeof item !== 'object') continue;
+    const version = item as Record<string, unknown>;
+    const data = version.data as Record<string, unknown> | undefined;
+    if (
+      typeof version.version !== 'number' ||
+      !Number.isInteger(version.version) ||
+      version.version < 1 ||
+      typeof version.timestamp !== 'string' ||
+      Number.isNaN(Date.parse(version.timestamp)) ||
+      (version.changeType !== 'create' && version.changeType !== 'edit') ||
+      !data ||
+      typeof data !== 'object' ||
+      !VALID_ENTRY_STATUSES.includes(
+        data.status as (typeof VALID_ENTRY_STATUSES)[number],
+      ) ||
+      !isValidRun(data.run)
+    ) {
+      continue;
+    }
+    sanitized.push({
+      version: version.version,
+      timestamp: sanitizeString(version.timestamp, 64),
+      editedBy: sanitizeString(version.editedBy, MAX_DEVICE_NAME_LENGTH),
+      editedByDeviceId: sanitizeString(version.editedByDeviceId, 50),
+      changeType: version.changeType,
+      data: {
+        bib: sanitizeString(data.bib, 10),
+        status: data.status as EntryVersion['data']['status'],
+        run: data.run as number,
+      },
+    });
+  }
+  return sanitized;
+}
+
+/**
+ * Add an entry to the race's per-entry storage. An entry that already exists
+ * (same id and device) is replaced when the posted entry is a newer version
+ * (an edit, see isNewerEntryVersion), otherwise it is a duplicate.
+ * Returns { success, isDuplicate, isUpdate, crossDeviceDuplicate, error }
  */
 async function atomicAddEntry(
   client: Redis,
-  redisKey: string,
+  normalizedRaceId: string,
   enrichedEntry: RaceEntry,
-  sanitizedDeviceId: string,
+  raceConfig: StoredRaceConfig,
 ): Promise<AtomicAddResult> {
-  const result = await atomicUpdate<RaceData, AtomicAddResult>(
-    client,
-    redisKey,
-    { entries: [], lastUpdated: null },
-    (existing: RaceData) => {
-      if (!Array.isArray(existing.entries)) existing.entries = [];
-
-      // Check entry limit
-      if (existing.entries.length >= MAX_ENTRIES_PER_RACE) {
-        return {
-          abort: true,
-          result: {
-            success: false,
-            error: `Maximum entries limit (${MAX_ENTRIES_PER_RACE}) reached for this race`,
-            existing,
-          },
-        };
-      }
-
-      // Check for duplicates (same entry from same device)
-      const entryId = String(enrichedEntry.id);
-      const isDuplicate = existing.entries.some(
-        (e: RaceEntry) =>
-          String(e.id) === entryId && e.deviceId === sanitizedDeviceId,
-      );
-
-      // Check for cross-device duplicates
-      const crossDeviceDuplicate = detectCrossDeviceDuplicate(
-        existing.entries,
-        enrichedEntry,
-        sanitizedDeviceId,
-      );
-
-      if (isDuplicate) {
-        return {
-          abort: true,
-          result: {
-            success: true,
-            existing,
-            isDuplicate: true,
-            crossDeviceDuplicate,
-          },
-        };
-      }
+  // Check for cross-device duplicates (backup timers are expected) among the
+  // entries at the same bib, point and run only
+  const crossDeviceDuplicate = detectCrossDeviceDuplicate(
+    await loadEntriesAt<RaceEntry>(client, normalizedRaceId, enrichedEntry),
+    enrichedEntry,
+    enrichedEntry.deviceId!,
+    raceConfig.primaryDevices,
+  );
 
-      existing.entries.push(enrichedEntry);
-      existing.lastUpdated = Date.now();
-      return {
-        data: existing,
-        result: {
-          success: true,
-          existing,
-          isDuplicate: false,
-          crossDeviceDuplicate,
-        },
-      };
+  const saveResult = await saveRaceItem<RaceEntry>(
+    client,
+    normalizedRaceId,
+    'entry',
+    enrichedEntry,
+    {
+      maxItems: MAX_ENTRIES_PER_RACE,
+      shouldReplace: (existingEntry) =>
+        isNewerEntryVersion(enrichedEntry, existingEntry),
+      // An edit of another device's entry must not create it
+      existingOnly:
+        enrichedEntry.editedByDeviceId !== undefined &&
+        enrichedEntry.editedByDeviceId !== enrichedEntry.deviceId,
     },
-    'atomicAddEntry',
   );
-  // Handle AtomicConflictError (existing: null) by providing empty default
-  if (result.existing === null) {
-    return { ...result, existing: { entries: [], lastUpdated: null } };
+
+  if (saveResult.status === 'limit') {
+    return {
+      success: false,
+      error: `Maximum entries limit (${MAX_ENTRIES_PER_RACE}) reached for this race`,
+    };
+  }
+  if (saveResult.status === 'conflict') {
+    return {
+      success: false,
+      error: 'Concurrent modification conflict, please retry',
+    };
+  }
+  if (saveResult.status === 'missing') {
+    return { success: false, error: 'Entry to edit not found' };
   }
-  return result;
+  if (saveResult.status === 'duplicate') {
+    return { success: true, isDuplicate: true, crossDeviceDuplicate };
+  }
+
+  return {
+    success: true,
+    isDuplicate: false,
+    isUpdate: saveResult.status === 'updated',
+    crossDeviceDuplicate,
+  };
 }
 
 /**
- * Atomically delete entry from race data using WATCH/MULTI/EXEC
- * Returns { success, wasRemoved, existing, error }
+ * Parse the `since` query param of a delta sync (undefined = none)
  */
-async function atomicDeleteEntry(
-  client: Redis,
-  redisKey: string,
-  entryIdStr: string,
-  sanitizedDeviceId: string,
-): Promise<AtomicDeleteResult> {
-  const result = await atomicUpdate<RaceData, AtomicDeleteResult>(
-    client,
-    redisKey,
-    { entries: [], lastUpdated: null },
-    (existing: RaceData) => {
-      if (!Array.isArray(existing.entries)) existing.entries = [];
-
-      const originalLength = existing.entries.length;
-      existing.entries = existing.entries.filter((e: RaceEntry) => {
-        const idMatch = String(e.id) === entryIdStr;
-        if (sanitizedDeviceId)
-          return !(idMatch && e.deviceId === sanitizedDeviceId);
-        return !idMatch;
-      });
+function parseSince(value: unknown): number | undefined {
+  const since = typeof value === 'string' ? parseInt(value, 10) : Number.NaN;
+  return !Number.isNaN(since) && since > 0 ? since : undefined;
+}
 
-      const wasRemoved = existing.entries.length < originalLength;
-      if (!wasRemoved) {
-        return {
-          abort: true,
-          result: { success: true, wasRemoved: false, existing },
-        };
-      }
+/**
+ * Load a race's config (run count, primary devices) for entry writes
+ */
+async function loadRaceConfig(
+  client: Redis,
+  normalizedRaceId: string,
+): Promise<StoredRaceConfig> {
+  return parseRaceConfig(await client.get(getRaceConfigKey(normalizedRaceId)));
+}
 
-      existing.lastUpdated = Date.now();
-      return {
-        data: existing,
-        result: { success: true, wasRemoved: true, existing },
-      };
-    },
-    'atomicDeleteEntry',
-  );
-  if (result.existing === null) {
-    return { ...result, existing: { entries: [], lastUpdated: null } };
-  }
-  return result;
+/**
+ * Whether an entry's run exists in the race. Entries of older clients
+ * without a run count as run 1.
+ */
+function isEntryRunInRace(
+  entry: RaceEntry,
+  raceConfig: StoredRaceConfig,
+): boolean {
+  return entry.run === undefined || isValidRun(entry.run, raceConfig.runCount);
 }
 
 // Get highest bib for race
@@ -221,8 +257,10 @@ async function handleGet(
   res: VercelResponse,
   client: Redis,
   normalizedRaceId: string,
-  redisKey: string,
 ): Promise<void> {
+  // Taken before any Redis round trip so clock reports measure the request
+  const receivedAt = Date.now();
+
   // Check for tombstone (race deleted by admin)
   const tombstoneKey = `race:${normalizedRaceId}:deleted`;
   const tombstoneData = await client.get(tombstoneKey);
@@ -240,40 +278,32 @@ async function handleGet(
 
   // Handle checkOnly query - just check if race exists
   if (req.query.checkOnly === 'true') {
-    const data = await client.get(redisKey);
-    const parsed = safeJsonParse(data, null) as RaceData | null;
-    const exists = parsed !== null;
-    const entryCount =
-      exists && Array.isArray(parsed.entries) ? parsed.entries.length : 0;
-    return sendSuccess(res, { exists, entryCount });
+    const summary = await getRaceItemsSummary(
+      client,
+      normalizedRaceId,
+      'entry',
+    );
+    return sendSuccess(res, {
+      exists: summary.exists,
+      entryCount: summary.count,
+    });
   }
 
-  // Handle statsOnly query - return photo statistics without full entry data
-  // Avoids downloading all entries on cellular just to count photos
+  // Handle statsOnly query - return photo statistics without entry data
+  // Lets clients estimate photo downloads before enabling photo sync
   if (req.query.statsOnly === 'true') {
-    const data = await client.get(redisKey);
-    const parsed = safeJsonParse(data, {
-      entries: [],
-      lastUpdated: null,
-    }) as RaceData;
-    const allEntries = Array.isArray(parsed.entries) ? parsed.entries : [];
-    let photoCount = 0;
-    let photoTotalSize = 0;
-    for (const entry of allEntries) {
-      if (
-        entry.photo &&
-        typeof entry.photo === 'string' &&
-        entry.photo.startsWith('data:image/')
-      ) {
-        photoCount++;
-        photoTotalSize += entry.photo.length;
-      }
-    }
-    return sendSuccess(res, {
-      photoCount,
-      photoTotalSize,
-      total: allEntries.length,
-    });
+    await migrateLegacyItems(client, normalizedRaceId, 'entry');
+    const [photoStats, summary] = await Promise.all([
+      getPhotoStats(client, normalizedRaceId),
+      getRaceItemsSummary(client, normalizedRaceId, 'entry'),
+    ]);
+    return sendSuccess(res, { ...photoStats, total: summary.count });
+  }
+
+  // Handle clocks query - latest clock report of each device (clock health)
+  if (req.query.clocks === 'true') {
+    const devices = await getDeviceClocks(client, normalizedRaceId);
+    return sendSuccess(res, { devices, serverTime: Date.now() });
   }
 
   // Update device heartbeat if deviceId provided (from query params)
@@ -288,14 +318,22 @@ async function handleGet(
       normalizedRaceId,
       deviceIdStr,
       deviceNameStr,
+      parseDeviceClock(req.query, receivedAt),
     );
   }
 
-  const data = await client.get(redisKey);
-  const parsed = safeJsonParse(data, {
-    entries: [],
-    lastUpdated: null,
-  }) as RaceData;
+  // Delta sync: optional `since` query param loads only entries changed
+  // after timestamp (reduces payload). When absent, all entries are returned
+  // (backward compatible, used on first sync)
+  const since = parseSince(req.query.since);
+  const stored = await loadRaceItems<RaceEntry>(
+    client,
+    normalizedRaceId,
+    'entry',
+    { withPhotoFlags: true, ...(since !== undefined ? { since } : {}) },
+  );
+  const filteredEntries = stored.items;
+  const total = stored.total;
 
   // Get deleted entry IDs
   const deletedKey = `race:${normalizedRaceId}:deleted_entries`;
@@ -307,24 +345,6 @@ async function handleGet(
   // Get highest bib
   const highestBib = await getHighestBib(client, normalizedRaceId);
 
-  const allEntries = Array.isArray(parsed.entries) ? parsed.entries : [];
-  const total = allEntries.length;
-
-  // Delta sync: optional `since` query param filters entries modified after timestamp
-  // When present, only entries with syncedAt >= since are returned (reduces payload)
-  // When absent, all entries are returned (backward compatible, used on first sync)
-  const { since: sinceParam } = req.query;
-  let filteredEntries = allEntries;
-  if (sinceParam !== undefined) {
-    const sinceTs = parseInt(sinceParam as string, 10);
-    if (!Number.isNaN(sinceTs) && sinceTs > 0) {
-      filteredEntries = allEntries.filter(
-        (e: RaceEntry) =>
-          typeof e.syncedAt === 'number' && e.syncedAt >= sinceTs,
-      );
-    }
-  }
-
   // Pagination: optional offset/limit query params (backwards-compatible)
   const { offset: offsetParam, limit: limitParam } = req.query;
   let entries = filteredEntries;
@@ -348,7 +368,7 @@ async function handleGet(
 
   const responseData = {
     entries,
-    lastUpdated: parsed.lastUpdated || null,
+    lastUpdated: stored.lastUpdated,
     total,
     deviceCount,
     highestBib,
@@ -389,32 +409,41 @@ async function enrichEntry(
   photoSkipped: boolean;
   photoRateLimited: boolean;
 }> {
+  // An edited entry (version > 1) may come from any device but still belongs
+  // to the device that recorded it - only when that entry is stored already
+  // (see atomicAddEntry). The posting device is kept as the editor.
+  const currentVersion = entry.currentVersion || 1;
+  const isEdit = currentVersion > 1 && typeof entry.deviceId === 'string';
   const enrichedEntry: RaceEntry = {
     id: String(entry.id),
     bib: sanitizeString(entry.bib, 10),
     point: entry.point,
     timestamp: entry.timestamp,
     status: entry.status || 'ok',
-    deviceId: sanitizedDeviceId,
-    deviceName: sanitizedDeviceName,
+    deviceId: isEdit ? sanitizeString(entry.deviceId, 50) : sanitizedDeviceId,
+    deviceName: isEdit
+      ? sanitizeString(entry.deviceName, MAX_DEVICE_NAME_LENGTH)
+      : sanitizedDeviceName,
     syncedAt: Date.now(),
   };
 
-  // Include photo if present (base64, limit size and rate)
+  if (currentVersion > 1) {
+    enrichedEntry.currentVersion = currentVersion;
+    enrichedEntry.versionHistory = sanitizeEntryVersionHistory(
+      entry.versionHistory,
+    );
+    enrichedEntry.editedBy = sanitizedDeviceName;
+    enrichedEntry.editedByDeviceId = sanitizedDeviceId;
+  }
+
+  // Include photo if present (base64, limit size and rate) - older clients
+  // post photos inline, newer ones upload them to the photo API
   let photoSkipped = false;
   let photoRateLimited = false;
-  const ALLOWED_PHOTO_PREFIXES = [
-    'data:image/jpeg;base64,',
-    'data:image/png;base64,',
-    'data:image/webp;base64,',
-  ];
   if (entry.photo && typeof entry.photo === 'string') {
-    const hasValidPrefix = ALLOWED_PHOTO_PREFIXES.some((prefix) =>
-      entry.photo!.startsWith(prefix),
-    );
-    if (!hasValidPrefix) {
+    if (!isAllowedPhoto(entry.photo)) {
       photoSkipped = true;
-    } else if (entry.photo.length <= 500000) {
+    } else if (entry.photo.length <= MAX_PHOTO_LENGTH) {
       const photoRateLimit = await checkPhotoRateLimit(
         client,
         normalizedRaceId,
@@ -437,20 +466,33 @@ async function enrichEntry(
   }
 
   // Include run if present
-  if (entry.run === 1 || entry.run === 2) {
+  if (isValidRun(entry.run)) {
     enrichedEntry.run = entry.run;
   }
 
-  // Include GPS timing metadata if present
-  if (entry.timeSource === 'gps' || entry.timeSource === 'system') {
+  // Include timing metadata if present (GPS, server clock sync uncertainty,
+  // or the official who typed a manual time)
+  if (entry.timeSource && VALID_TIME_SOURCES.includes(entry.timeSource)) {
     enrichedEntry.timeSource = entry.timeSource;
   }
+  if (entry.timeSource === 'manual') {
+    const enteredBy = sanitizeString(entry.enteredBy, MAX_DEVICE_NAME_LENGTH);
+    if (enteredBy) enrichedEntry.enteredBy = enteredBy;
+  }
   if (
     typeof entry.gpsTimestamp === 'number' &&
     Number.isFinite(entry.gpsTimestamp)
   ) {
     enrichedEntry.gpsTimestamp = entry.gpsTimestamp;
   }
+  if (
+    entry.timeSource === 'server' &&
+    typeof entry.timeUncertainty === 'number' &&
+    Number.isFinite(entry.timeUncertainty) &&
+    entry.timeUncertainty >= 0
+  ) {
+    enrichedEntry.timeUncertainty = Math.round(entry.timeUncertainty);
+  }
 
   // Include GPS coords if present
   if (entry.gpsCoords && typeof entry.gpsCoords === 'object') {
@@ -469,7 +511,6 @@ async function handlePost(
   res: VercelResponse,
   client: Redis,
   normalizedRaceId: string,
-  redisKey: string,
   log: ReturnType<typeof apiLogger.withRequestId>,
 ): Promise<void> {
   // Check for tombstone (race deleted by admin)
@@ -497,7 +538,6 @@ async function handlePost(
       res,
       client,
       normalizedRaceId,
-      redisKey,
       log,
       entries,
       deviceId,
@@ -516,6 +556,15 @@ async function handlePost(
     return sendBadRequest(res, `Invalid entry: ${entryResult.error}`);
   }
 
+  // The run must exist in the race (run count from the race config)
+  const raceConfig = await loadRaceConfig(client, normalizedRaceId);
+  if (!isEntryRunInRace(entry, raceConfig)) {
+    return sendBadRequest(
+      res,
+      `Invalid entry: run must be between 1 and ${raceConfig.runCount}`,
+    );
+  }
+
   // Sanitize device info
   const sanitizedDeviceId = sanitizeString(deviceId, 50);
   const sanitizedDeviceName = sanitizeString(
@@ -532,16 +581,21 @@ async function handlePost(
     log,
   );
 
-  // Atomically add entry using WATCH/MULTI/EXEC to prevent race conditions
+  // Add entry per item (new entries never conflict with other devices)
+  const writtenAt = Date.now();
   const addResult = await atomicAddEntry(
     client,
-    redisKey,
+    normalizedRaceId,
     enrichedEntry,
-    sanitizedDeviceId,
+    raceConfig,
   );
 
   if (!addResult.success) {
-    const status = addResult.error?.includes('limit') ? 400 : 409;
+    const status = addResult.error?.includes('limit')
+      ? 400
+      : addResult.error?.includes('not found')
+        ? 404
+        : 409;
     return sendError(res, addResult.error!, status);
   }
 
@@ -563,18 +617,35 @@ async function handlePost(
   // Get active device count
   const deviceCount = await getActiveDeviceCount(client, normalizedRaceId);
 
+  // Notify live stream subscribers
+  await publishRaceEvent(client, normalizedRaceId, {
+    type: 'entry',
+    deviceId: sanitizedDeviceId,
+    id: String(enrichedEntry.id),
+  });
+
   // Get highest bib
   const highestBib = await getHighestBib(client, normalizedRaceId);
 
+  // Entries changed since the device's last sync (`since` as for GET), or
+  // else since this write - a delta from the change log, not the whole race
+  const changes = await loadRaceItems<RaceEntry>(
+    client,
+    normalizedRaceId,
+    'entry',
+    { since: parseSince(req.query.since) ?? writtenAt },
+  );
+
   return sendSuccess(res, {
     success: true,
-    entries: addResult.existing.entries,
-    lastUpdated: addResult.existing.lastUpdated,
+    entries: changes.items,
+    lastUpdated: changes.lastUpdated,
     deviceCount,
     highestBib,
     photoSkipped,
     photoRateLimited,
     crossDeviceDuplicate: addResult.crossDeviceDuplicate,
+    updated: addResult.isUpdate === true,
     // Flag if highest bib update failed (non-critical warning)
     highestBibUpdateFailed: !bibUpdateResult.success,
   });
@@ -587,7 +658,6 @@ async function handlePostBatch(
   res: VercelResponse,
   client: Redis,
   normalizedRaceId: string,
-  redisKey: string,
   log: ReturnType<typeof apiLogger.withRequestId>,
   entries: RaceEntry[],
   deviceId: string | undefined,
@@ -619,6 +689,7 @@ async function handlePostBatch(
 
   // Process each entry atomically
   const results: BatchEntryResult[] = [];
+  const raceConfig = await loadRaceConfig(client, normalizedRaceId);
 
   for (const entry of entries) {
     const entryId = String(entry.id || '');
@@ -632,6 +703,14 @@ async function handlePostBatch(
       });
       continue;
     }
+    if (!isEntryRunInRace(entry, raceConfig)) {
+      results.push({
+        entryId,
+        success: false,
+        error: `Invalid entry: run must be between 1 and ${raceConfig.runCount}`,
+      });
+      continue;
+    }
 
     try {
       const { enrichedEntry } = await enrichEntry(
@@ -645,9 +724,9 @@ async function handlePostBatch(
 
       const addResult = await atomicAddEntry(
         client,
-        redisKey,
+        normalizedRaceId,
         enrichedEntry,
-        sanitizedDeviceId,
+        raceConfig,
       );
 
       if (!addResult.success) {
@@ -680,6 +759,14 @@ async function handlePostBatch(
   // Get active device count
   const deviceCount = await getActiveDeviceCount(client, normalizedRaceId);
 
+  // Notify live stream subscribers once for the batch
+  if (results.some((result) => result.success)) {
+    await publishRaceEvent(client, normalizedRaceId, {
+      type: 'entry',
+      deviceId: sanitizedDeviceId,
+    });
+  }
+
   // Get highest bib
   const highestBib = await getHighestBib(client, normalizedRaceId);
 
@@ -698,7 +785,6 @@ async function handleDelete(
   res: VercelResponse,
   client: Redis,
   normalizedRaceId: string,
-  redisKey: string,
 ): Promise<void> {
   const { entryId, deviceId } = (req.body || {}) as DeleteRequestBody;
 
@@ -713,16 +799,20 @@ async function handleDelete(
   const entryIdStr = String(entryId);
   const sanitizedDeviceId = sanitizeString(deviceId, 50);
 
-  // Atomically delete entry using WATCH/MULTI/EXEC
-  const deleteResult = await atomicDeleteEntry(
+  // Delete the device's entry (kept in the change log for delta sync)
+  const deleteResult = await deleteRaceItems(
     client,
-    redisKey,
+    normalizedRaceId,
+    'entry',
     entryIdStr,
     sanitizedDeviceId,
   );
-
-  if (!deleteResult.success) {
-    return sendError(res, deleteResult.error!, 409);
+  if (deleteResult.status !== 'deleted') {
+    return sendError(
+      res,
+      'Concurrent modification conflict, please retry',
+      409,
+    );
   }
 
   // Add to deleted entries set (tracks all deleted IDs for sync)
@@ -751,9 +841,16 @@ async function handleDelete(
   // Get active device count
   const deviceCount = await getActiveDeviceCount(client, normalizedRaceId);
 
+  // Notify live stream subscribers
+  await publishRaceEvent(client, normalizedRaceId, {
+    type: 'deletion',
+    deviceId: sanitizedDeviceId,
+    id: entryIdStr,
+  });
+
   return sendSuccess(res, {
     success: true,
-    deleted: deleteResult.wasRemoved,
+    deleted: deleteResult.removed > 0,
     entryId: entryIdStr,
     deviceCount,
   });
@@ -771,6 +868,7 @@ export default createHandler(
       maxPosts: 100,
     },
     auth: true,
+    raceAccess: true,
     writeRequiresAuth: true,
   },
   async (req, res, { client, log }) => {
@@ -792,25 +890,17 @@ export default createHandler(
 
     // Normalize race ID to lowercase for case-insensitive matching
     const normalizedRaceId = raceIdStr.toLowerCase();
-    const redisKey = `race:${normalizedRaceId}`;
 
     if (req.method === 'GET') {
-      return await handleGet(req, res, client, normalizedRaceId, redisKey);
+      return await handleGet(req, res, client, normalizedRaceId);
     }
 
     if (req.method === 'POST') {
-      return await handlePost(
-        req,
-        res,
-        client,
-        normalizedRaceId,
-        redisKey,
-        log,
-      );
+      return await handlePost(req, res, client, normalizedRaceId, log);
     }
 
     if (req.method === 'DELETE') {
-      return await handleDelete(req, res, client, normalizedRaceId, redisKey);
+      return await handleDelete(req, res, client, normalizedRaceId);
     }
   },
 );
@@ -0,0 +1,28 @@
+import { createHandler } from '../lib/handler.js';
+import { sendSuccess } from '../lib/response.js';
+
+/**
+ * Server clock for round-trip clock synchronization (no auth). Devices
+ * without a GPS fix sample this endpoint and estimate their offset from the
+ * samples with the shortest round trip.
+ */
+export default createHandler(
+  {
+    methods: ['GET'],
+    rateLimit: {
+      // Each sync takes several samples; devices resync every few minutes
+      keyPrefix: 'time',
+      window: 60,
+      maxRequests: 120,
+      maxPosts: 0,
+    },
+  },
+  async (_req, res) => {
+    // A cached response would report a stale time
+    res.setHeader('Cache-Control', 'no-store');
+
+    // Read as late as possible: the time is assumed to be taken halfway
+    // through the round trip
+    return sendSuccess(res, { serverTime: Date.now() });
+  },
+);
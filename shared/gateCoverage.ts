@@ -0,0 +1,78 @@
+/**
+ * Shared Gate Coverage Module
+ *
+ * Checks gate judge assignments against the course's gate count: gates no
+ * judge watches (gaps) and gates watched by several judges (overlaps).
+ * Computed by the faults endpoint alongside the gate assignments and shown
+ * in the Chief Judge panel. No runtime dependencies.
+ */
+
+/** Minimal gate assignment shape needed for coverage (matches GateAssignment) */
+export interface GateCoverageAssignment {
+  deviceId: string;
+  gateStart: number;
+  gateEnd: number;
+}
+
+/** Consecutive gates, both ends inclusive */
+export interface GateSpan {
+  gateStart: number;
+  gateEnd: number;
+}
+
+/** Consecutive gates watched by the same judges */
+export interface GateOverlap extends GateSpan {
+  deviceIds: string[];
+}
+
+/** Coverage of a course's gates by the active gate judges */
+export interface GateCoverage {
+  gateCount: number;
+  gaps: GateSpan[];
+  overlaps: GateOverlap[];
+}
+
+/**
+ * Find the gates of a course (1..gateCount) that no judge watches and those
+ * watched by more than one judge. Assigned gates beyond the course are
+ * ignored; consecutive gates are merged into spans.
+ */
+export function computeGateCoverage(
+  assignments: GateCoverageAssignment[],
+  gateCount: number,
+): GateCoverage {
+  const gaps: GateSpan[] = [];
+  const overlaps: GateOverlap[] = [];
+
+  for (let gate = 1; gate <= gateCount; gate++) {
+    const deviceIds = [
+      ...new Set(
+        assignments
+          .filter((a) => a.gateStart <= gate && gate <= a.gateEnd)
+          .map((a) => a.deviceId),
+      ),
+    ].sort();
+
+    if (deviceIds.length === 0) {
+      const last = gaps[gaps.length - 1];
+      if (last && last.gateEnd === gate - 1) {
+        last.gateEnd = gate;
+      } else {
+        gaps.push({ gateStart: gate, gateEnd: gate });
+      }
+    } else if (deviceIds.length > 1) {
+      const last = overlaps[overlaps.length - 1];
+      if (
+        last &&
+        last.gateEnd === gate - 1 &&
+        last.deviceIds.join('\n') === deviceIds.join('\n')
+      ) {
+        last.gateEnd = gate;
+      } else {
+        overlaps.push({ gateStart: gate, gateEnd: gate, deviceIds });
+      }
+    }
+  }
+
+  return { gateCount, gaps, overlaps };
+}
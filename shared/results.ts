@@ -0,0 +1,425 @@
+/**
+ * Shared Results Module
+ *
+ * Pure results engine shared between the frontend (src/) and backend (api/):
+ * pairs start/finish entries into run times (with split times at
+ * intermediate points), applies fault penalties and ranks racers per run
+ * and for the combined total. With redundant timers, the primary device's
+ * time of a point is official and backup devices fill in when it is missing.
+ * No runtime dependencies.
+ */
+
+import type { SharedAgeCategory, SharedPrimaryDevices } from './validation';
+
+// ===== Types =====
+
+/** Minimal timing entry shape needed for results (matches Entry and RaceEntry) */
+export interface ResultEntryInput {
+  bib?: string;
+  point: string;
+  run?: number;
+  timestamp: string;
+  status?: string;
+  deviceId?: string;
+  timeSource?: string; // 'manual' = hand-timed
+}
+
+/** Minimal fault shape needed for penalties (matches FaultEntry) */
+export interface ResultFaultInput {
+  bib: string;
+  run: number;
+  markedForDeletion?: boolean;
+}
+
+/** Penalty configuration - penalty time per fault, or DSQ on any fault */
+export interface ResultPenaltyOptions {
+  usePenaltyMode: boolean;
+  penaltySeconds: number;
+}
+
+/** Penalty rule per age category (categories without a rule use the default) */
+export type PenaltyRuleTable = Partial<
+  Record<SharedAgeCategory, ResultPenaltyOptions>
+>;
+
+/**
+ * Full penalty configuration: the default rule plus per-category overrides.
+ * getAgeCategory resolves a bib to its start list age category.
+ */
+export interface ResultPenaltyConfig extends ResultPenaltyOptions {
+  rules?: PenaltyRuleTable;
+  getAgeCategory?: (bib: string) => string | undefined;
+}
+
+/**
+ * Result status of a racer in a run.
+ * 'pending' = start or finish missing (still on course or not yet recorded)
+ */
+export type ResultStatus = 'ok' | 'flt' | 'dns' | 'dnf' | 'dsq' | 'pending';
+
+/** Result of one racer in one run */
+export interface RunResult {
+  bib: string;
+  run: number;
+  rank: number | null; // null when not ranked (DNS/DNF/DSQ/pending)
+  status: ResultStatus;
+  startTime: number | null; // Epoch ms
+  finishTime: number | null; // Epoch ms
+  runTime: number | null; // Finish - start in ms (without penalty)
+  faultCount: number;
+  penaltyMs: number;
+  totalTime: number | null; // runTime + penalty in ms
+  gap: number | null; // Behind the run leader in ms
+  splits: Record<string, number>; // Intermediate point (I1…) -> ms since start
+  backupPoints: string[]; // Points timed by a backup (primary time missing)
+  manualPoints: string[]; // Points with a manually entered (hand) time
+}
+
+/** Combined result of one racer over all runs */
+export interface CombinedResult {
+  bib: string;
+  rank: number | null;
+  status: ResultStatus;
+  runs: Record<number, RunResult>;
+  totalTime: number | null; // Sum of run totals when every run is ranked
+  gap: number | null;
+}
+
+/** Complete race results */
+export interface RaceResults {
+  runs: number[]; // Run numbers with at least one entry, ascending
+  byRun: Record<number, RunResult[]>; // Ranked results first, then unranked
+  combined: CombinedResult[];
+}
+
+export const DEFAULT_PENALTY_OPTIONS: ResultPenaltyOptions = {
+  usePenaltyMode: true,
+  penaltySeconds: 5,
+};
+
+/**
+ * Default per-category rules: time penalty per fault for the youngest
+ * categories (U8/U10), DSQ from U12 up. Masters follow FIS rules (DSQ).
+ */
+export const DEFAULT_PENALTY_RULES: PenaltyRuleTable = {
+  U6: { usePenaltyMode: true, penaltySeconds: 5 },
+  U8: { usePenaltyMode: true, penaltySeconds: 5 },
+  U10: { usePenaltyMode: true, penaltySeconds: 5 },
+  U12: { usePenaltyMode: false, penaltySeconds: 5 },
+  U14: { usePenaltyMode: false, penaltySeconds: 5 },
+  U16: { usePenaltyMode: false, penaltySeconds: 5 },
+  masters: { usePenaltyMode: false, penaltySeconds: 5 },
+};
+
+// Unranked statuses in display order, least to most severe (the most severe
+// wins when devices or runs disagree)
+const UNRANKED_ORDER: ResultStatus[] = ['pending', 'dns', 'dnf', 'dsq'];
+
+// ===== Helpers =====
+
+function isRanked(status: ResultStatus): boolean {
+  return status === 'ok' || status === 'flt';
+}
+
+/** Parse an ISO timestamp, returning null for invalid values */
+function parseTime(timestamp: string): number | null {
+  const time = new Date(timestamp).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/** Compare bibs numerically when possible ("002" < "010" < "A1") */
+function compareBibs(a: string, b: string): number {
+  const numA = parseInt(a, 10);
+  const numB = parseInt(b, 10);
+  if (!Number.isNaN(numA) && !Number.isNaN(numB) && numA !== numB) {
+    return numA - numB;
+  }
+  return a.localeCompare(b);
+}
+
+/**
+ * Sort results (ranked by time, unranked by status then bib) and assign
+ * ranks and gaps. Equal times share a rank (1, 1, 3).
+ */
+function rankResults<
+  T extends Pick<RunResult, 'bib' | 'rank' | 'status' | 'totalTime' | 'gap'>,
+>(results: T[]): T[] {
+  const ranked = results
+    .filter((r) => isRanked(r.status) && r.totalTime !== null)
+    .sort((a, b) => a.totalTime! - b.totalTime! || compareBibs(a.bib, b.bib));
+  const unranked = results
+    .filter((r) => !isRanked(r.status) || r.totalTime === null)
+    .sort(
+      (a, b) =>
+        UNRANKED_ORDER.indexOf(a.status) - UNRANKED_ORDER.indexOf(b.status) ||
+        compareBibs(a.bib, b.bib),
+    );
+
+  const leaderTime = ranked[0]?.totalTime ?? null;
+  ranked.forEach((result, index) => {
+    const previous = ranked[index - 1];
+    result.rank =
+      previous && previous.totalTime === result.totalTime
+        ? previous.rank
+        : index + 1;
+    result.gap = leaderTime !== null ? result.totalTime! - leaderTime : null;
+  });
+  for (const result of unranked) {
+    result.rank = null;
+    result.gap = null;
+  }
+
+  return [...ranked, ...unranked];
+}
+
+// ===== Results Engine =====
+
+/**
+ * Resolve the penalty rule for an age category, falling back to the
+ * default rule when the category is unknown or has no rule.
+ */
+export function resolvePenaltyRule(
+  config: ResultPenaltyConfig,
+  ageCategory: string | undefined,
+): ResultPenaltyOptions {
+  const rule = ageCategory
+    ? config.rules?.[ageCategory as SharedAgeCategory]
+    : undefined;
+  return rule
+    ? {
+        usePenaltyMode: rule.usePenaltyMode,
+        penaltySeconds: rule.penaltySeconds,
+      }
+    : {
+        usePenaltyMode: config.usePenaltyMode,
+        penaltySeconds: config.penaltySeconds,
+      };
+}
+
+/** Time of a racer at one point and whether it was entered by hand */
+interface PointTime {
+  time: number;
+  manual: boolean;
+}
+
+/** Earliest primary and backup time of a racer at one point */
+interface PointTimes {
+  primary: PointTime | null;
+  backup: PointTime | null;
+}
+
+/**
+ * Compute the result of a single racer in a single run.
+ * Duplicate timestamps (e.g. from multiple devices) use the earliest valid
+ * one. At points with a primary device only its times count; the earliest
+ * backup time is used when the primary has none.
+ */
+function computeRunResult(
+  bib: string,
+  run: number,
+  entries: ResultEntryInput[],
+  faultCount: number,
+  options: ResultPenaltyOptions,
+  primaryDevices: SharedPrimaryDevices,
+): RunResult {
+  let entryStatus: ResultStatus | null = null;
+  const pointTimes = new Map<string, PointTimes>();
+
+  for (const entry of entries) {
+    const status = entry.status ?? 'ok';
+    if (status === 'dsq' || status === 'dnf' || status === 'dns') {
+      // Most severe explicit status wins: DSQ > DNF > DNS
+      if (
+        entryStatus === null ||
+        UNRANKED_ORDER.indexOf(status) > UNRANKED_ORDER.indexOf(entryStatus)
+      ) {
+        entryStatus = status;
+      }
+      continue;
+    }
+
+    const time = parseTime(entry.timestamp);
+    if (time === null) continue;
+    const primaryDevice =
+      primaryDevices[entry.point as keyof SharedPrimaryDevices];
+    const source =
+      !primaryDevice || entry.deviceId === primaryDevice ? 'primary' : 'backup';
+    let times = pointTimes.get(entry.point);
+    if (!times) {
+      times = { primary: null, backup: null };
+      pointTimes.set(entry.point, times);
+    }
+    const previous = times[source];
+    if (previous === null || time < previous.time) {
+      times[source] = { time, manual: entry.timeSource === 'manual' };
+    }
+  }
+
+  const backupPoints: string[] = [];
+  const manualPoints: string[] = [];
+  const resolved = new Map<string, number>();
+  for (const [point, times] of pointTimes) {
+    const pointTime = times.primary ?? times.backup;
+    if (!pointTime) continue;
+    resolved.set(point, pointTime.time);
+    if (!times.primary) backupPoints.push(point);
+    if (pointTime.manual) manualPoints.push(point);
+  }
+  const startTime = resolved.get('S') ?? null;
+  const finishTime = resolved.get('F') ?? null;
+
+  // Split times need a start; splits recorded before it are discarded
+  const splits: Record<string, number> = {};
+  if (startTime !== null) {
+    for (const [point, time] of resolved) {
+      if (point === 'S' || point === 'F') continue;
+      if (time > startTime) splits[point] = time - startTime;
+    }
+  }
+
+  const runTime =
+    startTime !== null && finishTime !== null && finishTime > startTime
+      ? finishTime - startTime
+      : null;
+  const penaltyMs =
+    options.usePenaltyMode && faultCount > 0
+      ? faultCount * options.penaltySeconds * 1000
+      : 0;
+
+  let status: ResultStatus;
+  if (entryStatus) {
+    status = entryStatus;
+  } else if (faultCount > 0 && !options.usePenaltyMode) {
+    status = 'dsq';
+  } else if (runTime === null) {
+    status = 'pending';
+  } else {
+    status = faultCount > 0 ? 'flt' : 'ok';
+  }
+
+  return {
+    bib,
+    run,
+    rank: null,
+    status,
+    startTime,
+    finishTime,
+    runTime,
+    faultCount,
+    penaltyMs,
+    totalTime:
+      isRanked(status) && runTime !== null ? runTime + penaltyMs : null,
+    gap: null,
+    splits,
+    backupPoints,
+    manualPoints,
+  };
+}
+
+/**
+ * Compute ranked results per run and combined over all runs.
+ * Faults marked for deletion are ignored. Penalties follow the racer's
+ * age category rule when the config has rules for it. Points without a
+ * primary device use the earliest time of any device.
+ */
+export function computeRaceResults(
+  entries: ResultEntryInput[],
+  faults: ResultFaultInput[],
+  options: ResultPenaltyConfig = DEFAULT_PENALTY_OPTIONS,
+  primaryDevices: SharedPrimaryDevices = {},
+): RaceResults {
+  // Group entries by run, then bib
+  const entriesByRun = new Map<number, Map<string, ResultEntryInput[]>>();
+  for (const entry of entries) {
+    if (!entry.bib) continue;
+    const run = entry.run ?? 1;
+    let byBib = entriesByRun.get(run);
+    if (!byBib) {
+      byBib = new Map();
+      entriesByRun.set(run, byBib);
+    }
+    const bibEntries = byBib.get(entry.bib);
+    if (bibEntries) {
+      bibEntries.push(entry);
+    } else {
+      byBib.set(entry.bib, [entry]);
+    }
+  }
+
+  // Count active faults by bib-run
+  const faultCounts = new Map<string, number>();
+  for (const fault of faults) {
+    if (fault.markedForDeletion) continue;
+    const key = `${fault.bib}-${fault.run}`;
+    faultCounts.set(key, (faultCounts.get(key) ?? 0) + 1);
+  }
+
+  const runs = Array.from(entriesByRun.keys()).sort((a, b) => a - b);
+  const byRun: Record<number, RunResult[]> = {};
+  const resultsByBib = new Map<string, Record<number, RunResult>>();
+
+  const rulesByBib = new Map<string, ResultPenaltyOptions>();
+  const getRule = (bib: string): ResultPenaltyOptions => {
+    let rule = rulesByBib.get(bib);
+    if (!rule) {
+      rule = resolvePenaltyRule(options, options.getAgeCategory?.(bib));
+      rulesByBib.set(bib, rule);
+    }
+    return rule;
+  };
+
+  for (const run of runs) {
+    const runResults: RunResult[] = [];
+    for (const [bib, bibEntries] of entriesByRun.get(run)!) {
+      const result = computeRunResult(
+        bib,
+        run,
+        bibEntries,
+        faultCounts.get(`${bib}-${run}`) ?? 0,
+        getRule(bib),
+        primaryDevices,
+      );
+      runResults.push(result);
+
+      const bibRuns = resultsByBib.get(bib) ?? {};
+      bibRuns[run] = result;
+      resultsByBib.set(bib, bibRuns);
+    }
+    byRun[run] = rankResults(runResults);
+  }
+
+  const combined: CombinedResult[] = [];
+  for (const [bib, bibRuns] of resultsByBib) {
+    let status: ResultStatus = 'ok';
+    let totalTime: number | null = 0;
+
+    for (const run of runs) {
+      const result = bibRuns[run];
+      const runStatus: ResultStatus = result?.status ?? 'pending';
+      if (!isRanked(runStatus) || result?.totalTime == null) {
+        // Keep the most severe unranked status across runs
+        if (
+          isRanked(status) ||
+          UNRANKED_ORDER.indexOf(runStatus) > UNRANKED_ORDER.indexOf(status)
+        ) {
+          status = runStatus;
+        }
+        totalTime = null;
+        continue;
+      }
+      if (runStatus === 'flt' && status === 'ok') status = 'flt';
+      if (totalTime !== null) totalTime += result.totalTime;
+    }
+
+    combined.push({
+      bib,
+      rank: null,
+      status,
+      runs: bibRuns,
+      totalTime: isRanked(status) ? totalTime : null,
+      gap: null,
+    });
+  }
+
+  return { runs, byRun, combined: rankResults(combined) };
+}
@@ -7,18 +7,67 @@
 
 // ===== Shared Constants =====
 
-/** Valid timing points */
-export const VALID_POINTS = ['S', 'F'] as const;
+/** Maximum intermediate (split) timing points per race */
+export const MAX_INTERMEDIATE_POINTS = 9;
+
+/** Maximum runs per race (e.g. training days with many runs) */
+export const MAX_RUNS = 9;
+
+/** Runs of a race without a race config (classic two-run race) */
+export const DEFAULT_RUN_COUNT = 2;
+
+/** Valid timing points in course order: start, intermediates I1-I9, finish */
+export const VALID_POINTS = [
+  'S',
+  'I1',
+  'I2',
+  'I3',
+  'I4',
+  'I5',
+  'I6',
+  'I7',
+  'I8',
+  'I9',
+  'F',
+] as const;
 export type SharedTimingPoint = (typeof VALID_POINTS)[number];
+export type SharedIntermediatePoint = Exclude<SharedTimingPoint, 'S' | 'F'>;
 
 /** Valid entry status values */
 export const VALID_STATUSES = ['ok', 'dns', 'dnf', 'dsq', 'flt'] as const;
 export type SharedEntryStatus = (typeof VALID_STATUSES)[number];
 
+/**
+ * Valid entry time sources: GPS, server-synced or system clock, or typed in
+ * by hand
+ */
+export const VALID_TIME_SOURCES = [
+  'gps',
+  'server',
+  'system',
+  'manual',
+] as const;
+export type SharedTimeSource = (typeof VALID_TIME_SOURCES)[number];
+
 /** Valid fault type codes */
 export const VALID_FAULT_TYPES = ['MG', 'STR', 'BR'] as const;
 export type SharedFaultType = (typeof VALID_FAULT_TYPES)[number];
 
+/** Valid racer age categories */
+export const VALID_AGE_CATEGORIES = [
+  'U6',
+  'U8',
+  'U10',
+  'U12',
+  'U14',
+  'U16',
+  'masters',
+] as const;
+export type SharedAgeCategory = (typeof VALID_AGE_CATEGORIES)[number];
+
+/** Valid racer genders */
+export const VALID_GENDERS = ['M', 'F'] as const;
+
 /** Maximum race ID length */
 export const MAX_RACE_ID_LENGTH = 50;
 
@@ -28,6 +77,161 @@ export const MAX_BIB_LENGTH = 10;
 /** Maximum device name length */
 export const MAX_DEVICE_NAME_LENGTH = 100;
 
+/** Maximum racer name length */
+export const MAX_RACER_NAME_LENGTH = 100;
+
+/** Maximum club name length */
+export const MAX_CLUB_LENGTH = 100;
+
+/** Maximum nation code length */
+export const MAX_NATION_LENGTH = 10;
+
+/** Maximum number of racers on a start list */
+export const MAX_START_LIST_SIZE = 2000;
+
+/** Maximum penalty seconds per fault */
+export const MAX_PENALTY_SECONDS = 60;
+
+/** Race disciplines: slalom, giant slalom, super-G */
+export const VALID_DISCIPLINES = ['SL', 'GS', 'SG'] as const;
+export type SharedDiscipline = (typeof VALID_DISCIPLINES)[number];
+
+/** Jury functions of a race definition */
+export const VALID_JURY_ROLES = [
+  'technicalDelegate',
+  'referee',
+  'chiefOfRace',
+] as const;
+export type SharedJuryRole = (typeof VALID_JURY_ROLES)[number];
+
+/** Maximum gates on a course (fault gate numbers are limited to this) */
+export const MAX_GATE_COUNT = 100;
+
+/** Gate flag colors (slalom gates alternate red/blue) */
+export const VALID_GATE_COLORS = ['red', 'blue'] as const;
+export type SharedGateColor = (typeof VALID_GATE_COLORS)[number];
+
+/** Maximum race name / venue length */
+export const MAX_RACE_NAME_LENGTH = 100;
+
+/** Maximum homologation number length */
+export const MAX_HOMOLOGATION_LENGTH = 30;
+
+/** Maximum jury members of a race definition */
+export const MAX_JURY_MEMBERS = 10;
+
+/** Maximum length of a protest reason, evidence note or jury rationale */
+export const MAX_PROTEST_TEXT_LENGTH = 1000;
+
+/** Maximum evidence photos per protest */
+export const MAX_PROTEST_PHOTOS = 3;
+
+/** What a protest contests: a recorded fault or a racer's timing entry status */
+export const VALID_PROTEST_TARGETS = ['fault', 'entry'] as const;
+export type SharedProtestTarget = (typeof VALID_PROTEST_TARGETS)[number];
+
+/** Jury decision outcomes */
+export const VALID_PROTEST_OUTCOMES = ['upheld', 'rejected'] as const;
+export type SharedProtestOutcome = (typeof VALID_PROTEST_OUTCOMES)[number];
+
+// ===== Timing Points =====
+
+/**
+ * Ordered timing points of a race with the given number of intermediate
+ * points, e.g. 2 → ['S', 'I1', 'I2', 'F']. The count is clamped to 0-9.
+ */
+export function getTimingPoints(
+  intermediateCount: number,
+): SharedTimingPoint[] {
+  const count = Number.isInteger(intermediateCount)
+    ? Math.max(0, Math.min(MAX_INTERMEDIATE_POINTS, intermediateCount))
+    : 0;
+  return ['S', ...VALID_POINTS.slice(1, count + 1), 'F'] as SharedTimingPoint[];
+}
+
+/**
+ * Check if a timing point is an intermediate (split) point
+ */
+export function isIntermediatePoint(
+  point: unknown,
+): point is SharedIntermediatePoint {
+  return (
+    typeof point === 'string' &&
+    point !== 'S' &&
+    point !== 'F' &&
+    (VALID_POINTS as readonly string[]).includes(point)
+  );
+}
+
+/**
+ * Position of a timing point along the course (S first, F last).
+ * Unknown points sort after the finish.
+ */
+export function getTimingPointOrder(point: string): number {
+  const index = (VALID_POINTS as readonly string[]).indexOf(point);
+  return index === -1 ? VALID_POINTS.length : index;
+}
+
+// ===== Runs =====
+
+/**
+ * Check if a value is a valid run number (integer 1 to runCount, which
+ * defaults to MAX_RUNS)
+ */
+export function isValidRun(run: unknown, runCount = MAX_RUNS): run is number {
+  return (
+    typeof run === 'number' &&
+    Number.isInteger(run) &&
+    run >= 1 &&
+    run <= Math.min(runCount, MAX_RUNS)
+  );
+}
+
+/**
+ * Run numbers of a race with the given run count, e.g. 3 → [1, 2, 3].
+ * The count is clamped to 1-9.
+ */
+export function getRuns(runCount: number): number[] {
+  const count = Number.isInteger(runCount)
+    ? Math.max(1, Math.min(MAX_RUNS, runCount))
+    : DEFAULT_RUN_COUNT;
+  return Array.from({ length: count }, (_, i) => i + 1);
+}
+
+// ===== Entry Versions =====
+
+/** Version fields of an entry (absent version = 1, never edited) */
+interface SharedVersionedEntry {
+  currentVersion?: number;
+  versionHistory?: readonly { timestamp: string; editedByDeviceId: string }[];
+}
+
+/**
+ * Whether an incoming version of an entry replaces the stored one: a higher
+ * version wins. Two devices editing the same version both post the next
+ * version, so same-version edits are ordered by edit time, then editing
+ * device ID - the server and every device pick the same winner.
+ */
+export function isNewerEntryVersion(
+  incoming: SharedVersionedEntry,
+  stored: SharedVersionedEntry,
+): boolean {
+  const incomingVersion = incoming.currentVersion ?? 1;
+  const storedVersion = stored.currentVersion ?? 1;
+  if (incomingVersion !== storedVersion) {
+    return incomingVersion > storedVersion;
+  }
+
+  const incomingEdit = incoming.versionHistory?.at(-1);
+  const storedEdit = stored.versionHistory?.at(-1);
+  if (!incomingEdit || !storedEdit) return false;
+
+  const incomingTime = Date.parse(incomingEdit.timestamp) || 0;
+  const storedTime = Date.parse(storedEdit.timestamp) || 0;
+  if (incomingTime !== storedTime) return incomingTime > storedTime;
+  return incomingEdit.editedByDeviceId > storedEdit.editedByDeviceId;
+}
+
 // ===== Shared Validation Functions =====
 
 /**
@@ -47,10 +251,11 @@ export function isValidRaceId(raceId: unknown): raceId is string {
  * Validates structure and types for core Entry fields:
  * - Required: id, point, timestamp
  * - Optional in legacy data: bib, status, deviceId, deviceName
- * - Optional: syncedAt, photo, gpsCoords, timeSource, gpsTimestamp
+ * - Optional: syncedAt, photo, gpsCoords, timeSource, gpsTimestamp,
+ *   timeUncertainty, enteredBy, currentVersion, versionHistory
  *
  * This is the shared core validation used by both client and server.
- * The server may apply additional constraints (e.g., run limited to 1|2).
+ * The server may apply additional constraints (e.g., run limited to 1-9).
  */
 export function isValidEntry(entry: unknown): boolean {
   if (!entry || typeof entry !== 'object') return false;
@@ -105,8 +310,7 @@ export function isValidEntry(entry: unknown): boolean {
   // TimeSource is optional but must be valid if present
   if (
     e.timeSource !== undefined &&
-    e.timeSource !== 'gps' &&
-    e.timeSource !== 'system'
+    !(VALID_TIME_SOURCES as readonly string[]).includes(e.timeSource as string)
   )
     return false;
 
@@ -116,6 +320,40 @@ export function isValidEntry(entry: unknown): boolean {
       return false;
   }
 
+  // TimeUncertainty (± ms of a server-synced clock) is optional but must be a
+  // non-negative finite number if present
+  if (e.timeUncertainty !== undefined) {
+    if (
+      typeof e.timeUncertainty !== 'number' ||
+      !Number.isFinite(e.timeUncertainty) ||
+      e.timeUncertainty < 0
+    )
+      return false;
+  }
+
+  // EnteredBy (official who typed a manual time) is optional but must be a
+  // string if present
+  if (
+    e.enteredBy !== undefined &&
+    (typeof e.enteredBy !== 'string' ||
+      e.enteredBy.length > MAX_DEVICE_NAME_LENGTH)
+  )
+    return false;
+
+  // CurrentVersion is optional but must be a positive integer if present
+  if (
+    e.currentVersion !== undefined &&
+    (typeof e.currentVersion !== 'number' ||
+      !Number.isInteger(e.currentVersion) ||
+      e.currentVersion < 1)
+  )
+    return false;
+
+  // VersionHistory is optional but must be an array if present (its records
+  // are sanitized separately)
+  if (e.versionHistory !== undefined && !Array.isArray(e.versionHistory))
+    return false;
+
   // GpsCoords is optional but must have valid structure if present
   if (e.gpsCoords !== undefined) {
     if (typeof e.gpsCoords !== 'object' || e.gpsCoords === null) return false;
@@ -141,6 +379,81 @@ export function isValidEntry(entry: unknown): boolean {
   return true;
 }
 
+/**
+ * Validate a single start list racer.
+ *
+ * Required: bib (non-empty), name (non-empty).
+ * Optional: club, nation, gender, ageCategory, birthYear.
+ */
+export function isValidRacer(racer: unknown): boolean {
+  if (!racer || typeof racer !== 'object') return false;
+
+  const r = racer as Record<string, unknown>;
+
+  if (typeof r.bib !== 'string' || r.bib.length === 0) return false;
+  if (r.bib.length > MAX_BIB_LENGTH) return false;
+
+  if (typeof r.name !== 'string' || r.name.length === 0) return false;
+  if (r.name.length > MAX_RACER_NAME_LENGTH) return false;
+
+  if (
+    r.club !== undefined &&
+    (typeof r.club !== 'string' || r.club.length > MAX_CLUB_LENGTH)
+  )
+    return false;
+
+  if (
+    r.nation !== undefined &&
+    (typeof r.nation !== 'string' || r.nation.length > MAX_NATION_LENGTH)
+  )
+    return false;
+
+  if (
+    r.gender !== undefined &&
+    !(VALID_GENDERS as readonly string[]).includes(r.gender as string)
+  )
+    return false;
+
+  if (
+    r.ageCategory !== undefined &&
+    !(VALID_AGE_CATEGORIES as readonly string[]).includes(
+      r.ageCategory as string,
+    )
+  )
+    return false;
+
+  if (r.birthYear !== undefined) {
+    if (
+      typeof r.birthYear !== 'number' ||
+      !Number.isInteger(r.birthYear) ||
+      r.birthYear < 1900 ||
+      r.birthYear > 2100
+    )
+      return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate a penalty rule (penalty time per fault, or DSQ on any fault).
+ * Required: usePenaltyMode (boolean), penaltySeconds (integer 0-60).
+ */
+export function isValidPenaltyRule(rule: unknown): boolean {
+  if (!rule || typeof rule !== 'object') return false;
+
+  const r = rule as Record<string, unknown>;
+
+  if (typeof r.usePenaltyMode !== 'boolean') return false;
+
+  return (
+    typeof r.penaltySeconds === 'number' &&
+    Number.isInteger(r.penaltySeconds) &&
+    r.penaltySeconds >= 0 &&
+    r.penaltySeconds <= MAX_PENALTY_SECONDS
+  );
+}
+
 /**
  * Validate device ID format.
  * Must start with 'dev_' and be longer than 4 characters.
@@ -149,3 +462,206 @@ export function isValidDeviceId(deviceId: unknown): deviceId is string {
   if (!deviceId || typeof deviceId !== 'string') return false;
   return deviceId.startsWith('dev_') && deviceId.length > 4;
 }
+
+/** Official (primary) timing device per timing point: point → device ID */
+export type SharedPrimaryDevices = Partial<Record<SharedTimingPoint, string>>;
+
+/**
+ * Extract the valid primary devices (known timing point → valid device ID),
+ * dropping everything else
+ */
+export function sanitizePrimaryDevices(data: unknown): SharedPrimaryDevices {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+
+  const d = data as Record<string, unknown>;
+  const sanitized: SharedPrimaryDevices = {};
+  for (const point of VALID_POINTS) {
+    const deviceId = d[point];
+    if (isValidDeviceId(deviceId)) sanitized[point] = deviceId;
+  }
+  return sanitized;
+}
+
+/** Gate of the course map: number, flag color and GPS position */
+export interface SharedCourseGate {
+  number: number;
+  color: SharedGateColor;
+  latitude: number;
+  longitude: number;
+}
+
+function isValidCourseGate(gate: unknown): gate is SharedCourseGate {
+  if (!gate || typeof gate !== 'object') return false;
+  const g = gate as Record<string, unknown>;
+  return (
+    typeof g.number === 'number' &&
+    Number.isInteger(g.number) &&
+    g.number >= 1 &&
+    g.number <= MAX_GATE_COUNT &&
+    (VALID_GATE_COLORS as readonly unknown[]).includes(g.color) &&
+    typeof g.latitude === 'number' &&
+    g.latitude >= -90 &&
+    g.latitude <= 90 &&
+    typeof g.longitude === 'number' &&
+    g.longitude >= -180 &&
+    g.longitude <= 180
+  );
+}
+
+/**
+ * Extract the valid course gates sorted by number (first of duplicate
+ * numbers wins), dropping everything else
+ */
+export function sanitizeCourseGates(data: unknown): SharedCourseGate[] {
+  if (!Array.isArray(data)) return [];
+
+  const byNumber = new Map<number, SharedCourseGate>();
+  for (const gate of data) {
+    if (isValidCourseGate(gate) && !byNumber.has(gate.number)) {
+      const { number, color, latitude, longitude } = gate;
+      byNumber.set(number, { number, color, latitude, longitude });
+    }
+  }
+  return Array.from(byNumber.values()).sort((a, b) => a.number - b.number);
+}
+
+/** Protest deadline per run: run number → deadline (ms since epoch) */
+export type SharedProtestDeadlines = Record<string, number>;
+
+/**
+ * Extract the valid protest deadlines (run 1-9 → positive timestamp),
+ * dropping everything else
+ */
+export function sanitizeProtestDeadlines(
+  data: unknown,
+): SharedProtestDeadlines {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return {};
+
+  const sanitized: SharedProtestDeadlines = {};
+  for (const [run, deadline] of Object.entries(data)) {
+    if (
+      isValidRun(Number(run)) &&
+      String(Number(run)) === run &&
+      typeof deadline === 'number' &&
+      Number.isFinite(deadline) &&
+      deadline > 0
+    ) {
+      sanitized[run] = deadline;
+    }
+  }
+  return sanitized;
+}
+
+/** Jury decision on a protest, with the vote and its rationale */
+export interface SharedJuryDecision {
+  outcome: SharedProtestOutcome;
+  votesFor: number;
+  votesAgainst: number;
+  abstentions: number;
+  rationale: string;
+  decidedAt: string; // ISO
+  decidedBy: string; // Device name that recorded the decision
+}
+
+/**
+ * Outcome a jury vote decides: a protest is upheld by more votes for than
+ * against, a tie rejects it
+ */
+export function getProtestOutcome(
+  votesFor: number,
+  votesAgainst: number,
+): SharedProtestOutcome {
+  return votesFor > votesAgainst ? 'upheld' : 'rejected';
+}
+
+/**
+ * Protest against a fault or a racer's entry status, filed by a team
+ * official and decided by the jury. Faults and entries are referenced by ID;
+ * the contested fault or status is copied in for the audit trail.
+ */
+export interface SharedProtest {
+  id: string;
+  bib: string;
+  run: number;
+  targetType: SharedProtestTarget;
+  targetId: string; // Fault or entry ID
+  fault?: {
+    gateNumber: number;
+    faultType: SharedFaultType;
+    deviceName: string;
+  };
+  currentStatus?: SharedEntryStatus; // Entry status when filed
+  requestedStatus?: SharedEntryStatus; // Entry status the protest asks for
+  filedBy: string; // Coach or team official
+  filedAt: string; // ISO
+  reason: string;
+  evidenceNote?: string;
+  evidenceNoteSource?: 'voice' | 'manual';
+  photoCount: number; // Evidence photos stored with the protest
+  recordedBy: string; // Device name that recorded the protest
+  recordedByDeviceId: string;
+  decision?: SharedJuryDecision;
+}
+
+function isVoteCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isValidJuryDecision(decision: unknown): boolean {
+  if (!decision || typeof decision !== 'object') return false;
+  const d = decision as Record<string, unknown>;
+  return (
+    VALID_PROTEST_OUTCOMES.includes(d.outcome as SharedProtestOutcome) &&
+    isVoteCount(d.votesFor) &&
+    isVoteCount(d.votesAgainst) &&
+    isVoteCount(d.abstentions) &&
+    typeof d.rationale === 'string' &&
+    typeof d.decidedAt === 'string' &&
+    typeof d.decidedBy === 'string'
+  );
+}
+
+/**
+ * Validate a protest record. Fault protests carry the contested fault,
+ * entry protests the requested status.
+ */
+export function isValidProtest(protest: unknown): protest is SharedProtest {
+  if (!protest || typeof protest !== 'object') return false;
+
+  const p = protest as Record<string, unknown>;
+
+  if (typeof p.id !== 'string' || p.id.length === 0) return false;
+  if (typeof p.bib !== 'string' || p.bib.length === 0) return false;
+  if (p.bib.length > MAX_BIB_LENGTH) return false;
+  if (!isValidRun(p.run)) return false;
+  if (typeof p.targetId !== 'string' || p.targetId.length === 0) return false;
+  if (typeof p.filedBy !== 'string' || typeof p.reason !== 'string') {
+    return false;
+  }
+  if (typeof p.filedAt !== 'string' || !isVoteCount(p.photoCount)) {
+    return false;
+  }
+  if (
+    typeof p.recordedBy !== 'string' ||
+    typeof p.recordedByDeviceId !== 'string'
+  ) {
+    return false;
+  }
+  if (p.decision !== undefined && !isValidJuryDecision(p.decision)) {
+    return false;
+  }
+
+  if (p.targetType === 'fault') {
+    const fault = p.fault as Record<string, unknown> | undefined;
+    return (
+      !!fault &&
+      typeof fault.gateNumber === 'number' &&
+      VALID_FAULT_TYPES.includes(fault.faultType as SharedFaultType) &&
+      typeof fault.deviceName === 'string'
+    );
+  }
+  if (p.targetType === 'entry') {
+    return VALID_STATUSES.includes(p.requestedStatus as SharedEntryStatus);
+  }
+  return false;
+}
@@ -38,9 +38,11 @@ import {
 import { destroyClock, handleTimerVoiceIntent } from './features/timerView';
 import { t } from './i18n/translations';
 import {
+  bibRecognitionService,
   cleanupFeedback,
   feedbackWarning,
   gpsService,
+  serverClockService,
   syncService,
   wakeLockService,
 } from './services';
@@ -328,6 +330,9 @@ export function handleBeforeUnload(): void {
   // Cleanup sync service
   syncService.cleanup();
 
+  // Stop the bib recognition worker
+  bibRecognitionService.cleanup();
+
   // Cleanup photo-capture signal effect
   disposePhotoEffect();
 
@@ -336,6 +341,9 @@ export function handleBeforeUnload(): void {
   // Cleanup GPS service - stop watching position to prevent memory leaks
   gpsService.stop();
 
+  // Stop periodic server clock sync
+  serverClockService.stop();
+
   // Cleanup wake lock service
   wakeLockService.disable();
 
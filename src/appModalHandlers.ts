@@ -7,13 +7,19 @@ import {
   closeModal,
   openModal,
 } from './features/modals';
-import { closePhotoViewer, deletePhoto } from './features/photoViewer';
+import {
+  closePhotoViewer,
+  deletePhoto,
+  showBurstFrame,
+  stepBurstFrame,
+} from './features/photoViewer';
 import {
   cleanupPinVerification,
   hasPendingPinVerification,
 } from './features/race';
 import { t } from './i18n/translations';
 import {
+  bibRecognitionService,
   feedbackDelete,
   feedbackUndo,
   photoStorage,
@@ -22,6 +28,7 @@ import {
 import { deleteFaultFromCloud, syncEntry } from './services/sync';
 import { store } from './store';
 import type { Entry } from './types';
+import { getLocale, getRunLabel } from './utils/format';
 import { ListenerManager } from './utils/listenerManager';
 import {
   clearModalContext,
@@ -29,8 +36,8 @@ import {
   setModalContext,
 } from './utils/modalContext';
 import { openModalWithContext } from './utils/modalHelpers';
-import { updateButtonGroupState } from './utils/uiHelpers';
-import { makeNumericInput } from './utils/validation';
+import { renderRunButtons, updateButtonGroupState } from './utils/uiHelpers';
+import { getRuns, makeNumericInput } from './utils/validation';
 
 const listeners = new ListenerManager();
 
@@ -99,6 +106,17 @@ export function initModals(): void {
     makeNumericInput(editBibInput, 3);
   }
 
+  // Suggested bib - fill it in and save in one tap
+  const bibSuggestionBtn = document.getElementById('edit-bib-suggestion');
+  if (bibSuggestionBtn) {
+    listeners.add(bibSuggestionBtn, 'click', () => {
+      const bib = bibSuggestionBtn.dataset.bib;
+      if (!bib) return;
+      if (editBibInput) editBibInput.value = bib;
+      handleSaveEdit();
+    });
+  }
+
   // Edit run selector
   const editRunSelector = document.getElementById('edit-run-selector');
   if (editRunSelector) {
@@ -143,6 +161,26 @@ export function initModals(): void {
     listeners.add(photoViewerDeleteBtn, 'click', deletePhoto);
   }
 
+  // Photo-finish burst scrubber
+  const burstPrevBtn = document.getElementById('photo-viewer-burst-prev');
+  if (burstPrevBtn) {
+    listeners.add(burstPrevBtn, 'click', () => stepBurstFrame(-1));
+  }
+
+  const burstNextBtn = document.getElementById('photo-viewer-burst-next');
+  if (burstNextBtn) {
+    listeners.add(burstNextBtn, 'click', () => stepBurstFrame(1));
+  }
+
+  const burstSlider = document.getElementById(
+    'photo-viewer-burst-slider',
+  ) as HTMLInputElement | null;
+  if (burstSlider) {
+    listeners.add(burstSlider, 'input', () => {
+      showBurstFrame(Number(burstSlider.value));
+    });
+  }
+
   // Photo viewer modal overlay click to close
   const photoViewerModal = document.getElementById('photo-viewer-modal');
   if (photoViewerModal) {
@@ -184,6 +222,14 @@ export function openEditModal(entry: Entry): void {
   if (bibInput) bibInput.value = entry.bib || '';
   if (statusSelect) statusSelect.value = entry.status;
 
+  // Show the race's runs (and the entry's, if beyond them)
+  renderRunButtons(
+    document.getElementById('edit-run-selector'),
+    '.edit-run-btn',
+    getRuns(Math.max(store.getState().runCount, entryRun)),
+    String,
+  );
+
   // Update run selector buttons
   updateButtonGroupState(
     document.body,
@@ -192,7 +238,67 @@ export function openEditModal(entry: Entry): void {
     String(entryRun),
   );
 
+  renderEntryVersionHistory(entry);
+
   openModalWithContext(modal, { entryId: entry.id, entryRun });
+  showBibSuggestion(modal, entry);
+}
+
+/**
+ * Offer the bib read from the entry's photo (entries without a bib)
+ */
+function showBibSuggestion(modal: HTMLElement, entry: Entry): void {
+  const btn = document.getElementById('edit-bib-suggestion');
+  if (!btn) return;
+  btn.hidden = true;
+  delete btn.dataset.bib;
+  if (entry.bib || !entry.photo) return;
+
+  bibRecognitionService.suggestBib(entry).then((bib) => {
+    // The modal may have been closed or opened for another entry meanwhile
+    const ctx = getModalContext<{ entryId: string }>(modal);
+    if (!bib || ctx?.entryId !== entry.id) return;
+
+    btn.dataset.bib = bib;
+    btn.textContent = t('suggestedBib', store.getState().currentLang).replace(
+      '{bib}',
+      bib,
+    );
+    btn.hidden = false;
+  });
+}
+
+/**
+ * List the entry's versions in the edit modal, newest first (hidden until
+ * the entry has been edited)
+ */
+function renderEntryVersionHistory(entry: Entry): void {
+  const container = document.getElementById('edit-version-history');
+  const list = document.getElementById('edit-version-list');
+  if (!container || !list) return;
+
+  const history = entry.versionHistory ?? [];
+  list.innerHTML = '';
+  container.style.display = history.length > 0 ? 'block' : 'none';
+
+  const lang = store.getState().currentLang;
+  const currentVersion = entry.currentVersion ?? 1;
+  for (const version of [...history].sort((a, b) => b.version - a.version)) {
+    const item = document.createElement('li');
+    const timeStr = new Date(version.timestamp).toLocaleTimeString(
+      getLocale(lang),
+      { hour: '2-digit', minute: '2-digit' },
+    );
+    const changeLabel =
+      version.version === currentVersion
+        ? t('currentVersion', lang)
+        : version.changeType === 'create'
+          ? t('originalVersion', lang)
+          : version.editedBy;
+    item.textContent = `v${version.version} - ${changeLabel} (${timeStr}): ${version.data.bib || '---'} · ${t(version.data.status, lang)} · ${getRunLabel(version.data.run, lang)}`;
+    item.classList.toggle('current', version.version === currentVersion);
+    list.appendChild(item);
+  }
 }
 
 /**
@@ -355,12 +461,19 @@ function handleSaveEdit(): void {
   ) as HTMLSelectElement;
   const run = ctx?.entryRun ?? 1;
 
-  store.updateEntry(entryId, {
+  const edited = store.editEntry(entryId, {
     bib: bibInput?.value.padStart(3, '0') || '',
     status: statusSelect?.value as Entry['status'],
     run,
   });
 
+  // Send the new version to the cloud and other tabs (queued on failure)
+  if (edited) {
+    syncEntry(edited).catch(() => {
+      // Sync failure handled by queue
+    });
+  }
+
   showToast(t('saved', store.getState().currentLang), 'success');
   closeAllModals();
 }
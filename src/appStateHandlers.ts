@@ -7,6 +7,7 @@ import {
 } from './appUiUpdates';
 import { updateActiveBibsList } from './features/faults/faultInlineEntry';
 import {
+  updateGateJudgeRunButtons,
   updateGateJudgeRunSelection,
   updateGateJudgeTabVisibility,
   updateGateRangeDisplay,
@@ -19,6 +20,7 @@ import {
 import {
   getVirtualList,
   updateEntryCountBadge,
+  updatePointFilterOptions,
   updateStats,
 } from './features/resultsView';
 import {
@@ -35,6 +37,7 @@ import { ambientModeService } from './services/ambient';
 import {
   $bibInput,
   $cloudDeviceCount,
+  $currentLang,
   $currentView,
   $deviceRole,
   $entries,
@@ -42,16 +45,19 @@ import {
   $gateAssignment,
   $gpsStatus,
   $isJudgeReady,
+  $runs,
   $selectedPoint,
   $selectedRun,
   $settingsAmbientMode,
   $settingsGlassEffects,
   $settingsGps,
   $settingsOutdoorMode,
+  $settingsPhotoBurst,
   $settingsPhotoCapture,
   $settingsSync,
   $settingsSyncPhotos,
   $syncStatus,
+  $timingPoints,
   $undoStack,
   effect,
   store,
@@ -98,6 +104,15 @@ export function initStateEffects(): () => void {
     }),
   );
 
+  // Gate Judge run buttons follow the race's runs
+  disposers.push(
+    effect(() => {
+      void $runs.value;
+      void $currentLang.value;
+      updateGateJudgeRunButtons();
+    }),
+  );
+
   // --- Entry updates (stats & badge; VirtualList handles its own entries internally) ---
 
   disposers.push(
@@ -109,6 +124,15 @@ export function initStateEffects(): () => void {
     }),
   );
 
+  // Point filter options follow the race's timing points
+  disposers.push(
+    effect(() => {
+      void $timingPoints.value;
+      void $currentLang.value;
+      updatePointFilterOptions();
+    }),
+  );
+
   // --- Gate Judge role/state updates ---
 
   disposers.push(
@@ -224,10 +248,11 @@ export function initStateEffects(): () => void {
     }),
   );
 
-  // 3. Photo capture: tracks photoCapture setting and current view
+  // 3. Photo capture: tracks photoCapture/photoBurst settings and current view
   disposers.push(
     effect(() => {
       void $settingsPhotoCapture.value;
+      void $settingsPhotoBurst.value;
       void $currentView.value;
       untracked(() => updatePhotoCaptureIndicator());
       // Defer service calls: cameraService.stop writes to store synchronously
@@ -5,11 +5,13 @@ import { batteryService } from '../services/battery';
 import {
   $entries,
   $faultEntries,
+  $penaltyConfig,
+  $racerLookup,
   $selectedEntries,
   effect,
   store,
 } from '../store';
-import type { Entry, FaultEntry, Language, Run } from '../types';
+import type { Entry, FaultEntry, Language, Racer, Run } from '../types';
 import {
   // Template helpers
   deleteButton,
@@ -27,12 +29,15 @@ import {
   getRunColor,
   getRunLabel,
   iconChevron,
+  manualTimeBadge,
   photoButton,
   pointBadge,
   runBadge,
   statusBadge,
 } from '../utils';
 import { logger } from '../utils/logger';
+import { resolvePenaltyRule } from '../utils/results';
+import { findRacer } from '../utils/startList';
 import { SwipeActions } from './SwipeActions';
 
 // Group of items for the same bib+run
@@ -75,6 +80,11 @@ interface VirtualListOptions {
   onItemDelete?: (entry: Entry) => void;
   onItemSelect?: (entry: Entry, selected: boolean) => void;
   onViewPhoto?: (entry: Entry) => void;
+  /** Thumbnail (data URL) shown in place of the photo icon, if available */
+  loadThumbnail?: (entry: Entry) => Promise<string | null>;
+  /** Bib read from the photo of an entry without one, offered for one-tap accept */
+  loadBibSuggestion?: (entry: Entry) => Promise<string | null>;
+  onAcceptBibSuggestion?: (entry: Entry, bib: string) => void;
 }
 
 // Track listeners for cleanup
@@ -85,10 +95,12 @@ interface ItemListeners {
   editClick?: EventListener;
   deleteClick?: EventListener;
   photoClick?: EventListener;
+  suggestionClick?: EventListener;
   // References to child elements for cleanup
   editBtn?: HTMLElement;
   deleteBtn?: HTMLElement;
   photoBtn?: HTMLElement;
+  suggestionBtn?: HTMLElement;
 }
 
 export class VirtualList {
@@ -113,6 +125,7 @@ export class VirtualList {
   private needsRefreshOnResume = false;
   private isDestroyed = false;
   private cachedLang: Language = 'de'; // Cached per render() to avoid per-item getState()
+  private cachedRacerLookup: Map<string, Racer> = new Map(); // Start list names, cached per render()
   private domRemovalObserver: MutationObserver | null = null;
   private scrollDebounceDelay: number = SCROLL_DEBOUNCE_NORMAL;
   private unsubscribeBattery: (() => void) | null = null;
@@ -189,6 +202,7 @@ export class VirtualList {
       const entries = $entries.value;
       void $selectedEntries.value;
       void $faultEntries.value;
+      void $racerLookup.value;
       this.setEntries(entries);
     });
 
@@ -239,14 +253,20 @@ export class VirtualList {
     }
 
     const state = store.getState();
+    const racerLookup = $racerLookup.peek();
     let filteredEntries = [...this.entries];
 
+    // Search matches bib, device name, or racer name from the start list
+    const matchesRacerName = (bib: string, term: string): boolean =>
+      !!findRacer(racerLookup, bib)?.name.toLowerCase().includes(term);
+
     if (searchTerm) {
       const term = searchTerm.toLowerCase();
       filteredEntries = filteredEntries.filter(
         (e) =>
           e.bib.toLowerCase().includes(term) ||
-          e.deviceName?.toLowerCase().includes(term),
+          e.deviceName?.toLowerCase().includes(term) ||
+          matchesRacerName(e.bib, term),
       );
     }
 
@@ -266,7 +286,8 @@ export class VirtualList {
     // Add timing entries to groups
     for (const entry of filteredEntries) {
       const run = entry.run ?? 1;
-      const key = `${entry.bib}-${run}`;
+      // Entries without a bib are different racers, so each gets its own row
+      const key = entry.bib ? `${entry.bib}-${run}` : `-${run}-${entry.id}`;
 
       if (!groupMap.has(key)) {
         groupMap.set(key, {
@@ -298,7 +319,8 @@ export class VirtualList {
         const term = searchTerm.toLowerCase();
         if (
           !fault.bib.toLowerCase().includes(term) &&
-          !fault.deviceName?.toLowerCase().includes(term)
+          !fault.deviceName?.toLowerCase().includes(term) &&
+          !matchesRacerName(fault.bib, term)
         ) {
           continue;
         }
@@ -486,6 +508,7 @@ export class VirtualList {
   render(): void {
     // Cache language once per render pass to avoid per-item store.getState()
     this.cachedLang = store.getState().currentLang;
+    this.cachedRacerLookup = $racerLookup.peek();
 
     if (this.groups.length === 0) {
       this.renderEmpty();
@@ -710,6 +733,7 @@ export class VirtualList {
       );
     }
     const summaryText = summaryParts.join(', ');
+    const racer = findRacer(this.cachedRacerLookup, group.bib);
 
     header.innerHTML = `
       ${iconChevron(16, isExpanded)}
@@ -717,6 +741,7 @@ export class VirtualList {
         ${escapeHtml(bibStr)}
       </div>
       <div class="result-info" style="display: flex; flex-direction: column; gap: 2px; min-width: 0;">
+        ${racer ? this.racerNameHtml(racer) : ''}
         <div class="result-summary" style="font-size: 0.875rem; color: var(--text-secondary);">
           ${escapeHtml(summaryText)}
         </div>
@@ -772,6 +797,79 @@ export class VirtualList {
     return header;
   }
 
+  /**
+   * Replace a photo button's icon with the entry's thumbnail once loaded
+   * (the icon stays when there is none)
+   */
+  private showThumbnail(
+    photoBtn: HTMLElement,
+    entry: Entry,
+    loadThumbnail: (entry: Entry) => Promise<string | null>,
+  ): void {
+    loadThumbnail(entry)
+      .then((thumbnail) => {
+        // Item may have been re-rendered or removed while loading
+        if (!thumbnail?.startsWith('data:image/') || !photoBtn.isConnected) {
+          return;
+        }
+        const img = document.createElement('img');
+        img.className = 'result-photo-thumb';
+        img.src = thumbnail;
+        img.alt = '';
+        img.style.cssText =
+          'width: 32px; height: 32px; object-fit: cover; border-radius: var(--radius-sm);';
+        photoBtn.replaceChildren(img);
+      })
+      .catch((error) => {
+        logger.warn('Thumbnail load failed:', error);
+      });
+  }
+
+  /**
+   * Replace the blank bib of an entry with its suggested bib once read,
+   * as a button that assigns it
+   */
+  private showBibSuggestion(
+    item: HTMLElement,
+    entry: Entry,
+    listeners: ItemListeners,
+    loadBibSuggestion: (entry: Entry) => Promise<string | null>,
+  ): void {
+    loadBibSuggestion(entry)
+      .then((bib) => {
+        const bibEl = item.querySelector('.result-bib');
+        // Item may have been re-rendered or removed while loading
+        if (!bib || !bibEl || !item.isConnected) return;
+
+        const btn = document.createElement('button');
+        btn.className = 'result-bib-suggestion';
+        btn.textContent = formatBib(bib);
+        btn.setAttribute(
+          'aria-label',
+          t('acceptSuggestedBibLabel', this.cachedLang).replace('{bib}', bib),
+        );
+        btn.title = t('suggestedBib', this.cachedLang).replace('{bib}', bib);
+        listeners.suggestionBtn = btn;
+        listeners.suggestionClick = ((e: Event) => {
+          e.stopPropagation();
+          this.options.onAcceptBibSuggestion?.(entry, bib);
+        }) as EventListener;
+        btn.addEventListener('click', listeners.suggestionClick);
+        bibEl.replaceChildren(btn);
+      })
+      .catch((error) => {
+        logger.warn('Bib suggestion failed:', error);
+      });
+  }
+
+  /**
+   * Racer name line (with club) for items whose bib is on the start list
+   */
+  private racerNameHtml(racer: Racer): string {
+    const label = racer.club ? `${racer.name} · ${racer.club}` : racer.name;
+    return `<div class="result-racer-name" style="font-size: 0.8rem; font-weight: 600; color: var(--text-secondary); overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${escapeHtml(label)}</div>`;
+  }
+
   /**
    * Create a timing entry item (for single-item groups)
    */
@@ -821,6 +919,7 @@ export class VirtualList {
     const deviceDateStr = entry.deviceName
       ? `${escapeHtml(entry.deviceName)}  ·  ${dateStr}`
       : dateStr;
+    const racer = findRacer(this.cachedRacerLookup, entry.bib);
 
     item.innerHTML = `
       <div></div>
@@ -831,12 +930,14 @@ export class VirtualList {
         <div class="result-time" style="font-family: var(--font-mono); color: var(--text-primary); font-size: 1rem; font-weight: 600; letter-spacing: 0.03em;">
           ${escapeHtml(timeStr)}
         </div>
+        ${racer ? this.racerNameHtml(racer) : ''}
         <div class="result-device" style="font-size: 0.68rem; color: var(--text-tertiary); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-family: var(--font-mono); letter-spacing: 0.04em;">
           ${deviceDateStr}
         </div>
       </div>
       <div class="result-tags" style="display: flex; align-items: center; justify-content: flex-end; gap: 6px; min-width: max-content;">
         ${duplicateBadgeHtml}
+        ${entry.timeSource === 'manual' ? manualTimeBadge(entry.enteredBy ?? '', lang) : ''}
         ${faultBadgeHtml}
         ${entry.status !== 'ok' ? statusBadge(t(entry.status, lang)) : ''}
         ${entry.photo ? photoButton(t('viewPhotoLabel', lang)) : ''}
@@ -879,6 +980,19 @@ export class VirtualList {
         this.options.onViewPhoto?.(entry);
       }) as EventListener;
       photoBtn.addEventListener('click', listeners.photoClick);
+      if (this.options.loadThumbnail) {
+        this.showThumbnail(photoBtn, entry, this.options.loadThumbnail);
+      }
+    }
+
+    // Bib suggested from the photo (entries recorded without a bib)
+    if (!entry.bib && entry.photo && this.options.loadBibSuggestion) {
+      this.showBibSuggestion(
+        item,
+        entry,
+        listeners,
+        this.options.loadBibSuggestion,
+      );
     }
 
     // Main item click
@@ -985,7 +1099,12 @@ export class VirtualList {
 
     const faultBadgeHtml = faultBadge({ faults, lang });
 
-    const usePenaltyMode = store.getState().usePenaltyMode;
+    const racer = findRacer(this.cachedRacerLookup, group.bib);
+    // Status follows the penalty rule of the racer's age category
+    const { usePenaltyMode } = resolvePenaltyRule(
+      $penaltyConfig.peek(),
+      racer?.ageCategory,
+    );
     const statusLabel = usePenaltyMode ? t('flt', lang) : t('dsq', lang);
     const statusColor = usePenaltyMode ? '#f59e0b' : '#ef4444';
 
@@ -999,6 +1118,7 @@ export class VirtualList {
         ${escapeHtml(bibStr)}
       </div>
       <div class="result-info" style="display: flex; flex-direction: column; gap: 2px; min-width: 0;">
+        ${racer ? this.racerNameHtml(racer) : ''}
         <div class="result-fault-details" style="font-size: 0.8rem; color: var(--text-secondary); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; ${hasMarkedForDeletion ? 'text-decoration: line-through; opacity: 0.6;' : ''}">
           ${escapeHtml(faultDetails)}
         </div>
@@ -1201,6 +1321,7 @@ export class VirtualList {
         }
       </div>
       <div class="result-tags" style="display: flex; align-items: center; justify-content: flex-end; gap: 6px; min-width: max-content;">
+        ${entry.timeSource === 'manual' ? manualTimeBadge(entry.enteredBy ?? '', lang) : ''}
         ${entry.status !== 'ok' ? statusBadge(t(entry.status, lang), 'var(--error)', '0.65rem') : ''}
         ${editButton({ ariaLabel: t('editEntryLabel', lang), size: 16 })}
         ${deleteButton({ ariaLabel: t('deleteEntryLabel', lang), size: 16 })}
@@ -1627,6 +1748,12 @@ export class VirtualList {
       if (listeners.photoBtn && listeners.photoClick) {
         listeners.photoBtn.removeEventListener('click', listeners.photoClick);
       }
+      if (listeners.suggestionBtn && listeners.suggestionClick) {
+        listeners.suggestionBtn.removeEventListener(
+          'click',
+          listeners.suggestionClick,
+        );
+      }
       this.itemListeners.delete(itemId);
     }
   }
@@ -0,0 +1,33 @@
+/**
+ * Bib Suggestion Module
+ * Assigns a bib suggested from an entry's photo in one tap
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess } from '../services';
+import { syncEntry } from '../services/sync';
+import { store } from '../store';
+import type { Entry } from '../types';
+
+/**
+ * Give an entry the bib suggested from its photo
+ */
+export function acceptSuggestedBib(entry: Entry, bib: string): void {
+  const edited = store.editEntry(entry.id, { bib });
+  if (!edited) return;
+
+  // Send the new version to the cloud and other tabs (queued on failure)
+  syncEntry(edited).catch(() => {
+    // Sync failure handled by queue
+  });
+
+  feedbackSuccess();
+  showToast(
+    t('suggestedBibAccepted', store.getState().currentLang).replace(
+      '{bib}',
+      bib,
+    ),
+    'success',
+  );
+}
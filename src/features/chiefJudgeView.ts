@@ -1,31 +1,54 @@
 /**
  * Chief Judge View Module
- * Handles Chief Judge panel, fault summaries, penalty configuration, and deletion approvals
+ * Handles Chief Judge panel, fault summaries, penalty configuration, official
+ * timers, clock health, course map, protests and deletion approvals
  */
 
 import { showToast } from '../components';
 import { t } from '../i18n/translations';
 import { feedbackDelete, feedbackSuccess, feedbackTap } from '../services';
-import { deleteFaultFromCloud, syncFault, syncService } from '../services/sync';
+import {
+  deleteFaultFromCloud,
+  type RaceConfigSection,
+  syncFault,
+  syncService,
+} from '../services/sync';
 import {
   $deviceRole,
   $entries,
   $faultEntries,
   $gateAssignment,
+  $intermediatePoints,
   $isChiefJudgeView,
   $isJudgeReady,
+  $penaltyConfig,
+  $penaltyRules,
   $penaltySeconds,
+  $primaryDevices,
+  $racerLookup,
+  $runCount,
   $settings,
+  $startList,
+  $timingPoints,
   $usePenaltyMode,
   effect,
   store,
 } from '../store';
-import type { FaultEntry, Language, Run } from '../types';
+import type {
+  AgeCategory,
+  FaultEntry,
+  GateAssignment,
+  Language,
+  Run,
+  TimingPoint,
+} from '../types';
 import {
   escapeAttr,
   escapeHtml,
   getFaultTypeLabel,
   getLocale,
+  getPointLabel,
+  getRunLabel,
   iconCheck,
   iconEdit,
   iconNote,
@@ -35,11 +58,40 @@ import {
   iconX,
 } from '../utils';
 import { ListenerManager } from '../utils/listenerManager';
+import { logger } from '../utils/logger';
+import { resolvePenaltyRule } from '../utils/results';
+import { findRacer, parseStartList } from '../utils/startList';
+import {
+  type GateSpan,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_RUNS,
+  VALID_AGE_CATEGORIES,
+} from '../utils/validation';
+import { cleanupClockHealth, initClockHealth } from './clockHealthView';
+import {
+  cleanupCourseMap,
+  initCourseMap,
+  updateCourseMap,
+} from './courseMapView';
 import {
   exportChiefSummary,
   exportFaultSummaryWhatsApp,
   exportResults,
 } from './export';
+import { cleanupProtests, initProtests } from './protestsView';
+
+// Largest start list file accepted for import (Race Horology exports are a few KB)
+const MAX_START_LIST_FILE_SIZE = 1024 * 1024;
+
+// Delay before uploading penalty/race config changes (batches rapid +/- taps)
+const PENALTY_SYNC_DEBOUNCE_MS = 1000;
+let penaltySyncTimeout: ReturnType<typeof setTimeout> | null = null;
+let raceConfigSyncTimeout: ReturnType<typeof setTimeout> | null = null;
+// Race config sections changed here and not yet uploaded
+const pendingRaceConfigSections = new Set<RaceConfigSection>();
+
+// Whether the race's results are on the public live page (null = unknown)
+let liveResultsPublished: boolean | null = null;
 
 // Module-level listener manager for lifecycle cleanup
 const listeners = new ListenerManager();
@@ -165,24 +217,46 @@ export function initChiefJudgeToggle(): void {
       updateChiefJudgeToggleVisibility();
     }),
 
-    // Refresh fault summary panel when faults or penalty config change (only if visible)
+    // Refresh fault summary panel when faults, penalty config or racer names change (only if visible)
     effect(() => {
       void $faultEntries.value;
-      void $penaltySeconds.value;
-      void $usePenaltyMode.value;
+      void $racerLookup.value;
+      void $penaltyConfig.value;
       if ($isChiefJudgeView.value) {
         updateFaultSummaryPanel();
         updatePendingDeletionsPanel();
       }
     }),
 
+    // Update start list count when the start list changes
+    effect(() => {
+      void $startList.value;
+      updateStartListInfo();
+    }),
+
     // Update penalty UI when config changes
     effect(() => {
       void $penaltySeconds.value;
       void $usePenaltyMode.value;
+      void $penaltyRules.value;
       updatePenaltyConfigUI();
     }),
 
+    // Update split point and run counts when the race config changes
+    effect(() => {
+      void $intermediatePoints.value;
+      void $runCount.value;
+      updateRaceConfigUI();
+    }),
+
+    // Update official timers when points, primaries or recording devices change
+    effect(() => {
+      void $timingPoints.value;
+      void $primaryDevices.value;
+      void $entries.value;
+      updatePrimaryDevicesUI();
+    }),
+
     // Update judges overview when entries/faults/readiness change (only if visible)
     effect(() => {
       void $entries.value;
@@ -222,6 +296,24 @@ export function initChiefJudgeToggle(): void {
   // Initialize penalty configuration handlers
   initPenaltyConfig();
 
+  // Initialize race config (split points, runs) handlers
+  initRaceConfig();
+
+  // Initialize start list import handlers
+  initStartListImport();
+
+  // Initialize live results publish handlers
+  initLiveResults();
+
+  // Poll device clock reports while the panel is open
+  initClockHealth();
+
+  // Course map; recorded gates are uploaded with the race config
+  initCourseMap(() => scheduleRaceConfigSync('courseGates'));
+
+  // Protests and jury decisions; deadlines are uploaded with the race config
+  initProtests(() => scheduleRaceConfigSync('protestDeadlines'));
+
   // Initialize chief export handlers
   initChiefExportHandlers();
 }
@@ -255,6 +347,185 @@ function initChiefExportHandlers(): void {
   }
 }
 
+/**
+ * Initialize start list import button and file input
+ */
+function initStartListImport(): void {
+  const importBtn = document.getElementById('import-start-list-btn');
+  const fileInput = document.getElementById(
+    'start-list-file-input',
+  ) as HTMLInputElement | null;
+  if (!importBtn || !fileInput) return;
+
+  listeners.add(importBtn, 'click', () => {
+    feedbackTap();
+    fileInput.click();
+  });
+
+  listeners.add(fileInput, 'change', () => {
+    const file = fileInput.files?.[0];
+    // Reset so selecting the same file again triggers another change event
+    fileInput.value = '';
+    if (!file) return;
+    importStartListFile(file).catch((error) => {
+      logger.error('Start list import failed:', error);
+    });
+  });
+}
+
+/**
+ * Parse a start list file, store it locally and upload it to the cloud
+ */
+export async function importStartListFile(file: File): Promise<void> {
+  const lang = store.getState().currentLang;
+
+  if (file.size > MAX_START_LIST_FILE_SIZE) {
+    showToast(t('startListTooLarge', lang), 'error');
+    return;
+  }
+
+  try {
+    const content = await file.text();
+    const { racers, skippedRows } = parseStartList(content);
+
+    if (racers.length === 0) {
+      showToast(t('startListEmpty', lang), 'warning');
+      return;
+    }
+
+    store.setStartList(racers);
+
+    const state = store.getState();
+    if (state.settings.sync && state.raceId) {
+      const uploaded = await syncService.sendStartListToCloud(racers);
+      if (!uploaded) {
+        showToast(t('startListSyncFailed', lang), 'warning');
+      }
+    }
+
+    let message = t('startListImported', lang).replace(
+      '{count}',
+      String(racers.length),
+    );
+    if (skippedRows > 0) {
+      message += ` · ${t('startListRowsSkipped', lang).replace('{count}', String(skippedRows))}`;
+    }
+    feedbackSuccess();
+    showToast(message, 'success');
+  } catch (error) {
+    logger.error('Start list import error:', error);
+    showToast(t('operationFailed', lang), 'error');
+  }
+}
+
+/**
+ * Public live results page URL for a race
+ */
+export function getLiveResultsUrl(raceId: string): string {
+  return `${window.location.origin}/live?race=${encodeURIComponent(raceId)}`;
+}
+
+/**
+ * Initialize live results publish toggle and copy link buttons
+ */
+function initLiveResults(): void {
+  const toggleBtn = document.getElementById('toggle-live-results-btn');
+  const copyBtn = document.getElementById('copy-live-results-link-btn');
+  if (!toggleBtn || !copyBtn) return;
+
+  listeners.add(toggleBtn, 'click', () => {
+    if (liveResultsPublished === null) return;
+    feedbackTap();
+    setLiveResultsPublished(!liveResultsPublished).catch((error) => {
+      logger.error('Live results publish failed:', error);
+    });
+  });
+
+  listeners.add(copyBtn, 'click', () => {
+    const { raceId, currentLang: lang } = store.getState();
+    if (!raceId || !navigator.clipboard) return;
+    feedbackTap();
+    navigator.clipboard
+      .writeText(getLiveResultsUrl(raceId))
+      .then(() => {
+        showToast(t('liveResultsLinkCopied', lang), 'success');
+      })
+      .catch(() => {
+        showToast(t('operationFailed', lang), 'error');
+      });
+  });
+
+  updateLiveResultsUI();
+}
+
+/**
+ * Fetch the race's live results publish state from the cloud
+ */
+export async function refreshLiveResultsStatus(): Promise<void> {
+  liveResultsPublished = await syncService.fetchResultsPublished();
+  updateLiveResultsUI();
+}
+
+/**
+ * Publish or hide the race's results on the public live page
+ */
+export async function setLiveResultsPublished(
+  published: boolean,
+): Promise<void> {
+  const lang = store.getState().currentLang;
+  const saved = await syncService.setResultsPublished(published);
+  if (!saved) {
+    showToast(t('operationFailed', lang), 'error');
+    return;
+  }
+
+  liveResultsPublished = published;
+  updateLiveResultsUI();
+  feedbackSuccess();
+  showToast(
+    t(published ? 'liveResultsPublished' : 'liveResultsUnpublished', lang),
+    'success',
+  );
+}
+
+/**
+ * Update live results status badge and buttons
+ */
+export function updateLiveResultsUI(): void {
+  const statusEl = document.getElementById('live-results-status');
+  const toggleBtn = document.getElementById('toggle-live-results-btn');
+  const toggleLabel = document.getElementById('toggle-live-results-label');
+  const copyBtn = document.getElementById(
+    'copy-live-results-link-btn',
+  ) as HTMLButtonElement | null;
+  if (!statusEl || !toggleBtn || !toggleLabel || !copyBtn) return;
+
+  const lang = store.getState().currentLang;
+  const published = liveResultsPublished === true;
+
+  // Keep data-i18n in sync so language switches show the current state
+  const statusKey = published ? 'liveResultsPublic' : 'liveResultsPrivate';
+  const labelKey = published ? 'unpublishLiveResults' : 'publishLiveResults';
+  statusEl.setAttribute('data-i18n', statusKey);
+  statusEl.textContent = t(statusKey, lang);
+  statusEl.classList.toggle('published', published);
+  toggleLabel.setAttribute('data-i18n', labelKey);
+  toggleLabel.textContent = t(labelKey, lang);
+
+  (toggleBtn as HTMLButtonElement).disabled = liveResultsPublished === null;
+  toggleBtn.setAttribute('aria-pressed', String(published));
+  copyBtn.disabled = !published;
+}
+
+/**
+ * Update start list racer count in Chief Judge panel
+ */
+export function updateStartListInfo(): void {
+  const countEl = document.getElementById('start-list-count');
+  if (!countEl) return;
+  countEl.textContent = String(store.getState().startList.length);
+}
+
 /**
  * Initialize penalty configuration UI handlers
  */
@@ -272,6 +543,7 @@ function initPenaltyConfig(): void {
         store.setUsePenaltyMode(false);
       }
       feedbackTap();
+      schedulePenaltyConfigSync();
     });
   }
 
@@ -291,12 +563,281 @@ function initPenaltyConfig(): void {
         store.setPenaltySeconds(current - 1);
       }
       feedbackTap();
+      schedulePenaltyConfigSync();
+    });
+  }
+
+  // Per-category rules (rows are re-rendered on every update)
+  const rulesList = document.getElementById('penalty-rules-list');
+  if (rulesList) {
+    listeners.add(rulesList, 'click', (e) => {
+      const target = e.target as HTMLElement;
+      const row = target.closest<HTMLElement>('.penalty-rule-row');
+      const category = row?.dataset.category as AgeCategory | undefined;
+      if (!category) return;
+
+      const state = store.getState();
+      const current = state.penaltyRules[category];
+      const modeBtn = target.closest('.penalty-mode-btn');
+      const adjBtn = target.closest('.penalty-adj-btn');
+
+      if (modeBtn) {
+        const mode = modeBtn.getAttribute('data-mode');
+        if (mode === 'default') {
+          store.setPenaltyRule(category, null);
+        } else if (mode === 'penalty' || mode === 'dsq') {
+          store.setPenaltyRule(category, {
+            usePenaltyMode: mode === 'penalty',
+            penaltySeconds: current?.penaltySeconds ?? state.penaltySeconds,
+          });
+        }
+      } else if (adjBtn && current) {
+        const delta = adjBtn.getAttribute('data-adj') === '+1' ? 1 : -1;
+        store.setPenaltyRule(category, {
+          ...current,
+          penaltySeconds: current.penaltySeconds + delta,
+        });
+      } else {
+        return;
+      }
+      feedbackTap();
+      schedulePenaltyConfigSync();
     });
   }
 
   updatePenaltyConfigUI();
 }
 
+/**
+ * Upload penalty config to cloud after a short delay so the whole race
+ * uses the Chief Judge's rules
+ */
+function schedulePenaltyConfigSync(): void {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  if (penaltySyncTimeout) clearTimeout(penaltySyncTimeout);
+  penaltySyncTimeout = setTimeout(async () => {
+    penaltySyncTimeout = null;
+    const uploaded = await syncService.sendPenaltyConfigToCloud();
+    if (!uploaded) {
+      showToast(
+        t('penaltyConfigSyncFailed', store.getState().currentLang),
+        'warning',
+      );
+    }
+  }, PENALTY_SYNC_DEBOUNCE_MS);
+}
+
+/**
+ * Initialize the race config selectors (split points, runs)
+ */
+function initRaceConfig(): void {
+  initRaceConfigStepper(
+    'intermediate-points-selector',
+    'intermediatePoints',
+    0,
+    MAX_INTERMEDIATE_POINTS,
+    () => store.getState().intermediatePoints,
+    (count) => store.setIntermediatePoints(count),
+  );
+  initRaceConfigStepper(
+    'run-count-selector',
+    'runCount',
+    1,
+    MAX_RUNS,
+    () => store.getState().runCount,
+    (count) => store.setRunCount(count),
+  );
+
+  // Official timer per point (rows are re-rendered on every update)
+  const primaryList = document.getElementById('primary-devices-list');
+  if (primaryList) {
+    listeners.add(primaryList, 'change', (e) => {
+      const select = e.target as HTMLSelectElement;
+      const point = select.closest<HTMLElement>('[data-point]')?.dataset
+        .point as TimingPoint | undefined;
+      if (!point) return;
+
+      store.setPrimaryDevice(point, select.value || null);
+      feedbackTap();
+      scheduleRaceConfigSync('primaryDevices');
+    });
+  }
+
+  updateRaceConfigUI();
+  updatePrimaryDevicesUI();
+}
+
+/**
+ * Wire a −/+ race config stepper, clamping the value to min..max
+ */
+function initRaceConfigStepper(
+  selectorId: string,
+  section: RaceConfigSection,
+  min: number,
+  max: number,
+  getValue: () => number,
+  setValue: (value: number) => void,
+): void {
+  const selector = document.getElementById(selectorId);
+  if (!selector) return;
+
+  listeners.add(selector, 'click', (e) => {
+    const btn = (e.target as HTMLElement).closest('.penalty-adj-btn');
+    if (!btn) return;
+
+    const current = getValue();
+    const delta = btn.getAttribute('data-adj') === '+1' ? 1 : -1;
+    const next = Math.max(min, Math.min(max, current + delta));
+    if (next === current) return;
+
+    setValue(next);
+    feedbackTap();
+    scheduleRaceConfigSync(section);
+  });
+}
+
+/**
+ * Upload a changed race config section to cloud after a short delay so every
+ * device shows the Chief Judge's timing points, runs, course and protest
+ * deadlines. Only changed sections are sent, so another Chief Judge device
+ * editing other sections is not overwritten.
+ */
+function scheduleRaceConfigSync(section: RaceConfigSection): void {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  pendingRaceConfigSections.add(section);
+  if (raceConfigSyncTimeout) clearTimeout(raceConfigSyncTimeout);
+  raceConfigSyncTimeout = setTimeout(async () => {
+    raceConfigSyncTimeout = null;
+    const sections = [...pendingRaceConfigSections];
+    pendingRaceConfigSections.clear();
+    const uploaded = await syncService.sendRaceConfigToCloud(sections);
+    if (!uploaded) {
+      // Retried with the next change
+      for (const failed of sections) pendingRaceConfigSections.add(failed);
+      showToast(
+        t('raceConfigSyncFailed', store.getState().currentLang),
+        'warning',
+      );
+    }
+  }, PENALTY_SYNC_DEBOUNCE_MS);
+}
+
+/**
+ * Update the split point and run count displays
+ */
+function updateRaceConfigUI(): void {
+  const state = store.getState();
+  const pointsEl = document.getElementById('intermediate-points-value');
+  if (pointsEl) {
+    pointsEl.textContent = String(state.intermediatePoints);
+  }
+  const runsEl = document.getElementById('run-count-value');
+  if (runsEl) {
+    runsEl.textContent = String(state.runCount);
+  }
+}
+
+/**
+ * Devices that can time a point: those with entries at it, this device and
+ * the current primary (device ID → name)
+ */
+function getPointDevices(point: TimingPoint): Map<string, string> {
+  const state = store.getState();
+  const devices = new Map<string, string>();
+  for (const entry of state.entries) {
+    if (entry.point === point && !devices.has(entry.deviceId)) {
+      devices.set(entry.deviceId, entry.deviceName);
+    }
+  }
+  if (!devices.has(state.deviceId)) {
+    devices.set(state.deviceId, state.deviceName);
+  }
+
+  const primary = state.primaryDevices[point];
+  if (primary && !devices.has(primary)) {
+    const known = state.entries.find((e) => e.deviceId === primary);
+    devices.set(primary, known?.deviceName ?? primary);
+  }
+  return devices;
+}
+
+/**
+ * Render the official timer selector of each timing point
+ */
+function updatePrimaryDevicesUI(): void {
+  const list = document.getElementById('primary-devices-list');
+  if (!list) return;
+
+  const state = store.getState();
+  const lang = state.currentLang;
+  list.innerHTML = $timingPoints.value
+    .map((point) => {
+      const label = getPointLabel(point, lang);
+      const primary = state.primaryDevices[point] ?? '';
+      const options = [
+        `<option value="">${escapeHtml(t('primaryDeviceNone', lang))}</option>`,
+        ...Array.from(getPointDevices(point)).map(
+          ([id, name]) =>
+            `<option value="${escapeAttr(id)}"${id === primary ? ' selected' : ''}>${escapeHtml(name)}</option>`,
+        ),
+      ].join('');
+
+      return `
+        <div class="penalty-rule-row primary-device-row" data-point="${escapeAttr(point)}" role="listitem">
+          <span class="penalty-rule-category">${escapeHtml(label)}</span>
+          <select class="filter-select" aria-label="${escapeAttr(`${t('primaryDevices', lang)} ${label}`)}">${options}</select>
+        </div>
+      `;
+    })
+    .join('');
+}
+
+/**
+ * Render the per-category penalty rule rows
+ */
+function renderPenaltyRules(lang: Language): void {
+  const rulesList = document.getElementById('penalty-rules-list');
+  if (!rulesList) return;
+
+  const { penaltyRules } = store.getState();
+  rulesList.innerHTML = VALID_AGE_CATEGORIES.map((category) => {
+    const rule = penaltyRules[category];
+    const mode = !rule ? 'default' : rule.usePenaltyMode ? 'penalty' : 'dsq';
+    const label = category === 'masters' ? t('masters', lang) : category;
+    const modeButtons = (
+      [
+        ['default', t('penaltyRuleDefault', lang)],
+        ['penalty', t('penaltyMode', lang)],
+        ['dsq', t('dsq', lang)],
+      ] as const
+    )
+      .map(
+        ([btnMode, text]) =>
+          `<button class="penalty-mode-btn${btnMode === mode ? ' active' : ''}" data-mode="${btnMode}" aria-pressed="${btnMode === mode}">${escapeHtml(text)}</button>`,
+      )
+      .join('');
+
+    return `
+      <div class="penalty-rule-row ${mode}-mode" data-category="${escapeAttr(category)}" role="listitem">
+        <span class="penalty-rule-category">${escapeHtml(label)}</span>
+        <div class="penalty-mode-toggle" role="group" aria-label="${escapeAttr(`${t('penaltyRules', lang)} ${label}`)}">
+          ${modeButtons}
+        </div>
+        <div class="penalty-seconds-selector">
+          <button class="penalty-adj-btn" data-adj="-1" aria-label="${escapeAttr(t('decreasePenaltySeconds', lang))}">−</button>
+          <span class="penalty-seconds-value">${rule?.penaltySeconds ?? ''}</span>
+          <span class="penalty-seconds-unit">s</span>
+          <button class="penalty-adj-btn" data-adj="+1" aria-label="${escapeAttr(t('increasePenaltySeconds', lang))}">+</button>
+        </div>
+      </div>
+    `;
+  }).join('');
+}
+
 /**
  * Update penalty configuration UI to reflect current state
  */
@@ -325,6 +866,8 @@ export function updatePenaltyConfigUI(): void {
       btn.setAttribute('aria-pressed', String(isActive));
     });
   }
+
+  renderPenaltyRules(state.currentLang);
 }
 
 /**
@@ -357,6 +900,9 @@ export function updateChiefJudgeView(): void {
     updateFaultSummaryPanel();
     updatePendingDeletionsPanel();
     updateJudgesOverview();
+    refreshLiveResultsStatus().catch((error) => {
+      logger.error('Live results status refresh failed:', error);
+    });
   }
 }
 
@@ -372,7 +918,7 @@ export function updateJudgesOverview(): void {
 
   const assignments = syncService.getOtherGateAssignments();
   const state = store.getState();
-  const allJudges: import('../types').GateAssignment[] = [...assignments];
+  const allJudges: GateAssignment[] = [...assignments];
 
   if (state.deviceRole === 'gateJudge' && state.gateAssignment) {
     allJudges.push({
@@ -386,6 +932,8 @@ export function updateJudgesOverview(): void {
   }
 
   overviewCount.textContent = String(allJudges.length);
+  updateCourseMap(allJudges);
+  updateCoverageBanner(allJudges, state.currentLang);
 
   if (emptyState) {
     emptyState.style.display = allJudges.length === 0 ? 'block' : 'none';
@@ -417,6 +965,65 @@ export function updateJudgesOverview(): void {
   }
 }
 
+/**
+ * Format gate spans as "5–7, 12"
+ */
+function formatGateSpans(spans: GateSpan[]): string {
+  return spans
+    .map((span) =>
+      span.gateStart === span.gateEnd
+        ? String(span.gateStart)
+        : `${span.gateStart}–${span.gateEnd}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Show the server's gate coverage check: gates without a judge and gates
+ * watched by several judges
+ */
+function updateCoverageBanner(judges: GateAssignment[], lang: Language): void {
+  const banner = document.getElementById('judges-coverage-banner');
+  if (!banner) return;
+
+  const coverage = syncService.getGateCoverage();
+  if (
+    !coverage ||
+    (coverage.gaps.length === 0 && coverage.overlaps.length === 0)
+  ) {
+    banner.hidden = true;
+    banner.innerHTML = '';
+    return;
+  }
+
+  const names = new Map(judges.map((j) => [j.deviceId, j.deviceName]));
+  const lines: string[] = [];
+  if (coverage.gaps.length > 0) {
+    lines.push(
+      t('coverageGaps', lang).replace(
+        '{gates}',
+        formatGateSpans(coverage.gaps),
+      ),
+    );
+  }
+  if (coverage.overlaps.length > 0) {
+    const overlaps = coverage.overlaps
+      .map(
+        (overlap) =>
+          `${formatGateSpans([overlap])} (${overlap.deviceIds
+            .map((id) => names.get(id) ?? id)
+            .join(', ')})`,
+      )
+      .join(', ');
+    lines.push(t('coverageOverlaps', lang).replace('{gates}', overlaps));
+  }
+
+  banner.innerHTML = lines
+    .map((line) => `<span>${escapeHtml(line)}</span>`)
+    .join('');
+  banner.hidden = false;
+}
+
 /**
  * Update the fault summary panel in Chief Judge view
  */
@@ -463,24 +1070,43 @@ export function updateFaultSummaryPanel(): void {
     return bibA - bibB;
   });
 
+  const racerLookup = $racerLookup.value;
+  const penaltyConfig = $penaltyConfig.value;
+
   for (const [key, racerFaults] of sortedEntries) {
     const [bib, runStr] = key.split('-') as [string, string];
     const run = parseInt(runStr, 10) as Run;
+    const racer = findRacer(racerLookup, bib);
+    // Penalty rule of the racer's age category (default rule without one)
+    const rule = resolvePenaltyRule(penaltyConfig, racer?.ageCategory);
 
     const isFinalized = store.isRacerFinalized(bib, run);
     const activeFaults = racerFaults.filter((f) => !f.markedForDeletion);
-    const penaltySeconds = state.usePenaltyMode
-      ? activeFaults.length * state.penaltySeconds
+    const penaltySeconds = rule.usePenaltyMode
+      ? activeFaults.length * rule.penaltySeconds
       : 0;
 
     const faultRows = racerFaults
       .map((fault) => {
         const isMarkedForDeletion = fault.markedForDeletion;
-        const deletionInfo =
-          isMarkedForDeletion && fault.markedForDeletionBy
+        // Reversed by an upheld protest: kept for the record, final
+        const isReversed = !!fault.reversedByProtestId;
+        const deletionInfo = isReversed
+          ? t('faultReversedByJury', lang)
+          : isMarkedForDeletion && fault.markedForDeletionBy
             ? `${t('deletionPending', lang)} (${fault.markedForDeletionBy})`
             : '';
         const hasNotes = fault.notes && fault.notes.length > 0;
+        const deleteLabel = escapeAttr(
+          isMarkedForDeletion
+            ? t('rejectDeletion', lang)
+            : t('markForDeletion', lang),
+        );
+        const deleteButton = isReversed
+          ? ''
+          : `<button class="fault-row-btn delete-fault-btn" data-fault-id="${escapeAttr(fault.id)}" title="${deleteLabel}" aria-label="${deleteLabel}">
+              ${isMarkedForDeletion ? iconTrashDetailed(14) : iconTrash(14)}
+            </button>`;
 
         return `
         <div class="fault-entry-row${isMarkedForDeletion ? ' marked-for-deletion' : ''}" data-fault-id="${escapeAttr(fault.id)}">
@@ -495,9 +1121,7 @@ export function updateFaultSummaryPanel(): void {
             <button class="fault-row-btn edit-fault-btn" data-fault-id="${escapeAttr(fault.id)}" title="${escapeAttr(t('edit', lang))}" aria-label="${escapeAttr(t('edit', lang))}" ${isMarkedForDeletion ? 'disabled' : ''}>
               ${iconEdit(14)}
             </button>
-            <button class="fault-row-btn delete-fault-btn" data-fault-id="${escapeAttr(fault.id)}" title="${escapeAttr(isMarkedForDeletion ? t('rejectDeletion', lang) : t('markForDeletion', lang))}" aria-label="${escapeAttr(isMarkedForDeletion ? t('rejectDeletion', lang) : t('markForDeletion', lang))}">
-              ${isMarkedForDeletion ? iconTrashDetailed(14) : iconTrash(14)}
-            </button>
+            ${deleteButton}
           </div>
         </div>
       `;
@@ -514,7 +1138,7 @@ export function updateFaultSummaryPanel(): void {
            ${t('finalize', lang)}
          </button>`;
 
-    const statusHtml = state.usePenaltyMode
+    const statusHtml = rule.usePenaltyMode
       ? `<span class="fault-card-penalty">+${penaltySeconds}s</span>
          <span class="fault-card-result flt">${t('flt', lang)}</span>`
       : `<span class="fault-card-result dsq">${t('dsq', lang)}</span>`;
@@ -523,6 +1147,7 @@ export function updateFaultSummaryPanel(): void {
       <div class="fault-summary-card${isFinalized ? ' finalized' : ''}" data-bib="${escapeAttr(bib)}" data-run="${escapeAttr(String(run))}">
         <div class="fault-card-header">
           <span class="fault-card-bib">#${escapeHtml(bib.padStart(3, '0'))}</span>
+          ${racer ? `<span class="fault-card-name" title="${escapeAttr(racer.club ?? racer.name)}">${escapeHtml(racer.name)}</span>` : ''}
           <div class="fault-card-status">
             ${statusHtml}
           </div>
@@ -731,7 +1356,7 @@ export function updatePendingDeletionsPanel(): void {
       <div class="pending-deletion-item" data-fault-id="${escapeAttr(fault.id)}">
         <div class="pending-deletion-info">
           <span class="pending-deletion-fault">
-            #${escapeHtml(fault.bib.padStart(3, '0'))} T${escapeHtml(String(fault.gateNumber))} (${getFaultTypeLabel(fault.faultType, lang)}) - ${t(fault.run === 1 ? 'run1' : 'run2', lang)}
+            #${escapeHtml(fault.bib.padStart(3, '0'))} T${escapeHtml(String(fault.gateNumber))} (${getFaultTypeLabel(fault.faultType, lang)}) - ${escapeHtml(getRunLabel(fault.run, lang))}
           </span>
           <span class="pending-deletion-meta">
             ${t('deletionMarkedBy', lang)}: ${escapeHtml(fault.markedForDeletionBy || '?')} (${escapeHtml(timeStr)})
@@ -789,4 +1414,17 @@ export function cleanupChiefJudgeView(): void {
   listeners.removeAll();
   // Clear delegation tracking so handlers are re-registered on next init
   delegatedContainers.clear();
+  if (penaltySyncTimeout) {
+    clearTimeout(penaltySyncTimeout);
+    penaltySyncTimeout = null;
+  }
+  if (raceConfigSyncTimeout) {
+    clearTimeout(raceConfigSyncTimeout);
+    raceConfigSyncTimeout = null;
+  }
+  pendingRaceConfigSections.clear();
+  liveResultsPublished = null;
+  cleanupClockHealth();
+  cleanupCourseMap();
+  cleanupProtests();
 }
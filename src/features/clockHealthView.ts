@@ -0,0 +1,207 @@
+/**
+ * Clock Health View Module
+ * Chief Judge panel section listing each device's reported clock (time
+ * source, offset, GPS accuracy, last sync) with a warning when the start and
+ * finish clocks are too far apart before a run begins
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackWarning } from '../services';
+import { syncService } from '../services/sync';
+import {
+  $entries,
+  $isChiefJudgeView,
+  $primaryDevices,
+  $runs,
+  $settingsSync,
+  effect,
+  store,
+} from '../store';
+import type { DeviceClockReport, Language } from '../types';
+import { escapeAttr, escapeHtml, getPointLabel } from '../utils';
+import {
+  CLOCK_DRIFT_WARNING_MS,
+  findNextRunToStart,
+  findStartFinishDrift,
+} from '../utils/clockHealth';
+import { logger } from '../utils/logger';
+
+/** How often clock reports are refreshed while the Chief Judge panel is open */
+const CLOCK_HEALTH_REFRESH_MS = 15000;
+
+const CLOCK_SOURCE_LABELS: Record<DeviceClockReport['source'], string> = {
+  gps: 'gps',
+  server: 'clockSourceServer',
+  system: 'clockSourceSystem',
+};
+
+let devices: DeviceClockReport[] = [];
+let serverTime = 0;
+let refreshInterval: ReturnType<typeof setInterval> | null = null;
+// Run the drift toast was shown for, so it isn't repeated on every refresh
+let warnedRun: number | null = null;
+
+const effectDisposers: (() => void)[] = [];
+
+/**
+ * Format a clock offset in seconds (+0.120 s)
+ */
+function formatOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '−' : '+';
+  return `${sign}${(Math.abs(offsetMs) / 1000).toFixed(3)} s`;
+}
+
+function renderDevice(
+  device: DeviceClockReport,
+  lang: Language,
+  isDrifting: boolean,
+): string {
+  const point = device.point ? getPointLabel(device.point, lang) : '';
+  const details = [
+    `${t('clockOffset', lang)} ${formatOffset(device.skewMs)}`,
+    device.gpsOffsetMs !== null
+      ? `${t('gps', lang)} ${formatOffset(device.gpsOffsetMs)}`
+      : null,
+    device.gpsAccuracy !== null
+      ? `${t('gpsAccuracy', lang)} ±${Math.round(device.gpsAccuracy)} m`
+      : null,
+    t('clockLastSync', lang).replace(
+      '{seconds}',
+      String(Math.max(0, Math.round((serverTime - device.lastSeen) / 1000))),
+    ),
+  ].filter(Boolean);
+
+  return `
+    <div class="clock-health-row${isDrifting ? ' drifting' : ''}" data-device-id="${escapeAttr(device.deviceId)}" role="listitem">
+      <div class="clock-health-device">
+        <span class="clock-health-name">${escapeHtml(device.name)}</span>
+        ${point ? `<span class="clock-health-point">${escapeHtml(point)}</span>` : ''}
+        <span class="clock-health-source ${device.source}">${escapeHtml(t(CLOCK_SOURCE_LABELS[device.source], lang))}</span>
+      </div>
+      <div class="clock-health-details">${escapeHtml(details.join(' · '))}</div>
+    </div>
+  `;
+}
+
+/**
+ * Render the clock reports and the start/finish drift warning
+ */
+export function updateClockHealthPanel(): void {
+  const list = document.getElementById('clock-health-list');
+  const warningEl = document.getElementById('clock-health-warning');
+  if (!list || !warningEl) return;
+
+  const state = store.getState();
+  const lang = state.currentLang;
+
+  const drift = findStartFinishDrift(devices, state.primaryDevices);
+  const isDrifting =
+    drift !== null && Math.abs(drift.driftMs) > CLOCK_DRIFT_WARNING_MS;
+
+  if (devices.length === 0) {
+    list.innerHTML = `<div class="clock-health-empty">${escapeHtml(t('clockHealthEmpty', lang))}</div>`;
+  } else {
+    const driftingIds = isDrifting
+      ? new Set([drift.start.deviceId, drift.finish.deviceId])
+      : new Set<string>();
+    list.innerHTML = devices
+      .map((device) =>
+        renderDevice(device, lang, driftingIds.has(device.deviceId)),
+      )
+      .join('');
+  }
+
+  if (!isDrifting) {
+    warningEl.hidden = true;
+    warningEl.textContent = '';
+    return;
+  }
+
+  const nextRun = findNextRunToStart(state.entries, $runs.value);
+  const driftText = formatOffset(drift.driftMs);
+  warningEl.textContent =
+    nextRun !== null
+      ? t('clockDriftWarningRun', lang)
+          .replace('{drift}', driftText)
+          .replace('{run}', String(nextRun))
+      : t('clockDriftWarning', lang).replace('{drift}', driftText);
+  warningEl.hidden = false;
+
+  // Alert once per run while it can still be fixed
+  if (nextRun !== null && warnedRun !== nextRun) {
+    warnedRun = nextRun;
+    feedbackWarning();
+    showToast(warningEl.textContent, 'warning');
+  }
+}
+
+/**
+ * Fetch the latest clock reports and re-render
+ */
+export async function refreshClockHealth(): Promise<void> {
+  const response = await syncService.fetchDeviceClocks();
+  if (!response) return;
+  devices = response.devices;
+  serverTime = response.serverTime;
+  updateClockHealthPanel();
+}
+
+function startRefresh(): void {
+  if (refreshInterval) return;
+  const refresh = () => {
+    refreshClockHealth().catch((error) => {
+      logger.error('Clock health refresh failed:', error);
+    });
+  };
+  refresh();
+  refreshInterval = setInterval(refresh, CLOCK_HEALTH_REFRESH_MS);
+}
+
+function stopRefresh(): void {
+  if (refreshInterval) {
+    clearInterval(refreshInterval);
+    refreshInterval = null;
+  }
+}
+
+/**
+ * Poll clock reports while the Chief Judge panel is open
+ */
+export function initClockHealth(): void {
+  cleanupClockHealth();
+
+  effectDisposers.push(
+    effect(() => {
+      if ($isChiefJudgeView.value && $settingsSync.value) {
+        startRefresh();
+      } else {
+        stopRefresh();
+      }
+    }),
+
+    // Primaries and started runs decide which clocks are compared and when
+    effect(() => {
+      void $primaryDevices.value;
+      void $entries.value;
+      void $runs.value;
+      if ($isChiefJudgeView.value) {
+        updateClockHealthPanel();
+      }
+    }),
+  );
+}
+
+/**
+ * Stop polling and forget the last clock reports
+ */
+export function cleanupClockHealth(): void {
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  stopRefresh();
+  devices = [];
+  serverTime = 0;
+  warnedRun = null;
+}
@@ -0,0 +1,241 @@
+/**
+ * Course Map View Module
+ * Chief Judge panel section drawing the course's gates from their GPS
+ * positions with each gate judge's coverage, and recording gate positions
+ * while walking the course
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess, feedbackTap, gpsService } from '../services';
+import {
+  $courseGates,
+  $isChiefJudgeView,
+  $maxGate,
+  effect,
+  store,
+} from '../store';
+import type { GateAssignment, Language } from '../types';
+import { escapeAttr, escapeHtml } from '../utils';
+import {
+  getNextGateColor,
+  layoutCourseMap,
+  MAX_GATE_FIX_ACCURACY_M,
+} from '../utils/course';
+import { ListenerManager } from '../utils/listenerManager';
+import { logger } from '../utils/logger';
+
+const MAP_WIDTH = 320;
+const MAP_HEIGHT = 240;
+const MAP_MARGIN = 16;
+const JUDGE_COLOR_COUNT = 6;
+
+// Judges from the last judges overview refresh
+let judges: GateAssignment[] = [];
+let recording = false;
+let onCourseChange: (() => void) | null = null;
+
+const listeners = new ListenerManager();
+const effectDisposers: (() => void)[] = [];
+
+function renderMap(judgeList: GateAssignment[]): string {
+  const points = layoutCourseMap(
+    store.getState().courseGates,
+    MAP_WIDTH,
+    MAP_HEIGHT,
+    MAP_MARGIN,
+  );
+  const toPolyline = (selected: typeof points) =>
+    selected.map((p) => `${p.x},${p.y}`).join(' ');
+
+  const coverage = judgeList
+    .map((judge, i) => {
+      const covered = points.filter(
+        (p) =>
+          p.gate.number >= judge.gateStart && p.gate.number <= judge.gateEnd,
+      );
+      if (covered.length === 0) return '';
+      // A single gate still gets a visible stroke
+      const line = covered.length === 1 ? [covered[0]!, covered[0]!] : covered;
+      return `<polyline class="course-coverage course-judge-${i % JUDGE_COLOR_COUNT}" points="${toPolyline(line)}"/>`;
+    })
+    .join('');
+
+  const gates = points
+    .map(
+      (p) => `
+      <circle class="course-gate ${p.gate.color}" cx="${p.x}" cy="${p.y}" r="5"/>
+      <text class="course-gate-label" x="${p.x + 8}" y="${p.y + 4}">${p.gate.number}</text>`,
+    )
+    .join('');
+
+  return `
+    <svg viewBox="0 0 ${MAP_WIDTH} ${MAP_HEIGHT}" role="img" aria-label="${escapeAttr(t('courseMapLabel', store.getState().currentLang))}">
+      <polyline class="course-line" points="${toPolyline(points)}"/>
+      ${coverage}
+      ${gates}
+    </svg>
+  `;
+}
+
+function renderLegend(judgeList: GateAssignment[]): string {
+  if (judgeList.length === 0) return '';
+  const items = judgeList
+    .map(
+      (judge, i) => `
+      <span class="course-map-judge">
+        <span class="course-map-swatch course-judge-${i % JUDGE_COLOR_COUNT}"></span>
+        ${escapeHtml(judge.deviceName)} ${escapeHtml(String(judge.gateStart))}–${escapeHtml(String(judge.gateEnd))}
+      </span>`,
+    )
+    .join('');
+  return `<div class="course-map-legend">${items}</div>`;
+}
+
+function updateCaptureButtons(lang: Language): void {
+  const gates = store.getState().courseGates;
+  const recordBtn = document.getElementById(
+    'course-record-gate-btn',
+  ) as HTMLButtonElement | null;
+  const removeBtn = document.getElementById(
+    'course-remove-gate-btn',
+  ) as HTMLButtonElement | null;
+
+  if (recordBtn) {
+    const nextGate = (gates[gates.length - 1]?.number ?? 0) + 1;
+    recordBtn.textContent = recording
+      ? t('courseGpsFix', lang)
+      : t('courseRecordGate', lang).replace('{gate}', String(nextGate));
+    recordBtn.disabled = recording || nextGate > $maxGate.value;
+  }
+  if (removeBtn) {
+    removeBtn.disabled = recording || gates.length === 0;
+  }
+}
+
+/**
+ * Render the course map and its judge legend. Called with the judges whenever
+ * the judges overview refreshes; without them the last list is reused.
+ */
+export function updateCourseMap(judgeList: GateAssignment[] = judges): void {
+  judges = [...judgeList].sort((a, b) => a.gateStart - b.gateStart);
+
+  const mapEl = document.getElementById('course-map');
+  if (!mapEl) return;
+
+  const lang = store.getState().currentLang;
+  mapEl.innerHTML =
+    store.getState().courseGates.length === 0
+      ? `<div class="course-map-empty">${escapeHtml(t('courseMapEmpty', lang))}</div>`
+      : renderMap(judges) + renderLegend(judges);
+
+  updateCaptureButtons(lang);
+}
+
+/**
+ * Record the next gate at this device's GPS position
+ */
+async function recordGate(): Promise<void> {
+  if (recording) return;
+  recording = true;
+  updateCaptureButtons(store.getState().currentLang);
+
+  let position: GeolocationPosition | null;
+  try {
+    position = await gpsService.requestPosition(true);
+  } finally {
+    recording = false;
+    updateCaptureButtons(store.getState().currentLang);
+  }
+
+  const lang = store.getState().currentLang;
+  if (!position) {
+    showToast(t('courseGpsUnavailable', lang), 'warning');
+    return;
+  }
+  const { accuracy, latitude, longitude } = position.coords;
+  if (accuracy > MAX_GATE_FIX_ACCURACY_M) {
+    showToast(
+      t('courseGpsInaccurate', lang).replace(
+        '{accuracy}',
+        String(Math.round(accuracy)),
+      ),
+      'warning',
+    );
+    return;
+  }
+
+  const gates = store.getState().courseGates;
+  const number = (gates[gates.length - 1]?.number ?? 0) + 1;
+  if (number > $maxGate.value) return;
+
+  store.setCourseGates([
+    ...gates,
+    { number, color: getNextGateColor(gates), latitude, longitude },
+  ]);
+  feedbackSuccess();
+  showToast(
+    t('courseGateRecorded', lang).replace('{gate}', String(number)),
+    'success',
+  );
+  onCourseChange?.();
+}
+
+/**
+ * Remove the most recently recorded gate (e.g. recorded at the wrong spot)
+ */
+function removeLastGate(): void {
+  const gates = store.getState().courseGates;
+  if (gates.length === 0) return;
+  store.setCourseGates(gates.slice(0, -1));
+  feedbackTap();
+  onCourseChange?.();
+}
+
+/**
+ * Initialize the course map; onChange runs after the course was edited here
+ * (the Chief Judge view uploads the race config)
+ */
+export function initCourseMap(onChange: () => void): void {
+  cleanupCourseMap();
+  onCourseChange = onChange;
+
+  const recordBtn = document.getElementById('course-record-gate-btn');
+  if (recordBtn) {
+    listeners.add(recordBtn, 'click', () => {
+      recordGate().catch((error) => {
+        logger.error('Gate recording failed:', error);
+      });
+    });
+  }
+
+  const removeBtn = document.getElementById('course-remove-gate-btn');
+  if (removeBtn) {
+    listeners.add(removeBtn, 'click', removeLastGate);
+  }
+
+  effectDisposers.push(
+    // Gates change when recorded here or synced from another Chief Judge
+    effect(() => {
+      void $courseGates.value;
+      void $maxGate.value;
+      if ($isChiefJudgeView.value) {
+        updateCourseMap();
+      }
+    }),
+  );
+}
+
+/**
+ * Remove course map listeners and effects
+ */
+export function cleanupCourseMap(): void {
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  listeners.removeAll();
+  judges = [];
+  recording = false;
+  onCourseChange = null;
+}
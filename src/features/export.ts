@@ -1,15 +1,28 @@
 /**
  * Export utilities
- * CSV export in Race Horology format
+ * CSV export in Race Horology format. Text reports are prefilled from the
+ * race definition (name, date, discipline, venue, homologation, jury).
  */
 
 import { showToast } from '../components';
 import { t } from '../i18n/translations';
 import { feedbackSuccess } from '../services';
-import { store } from '../store';
-import type { FaultEntry, FaultType, Language } from '../types';
-import { getLocale } from '../utils/format';
+import { $penaltyConfig, $raceDefinition, $racerLookup, store } from '../store';
+import type {
+  Entry,
+  FaultEntry,
+  FaultType,
+  Language,
+  TimingPoint,
+} from '../types';
+import { formatDuration, getLocale } from '../utils/format';
 import { logger } from '../utils/logger';
+import {
+  type ResultPenaltyOptions,
+  resolvePenaltyRule,
+} from '../utils/results';
+import { findRacer } from '../utils/startList';
+import { isIntermediatePoint } from '../utils/validation';
 
 /**
  * Format timestamp for Race Horology CSV export
@@ -116,10 +129,28 @@ export function formatDateForExport(
 
 /**
  * Get timing point label for export
- * Returns "ST" for Start, "FT" for Finish (Race Horology format)
+ * Returns "ST" for Start, "FT" for Finish and "ZZ1"… for intermediate
+ * points (Race Horology format)
  */
-function getExportPointLabel(point: 'S' | 'F'): string {
-  return point === 'S' ? 'ST' : 'FT';
+function getExportPointLabel(point: TimingPoint): string {
+  if (point === 'S') return 'ST';
+  if (point === 'F') return 'FT';
+  return `ZZ${point.slice(1)}`;
+}
+
+/**
+ * Earliest valid start time per bib/run, keyed "bib-run" (for split times)
+ */
+function getStartTimes(entries: Entry[]): Map<string, number> {
+  const startTimes = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.point !== 'S' || entry.status !== 'ok') continue;
+    const key = `${entry.bib}-${entry.run ?? 1}`;
+    const time = new Date(entry.timestamp).getTime();
+    const previous = startTimes.get(key);
+    if (previous === undefined || time < previous) startTimes.set(key, time);
+  }
+  return startTimes;
 }
 
 /**
@@ -157,9 +188,106 @@ function formatFaultsForCSV(faults: FaultEntry[]): string {
     .join('+');
 }
 
+/**
+ * Look up the racer name for a bib ('' when not on the start list)
+ */
+function getRacerName(bib: string): string {
+  return findRacer($racerLookup.value, bib)?.name ?? '';
+}
+
+/**
+ * Penalty rule for a bib (rule of the racer's age category, else the default)
+ */
+function getPenaltyRule(bib: string): ResultPenaltyOptions {
+  const config = $penaltyConfig.value;
+  return resolvePenaltyRule(config, config.getAgeCategory?.(bib));
+}
+
+/**
+ * Race title for report headers: race definition name with the race ID,
+ * or the race ID alone
+ */
+function getRaceTitle(raceId: string): string {
+  const name = $raceDefinition.value?.name;
+  return name ? `${name} (${raceId})` : raceId;
+}
+
+/**
+ * Race date for report headers: race definition date, else today
+ */
+function getRaceDate(lang: Language): string {
+  const date = $raceDefinition.value?.date;
+  return (date ? new Date(`${date}T00:00:00`) : new Date()).toLocaleDateString(
+    getLocale(lang),
+  );
+}
+
+/**
+ * Race definition header lines (discipline/venue, homologation, jury) as
+ * "label: value" with labels padded to labelWidth
+ */
+function getRaceDefinitionLines(lang: Language, labelWidth: number): string[] {
+  const definition = $raceDefinition.value;
+  if (!definition) return [];
+
+  const line = (label: string, value: string) =>
+    `${`${label}:`.padEnd(labelWidth)} ${value}`;
+  const lines = [
+    line(
+      t('discipline', lang),
+      [t(`discipline${definition.discipline}`, lang), definition.venue]
+        .filter(Boolean)
+        .join(', '),
+    ),
+  ];
+  if (definition.homologationNumber) {
+    lines.push(
+      line(t('homologationNumber', lang), definition.homologationNumber),
+    );
+  }
+  const juryLabels: Record<string, string> = {
+    technicalDelegate: 'juryTechnicalDelegate',
+    referee: 'juryReferee',
+    chiefOfRace: 'juryChiefOfRace',
+  };
+  for (const member of definition.jury) {
+    lines.push(line(t(juryLabels[member.role]!, lang), member.name));
+  }
+  return lines;
+}
+
+/**
+ * Group faults by run, then by "bib-run" key (runs ascending)
+ */
+function groupFaultsByRun(
+  faults: FaultEntry[],
+): [number, [string, FaultEntry[]][]][] {
+  const byRun = new Map<number, Map<string, FaultEntry[]>>();
+  for (const fault of faults) {
+    let byBib = byRun.get(fault.run);
+    if (!byBib) {
+      byBib = new Map();
+      byRun.set(fault.run, byBib);
+    }
+    const key = `${fault.bib}-${fault.run}`;
+    if (!byBib.has(key)) {
+      byBib.set(key, []);
+    }
+    byBib.get(key)!.push(fault);
+  }
+  return Array.from(byRun.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([run, byBib]) => [run, Array.from(byBib.entries())]);
+}
+
 /**
  * Export results as CSV file in Race Horology format
  * Now includes fault columns: Torstrafzeit, Torfehler
+ * and racer columns (Name, Verein) when a start list is loaded.
+ * Races with intermediate points get a Zwischenzeit column holding the
+ * split time (since start) of each intermediate entry. Manually entered
+ * (hand-timed) entries are marked in a Handzeit column with the official
+ * who entered them.
  */
 export function exportResults(): void {
   const state = store.getState();
@@ -182,15 +310,34 @@ export function exportResults(): void {
     // Check if there are any faults - if so, include fault columns
     const hasFaults = faults.length > 0;
 
+    // Include racer columns right after the bib when a start list is loaded
+    const racerLookup = $racerLookup.value;
+    const hasStartList = racerLookup.size > 0;
+
+    // Split time column only when intermediate points were recorded
+    const hasSplits = entries.some((e) => isIntermediatePoint(e.point));
+    const startTimes = hasSplits ? getStartTimes(entries) : null;
+
+    // Hand time column only when manual times were entered
+    const hasManual = entries.some((e) => e.timeSource === 'manual');
+
     // Build CSV content
     // Extended header with fault columns when faults exist
     // "Datum" added at end for multi-day race support (YYYY-MM-DD)
+    const bibHeader = hasStartList ? 'Startnummer;Name;Verein' : 'Startnummer';
+    const splitHeader = hasSplits ? ';Zwischenzeit' : '';
+    const manualHeader = hasManual ? ';Handzeit' : '';
     const header = hasFaults
-      ? 'Startnummer;Lauf;Messpunkt;Zeit;Status;Gerät;Torstrafzeit;Torfehler;Datum'
-      : 'Startnummer;Lauf;Messpunkt;Zeit;Status;Gerät;Datum';
+      ? `${bibHeader};Lauf;Messpunkt;Zeit;Status;Gerät;Torstrafzeit;Torfehler${splitHeader}${manualHeader};Datum`
+      : `${bibHeader};Lauf;Messpunkt;Zeit;Status;Gerät${splitHeader}${manualHeader};Datum`;
 
     const rows = sortedEntries.map((entry) => {
-      const bib = escapeCSVField(entry.bib);
+      const racer = hasStartList
+        ? findRacer(racerLookup, entry.bib)
+        : undefined;
+      const bib = hasStartList
+        ? `${escapeCSVField(entry.bib)};${escapeCSVField(racer?.name ?? '')};${escapeCSVField(racer?.club ?? '')}`
+        : escapeCSVField(entry.bib);
       const run = entry.run ?? 1;
       const point = getExportPointLabel(entry.point);
       const { time, dateRollover } = formatTimeForRaceHorology(entry.timestamp);
@@ -199,17 +346,39 @@ export function exportResults(): void {
         formatDateForExport(entry.timestamp, dateRollover),
       );
 
+      // Split time of intermediate entries (empty without a start)
+      let split = '';
+      if (startTimes) {
+        const startTime = startTimes.get(`${entry.bib}-${run}`);
+        const elapsed =
+          startTime !== undefined && isIntermediatePoint(entry.point)
+            ? new Date(entry.timestamp).getTime() - startTime
+            : -1;
+        split = `;${escapeCSVField(elapsed > 0 ? formatDuration(elapsed) : '')}`;
+      }
+
+      // Official who entered a hand time (empty for recorded times)
+      let manual = '';
+      if (hasManual) {
+        const enteredBy =
+          entry.timeSource === 'manual' ? entry.enteredBy || 'Hand' : '';
+        manual = `;${escapeCSVField(enteredBy)}`;
+      }
+
       // Get faults for this bib/run (only on Finish entries)
       const entryFaults =
         entry.point === 'F'
           ? faults.filter((f) => f.bib === entry.bib && f.run === run)
           : [];
 
+      // Penalty rule of the racer's age category
+      const rule = getPenaltyRule(entry.bib);
+
       // Determine status based on faults
       let status: string;
       if (entry.point === 'F' && entryFaults.length > 0) {
         // If using penalty mode, status is FLT; otherwise DSQ
-        status = state.usePenaltyMode
+        status = rule.usePenaltyMode
           ? getStatusLabel('flt', lang)
           : getStatusLabel('dsq', lang);
       } else {
@@ -219,14 +388,14 @@ export function exportResults(): void {
       if (hasFaults) {
         // Calculate penalty time
         const penaltySecondsVal =
-          entryFaults.length > 0 && state.usePenaltyMode
-            ? entryFaults.length * state.penaltySeconds
+          entryFaults.length > 0 && rule.usePenaltyMode
+            ? entryFaults.length * rule.penaltySeconds
             : 0;
         const faultStr = formatFaultsForCSV(entryFaults);
 
-        return `${bib};${escapeCSVField(String(run))};${escapeCSVField(point)};${escapeCSVField(time)};${escapeCSVField(status)};${device};${escapeCSVField(String(penaltySecondsVal))};${escapeCSVField(faultStr)};${datum}`;
+        return `${bib};${escapeCSVField(String(run))};${escapeCSVField(point)};${escapeCSVField(time)};${escapeCSVField(status)};${device};${escapeCSVField(String(penaltySecondsVal))};${escapeCSVField(faultStr)}${split}${manual};${datum}`;
       } else {
-        return `${bib};${escapeCSVField(String(run))};${escapeCSVField(point)};${escapeCSVField(time)};${escapeCSVField(status)};${device};${datum}`;
+        return `${bib};${escapeCSVField(String(run))};${escapeCSVField(point)};${escapeCSVField(time)};${escapeCSVField(status)};${device}${split}${manual};${datum}`;
       }
     });
 
@@ -299,10 +468,9 @@ export function exportJudgeReport(): void {
   lines.push(divider);
   lines.push(`        ${t('gateJudgeCard', lang).toUpperCase()}`);
   lines.push(divider);
-  lines.push(`${t('race', lang)}:     ${raceId}`);
-  lines.push(
-    `${t('date', lang)}:      ${new Date().toLocaleDateString(getLocale(lang))}`,
-  );
+  lines.push(`${t('race', lang)}:     ${getRaceTitle(raceId)}`);
+  lines.push(`${t('date', lang)}:      ${getRaceDate(lang)}`);
+  lines.push(...getRaceDefinitionLines(lang, 10));
   lines.push(`${t('gateJudgeLabel', lang)}: ${deviceName}`);
   if (gateAssignment) {
     lines.push(
@@ -311,9 +479,11 @@ export function exportJudgeReport(): void {
   }
   lines.push(thinDivider);
 
-  // Group faults by run
-  const run1Faults = myFaults.filter((f) => f.run === 1);
-  const run2Faults = myFaults.filter((f) => f.run === 2);
+  // Group faults by run (run 1 is shown even without faults)
+  const runs = Array.from(new Set(myFaults.map((f) => f.run))).sort(
+    (a, b) => a - b,
+  );
+  if (runs.length === 0) runs.push(1);
 
   const formatFaultRow = (f: FaultEntry): string => {
     const bib = f.bib.padStart(5);
@@ -328,30 +498,21 @@ export function exportJudgeReport(): void {
   const faultHeader = t('faultType', lang);
   const timeHeader = t('time', lang);
 
-  if (run1Faults.length > 0 || run2Faults.length === 0) {
-    lines.push(`${t('runLabel', lang)} 1:`);
+  for (const run of runs) {
+    const runFaults = myFaults.filter((f) => f.run === run);
+    lines.push(`${t('runLabel', lang)} ${run}:`);
     lines.push(
       `${bibHeader.substring(0, 7).padEnd(7)} │ ${gateHeader.substring(0, 4).padEnd(4)} │ ${faultHeader.substring(0, 9).padEnd(9)} │ ${timeHeader}`,
     );
     lines.push('────────┼──────┼───────────┼───────────────');
-    if (run1Faults.length === 0) {
+    if (runFaults.length === 0) {
       lines.push(`  ${t('noFaultsEntered', lang)}`);
     } else {
-      run1Faults.forEach((f) => lines.push(formatFaultRow(f)));
+      runFaults.forEach((f) => lines.push(formatFaultRow(f)));
     }
     lines.push('');
   }
 
-  if (run2Faults.length > 0) {
-    lines.push(`${t('runLabel', lang)} 2:`);
-    lines.push(
-      `${bibHeader.substring(0, 7).padEnd(7)} │ ${gateHeader.substring(0, 4).padEnd(4)} │ ${faultHeader.substring(0, 9).padEnd(9)} │ ${timeHeader}`,
-    );
-    lines.push('────────┼──────┼───────────┼───────────────');
-    run2Faults.forEach((f) => lines.push(formatFaultRow(f)));
-    lines.push('');
-  }
-
   lines.push(thinDivider);
   lines.push(`${t('signature', lang)}: ________________________`);
   lines.push('');
@@ -398,34 +559,18 @@ export function exportFaultSummaryWhatsApp(): void {
     return;
   }
 
-  // Group faults by bib and run
-  const faultsByBib = new Map<string, FaultEntry[]>();
-  for (const fault of faults) {
-    const key = `${fault.bib}-${fault.run}`;
-    if (!faultsByBib.has(key)) {
-      faultsByBib.set(key, []);
-    }
-    faultsByBib.get(key)!.push(fault);
-  }
-
   // Build WhatsApp message
   const lines: string[] = [];
 
   // Header
-  lines.push(`📋 ${t('gateFaults', lang)} - ${raceId}`);
+  lines.push(`📋 ${t('gateFaults', lang)} - ${getRaceTitle(raceId)}`);
   lines.push('');
 
-  // Group by run
-  const run1Bibs = Array.from(faultsByBib.entries()).filter(([key]) =>
-    key.endsWith('-1'),
-  );
-  const run2Bibs = Array.from(faultsByBib.entries()).filter(([key]) =>
-    key.endsWith('-2'),
-  );
-
   const formatBibFaults = (key: string, racerFaults: FaultEntry[]): string => {
     const [bib] = key.split('-') as [string];
     const paddedBib = bib.padStart(3, '0');
+    const name = getRacerName(bib);
+    const bibLabel = name ? `#${paddedBib} ${name}` : `#${paddedBib}`;
     const gateList = racerFaults
       .sort((a, b) => a.gateNumber - b.gateNumber)
       .map((f) => `T${f.gateNumber}`)
@@ -434,50 +579,47 @@ export function exportFaultSummaryWhatsApp(): void {
       .map((f) => getFaultTypeCode(f.faultType))
       .join(', ');
 
-    if (state.usePenaltyMode) {
-      const penalty = racerFaults.length * state.penaltySeconds;
-      return `#${paddedBib}: ${gateList} (${faultTypes}) → +${penalty}s`;
+    const rule = getPenaltyRule(bib);
+    if (rule.usePenaltyMode) {
+      const penalty = racerFaults.length * rule.penaltySeconds;
+      return `${bibLabel}: ${gateList} (${faultTypes}) → +${penalty}s`;
     } else {
-      return `#${paddedBib}: ${gateList} (${faultTypes})`;
+      return `${bibLabel}: ${gateList} (${faultTypes})`;
     }
   };
 
-  // Run 1
-  if (run1Bibs.length > 0) {
-    lines.push(`🏁 ${t('runLabel', lang)} 1:`);
-    if (state.usePenaltyMode) {
-      lines.push(`🟡 ${t('penaltyLabel', lang)}:`);
-    } else {
-      lines.push(`🔴 ${t('dsq', lang)}:`);
-    }
-    run1Bibs
-      .sort(
-        (a, b) =>
-          parseInt(a[0].split('-')[0]!, 10) - parseInt(b[0].split('-')[0]!, 10),
-      )
-      .forEach(([key, racerFaults]) => {
-        lines.push(formatBibFaults(key, racerFaults));
-      });
-    lines.push('');
-  }
+  // Per run: penalty group first, then DSQ group (rules differ by age category)
+  const formatRun = (runBibs: [string, FaultEntry[]][], runNum: number) => {
+    if (runBibs.length === 0) return;
+
+    lines.push(`🏁 ${t('runLabel', lang)} ${runNum}:`);
+    const sorted = runBibs.sort(
+      (a, b) =>
+        parseInt(a[0].split('-')[0]!, 10) - parseInt(b[0].split('-')[0]!, 10),
+    );
+    const isPenalty = ([key]: [string, FaultEntry[]]) =>
+      getPenaltyRule(key.split('-')[0]!).usePenaltyMode;
+    const penaltyBibs = sorted.filter(isPenalty);
+    const dsqBibs = sorted.filter((item) => !isPenalty(item));
 
-  // Run 2
-  if (run2Bibs.length > 0) {
-    lines.push(`🏁 ${t('runLabel', lang)} 2:`);
-    if (state.usePenaltyMode) {
+    if (penaltyBibs.length > 0) {
       lines.push(`🟡 ${t('penaltyLabel', lang)}:`);
-    } else {
-      lines.push(`🔴 ${t('dsq', lang)}:`);
+      for (const [key, racerFaults] of penaltyBibs) {
+        lines.push(formatBibFaults(key, racerFaults));
+      }
     }
-    run2Bibs
-      .sort(
-        (a, b) =>
-          parseInt(a[0].split('-')[0]!, 10) - parseInt(b[0].split('-')[0]!, 10),
-      )
-      .forEach(([key, racerFaults]) => {
+    if (dsqBibs.length > 0) {
+      lines.push(`🔴 ${t('dsq', lang)}:`);
+      for (const [key, racerFaults] of dsqBibs) {
         lines.push(formatBibFaults(key, racerFaults));
-      });
+      }
+    }
     lines.push('');
+  };
+
+  // Group faults by run and bib
+  for (const [run, runBibs] of groupFaultsByRun(faults)) {
+    formatRun(runBibs, run);
   }
 
   // Footer
@@ -523,26 +665,12 @@ export function exportChiefSummary(): void {
     return;
   }
 
-  // Group faults by bib and run
-  const faultsByBib = new Map<string, FaultEntry[]>();
-  for (const fault of faults) {
-    const key = `${fault.bib}-${fault.run}`;
-    if (!faultsByBib.has(key)) {
-      faultsByBib.set(key, []);
-    }
-    faultsByBib.get(key)!.push(fault);
-  }
-
   const lines: string[] = [];
   const divider = '══════════════════════════════════════════════════════';
 
-  // Group by run
-  const run1Bibs = Array.from(faultsByBib.entries()).filter(([key]) =>
-    key.endsWith('-1'),
-  );
-  const run2Bibs = Array.from(faultsByBib.entries()).filter(([key]) =>
-    key.endsWith('-2'),
-  );
+  // Racer name column only when a start list is loaded
+  const hasStartList = $racerLookup.value.size > 0;
+  const NAME_WIDTH = 20;
 
   const formatRunSummary = (
     runBibs: [string, FaultEntry[]][],
@@ -554,10 +682,17 @@ export function exportChiefSummary(): void {
       `${t('faultSummaryTitle', lang)} - ${t('runLabel', lang)} ${runNum}`,
     );
     lines.push(divider);
+    const nameHeader = hasStartList
+      ? ` │ ${t('racerName', lang).padEnd(NAME_WIDTH)}`
+      : '';
     lines.push(
-      `${t('bib', lang).substring(0, 7).padEnd(7)} │ ${t('faults', lang).padEnd(16)} │ ${t('penalty', lang).padStart(9)} │ Status`,
+      `${t('bib', lang).substring(0, 7).padEnd(7)}${nameHeader} │ ${t('faults', lang).padEnd(16)} │ ${t('penalty', lang).padStart(9)} │ Status`,
+    );
+    lines.push(
+      hasStartList
+        ? `────────┼${'─'.repeat(NAME_WIDTH + 2)}┼──────────────────┼───────────┼────────`
+        : '────────┼──────────────────┼───────────┼────────',
     );
-    lines.push('────────┼──────────────────┼───────────┼────────');
 
     runBibs
       .sort(
@@ -567,6 +702,9 @@ export function exportChiefSummary(): void {
       .forEach(([key, racerFaults]) => {
         const [bib] = key.split('-') as [string];
         const paddedBib = bib.padStart(5);
+        const nameCol = hasStartList
+          ? ` │ ${getRacerName(bib).substring(0, NAME_WIDTH).padEnd(NAME_WIDTH)}`
+          : '';
         const faultStr = racerFaults
           .sort((a, b) => a.gateNumber - b.gateNumber)
           .map((f) => `T${f.gateNumber}(${getFaultTypeCode(f.faultType)})`)
@@ -575,8 +713,9 @@ export function exportChiefSummary(): void {
 
         let penaltyStr: string;
         let statusStr: string;
-        if (state.usePenaltyMode) {
-          const penalty = racerFaults.length * state.penaltySeconds;
+        const rule = getPenaltyRule(bib);
+        if (rule.usePenaltyMode) {
+          const penalty = racerFaults.length * rule.penaltySeconds;
           penaltyStr = `${penalty} ${t('sec', lang)}`.padStart(9);
           statusStr = t('flt', lang);
         } else {
@@ -585,18 +724,21 @@ export function exportChiefSummary(): void {
         }
 
         lines.push(
-          `  ${paddedBib}   │ ${faultStr} │ ${penaltyStr} │ ${statusStr}`,
+          `  ${paddedBib}  ${nameCol} │ ${faultStr} │ ${penaltyStr} │ ${statusStr}`,
         );
       });
 
     lines.push('');
   };
 
-  lines.push(`${raceId} - ${new Date().toLocaleDateString(getLocale(lang))}`);
+  lines.push(`${getRaceTitle(raceId)} - ${getRaceDate(lang)}`);
+  lines.push(...getRaceDefinitionLines(lang, 20));
   lines.push('');
 
-  formatRunSummary(run1Bibs, 1);
-  formatRunSummary(run2Bibs, 2);
+  // Group faults by run and bib
+  for (const [run, runBibs] of groupFaultsByRun(faults)) {
+    formatRunSummary(runBibs, run);
+  }
 
   lines.push(divider);
   lines.push(
@@ -7,12 +7,13 @@ import { showToast } from '../../components';
 import { t } from '../../i18n/translations';
 import { feedbackTap } from '../../services';
 import { deleteFaultFromCloud } from '../../services/sync';
-import { store } from '../../store';
-import type { FaultEntry, FaultType } from '../../types';
+import { $currentView, $maxGate, effect, store } from '../../store';
+import type { FaultEntry, FaultType, Language } from '../../types';
 import {
   escapeAttr,
   escapeHtml,
   getFaultTypeLabel,
+  getRunLabel,
   iconNote,
   iconTrash,
   makeNumericInput,
@@ -20,12 +21,20 @@ import {
 import { formatTime as formatTimeDisplay } from '../../utils/format';
 import { ListenerManager } from '../../utils/listenerManager';
 import { setModalContext } from '../../utils/modalContext';
+import {
+  findRacerAtGates,
+  type RacerOnCourse,
+  trackRacersOnCourse,
+} from '../../utils/onCourse';
 import { openModal } from '../modals';
 import { createAndSyncFault } from './faultOperations';
 
 // Module-level listener manager for lifecycle cleanup
 const listeners = new ListenerManager();
 
+/** How often the on-course positions are re-estimated in the Gate Judge view */
+const ON_COURSE_REFRESH_MS = 5000;
+
 // Module state
 let inlineSelectedBib = '';
 let inlineSelectedGate = 0;
@@ -33,6 +42,9 @@ let inlineSelectedFaultType: FaultType | null = null;
 let gateSelectorDelegated = false;
 let bibListDelegated = false;
 let faultListDelegated = false;
+let onCourseInterval: ReturnType<typeof setInterval> | null = null;
+
+const effectDisposers: (() => void)[] = [];
 
 /**
  * Flash the bib input to visually cue an auto-fill event.
@@ -47,68 +59,108 @@ function flashBibAutoFill(): void {
 }
 
 /**
- * Update active bibs list in Gate Judge view
+ * Racers of the selected run still on course, most recent start first
  */
-export function updateActiveBibsList(): void {
-  const list = document.getElementById('active-bibs-list');
-  const emptyState = document.getElementById('no-active-bibs');
-  if (!list) return;
-
+function trackSelectedRun(): RacerOnCourse[] {
   const state = store.getState();
-  const activeBibs = store.getActiveBibs(state.selectedRun);
+  return trackRacersOnCourse(state.entries, state.selectedRun, $maxGate.value);
+}
+
+/**
+ * Racer most likely passing this judge's gates right now
+ */
+function getRacerAtMyGates(racers: RacerOnCourse[]): RacerOnCourse | null {
+  const gateAssignment = store.getState().gateAssignment;
+  return gateAssignment ? findRacerAtGates(racers, gateAssignment) : null;
+}
 
+/** Bib card of a racer on course in the Gate Judge view */
+interface ActiveBibCard {
+  racer: RacerOnCourse;
+  faultCount: number;
+  isAtGates: boolean;
+}
+
+/**
+ * Replace the bib cards of the active bibs list
+ */
+function renderActiveBibCards(
+  list: HTMLElement,
+  emptyState: HTMLElement | null,
+  cards: ActiveBibCard[],
+  lang: Language,
+): void {
   // Clear existing bib cards (keep empty state)
   list.querySelectorAll('.active-bib-card').forEach((card) => card.remove());
 
-  if (activeBibs.length === 0) {
+  if (cards.length === 0) {
     if (emptyState) emptyState.style.display = '';
     return;
   }
 
   if (emptyState) emptyState.style.display = 'none';
 
-  // Get start times for each bib
-  const startTimes = new Map<string, Date>();
-  state.entries.forEach((entry) => {
-    if (entry.point === 'S' && entry.run === state.selectedRun) {
-      startTimes.set(entry.bib, new Date(entry.timestamp));
-    }
-  });
-
-  // Sort by start time (most recent first)
-  const sortedBibs = [...activeBibs].sort((a, b) => {
-    const timeA = startTimes.get(a)?.getTime() || 0;
-    const timeB = startTimes.get(b)?.getTime() || 0;
-    return timeB - timeA;
-  });
-
-  // Build bib cards
-  sortedBibs.forEach((bib) => {
-    const startTime = startTimes.get(bib);
-    const faults = store.getFaultsForBib(bib, state.selectedRun);
-    const hasFault = faults.length > 0;
+  // Build bib cards (sorted by start time, most recent first)
+  cards.forEach(({ racer, faultCount, isAtGates }) => {
+    const bib = racer.bib;
+    const hasFault = faultCount > 0;
 
     const card = document.createElement('div');
-    card.className = `active-bib-card${hasFault ? ' has-fault' : ''}`;
+    card.className = `active-bib-card${hasFault ? ' has-fault' : ''}${isAtGates ? ' at-gates' : ''}`;
     card.setAttribute('data-bib', escapeAttr(bib));
     card.setAttribute('role', 'listitem');
 
-    const timeStr = startTime ? formatTimeDisplay(startTime) : '--:--:--';
+    const timeStr = formatTimeDisplay(new Date(racer.startTime));
 
     card.innerHTML = `
       <div class="bib-card-info">
         <span class="bib-card-number">${escapeHtml(bib)}</span>
         <span class="bib-card-time">${escapeHtml(timeStr)}</span>
-        ${hasFault ? `<span class="bib-fault-indicator">${faults.length} ${t('faultCount', state.currentLang)}</span>` : ''}
+        ${isAtGates ? `<span class="bib-at-gates-indicator">${t('racerAtYourGates', lang)}</span>` : ''}
+        ${hasFault ? `<span class="bib-fault-indicator">${faultCount} ${t('faultCount', lang)}</span>` : ''}
       </div>
       <div class="bib-card-actions">
-        <button class="bib-action-btn fault" data-action="fault" aria-label="${escapeAttr(t('recordFault', state.currentLang))}">${t('faultMGShort', state.currentLang)}</button>
-        <button class="bib-action-btn ok" data-action="ok" aria-label="${escapeAttr(t('markOk', state.currentLang))}">${t('ok', state.currentLang)}</button>
+        <button class="bib-action-btn fault" data-action="fault" aria-label="${escapeAttr(t('recordFault', lang))}">${t('faultMGShort', lang)}</button>
+        <button class="bib-action-btn ok" data-action="ok" aria-label="${escapeAttr(t('markOk', lang))}">${t('ok', lang)}</button>
       </div>
     `;
 
     list.appendChild(card);
   });
+}
+
+/**
+ * Update active bibs list in Gate Judge view
+ */
+export function updateActiveBibsList(): void {
+  const list = document.getElementById('active-bibs-list');
+  const emptyState = document.getElementById('no-active-bibs');
+  if (!list) return;
+
+  const state = store.getState();
+  const racers = trackSelectedRun();
+  const atGates = getRacerAtMyGates(racers);
+  const cards = racers.map((racer) => ({
+    racer,
+    faultCount: store.getFaultsForBib(racer.bib, state.selectedRun).length,
+    isAtGates: racer === atGates,
+  }));
+
+  // The periodic re-estimate mostly finds the same cards: only rebuild the
+  // DOM when what they show changed
+  const renderKey = JSON.stringify([
+    state.currentLang,
+    cards.map(({ racer, faultCount, isAtGates }) => [
+      racer.bib,
+      racer.startTime,
+      faultCount,
+      isAtGates,
+    ]),
+  ]);
+  if (list.dataset.renderKey !== renderKey) {
+    list.dataset.renderKey = renderKey;
+    renderActiveBibCards(list, emptyState, cards, state.currentLang);
+  }
 
   // Use delegated event handler on the stable list container
   if (bibListDelegated) return;
@@ -474,30 +526,28 @@ function closeFaultDetailPanel(): void {
 }
 
 /**
- * Auto-select the most recently started bib
+ * Auto-select the racer the on-course tracker places at this judge's gates,
+ * or the most recently started one when no position can be estimated yet
  */
 function autoSelectMostRecentBib(): void {
-  const state = store.getState();
-  const activeBibs = store.getActiveBibs(state.selectedRun);
-
-  if (activeBibs.length === 0) return;
+  const racers = trackSelectedRun();
+  if (racers.length === 0) return;
 
-  // Get start times for sorting
-  const startTimes = new Map<string, number>();
-  state.entries.forEach((entry) => {
-    if (entry.point === 'S' && entry.run === state.selectedRun) {
-      startTimes.set(entry.bib, new Date(entry.timestamp).getTime());
-    }
-  });
+  const racer = getRacerAtMyGates(racers) ?? racers[0]!;
+  selectInlineBib(racer.bib);
+  flashBibAutoFill();
+}
 
-  // Sort by most recent start
-  const sorted = [...activeBibs].sort((a, b) => {
-    return (startTimes.get(b) || 0) - (startTimes.get(a) || 0);
-  });
+function startOnCourseRefresh(): void {
+  if (onCourseInterval) return;
+  onCourseInterval = setInterval(updateActiveBibsList, ON_COURSE_REFRESH_MS);
+}
 
-  // Auto-select most recent
-  selectInlineBib(sorted[0]!);
-  flashBibAutoFill();
+function stopOnCourseRefresh(): void {
+  if (onCourseInterval) {
+    clearInterval(onCourseInterval);
+    onCourseInterval = null;
+  }
 }
 
 /**
@@ -505,10 +555,18 @@ function autoSelectMostRecentBib(): void {
  */
 export function initInlineFaultEntry(): void {
   // Clean up old listeners before adding new ones (re-init safe)
-  listeners.removeAll();
-  gateSelectorDelegated = false;
-  bibListDelegated = false;
-  faultListDelegated = false;
+  cleanupInlineFaultEntry();
+
+  // Racers move between entries: re-estimate positions while judging
+  effectDisposers.push(
+    effect(() => {
+      if ($currentView.value === 'gateJudge') {
+        startOnCourseRefresh();
+      } else {
+        stopOnCourseRefresh();
+      }
+    }),
+  );
 
   // Bib manual input
   const bibInput = document.getElementById(
@@ -627,6 +685,21 @@ export function initInlineFaultEntry(): void {
   }
 }
 
+/**
+ * Remove inline fault entry listeners and stop the on-course refresh
+ */
+export function cleanupInlineFaultEntry(): void {
+  listeners.removeAll();
+  gateSelectorDelegated = false;
+  bibListDelegated = false;
+  faultListDelegated = false;
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  stopOnCourseRefresh();
+}
+
 /**
  * Update the save button enabled/disabled state
  */
@@ -716,7 +789,7 @@ export function openFaultDeleteConfirmation(fault: FaultEntry): void {
       <strong>#${escapeHtml(fault.bib)}</strong> -
       <span class="fault-gate ${escapeAttr(gateColor)}">T${escapeHtml(String(fault.gateNumber))}</span>
       (${escapeHtml(getFaultTypeLabel(fault.faultType, state.currentLang))}) -
-      ${escapeHtml(t(fault.run === 1 ? 'run1' : 'run2', state.currentLang))}
+      ${escapeHtml(getRunLabel(fault.run, state.currentLang))}
     `;
   }
 
@@ -13,10 +13,13 @@ import {
   escapeHtml,
   getFaultTypeLabel,
   getLocale,
+  getRunLabel,
+  getRuns,
   makeNumericInput,
 } from '../../utils';
 import { ListenerManager } from '../../utils/listenerManager';
 import { setModalContext } from '../../utils/modalContext';
+import { renderRunButtons } from '../../utils/uiHelpers';
 import { closeModal, openModal } from '../modals';
 
 // Module-level listener manager for lifecycle cleanup
@@ -231,8 +234,14 @@ export function openFaultEditModal(fault: FaultEntry): void {
     gateRangeSpan.textContent = `(${t('gates', lang)} ${fault.gateRange[0]}-${fault.gateRange[1]})`;
   }
 
-  // Update run selector buttons
+  // Show the race's runs (and the fault's, if beyond them), then select
   const runSelector = document.getElementById('fault-edit-run-selector');
+  renderRunButtons(
+    runSelector,
+    '.edit-run-btn',
+    getRuns(Math.max(store.getState().runCount, fault.run)),
+    String,
+  );
   if (runSelector) {
     runSelector.querySelectorAll('.edit-run-btn').forEach((btn) => {
       const btnRun = btn.getAttribute('data-run');
@@ -440,7 +449,7 @@ export function openMarkDeletionModal(fault: FaultEntry): void {
   const detailsEl = document.getElementById('mark-deletion-details');
   if (detailsEl) {
     detailsEl.innerHTML = `
-      <div>#${escapeHtml(fault.bib.padStart(3, '0'))} T${escapeHtml(String(fault.gateNumber))} (${escapeHtml(getFaultTypeLabel(fault.faultType, lang))}) - ${escapeHtml(t(fault.run === 1 ? 'run1' : 'run2', lang))}</div>
+      <div>#${escapeHtml(fault.bib.padStart(3, '0'))} T${escapeHtml(String(fault.gateNumber))} (${escapeHtml(getFaultTypeLabel(fault.faultType, lang))}) - ${escapeHtml(getRunLabel(fault.run, lang))}</div>
     `;
   }
 
@@ -5,6 +5,7 @@
 
 // Inline gate-first entry UI
 export {
+  cleanupInlineFaultEntry,
   initInlineFaultEntry,
   openFaultDeleteConfirmation,
   refreshInlineFaultUI,
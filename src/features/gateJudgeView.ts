@@ -5,13 +5,30 @@
 
 import { showToast } from '../components';
 import { t } from '../i18n/translations';
-import { feedbackSuccess, feedbackTap, syncService } from '../services';
-import { store } from '../store';
+import {
+  feedbackSuccess,
+  feedbackTap,
+  gpsService,
+  syncService,
+} from '../services';
+import { $courseGates, $maxGate, store } from '../store';
 import type { GateAssignment, GateColor, VoiceIntent } from '../types';
-import { escapeAttr, escapeHtml, getElement, iconCheck } from '../utils';
+import {
+  clampGate,
+  escapeAttr,
+  escapeHtml,
+  getElement,
+  getRunLabel,
+  getRuns,
+  iconCheck,
+  isValidRun,
+} from '../utils';
+import { suggestGateRange } from '../utils/course';
 import { ListenerManager } from '../utils/listenerManager';
 import { logger } from '../utils/logger';
+import { renderRunButtons } from '../utils/uiHelpers';
 import {
+  cleanupInlineFaultEntry,
   initInlineFaultEntry,
   refreshInlineFaultUI,
   updateActiveBibsList,
@@ -98,6 +115,7 @@ export function initGateJudgeView(): void {
       updateActiveBibsList();
       refreshInlineFaultUI();
     }) as EventListener);
+    updateGateJudgeRunButtons();
   }
 
   // Ready toggle button
@@ -146,29 +164,90 @@ export function openGateAssignmentModal(): void {
   const endInput = getElement<HTMLInputElement>('gate-end-input');
 
   if (startInput && endInput) {
+    // Gates are limited to the course's gate count (race definition)
+    const maxGate = $maxGate.value;
+    startInput.max = String(maxGate);
+    endInput.max = String(maxGate);
     if (state.gateAssignment) {
-      startInput.value = String(state.gateAssignment[0]);
-      endInput.value = String(state.gateAssignment[1]);
+      startInput.value = String(Math.min(state.gateAssignment[0], maxGate));
+      endInput.value = String(Math.min(state.gateAssignment[1], maxGate));
     } else {
       startInput.value = '1';
-      endInput.value = '10';
+      endInput.value = String(Math.min(10, maxGate));
     }
   }
 
   // Set gate color selector to current value
-  const colorSelector = getElement('gate-color-selector');
-  if (colorSelector) {
-    colorSelector.querySelectorAll('.gate-color-btn').forEach((btn) => {
-      const color = btn.getAttribute('data-color');
-      const isActive = color === state.firstGateColor;
-      btn.classList.toggle('active', isActive);
-      btn.setAttribute('aria-checked', String(isActive));
-    });
+  selectGateColor(state.firstGateColor);
+
+  // Location-based suggestions need a course with gate positions
+  const suggestBtn = getElement<HTMLButtonElement>('gate-suggest-btn');
+  if (suggestBtn) {
+    suggestBtn.hidden = $courseGates.value.length === 0;
+    suggestBtn.disabled = false;
   }
 
   openModal(getElement('gate-assignment-modal'));
 }
 
+/**
+ * Mark a color as selected in the gate assignment modal
+ */
+function selectGateColor(color: GateColor): void {
+  const colorSelector = getElement('gate-color-selector');
+  if (!colorSelector) return;
+  colorSelector.querySelectorAll('.gate-color-btn').forEach((btn) => {
+    const isActive = btn.getAttribute('data-color') === color;
+    btn.classList.toggle('active', isActive);
+    btn.setAttribute('aria-checked', String(isActive));
+  });
+}
+
+/**
+ * Fill the gate assignment modal with the gates near this device's GPS
+ * position (from the course map)
+ */
+async function suggestGatesFromLocation(btn: HTMLButtonElement): Promise<void> {
+  const startInput = getElement<HTMLInputElement>('gate-start-input');
+  const endInput = getElement<HTMLInputElement>('gate-end-input');
+  if (!startInput || !endInput) return;
+
+  btn.disabled = true;
+  const position = await gpsService.requestPosition(true);
+  btn.disabled = false;
+
+  const lang = store.getState().currentLang;
+  if (!position) {
+    showToast(t('courseGpsUnavailable', lang), 'warning');
+    return;
+  }
+
+  const gates = $courseGates.value;
+  const range = suggestGateRange(gates, position.coords);
+  if (!range) {
+    showToast(t('gateSuggestNone', lang), 'warning');
+    return;
+  }
+
+  const maxGate = $maxGate.value;
+  const [start, end] = range.map((gate) => clampGate(gate, maxGate)) as [
+    number,
+    number,
+  ];
+  startInput.value = String(start);
+  endInput.value = String(end);
+  const firstGate = gates.find((gate) => gate.number === range[0]);
+  if (firstGate) selectGateColor(firstGate.color);
+
+  feedbackTap();
+  showToast(
+    t('gateSuggested', lang)
+      .replace('{start}', String(start))
+      .replace('{end}', String(end)),
+    'success',
+  );
+}
+
 /**
  * Initialize gate assignment modal handlers
  */
@@ -192,6 +271,15 @@ export function initGateAssignmentModal(): void {
     }) as EventListener);
   }
 
+  const suggestBtn = getElement<HTMLButtonElement>('gate-suggest-btn');
+  if (suggestBtn) {
+    listeners.add(suggestBtn, 'click', () => {
+      suggestGatesFromLocation(suggestBtn).catch((error) => {
+        logger.error('Gate suggestion failed:', error);
+      });
+    });
+  }
+
   const saveBtn = getElement('save-gate-assignment-btn');
   if (saveBtn) {
     listeners.add(saveBtn, 'click', () => {
@@ -199,8 +287,9 @@ export function initGateAssignmentModal(): void {
       const endInput = getElement<HTMLInputElement>('gate-end-input');
       if (!startInput || !endInput) return;
 
-      const start = parseInt(startInput.value, 10) || 1;
-      const end = parseInt(endInput.value, 10) || 10;
+      const maxGate = $maxGate.value;
+      const start = clampGate(parseInt(startInput.value, 10) || 1, maxGate);
+      const end = clampGate(parseInt(endInput.value, 10) || 10, maxGate);
 
       // Ensure start <= end
       const validStart = Math.min(start, end);
@@ -307,6 +396,14 @@ export function updateReadyButtonState(): void {
   btn.setAttribute('aria-pressed', String(state.isJudgeReady));
 }
 
+/**
+ * Whether gates of the course are left without a judge; until they are
+ * covered, readiness never counts as complete
+ */
+function hasCoverageGaps(): boolean {
+  return (syncService.getGateCoverage()?.gaps.length ?? 0) > 0;
+}
+
 /**
  * Update judges ready indicator in header (visible to all devices)
  */
@@ -341,19 +438,21 @@ export function updateJudgesReadyIndicator(
     return;
   }
 
+  const coverageGap = hasCoverageGaps();
   indicator.style.display = 'flex';
   countEl.textContent = `${readyJudges}/${totalJudges}`;
   const lang = store.getState().currentLang;
   indicator.setAttribute(
     'aria-label',
-    `${t('judgesReadyCount', lang)}: ${readyJudges}/${totalJudges}`,
+    `${t('judgesReadyCount', lang)}: ${readyJudges}/${totalJudges}${coverageGap ? ` - ${t('coverageIncomplete', lang)}` : ''}`,
   );
 
-  // Add highlight when all are ready
+  // Add highlight when all are ready and every gate is watched
   indicator.classList.toggle(
     'all-ready',
-    readyJudges === totalJudges && totalJudges > 0,
+    readyJudges === totalJudges && totalJudges > 0 && !coverageGap,
   );
+  indicator.classList.toggle('coverage-gap', coverageGap);
 }
 
 /**
@@ -361,7 +460,7 @@ export function updateJudgesReadyIndicator(
  * Replaces GPS indicator, shows color-coded ready status:
  * - Red: No judges ready
  * - Yellow: Some but not all ready
- * - Green: All judges ready
+ * - Green: All judges ready (and every gate of the course watched)
  */
 export function updateJudgeReadyStatus(): void {
   const gpsIndicator = getElement('gps-indicator');
@@ -402,13 +501,27 @@ export function updateJudgeReadyStatus(): void {
 
   if (readyJudges === 0 || totalJudges === 0) {
     judgeReadyIndicator.classList.add('none-ready');
-  } else if (readyJudges === totalJudges) {
+  } else if (readyJudges === totalJudges && !hasCoverageGaps()) {
     judgeReadyIndicator.classList.add('all-ready');
   } else {
     judgeReadyIndicator.classList.add('some-ready');
   }
 }
 
+/**
+ * Show a Gate Judge run button for each run of the race
+ */
+export function updateGateJudgeRunButtons(): void {
+  const state = store.getState();
+  renderRunButtons(
+    getElement('gate-judge-run-selector'),
+    '.run-btn',
+    getRuns(state.runCount),
+    (run) => getRunLabel(run, state.currentLang),
+  );
+  updateGateJudgeRunSelection();
+}
+
 /**
  * Update Gate Judge run selector
  */
@@ -464,15 +577,17 @@ export function handleGateJudgeVoiceIntent(intent: VoiceIntent): void {
       break;
     }
 
-    case 'set_run':
-      if (intent.params?.run) {
-        store.setSelectedRun(intent.params.run);
+    case 'set_run': {
+      const run = intent.params?.run;
+      if (isValidRun(run, store.getState().runCount)) {
+        store.setSelectedRun(run);
         updateGateJudgeRunSelection();
         updateActiveBibsList();
         refreshInlineFaultUI();
         feedbackTap();
       }
       break;
+    }
 
     default:
       logger.debug('[GateJudgeView] Unhandled voice intent:', intent.action);
@@ -484,4 +599,5 @@ export function handleGateJudgeVoiceIntent(intent: VoiceIntent): void {
  */
 export function cleanupGateJudgeView(): void {
   listeners.removeAll();
+  cleanupInlineFaultEntry();
 }
@@ -0,0 +1,182 @@
+/**
+ * Manual Time Modal Module
+ * Backup hand timing: an official types a bib, point, run and the clock time
+ * read from the hand timing when a timing device failed. The entry is stored
+ * with timeSource 'manual' and the official's name.
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess, feedbackWarning } from '../services';
+import { syncEntry } from '../services/sync';
+import { $runs, $timingPoints, store } from '../store';
+import type { Run, TimingPoint } from '../types';
+import { getElement, getPointLabel } from '../utils';
+import { ListenerManager } from '../utils/listenerManager';
+import { logger } from '../utils/logger';
+import {
+  createManualEntry,
+  isDuplicateEntry,
+  parseManualTime,
+} from '../utils/timestampRecorder';
+import { closeModal, openModal } from './modals';
+
+const listeners = new ListenerManager();
+
+function getInput(id: string): HTMLInputElement | null {
+  return getElement<HTMLInputElement>(id);
+}
+
+function getSelect(id: string): HTMLSelectElement | null {
+  return getElement<HTMLSelectElement>(id);
+}
+
+function showManualTimeError(message: string | null): void {
+  const errorEl = getElement('manual-time-error');
+  if (!errorEl) return;
+  errorEl.textContent = message ?? '';
+  errorEl.style.display = message ? 'block' : 'none';
+}
+
+/**
+ * Fill a select with options, keeping the current value when still offered
+ */
+function fillSelect(
+  select: HTMLSelectElement,
+  options: { value: string; label: string }[],
+  value: string,
+): void {
+  select.innerHTML = '';
+  for (const { value: optionValue, label } of options) {
+    const option = document.createElement('option');
+    option.value = optionValue;
+    option.textContent = label;
+    select.appendChild(option);
+  }
+  select.value = options.some((o) => o.value === value)
+    ? value
+    : (options[0]?.value ?? '');
+}
+
+/**
+ * Open the manual time modal, preset to the selected point and run.
+ * The official's name is kept from the previous manual time.
+ */
+export function openManualTimeModal(): void {
+  const state = store.getState();
+  const lang = state.currentLang;
+
+  const pointSelect = getSelect('manual-time-point');
+  if (pointSelect) {
+    fillSelect(
+      pointSelect,
+      $timingPoints.value.map((point) => ({
+        value: point,
+        label: getPointLabel(point, lang),
+      })),
+      state.selectedPoint,
+    );
+  }
+
+  const runSelect = getSelect('manual-time-run');
+  if (runSelect) {
+    fillSelect(
+      runSelect,
+      $runs.value.map((run) => ({
+        value: String(run),
+        label: `${t('runLabel', lang)} ${run}`,
+      })),
+      String(state.selectedRun),
+    );
+  }
+
+  const bibInput = getInput('manual-time-bib');
+  if (bibInput) bibInput.value = '';
+  const timeInput = getInput('manual-time-value');
+  if (timeInput) timeInput.value = '';
+
+  showManualTimeError(null);
+  openModal(getElement('manual-time-modal'));
+  bibInput?.focus();
+}
+
+/**
+ * Validate the form and record the manual time
+ */
+function handleSaveManualTime(): void {
+  const state = store.getState();
+  const lang = state.currentLang;
+
+  const bib = (getInput('manual-time-bib')?.value ?? '').trim();
+  if (!/^\d{1,3}$/.test(bib)) {
+    showManualTimeError(t('manualTimeBibRequired', lang));
+    return;
+  }
+
+  const time = parseManualTime(getInput('manual-time-value')?.value ?? '');
+  if (!time) {
+    showManualTimeError(t('manualTimeInvalid', lang));
+    return;
+  }
+
+  const enteredBy = (getInput('manual-time-official')?.value ?? '').trim();
+  if (!enteredBy) {
+    showManualTimeError(t('manualTimeOfficialRequired', lang));
+    return;
+  }
+
+  const point = getSelect('manual-time-point')?.value as TimingPoint;
+  const run = Number(getSelect('manual-time-run')?.value);
+  const entry = createManualEntry({
+    bib,
+    point: $timingPoints.value.includes(point) ? point : state.selectedPoint,
+    run: ($runs.value.includes(run) ? run : state.selectedRun) as Run,
+    time,
+    deviceId: state.deviceId,
+    deviceName: state.deviceName,
+    enteredBy,
+  });
+
+  const isDuplicate = isDuplicateEntry(entry, state.entries);
+  store.addEntry(entry);
+  void syncEntry(entry).catch((err) => {
+    logger.error('syncEntry failed:', err);
+  });
+
+  if (isDuplicate) {
+    feedbackWarning();
+    showToast(t('duplicateWarning', lang), 'warning');
+  } else {
+    feedbackSuccess();
+    showToast(t('manualTimeSaved', lang), 'success');
+  }
+  closeModal(getElement('manual-time-modal'));
+}
+
+/**
+ * Initialize manual time modal handlers
+ */
+export function initManualTimeModal(): void {
+  const saveBtn = getElement('save-manual-time-btn');
+  if (saveBtn) {
+    listeners.add(saveBtn, 'click', handleSaveManualTime);
+  }
+
+  // Enter in the last field saves
+  const officialInput = getInput('manual-time-official');
+  if (officialInput) {
+    listeners.add(officialInput, 'keydown', ((e: KeyboardEvent) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        handleSaveManualTime();
+      }
+    }) as EventListener);
+  }
+}
+
+/**
+ * Cleanup manual time modal handlers
+ */
+export function destroyManualTimeModal(): void {
+  listeners.removeAll();
+}
@@ -1,35 +1,104 @@
 /**
  * Photo Viewer Module
- * Handles photo viewing, loading from IndexedDB, and deletion
+ * Handles photo viewing, loading from IndexedDB or the cloud photo API,
+ * stepping through photo-finish bursts, and deletion
  */
 
 import { showToast } from '../components';
 import { t } from '../i18n/translations';
-import { feedbackDelete, photoStorage } from '../services';
+import {
+  bibRecognitionService,
+  feedbackDelete,
+  photoStorage,
+  syncService,
+} from '../services';
 import { store } from '../store';
-import type { Entry } from '../types';
+import type { BurstFrame, Entry } from '../types';
 import {
   formatTime as formatTimeDisplay,
   getPointColor,
   getPointLabel,
 } from '../utils/format';
 import { logger } from '../utils/logger';
-import { isPhotoMarker } from '../utils/photoHelpers';
+import { isCloudPhotoMarker, isPhotoMarker } from '../utils/photoHelpers';
 import { closeModal, openModal } from './modals';
 
 // Module state
 let currentPhotoEntryId: string | null = null;
 let currentBlobUrl: string | null = null;
+let currentBurst: BurstFrame[] | null = null;
+let currentBurstIndex = 0;
+
+/**
+ * Show base64 JPEG data in the viewer image via a blob URL
+ */
+function showPhotoData(image: HTMLImageElement, photoData: string): void {
+  if (currentBlobUrl) {
+    URL.revokeObjectURL(currentBlobUrl);
+  }
+  // Use blob URL instead of data URI for better memory management
+  const byteChars = atob(photoData);
+  const byteArray = new Uint8Array(byteChars.length);
+  for (let i = 0; i < byteChars.length; i++) {
+    byteArray[i] = byteChars.charCodeAt(i);
+  }
+  const blob = new Blob([byteArray], { type: 'image/jpeg' });
+  currentBlobUrl = URL.createObjectURL(blob);
+  image.src = currentBlobUrl;
+}
+
+/**
+ * Show or hide the burst scrubber for the current burst
+ */
+function updateBurstScrubber(): void {
+  const scrubber = document.getElementById('photo-viewer-burst');
+  if (!scrubber) return;
+
+  if (!currentBurst) {
+    scrubber.hidden = true;
+    return;
+  }
+
+  scrubber.hidden = false;
+  const slider = document.getElementById(
+    'photo-viewer-burst-slider',
+  ) as HTMLInputElement | null;
+  if (slider) {
+    slider.max = String(currentBurst.length - 1);
+    slider.value = String(currentBurstIndex);
+  }
+  const prevBtn = document.getElementById(
+    'photo-viewer-burst-prev',
+  ) as HTMLButtonElement | null;
+  const nextBtn = document.getElementById(
+    'photo-viewer-burst-next',
+  ) as HTMLButtonElement | null;
+  if (prevBtn) prevBtn.disabled = currentBurstIndex === 0;
+  if (nextBtn) nextBtn.disabled = currentBurstIndex === currentBurst.length - 1;
+
+  const frame = currentBurst[currentBurstIndex]!;
+  const offsetEl = document.getElementById('photo-viewer-burst-offset');
+  if (offsetEl) {
+    offsetEl.textContent = `${frame.offsetMs >= 0 ? '+' : ''}${frame.offsetMs} ms`;
+  }
+  const timeEl = document.getElementById('photo-viewer-time');
+  if (timeEl) {
+    timeEl.textContent = formatTimeDisplay(new Date(frame.timestamp));
+  }
+}
 
 /**
  * Open photo viewer modal
- * Loads photo from IndexedDB if stored there
+ * Loads photo from IndexedDB if stored there, or downloads the full-size
+ * photo of a cloud entry (cached in IndexedDB for the next view)
  */
 export async function openPhotoViewer(entry: Entry): Promise<void> {
   const modal = document.getElementById('photo-viewer-modal');
   if (!modal || !entry.photo) return;
 
   currentPhotoEntryId = entry.id;
+  currentBurst = null;
+  currentBurstIndex = 0;
 
   const image = document.getElementById(
     'photo-viewer-image',
@@ -53,20 +122,38 @@ export async function openPhotoViewer(entry: Entry): Promise<void> {
     const pointLabel = getPointLabel(entry.point, lang);
     image.alt = `${t('photoForBib', lang)} ${entry.bib || '---'} - ${pointLabel}`;
 
-    if (isPhotoMarker(entry.photo)) {
-      // Photo stored in IndexedDB - load it
+    if (isPhotoMarker(entry.photo) || isCloudPhotoMarker(entry.photo)) {
+      // Photo stored in IndexedDB or on the server - load it
       image.src = ''; // Clear while loading
-      const photoData = await photoStorage.getPhoto(entry.id);
-      if (photoData) {
-        // Use blob URL instead of data URI for better memory management
-        const byteChars = atob(photoData);
-        const byteArray = new Uint8Array(byteChars.length);
-        for (let i = 0; i < byteChars.length; i++) {
-          byteArray[i] = byteChars.charCodeAt(i);
-        }
-        const blob = new Blob([byteArray], { type: 'image/jpeg' });
-        currentBlobUrl = URL.createObjectURL(blob);
-        image.src = currentBlobUrl;
+      const isCloudPhoto = isCloudPhotoMarker(entry.photo);
+      const photoData = isCloudPhoto
+        ? await syncService.fetchEntryPhoto(entry, 'full')
+        : await photoStorage.getPhoto(entry.id);
+      // Photo-finish bursts are only kept on the recording device
+      const burst = isCloudPhoto ? null : await photoStorage.getBurst(entry.id);
+
+      // Another photo may have been opened during the download
+      if (currentPhotoEntryId !== entry.id) return;
+
+      if (burst && burst.length > 1) {
+        // Start on the frame closest to the timestamp
+        currentBurst = burst;
+        currentBurstIndex = burst.reduce(
+          (best, frame, i) =>
+            Math.abs(frame.offsetMs) < Math.abs(burst[best]!.offsetMs)
+              ? i
+              : best,
+          0,
+        );
+        showPhotoData(image, burst[currentBurstIndex]!.photo);
+      } else if (photoData) {
+        showPhotoData(image, photoData);
+      } else if (isCloudPhoto) {
+        // Download failed (offline, or the photo was deleted meanwhile)
+        logger.warn('Photo download failed for entry:', entry.id);
+        currentPhotoEntryId = null;
+        showToast(t('photoLoadFailed', lang), 'warning');
+        return;
       } else {
         // Photo not found in IndexedDB — clear stale state since modal was never opened
         logger.warn('Photo not found in IndexedDB for entry:', entry.id);
@@ -90,10 +177,31 @@ export async function openPhotoViewer(entry: Entry): Promise<void> {
     const date = new Date(entry.timestamp);
     timeEl.textContent = formatTimeDisplay(date);
   }
+  updateBurstScrubber();
 
   openModal(modal);
 }
 
+/**
+ * Show a frame of the current photo-finish burst
+ */
+export function showBurstFrame(index: number): void {
+  if (!currentBurst) return;
+  const image = document.getElementById(
+    'photo-viewer-image',
+  ) as HTMLImageElement | null;
+  currentBurstIndex = Math.max(0, Math.min(currentBurst.length - 1, index));
+  if (image) showPhotoData(image, currentBurst[currentBurstIndex]!.photo);
+  updateBurstScrubber();
+}
+
+/**
+ * Step forward or back through the current photo-finish burst
+ */
+export function stepBurstFrame(delta: number): void {
+  showBurstFrame(currentBurstIndex + delta);
+}
+
 /**
  * Close photo viewer modal
  */
@@ -107,11 +215,14 @@ export function closePhotoViewer(): void {
   const modal = document.getElementById('photo-viewer-modal');
   closeModal(modal);
   currentPhotoEntryId = null;
+  currentBurst = null;
+  currentBurstIndex = 0;
 }
 
 /**
  * Delete photo from entry
- * Removes from both IndexedDB and entry marker
+ * Removes from both IndexedDB and entry marker, and from the cloud for this
+ * device's entries
  */
 export async function deletePhoto(): Promise<void> {
   if (!currentPhotoEntryId) return;
@@ -121,6 +232,14 @@ export async function deletePhoto(): Promise<void> {
 
   // Delete from IndexedDB
   await photoStorage.deletePhoto(entryId);
+  bibRecognitionService.forget(entryId);
+
+  const entry = state.entries.find(
+    (e) => e.id === entryId && e.deviceId === state.deviceId,
+  );
+  if (entry && state.settings.sync) {
+    await syncService.deleteEntryPhoto(entry);
+  }
 
   // Update entry to remove photo marker
   store.updateEntry(entryId, { photo: undefined });
@@ -0,0 +1,746 @@
+/**
+ * Protests View Module
+ * Chief Judge panel section for protests filed by team officials against a
+ * fault or a racer's status, the jury's decision on them and the protest
+ * deadline of each run. The server carries out an upheld protest: the fault
+ * is reversed (kept for the audit trail) or the racer's status changed.
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess, feedbackTap } from '../services';
+import { syncService } from '../services/sync';
+import { voiceModeService } from '../services/voice';
+import { voiceNoteService } from '../services/voiceNote';
+import {
+  $isChiefJudgeView,
+  $protestDeadlines,
+  $protests,
+  $runs,
+  effect,
+  store,
+} from '../store';
+import type {
+  EntryStatus,
+  Language,
+  Protest,
+  ProtestOutcome,
+  Run,
+} from '../types';
+import {
+  escapeAttr,
+  escapeHtml,
+  generateEntryId,
+  getFaultTypeLabel,
+  getLocale,
+  getPointLabel,
+  getRunLabel,
+} from '../utils';
+import { ListenerManager } from '../utils/listenerManager';
+import { logger } from '../utils/logger';
+import { getModalContext, setModalContext } from '../utils/modalContext';
+import {
+  getProtestOutcome,
+  MAX_PROTEST_PHOTOS,
+  MAX_PROTEST_TEXT_LENGTH,
+} from '../utils/validation';
+import { closeModal, openModal } from './modals';
+
+// Evidence photos are downscaled before upload (cloud limit ~500 KB per photo)
+const EVIDENCE_PHOTO_MAX_SIZE = 1024;
+const EVIDENCE_PHOTO_QUALITY = 0.7;
+
+const REQUESTED_STATUSES: EntryStatus[] = ['ok', 'dnf', 'dns', 'dsq'];
+
+// Evidence photos picked in the filing dialog (data URLs)
+let pendingPhotos: string[] = [];
+// Evidence photos downloaded per protest (kept across list re-renders)
+const loadedPhotos = new Map<string, string[]>();
+let evidenceNoteSource: 'voice' | 'manual' = 'manual';
+let unsubscribeDictation: (() => void)[] = [];
+let onDeadlineChange: (() => void) | null = null;
+
+const listeners = new ListenerManager();
+const effectDisposers: (() => void)[] = [];
+
+function getInput<T extends HTMLElement = HTMLInputElement>(
+  id: string,
+): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+/**
+ * Format a deadline for a datetime-local input (local time)
+ */
+function toDateTimeLocal(ms: number): string {
+  const date = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatDateTime(iso: string, lang: Language): string {
+  return new Date(iso).toLocaleString(getLocale(lang), {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+function isDeadlinePassed(run: Run): boolean {
+  const deadline = store.getState().protestDeadlines[String(run)];
+  return deadline !== undefined && Date.now() > deadline;
+}
+
+/**
+ * Short description of what a protest contests
+ */
+function describeTarget(protest: Protest, lang: Language): string {
+  if (protest.targetType === 'fault' && protest.fault) {
+    return `${t('gate', lang)} ${protest.fault.gateNumber} · ${getFaultTypeLabel(protest.fault.faultType, lang)} · ${protest.fault.deviceName}`;
+  }
+  const current = protest.currentStatus ? t(protest.currentStatus, lang) : '';
+  const requested = protest.requestedStatus
+    ? t(protest.requestedStatus, lang)
+    : '';
+  return current ? `${current} → ${requested}` : requested;
+}
+
+function renderDecision(protest: Protest, lang: Language): string {
+  const decision = protest.decision;
+  if (!decision) {
+    return `<button type="button" class="course-map-btn protest-decide-btn" data-action="decide">${escapeHtml(t('decideProtest', lang))}</button>`;
+  }
+  const votes = t('protestVotes', lang)
+    .replace('{for}', String(decision.votesFor))
+    .replace('{against}', String(decision.votesAgainst))
+    .replace('{abstentions}', String(decision.abstentions));
+  return `
+    <div class="protest-decision">
+      <div class="protest-votes">${escapeHtml(votes)}</div>
+      <div class="protest-rationale">${escapeHtml(decision.rationale)}</div>
+      <div class="protest-meta">${escapeHtml(decision.decidedBy)} · ${escapeHtml(formatDateTime(decision.decidedAt, lang))}</div>
+    </div>`;
+}
+
+function renderEvidence(protest: Protest, lang: Language): string {
+  const note = protest.evidenceNote
+    ? `<div class="protest-evidence-note">${protest.evidenceNoteSource === 'voice' ? '🎤 ' : ''}${escapeHtml(protest.evidenceNote)}</div>`
+    : '';
+  if (protest.photoCount === 0) return note;
+
+  const photos = loadedPhotos.get(protest.id);
+  const photoHtml = photos
+    ? `<div class="protest-photos">${photos
+        .map(
+          (src) =>
+            `<img class="protest-photo" src="${escapeAttr(src)}" alt="${escapeAttr(t('protestEvidencePhotos', lang))}">`,
+        )
+        .join('')}</div>`
+    : `<button type="button" class="course-map-btn secondary" data-action="show-evidence">${escapeHtml(t('showEvidence', lang).replace('{count}', String(protest.photoCount)))}</button>`;
+  return note + photoHtml;
+}
+
+function renderProtest(protest: Protest, lang: Language): string {
+  const outcome = protest.decision?.outcome;
+  const statusKey =
+    outcome === 'upheld'
+      ? 'protestUpheld'
+      : outcome === 'rejected'
+        ? 'protestRejected'
+        : 'protestOpen';
+  return `
+    <div class="protest-item ${outcome ?? 'open'}" role="listitem" data-protest-id="${escapeAttr(protest.id)}">
+      <div class="protest-item-header">
+        <span class="protest-bib">#${escapeHtml(protest.bib.padStart(3, '0'))}</span>
+        <span class="protest-run">${escapeHtml(getRunLabel(protest.run, lang))}</span>
+        <span class="protest-target">${escapeHtml(describeTarget(protest, lang))}</span>
+        <span class="protest-status-badge">${escapeHtml(t(statusKey, lang))}</span>
+      </div>
+      <div class="protest-meta">${escapeHtml(protest.filedBy)} · ${escapeHtml(formatDateTime(protest.filedAt, lang))}</div>
+      <div class="protest-reason">${escapeHtml(protest.reason)}</div>
+      ${renderEvidence(protest, lang)}
+      ${renderDecision(protest, lang)}
+    </div>`;
+}
+
+/**
+ * Render the protest list (open protests first) and the deadline per run
+ */
+function updateProtestsList(): void {
+  const lang = store.getState().currentLang;
+
+  const deadlinesEl = document.getElementById('protest-deadlines-list');
+  if (deadlinesEl) {
+    const deadlines = store.getState().protestDeadlines;
+    deadlinesEl.innerHTML = $runs.value
+      .map((run) => {
+        const deadline = deadlines[String(run)];
+        return `
+        <label class="penalty-rule-row protest-deadline-row" data-run="${run}">
+          <span class="penalty-rule-category">${escapeHtml(getRunLabel(run, lang))}</span>
+          <input type="datetime-local" class="text-input protest-deadline-input" value="${deadline !== undefined ? toDateTimeLocal(deadline) : ''}" aria-label="${escapeAttr(`${t('protestDeadline', lang)} ${getRunLabel(run, lang)}`)}">
+        </label>`;
+      })
+      .join('');
+  }
+
+  const listEl = document.getElementById('protests-list');
+  if (!listEl) return;
+
+  const protests = [...store.getState().protests].sort(
+    (a, b) => Number(!!a.decision) - Number(!!b.decision),
+  );
+  listEl.innerHTML =
+    protests.length === 0
+      ? `<div class="clock-health-empty">${escapeHtml(t('noProtests', lang))}</div>`
+      : protests.map((protest) => renderProtest(protest, lang)).join('');
+}
+
+// ===== Filing =====
+
+/**
+ * Fill the target select with the bib's faults and times in the run
+ */
+function updateTargetOptions(): void {
+  const select = getInput<HTMLSelectElement>('protest-target-select');
+  if (!select) return;
+
+  const state = store.getState();
+  const lang = state.currentLang;
+  const bib = (getInput('protest-bib-input')?.value ?? '').padStart(3, '0');
+  const run = Number(getInput<HTMLSelectElement>('protest-run-select')?.value);
+
+  const faults = state.faultEntries.filter(
+    (f) => f.bib === bib && f.run === run && !f.markedForDeletion,
+  );
+  const entries = state.entries.filter((e) => e.bib === bib && e.run === run);
+
+  const options = [
+    ...faults.map(
+      (f) =>
+        `<option value="fault:${escapeAttr(f.id)}">${escapeHtml(`${t('gate', lang)} ${f.gateNumber} · ${getFaultTypeLabel(f.faultType, lang)} · ${f.deviceName}`)}</option>`,
+    ),
+    ...entries.map(
+      (e) =>
+        `<option value="entry:${escapeAttr(e.id)}">${escapeHtml(`${getPointLabel(e.point, lang)} · ${new Date(e.timestamp).toLocaleTimeString(getLocale(lang))} · ${t(e.status, lang)}`)}</option>`,
+    ),
+  ];
+  select.innerHTML =
+    options.length > 0
+      ? options.join('')
+      : `<option value="">${escapeHtml(t('protestTargetNone', lang))}</option>`;
+  updateRequestedStatusVisibility();
+}
+
+function updateRequestedStatusVisibility(): void {
+  const target = getInput<HTMLSelectElement>('protest-target-select')?.value;
+  const row = document.getElementById('protest-status-row');
+  if (row) row.hidden = !target?.startsWith('entry:');
+}
+
+function updatePhotoCount(): void {
+  const countEl = document.getElementById('protest-photo-count');
+  if (countEl) {
+    countEl.textContent = `${pendingPhotos.length}/${MAX_PROTEST_PHOTOS}`;
+  }
+}
+
+/**
+ * Downscale a picked image to a JPEG data URL
+ */
+async function readEvidencePhoto(file: File): Promise<string> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    const scale = Math.min(
+      1,
+      EVIDENCE_PHOTO_MAX_SIZE / Math.max(bitmap.width, bitmap.height),
+    );
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas not available');
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', EVIDENCE_PHOTO_QUALITY);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function handlePhotosPicked(input: HTMLInputElement): Promise<void> {
+  const lang = store.getState().currentLang;
+  const files = Array.from(input.files ?? []);
+  input.value = '';
+
+  for (const file of files) {
+    if (pendingPhotos.length >= MAX_PROTEST_PHOTOS) {
+      showToast(
+        t('protestPhotoLimit', lang).replace(
+          '{count}',
+          String(MAX_PROTEST_PHOTOS),
+        ),
+        'warning',
+      );
+      break;
+    }
+    try {
+      pendingPhotos.push(await readEvidencePhoto(file));
+    } catch (error) {
+      logger.warn('Evidence photo could not be read:', error);
+      showToast(t('protestPhotoFailed', lang), 'warning');
+    }
+  }
+  updatePhotoCount();
+}
+
+function stopDictation(): void {
+  if (unsubscribeDictation.length === 0) return;
+  voiceNoteService.stop();
+  for (const unsubscribe of unsubscribeDictation) unsubscribe();
+  unsubscribeDictation = [];
+  const micBtn = document.getElementById('protest-evidence-mic-btn');
+  micBtn?.classList.remove('recording');
+  micBtn?.setAttribute('aria-pressed', 'false');
+  voiceModeService.resume();
+}
+
+/**
+ * Dictate the evidence note (e.g. a witness statement) with voice input
+ */
+function toggleDictation(): void {
+  const lang = store.getState().currentLang;
+  if (unsubscribeDictation.length > 0) {
+    stopDictation();
+    return;
+  }
+  if (!voiceNoteService.isSupported()) {
+    showToast(t('voiceNoteUnsupported', lang), 'warning');
+    return;
+  }
+
+  voiceModeService.pause();
+  unsubscribeDictation = [
+    voiceNoteService.onStatusChange((status) => {
+      if (status === 'error') {
+        showToast(t('voiceNoteError', lang), 'warning');
+        stopDictation();
+      }
+    }),
+    voiceNoteService.onTranscript((transcript, isFinal) => {
+      const textarea = getInput<HTMLTextAreaElement>('protest-evidence-note');
+      if (!isFinal || !textarea) return;
+      textarea.value = (
+        textarea.value ? `${textarea.value} ${transcript}` : transcript
+      ).slice(0, MAX_PROTEST_TEXT_LENGTH);
+      evidenceNoteSource = 'voice';
+    }),
+  ];
+
+  if (voiceNoteService.start()) {
+    const micBtn = document.getElementById('protest-evidence-mic-btn');
+    micBtn?.classList.add('recording');
+    micBtn?.setAttribute('aria-pressed', 'true');
+    feedbackTap();
+  } else {
+    stopDictation();
+  }
+}
+
+function openProtestModal(): void {
+  const state = store.getState();
+  const lang = state.currentLang;
+  if (!state.settings.sync || !state.raceId) {
+    showToast(t('protestRequiresSync', lang), 'warning');
+    return;
+  }
+
+  pendingPhotos = [];
+  evidenceNoteSource = 'manual';
+  for (const id of [
+    'protest-bib-input',
+    'protest-filed-by-input',
+    'protest-reason',
+    'protest-evidence-note',
+  ]) {
+    const field = getInput<HTMLInputElement | HTMLTextAreaElement>(id);
+    if (field) field.value = '';
+  }
+
+  const runSelect = getInput<HTMLSelectElement>('protest-run-select');
+  if (runSelect) {
+    runSelect.innerHTML = $runs.value
+      .map(
+        (run) =>
+          `<option value="${run}"${run === state.selectedRun ? ' selected' : ''}>${escapeHtml(getRunLabel(run, lang))}</option>`,
+      )
+      .join('');
+  }
+  const statusSelect = getInput<HTMLSelectElement>('protest-status-select');
+  if (statusSelect) {
+    statusSelect.innerHTML = REQUESTED_STATUSES.map(
+      (status) =>
+        `<option value="${status}">${escapeHtml(t(status, lang))}</option>`,
+    ).join('');
+  }
+
+  updateTargetOptions();
+  updatePhotoCount();
+  openModal(document.getElementById('protest-modal'));
+}
+
+/**
+ * Build the protest from the filing dialog (null when incomplete)
+ */
+function readProtestForm(): Protest | null {
+  const state = store.getState();
+  const bib = (getInput('protest-bib-input')?.value.trim() ?? '').padStart(
+    3,
+    '0',
+  );
+  const run = Number(
+    getInput<HTMLSelectElement>('protest-run-select')?.value,
+  ) as Run;
+  const target = getInput<HTMLSelectElement>('protest-target-select')?.value;
+  const filedBy = getInput('protest-filed-by-input')?.value.trim() ?? '';
+  const reason =
+    getInput<HTMLTextAreaElement>('protest-reason')?.value.trim() ?? '';
+  const evidenceNote =
+    getInput<HTMLTextAreaElement>('protest-evidence-note')?.value.trim() ?? '';
+  if (!target || !filedBy || !reason || bib === '000') return null;
+
+  const [targetType, targetId] = target.split(/:(.*)/s) as [string, string];
+  const protest: Protest = {
+    id: generateEntryId(state.deviceId),
+    bib,
+    run,
+    targetType: targetType === 'fault' ? 'fault' : 'entry',
+    targetId,
+    filedBy,
+    filedAt: new Date().toISOString(),
+    reason,
+    photoCount: pendingPhotos.length,
+    recordedBy: state.deviceName,
+    recordedByDeviceId: state.deviceId,
+  };
+  if (evidenceNote) {
+    protest.evidenceNote = evidenceNote;
+    protest.evidenceNoteSource = evidenceNoteSource;
+  }
+
+  if (protest.targetType === 'fault') {
+    const fault = state.faultEntries.find((f) => f.id === targetId);
+    if (!fault) return null;
+    protest.fault = {
+      gateNumber: fault.gateNumber,
+      faultType: fault.faultType,
+      deviceName: fault.deviceName,
+    };
+  } else {
+    const entry = state.entries.find((e) => e.id === targetId);
+    if (!entry) return null;
+    protest.currentStatus = entry.status;
+    protest.requestedStatus = getInput<HTMLSelectElement>(
+      'protest-status-select',
+    )?.value as EntryStatus;
+  }
+  return protest;
+}
+
+async function submitProtest(): Promise<void> {
+  const lang = store.getState().currentLang;
+  const protest = readProtestForm();
+  if (!protest) {
+    showToast(t('protestIncomplete', lang), 'warning');
+    return;
+  }
+  if (isDeadlinePassed(protest.run)) {
+    showToast(
+      t('protestDeadlinePassed', lang).replace(
+        '{run}',
+        getRunLabel(protest.run, lang),
+      ),
+      'warning',
+    );
+    return;
+  }
+
+  stopDictation();
+  const filed = await syncService.sendProtestToCloud(protest, pendingPhotos);
+  if (!filed) {
+    showToast(t('protestFileFailed', lang), 'error');
+    return;
+  }
+
+  pendingPhotos = [];
+  closeModal(document.getElementById('protest-modal'));
+  feedbackSuccess();
+  showToast(t('protestFiled', lang), 'success');
+}
+
+// ===== Jury decision =====
+
+function openDecisionModal(protestId: string): void {
+  const protest = store.getState().protests.find((p) => p.id === protestId);
+  const modal = document.getElementById('protest-decision-modal');
+  if (!protest || protest.decision || !modal) return;
+
+  const lang = store.getState().currentLang;
+  const details = document.getElementById('protest-decision-details');
+  if (details) {
+    details.innerHTML = `
+      <div>#${escapeHtml(protest.bib.padStart(3, '0'))} · ${escapeHtml(getRunLabel(protest.run, lang))} · ${escapeHtml(describeTarget(protest, lang))}</div>
+      <div class="protest-reason">${escapeHtml(protest.reason)}</div>`;
+  }
+  for (const id of [
+    'protest-votes-for',
+    'protest-votes-against',
+    'protest-abstentions',
+    'protest-rationale',
+  ]) {
+    const field = getInput<HTMLInputElement | HTMLTextAreaElement>(id);
+    if (field) field.value = '';
+  }
+
+  setModalContext(modal, { protestId });
+  openModal(modal);
+}
+
+/**
+ * Report how the server carried out an upheld protest: the contested fault
+ * is reversed or the racer's status changed on the stored item, and every
+ * device receives the change through sync. Rejected protests change nothing.
+ */
+function reportProtestDecision(protest: Protest, applied: boolean): void {
+  if (protest.decision?.outcome !== 'upheld') return;
+  const lang = store.getState().currentLang;
+
+  if (!applied) {
+    showToast(t('protestTargetMissing', lang), 'warning');
+    return;
+  }
+  if (protest.targetType === 'fault') {
+    showToast(t('protestFaultReversed', lang), 'success');
+  } else if (protest.requestedStatus) {
+    showToast(
+      t('protestStatusChanged', lang).replace(
+        '{status}',
+        t(protest.requestedStatus, lang),
+      ),
+      'success',
+    );
+  }
+}
+
+async function submitDecision(): Promise<void> {
+  const lang = store.getState().currentLang;
+  const modal = document.getElementById('protest-decision-modal');
+  const protestId = modal
+    ? getModalContext<{ protestId: string }>(modal)?.protestId
+    : undefined;
+  if (!protestId) return;
+
+  const readCount = (id: string) => {
+    const value = getInput(id)?.value ?? '';
+    const count = Number(value);
+    return value !== '' && Number.isInteger(count) && count >= 0 && count <= 99
+      ? count
+      : null;
+  };
+  const votesFor = readCount('protest-votes-for');
+  const votesAgainst = readCount('protest-votes-against');
+  const abstentions = readCount('protest-abstentions') ?? 0;
+  const rationale =
+    getInput<HTMLTextAreaElement>('protest-rationale')?.value.trim() ?? '';
+  const outcome = getInput<HTMLSelectElement>('protest-outcome-select')
+    ?.value as ProtestOutcome;
+  if (votesFor === null || votesAgainst === null || !rationale) {
+    showToast(t('protestDecisionIncomplete', lang), 'warning');
+    return;
+  }
+  if (outcome !== getProtestOutcome(votesFor, votesAgainst)) {
+    showToast(t('protestOutcomeMismatch', lang), 'warning');
+    return;
+  }
+
+  const decided = await syncService.sendProtestDecision(protestId, {
+    outcome,
+    votesFor,
+    votesAgainst,
+    abstentions,
+    rationale,
+  });
+  if (!decided) {
+    showToast(t('protestDecisionFailed', lang), 'error');
+    // Show the decision another device may have recorded
+    void syncService.fetchProtests();
+    return;
+  }
+
+  closeModal(modal);
+  feedbackSuccess();
+  showToast(t('protestDecided', lang), 'success');
+  reportProtestDecision(decided.protest, decided.applied);
+}
+
+async function showEvidencePhotos(protest: Protest): Promise<void> {
+  const photos: string[] = [];
+  for (let index = 0; index < protest.photoCount; index++) {
+    const photo = await syncService.fetchProtestPhoto(protest.id, index);
+    if (photo) photos.push(photo);
+  }
+  if (photos.length === 0) {
+    showToast(t('protestPhotoFailed', store.getState().currentLang), 'warning');
+    return;
+  }
+  loadedPhotos.set(protest.id, photos);
+  updateProtestsList();
+}
+
+/**
+ * Initialize the protests section; onChange runs after a deadline was edited
+ * here (the Chief Judge view uploads the race config)
+ */
+export function initProtests(onChange: () => void): void {
+  cleanupProtests();
+  onDeadlineChange = onChange;
+
+  const fileBtn = document.getElementById('file-protest-btn');
+  if (fileBtn) {
+    listeners.add(fileBtn, 'click', openProtestModal);
+  }
+
+  const deadlinesEl = document.getElementById('protest-deadlines-list');
+  if (deadlinesEl) {
+    listeners.add(deadlinesEl, 'change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const run = Number(
+        input.closest<HTMLElement>('[data-run]')?.dataset.run,
+      ) as Run;
+      if (!run) return;
+      const deadline = input.value ? new Date(input.value).getTime() : null;
+      store.setProtestDeadline(
+        run,
+        deadline !== null && !Number.isNaN(deadline) ? deadline : null,
+      );
+      feedbackTap();
+      onDeadlineChange?.();
+    });
+  }
+
+  const listEl = document.getElementById('protests-list');
+  if (listEl) {
+    listeners.add(listEl, 'click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target
+        .closest<HTMLElement>('[data-action]')
+        ?.getAttribute('data-action');
+      const protestId =
+        target.closest<HTMLElement>('[data-protest-id]')?.dataset.protestId;
+      if (!action || !protestId) return;
+
+      if (action === 'decide') {
+        openDecisionModal(protestId);
+      } else if (action === 'show-evidence') {
+        const protest = store
+          .getState()
+          .protests.find((p) => p.id === protestId);
+        if (protest) {
+          showEvidencePhotos(protest).catch((error) => {
+            logger.error('Evidence photo download failed:', error);
+          });
+        }
+      }
+    });
+  }
+
+  // Filing dialog
+  for (const id of ['protest-bib-input', 'protest-run-select']) {
+    const field = document.getElementById(id);
+    if (field) {
+      listeners.add(field, id.endsWith('input') ? 'input' : 'change', () =>
+        updateTargetOptions(),
+      );
+    }
+  }
+  const targetSelect = document.getElementById('protest-target-select');
+  if (targetSelect) {
+    listeners.add(targetSelect, 'change', updateRequestedStatusVisibility);
+  }
+  const photoBtn = document.getElementById('protest-add-photo-btn');
+  const photoInput = getInput('protest-photos-input');
+  if (photoBtn && photoInput) {
+    listeners.add(photoBtn, 'click', () => photoInput.click());
+    listeners.add(photoInput, 'change', () => {
+      handlePhotosPicked(photoInput).catch((error) => {
+        logger.error('Evidence photo import failed:', error);
+      });
+    });
+  }
+  const micBtn = document.getElementById('protest-evidence-mic-btn');
+  if (micBtn) {
+    listeners.add(micBtn, 'click', toggleDictation);
+  }
+  const protestModal = document.getElementById('protest-modal');
+  if (protestModal) {
+    // Stop dictating when the dialog is dismissed
+    listeners.add(protestModal, 'click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target === protestModal || target.closest('[data-action="cancel"]')) {
+        stopDictation();
+      }
+    });
+  }
+  const submitBtn = document.getElementById('submit-protest-btn');
+  if (submitBtn) {
+    listeners.add(submitBtn, 'click', () => {
+      submitProtest().catch((error) => {
+        logger.error('Protest filing failed:', error);
+      });
+    });
+  }
+
+  // Decision dialog
+  const decisionBtn = document.getElementById('confirm-protest-decision-btn');
+  if (decisionBtn) {
+    listeners.add(decisionBtn, 'click', () => {
+      submitDecision().catch((error) => {
+        logger.error('Protest decision failed:', error);
+      });
+    });
+  }
+
+  effectDisposers.push(
+    // Protests arrive with fault polling, deadlines with the race config
+    effect(() => {
+      void $protests.value;
+      void $protestDeadlines.value;
+      void $runs.value;
+      if ($isChiefJudgeView.value) {
+        updateProtestsList();
+      }
+    }),
+    // Catch up on protests filed elsewhere when the panel opens
+    effect(() => {
+      if ($isChiefJudgeView.value) {
+        void syncService.fetchProtests();
+      }
+    }),
+  );
+}
+
+/**
+ * Remove protest listeners, effects and pending dialog state
+ */
+export function cleanupProtests(): void {
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  listeners.removeAll();
+  stopDictation();
+  pendingPhotos = [];
+  loadedPhotos.clear();
+  evidenceNoteSource = 'manual';
+  onDeadlineChange = null;
+}
@@ -10,7 +10,9 @@ import {
   clearAuthToken,
   exchangePinForToken,
   getAuthHeaders,
+  getTokenRaceId,
   hasAuthToken,
+  isTokenValidForRace,
 } from '../../services/auth';
 import { store } from '../../store';
 import type { Language } from '../../types';
@@ -24,6 +26,7 @@ const listeners = new ListenerManager();
 // PIN verification context - consolidates resolver and type into single object
 interface PinVerificationContext {
   type: 'raceJoin' | 'chiefJudge';
+  raceId?: string; // Race to authenticate for (race PINs take precedence)
   resolve: (verified: boolean) => void;
 }
 let pinVerification: PinVerificationContext | null = null;
@@ -40,12 +43,14 @@ export function isAuthenticated(): boolean {
  * Returns true if authentication succeeded
  * @param pin - The 4-digit PIN
  * @param role - Optional role to request ('timer' | 'gateJudge' | 'chiefJudge')
+ * @param raceId - Optional race to authenticate for (uses its race PINs if set)
  */
 export async function authenticateWithPin(
   pin: string,
   role?: 'timer' | 'gateJudge' | 'chiefJudge',
+  raceId?: string,
 ): Promise<{ success: boolean; error?: string; isNewPin?: boolean }> {
-  const result = await exchangePinForToken(pin, role);
+  const result = await exchangePinForToken(pin, role, raceId);
   if (result.success) {
     updatePinStatusDisplay();
   }
@@ -81,6 +86,26 @@ export function updatePinStatusDisplay(): void {
       ? t('changePin', lang)
       : t('setPin', lang);
   }
+
+  updateRacePinStatus(lang);
+}
+
+/**
+ * Update race PIN status: whether this session uses the race PINs
+ * of the current race or the global PINs
+ */
+function updateRacePinStatus(lang: Language): void {
+  const statusEl = document.getElementById('race-pin-status');
+  if (!statusEl) return;
+
+  const { raceId } = store.getState();
+  if (!raceId) {
+    statusEl.textContent = t('racePinsNoRace', lang);
+  } else if (getTokenRaceId() === raceId.toLowerCase()) {
+    statusEl.textContent = t('racePinsActive', lang);
+  } else {
+    statusEl.textContent = t('racePinsGlobal', lang);
+  }
 }
 
 /**
@@ -307,16 +332,149 @@ async function handleSavePin(): Promise<void> {
   }
 }
 
+/**
+ * Handle race PINs button click - opens the race PINs modal for the current race
+ */
+function handleRacePinsClick(): void {
+  const lang = store.getState().currentLang;
+  const modal = document.getElementById('race-pins-modal');
+  const textEl = document.getElementById('race-pins-modal-text');
+  const pinInput = document.getElementById(
+    'race-pin-input',
+  ) as HTMLInputElement;
+  const chiefPinInput = document.getElementById(
+    'race-chief-pin-input',
+  ) as HTMLInputElement;
+  const formatError = document.getElementById('race-pin-format-error');
+
+  if (!modal) return;
+
+  const { raceId } = store.getState();
+  if (!raceId) {
+    showToast(t('racePinsNoRace', lang), 'warning');
+    feedbackWarning();
+    return;
+  }
+
+  if (textEl) {
+    textEl.textContent = `${t('racePinsInfo', lang)} (${raceId})`;
+  }
+  if (pinInput) pinInput.value = '';
+  if (chiefPinInput) chiefPinInput.value = '';
+  if (formatError) formatError.style.display = 'none';
+
+  openModal(modal);
+  pinInput?.focus();
+}
+
+/**
+ * Handle save race PINs button click
+ * Sets the race PIN and Chief Judge PIN of the current race, then switches
+ * to a Chief Judge token scoped to that race
+ */
+async function handleSaveRacePins(): Promise<void> {
+  const lang = store.getState().currentLang;
+  const pinInput = document.getElementById(
+    'race-pin-input',
+  ) as HTMLInputElement;
+  const chiefPinInput = document.getElementById(
+    'race-chief-pin-input',
+  ) as HTMLInputElement;
+  const saveBtn = document.getElementById(
+    'save-race-pins-btn',
+  ) as HTMLButtonElement;
+  const formatError = document.getElementById('race-pin-format-error');
+
+  if (formatError) formatError.style.display = 'none';
+
+  const { raceId } = store.getState();
+  if (!raceId) {
+    showToast(t('racePinsNoRace', lang), 'warning');
+    feedbackWarning();
+    return;
+  }
+
+  const newPin = pinInput?.value || '';
+  const newChiefPin = chiefPinInput?.value || '';
+
+  if (!isValidPin(newPin) || !isValidPin(newChiefPin)) {
+    if (formatError) formatError.style.display = 'block';
+    feedbackWarning();
+    return;
+  }
+
+  // Show loading state
+  const originalBtnText = saveBtn?.textContent || '';
+  if (saveBtn) {
+    saveBtn.disabled = true;
+    saveBtn.textContent = t('saving', lang);
+  }
+
+  try {
+    const response = await fetch('/api/v1/admin/pin', {
+      method: 'POST',
+      headers: {
+        ...getAuthHeaders(),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ raceId, newPin, newChiefPin }),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      // Only the Chief Judge (of this race, once it has PINs) may set them
+      showToast(t('racePinsForbidden', lang), 'error');
+      feedbackWarning();
+      return;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    // Replace the global token with one scoped to this race
+    clearAuthToken();
+    const authResult = await authenticateWithPin(
+      newChiefPin,
+      'chiefJudge',
+      raceId,
+    );
+
+    if (!authResult.success) {
+      showToast(t('pinSyncFailed', lang), 'error');
+      feedbackWarning();
+      return;
+    }
+
+    closeModal(document.getElementById('race-pins-modal'));
+    showToast(t('racePinsSaved', lang), 'success');
+    feedbackSuccess();
+  } catch (error) {
+    logWarning('Admin', 'handleSaveRacePins', error, 'pinSyncFailed');
+    showToast(t('pinSyncFailed', lang), 'error');
+    feedbackWarning();
+  } finally {
+    if (saveBtn) {
+      saveBtn.disabled = false;
+      saveBtn.textContent = originalBtnText;
+    }
+  }
+}
+
 /**
  * Show PIN verification modal and wait for result
  * Used when joining a race with sync enabled
- * Skips verification if user already has a valid auth token (previously authenticated)
+ * Skips verification if user already has a valid auth token for the race
+ * (previously authenticated)
  */
-export function verifyPinForRaceJoin(lang: Language): Promise<boolean> {
+export function verifyPinForRaceJoin(
+  lang: Language,
+  raceId: string = store.getState().raceId,
+): Promise<boolean> {
   return new Promise((resolve) => {
     // If already authenticated with valid token, allow without verification
-    // Token proves user previously entered correct PIN
-    if (hasAuthToken()) {
+    // Token proves user previously entered correct PIN (race-scoped tokens
+    // only count for their own race)
+    if (hasAuthToken() && (!raceId || isTokenValidForRace(raceId))) {
       resolve(true);
       return;
     }
@@ -341,7 +499,11 @@ export function verifyPinForRaceJoin(lang: Language): Promise<boolean> {
     pinInput.value = '';
 
     // Store verification context
-    pinVerification = { type: 'raceJoin', resolve };
+    pinVerification = {
+      type: 'raceJoin',
+      raceId: raceId || undefined,
+      resolve,
+    };
 
     openModal(modal);
     setTimeout(() => pinInput.focus(), 100);
@@ -375,7 +537,11 @@ export function verifyPinForChiefJudge(lang: Language): Promise<boolean> {
     pinInput.value = '';
 
     // Store verification context with chiefJudge type
-    pinVerification = { type: 'chiefJudge', resolve };
+    pinVerification = {
+      type: 'chiefJudge',
+      raceId: store.getState().raceId || undefined,
+      resolve,
+    };
 
     openModal(modal);
     setTimeout(() => pinInput.focus(), 100);
@@ -399,7 +565,11 @@ export async function handleRaceJoinPinVerify(): Promise<void> {
   // Authenticate via JWT token exchange
   // Use chiefJudge role if this is for Chief Judge mode verification
   const role = pinVerification.type === 'chiefJudge' ? 'chiefJudge' : undefined;
-  const result = await authenticateWithPin(enteredPin, role);
+  const result = await authenticateWithPin(
+    enteredPin,
+    role,
+    pinVerification.raceId,
+  );
 
   if (result.success) {
     // PIN correct
@@ -474,12 +644,24 @@ export function initPinManagement(): void {
     listeners.add(savePinBtn, 'click', handleSavePin);
   }
 
+  // Race PINs button and save button
+  const racePinsBtn = document.getElementById('race-pins-btn');
+  if (racePinsBtn) {
+    listeners.add(racePinsBtn, 'click', handleRacePinsClick);
+  }
+  const saveRacePinsBtn = document.getElementById('save-race-pins-btn');
+  if (saveRacePinsBtn) {
+    listeners.add(saveRacePinsBtn, 'click', handleSaveRacePins);
+  }
+
   // Filter numeric input for all PIN fields
   const pinInputs = [
     'admin-pin-verify-input',
     'current-pin-input',
     'new-pin-input',
     'confirm-pin-input',
+    'race-pin-input',
+    'race-chief-pin-input',
   ];
   pinInputs.forEach((id) => {
     const input = document.getElementById(id) as HTMLInputElement;
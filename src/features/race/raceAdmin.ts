@@ -1,6 +1,7 @@
 /**
  * Race Administration Module
- * Handles race CRUD operations, race list management, and race deletion
+ * Handles race CRUD operations, race list management, race definitions
+ * (name, date, venue, discipline, runs, gates, jury, penalty) and race deletion
  */
 
 import { showToast } from '../../components';
@@ -8,8 +9,22 @@ import { t } from '../../i18n/translations';
 import { feedbackDelete, feedbackWarning } from '../../services';
 import { getAuthHeaders } from '../../services/auth';
 import { store } from '../../store';
-import type { Language, RaceInfo } from '../../types';
-import { fetchWithTimeout, logError } from '../../utils';
+import type {
+  Discipline,
+  JuryMember,
+  JuryRole,
+  Language,
+  RaceInfo,
+} from '../../types';
+import {
+  DEFAULT_RUN_COUNT,
+  fetchWithTimeout,
+  isValidRaceId,
+  logError,
+  MAX_GATE_COUNT,
+  MAX_RUNS,
+  sanitizeRaceDefinition,
+} from '../../utils';
 import { ListenerManager } from '../../utils/listenerManager';
 import { logger } from '../../utils/logger';
 import { closeModal, openModal } from '../modals';
@@ -20,9 +35,15 @@ const listeners = new ListenerManager();
 
 // Admin API configuration
 const ADMIN_API_BASE = '/api/v1/admin/races';
+const RACE_DEFINITION_API_BASE = '/api/v1/admin/racedefinition';
+
+// Defaults of a new race definition
+const DEFAULT_GATE_COUNT = 40;
+const DEFAULT_PENALTY_SECONDS = 5;
 
 // Module state
 let pendingRaceDelete: string | null = null;
+let editingRaceId: string | null = null;
 let raceListDelegated = false;
 
 /**
@@ -157,11 +178,16 @@ async function loadRaceList(): Promise<void> {
       raceListDelegated = true;
       listeners.add(listContainer, 'click', (e: Event) => {
         const target = e.target as HTMLElement;
-        const deleteBtn = target.closest('.race-delete-btn');
-        if (!deleteBtn) return;
-        const raceItem = deleteBtn.closest('[data-race-id]');
+        const actionBtn = target.closest('.race-delete-btn, .race-edit-btn');
+        if (!actionBtn) return;
+        const raceItem = actionBtn.closest('[data-race-id]');
         const raceId = raceItem?.getAttribute('data-race-id');
-        if (raceId) promptDeleteRace(raceId);
+        if (!raceId) return;
+        if (actionBtn.classList.contains('race-edit-btn')) {
+          openRaceDefinitionModal(raceId);
+        } else {
+          promptDeleteRace(raceId);
+        }
       });
     }
   } catch (error) {
@@ -185,7 +211,9 @@ function createRaceItem(race: RaceInfo, lang: Language): HTMLElement {
 
   const raceIdEl = document.createElement('span');
   raceIdEl.className = 'race-id';
-  raceIdEl.textContent = race.raceId.toUpperCase();
+  raceIdEl.textContent = race.name
+    ? `${race.raceId.toUpperCase()} · ${race.name}`
+    : race.raceId.toUpperCase();
 
   const meta = document.createElement('span');
   meta.className = 'race-meta';
@@ -193,21 +221,253 @@ function createRaceItem(race: RaceInfo, lang: Language): HTMLElement {
     race.entryCount === 1 ? t('entry', lang) : t('entries', lang);
   const devicesText =
     race.deviceCount === 1 ? t('device', lang) : t('devices', lang);
-  meta.textContent = `${race.entryCount} ${entriesText}, ${race.deviceCount} ${devicesText}`;
+  const definitionText = [
+    race.discipline ? t(`discipline${race.discipline}`, lang) : '',
+    race.date ?? '',
+    race.venue ?? '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+  meta.textContent = `${definitionText ? `${definitionText} – ` : ''}${race.entryCount} ${entriesText}, ${race.deviceCount} ${devicesText}`;
 
   info.appendChild(raceIdEl);
   info.appendChild(meta);
 
+  const actions = document.createElement('div');
+  actions.className = 'race-item-actions';
+
+  const editBtn = document.createElement('button');
+  editBtn.className = 'race-edit-btn';
+  editBtn.textContent = t('edit', lang);
+  editBtn.setAttribute('aria-label', t('editRace', lang));
+
   const deleteBtn = document.createElement('button');
   deleteBtn.className = 'race-delete-btn danger';
   deleteBtn.textContent = t('delete', lang);
 
+  actions.appendChild(editBtn);
+  actions.appendChild(deleteBtn);
+
   item.appendChild(info);
-  item.appendChild(deleteBtn);
+  item.appendChild(actions);
 
   return item;
 }
 
+/**
+ * Get an input of the race definition form
+ */
+function getFormInput<T extends HTMLInputElement | HTMLSelectElement>(
+  id: string,
+): T | null {
+  return document.getElementById(id) as T | null;
+}
+
+function showRaceDefinitionError(message: string | null): void {
+  const errorEl = document.getElementById('race-def-error');
+  if (!errorEl) return;
+  errorEl.textContent = message ?? '';
+  errorEl.style.display = message ? 'block' : 'none';
+}
+
+/**
+ * Fill the race definition form (empty form with defaults for a new race)
+ */
+function fillRaceDefinitionForm(
+  raceId: string,
+  data: {
+    definition?: unknown;
+    runCount?: number;
+    penalty?: { usePenaltyMode?: boolean; penaltySeconds?: number };
+  } = {},
+): void {
+  const definition = sanitizeRaceDefinition(data.definition);
+  const setValue = (id: string, value: string) => {
+    const input = getFormInput(id);
+    if (input) input.value = value;
+  };
+
+  setValue('race-def-id', raceId.toUpperCase());
+  setValue('race-def-name', definition?.name ?? '');
+  setValue('race-def-date', definition?.date ?? '');
+  setValue('race-def-venue', definition?.venue ?? '');
+  setValue('race-def-discipline', definition?.discipline ?? 'SL');
+  setValue('race-def-runs', String(data.runCount ?? DEFAULT_RUN_COUNT));
+  setValue(
+    'race-def-gates',
+    String(definition?.gateCount ?? DEFAULT_GATE_COUNT),
+  );
+  setValue('race-def-homologation', definition?.homologationNumber ?? '');
+  setValue(
+    'race-def-penalty-mode',
+    data.penalty?.usePenaltyMode === false ? 'dsq' : 'penalty',
+  );
+  setValue(
+    'race-def-penalty-seconds',
+    String(data.penalty?.penaltySeconds ?? DEFAULT_PENALTY_SECONDS),
+  );
+
+  document
+    .querySelectorAll<HTMLInputElement>(
+      '#race-definition-modal [data-jury-role]',
+    )
+    .forEach((input) => {
+      const role = input.getAttribute('data-jury-role');
+      input.value =
+        definition?.jury.find((member) => member.role === role)?.name ?? '';
+    });
+
+  // The race ID of an existing race cannot change
+  const idInput = getFormInput<HTMLInputElement>('race-def-id');
+  if (idInput) idInput.disabled = editingRaceId !== null;
+}
+
+/**
+ * Open the race definition form for an existing race (raceId) or a new race
+ */
+async function openRaceDefinitionModal(raceId: string | null): Promise<void> {
+  const modal = document.getElementById('race-definition-modal');
+  if (!modal) return;
+
+  editingRaceId = raceId;
+  showRaceDefinitionError(null);
+  fillRaceDefinitionForm(raceId ?? '');
+  openModal(modal);
+
+  if (!raceId) {
+    getFormInput<HTMLInputElement>('race-def-id')?.focus();
+    return;
+  }
+
+  try {
+    const response = await fetchWithTimeout(
+      `${RACE_DEFINITION_API_BASE}?raceId=${encodeURIComponent(raceId)}`,
+      { headers: getAuthHeaders() },
+      10000,
+    );
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    // Ignore the response if another race was opened meanwhile
+    const data = await response.json();
+    if (editingRaceId === raceId) fillRaceDefinitionForm(raceId, data);
+  } catch (error) {
+    logError('Admin', 'loadRaceDefinition', error, 'loadError');
+  }
+}
+
+/**
+ * Read the race definition form into a request body (null when invalid)
+ */
+function readRaceDefinitionForm(): {
+  raceId: string;
+  body: Record<string, unknown>;
+} | null {
+  const raceId = (getFormInput('race-def-id')?.value ?? '').trim();
+  const name = (getFormInput('race-def-name')?.value ?? '').trim();
+  if (!isValidRaceId(raceId) || !name) return null;
+
+  const readNumber = (id: string, min: number, max: number, fallback: number) =>
+    Math.max(
+      min,
+      Math.min(max, parseInt(getFormInput(id)?.value ?? '', 10) || fallback),
+    );
+  const readText = (id: string) => (getFormInput(id)?.value ?? '').trim();
+
+  const jury: JuryMember[] = [];
+  document
+    .querySelectorAll<HTMLInputElement>(
+      '#race-definition-modal [data-jury-role]',
+    )
+    .forEach((input) => {
+      const memberName = input.value.trim();
+      if (memberName) {
+        jury.push({
+          role: input.getAttribute('data-jury-role') as JuryRole,
+          name: memberName,
+        });
+      }
+    });
+
+  const date = readText('race-def-date');
+  const venue = readText('race-def-venue');
+  const homologationNumber = readText('race-def-homologation');
+
+  return {
+    raceId,
+    body: {
+      name,
+      ...(date ? { date } : {}),
+      ...(venue ? { venue } : {}),
+      discipline: (readText('race-def-discipline') || 'SL') as Discipline,
+      runCount: readNumber('race-def-runs', 1, MAX_RUNS, DEFAULT_RUN_COUNT),
+      gateCount: readNumber(
+        'race-def-gates',
+        1,
+        MAX_GATE_COUNT,
+        DEFAULT_GATE_COUNT,
+      ),
+      ...(homologationNumber ? { homologationNumber } : {}),
+      jury,
+      penalty: {
+        usePenaltyMode: readText('race-def-penalty-mode') !== 'dsq',
+        penaltySeconds: Math.max(
+          0,
+          Math.min(60, parseInt(readText('race-def-penalty-seconds'), 10) || 0),
+        ),
+      },
+      deviceName: store.getState().deviceName,
+    },
+  };
+}
+
+/**
+ * Save the race definition form (Chief Judge only on the server)
+ */
+async function handleSaveRaceDefinition(): Promise<void> {
+  const lang = store.getState().currentLang;
+  const form = readRaceDefinitionForm();
+  if (!form) {
+    showRaceDefinitionError(t('raceDefinitionInvalid', lang));
+    feedbackWarning();
+    return;
+  }
+
+  try {
+    const response = await fetchWithTimeout(
+      `${RACE_DEFINITION_API_BASE}?raceId=${encodeURIComponent(form.raceId)}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+        body: JSON.stringify(form.body),
+      },
+      10000,
+    );
+
+    if (response.status === 403) {
+      showRaceDefinitionError(t('raceDefinitionChiefJudgeOnly', lang));
+      feedbackWarning();
+      return;
+    }
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = await response.json();
+
+    // Apply right away when editing the race this device is on (other
+    // devices pick it up with the race config)
+    if (form.raceId.toLowerCase() === store.getState().raceId.toLowerCase()) {
+      store.setRaceDefinition(sanitizeRaceDefinition(data.definition));
+      if (typeof data.runCount === 'number') store.setRunCount(data.runCount);
+    }
+
+    closeModal(document.getElementById('race-definition-modal'));
+    editingRaceId = null;
+    showToast(t('raceDefinitionSaved', lang), 'success');
+    loadRaceList();
+  } catch (error) {
+    logError('Admin', 'saveRaceDefinition', error, 'operationFailed');
+  }
+}
+
 /**
  * Prompt to delete a race
  */
@@ -299,6 +559,19 @@ export function initRaceAdmin(): void {
     listeners.add(refreshRacesBtn, 'click', loadRaceList);
   }
 
+  // New race and race definition save buttons
+  const newRaceBtn = document.getElementById('new-race-btn');
+  if (newRaceBtn) {
+    listeners.add(newRaceBtn, 'click', () => openRaceDefinitionModal(null));
+  }
+
+  const saveRaceDefinitionBtn = document.getElementById(
+    'save-race-definition-btn',
+  );
+  if (saveRaceDefinitionBtn) {
+    listeners.add(saveRaceDefinitionBtn, 'click', handleSaveRaceDefinition);
+  }
+
   // Confirm delete race button
   const confirmDeleteRaceBtn = document.getElementById(
     'confirm-delete-race-btn',
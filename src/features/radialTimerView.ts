@@ -13,6 +13,7 @@ import {
   feedbackWarning,
   gpsService,
   photoStorage,
+  serverClockService,
   syncEntry,
 } from '../services';
 import { ambientModeService } from '../services/ambient';
@@ -21,23 +22,56 @@ import {
   $cloudDeviceCount,
   $entries,
   $gpsStatus,
+  $runs,
   $selectedPoint,
   $selectedRun,
   $settingsGps,
   $settingsSync,
+  $startOrder,
   $syncStatus,
+  $timingPoints,
   effect,
   store,
+  untracked,
 } from '../store';
 import type { Entry, Run, TimingPoint } from '../types';
-import { getElement, getPointLabel, logWarning } from '../utils';
+import {
+  getElement,
+  getPointLabel,
+  isIntermediatePoint,
+  logWarning,
+} from '../utils';
 import { formatTime } from '../utils/format';
 import { ListenerManager } from '../utils/listenerManager';
 import { logger } from '../utils/logger';
+import {
+  formatCountdown,
+  getUpcomingStarts,
+  type UpcomingStart,
+} from '../utils/startOrder';
 import {
   createTimestampEntry,
   isDuplicateEntry,
 } from '../utils/timestampRecorder';
+import { renderRunButtons } from '../utils/uiHelpers';
+import {
+  destroyStartOrderModal,
+  initStartOrderModal,
+  openStartOrderModal,
+} from './startOrderModal';
+
+/** CSS class of a timing point (all intermediate points share one style) */
+function getPointClass(point: TimingPoint): string {
+  if (point === 'S') return 'start';
+  if (point === 'F') return 'finish';
+  return 'intermediate';
+}
+
+// Countdown turns to the start color this long before a planned start
+const START_DUE_MS = 10000;
+
+// Racers shown in the start order panel (next up plus the following ones)
+const UPCOMING_STARTS_SHOWN = 3;
 
 /** Check if bib is all zeros (e.g., "0", "00", "000") */
 function isZeroBib(bib: string): boolean {
@@ -56,6 +90,7 @@ let frozenTime: string | null = null;
 let isInitialized = false;
 let effectDisposers: (() => void)[] = [];
 let confirmationTimeoutId: number | null = null;
+let nextStart: UpcomingStart | null = null;
 
 // Cached DOM queries for frequently-updated selectors
 let cachedPointBtns: Element[] = [];
@@ -86,6 +121,7 @@ export function initRadialTimerView(): void {
   initRadialTimeButton();
   initRadialClearButton();
   initRadialKeyboard();
+  initRadialStartOrder();
   updateRadialGpsStatus();
   updateRadialSyncStatus();
   updateRadialStatsDisplay();
@@ -108,10 +144,18 @@ export function initRadialTimerView(): void {
       void $cloudDeviceCount.value;
       updateRadialSyncStatus();
     }),
+    effect(() => {
+      void $timingPoints.value;
+      renderRadialIntermediatePoints();
+    }),
     effect(() => {
       void $selectedPoint.value;
       updateRadialTimingPointSelection();
     }),
+    effect(() => {
+      void $runs.value;
+      renderRadialRunButtons();
+    }),
     effect(() => {
       void $selectedRun.value;
       updateRadialRunSelection();
@@ -120,6 +164,14 @@ export function initRadialTimerView(): void {
       void $entries.value;
       updateRadialStatsDisplay();
     }),
+    effect(() => {
+      // Re-run when the plan, starts or timing point change (the selected
+      // run is tracked through $startOrder)
+      void $startOrder.value;
+      void $entries.value;
+      void $selectedPoint.value;
+      untracked(updateRadialStartOrder);
+    }),
     effect(() => {
       void $gpsStatus.value;
       updateRadialGpsStatus();
@@ -128,6 +180,8 @@ export function initRadialTimerView(): void {
 
   // Re-translate dynamic text and dial aria-labels when language changes
   listeners.add(window, 'settings-language-changed', () => {
+    renderRadialIntermediatePoints();
+    renderRadialRunButtons();
     updateRadialStatsDisplay();
     radialDial?.updateAriaLabels();
   });
@@ -173,6 +227,7 @@ function initRadialClock(): void {
 
   // Subscribe to tick updates to drive the radial time display
   clockTickUnsubscribe = radialClock.onTick((h, m, s, ms) => {
+    updateRadialCountdown();
     if (frozenTime) return;
     if (hmEl) hmEl.textContent = `${h}:${m}`;
     if (secEl) secEl.textContent = s;
@@ -258,8 +313,50 @@ function initRadialTimingPoints(): void {
     }
   });
 
-  // Cache buttons and set initial state
-  cachedPointBtns = Array.from(document.querySelectorAll('.radial-point-btn'));
+  // Render the race's intermediate points, cache buttons and set initial state
+  renderRadialIntermediatePoints();
+}
+
+/**
+ * Render buttons for the race's intermediate points between Start and Finish
+ */
+function renderRadialIntermediatePoints(): void {
+  const container = getElement('radial-timing-point');
+  if (!container) return;
+
+  const lang = store.getState().currentLang;
+  const finishBtn = container.querySelector('[data-point="F"]');
+  container
+    .querySelectorAll('.radial-point-btn.intermediate')
+    .forEach((btn) => btn.remove());
+
+  for (const point of $timingPoints.value.filter(isIntermediatePoint)) {
+    const btn = document.createElement('button');
+    btn.className = 'radial-point-btn intermediate';
+    btn.setAttribute('data-point', point);
+    btn.setAttribute('role', 'radio');
+    btn.setAttribute('aria-checked', 'false');
+    btn.setAttribute('aria-label', getPointLabel(point, lang));
+    btn.textContent = point;
+    container.insertBefore(btn, finishBtn);
+  }
+
+  cachedPointBtns = Array.from(container.querySelectorAll('.radial-point-btn'));
+  updateRadialTimingPointSelection();
+}
+
+/**
+ * Select the next intermediate point (wrapping), if the race has any
+ */
+function selectNextIntermediatePoint(): void {
+  const intermediates = $timingPoints.value.filter(isIntermediatePoint);
+  if (intermediates.length === 0) return;
+
+  const current = intermediates.indexOf(
+    store.getState().selectedPoint as (typeof intermediates)[number],
+  );
+  store.setSelectedPoint(intermediates[(current + 1) % intermediates.length]!);
+  feedbackTap();
   updateRadialTimingPointSelection();
 }
 
@@ -296,8 +393,26 @@ function initRadialRunSelector(): void {
     }
   });
 
-  // Cache buttons and set initial state
-  cachedRunBtns = Array.from(document.querySelectorAll('.radial-run-btn'));
+  // Render the race's runs, cache buttons and set initial state
+  renderRadialRunButtons();
+}
+
+/**
+ * Show a run button for each run of the race
+ */
+function renderRadialRunButtons(): void {
+  const container = getElement('radial-run-selector');
+  if (!container) return;
+
+  const lang = store.getState().currentLang;
+  renderRunButtons(
+    container,
+    '.radial-run-btn',
+    $runs.value,
+    (run) => `${t('runLabel', lang)} ${run}`,
+  );
+
+  cachedRunBtns = Array.from(container.querySelectorAll('.radial-run-btn'));
   updateRadialRunSelection();
 }
 
@@ -397,7 +512,13 @@ function initRadialKeyboard(): void {
       return;
     }
 
-    // S/F for timing points
+    // S/F for timing points, I cycles through intermediate points
+    if (e.key === 'i' || e.key === 'I') {
+      e.preventDefault();
+      selectNextIntermediatePoint();
+      return;
+    }
+
     if (e.key === 's' || e.key === 'S') {
       e.preventDefault();
       store.setSelectedPoint('S');
@@ -414,10 +535,12 @@ function initRadialKeyboard(): void {
       return;
     }
 
-    // L1/L2 run selection with Alt+1 or Alt+2 (to avoid conflict with bib input)
-    if (e.altKey && (e.code === 'Digit1' || e.code === 'Digit2')) {
+    // Run selection with Alt+1…9 (to avoid conflict with bib input)
+    const runMatch = e.altKey ? /^Digit([1-9])$/.exec(e.code) : null;
+    if (runMatch) {
       e.preventDefault();
-      const run = e.code === 'Digit1' ? 1 : 2;
+      const run = Number(runMatch[1]);
+      if (run > store.getState().runCount) return;
       store.setSelectedRun(run);
       feedbackTap();
       updateRadialRunSelection();
@@ -433,6 +556,113 @@ function initRadialKeyboard(): void {
   }) as EventListener);
 }
 
+/**
+ * Initialize the start order planning button and modal
+ */
+function initRadialStartOrder(): void {
+  const btn = getElement('radial-start-order-btn');
+  if (!btn) return;
+
+  listeners.add(btn, 'click', () => {
+    feedbackTap();
+    openStartOrderModal();
+  });
+  initStartOrderModal();
+}
+
+/**
+ * Bibs with a start time in a run (on any device)
+ */
+function getStartedBibs(entries: Entry[], run: Run): Set<string> {
+  return new Set(
+    entries
+      .filter((e) => e.point === 'S' && (e.run ?? 1) === run && e.bib)
+      .map((e) => e.bib),
+  );
+}
+
+/**
+ * Set the bib input, dial and bib display
+ */
+function setRadialBib(bib: string): void {
+  store.setBibInput(bib);
+  if (bib) {
+    radialDial?.setValue(bib);
+  } else {
+    radialDial?.clear();
+  }
+  updateRadialBibDisplay(bib);
+}
+
+/**
+ * Show the next racers of the planned start order while timing the start.
+ * An empty bib input is filled with the next racer.
+ */
+function updateRadialStartOrder(): void {
+  const panel = getElement('radial-start-order');
+  if (!panel) return;
+
+  const state = store.getState();
+  if (state.selectedPoint !== 'S') {
+    panel.style.display = 'none';
+    nextStart = null;
+    return;
+  }
+  panel.style.display = 'flex';
+
+  const order = $startOrder.value;
+  panel.classList.toggle('planned', order !== null);
+  if (!order) {
+    nextStart = null;
+    return;
+  }
+
+  const upcoming = getUpcomingStarts(
+    order,
+    getStartedBibs(state.entries, order.run),
+    UPCOMING_STARTS_SHOWN,
+  );
+  nextStart = upcoming[0] ?? null;
+
+  const nextBibEl = getElement('radial-next-bib');
+  if (nextBibEl) nextBibEl.textContent = nextStart?.bib ?? '---';
+  const followingEl = getElement('radial-following-bibs');
+  if (followingEl) {
+    followingEl.textContent = upcoming
+      .slice(1)
+      .map((start) => start.bib)
+      .join(' · ');
+  }
+  updateRadialCountdown();
+
+  if (nextStart && !state.bibInput) {
+    setRadialBib(nextStart.bib);
+  }
+}
+
+/**
+ * Update the countdown to the next planned start (called every clock tick)
+ */
+function updateRadialCountdown(): void {
+  const countdownEl = getElement('radial-start-countdown');
+  if (!countdownEl) return;
+
+  if (!nextStart) {
+    countdownEl.textContent = '-:--';
+    countdownEl.classList.remove('due', 'overdue');
+    return;
+  }
+
+  const remaining = nextStart.plannedTime - Date.now();
+  const text = formatCountdown(remaining);
+  if (countdownEl.textContent !== text) countdownEl.textContent = text;
+  countdownEl.classList.toggle(
+    'due',
+    remaining >= 0 && remaining <= START_DUE_MS,
+  );
+  countdownEl.classList.toggle('overdue', remaining < 0);
+}
+
 /**
  * Record a timestamp with radial UI feedback
  */
@@ -447,13 +677,14 @@ async function recordRadialTimestamp(): Promise<void> {
   if (state.isRecording) return;
 
   // Create entry immediately using shared utility (captures GPS-corrected timestamp)
-  const { entry } = createTimestampEntry({
+  const { entry, recordedAt } = createTimestampEntry({
     bib: state.bibInput,
     point: state.selectedPoint,
     run: state.selectedRun,
     deviceId: state.deviceId,
     deviceName: state.deviceName,
     gpsService,
+    serverClock: serverClockService,
   });
 
   store.setRecording(true);
@@ -461,14 +692,18 @@ async function recordRadialTimestamp(): Promise<void> {
   try {
     // Photo capture (async, non-blocking)
     if (state.settings.photoCapture) {
-      captureTimingPhoto()
+      captureTimingPhoto({ entry, recordedAt })
         .then(async (photo) => {
           if (photo) {
             // Verify entry still exists (may have been undone/deleted)
             const exists = store
               .getState()
               .entries.some((e) => e.id === entry.id);
-            if (!exists) return;
+            if (!exists) {
+              // Drop burst frames saved for the removed entry
+              await photoStorage.deletePhoto(entry.id);
+              return;
+            }
             try {
               const saved = await photoStorage.savePhoto(entry.id, photo);
               if (saved) {
@@ -513,8 +748,17 @@ async function recordRadialTimestamp(): Promise<void> {
       logger.error('syncEntry failed:', err);
     });
 
-    // Auto-increment bib or clear after recording
-    if (state.settings.auto && state.bibInput) {
+    // Planned start order: the next racer replaces auto-increment
+    const startOrder = entry.point === 'S' ? $startOrder.value : null;
+    if (startOrder) {
+      const next = getUpcomingStarts(
+        startOrder,
+        getStartedBibs(store.getState().entries, startOrder.run),
+        1,
+      )[0];
+      setRadialBib(next?.bib ?? '');
+    } else if (state.settings.auto && state.bibInput) {
+      // Auto-increment bib or clear after recording
       const localNext = parseInt(state.bibInput, 10) + 1;
       const nextBib = Math.min(
         state.settings.sync && state.cloudHighestBib > 0
@@ -585,7 +829,7 @@ function showRadialConfirmation(
   if (confirmPoint) {
     const state = store.getState();
     confirmPoint.textContent = getPointLabel(entry.point, state.currentLang);
-    confirmPoint.className = `radial-confirmation-point ${entry.point === 'S' ? 'start' : 'finish'}`;
+    confirmPoint.className = `radial-confirmation-point ${getPointClass(entry.point)}`;
   }
 
   // Show warning if applicable
@@ -710,8 +954,10 @@ function updateRadialStatsDisplay(): void {
       lastPointEl.textContent =
         lastEntry.point === 'S'
           ? t('startShort', state.currentLang)
-          : t('finishShort', state.currentLang);
-      lastPointEl.className = `radial-stats-point ${lastEntry.point === 'S' ? 'start' : 'finish'}`;
+          : lastEntry.point === 'F'
+            ? t('finishShort', state.currentLang)
+            : lastEntry.point;
+      lastPointEl.className = `radial-stats-point ${getPointClass(lastEntry.point)}`;
     }
     if (lastTimeEl) {
       const date = new Date(lastEntry.timestamp);
@@ -740,6 +986,7 @@ export function destroyRadialTimerView(): void {
   }
 
   listeners.removeAll();
+  destroyStartOrderModal();
 
   if (radialDial) {
     radialDial.destroy();
@@ -752,6 +999,7 @@ export function destroyRadialTimerView(): void {
   }
 
   frozenTime = null;
+  nextStart = null;
   isInitialized = false;
   cachedPointBtns = [];
   cachedRunBtns = [];
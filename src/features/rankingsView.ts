@@ -0,0 +1,317 @@
+/**
+ * Rankings View Module
+ * Ranked results per run and combined, shown as a panel in the Results view
+ */
+
+import { t } from '../i18n/translations';
+import { feedbackTap } from '../services';
+import {
+  $currentLang,
+  $raceResults,
+  $racerLookup,
+  effect,
+  store,
+} from '../store';
+import type { Language, TimingPoint } from '../types';
+import {
+  escapeAttr,
+  escapeHtml,
+  formatDuration,
+  getElement,
+  getPointLabel,
+  getTimingPointOrder,
+} from '../utils';
+import { ListenerManager } from '../utils/listenerManager';
+import type { CombinedResult, ResultStatus, RunResult } from '../utils/results';
+import { findRacer } from '../utils/startList';
+
+type RankingsTab = number | 'combined';
+
+// Module state
+let isRankingsVisible = false;
+let selectedTab: RankingsTab = 1;
+const listeners = new ListenerManager();
+const effectDisposers: (() => void)[] = [];
+
+/**
+ * Format a gap to the leader (+0.52 / +1:02.34)
+ */
+function formatGap(gapMs: number): string {
+  if (gapMs <= 0) return '';
+  if (gapMs < 60000) return `+${(Math.floor(gapMs / 10) / 100).toFixed(2)}`;
+  return `+${formatDuration(gapMs)}`;
+}
+
+/**
+ * Label for an unranked result status
+ */
+function getStatusText(status: ResultStatus, lang: Language): string {
+  return status === 'pending' ? t('resultPending', lang) : t(status, lang);
+}
+
+/**
+ * Render time cell for a ranked or unranked result
+ */
+function renderTimeCell(
+  status: ResultStatus,
+  totalTime: number | null,
+  penaltyMs: number,
+  lang: Language,
+): string {
+  if (totalTime === null) {
+    return `<span class="ranking-status ${status}">${escapeHtml(getStatusText(status, lang))}</span>`;
+  }
+  const penalty =
+    penaltyMs > 0
+      ? `<span class="ranking-penalty">+${penaltyMs / 1000}s</span>`
+      : '';
+  return `<span class="ranking-time">${formatDuration(totalTime)}</span>${penalty}`;
+}
+
+/**
+ * Render a single ranking row
+ */
+function renderRow(
+  result: RunResult | CombinedResult,
+  detail: string,
+  lang: Language,
+): string {
+  const racer = findRacer($racerLookup.value, result.bib);
+  const racerHtml = racer
+    ? `<span class="ranking-name">${escapeHtml(racer.name)}</span>${racer.club ? `<span class="ranking-club">${escapeHtml(racer.club)}</span>` : ''}`
+    : '';
+  const penaltyMs = 'penaltyMs' in result ? result.penaltyMs : 0;
+  const timeHtml = renderTimeCell(
+    result.status,
+    result.totalTime,
+    penaltyMs,
+    lang,
+  );
+
+  return `
+    <div class="ranking-row ${result.rank === null ? 'unranked' : ''}" role="listitem" data-bib="${escapeAttr(result.bib)}">
+      <span class="ranking-rank">${result.rank ?? '–'}</span>
+      <span class="ranking-bib">${escapeHtml(result.bib)}</span>
+      <span class="ranking-racer">${racerHtml}${detail}</span>
+      <span class="ranking-result">${timeHtml}</span>
+      <span class="ranking-gap">${result.gap ? formatGap(result.gap) : ''}</span>
+    </div>
+  `;
+}
+
+/**
+ * Per-run breakdown shown under the racer on the combined tab
+ */
+function renderCombinedDetail(
+  result: CombinedResult,
+  runs: number[],
+  lang: Language,
+): string {
+  const parts = runs.map((run) => {
+    const runResult = result.runs[run];
+    const value =
+      runResult?.totalTime != null
+        ? formatDuration(runResult.totalTime)
+        : getStatusText(runResult?.status ?? 'pending', lang);
+    return `${t('run', lang)} ${run}: ${value}`;
+  });
+  return `<span class="ranking-detail">${escapeHtml(parts.join(' · '))}</span>`;
+}
+
+/**
+ * Split times at intermediate points shown under the racer on run tabs
+ */
+function renderSplitDetail(result: RunResult, lang: Language): string {
+  const points = Object.keys(result.splits).sort(
+    (a, b) => getTimingPointOrder(a) - getTimingPointOrder(b),
+  );
+  if (points.length === 0) return '';
+
+  const parts = points.map(
+    (point) =>
+      `${getPointLabel(point as TimingPoint, lang)}: ${formatDuration(result.splits[point]!)}`,
+  );
+  return `<span class="ranking-detail">${escapeHtml(parts.join(' · '))}</span>`;
+}
+
+/**
+ * Points of a run result with a note (backup or hand time), in course order
+ */
+function renderPointsDetail(
+  points: string[],
+  labelKey: string,
+  className: string,
+  lang: Language,
+): string {
+  if (points.length === 0) return '';
+
+  const labels = [...points]
+    .sort((a, b) => getTimingPointOrder(a) - getTimingPointOrder(b))
+    .map((point) => getPointLabel(point as TimingPoint, lang));
+  return `<span class="ranking-detail ${className}">${escapeHtml(`${t(labelKey, lang)}: ${labels.join(', ')}`)}</span>`;
+}
+
+/**
+ * Points timed by a backup device because the primary time is missing, and
+ * points timed by hand (manual time entry)
+ */
+function renderTimingSourceDetail(result: RunResult, lang: Language): string {
+  return (
+    renderPointsDetail(
+      result.backupPoints,
+      'backupTimeUsed',
+      'ranking-backup',
+      lang,
+    ) +
+    renderPointsDetail(
+      result.manualPoints,
+      'manualTimeUsed',
+      'ranking-manual',
+      lang,
+    )
+  );
+}
+
+/**
+ * Render run tabs (one per run, plus combined when there are multiple runs)
+ */
+function renderTabs(runs: number[], lang: Language): void {
+  const tabsEl = getElement('rankings-tabs');
+  if (!tabsEl) return;
+
+  const tabs: RankingsTab[] = runs.length > 1 ? [...runs, 'combined'] : runs;
+  tabsEl.innerHTML = tabs
+    .map((tab) => {
+      const label =
+        tab === 'combined' ? t('total', lang) : `${t('run', lang)} ${tab}`;
+      const isActive = tab === selectedTab;
+      return `<button class="rankings-tab ${isActive ? 'active' : ''}" role="tab" aria-selected="${isActive}" data-tab="${tab}">${escapeHtml(label)}</button>`;
+    })
+    .join('');
+}
+
+/**
+ * Update rankings panel content from the current results
+ */
+export function updateRankingsPanel(): void {
+  const listEl = getElement('rankings-list');
+  if (!listEl || !isRankingsVisible) return;
+
+  const lang = store.getState().currentLang;
+  const results = $raceResults.value;
+
+  // Fall back to first run when the selected tab no longer exists
+  if (
+    selectedTab === 'combined'
+      ? results.runs.length < 2
+      : !results.runs.includes(selectedTab)
+  ) {
+    selectedTab = results.runs[0] ?? 1;
+  }
+
+  renderTabs(results.runs, lang);
+
+  const rows =
+    selectedTab === 'combined'
+      ? results.combined.map((result) =>
+          renderRow(
+            result,
+            renderCombinedDetail(result, results.runs, lang),
+            lang,
+          ),
+        )
+      : (results.byRun[selectedTab] ?? []).map((result) =>
+          renderRow(
+            result,
+            renderSplitDetail(result, lang) +
+              renderTimingSourceDetail(result, lang),
+            lang,
+          ),
+        );
+
+  listEl.innerHTML =
+    rows.length > 0
+      ? rows.join('')
+      : `<div class="rankings-empty">${escapeHtml(t('noRankings', lang))}</div>`;
+}
+
+/**
+ * Show or hide the rankings panel
+ */
+export function setRankingsVisible(visible: boolean): void {
+  isRankingsVisible = visible;
+
+  const resultsView = document.querySelector('.results-view');
+  const toggleBtn = getElement('rankings-toggle-btn');
+  resultsView?.classList.toggle('rankings-mode', visible);
+  if (toggleBtn) {
+    toggleBtn.classList.toggle('active', visible);
+    toggleBtn.setAttribute('aria-pressed', String(visible));
+  }
+
+  if (visible) {
+    window.dispatchEvent(
+      new CustomEvent('results-panel-open', { detail: { panel: 'rankings' } }),
+    );
+    updateRankingsPanel();
+  }
+}
+
+/**
+ * Initialize rankings toggle, tabs and reactive updates
+ */
+export function initRankingsView(): void {
+  cleanupRankingsView();
+
+  const toggleBtn = getElement('rankings-toggle-btn');
+  if (toggleBtn) {
+    listeners.add(toggleBtn, 'click', () => {
+      feedbackTap();
+      setRankingsVisible(!isRankingsVisible);
+    });
+  }
+
+  // Tab switching via delegation (tabs are re-rendered on every update)
+  const tabsEl = getElement('rankings-tabs');
+  if (tabsEl) {
+    listeners.add(tabsEl, 'click', (e: Event) => {
+      const tab = (e.target as HTMLElement).closest<HTMLElement>(
+        '.rankings-tab',
+      );
+      if (!tab?.dataset.tab) return;
+      selectedTab =
+        tab.dataset.tab === 'combined'
+          ? 'combined'
+          : parseInt(tab.dataset.tab, 10);
+      updateRankingsPanel();
+    });
+  }
+
+  // Only one results panel at a time
+  listeners.add(window, 'results-panel-open', ((e: CustomEvent) => {
+    if (e.detail?.panel !== 'rankings' && isRankingsVisible) {
+      setRankingsVisible(false);
+    }
+  }) as EventListener);
+
+  // Re-render when results, racer names or language change (only if visible)
+  effectDisposers.push(
+    effect(() => {
+      void $raceResults.value;
+      void $racerLookup.value;
+      void $currentLang.value;
+      if (isRankingsVisible) updateRankingsPanel();
+    }),
+  );
+}
+
+/**
+ * Cleanup rankings view resources
+ */
+export function cleanupRankingsView(): void {
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  listeners.removeAll();
+}
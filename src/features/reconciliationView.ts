@@ -0,0 +1,402 @@
+/**
+ * Reconciliation View Module
+ * Panel in the Results view listing per run the starts without a finish,
+ * finishes without a start, entries without a bib and cross-device
+ * duplicates, with quick actions to resolve them. Backup times at points
+ * with a primary device are listed next to the primary time.
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess, feedbackTap } from '../services';
+import { syncEntry } from '../services/sync';
+import {
+  $currentLang,
+  $racerLookup,
+  $reconciliation,
+  effect,
+  store,
+} from '../store';
+import type { Entry, EntryStatus, Language } from '../types';
+import {
+  escapeAttr,
+  escapeHtml,
+  formatTime,
+  getElement,
+  getPointLabel,
+} from '../utils';
+import { ListenerManager } from '../utils/listenerManager';
+import type {
+  BackupTimeComparison,
+  DuplicateEntryGroup,
+  RunReconciliation,
+} from '../utils/reconciliation';
+import { findRacer } from '../utils/startList';
+import { deleteEntriesWithCleanup } from './entryDeletion';
+
+type ReconciliationAction = 'dnf' | 'dns' | 'assign' | 'keep';
+
+// Module state
+let isReconciliationVisible = false;
+let selectedRun = 1;
+const listeners = new ListenerManager();
+const effectDisposers: (() => void)[] = [];
+
+/**
+ * Quick action button for a row
+ */
+function actionButton(
+  action: ReconciliationAction,
+  label: string,
+  entry: Entry,
+  danger = false,
+): string {
+  return `<button class="reconciliation-action${danger ? ' danger' : ''}" data-action="${action}" data-entry-id="${escapeAttr(entry.id)}">${escapeHtml(label)}</button>`;
+}
+
+/**
+ * Render an entry row: bib, racer name, point/time/device and actions
+ */
+function renderRow(
+  entry: Entry,
+  actions: string,
+  lang: Language,
+  duplicateKey?: string,
+): string {
+  const racer = entry.bib ? findRacer($racerLookup.value, entry.bib) : null;
+  const detail = `${getPointLabel(entry.point, lang)} ${formatTime(new Date(entry.timestamp))} · ${entry.deviceName}`;
+  const keyAttr = duplicateKey
+    ? ` data-duplicate-key="${escapeAttr(duplicateKey)}"`
+    : '';
+  return `
+    <div class="reconciliation-row" role="listitem" data-entry-id="${escapeAttr(entry.id)}"${keyAttr}>
+      <span class="reconciliation-bib">${escapeHtml(entry.bib || '---')}</span>
+      <span class="reconciliation-info">
+        ${racer ? `<span class="reconciliation-name">${escapeHtml(racer.name)}</span>` : ''}
+        <span class="reconciliation-detail">${escapeHtml(detail)}</span>
+      </span>
+      <span class="reconciliation-actions">${actions}</span>
+    </div>
+  `;
+}
+
+/**
+ * Render a titled section (omitted when empty)
+ */
+function renderSection(title: string, count: number, rows: string[]): string {
+  if (count === 0) return '';
+  return `
+    <div class="reconciliation-section" role="list" aria-label="${escapeAttr(title)}">
+      <div class="reconciliation-section-title"><span>${escapeHtml(title)}</span><span>${count}</span></div>
+      ${rows.join('')}
+    </div>
+  `;
+}
+
+/**
+ * Duplicate group: one row per device's entry, each with a keep action
+ */
+function renderDuplicate(group: DuplicateEntryGroup, lang: Language): string {
+  return group.entries
+    .map((entry) =>
+      renderRow(
+        entry,
+        actionButton('keep', t('keepEntry', lang), entry),
+        lang,
+        group.key,
+      ),
+    )
+    .join('');
+}
+
+/**
+ * Format the backup - primary delta in seconds (+0.012 s)
+ */
+function formatDelta(deltaMs: number): string {
+  const sign = deltaMs < 0 ? '−' : '+';
+  return `${sign}${(Math.abs(deltaMs) / 1000).toFixed(3)} s`;
+}
+
+/**
+ * Primary and backup time side by side with their delta. Without a primary
+ * time the backup is marked as used for the results.
+ */
+function renderBackupTime(
+  comparison: BackupTimeComparison,
+  lang: Language,
+): string {
+  const { primary, backup } = comparison;
+  const racer = findRacer($racerLookup.value, comparison.bib);
+  const line = (label: string, entry: Entry | null) =>
+    `<span class="reconciliation-detail">${escapeHtml(
+      `${label}: ${
+        entry
+          ? `${formatTime(new Date(entry.timestamp))} · ${entry.deviceName}`
+          : '–'
+      }`,
+    )}</span>`;
+  const delta =
+    comparison.deltaMs !== null
+      ? `<span class="reconciliation-delta">${escapeHtml(formatDelta(comparison.deltaMs))}</span>`
+      : `<span class="reconciliation-delta backup-used">${escapeHtml(t('backupTimeUsed', lang))}</span>`;
+
+  return `
+    <div class="reconciliation-row" role="listitem" data-entry-id="${escapeAttr(backup.id)}">
+      <span class="reconciliation-bib">${escapeHtml(comparison.bib)}</span>
+      <span class="reconciliation-info">
+        ${racer ? `<span class="reconciliation-name">${escapeHtml(racer.name)}</span>` : ''}
+        ${line(`${t('primaryTime', lang)} (${getPointLabel(comparison.point, lang)})`, primary)}
+        ${line(t('backupTime', lang), backup)}
+      </span>
+      ${delta}
+    </div>
+  `;
+}
+
+/**
+ * Render the issues of one run
+ */
+function renderRun(run: RunReconciliation, lang: Language): string {
+  const assign = (entry: Entry) =>
+    actionButton('assign', t('assignBib', lang), entry);
+
+  return [
+    renderSection(
+      t('startedNotFinished', lang),
+      run.startedNotFinished.length,
+      run.startedNotFinished.map((entry) =>
+        renderRow(
+          entry,
+          actionButton('dnf', t('dnf', lang), entry, true) +
+            actionButton('dns', t('dns', lang), entry),
+          lang,
+        ),
+      ),
+    ),
+    renderSection(
+      t('finishedNotStarted', lang),
+      run.finishedNotStarted.length,
+      run.finishedNotStarted.map((entry) =>
+        renderRow(entry, assign(entry), lang),
+      ),
+    ),
+    renderSection(
+      t('blankBibEntries', lang),
+      run.blankBib.length,
+      run.blankBib.map((entry) => renderRow(entry, assign(entry), lang)),
+    ),
+    renderSection(
+      t('duplicateEntries', lang),
+      run.duplicates.length,
+      run.duplicates.map((group) => renderDuplicate(group, lang)),
+    ),
+    renderSection(
+      t('backupTimes', lang),
+      run.backupTimes.length,
+      run.backupTimes.map((comparison) => renderBackupTime(comparison, lang)),
+    ),
+  ].join('');
+}
+
+/**
+ * Render run tabs
+ */
+function renderTabs(runs: number[], lang: Language): void {
+  const tabsEl = getElement('reconciliation-tabs');
+  if (!tabsEl) return;
+
+  tabsEl.innerHTML = runs
+    .map((run) => {
+      const isActive = run === selectedRun;
+      return `<button class="rankings-tab ${isActive ? 'active' : ''}" role="tab" aria-selected="${isActive}" data-run="${run}">${escapeHtml(`${t('run', lang)} ${run}`)}</button>`;
+    })
+    .join('');
+}
+
+/**
+ * Update the open issue count on the toggle button
+ */
+function updateIssueBadge(): void {
+  const badge = getElement('reconciliation-count');
+  if (!badge) return;
+  const count = $reconciliation.value.issueCount;
+  badge.textContent = String(count);
+  badge.hidden = count === 0;
+}
+
+/**
+ * Update reconciliation panel content from the current entries
+ */
+export function updateReconciliationPanel(): void {
+  const listEl = getElement('reconciliation-list');
+  if (!listEl || !isReconciliationVisible) return;
+
+  const lang = store.getState().currentLang;
+  const { runs } = $reconciliation.value;
+
+  // Fall back to the first run when the selected one has no entries
+  if (!runs.some((run) => run.run === selectedRun)) {
+    selectedRun = runs[0]?.run ?? 1;
+  }
+  renderTabs(
+    runs.map((run) => run.run),
+    lang,
+  );
+
+  const run = runs.find((r) => r.run === selectedRun);
+  const html = run ? renderRun(run, lang) : '';
+  listEl.innerHTML =
+    html ||
+    `<div class="rankings-empty">${escapeHtml(t('noReconciliationIssues', lang))}</div>`;
+}
+
+/**
+ * Show or hide the reconciliation panel
+ */
+export function setReconciliationVisible(visible: boolean): void {
+  isReconciliationVisible = visible;
+
+  const resultsView = document.querySelector('.results-view');
+  const toggleBtn = getElement('reconciliation-toggle-btn');
+  resultsView?.classList.toggle('reconciliation-mode', visible);
+  if (toggleBtn) {
+    toggleBtn.classList.toggle('active', visible);
+    toggleBtn.setAttribute('aria-pressed', String(visible));
+  }
+
+  if (visible) {
+    window.dispatchEvent(
+      new CustomEvent('results-panel-open', {
+        detail: { panel: 'reconciliation' },
+      }),
+    );
+    updateReconciliationPanel();
+  }
+}
+
+/**
+ * Set the status of an entry (DNF/DNS for a racer)
+ */
+function setEntryStatus(entry: Entry, status: EntryStatus): void {
+  const edited = store.editEntry(entry.id, { status });
+  if (!edited) return;
+
+  // Send the new version to the cloud and other tabs (queued on failure)
+  syncEntry(edited).catch(() => {
+    // Sync failure handled by queue
+  });
+  feedbackSuccess();
+  showToast(t('saved', store.getState().currentLang), 'success');
+}
+
+/**
+ * Merge a cross-device duplicate: keep one entry, delete the others
+ */
+async function keepDuplicate(entry: Entry, groupKey: string): Promise<void> {
+  const group = $reconciliation.value.runs
+    .flatMap((run) => run.duplicates)
+    .find((g) => g.key === groupKey);
+  if (!group) return;
+
+  const others = group.entries.filter((e) => e.id !== entry.id);
+  await deleteEntriesWithCleanup(others);
+  feedbackSuccess();
+  showToast(t('duplicatesMerged', store.getState().currentLang), 'success');
+}
+
+/**
+ * Run a row's quick action
+ */
+function handleAction(button: HTMLElement): void {
+  const action = button.dataset.action as ReconciliationAction | undefined;
+  const entry = store
+    .getState()
+    .entries.find((e) => e.id === button.dataset.entryId);
+  if (!action || !entry) return;
+
+  switch (action) {
+    case 'dnf':
+    case 'dns':
+      setEntryStatus(entry, action);
+      break;
+    case 'assign':
+      window.dispatchEvent(
+        new CustomEvent('open-edit-modal', { detail: { entry } }),
+      );
+      break;
+    case 'keep': {
+      const groupKey = button.closest<HTMLElement>('[data-duplicate-key]')
+        ?.dataset.duplicateKey;
+      if (groupKey) void keepDuplicate(entry, groupKey);
+      break;
+    }
+  }
+}
+
+/**
+ * Initialize reconciliation toggle, tabs, actions and reactive updates
+ */
+export function initReconciliationView(): void {
+  cleanupReconciliationView();
+
+  const toggleBtn = getElement('reconciliation-toggle-btn');
+  if (toggleBtn) {
+    listeners.add(toggleBtn, 'click', () => {
+      feedbackTap();
+      setReconciliationVisible(!isReconciliationVisible);
+    });
+  }
+
+  // Tab switching via delegation (tabs are re-rendered on every update)
+  const tabsEl = getElement('reconciliation-tabs');
+  if (tabsEl) {
+    listeners.add(tabsEl, 'click', (e: Event) => {
+      const tab = (e.target as HTMLElement).closest<HTMLElement>(
+        '.rankings-tab',
+      );
+      if (!tab?.dataset.run) return;
+      selectedRun = parseInt(tab.dataset.run, 10);
+      updateReconciliationPanel();
+    });
+  }
+
+  // Quick actions via delegation (rows are re-rendered on every update)
+  const listEl = getElement('reconciliation-list');
+  if (listEl) {
+    listeners.add(listEl, 'click', (e: Event) => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>(
+        '.reconciliation-action',
+      );
+      if (button) handleAction(button);
+    });
+  }
+
+  // Only one results panel at a time
+  listeners.add(window, 'results-panel-open', ((e: CustomEvent) => {
+    if (e.detail?.panel !== 'reconciliation' && isReconciliationVisible) {
+      setReconciliationVisible(false);
+    }
+  }) as EventListener);
+
+  // Re-render when entries, racer names or language change
+  effectDisposers.push(
+    effect(() => {
+      void $reconciliation.value;
+      void $racerLookup.value;
+      void $currentLang.value;
+      updateIssueBadge();
+      if (isReconciliationVisible) updateReconciliationPanel();
+    }),
+  );
+}
+
+/**
+ * Cleanup reconciliation view resources
+ */
+export function cleanupReconciliationView(): void {
+  for (const dispose of effectDisposers) {
+    dispose();
+  }
+  effectDisposers.length = 0;
+  listeners.removeAll();
+}
@@ -5,17 +5,29 @@
 
 import { PullToRefresh, showToast, VirtualList } from '../components';
 import { t } from '../i18n/translations';
-import { feedbackUndo, syncService } from '../services';
-import { store } from '../store';
+import { bibRecognitionService, feedbackUndo, syncService } from '../services';
+import { $timingPoints, store } from '../store';
 import type { Entry, FaultEntry } from '../types';
-import { getElement } from '../utils';
+import { getElement, getPointLabel, isIntermediatePoint } from '../utils';
 import { ListenerManager } from '../utils/listenerManager';
+import { findDuplicateEntries } from '../utils/reconciliation';
+import { acceptSuggestedBib } from './bibSuggestion';
 import { exportResults } from './export';
 import {
   openFaultEditModal,
   openMarkDeletionModal,
 } from './faults/faultOperations';
+import {
+  destroyManualTimeModal,
+  initManualTimeModal,
+  openManualTimeModal,
+} from './manualTimeModal';
 import { openPhotoViewer } from './photoViewer';
+import { cleanupRankingsView, initRankingsView } from './rankingsView';
+import {
+  cleanupReconciliationView,
+  initReconciliationView,
+} from './reconciliationView';
 
 // Module state
 let virtualList: VirtualList | null = null;
@@ -84,6 +96,9 @@ export function initResultsView(): void {
       store.toggleEntrySelection(entry.id);
     },
     onViewPhoto: (entry) => openPhotoViewer(entry),
+    loadThumbnail: (entry) => syncService.fetchEntryPhoto(entry, 'thumbnail'),
+    loadBibSuggestion: (entry) => bibRecognitionService.suggestBib(entry),
+    onAcceptBibSuggestion: (entry, bib) => acceptSuggestedBib(entry, bib),
   });
 
   // Listen for fault edit requests from VirtualList
@@ -135,6 +150,7 @@ export function initResultsView(): void {
   const statusFilter = getElement<HTMLSelectElement>('filter-status');
 
   if (pointFilter) listeners.add(pointFilter, 'change', applyFilters);
+  updatePointFilterOptions();
   if (statusFilter) listeners.add(statusFilter, 'change', applyFilters);
 
   // Toggle filters button
@@ -159,6 +175,10 @@ export function initResultsView(): void {
   // Action buttons
   initResultsActions();
 
+  // Rankings and reconciliation panels (toggled from the info bar)
+  initRankingsView();
+  initReconciliationView();
+
   // Pause VirtualList if not starting on results view
   // It will be resumed when user switches to results tab
   if (state.currentView !== 'results' && virtualList) {
@@ -219,6 +239,13 @@ function initResultsActions(): void {
     });
   }
 
+  // Manual time button (backup hand timing)
+  const manualTimeBtn = getElement('manual-time-btn');
+  if (manualTimeBtn) {
+    listeners.add(manualTimeBtn, 'click', openManualTimeModal);
+  }
+  initManualTimeModal();
+
   // Export button
   const exportBtn = getElement('export-btn');
   if (exportBtn) listeners.add(exportBtn, 'click', exportResults);
@@ -235,6 +262,41 @@ function initResultsActions(): void {
   }
 }
 
+/**
+ * Sync the point filter with the race's intermediate points (inserted
+ * between Start and Finish). A selected point that no longer exists
+ * resets the filter to all points.
+ */
+export function updatePointFilterOptions(): void {
+  const pointFilter = getElement<HTMLSelectElement>('filter-point');
+  if (!pointFilter) return;
+
+  const lang = store.getState().currentLang;
+  const selected = pointFilter.value;
+  const finishOption = pointFilter.querySelector('option[value="F"]');
+  pointFilter
+    .querySelectorAll('option[data-intermediate]')
+    .forEach((option) => option.remove());
+
+  const intermediates = $timingPoints.value.filter(isIntermediatePoint);
+  for (const point of intermediates) {
+    const option = document.createElement('option');
+    option.value = point;
+    option.setAttribute('data-intermediate', '');
+    option.textContent = getPointLabel(point, lang);
+    pointFilter.insertBefore(option, finishOption);
+  }
+
+  if (isIntermediatePoint(selected)) {
+    if (intermediates.includes(selected)) {
+      pointFilter.value = selected;
+    } else {
+      pointFilter.value = 'all';
+      applyFilters();
+    }
+  }
+}
+
 /**
  * Apply current filters to results
  */
@@ -271,20 +333,11 @@ export function updateStats(): void {
   ).size;
 
   // Count cross-device duplicates: same bib+point+run from different devices
-  const pointDeviceMap = new Map<string, Set<string>>();
-  for (const entry of entries) {
-    const key = `${entry.bib}-${entry.point}-${entry.run ?? 1}`;
-    if (!pointDeviceMap.has(key)) {
-      pointDeviceMap.set(key, new Set());
-    }
-    pointDeviceMap.get(key)!.add(entry.deviceId);
-  }
-  let duplicateCount = 0;
-  for (const devices of pointDeviceMap.values()) {
-    if (devices.size > 1) {
-      duplicateCount++;
-    }
-  }
+  // (backup timers at points with a primary device are expected)
+  const duplicateCount = findDuplicateEntries(
+    entries,
+    state.primaryDevices,
+  ).length;
 
   const totalEl = getElement('stat-total');
   const racersEl = getElement('stat-racers');
@@ -322,6 +375,9 @@ export function cleanupResultsView(): void {
     searchTimeout = null;
   }
   listeners.removeAll();
+  destroyManualTimeModal();
+  cleanupRankingsView();
+  cleanupReconciliationView();
   if (pullToRefreshInstance) {
     pullToRefreshInstance.destroy();
     pullToRefreshInstance = null;
@@ -124,14 +124,7 @@ async function initVoiceModeToggle(): Promise<void> {
     const lang = store.getState().currentLang;
 
     if (voiceModeToggle.checked) {
-      // Check if online
-      if (!navigator.onLine) {
-        showToast(t('voiceOffline', lang), 'warning');
-        voiceModeToggle.checked = false;
-        return;
-      }
-
-      // Enable voice mode
+      // Enable voice mode (works offline with the on-device grammar)
       const success = voiceModeService.enable();
       if (!success) {
         showToast(t('voiceError', lang), 'error');
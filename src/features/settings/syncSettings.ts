@@ -30,7 +30,7 @@ import {
 } from '../../utils/recentRacesUi';
 import { isValidRaceId } from '../../utils/validation';
 import { exportResults } from '../export';
-import { verifyPinForRaceJoin } from '../race';
+import { updatePinStatusDisplay, verifyPinForRaceJoin } from '../race';
 
 // Module state
 const listeners = new ListenerManager();
@@ -255,7 +255,10 @@ export function initSyncSettings(): void {
 
         // Verify PIN before joining race if sync is enabled
         if (state.settings.sync && newRaceId) {
-          const pinVerified = await verifyPinForRaceJoin(state.currentLang);
+          const pinVerified = await verifyPinForRaceJoin(
+            state.currentLang,
+            newRaceId.toLowerCase(),
+          );
           if (!pinVerified) {
             // PIN verification cancelled or failed - restore old race ID
             raceIdInput.value = state.raceId;
@@ -273,6 +276,7 @@ export function initSyncSettings(): void {
         raceIdInput.value = normalizedRaceId; // Update UI to show normalized value
 
         store.setRaceId(normalizedRaceId);
+        updatePinStatusDisplay();
         if (state.settings.sync && normalizedRaceId) {
           syncService.initialize();
           store.markCurrentRaceAsSynced();
@@ -93,6 +93,17 @@ export function initSettingsView(): void {
   if (photoToggle) {
     listeners.add(photoToggle, 'change', () => {
       store.updateSettings({ photoCapture: photoToggle.checked });
+      const photoBurstToggle =
+        getElement<HTMLInputElement>('photo-burst-toggle');
+      if (photoBurstToggle) photoBurstToggle.disabled = !photoToggle.checked;
+    });
+  }
+
+  // Photo-finish burst toggle (needs photo capture)
+  const photoBurstToggle = getElement<HTMLInputElement>('photo-burst-toggle');
+  if (photoBurstToggle) {
+    listeners.add(photoBurstToggle, 'change', () => {
+      store.updateSettings({ photoBurst: photoBurstToggle.checked });
     });
   }
 
@@ -153,12 +164,17 @@ export function updateSettingsInputs(): void {
   const hapticToggle = getElement<HTMLInputElement>('haptic-toggle');
   const soundToggle = getElement<HTMLInputElement>('sound-toggle');
   const photoToggle = getElement<HTMLInputElement>('photo-toggle');
+  const photoBurstToggle = getElement<HTMLInputElement>('photo-burst-toggle');
 
   if (gpsToggle) gpsToggle.checked = settings.gps;
   if (autoToggle) autoToggle.checked = settings.auto;
   if (hapticToggle) hapticToggle.checked = settings.haptic;
   if (soundToggle) soundToggle.checked = settings.sound;
   if (photoToggle) photoToggle.checked = settings.photoCapture;
+  if (photoBurstToggle) {
+    photoBurstToggle.checked = settings.photoBurst;
+    photoBurstToggle.disabled = !settings.photoCapture;
+  }
 }
 
 /**
@@ -0,0 +1,260 @@
+/**
+ * Start Order Modal Module
+ * Plans the start order of a run on the start device: seeded draw from the
+ * start list, reversed results of the previous run or bib order, with the
+ * planned first start and start interval
+ */
+
+import { showToast } from '../components';
+import { t } from '../i18n/translations';
+import { feedbackSuccess, feedbackTap } from '../services';
+import { $raceResults, $runs, $startList, store } from '../store';
+import type { Run } from '../types';
+import { getElement } from '../utils';
+import { ListenerManager } from '../utils/listenerManager';
+import {
+  compareBibs,
+  DEFAULT_REVERSE_COUNT,
+  DEFAULT_SEED_GROUP_SIZE,
+  DEFAULT_START_INTERVAL,
+  drawStartOrder,
+  MAX_START_INTERVAL,
+  reverseStartOrder,
+} from '../utils/startOrder';
+import { closeModal, openModal } from './modals';
+
+type StartOrderMethod = 'draw' | 'reverse' | 'bib';
+
+// Lead time of the default first start when a run is planned anew
+const DEFAULT_FIRST_START_LEAD_MINUTES = 5;
+
+const listeners = new ListenerManager();
+
+function getInput(id: string): HTMLInputElement | null {
+  return getElement<HTMLInputElement>(id);
+}
+
+function getSelect(id: string): HTMLSelectElement | null {
+  return getElement<HTMLSelectElement>(id);
+}
+
+/**
+ * Format epoch ms as the HH:MM value of a time input
+ */
+function toTimeInputValue(time: number): string {
+  const date = new Date(time);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Today's epoch ms of a HH:MM time input value (null when empty/invalid)
+ */
+function parseTimeInputValue(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const date = new Date();
+  date.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  return date.getTime();
+}
+
+/**
+ * Default first start: the next full minute after the lead time
+ */
+function getDefaultFirstStart(): number {
+  const date = new Date(
+    Date.now() + DEFAULT_FIRST_START_LEAD_MINUTES * 60 * 1000,
+  );
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  return date.getTime();
+}
+
+/**
+ * Read a non-negative integer input, falling back when empty/invalid
+ */
+function readCount(id: string, fallback: number): number {
+  const value = Number.parseInt(getInput(id)?.value ?? '', 10);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+function showStartOrderError(message: string | null): void {
+  const errorEl = getElement('start-order-error');
+  if (!errorEl) return;
+  errorEl.textContent = message ?? '';
+  errorEl.style.display = message ? 'block' : 'none';
+}
+
+/**
+ * Show the options of the selected method only
+ */
+function updateMethodOptions(): void {
+  const method = getSelect('start-order-method')?.value;
+  const drawOptions = getElement('start-order-draw-options');
+  const reverseOptions = getElement('start-order-reverse-options');
+  if (drawOptions) {
+    drawOptions.style.display = method === 'draw' ? 'flex' : 'none';
+  }
+  if (reverseOptions) {
+    reverseOptions.style.display = method === 'reverse' ? 'flex' : 'none';
+  }
+}
+
+/**
+ * Fill the form for a run: its current plan, or defaults for a new plan
+ * (draw for the first run, reversed results for later runs)
+ */
+function fillStartOrderForm(run: Run): void {
+  const plan = store.getState().startOrders.find((o) => o.run === run);
+
+  const methodSelect = getSelect('start-order-method');
+  if (methodSelect) methodSelect.value = run === 1 ? 'draw' : 'reverse';
+
+  const firstStartInput = getInput('start-order-first-start');
+  if (firstStartInput) {
+    firstStartInput.value = toTimeInputValue(
+      plan?.firstStart ?? getDefaultFirstStart(),
+    );
+  }
+
+  const intervalInput = getInput('start-order-interval');
+  if (intervalInput) {
+    intervalInput.value = String(
+      plan?.intervalSeconds ?? DEFAULT_START_INTERVAL,
+    );
+  }
+
+  const clearBtn = getElement<HTMLButtonElement>('clear-start-order-btn');
+  if (clearBtn) clearBtn.disabled = !plan;
+
+  showStartOrderError(null);
+  updateMethodOptions();
+}
+
+/**
+ * Open the start order modal for the selected run
+ */
+export function openStartOrderModal(): void {
+  const state = store.getState();
+  const lang = state.currentLang;
+
+  const runSelect = getSelect('start-order-run');
+  if (runSelect) {
+    runSelect.innerHTML = '';
+    for (const run of $runs.value) {
+      const option = document.createElement('option');
+      option.value = String(run);
+      option.textContent = `${t('runLabel', lang)} ${run}`;
+      runSelect.appendChild(option);
+    }
+    runSelect.value = String(state.selectedRun);
+  }
+
+  const groupSizeInput = getInput('start-order-group-size');
+  if (groupSizeInput && !groupSizeInput.value) {
+    groupSizeInput.value = String(DEFAULT_SEED_GROUP_SIZE);
+  }
+  const reverseCountInput = getInput('start-order-reverse-count');
+  if (reverseCountInput && !reverseCountInput.value) {
+    reverseCountInput.value = String(DEFAULT_REVERSE_COUNT);
+  }
+
+  fillStartOrderForm(state.selectedRun);
+  openModal(getElement('start-order-modal'));
+}
+
+/**
+ * Build the bib order of a run with the selected method
+ */
+function buildStartOrder(run: Run, method: StartOrderMethod): string[] {
+  if (method === 'reverse') {
+    if (run <= 1) return [];
+    return reverseStartOrder(
+      $raceResults.value.byRun[run - 1] ?? [],
+      readCount('start-order-reverse-count', DEFAULT_REVERSE_COUNT),
+    );
+  }
+  if (method === 'bib') {
+    return $startList.value.map((racer) => racer.bib).sort(compareBibs);
+  }
+  return drawStartOrder(
+    $startList.value,
+    readCount('start-order-group-size', DEFAULT_SEED_GROUP_SIZE),
+  );
+}
+
+function getSelectedRun(): Run {
+  const run = Number(getSelect('start-order-run')?.value);
+  return $runs.value.includes(run) ? run : store.getState().selectedRun;
+}
+
+/**
+ * Generate and store the start order of the selected run
+ */
+function handleGenerateStartOrder(): void {
+  const lang = store.getState().currentLang;
+  const run = getSelectedRun();
+  const method = (getSelect('start-order-method')?.value ??
+    'draw') as StartOrderMethod;
+
+  const bibs = buildStartOrder(run, method);
+  if (bibs.length === 0) {
+    showStartOrderError(t('startOrderNoRacers', lang));
+    return;
+  }
+
+  const interval = readCount('start-order-interval', DEFAULT_START_INTERVAL);
+  store.setStartOrder({
+    run,
+    bibs,
+    firstStart:
+      parseTimeInputValue(getInput('start-order-first-start')?.value ?? '') ??
+      getDefaultFirstStart(),
+    intervalSeconds: Math.max(1, Math.min(MAX_START_INTERVAL, interval)),
+  });
+
+  feedbackSuccess();
+  showToast(
+    t('startOrderGenerated', lang).replace('{count}', String(bibs.length)),
+    'success',
+  );
+  closeModal(getElement('start-order-modal'));
+}
+
+/**
+ * Initialize start order modal handlers
+ */
+export function initStartOrderModal(): void {
+  const runSelect = getSelect('start-order-run');
+  if (runSelect) {
+    listeners.add(runSelect, 'change', () => {
+      fillStartOrderForm(getSelectedRun());
+    });
+  }
+
+  const methodSelect = getSelect('start-order-method');
+  if (methodSelect) {
+    listeners.add(methodSelect, 'change', updateMethodOptions);
+  }
+
+  const generateBtn = getElement('save-start-order-btn');
+  if (generateBtn) {
+    listeners.add(generateBtn, 'click', handleGenerateStartOrder);
+  }
+
+  const clearBtn = getElement('clear-start-order-btn');
+  if (clearBtn) {
+    listeners.add(clearBtn, 'click', () => {
+      feedbackTap();
+      store.clearStartOrder(getSelectedRun());
+      showToast(t('startOrderCleared', store.getState().currentLang), 'info');
+      closeModal(getElement('start-order-modal'));
+    });
+  }
+}
+
+/**
+ * Cleanup start order modal handlers
+ */
+export function destroyStartOrderModal(): void {
+  listeners.removeAll();
+}
@@ -11,6 +11,7 @@ import {
   feedbackWarning,
   gpsService,
   photoStorage,
+  serverClockService,
   syncEntry,
 } from '../services';
 import { ambientModeService } from '../services/ambient';
@@ -22,6 +23,7 @@ import {
   getPointLabel,
   getRunColor,
   getRunLabel,
+  isValidRun,
   logWarning,
 } from '../utils';
 import {
@@ -323,18 +325,14 @@ export function initTimestampButton(): void {
       return;
     }
 
-    // 1/2 keys for run selection
-    if (e.key === '1' && e.altKey) {
+    // Alt+1…9 keys for run selection (runs of the race only)
+    if (e.altKey && /^[1-9]$/.test(e.key)) {
       e.preventDefault();
-      store.setSelectedRun(1);
-      feedbackTap();
-      return;
-    }
-
-    if (e.key === '2' && e.altKey) {
-      e.preventDefault();
-      store.setSelectedRun(2);
-      feedbackTap();
+      const run = Number(e.key);
+      if (run <= store.getState().runCount) {
+        store.setSelectedRun(run);
+        feedbackTap();
+      }
       return;
     }
 
@@ -374,14 +372,15 @@ export async function recordTimestamp(): Promise<void> {
   if (state.isRecording) return;
 
   // CRITICAL: Create entry IMMEDIATELY before any async operations
-  // Uses GPS offset if available for more accurate timing
-  const { entry } = createTimestampEntry({
+  // Uses the GPS or server clock offset if available for more accurate timing
+  const { entry, recordedAt } = createTimestampEntry({
     bib: state.bibInput,
     point: state.selectedPoint,
     run: state.selectedRun,
     deviceId: state.deviceId,
     deviceName: state.deviceName,
     gpsService,
+    serverClock: serverClockService,
   });
 
   store.setRecording(true);
@@ -390,7 +389,7 @@ export async function recordTimestamp(): Promise<void> {
     // Capture photo asynchronously - don't block timestamp recording
     if (state.settings.photoCapture) {
       const entryId = entry.id;
-      captureTimingPhoto()
+      captureTimingPhoto({ entry, recordedAt })
         .then(async (photo) => {
           if (photo) {
             try {
@@ -403,6 +402,8 @@ export async function recordTimestamp(): Promise<void> {
                   'Entry was deleted before photo could be attached:',
                   entryId,
                 );
+                // Drop burst frames saved for the removed entry
+                await photoStorage.deletePhoto(entryId);
                 return;
               }
 
@@ -541,14 +542,14 @@ function showConfirmation(entry: Entry): void {
 /**
  * Create snowflake burst particles on confirmation
  */
-function triggerSnowflakeBurst(point: 'S' | 'F'): void {
+function triggerSnowflakeBurst(point: TimingPoint): void {
   const burst = document.getElementById('snowflake-burst');
   if (!burst) return;
 
   // Clear previous burst
   burst.innerHTML = '';
 
-  const color = point === 'S' ? 'var(--start-color)' : 'var(--finish-color)';
+  const color = getPointColor(point);
   const flakeCount = 8;
 
   for (let i = 0; i < flakeCount; i++) {
@@ -730,13 +731,15 @@ export function handleTimerVoiceIntent(intent: VoiceIntent): void {
       }
       break;
 
-    case 'set_run':
-      if (intent.params?.run) {
-        store.setSelectedRun(intent.params.run);
+    case 'set_run': {
+      const run = intent.params?.run;
+      if (isValidRun(run, store.getState().runCount)) {
+        store.setSelectedRun(run);
         updateRunSelection();
         feedbackTap();
       }
       break;
+    }
 
     default:
       logger.debug('[TimerView] Unhandled voice intent:', intent.action);
@@ -72,6 +72,9 @@ export const translations = {
     copyDebugInfo: 'Copy debug info',
     faultNotes: 'Notes',
     judgesReadyCount: 'Judges ready',
+    coverageGaps: 'Gates without judge: {gates}',
+    coverageOverlaps: 'Gates watched twice: {gates}',
+    coverageIncomplete: 'Not all gates covered',
     selectAll: 'Select All',
     deleteSelected: 'Delete Selected',
 
@@ -138,6 +141,8 @@ export const translations = {
     gpsDesc: 'Use GPS for accurate timestamps',
     autoIncrementDesc: 'Increase bib number after recording',
     photoCaptureDesc: 'Capture photo on timestamp',
+    photoBurst: 'Photo-Finish Burst',
+    photoBurstDesc: 'Keep frames around each finish tap',
     hapticFeedbackDesc: 'Vibration on actions',
     soundFeedbackDesc: 'Audio confirmation',
     ambientMode: 'Ambient Mode',
@@ -177,6 +182,12 @@ export const translations = {
 
     // Photo sync
     photoTooLarge: 'Photo too large for sync',
+    photoLoadFailed: 'Photo could not be loaded',
+    burstFrame: 'Photo-finish frame',
+    burstPrevFrame: 'Previous frame',
+    burstNextFrame: 'Next frame',
+    suggestedBib: 'Suggested bib from photo: {bib}',
+    suggestedBibAccepted: 'Bib {bib} assigned',
     syncedEntriesFromCloud: 'Synced {count} entries from cloud',
     syncedFaultsFromCloud: 'Synced {count} faults from cloud',
     crossDeviceDuplicate:
@@ -380,6 +391,7 @@ export const translations = {
     faultSummary: 'Fault Summary',
     penaltyTime: 'Penalty',
     faultCount: 'faults',
+    racerAtYourGates: 'At your gates',
     markOk: 'Mark OK',
     saveFault: 'Save Fault',
     selectFaultType: 'Please select a fault type',
@@ -440,6 +452,7 @@ export const translations = {
       'This fault will be marked for deletion and requires Chief Judge approval to permanently delete.',
     markedForDeletion: 'Marked for deletion',
     deletionPending: 'Deletion pending',
+    faultReversedByJury: 'Reversed by jury decision',
     pendingDeletions: 'Pending Deletions',
     approveDeletion: 'Approve Deletion',
     rejectDeletion: 'Reject Deletion',
@@ -450,7 +463,7 @@ export const translations = {
 
     // Voice Mode
     voiceMode: 'Voice Mode',
-    voiceModeDesc: 'Hands-free voice commands (requires internet)',
+    voiceModeDesc: 'Hands-free voice commands (basic commands work offline)',
     voiceListening: 'Listening...',
     voiceProcessing: 'Processing...',
     voiceConfirming: 'Confirm?',
@@ -461,6 +474,7 @@ export const translations = {
     voiceRecorded: 'Recorded',
     voiceNotUnderstood: 'Not understood',
     voiceCancelled: 'Cancelled',
+    voiceConfirmFault: 'Bib {bib}, gate {gate}, {fault}. Correct?',
     voiceError: 'Voice error',
     voiceApiKeyRequired: 'API key required for voice mode',
 
@@ -474,12 +488,16 @@ export const translations = {
 
     // Localization - Gate Assignment Modal
     gateAssignmentInstructions: 'Enter the gate range you are responsible for:',
+    gateSuggestFromLocation: 'Suggest from my location',
+    gateSuggestNone: 'No recorded gates near your location',
+    gateSuggested: 'Gates {start}–{end} are near you',
 
     // Localization - Ready Status
     readySuffix: ' - Ready',
 
     // Localization - Aria Labels
     viewPhotoLabel: 'View photo',
+    acceptSuggestedBibLabel: 'Accept suggested bib {bib}',
     editEntryLabel: 'Edit entry',
     deleteEntryLabel: 'Delete entry',
     editFaultLabel: 'Edit fault',
@@ -532,8 +550,7 @@ export const translations = {
     shortcut_enterDigit: 'Enter bib digit',
     shortcut_selectStart: 'Select Start',
     shortcut_selectFinish: 'Select Finish',
-    shortcut_selectRun1: 'Select Run 1',
-    shortcut_selectRun2: 'Select Run 2',
+    shortcut_selectRun: 'Select run',
     shortcut_recordTime: 'Record timestamp',
     shortcut_clearBib: 'Clear bib',
     shortcut_deleteLastDigit: 'Delete last digit',
@@ -563,6 +580,212 @@ export const translations = {
     multiDeviceDuplicate: 'Multi-device',
     duplicateDevices: '{count} devices',
     duplicateCount: '{count} duplicates',
+
+    // Start list
+    startList: 'Start List',
+    importStartList: 'Import',
+    importStartListLabel: 'Import start list (CSV / Race Horology)',
+    startListImported: '{count} racers imported',
+    startListRowsSkipped: '{count} rows skipped',
+    startListEmpty: 'No racers found in file',
+    startListTooLarge: 'File is too large',
+    startListSyncFailed: 'Start list saved locally, cloud upload failed',
+    racerName: 'Name',
+
+    // Rankings
+    rankings: 'Rankings',
+    showRankings: 'Show rankings',
+    noRankings: 'No completed runs yet',
+    resultPending: 'On course',
+    rankingsPanel: 'Ranked results',
+
+    // Reconciliation
+    reconciliation: 'Reconciliation',
+    showReconciliation: 'Show reconciliation',
+    reconciliationPanel: 'Open timing issues',
+    noReconciliationIssues: 'All starts and finishes match',
+    startedNotFinished: 'Started, no finish',
+    finishedNotStarted: 'Finish, no start',
+    blankBibEntries: 'No bib',
+    duplicateEntries: 'Recorded by several devices',
+    assignBib: 'Assign bib',
+    keepEntry: 'Keep',
+    duplicatesMerged: 'Duplicates merged',
+    backupTimes: 'Backup times',
+    primaryTime: 'Primary',
+    backupTime: 'Backup',
+    backupTimeUsed: 'Backup time used',
+
+    // Manual time entry (backup hand timing)
+    manualTimeEntry: 'Enter manual time',
+    manualTimeHint: 'Backup hand timing when a timing device failed.',
+    manualTimeValue: 'Clock time (HH:MM:SS.cc)',
+    manualTimeOfficial: 'Entered by (official)',
+    manualTimeBibRequired: 'Enter a bib (1-3 digits)',
+    manualTimeInvalid: 'Enter the time as HH:MM:SS.cc',
+    manualTimeOfficialRequired: 'Enter the name of the official',
+    manualTimeSaved: 'Manual time saved',
+    manualTime: 'Manual time',
+    manualTimeShort: 'HAND',
+    manualTimeEnteredBy: 'Manual time entered by {name}',
+    manualTimeUsed: 'Hand time',
+
+    // Penalty rules per age category
+    penaltyRules: 'Rules by category',
+    penaltyRuleDefault: 'Std',
+    masters: 'Masters',
+    decreasePenaltySeconds: 'Decrease penalty seconds',
+    increasePenaltySeconds: 'Increase penalty seconds',
+    penaltyConfigSyncFailed: 'Penalty rules saved locally, cloud upload failed',
+
+    // Race PINs
+    racePins: 'Race PINs',
+    racePinsInfo:
+      'Crews of this race sign in with these PINs. Other races keep their own PINs.',
+    racePinsActive: "Signed in with this race's PINs",
+    racePinsGlobal: 'Using global PINs',
+    racePinsNoRace: 'Set a race ID first',
+    racePinLabel: 'Race PIN (timers and gate judges)',
+    raceChiefPinLabel: 'Chief Judge PIN for this race',
+    racePinsSaved: 'Race PINs saved',
+    racePinsForbidden: 'Only the Chief Judge of this race can set its PINs',
+
+    // Live results publishing
+    liveResults: 'Live Results',
+    liveResultsPublic: 'Public',
+    liveResultsPrivate: 'Private',
+    publishLiveResults: 'Publish',
+    unpublishLiveResults: 'Unpublish',
+    publishLiveResultsLabel: 'Publish or hide live results for spectators',
+    copyLiveResultsLinkLabel: 'Copy live results link',
+    liveResultsPublished: 'Live results published',
+    liveResultsUnpublished: 'Live results hidden from spectators',
+    liveResultsLinkCopied: 'Live results link copied',
+
+    // Intermediate timing points (split times)
+    intermediatePoints: 'Split Points',
+    decreaseIntermediatePoints: 'Remove split point',
+    increaseIntermediatePoints: 'Add split point',
+    raceConfigSyncFailed: 'Race settings saved locally, cloud upload failed',
+    shortcut_selectIntermediate: 'Next split point',
+
+    // Run count (race config)
+    runCount: 'Runs',
+    decreaseRunCount: 'Remove run',
+    increaseRunCount: 'Add run',
+
+    // Official timers (primary/backup devices per point)
+    primaryDevices: 'Official Timers',
+    primaryDeviceNone: 'Earliest time',
+
+    // Course map (gate positions recorded by walking the course)
+    courseMap: 'Course Map',
+    courseMapEmpty:
+      'No gate positions yet. Walk the course and record each gate where it stands.',
+    courseMapLabel: 'Course map with gate judge coverage',
+    courseRecordGate: 'Record gate {gate} here',
+    courseRemoveLastGate: 'Remove last gate',
+    courseGpsFix: 'Getting GPS position…',
+    courseGpsUnavailable: 'No GPS position available',
+    courseGpsInaccurate: 'GPS too inaccurate (±{accuracy} m), try again',
+    courseGateRecorded: 'Gate {gate} recorded',
+
+    // Protests (filed for team officials, decided by the jury)
+    protests: 'Protests',
+    fileProtest: 'File protest',
+    noProtests: 'No protests filed',
+    protestDeadlines: 'Protest deadlines',
+    protestDeadline: 'Protest deadline',
+    protestDeadlinePassed: 'The protest deadline for {run} has passed',
+    protestTarget: 'Protest against',
+    protestTargetNone: 'No faults or times for this bib and run',
+    protestRequestedStatus: 'Requested status',
+    protestFiledBy: 'Filed by (coach / team official)',
+    protestReason: 'Reason',
+    protestEvidenceNote: 'Evidence note',
+    protestEvidencePhotos: 'Evidence photos',
+    protestAddPhoto: 'Add photo',
+    protestPhotoLimit: 'Up to {count} photos per protest',
+    protestPhotoFailed: 'Photo could not be loaded',
+    protestFiled: 'Protest filed',
+    protestFileFailed: 'Protest could not be filed. Check the connection.',
+    protestIncomplete: 'Enter bib, protest target, filed by and reason',
+    protestRequiresSync: 'Protests require cloud sync',
+    protestOpen: 'Open',
+    protestUpheld: 'Upheld',
+    protestRejected: 'Rejected',
+    showEvidence: 'Show photos ({count})',
+    juryDecision: 'Jury decision',
+    decideProtest: 'Record jury decision',
+    protestOutcome: 'Outcome',
+    votesFor: 'For',
+    votesAgainst: 'Against',
+    abstentions: 'Abstentions',
+    protestRationale: 'Rationale',
+    recordDecision: 'Record decision',
+    protestVotes: 'Vote {for}:{against}, {abstentions} abstained',
+    protestDecisionIncomplete: 'Enter the votes and a rationale',
+    protestOutcomeMismatch:
+      'The outcome must match the vote: upheld needs more votes for than against',
+    protestDecided: 'Jury decision recorded',
+    protestDecisionFailed:
+      'Decision could not be recorded. It may already have been decided.',
+    protestFaultReversed: 'Fault reversed by jury decision',
+    protestStatusChanged: 'Status changed to {status} by jury decision',
+    protestTargetMissing:
+      'The protested fault or time is not in the cloud - correct it by hand',
+
+    // Clock health (device clocks reported with sync)
+    clockHealth: 'Clock Health',
+    clockHealthEmpty:
+      'No clock reports yet. Devices report their clock with each sync.',
+    clockOffset: 'Offset',
+    clockSourceServer: 'Server clock',
+    clockSourceSystem: 'System clock',
+    clockLastSync: '{seconds} s ago',
+    clockDriftWarning: 'Start and finish clocks differ by {drift}',
+    clockDriftWarningRun:
+      'Start and finish clocks differ by {drift}. Check the clocks before run {run} starts.',
+
+    // Race definition
+    newRace: 'New Race',
+    editRace: 'Edit race',
+    raceDefinition: 'Race Details',
+    raceName: 'Race name',
+    raceVenue: 'Venue',
+    discipline: 'Discipline',
+    disciplineSL: 'Slalom',
+    disciplineGS: 'Giant Slalom',
+    disciplineSG: 'Super-G',
+    gateCount: 'Gates',
+    homologationNumber: 'Homologation no.',
+    jury: 'Jury',
+    juryTechnicalDelegate: 'Technical Delegate',
+    juryReferee: 'Referee',
+    juryChiefOfRace: 'Chief of Race',
+    raceDefinitionSaved: 'Race saved',
+    raceDefinitionInvalid: 'Enter a valid race ID and race name',
+    raceDefinitionChiefJudgeOnly: 'Only the Chief Judge can edit race details',
+
+    // Start order
+    startOrder: 'Start order',
+    planStartOrder: 'Plan start order',
+    nextUp: 'Next',
+    startOrderMethod: 'Order',
+    startOrderDraw: 'Draw (seeded groups)',
+    startOrderReverse: 'Reverse previous run',
+    startOrderBib: 'Bib order',
+    seedGroupSize: 'Seed group size',
+    reverseCount: 'Reversed racers',
+    firstStart: 'First start',
+    startInterval: 'Start interval (s)',
+    generateStartOrder: 'Generate',
+    clearStartOrder: 'Clear',
+    startOrderGenerated: 'Start order planned: {count} racers',
+    startOrderCleared: 'Start order cleared',
+    startOrderNoRacers:
+      'No racers to order - import a start list or finish the previous run first',
+    startOrderCountdownLabel: 'Time to planned start',
   },
 
   de: {
@@ -636,6 +859,9 @@ export const translations = {
     copyDebugInfo: 'Debug-Info kopieren',
     faultNotes: 'Notizen',
     judgesReadyCount: 'Torrichter bereit',
+    coverageGaps: 'Tore ohne Torrichter: {gates}',
+    coverageOverlaps: 'Doppelt besetzte Tore: {gates}',
+    coverageIncomplete: 'Nicht alle Tore besetzt',
     selectAll: 'Alle auswählen',
     deleteSelected: 'Ausgewählte löschen',
 
@@ -702,6 +928,8 @@ export const translations = {
     gpsDesc: 'GPS für genaue Zeitstempel verwenden',
     autoIncrementDesc: 'Startnr. nach Erfassung erhöhen',
     photoCaptureDesc: 'Foto bei Zeiterfassung aufnehmen',
+    photoBurst: 'Zielfoto-Serie',
+    photoBurstDesc: 'Bilder rund um jede Ziel-Erfassung speichern',
     hapticFeedbackDesc: 'Vibration bei Aktionen',
     soundFeedbackDesc: 'Akustische Bestätigung',
     ambientMode: 'Ruhemodus',
@@ -741,6 +969,12 @@ export const translations = {
 
     // Photo sync
     photoTooLarge: 'Foto zu groß für Sync',
+    photoLoadFailed: 'Foto konnte nicht geladen werden',
+    burstFrame: 'Zielfoto-Bild',
+    burstPrevFrame: 'Vorheriges Bild',
+    burstNextFrame: 'Nächstes Bild',
+    suggestedBib: 'Startnummer aus Foto: {bib}',
+    suggestedBibAccepted: 'Startnummer {bib} zugewiesen',
     syncedEntriesFromCloud: '{count} Einträge aus Cloud synchronisiert',
     syncedFaultsFromCloud: '{count} Torfehler aus Cloud synchronisiert',
     crossDeviceDuplicate:
@@ -953,6 +1187,7 @@ export const translations = {
     faultSummary: 'Fehler-Übersicht',
     penaltyTime: 'Strafzeit',
     faultCount: 'Fehler',
+    racerAtYourGates: 'Bei deinen Toren',
     markOk: 'OK markieren',
     saveFault: 'Fehler speichern',
     selectFaultType: 'Bitte Fehlerart wählen',
@@ -1013,6 +1248,7 @@ export const translations = {
       'Dieser Fehler wird zum Löschen markiert und benötigt die Genehmigung des Obmanns für die endgültige Löschung.',
     markedForDeletion: 'Zum Löschen markiert',
     deletionPending: 'Löschung ausstehend',
+    faultReversedByJury: 'Durch Juryentscheid aufgehoben',
     pendingDeletions: 'Ausstehende Löschungen',
     approveDeletion: 'Löschung genehmigen',
     rejectDeletion: 'Löschung ablehnen',
@@ -1024,7 +1260,7 @@ export const translations = {
 
     // Voice Mode
     voiceMode: 'Sprachsteuerung',
-    voiceModeDesc: 'Freihändige Sprachbefehle (Internet erforderlich)',
+    voiceModeDesc: 'Freihändige Sprachbefehle (Grundbefehle auch offline)',
     voiceListening: 'Höre zu...',
     voiceProcessing: 'Verarbeite...',
     voiceConfirming: 'Bestätigen?',
@@ -1035,6 +1271,7 @@ export const translations = {
     voiceRecorded: 'Erfasst',
     voiceNotUnderstood: 'Nicht verstanden',
     voiceCancelled: 'Abgebrochen',
+    voiceConfirmFault: 'Startnummer {bib}, Tor {gate}, {fault}. Richtig?',
     voiceError: 'Sprachfehler',
     voiceApiKeyRequired: 'API-Schlüssel für Sprachsteuerung erforderlich',
 
@@ -1049,12 +1286,16 @@ export const translations = {
     // Localization - Gate Assignment Modal
     gateAssignmentInstructions:
       'Gib den Torbereich ein, für den du verantwortlich bist:',
+    gateSuggestFromLocation: 'Aus meinem Standort vorschlagen',
+    gateSuggestNone: 'Keine erfassten Tore in deiner Nähe',
+    gateSuggested: 'Tore {start}–{end} sind in deiner Nähe',
 
     // Localization - Ready Status
     readySuffix: ' - Bereit',
 
     // Localization - Aria Labels
     viewPhotoLabel: 'Foto anzeigen',
+    acceptSuggestedBibLabel: 'Vorgeschlagene Startnummer {bib} übernehmen',
     editEntryLabel: 'Eintrag bearbeiten',
     deleteEntryLabel: 'Eintrag löschen',
     editFaultLabel: 'Fehler bearbeiten',
@@ -1107,8 +1348,7 @@ export const translations = {
     shortcut_enterDigit: 'Startnr.-Ziffer eingeben',
     shortcut_selectStart: 'Start wählen',
     shortcut_selectFinish: 'Ziel wählen',
-    shortcut_selectRun1: 'Lauf 1 wählen',
-    shortcut_selectRun2: 'Lauf 2 wählen',
+    shortcut_selectRun: 'Lauf wählen',
     shortcut_recordTime: 'Zeitstempel erfassen',
     shortcut_clearBib: 'Startnr. löschen',
     shortcut_deleteLastDigit: 'Letzte Ziffer löschen',
@@ -1138,6 +1378,220 @@ export const translations = {
     multiDeviceDuplicate: 'Mehrere Geräte',
     duplicateDevices: '{count} Geräte',
     duplicateCount: '{count} Duplikate',
+
+    // Start list
+    startList: 'Startliste',
+    importStartList: 'Importieren',
+    importStartListLabel: 'Startliste importieren (CSV / Race Horology)',
+    startListImported: '{count} Läufer importiert',
+    startListRowsSkipped: '{count} Zeilen übersprungen',
+    startListEmpty: 'Keine Läufer in der Datei gefunden',
+    startListTooLarge: 'Datei ist zu groß',
+    startListSyncFailed:
+      'Startliste lokal gespeichert, Cloud-Upload fehlgeschlagen',
+    racerName: 'Name',
+
+    // Rankings
+    rankings: 'Rangliste',
+    showRankings: 'Rangliste anzeigen',
+    noRankings: 'Noch keine abgeschlossenen Läufe',
+    resultPending: 'Auf der Strecke',
+    rankingsPanel: 'Rangliste',
+
+    // Reconciliation
+    reconciliation: 'Abgleich',
+    showReconciliation: 'Abgleich anzeigen',
+    reconciliationPanel: 'Offene Zeitnahme-Probleme',
+    noReconciliationIssues: 'Alle Starts und Zieleinläufe passen zusammen',
+    startedNotFinished: 'Gestartet, kein Ziel',
+    finishedNotStarted: 'Ziel, kein Start',
+    blankBibEntries: 'Ohne Startnummer',
+    duplicateEntries: 'Von mehreren Geräten erfasst',
+    assignBib: 'Startnummer zuweisen',
+    keepEntry: 'Behalten',
+    duplicatesMerged: 'Duplikate zusammengeführt',
+    backupTimes: 'Backup-Zeiten',
+    primaryTime: 'Haupt',
+    backupTime: 'Backup',
+    backupTimeUsed: 'Backup-Zeit verwendet',
+
+    // Manual time entry (backup hand timing)
+    manualTimeEntry: 'Handzeit eingeben',
+    manualTimeHint:
+      'Handzeitnahme als Backup, wenn ein Zeitmessgerät ausfällt.',
+    manualTimeValue: 'Uhrzeit (HH:MM:SS.hh)',
+    manualTimeOfficial: 'Eingegeben von (Offizieller)',
+    manualTimeBibRequired: 'Startnummer eingeben (1-3 Ziffern)',
+    manualTimeInvalid: 'Zeit als HH:MM:SS.hh eingeben',
+    manualTimeOfficialRequired: 'Namen des Offiziellen eingeben',
+    manualTimeSaved: 'Handzeit gespeichert',
+    manualTime: 'Handzeit',
+    manualTimeShort: 'HAND',
+    manualTimeEnteredBy: 'Handzeit eingegeben von {name}',
+    manualTimeUsed: 'Handzeit',
+
+    // Penalty rules per age category
+    penaltyRules: 'Regeln nach Klasse',
+    penaltyRuleDefault: 'Std',
+    masters: 'Masters',
+    decreasePenaltySeconds: 'Strafsekunden verringern',
+    increasePenaltySeconds: 'Strafsekunden erhöhen',
+    penaltyConfigSyncFailed:
+      'Strafregeln lokal gespeichert, Cloud-Upload fehlgeschlagen',
+
+    // Race PINs
+    racePins: 'Rennen-PINs',
+    racePinsInfo:
+      'Die Crew dieses Rennens meldet sich mit diesen PINs an. Andere Rennen behalten ihre eigenen PINs.',
+    racePinsActive: 'Mit den PINs dieses Rennens angemeldet',
+    racePinsGlobal: 'Globale PINs werden verwendet',
+    racePinsNoRace: 'Zuerst eine Rennen-ID festlegen',
+    racePinLabel: 'Rennen-PIN (Zeitnehmer und Torrichter)',
+    raceChiefPinLabel: 'Obmann-PIN für dieses Rennen',
+    racePinsSaved: 'Rennen-PINs gespeichert',
+    racePinsForbidden: 'Nur der Obmann dieses Rennens kann die PINs festlegen',
+
+    // Live results publishing
+    liveResults: 'Live-Ergebnisse',
+    liveResultsPublic: 'Öffentlich',
+    liveResultsPrivate: 'Privat',
+    publishLiveResults: 'Veröffentlichen',
+    unpublishLiveResults: 'Verbergen',
+    publishLiveResultsLabel:
+      'Live-Ergebnisse für Zuschauer veröffentlichen oder verbergen',
+    copyLiveResultsLinkLabel: 'Link zu Live-Ergebnissen kopieren',
+    liveResultsPublished: 'Live-Ergebnisse veröffentlicht',
+    liveResultsUnpublished: 'Live-Ergebnisse für Zuschauer verborgen',
+    liveResultsLinkCopied: 'Link zu Live-Ergebnissen kopiert',
+
+    // Intermediate timing points (split times)
+    intermediatePoints: 'Zwischenzeiten',
+    decreaseIntermediatePoints: 'Zwischenzeit entfernen',
+    increaseIntermediatePoints: 'Zwischenzeit hinzufügen',
+    raceConfigSyncFailed:
+      'Renneinstellungen lokal gespeichert, Cloud-Upload fehlgeschlagen',
+    shortcut_selectIntermediate: 'Nächste Zwischenzeit',
+
+    // Run count (race config)
+    runCount: 'Läufe',
+    decreaseRunCount: 'Lauf entfernen',
+    increaseRunCount: 'Lauf hinzufügen',
+
+    // Official timers (primary/backup devices per point)
+    primaryDevices: 'Offizielle Zeitnehmer',
+    primaryDeviceNone: 'Früheste Zeit',
+
+    // Kursplan (Torpositionen beim Abgehen des Kurses erfasst)
+    courseMap: 'Kursplan',
+    courseMapEmpty:
+      'Noch keine Torpositionen. Geh den Kurs ab und erfasse jedes Tor an seinem Standort.',
+    courseMapLabel: 'Kursplan mit Abdeckung der Torrichter',
+    courseRecordGate: 'Tor {gate} hier erfassen',
+    courseRemoveLastGate: 'Letztes Tor entfernen',
+    courseGpsFix: 'GPS-Position wird ermittelt…',
+    courseGpsUnavailable: 'Keine GPS-Position verfügbar',
+    courseGpsInaccurate: 'GPS zu ungenau (±{accuracy} m), erneut versuchen',
+    courseGateRecorded: 'Tor {gate} erfasst',
+
+    // Proteste (für Mannschaftsführer erfasst, von der Jury entschieden)
+    protests: 'Proteste',
+    fileProtest: 'Protest erfassen',
+    noProtests: 'Keine Proteste eingereicht',
+    protestDeadlines: 'Protestfristen',
+    protestDeadline: 'Protestfrist',
+    protestDeadlinePassed: 'Die Protestfrist für {run} ist abgelaufen',
+    protestTarget: 'Protest gegen',
+    protestTargetNone:
+      'Keine Fehler oder Zeiten für diese Startnummer und diesen Lauf',
+    protestRequestedStatus: 'Beantragter Status',
+    protestFiledBy: 'Eingereicht von (Trainer / Mannschaftsführer)',
+    protestReason: 'Begründung',
+    protestEvidenceNote: 'Beweisnotiz',
+    protestEvidencePhotos: 'Beweisfotos',
+    protestAddPhoto: 'Foto hinzufügen',
+    protestPhotoLimit: 'Höchstens {count} Fotos pro Protest',
+    protestPhotoFailed: 'Foto konnte nicht geladen werden',
+    protestFiled: 'Protest erfasst',
+    protestFileFailed:
+      'Protest konnte nicht erfasst werden. Prüfe die Verbindung.',
+    protestIncomplete:
+      'Startnummer, Protestgegenstand, Einreicher und Begründung eingeben',
+    protestRequiresSync: 'Proteste erfordern Cloud-Sync',
+    protestOpen: 'Offen',
+    protestUpheld: 'Gutgeheissen',
+    protestRejected: 'Abgewiesen',
+    showEvidence: 'Fotos anzeigen ({count})',
+    juryDecision: 'Juryentscheid',
+    decideProtest: 'Juryentscheid erfassen',
+    protestOutcome: 'Entscheid',
+    votesFor: 'Dafür',
+    votesAgainst: 'Dagegen',
+    abstentions: 'Enthaltungen',
+    protestRationale: 'Begründung',
+    recordDecision: 'Entscheid erfassen',
+    protestVotes: 'Abstimmung {for}:{against}, {abstentions} Enthaltungen',
+    protestDecisionIncomplete: 'Stimmen und Begründung eingeben',
+    protestOutcomeMismatch:
+      'Der Entscheid muss der Abstimmung entsprechen: Stattgeben braucht mehr Ja- als Nein-Stimmen',
+    protestDecided: 'Juryentscheid erfasst',
+    protestDecisionFailed:
+      'Entscheid konnte nicht erfasst werden. Möglicherweise wurde bereits entschieden.',
+    protestFaultReversed: 'Fehler durch Juryentscheid aufgehoben',
+    protestStatusChanged: 'Status durch Juryentscheid auf {status} geändert',
+    protestTargetMissing:
+      'Der beanstandete Fehler bzw. die Zeit ist nicht in der Cloud - bitte von Hand korrigieren',
+
+    // Uhrenstatus (mit der Synchronisierung gemeldete Geräteuhren)
+    clockHealth: 'Uhrenstatus',
+    clockHealthEmpty:
+      'Noch keine Uhrzeitmeldungen. Geräte melden ihre Uhr bei jeder Synchronisierung.',
+    clockOffset: 'Abweichung',
+    clockSourceServer: 'Serveruhr',
+    clockSourceSystem: 'Systemuhr',
+    clockLastSync: 'vor {seconds} s',
+    clockDriftWarning: 'Start- und Zieluhr weichen um {drift} ab',
+    clockDriftWarningRun:
+      'Start- und Zieluhr weichen um {drift} ab. Uhren vor dem Start von Lauf {run} prüfen.',
+
+    // Race definition
+    newRace: 'Neues Rennen',
+    editRace: 'Rennen bearbeiten',
+    raceDefinition: 'Renndaten',
+    raceName: 'Rennname',
+    raceVenue: 'Ort',
+    discipline: 'Disziplin',
+    disciplineSL: 'Slalom',
+    disciplineGS: 'Riesenslalom',
+    disciplineSG: 'Super-G',
+    gateCount: 'Tore',
+    homologationNumber: 'Homologationsnr.',
+    jury: 'Jury',
+    juryTechnicalDelegate: 'Technischer Delegierter',
+    juryReferee: 'Schiedsrichter',
+    juryChiefOfRace: 'Rennleiter',
+    raceDefinitionSaved: 'Rennen gespeichert',
+    raceDefinitionInvalid: 'Gültige Rennen-ID und Rennnamen eingeben',
+    raceDefinitionChiefJudgeOnly: 'Nur der Obmann kann Renndaten bearbeiten',
+
+    // Start order
+    startOrder: 'Startreihenfolge',
+    planStartOrder: 'Startreihenfolge planen',
+    nextUp: 'Nächster',
+    startOrderMethod: 'Reihenfolge',
+    startOrderDraw: 'Auslosung (Startgruppen)',
+    startOrderReverse: 'Vorlauf umgekehrt',
+    startOrderBib: 'Nach Startnummer',
+    seedGroupSize: 'Gruppengröße',
+    reverseCount: 'Umgekehrte Läufer',
+    firstStart: 'Erster Start',
+    startInterval: 'Startintervall (s)',
+    generateStartOrder: 'Erstellen',
+    clearStartOrder: 'Löschen',
+    startOrderGenerated: 'Startreihenfolge geplant: {count} Läufer',
+    startOrderCleared: 'Startreihenfolge gelöscht',
+    startOrderNoRacers:
+      'Keine Läufer - zuerst Startliste importieren oder Vorlauf abschließen',
+    startOrderCountdownLabel: 'Zeit bis zum geplanten Start',
   },
 
   fr: {
@@ -1211,6 +1665,9 @@ export const translations = {
     copyDebugInfo: 'Copier les infos de débogage',
     faultNotes: 'Notes',
     judgesReadyCount: 'Juges prêts',
+    coverageGaps: 'Portes sans juge : {gates}',
+    coverageOverlaps: 'Portes surveillées en double : {gates}',
+    coverageIncomplete: 'Toutes les portes ne sont pas couvertes',
     selectAll: 'Tout sélectionner',
     deleteSelected: 'Supprimer la sélection',
 
@@ -1278,6 +1735,8 @@ export const translations = {
     gpsDesc: 'Utiliser le GPS pour des horodatages précis',
     autoIncrementDesc: "Augmenter le numéro de dossard après l'enregistrement",
     photoCaptureDesc: "Capturer une photo à l'enregistrement du temps",
+    photoBurst: 'Rafale photo-finish',
+    photoBurstDesc: 'Garder les images autour de chaque arrivée',
     hapticFeedbackDesc: 'Vibration lors des actions',
     soundFeedbackDesc: 'Confirmation sonore',
     ambientMode: 'Mode veille',
@@ -1317,6 +1776,12 @@ export const translations = {
 
     // Photo sync
     photoTooLarge: 'Photo trop volumineuse pour la sync',
+    photoLoadFailed: 'Impossible de charger la photo',
+    burstFrame: 'Image photo-finish',
+    burstPrevFrame: 'Image précédente',
+    burstNextFrame: 'Image suivante',
+    suggestedBib: 'Dossard suggéré par la photo : {bib}',
+    suggestedBibAccepted: 'Dossard {bib} attribué',
     syncedEntriesFromCloud: '{count} entrées synchronisées depuis le cloud',
     syncedFaultsFromCloud: '{count} fautes synchronisées depuis le cloud',
     crossDeviceDuplicate:
@@ -1535,6 +2000,7 @@ export const translations = {
     faultSummary: 'Résumé des fautes',
     penaltyTime: 'Pénalité',
     faultCount: 'fautes',
+    racerAtYourGates: 'À vos portes',
     markOk: 'Marquer OK',
     saveFault: 'Enregistrer la faute',
     selectFaultType: 'Veuillez sélectionner un type de faute',
@@ -1595,6 +2061,7 @@ export const translations = {
       "Cette faute sera marquée pour suppression et nécessite l'approbation du Directeur de course pour être définitivement supprimée.",
     markedForDeletion: 'Marquée pour suppression',
     deletionPending: 'Suppression en attente',
+    faultReversedByJury: 'Annulée par décision du jury',
     pendingDeletions: 'Suppressions en attente',
     approveDeletion: 'Approuver la suppression',
     rejectDeletion: 'Rejeter la suppression',
@@ -1606,7 +2073,8 @@ export const translations = {
 
     // Voice Mode
     voiceMode: 'Mode vocal',
-    voiceModeDesc: 'Commandes vocales mains libres (Internet requis)',
+    voiceModeDesc:
+      'Commandes vocales mains libres (commandes de base hors ligne)',
     voiceListening: 'Écoute...',
     voiceProcessing: 'Traitement...',
     voiceConfirming: 'Confirmer ?',
@@ -1617,6 +2085,7 @@ export const translations = {
     voiceRecorded: 'Enregistré',
     voiceNotUnderstood: 'Non compris',
     voiceCancelled: 'Annulé',
+    voiceConfirmFault: 'Dossard {bib}, porte {gate}, {fault}. Correct ?',
     voiceError: 'Erreur vocale',
     voiceApiKeyRequired: 'Clé API requise pour le mode vocal',
 
@@ -1631,12 +2100,16 @@ export const translations = {
     // Localization - Gate Assignment Modal
     gateAssignmentInstructions:
       'Entrez la zone de portes dont vous êtes responsable :',
+    gateSuggestFromLocation: 'Proposer selon ma position',
+    gateSuggestNone: 'Aucune porte enregistrée près de votre position',
+    gateSuggested: 'Les portes {start}–{end} sont près de vous',
 
     // Localization - Ready Status
     readySuffix: ' - Prêt',
 
     // Localization - Aria Labels
     viewPhotoLabel: 'Voir la photo',
+    acceptSuggestedBibLabel: 'Accepter le dossard suggéré {bib}',
     editEntryLabel: "Modifier l'entrée",
     deleteEntryLabel: "Supprimer l'entrée",
     editFaultLabel: 'Modifier la faute',
@@ -1689,8 +2162,7 @@ export const translations = {
     shortcut_enterDigit: 'Entrer un chiffre de dossard',
     shortcut_selectStart: 'Sélectionner Départ',
     shortcut_selectFinish: 'Sélectionner Arrivée',
-    shortcut_selectRun1: 'Sélectionner Manche 1',
-    shortcut_selectRun2: 'Sélectionner Manche 2',
+    shortcut_selectRun: 'Sélectionner la manche',
     shortcut_recordTime: 'Enregistrer le temps',
     shortcut_clearBib: 'Effacer le dossard',
     shortcut_deleteLastDigit: 'Supprimer le dernier chiffre',
@@ -1721,6 +2193,223 @@ export const translations = {
     multiDeviceDuplicate: 'Multi-appareils',
     duplicateDevices: '{count} appareils',
     duplicateCount: '{count} doublons',
+
+    // Start list
+    startList: 'Liste de départ',
+    importStartList: 'Importer',
+    importStartListLabel: 'Importer la liste de départ (CSV / Race Horology)',
+    startListImported: '{count} coureurs importés',
+    startListRowsSkipped: '{count} lignes ignorées',
+    startListEmpty: 'Aucun coureur trouvé dans le fichier',
+    startListTooLarge: 'Fichier trop volumineux',
+    startListSyncFailed:
+      "Liste enregistrée localement, échec de l'envoi au cloud",
+    racerName: 'Nom',
+
+    // Rankings
+    rankings: 'Classement',
+    showRankings: 'Afficher le classement',
+    noRankings: 'Aucune manche terminée',
+    resultPending: 'En piste',
+    rankingsPanel: 'Classement',
+
+    // Reconciliation
+    reconciliation: 'Rapprochement',
+    showReconciliation: 'Afficher le rapprochement',
+    reconciliationPanel: 'Problèmes de chronométrage ouverts',
+    noReconciliationIssues: 'Tous les départs et arrivées correspondent',
+    startedNotFinished: 'Parti, sans arrivée',
+    finishedNotStarted: 'Arrivée, sans départ',
+    blankBibEntries: 'Sans dossard',
+    duplicateEntries: 'Enregistré par plusieurs appareils',
+    assignBib: 'Attribuer un dossard',
+    keepEntry: 'Garder',
+    duplicatesMerged: 'Doublons fusionnés',
+    backupTimes: 'Temps de secours',
+    primaryTime: 'Principal',
+    backupTime: 'Secours',
+    backupTimeUsed: 'Temps de secours utilisé',
+
+    // Manual time entry (backup hand timing)
+    manualTimeEntry: 'Saisir un temps manuel',
+    manualTimeHint:
+      "Chronométrage manuel de secours en cas de panne d'un appareil.",
+    manualTimeValue: 'Heure (HH:MM:SS.cc)',
+    manualTimeOfficial: 'Saisi par (officiel)',
+    manualTimeBibRequired: 'Saisissez un dossard (1 à 3 chiffres)',
+    manualTimeInvalid: "Saisissez l'heure au format HH:MM:SS.cc",
+    manualTimeOfficialRequired: "Saisissez le nom de l'officiel",
+    manualTimeSaved: 'Temps manuel enregistré',
+    manualTime: 'Temps manuel',
+    manualTimeShort: 'MAN',
+    manualTimeEnteredBy: 'Temps manuel saisi par {name}',
+    manualTimeUsed: 'Temps manuel',
+
+    // Penalty rules per age category
+    penaltyRules: 'Règles par catégorie',
+    penaltyRuleDefault: 'Std',
+    masters: 'Masters',
+    decreasePenaltySeconds: 'Diminuer les secondes de pénalité',
+    increasePenaltySeconds: 'Augmenter les secondes de pénalité',
+    penaltyConfigSyncFailed:
+      "Règles de pénalité enregistrées localement, échec de l'envoi au cloud",
+
+    // Race PINs
+    racePins: 'PIN de course',
+    racePinsInfo:
+      "L'équipe de cette course se connecte avec ces PIN. Les autres courses gardent leurs propres PIN.",
+    racePinsActive: 'Connecté avec les PIN de cette course',
+    racePinsGlobal: 'PIN globaux utilisés',
+    racePinsNoRace: "Définissez d'abord un ID de course",
+    racePinLabel: 'PIN de course (chronométreurs et juges de porte)',
+    raceChiefPinLabel: 'PIN Directeur de course pour cette course',
+    racePinsSaved: 'PIN de course enregistrés',
+    racePinsForbidden:
+      'Seul le Directeur de course de cette course peut définir ses PIN',
+
+    // Live results publishing
+    liveResults: 'Résultats en direct',
+    liveResultsPublic: 'Public',
+    liveResultsPrivate: 'Privé',
+    publishLiveResults: 'Publier',
+    unpublishLiveResults: 'Masquer',
+    publishLiveResultsLabel:
+      'Publier ou masquer les résultats en direct pour les spectateurs',
+    copyLiveResultsLinkLabel: 'Copier le lien des résultats en direct',
+    liveResultsPublished: 'Résultats en direct publiés',
+    liveResultsUnpublished: 'Résultats en direct masqués aux spectateurs',
+    liveResultsLinkCopied: 'Lien des résultats en direct copié',
+
+    // Intermediate timing points (split times)
+    intermediatePoints: 'Temps intermédiaires',
+    decreaseIntermediatePoints: 'Retirer un point intermédiaire',
+    increaseIntermediatePoints: 'Ajouter un point intermédiaire',
+    raceConfigSyncFailed:
+      "Paramètres de course enregistrés localement, échec de l'envoi au cloud",
+    shortcut_selectIntermediate: 'Point intermédiaire suivant',
+
+    // Run count (race config)
+    runCount: 'Manches',
+    decreaseRunCount: 'Retirer une manche',
+    increaseRunCount: 'Ajouter une manche',
+
+    // Official timers (primary/backup devices per point)
+    primaryDevices: 'Chronos officiels',
+    primaryDeviceNone: 'Temps le plus tôt',
+
+    // Plan du tracé (positions des portes relevées en parcourant le tracé)
+    courseMap: 'Plan du tracé',
+    courseMapEmpty:
+      'Aucune position de porte. Parcourez le tracé et enregistrez chaque porte à son emplacement.',
+    courseMapLabel: 'Plan du tracé avec la couverture des juges de porte',
+    courseRecordGate: 'Enregistrer la porte {gate} ici',
+    courseRemoveLastGate: 'Supprimer la dernière porte',
+    courseGpsFix: 'Position GPS en cours…',
+    courseGpsUnavailable: 'Aucune position GPS disponible',
+    courseGpsInaccurate: 'GPS trop imprécis (±{accuracy} m), réessayez',
+    courseGateRecorded: 'Porte {gate} enregistrée',
+
+    // Réclamations (saisies pour les chefs d'équipe, décidées par le jury)
+    protests: 'Réclamations',
+    fileProtest: 'Saisir une réclamation',
+    noProtests: 'Aucune réclamation déposée',
+    protestDeadlines: 'Délais de réclamation',
+    protestDeadline: 'Délai de réclamation',
+    protestDeadlinePassed: 'Le délai de réclamation pour {run} est dépassé',
+    protestTarget: 'Réclamation contre',
+    protestTargetNone:
+      'Aucune faute ni aucun temps pour ce dossard et cette manche',
+    protestRequestedStatus: 'Statut demandé',
+    protestFiledBy: "Déposée par (entraîneur / chef d'équipe)",
+    protestReason: 'Motif',
+    protestEvidenceNote: 'Note de preuve',
+    protestEvidencePhotos: 'Photos de preuve',
+    protestAddPhoto: 'Ajouter une photo',
+    protestPhotoLimit: "Jusqu'à {count} photos par réclamation",
+    protestPhotoFailed: "La photo n'a pas pu être chargée",
+    protestFiled: 'Réclamation saisie',
+    protestFileFailed:
+      "La réclamation n'a pas pu être saisie. Vérifiez la connexion.",
+    protestIncomplete: 'Saisissez dossard, objet, déposant et motif',
+    protestRequiresSync:
+      'Les réclamations nécessitent la synchronisation cloud',
+    protestOpen: 'Ouverte',
+    protestUpheld: 'Admise',
+    protestRejected: 'Rejetée',
+    showEvidence: 'Afficher les photos ({count})',
+    juryDecision: 'Décision du jury',
+    decideProtest: 'Saisir la décision du jury',
+    protestOutcome: 'Décision',
+    votesFor: 'Pour',
+    votesAgainst: 'Contre',
+    abstentions: 'Abstentions',
+    protestRationale: 'Motivation',
+    recordDecision: 'Enregistrer la décision',
+    protestVotes: 'Vote {for}:{against}, {abstentions} abstention(s)',
+    protestDecisionIncomplete: 'Saisissez les votes et une motivation',
+    protestOutcomeMismatch:
+      "La décision doit suivre le vote : l'admission exige plus de voix pour que contre",
+    protestDecided: 'Décision du jury enregistrée',
+    protestDecisionFailed:
+      "La décision n'a pas pu être enregistrée. Elle a peut-être déjà été prise.",
+    protestFaultReversed: 'Faute annulée par décision du jury',
+    protestStatusChanged: 'Statut changé en {status} par décision du jury',
+    protestTargetMissing:
+      "La faute ou le temps contesté n'est pas dans le cloud - corrigez-le à la main",
+
+    // État des horloges (horloges des appareils transmises à la synchro)
+    clockHealth: 'État des horloges',
+    clockHealthEmpty:
+      'Aucune horloge transmise. Les appareils transmettent leur horloge à chaque synchro.',
+    clockOffset: 'Écart',
+    clockSourceServer: 'Horloge serveur',
+    clockSourceSystem: 'Horloge système',
+    clockLastSync: 'il y a {seconds} s',
+    clockDriftWarning:
+      "Les horloges du départ et de l'arrivée diffèrent de {drift}",
+    clockDriftWarningRun:
+      "Les horloges du départ et de l'arrivée diffèrent de {drift}. Vérifiez-les avant le départ de la manche {run}.",
+
+    // Race definition
+    newRace: 'Nouvelle course',
+    editRace: 'Modifier la course',
+    raceDefinition: 'Détails de la course',
+    raceName: 'Nom de la course',
+    raceVenue: 'Lieu',
+    discipline: 'Discipline',
+    disciplineSL: 'Slalom',
+    disciplineGS: 'Slalom géant',
+    disciplineSG: 'Super-G',
+    gateCount: 'Portes',
+    homologationNumber: "N° d'homologation",
+    jury: 'Jury',
+    juryTechnicalDelegate: 'Délégué technique',
+    juryReferee: 'Arbitre',
+    juryChiefOfRace: 'Chef de course',
+    raceDefinitionSaved: 'Course enregistrée',
+    raceDefinitionInvalid: 'Saisissez un ID et un nom de course valides',
+    raceDefinitionChiefJudgeOnly:
+      'Seul le directeur de course peut modifier les détails de la course',
+
+    // Start order
+    startOrder: 'Ordre de départ',
+    planStartOrder: "Planifier l'ordre de départ",
+    nextUp: 'Suivant',
+    startOrderMethod: 'Ordre',
+    startOrderDraw: 'Tirage (groupes)',
+    startOrderReverse: 'Inverser la manche précédente',
+    startOrderBib: 'Par dossard',
+    seedGroupSize: 'Taille des groupes',
+    reverseCount: 'Coureurs inversés',
+    firstStart: 'Premier départ',
+    startInterval: 'Intervalle de départ (s)',
+    generateStartOrder: 'Générer',
+    clearStartOrder: 'Effacer',
+    startOrderGenerated: 'Ordre de départ planifié : {count} coureurs',
+    startOrderCleared: 'Ordre de départ effacé',
+    startOrderNoRacers:
+      "Aucun coureur - importez d'abord une liste de départ ou terminez la manche précédente",
+    startOrderCountdownLabel: "Temps jusqu'au départ prévu",
   },
 } satisfies Record<Language, Translations>;
 
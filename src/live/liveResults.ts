@@ -0,0 +1,259 @@
+/**
+ * Live Results Rendering
+ * Fetches published results from the public API and renders ranked run and
+ * combined tables. Self-contained (no store, services or utils imports) so
+ * the spectator page does not load the app's shared chunk.
+ */
+
+import type {
+  CombinedResult,
+  RaceResults,
+  ResultStatus,
+  RunResult,
+} from '../../shared/results';
+import { type LiveLanguage, lt } from './translations';
+
+export const PUBLIC_RESULTS_API_BASE = '/api/v1/public/results';
+
+export type LiveTab = number | 'combined';
+
+/** Response of the public results endpoint */
+export interface PublicResultsData extends RaceResults {
+  raceId: string;
+  racers: Record<string, { name: string; club?: string }>;
+  lastUpdated: number | null;
+}
+
+export type PublicResultsFetchResult =
+  | { status: 'ok'; data: PublicResultsData }
+  | { status: 'notPublished' }
+  | { status: 'error' };
+
+/**
+ * Fetch published results for a race
+ */
+export async function fetchPublicResults(
+  raceId: string,
+): Promise<PublicResultsFetchResult> {
+  try {
+    const params = new URLSearchParams({ raceId });
+    const response = await fetch(`${PUBLIC_RESULTS_API_BASE}?${params}`);
+
+    if (response.status === 404) return { status: 'notPublished' };
+    if (!response.ok) return { status: 'error' };
+
+    const data = await response.json();
+    if (!data || !Array.isArray(data.runs) || !Array.isArray(data.combined)) {
+      return { status: 'error' };
+    }
+    return { status: 'ok', data: data as PublicResultsData };
+  } catch {
+    return { status: 'error' };
+  }
+}
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeLiveHtml(str: string): string {
+  return String(str)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Format a duration as MM:SS.cc
+ */
+export function formatLiveDuration(ms: number): string {
+  if (ms < 0) return '--:--.--';
+
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  const centiseconds = Math.floor((ms % 1000) / 10);
+
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}.${String(centiseconds).padStart(2, '0')}`;
+}
+
+/**
+ * Format a gap to the leader (+0.52 / +01:02.34)
+ */
+function formatGap(gapMs: number | null): string {
+  if (!gapMs || gapMs <= 0) return '';
+  if (gapMs < 60000) return `+${(Math.floor(gapMs / 10) / 100).toFixed(2)}`;
+  return `+${formatLiveDuration(gapMs)}`;
+}
+
+/**
+ * Label for an unranked result status
+ */
+function getStatusText(status: ResultStatus, lang: LiveLanguage): string {
+  switch (status) {
+    case 'dns':
+    case 'dnf':
+    case 'dsq':
+      return lt(status, lang);
+    default:
+      return lt('resultPending', lang);
+  }
+}
+
+/**
+ * Total penalty of a result (combined results sum their runs)
+ */
+function getPenaltyMs(result: RunResult | CombinedResult): number {
+  if ('penaltyMs' in result) return result.penaltyMs;
+  return Object.values(result.runs).reduce(
+    (sum, run) => sum + (run?.penaltyMs ?? 0),
+    0,
+  );
+}
+
+/**
+ * Render the time cell: total time with penalty, or the status
+ */
+function renderTimeCell(
+  result: RunResult | CombinedResult,
+  lang: LiveLanguage,
+): string {
+  if (result.totalTime === null) {
+    return `<span class="live-status ${result.status}">${escapeLiveHtml(getStatusText(result.status, lang))}</span>`;
+  }
+  const penaltyMs = getPenaltyMs(result);
+  const penalty =
+    penaltyMs > 0
+      ? `<span class="live-penalty">+${penaltyMs / 1000}s</span>`
+      : '';
+  return `<span class="live-time">${formatLiveDuration(result.totalTime)}</span>${penalty}`;
+}
+
+/**
+ * Per-run breakdown shown under the racer on the combined tab
+ */
+function renderCombinedDetail(
+  result: CombinedResult,
+  runs: number[],
+  lang: LiveLanguage,
+): string {
+  const parts = runs.map((run) => {
+    const runResult = result.runs[run];
+    const value =
+      runResult?.totalTime != null
+        ? formatLiveDuration(runResult.totalTime)
+        : getStatusText(runResult?.status ?? 'pending', lang);
+    return `${lt('run', lang)} ${run}: ${value}`;
+  });
+  return `<span class="live-detail">${escapeLiveHtml(parts.join(' · '))}</span>`;
+}
+
+/**
+ * Split times at intermediate points (I1…I9) shown under the racer on run tabs
+ */
+function renderSplitDetail(result: RunResult, lang: LiveLanguage): string {
+  const parts = Object.keys(result.splits)
+    .sort()
+    .map(
+      (point) =>
+        `${lt('split', lang)} ${point.slice(1)}: ${formatLiveDuration(result.splits[point]!)}`,
+    );
+  if (parts.length === 0) return '';
+  return `<span class="live-detail">${escapeLiveHtml(parts.join(' · '))}</span>`;
+}
+
+/**
+ * Render one result row
+ */
+function renderRow(
+  result: RunResult | CombinedResult,
+  data: PublicResultsData,
+  detail: string,
+  lang: LiveLanguage,
+): string {
+  const racer = data.racers[result.bib];
+  const racerHtml = racer
+    ? `<span class="live-name">${escapeLiveHtml(racer.name)}</span>${racer.club ? `<span class="live-club">${escapeLiveHtml(racer.club)}</span>` : ''}`
+    : '';
+
+  return `
+    <div class="live-row ${result.rank === null ? 'unranked' : ''}" role="row">
+      <span class="live-rank" role="cell">${result.rank ?? '–'}</span>
+      <span class="live-bib" role="cell">${escapeLiveHtml(result.bib)}</span>
+      <span class="live-racer" role="cell">${racerHtml}${detail}</span>
+      <span class="live-result" role="cell">${renderTimeCell(result, lang)}</span>
+      <span class="live-gap" role="cell">${formatGap(result.gap)}</span>
+    </div>
+  `;
+}
+
+/**
+ * Tabs available for the results: one per run, plus combined for multi-run races
+ */
+export function getLiveTabs(runs: number[]): LiveTab[] {
+  return runs.length > 1 ? [...runs, 'combined'] : runs;
+}
+
+/**
+ * Keep the selected tab if it still exists, otherwise fall back to the first run
+ */
+export function resolveLiveTab(selected: LiveTab, runs: number[]): LiveTab {
+  return getLiveTabs(runs).includes(selected) ? selected : (runs[0] ?? 1);
+}
+
+/**
+ * Render run tab buttons
+ */
+export function renderLiveTabs(
+  runs: number[],
+  selected: LiveTab,
+  lang: LiveLanguage,
+): string {
+  return getLiveTabs(runs)
+    .map((tab) => {
+      const label =
+        tab === 'combined' ? lt('total', lang) : `${lt('run', lang)} ${tab}`;
+      const isActive = tab === selected;
+      return `<button class="live-tab ${isActive ? 'active' : ''}" role="tab" aria-selected="${isActive}" data-tab="${tab}">${escapeLiveHtml(label)}</button>`;
+    })
+    .join('');
+}
+
+/**
+ * Render the results table for the selected tab
+ */
+export function renderLiveResults(
+  data: PublicResultsData,
+  tab: LiveTab,
+  lang: LiveLanguage,
+): string {
+  const rows =
+    tab === 'combined'
+      ? data.combined.map((result) =>
+          renderRow(
+            result,
+            data,
+            renderCombinedDetail(result, data.runs, lang),
+            lang,
+          ),
+        )
+      : (data.byRun[tab] ?? []).map((result) =>
+          renderRow(result, data, renderSplitDetail(result, lang), lang),
+        );
+
+  if (rows.length === 0) {
+    return `<div class="live-message">${escapeLiveHtml(lt('noResults', lang))}</div>`;
+  }
+
+  const header = `
+    <div class="live-row live-header" role="row">
+      <span class="live-rank" role="columnheader">${escapeLiveHtml(lt('rank', lang))}</span>
+      <span class="live-bib" role="columnheader">${escapeLiveHtml(lt('bib', lang))}</span>
+      <span class="live-racer" role="columnheader">${escapeLiveHtml(lt('racer', lang))}</span>
+      <span class="live-result" role="columnheader">${escapeLiveHtml(lt('time', lang))}</span>
+      <span class="live-gap" role="columnheader"></span>
+    </div>
+  `;
+  return `<div class="live-table" role="table">${header}${rows.join('')}</div>`;
+}
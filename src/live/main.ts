@@ -0,0 +1,121 @@
+/**
+ * Live Results Page Entry
+ * Public spectator page (/live?race=ID). Polls the public results API and
+ * re-renders; polling pauses while the page is hidden.
+ */
+
+import '../styles/live.css';
+import {
+  escapeLiveHtml,
+  fetchPublicResults,
+  type LiveTab,
+  type PublicResultsData,
+  renderLiveResults,
+  renderLiveTabs,
+  resolveLiveTab,
+} from './liveResults';
+import { detectLiveLanguage, type LiveLanguage, lt } from './translations';
+
+// Results change at most once per racer per run - no need to poll faster
+const POLL_INTERVAL_MS = 15000;
+
+const params = new URLSearchParams(window.location.search);
+const raceId = params.get('race')?.trim() ?? '';
+const lang: LiveLanguage = detectLiveLanguage(
+  params.get('lang'),
+  navigator.languages ?? [navigator.language],
+);
+
+let selectedTab: LiveTab = 1;
+let lastData: PublicResultsData | null = null;
+let pollTimeout: ReturnType<typeof setTimeout> | null = null;
+
+const tabsEl = document.getElementById('live-tabs')!;
+const contentEl = document.getElementById('live-content')!;
+const statusEl = document.getElementById('live-status')!;
+
+function showMessage(key: 'noRace' | 'notPublished' | 'loading'): void {
+  tabsEl.innerHTML = '';
+  contentEl.innerHTML = `<div class="live-message">${escapeLiveHtml(lt(key, lang))}</div>`;
+}
+
+function render(): void {
+  if (!lastData) return;
+  selectedTab = resolveLiveTab(selectedTab, lastData.runs);
+  tabsEl.innerHTML = renderLiveTabs(lastData.runs, selectedTab, lang);
+  contentEl.innerHTML = renderLiveResults(lastData, selectedTab, lang);
+}
+
+function updateStatus(connectionLost: boolean): void {
+  if (connectionLost) {
+    statusEl.textContent = lt('connectionLost', lang);
+    statusEl.classList.add('error');
+    return;
+  }
+  statusEl.classList.remove('error');
+  const time = new Date().toLocaleTimeString(lang, {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+  statusEl.textContent = lt('updatedAt', lang).replace('{time}', time);
+}
+
+async function poll(): Promise<void> {
+  pollTimeout = null;
+  const result = await fetchPublicResults(raceId);
+
+  if (result.status === 'ok') {
+    lastData = result.data;
+    render();
+    updateStatus(false);
+  } else if (result.status === 'notPublished') {
+    // Chief Judge may unpublish mid-race - drop stale results
+    lastData = null;
+    showMessage('notPublished');
+    statusEl.textContent = '';
+  } else {
+    updateStatus(true);
+  }
+
+  if (!document.hidden) {
+    pollTimeout = setTimeout(poll, POLL_INTERVAL_MS);
+  }
+}
+
+function init(): void {
+  document.documentElement.lang = lang;
+  document.title = `${lt('liveResults', lang)} · ${raceId || 'CHRONO'}`;
+  document.getElementById('live-title')!.textContent = lt('liveResults', lang);
+  document.getElementById('live-race-id')!.textContent = raceId;
+
+  if (!raceId) {
+    showMessage('noRace');
+    return;
+  }
+
+  showMessage('loading');
+
+  tabsEl.addEventListener('click', (event) => {
+    const button = (event.target as HTMLElement).closest<HTMLElement>(
+      '[data-tab]',
+    );
+    if (!button?.dataset.tab) return;
+    const tab = button.dataset.tab;
+    selectedTab = tab === 'combined' ? 'combined' : Number(tab);
+    render();
+  });
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.hidden) {
+      if (pollTimeout) clearTimeout(pollTimeout);
+      pollTimeout = null;
+    } else if (!pollTimeout) {
+      void poll();
+    }
+  });
+
+  void poll();
+}
+
+init();
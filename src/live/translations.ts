@@ -0,0 +1,96 @@
+/**
+ * Live Results Translations
+ * Small self-contained string table for the spectator page. The app's
+ * translations module is not imported so the page bundle stays lightweight.
+ */
+
+export type LiveLanguage = 'en' | 'de' | 'fr';
+
+const liveTranslations = {
+  en: {
+    liveResults: 'Live Results',
+    run: 'Run',
+    split: 'Split',
+    total: 'Total',
+    rank: 'Rank',
+    bib: 'Bib',
+    racer: 'Racer',
+    time: 'Time',
+    dns: 'DNS',
+    dnf: 'DNF',
+    dsq: 'DSQ',
+    resultPending: 'On course',
+    noResults: 'No completed runs yet',
+    noRace: 'No race selected. Open the link shared by the race organizer.',
+    notPublished: 'Results for this race are not published yet.',
+    loading: 'Loading results…',
+    connectionLost: 'Connection lost – retrying…',
+    updatedAt: 'Updated {time}',
+  },
+  de: {
+    liveResults: 'Live-Ergebnisse',
+    run: 'Lauf',
+    split: 'ZZ',
+    total: 'Gesamt',
+    rank: 'Rang',
+    bib: 'Startnr.',
+    racer: 'Läufer',
+    time: 'Zeit',
+    dns: 'DNS',
+    dnf: 'DNF',
+    dsq: 'DSQ',
+    resultPending: 'Auf der Strecke',
+    noResults: 'Noch keine abgeschlossenen Läufe',
+    noRace:
+      'Kein Rennen ausgewählt. Öffne den Link, den der Veranstalter geteilt hat.',
+    notPublished:
+      'Die Ergebnisse dieses Rennens sind noch nicht veröffentlicht.',
+    loading: 'Ergebnisse werden geladen…',
+    connectionLost: 'Verbindung unterbrochen – neuer Versuch…',
+    updatedAt: 'Aktualisiert {time}',
+  },
+  fr: {
+    liveResults: 'Résultats en direct',
+    run: 'Manche',
+    split: 'Inter',
+    total: 'Total',
+    rank: 'Rang',
+    bib: 'Dossard',
+    racer: 'Coureur',
+    time: 'Temps',
+    dns: 'DNS',
+    dnf: 'DNF',
+    dsq: 'DSQ',
+    resultPending: 'En course',
+    noResults: 'Aucune manche terminée',
+    noRace:
+      "Aucune course sélectionnée. Ouvrez le lien partagé par l'organisateur.",
+    notPublished: 'Les résultats de cette course ne sont pas encore publiés.',
+    loading: 'Chargement des résultats…',
+    connectionLost: 'Connexion perdue – nouvelle tentative…',
+    updatedAt: 'Mis à jour {time}',
+  },
+} as const;
+
+export type LiveTranslationKey = keyof (typeof liveTranslations)['en'];
+
+/**
+ * Get a live page string in the given language
+ */
+export function lt(key: LiveTranslationKey, lang: LiveLanguage): string {
+  return liveTranslations[lang][key];
+}
+
+/**
+ * Pick the page language: ?lang= first, then the browser language
+ */
+export function detectLiveLanguage(
+  param: string | null,
+  browserLanguages: readonly string[],
+): LiveLanguage {
+  for (const candidate of [param, ...browserLanguages]) {
+    const code = candidate?.slice(0, 2).toLowerCase();
+    if (code === 'en' || code === 'de' || code === 'fr') return code;
+  }
+  return 'en';
+}
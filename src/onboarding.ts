@@ -4,7 +4,7 @@ import { t } from './i18n/translations';
 import { feedbackSuccess, feedbackTap, syncService } from './services';
 import { storage } from './services/storage';
 import { exchangePinForToken, hasAuthToken } from './services/sync';
-import { store } from './store';
+import { $maxGate, store } from './store';
 import type { DeviceRole, Language, RaceInfo } from './types';
 import { fetchWithTimeout } from './utils/errors';
 import { debounce, escapeHtml } from './utils/format';
@@ -21,6 +21,7 @@ import {
   renderRecentRaceItems,
 } from './utils/recentRacesUi';
 import { iconCheck, iconHourglass } from './utils/templates';
+import { clampGate } from './utils/validation';
 
 const ONBOARDING_STORAGE_KEY = 'skiTimerHasCompletedOnboarding';
 
@@ -541,7 +542,7 @@ export class OnboardingController {
         }
 
         // Validate PIN with server
-        return await this.validatePin(pin);
+        return await this.validatePin(pin, raceId);
       }
       default:
         return true;
@@ -584,8 +585,10 @@ export class OnboardingController {
               ?.value || '10',
             10,
           );
-          const validStart = Math.min(gateStart, gateEnd);
-          const validEnd = Math.max(gateStart, gateEnd);
+          // Limited to the course's gate count once the race definition is known
+          const maxGate = $maxGate.value;
+          const validStart = clampGate(Math.min(gateStart, gateEnd), maxGate);
+          const validEnd = clampGate(Math.max(gateStart, gateEnd), maxGate);
           store.setGateAssignment([validStart, validEnd]);
         } else {
           const photoEnabled = (
@@ -860,11 +863,11 @@ export class OnboardingController {
   }
 
   /**
-   * Validate PIN with the server
+   * Validate PIN with the server (race PINs take precedence for the race)
    */
-  private async validatePin(pin: string): Promise<boolean> {
+  private async validatePin(pin: string, raceId: string): Promise<boolean> {
     try {
-      const result = await exchangePinForToken(pin);
+      const result = await exchangePinForToken(pin, undefined, raceId);
       return result.success;
     } catch {
       // If offline, accept any PIN but warn user it will validate when online
@@ -3,6 +3,7 @@
  * Handles JWT token management and PIN authentication
  */
 
+import { store } from '../store';
 import { logger } from '../utils/logger';
 import { storage } from './storage';
 
@@ -83,10 +84,13 @@ const TOKEN_EXCHANGE_TIMEOUT_MS = 10000;
 
 /**
  * Exchange PIN for JWT token
+ * With a raceId, races that have their own PINs return a race-scoped token.
+ * The token names this device, which the server checks for device-owned data.
  */
 export async function exchangePinForToken(
   pin: string,
   role?: 'timer' | 'gateJudge' | 'chiefJudge',
+  raceId?: string,
 ): Promise<{
   success: boolean;
   token?: string;
@@ -103,7 +107,12 @@ export async function exchangePinForToken(
     const response = await fetch('/api/v1/auth/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ pin, role }),
+      body: JSON.stringify({
+        pin,
+        role,
+        raceId: raceId || undefined,
+        deviceId: store.getState().deviceId,
+      }),
       signal: controller.signal,
     });
 
@@ -180,6 +189,34 @@ export function getTokenRole(): string | null {
   }
 }
 
+/**
+ * Get the race a token is scoped to (tokens issued with a race PIN)
+ * Returns null for global tokens, no token, or unparseable tokens
+ */
+export function getTokenRaceId(): string | null {
+  const token = getAuthToken();
+  if (!token) return null;
+
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    const payload = JSON.parse(decodeBase64Url(parts[1]!));
+    return typeof payload.raceId === 'string' ? payload.raceId : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if the current token may be used for a race
+ * (global tokens are tried for any race, the server decides)
+ */
+export function isTokenValidForRace(raceId: string): boolean {
+  const tokenRaceId = getTokenRaceId();
+  return tokenRaceId === null || tokenRaceId === raceId.toLowerCase();
+}
+
 /**
  * Check if current token has chief judge role
  */
@@ -0,0 +1,137 @@
+/**
+ * Bib Recognition Service
+ * Reads bib numbers from captured photos in a worker (on-device, offline) and
+ * suggests a bib for entries recorded without one
+ */
+
+import { store } from '../store';
+import type { Entry } from '../types';
+import { type BibCandidate, pickBibSuggestion } from '../utils/bibOcr';
+import { logger } from '../utils/logger';
+import { hasFullPhotoData, isPhotoMarker } from '../utils/photoHelpers';
+import type {
+  BibRecognitionRequest,
+  BibRecognitionResponse,
+} from '../workers/bibRecognition.worker';
+import { photoStorage } from './photoStorage';
+
+class BibRecognitionService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private pending = new Map<number, (candidates: BibCandidate[]) => void>();
+  // Recognition results per entry (a photo is only read once)
+  private candidates = new Map<string, Promise<BibCandidate[]>>();
+
+  /**
+   * Check if photos can be read on this device
+   */
+  isSupported(): boolean {
+    return (
+      typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+    );
+  }
+
+  /**
+   * Suggest a bib for an entry without one, read from its photo and checked
+   * against the racers on course and the start list
+   * Returns null when the entry has a bib, no local photo, or nothing matched
+   */
+  async suggestBib(entry: Entry): Promise<string | null> {
+    if (entry.bib || !entry.photo || !this.isSupported()) return null;
+
+    let recognition = this.candidates.get(entry.id);
+    if (!recognition) {
+      recognition = this.recognizeEntryPhoto(entry).catch((error) => {
+        logger.warn('Bib recognition failed:', error);
+        return [];
+      });
+      this.candidates.set(entry.id, recognition);
+    }
+    const candidates = await recognition;
+    if (candidates.length === 0) return null;
+
+    const state = store.getState();
+    const allowedBibs = new Set([
+      ...store.getActiveBibs(entry.run ?? 1),
+      ...state.startList.map((racer) => racer.bib),
+    ]);
+    return pickBibSuggestion(candidates, [...allowedBibs]);
+  }
+
+  /**
+   * Drop the recognition result of an entry (photo replaced or deleted)
+   */
+  forget(entryId: string): void {
+    this.candidates.delete(entryId);
+  }
+
+  /**
+   * Stop the worker and drop all results
+   */
+  cleanup(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.resolvePending();
+    this.candidates.clear();
+  }
+
+  private async recognizeEntryPhoto(entry: Entry): Promise<BibCandidate[]> {
+    // Cloud photos are only read on the device that captured them
+    const photo = isPhotoMarker(entry.photo)
+      ? await photoStorage.getPhoto(entry.id)
+      : hasFullPhotoData(entry.photo)
+        ? entry.photo
+        : null;
+    if (!photo) return [];
+
+    const worker = this.getWorker();
+    if (!worker) return [];
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve) => {
+      this.pending.set(id, resolve);
+      const request: BibRecognitionRequest = { id, photo };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+
+    try {
+      this.worker = new Worker(
+        new URL('../workers/bibRecognition.worker.ts', import.meta.url),
+        { type: 'module' },
+      );
+    } catch (error) {
+      logger.warn('Bib recognition worker unavailable:', error);
+      this.workerFailed = true;
+      return null;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<BibRecognitionResponse>) => {
+      const { id, candidates } = event.data;
+      this.pending.get(id)?.(candidates);
+      this.pending.delete(id);
+    };
+    this.worker.onerror = (event) => {
+      logger.warn('Bib recognition worker failed:', event.message);
+      this.workerFailed = true;
+      this.worker?.terminate();
+      this.worker = null;
+      this.resolvePending();
+      // Failed readings may succeed after a reload, so don't keep them
+      this.candidates.clear();
+    };
+    return this.worker;
+  }
+
+  private resolvePending(): void {
+    for (const resolve of this.pending.values()) resolve([]);
+    this.pending.clear();
+  }
+}
+
+// Singleton instance
+export const bibRecognitionService = new BibRecognitionService();
@@ -1,6 +1,8 @@
 import { store } from '../store';
+import type { BurstFrame, Entry } from '../types';
 import { logger } from '../utils/logger';
 import { batteryService } from './battery';
+import { photoStorage } from './photoStorage';
 
 // Camera configuration
 const CAMERA_CONFIG: MediaStreamConstraints = {
@@ -28,6 +30,21 @@ const PHOTO_MAX_WIDTH = 1280;
 const PHOTO_MAX_HEIGHT = 720;
 const PHOTO_MAX_SIZE_KB = 200; // Max base64 size in KB (actual image ~150KB)
 
+// Photo-finish burst: ring buffer of downscaled preview frames
+const BURST_FRAME_INTERVAL = 50; // ms between buffered frames (~20 fps)
+const BURST_WINDOW_BEFORE = 300; // ms of frames saved before the finish tap
+const BURST_WINDOW_AFTER = 300; // ms of frames saved after the finish tap
+const BURST_BUFFER_SIZE =
+  Math.ceil((BURST_WINDOW_BEFORE + BURST_WINDOW_AFTER) / BURST_FRAME_INTERVAL) +
+  2;
+const BURST_FRAME_WIDTH = 640;
+const BURST_FRAME_QUALITY = 0.7;
+
+interface BufferedFrame {
+  capturedAt: number; // Local clock (Date.now())
+  bitmap: ImageBitmap;
+}
+
 // Camera state machine to handle visibility changes correctly
 type CameraState = 'stopped' | 'initializing' | 'ready' | 'paused' | 'resuming';
 
@@ -50,6 +67,10 @@ class CameraService {
   private resumingStartedAt: number | null = null;
   private reinitRetryCount = 0;
   private idleTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private burstMode = false;
+  private burstIntervalId: ReturnType<typeof setInterval> | null = null;
+  private burstBuffer: BufferedFrame[] = [];
+  private bufferingFrame = false;
 
   /**
    * Create or reuse a video element for camera capture.
@@ -152,6 +173,7 @@ class CameraService {
       this.cameraState = 'ready';
       store.setCameraReady(true);
       this.resetIdleTimeout();
+      if (this.burstMode) this.startBurstBuffer();
 
       // Add visibility change handler to pause/resume camera for battery optimization
       if (!this.visibilityHandler) {
@@ -210,6 +232,7 @@ class CameraService {
    * Pause camera when page becomes hidden
    */
   private pauseCamera(): void {
+    this.stopBurstBuffer();
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
       this.stream = null;
@@ -283,6 +306,7 @@ class CameraService {
       this.reinitRetryCount = 0; // Reset on success
       store.setCameraReady(true);
       this.resetIdleTimeout();
+      if (this.burstMode) this.startBurstBuffer();
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : 'Reinitialize failed';
@@ -362,12 +386,7 @@ class CameraService {
       ctx.drawImage(this.videoElement, 0, 0, width, height);
 
       // Add timestamp overlay
-      const timestamp = new Date().toISOString();
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillRect(0, height - 30, width, 30);
-      ctx.fillStyle = '#ffffff';
-      ctx.font = '14px monospace';
-      ctx.fillText(timestamp, 10, height - 10);
+      this.drawTimestampOverlay(ctx, width, height, new Date().toISOString());
 
       // Convert to base64
       const dataUrl = this.canvasElement.toDataURL('image/jpeg', PHOTO_QUALITY);
@@ -394,10 +413,150 @@ class CameraService {
     }
   }
 
+  /**
+   * Draw a timestamp bar along the bottom of the canvas
+   */
+  private drawTimestampOverlay(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+    text: string,
+  ): void {
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.fillRect(0, height - 30, width, 30);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '14px monospace';
+    ctx.fillText(text, 10, height - 10);
+  }
+
+  /**
+   * Enable or disable the photo-finish frame buffer. The buffer only runs
+   * while the camera is ready.
+   */
+  setBurstMode(enabled: boolean): void {
+    this.burstMode = enabled;
+    if (enabled && this.cameraState === 'ready') {
+      this.startBurstBuffer();
+    } else if (!enabled) {
+      this.stopBurstBuffer();
+    }
+  }
+
+  /**
+   * Check if the frame buffer is running, so a burst can be captured
+   */
+  isBurstActive(): boolean {
+    return this.cameraState === 'ready' && this.burstIntervalId !== null;
+  }
+
+  private startBurstBuffer(): void {
+    if (this.burstIntervalId !== null) return;
+    if (typeof createImageBitmap !== 'function') {
+      logger.warn('[Camera] createImageBitmap not available, burst disabled');
+      return;
+    }
+    this.burstIntervalId = setInterval(() => {
+      void this.bufferFrame();
+    }, BURST_FRAME_INTERVAL);
+  }
+
+  private stopBurstBuffer(): void {
+    if (this.burstIntervalId !== null) {
+      clearInterval(this.burstIntervalId);
+      this.burstIntervalId = null;
+    }
+    for (const frame of this.burstBuffer) {
+      frame.bitmap.close();
+    }
+    this.burstBuffer = [];
+  }
+
+  /**
+   * Grab a downscaled preview frame into the ring buffer, evicting the oldest
+   */
+  private async bufferFrame(): Promise<void> {
+    const video = this.videoElement;
+    if (this.cameraState !== 'ready' || !video || this.bufferingFrame) return;
+    // HAVE_CURRENT_DATA: a frame is available to copy
+    if (video.readyState < 2 || !video.videoWidth) return;
+
+    this.bufferingFrame = true;
+    try {
+      const capturedAt = Date.now();
+      const bitmap = await createImageBitmap(video, {
+        resizeWidth: Math.min(BURST_FRAME_WIDTH, video.videoWidth),
+        resizeQuality: 'low',
+      });
+      // Buffer may have been stopped while the frame was copied
+      if (this.burstIntervalId === null) {
+        bitmap.close();
+        return;
+      }
+      this.burstBuffer.push({ capturedAt, bitmap });
+      while (this.burstBuffer.length > BURST_BUFFER_SIZE) {
+        this.burstBuffer.shift()!.bitmap.close();
+      }
+    } catch (error) {
+      logger.debug('[Camera] Burst frame skipped:', error);
+    } finally {
+      this.bufferingFrame = false;
+    }
+  }
+
+  /**
+   * Capture the photo-finish burst around a tap: waits until the frames after
+   * the tap are buffered, then encodes the frames from BURST_WINDOW_BEFORE
+   * before to BURST_WINDOW_AFTER after it. Frame times are aligned to the
+   * entry's clock: the tap at local time recordedAt is entryTime.
+   */
+  async captureBurst(
+    recordedAt: number,
+    entryTime: number,
+  ): Promise<BurstFrame[]> {
+    if (!this.isBurstActive()) return [];
+    this.resetIdleTimeout();
+
+    const waitMs = recordedAt + BURST_WINDOW_AFTER + BURST_FRAME_INTERVAL;
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.max(0, waitMs - Date.now())),
+    );
+
+    const canvas = this.canvasElement;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return [];
+
+    const frames: BurstFrame[] = [];
+    for (const { capturedAt, bitmap } of this.burstBuffer) {
+      const offsetMs = capturedAt - recordedAt;
+      if (offsetMs < -BURST_WINDOW_BEFORE || offsetMs > BURST_WINDOW_AFTER) {
+        continue;
+      }
+
+      const timestamp = new Date(entryTime + offsetMs).toISOString();
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      ctx.drawImage(bitmap, 0, 0);
+      this.drawTimestampOverlay(
+        ctx,
+        bitmap.width,
+        bitmap.height,
+        `${timestamp} (${offsetMs >= 0 ? '+' : ''}${offsetMs} ms)`,
+      );
+
+      const photo = canvas
+        .toDataURL('image/jpeg', BURST_FRAME_QUALITY)
+        .split(',')[1];
+      if (photo) frames.push({ offsetMs, timestamp, photo });
+    }
+
+    return frames;
+  }
+
   /**
    * Stop the camera stream
    */
   stop(): void {
+    this.stopBurstBuffer();
     if (this.stream) {
       this.stream.getTracks().forEach((track) => track.stop());
       this.stream = null;
@@ -509,8 +668,21 @@ class CameraService {
 // Singleton instance
 export const cameraService = new CameraService();
 
+/**
+ * The tap a photo is taken for: the new entry and the local clock time
+ * (Date.now()) its timestamp was recorded at
+ */
+export interface TimingTap {
+  entry: Entry;
+  recordedAt: number;
+}
+
 // Helper function to capture photo with timestamp entry
-export async function captureTimingPhoto(): Promise<string | null> {
+// Finish taps with photo-finish burst enabled save the burst frames and
+// return the frame closest to the tap as the entry photo
+export async function captureTimingPhoto(
+  tap?: TimingTap,
+): Promise<string | null> {
   const settings = store.getState().settings;
   if (!settings.photoCapture) return null;
 
@@ -519,5 +691,25 @@ export async function captureTimingPhoto(): Promise<string | null> {
     if (!initialized) return null;
   }
 
+  if (
+    tap &&
+    tap.entry.point === 'F' &&
+    settings.photoBurst &&
+    cameraService.isBurstActive()
+  ) {
+    const frames = await cameraService.captureBurst(
+      tap.recordedAt,
+      new Date(tap.entry.timestamp).getTime(),
+    );
+    if (frames.length > 0) {
+      const saved = await photoStorage.saveBurst(tap.entry.id, frames);
+      if (!saved) logger.warn('Burst save failed for entry:', tap.entry.id);
+      const closest = frames.reduce((best, frame) =>
+        Math.abs(frame.offsetMs) < Math.abs(best.offsetMs) ? frame : best,
+      );
+      return closest.photo;
+    }
+  }
+
   return cameraService.capturePhoto();
 }
@@ -25,6 +25,13 @@ const GPS_OPTIONS_CRITICAL: PositionOptions = {
   maximumAge: 120000,
 };
 
+// One-off survey fix (e.g. gate positions): never reuse a cached position
+const GPS_OPTIONS_FRESH: PositionOptions = {
+  enableHighAccuracy: true,
+  timeout: 20000,
+  maximumAge: 0,
+};
+
 // Accuracy thresholds (in meters)
 const ACCURACY_GOOD = 10;
 const ACCURACY_FAIR = 30;
@@ -409,9 +416,10 @@ class GpsService {
   }
 
   /**
-   * Request one-time position
+   * Request one-time position; `fresh` waits for a new high-accuracy fix
+   * instead of accepting a cached one
    */
-  async requestPosition(): Promise<GeolocationPosition | null> {
+  async requestPosition(fresh = false): Promise<GeolocationPosition | null> {
     if (!navigator.geolocation) return null;
 
     return new Promise((resolve) => {
@@ -421,7 +429,7 @@ class GpsService {
           resolve(position);
         },
         () => resolve(null),
-        this.getGpsOptions(),
+        fresh ? GPS_OPTIONS_FRESH : this.getGpsOptions(),
       );
     });
   }
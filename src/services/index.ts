@@ -2,10 +2,12 @@
 
 export { type AmbientTrigger, ambientModeService } from './ambient';
 export { type BatteryLevel, batteryService } from './battery';
+export { bibRecognitionService } from './bibRecognition';
 // Camera service excluded from barrel — lazy-loaded when photo capture enabled
 export * from './feedback';
 export { gpsService } from './gps';
 export { photoStorage } from './photoStorage';
+export { serverClockService } from './serverClock';
 export { syncEntry, syncService } from './sync';
 // Voice services excluded from barrel — lazy-loaded in gate-judge chunk
 export { wakeLockService } from './wakeLock';
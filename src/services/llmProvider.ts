@@ -18,7 +18,7 @@ Context provided:
 
 For TIMER role, recognize:
 - Bib numbers: spoken digits or number words (e.g., "forty-five" = 45, "fünfundvierzig" = 45)
-- Timing point: "Start" / "Ziel" / "Finish"
+- Timing point: "Start" / "Ziel" / "Finish", or split "Zwischenzeit 1" / "Split 1" (I1-I9)
 - Run selection: "Lauf 1/2", "Run 1/2", "erster Lauf", "zweiter Lauf"
 NOTE: Timer role does NOT support recording timestamps via voice (latency too high for timing)
 
@@ -37,7 +37,7 @@ Return ONLY valid JSON (no markdown, no explanation):
     "bib": "string (3 digits, zero-padded)",
     "gate": number,
     "faultType": "MG" | "STR" | "BR",
-    "point": "S" | "F",
+    "point": "S" | "I1".."I9" | "F",
     "run": number (positive integer, typically 1 or 2)
   },
   "confirmationNeeded": boolean,
@@ -3,14 +3,19 @@
  * Stores photos separately from localStorage to avoid quota limits
  *
  * IndexedDB has much larger storage limits (~50MB+ vs 5MB for localStorage)
- * Photos are stored by entry ID for easy retrieval
+ * Photos are stored by entry ID for easy retrieval. Photos and thumbnails
+ * downloaded from the cloud photo API are cached here as well, next to the
+ * photo-finish bursts of finish entries.
  */
 
+import type { BurstFrame } from '../types';
 import { logger } from '../utils/logger';
 
 const DB_NAME = 'ski-timer-photos';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 const STORE_NAME = 'photos';
+const THUMBNAIL_STORE_NAME = 'thumbnails';
+const BURST_STORE_NAME = 'bursts';
 
 interface PhotoRecord {
   entryId: string;
@@ -18,6 +23,12 @@ interface PhotoRecord {
   timestamp: number;
 }
 
+interface BurstRecord {
+  entryId: string;
+  frames: BurstFrame[];
+  timestamp: number;
+}
+
 interface QueuedSave {
   entryId: string;
   photoBase64: string;
@@ -73,6 +84,16 @@ class PhotoStorageService {
           });
           store.createIndex('timestamp', 'timestamp', { unique: false });
         }
+
+        // Thumbnails for result lists (added in version 2)
+        if (!db.objectStoreNames.contains(THUMBNAIL_STORE_NAME)) {
+          db.createObjectStore(THUMBNAIL_STORE_NAME, { keyPath: 'entryId' });
+        }
+
+        // Photo-finish bursts (added in version 3)
+        if (!db.objectStoreNames.contains(BURST_STORE_NAME)) {
+          db.createObjectStore(BURST_STORE_NAME, { keyPath: 'entryId' });
+        }
       };
     });
 
@@ -186,6 +207,101 @@ class PhotoStorageService {
    * Get a photo for an entry
    */
   async getPhoto(entryId: string): Promise<string | null> {
+    const record = await this.getRecord<PhotoRecord>(STORE_NAME, entryId);
+    return record?.photo || null;
+  }
+
+  /**
+   * Get a cached thumbnail for an entry
+   */
+  async getThumbnail(entryId: string): Promise<string | null> {
+    const record = await this.getRecord<PhotoRecord>(
+      THUMBNAIL_STORE_NAME,
+      entryId,
+    );
+    return record?.photo || null;
+  }
+
+  /**
+   * Cache a thumbnail for an entry (thumbnails are small, so saves are not
+   * queued)
+   */
+  async saveThumbnail(entryId: string, thumbnail: string): Promise<boolean> {
+    return this.putRecord(THUMBNAIL_STORE_NAME, {
+      entryId,
+      photo: thumbnail,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Get the photo-finish burst frames of an entry, ordered by time
+   */
+  async getBurst(entryId: string): Promise<BurstFrame[] | null> {
+    const record = await this.getRecord<BurstRecord>(BURST_STORE_NAME, entryId);
+    return record?.frames.length ? record.frames : null;
+  }
+
+  /**
+   * Store the photo-finish burst frames of an entry (one save per finish, so
+   * saves are not queued)
+   */
+  async saveBurst(entryId: string, frames: BurstFrame[]): Promise<boolean> {
+    return this.putRecord(BURST_STORE_NAME, {
+      entryId,
+      frames,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Write a record to a store
+   */
+  private async putRecord(
+    storeName: string,
+    record: PhotoRecord | BurstRecord,
+  ): Promise<boolean> {
+    if (!this.db) {
+      const initialized = await this.initialize();
+      if (!initialized) return false;
+    }
+
+    return new Promise((resolve) => {
+      if (!this.db) {
+        resolve(false);
+        return;
+      }
+
+      try {
+        const transaction = this.db.transaction([storeName], 'readwrite');
+        const store = transaction.objectStore(storeName);
+        const request = store.put(record);
+
+        request.onsuccess = () => {
+          resolve(true);
+        };
+
+        request.onerror = () => {
+          logger.error(
+            `Photo record save error (${storeName}):`,
+            request.error,
+          );
+          resolve(false);
+        };
+      } catch (error) {
+        logger.error('Photo record save transaction error:', error);
+        resolve(false);
+      }
+    });
+  }
+
+  /**
+   * Read a record from a store
+   */
+  private async getRecord<T>(
+    storeName: string,
+    entryId: string,
+  ): Promise<T | null> {
     if (!this.db) {
       const initialized = await this.initialize();
       if (!initialized) return null;
@@ -198,13 +314,12 @@ class PhotoStorageService {
       }
 
       try {
-        const transaction = this.db.transaction([STORE_NAME], 'readonly');
-        const store = transaction.objectStore(STORE_NAME);
+        const transaction = this.db.transaction([storeName], 'readonly');
+        const store = transaction.objectStore(storeName);
         const request = store.get(entryId);
 
         request.onsuccess = () => {
-          const record = request.result as PhotoRecord | undefined;
-          resolve(record?.photo || null);
+          resolve((request.result as T | undefined) ?? null);
         };
 
         request.onerror = () => {
@@ -219,7 +334,7 @@ class PhotoStorageService {
   }
 
   /**
-   * Delete a photo for an entry
+   * Delete a photo for an entry, with its cached thumbnail and burst
    */
   async deletePhoto(entryId: string): Promise<boolean> {
     if (!this.db) {
@@ -234,9 +349,13 @@ class PhotoStorageService {
       }
 
       try {
-        const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.delete(entryId);
+        const transaction = this.db.transaction(
+          [STORE_NAME, THUMBNAIL_STORE_NAME, BURST_STORE_NAME],
+          'readwrite',
+        );
+        transaction.objectStore(THUMBNAIL_STORE_NAME).delete(entryId);
+        transaction.objectStore(BURST_STORE_NAME).delete(entryId);
+        const request = transaction.objectStore(STORE_NAME).delete(entryId);
 
         request.onsuccess = () => {
           resolve(true);
@@ -262,7 +381,7 @@ class PhotoStorageService {
   }
 
   /**
-   * Delete all photos (for clear all functionality)
+   * Delete all photos, thumbnails and bursts (for clear all functionality)
    */
   async clearAll(): Promise<boolean> {
     if (!this.db) {
@@ -277,9 +396,13 @@ class PhotoStorageService {
       }
 
       try {
-        const transaction = this.db.transaction([STORE_NAME], 'readwrite');
-        const store = transaction.objectStore(STORE_NAME);
-        const request = store.clear();
+        const transaction = this.db.transaction(
+          [STORE_NAME, THUMBNAIL_STORE_NAME, BURST_STORE_NAME],
+          'readwrite',
+        );
+        transaction.objectStore(THUMBNAIL_STORE_NAME).clear();
+        transaction.objectStore(BURST_STORE_NAME).clear();
+        const request = transaction.objectStore(STORE_NAME).clear();
 
         request.onsuccess = () => {
           resolve(true);
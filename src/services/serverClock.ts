@@ -0,0 +1,175 @@
+import { fetchWithTimeout } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { TIME_API_BASE } from './sync/types';
+
+// Clock sync configuration
+const SAMPLE_COUNT = 8; // Round trips per sync
+const MIN_SAMPLES = 3; // Fewer successful round trips = no estimate
+const SAMPLE_TIMEOUT = 3000; // A slower round trip is useless for timing
+const RESYNC_INTERVAL = 300000; // 5 minutes
+// Cheap device clocks drift up to ~100 ppm (90 ms in 15 minutes)
+const MAX_ESTIMATE_AGE = 900000; // 15 minutes
+
+/** One round trip to the time endpoint */
+export interface ClockSample {
+  offsetMs: number; // Server time - local time at the midpoint of the trip
+  rttMs: number;
+}
+
+/** Estimated offset of the server clock from the local clock */
+export interface ClockOffsetEstimate {
+  offsetMs: number;
+  uncertaintyMs: number; // The server time is within ± this of local + offset
+}
+
+/**
+ * Estimate the clock offset from round-trip samples.
+ * Queueing delays only ever lengthen a round trip, so the fastest samples
+ * have the most symmetric paths: keep the fastest third and take the median
+ * of their offsets. The server read its clock somewhere within each kept
+ * round trip, so half the slowest kept RTT bounds the error.
+ */
+export function estimateClockOffset(
+  samples: ClockSample[],
+): ClockOffsetEstimate | null {
+  if (samples.length === 0) return null;
+
+  const fastest = [...samples]
+    .sort((a, b) => a.rttMs - b.rttMs)
+    .slice(0, Math.ceil(samples.length / 3));
+  const offsets = fastest.map((s) => s.offsetMs).sort((a, b) => a - b);
+  const mid = Math.floor(offsets.length / 2);
+  const offsetMs =
+    offsets.length % 2 === 1
+      ? offsets[mid]!
+      : (offsets[mid - 1]! + offsets[mid]!) / 2;
+
+  return {
+    offsetMs: Math.round(offsetMs),
+    uncertaintyMs: Math.ceil(fastest[fastest.length - 1]!.rttMs / 2),
+  };
+}
+
+/**
+ * Round-trip clock synchronization against the server, used for timestamps
+ * when GPS has no fix (indoors, under trees)
+ */
+class ServerClockService {
+  private estimate: ClockOffsetEstimate | null = null;
+  private estimatedAt = 0; // Local time of the last estimate
+  private resyncIntervalId: ReturnType<typeof setInterval> | null = null;
+  private syncing = false;
+
+  /**
+   * Time one round trip to the time endpoint
+   */
+  private async takeSample(): Promise<ClockSample | null> {
+    try {
+      const sentAt = Date.now();
+      const start = performance.now();
+      const response = await fetchWithTimeout(
+        TIME_API_BASE,
+        { cache: 'no-store' },
+        SAMPLE_TIMEOUT,
+      );
+      const rttMs = performance.now() - start;
+      if (!response.ok) return null;
+
+      const data = await response.json();
+      if (typeof data?.serverTime !== 'number') return null;
+      return { offsetMs: data.serverTime - (sentAt + rttMs / 2), rttMs };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Take a series of samples and update the offset estimate.
+   * Returns false when too few round trips succeeded (e.g. offline).
+   */
+  async sync(): Promise<boolean> {
+    if (this.syncing) return false;
+    this.syncing = true;
+
+    try {
+      const samples: ClockSample[] = [];
+      // Sequential: parallel requests would queue behind each other
+      for (let i = 0; i < SAMPLE_COUNT; i++) {
+        const sample = await this.takeSample();
+        if (sample) samples.push(sample);
+      }
+
+      const estimate =
+        samples.length >= MIN_SAMPLES ? estimateClockOffset(samples) : null;
+      if (!estimate) {
+        logger.debug(
+          `[ServerClock] Sync failed (${samples.length}/${SAMPLE_COUNT} samples)`,
+        );
+        return false;
+      }
+
+      this.estimate = estimate;
+      this.estimatedAt = Date.now();
+      logger.debug(
+        `[ServerClock] Offset ${estimate.offsetMs}ms ±${estimate.uncertaintyMs}ms`,
+      );
+      return true;
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Sync now (unless the estimate is recent) and then periodically
+   */
+  start(): void {
+    if (this.resyncIntervalId !== null) return;
+
+    const resync = () => {
+      // Hidden pages can't record, so skip the network round trips
+      if (document.hidden) return;
+      this.sync().catch((error) => {
+        logger.warn('[ServerClock] Sync error:', error);
+      });
+    };
+
+    if (Date.now() - this.estimatedAt >= RESYNC_INTERVAL) {
+      resync();
+    }
+    this.resyncIntervalId = setInterval(resync, RESYNC_INTERVAL);
+  }
+
+  /**
+   * Stop periodic syncing; the last estimate stays usable until it ages out
+   */
+  stop(): void {
+    if (this.resyncIntervalId !== null) {
+      clearInterval(this.resyncIntervalId);
+      this.resyncIntervalId = null;
+    }
+  }
+
+  private getFreshEstimate(): ClockOffsetEstimate | null {
+    if (!this.estimate) return null;
+    const age = Date.now() - this.estimatedAt;
+    return age >= 0 && age <= MAX_ESTIMATE_AGE ? this.estimate : null;
+  }
+
+  /**
+   * Get the offset between server time and system time (in milliseconds).
+   * Returns null without a recent estimate.
+   * Usage: `const serverTime = Date.now() + offset`.
+   */
+  getTimeOffset(): number | null {
+    return this.getFreshEstimate()?.offsetMs ?? null;
+  }
+
+  /**
+   * Get the uncertainty (±ms) of the current offset, null without one
+   */
+  getUncertainty(): number | null {
+    return this.getFreshEstimate()?.uncertaintyMs ?? null;
+  }
+}
+
+export const serverClockService = new ServerClockService();
@@ -3,6 +3,7 @@
  * Re-exports from modular sync service structure
  */
 
+export type { RaceConfigSection } from './sync/index';
 // Re-export everything from the sync module
 export {
   // Auth re-exports for backwards compatibility
@@ -0,0 +1,86 @@
+/**
+ * Clock Sync Module
+ * Reports this device's clock with the sync heartbeat (GET polls and live
+ * stream connects) and fetches the clock reports of all devices for the
+ * chief judge's clock health panel
+ */
+
+import { store } from '../../store';
+import type { DeviceClockReport } from '../../types';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { getAuthHeaders } from '../auth';
+import { gpsService } from '../gps';
+import { serverClockService } from '../serverClock';
+import { API_BASE, FETCH_TIMEOUT } from './types';
+
+export interface DeviceClocksResponse {
+  devices: DeviceClockReport[];
+  serverTime: number;
+}
+
+/**
+ * Query parameters describing this device's clock for the GET heartbeat
+ * and the live stream connect.
+ * The clock time is GPS-corrected when a fix is available, else corrected
+ * by the server clock sync: the same clock used to timestamp entries.
+ */
+export function getClockReportParams(): Record<string, string> {
+  const state = store.getState();
+  const gpsOffset = gpsService.getTimeOffset();
+  const serverOffset =
+    gpsOffset === null ? serverClockService.getTimeOffset() : null;
+  const params: Record<string, string> = {
+    clockSource:
+      gpsOffset !== null ? 'gps' : serverOffset !== null ? 'server' : 'system',
+    clockTime: String(Date.now() + (gpsOffset ?? serverOffset ?? 0)),
+  };
+
+  if (gpsOffset !== null) {
+    params.gpsOffset = String(gpsOffset);
+    const coords = gpsService.getCoordinates();
+    if (coords) {
+      params.gpsAccuracy = String(Math.round(coords.accuracy));
+    }
+  }
+
+  if (state.deviceRole === 'timer') {
+    params.point = state.selectedPoint;
+  }
+  return params;
+}
+
+/**
+ * Fetch the latest clock report of each device in the race
+ * Returns null when sync is off or the request fails
+ */
+export async function fetchDeviceClocks(): Promise<DeviceClocksResponse | null> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return null;
+
+  try {
+    const params = new URLSearchParams({
+      raceId: state.raceId,
+      clocks: 'true',
+    });
+    const response = await fetchWithTimeout(
+      `${API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data?.devices)) return null;
+    return {
+      devices: data.devices as DeviceClockReport[],
+      serverTime: typeof data.serverTime === 'number' ? data.serverTime : 0,
+    };
+  } catch (error) {
+    logger.error('Device clocks fetch error:', error);
+    return null;
+  }
+}
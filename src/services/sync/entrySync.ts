@@ -5,11 +5,11 @@
 
 import { t } from '../../i18n/translations';
 import { store } from '../../store';
-import type { Entry, SyncResponse } from '../../types';
+import type { CloudEntry, Entry, SyncResponse } from '../../types';
 import { fetchWithTimeout } from '../../utils/errors';
 import { getPointLabel } from '../../utils/format';
 import { logger } from '../../utils/logger';
-import { hasFullPhotoData, isPhotoMarker } from '../../utils/photoHelpers';
+import { isPhotoMarker } from '../../utils/photoHelpers';
 import { addRecentRace } from '../../utils/recentRaces';
 import { isValidEntry } from '../../utils/validation';
 import {
@@ -19,7 +19,9 @@ import {
   getTokenExpiryMs,
 } from '../auth';
 import { photoStorage } from '../photoStorage';
+import { getClockReportParams } from './clockSync';
 import { networkMonitor } from './networkMonitor';
+import { uploadEntryPhoto } from './photoSync';
 import {
   API_BASE,
   FETCH_TIMEOUT,
@@ -64,20 +66,11 @@ function classifySyncError(error: unknown): 'error' | 'offline' {
 }
 
 /**
- * Prepare an entry for sync by resolving photo data from IndexedDB
+ * Prepare an entry for sync. Photos are not sent with the entry; they are
+ * uploaded to the photo API once the entry is stored.
  */
-async function prepareEntryForSync(
-  entry: Entry,
-  syncPhotos: boolean,
-): Promise<Entry> {
-  if (syncPhotos && isPhotoMarker(entry.photo)) {
-    const photoData = await photoStorage.getPhoto(entry.id);
-    return { ...entry, photo: photoData || undefined };
-  }
-  if (entry.photo) {
-    return { ...entry, photo: undefined };
-  }
-  return { ...entry };
+function prepareEntryForSync(entry: Entry): Entry {
+  return { ...entry, photo: undefined };
 }
 
 /**
@@ -118,43 +111,50 @@ export function getLastSyncTimestamp(): number {
 }
 
 /**
- * Process photos from cloud entries - store in IndexedDB and set marker
- * Only processes photos if syncPhotos setting is enabled
+ * Upload the photo of a stored entry of this device when photo sync is
+ * enabled. Returns false when the upload should be retried.
+ */
+async function syncEntryPhoto(entry: Entry): Promise<boolean> {
+  const state = store.getState();
+  if (
+    !state.settings.syncPhotos ||
+    !isPhotoMarker(entry.photo) ||
+    entry.deviceId !== state.deviceId
+  ) {
+    return true;
+  }
+
+  const result = await uploadEntryPhoto(entry);
+  if (result === 'tooLarge') {
+    callbacks?.showToast(
+      t('photoTooLarge', store.getState().currentLang),
+      'warning',
+    );
+  }
+  return result !== 'failed';
+}
+
+/**
+ * Set photo markers of cloud entries. Photos stay on the server until viewed:
+ * entries with a cloud photo get the 'cloud' marker, or 'indexeddb' when
+ * the photo is already cached. Photos are dropped when photo sync is off.
  */
-async function processCloudPhotos(entries: Entry[]): Promise<Entry[]> {
+async function processCloudPhotos(entries: CloudEntry[]): Promise<Entry[]> {
   const processedEntries: Entry[] = [];
 
-  for (const entry of entries) {
-    if (hasFullPhotoData(entry.photo)) {
-      // Re-read syncPhotos per iteration — setting may change across await boundaries
-      const { syncPhotos } = store.getState().settings;
-      if (syncPhotos) {
-        // Skip download if photo is already cached in IndexedDB
-        const alreadyCached = await photoStorage.hasPhoto(entry.id);
-        if (alreadyCached) {
-          // Photo already stored locally — just set the marker, skip the save
-          processedEntries.push({ ...entry, photo: 'indexeddb' });
-          continue;
-        }
-
-        // Save to IndexedDB when photo sync is enabled
-        const saved = await photoStorage.savePhoto(entry.id, entry.photo);
-        if (saved) {
-          // Replace full photo with marker
-          processedEntries.push({ ...entry, photo: 'indexeddb' });
-        } else {
-          // Failed to save - keep entry without photo
-          logger.warn('Sync: Photo storage failed for entry:', entry.id);
-          processedEntries.push({ ...entry, photo: undefined });
-        }
-      } else {
-        // Photo sync disabled - discard incoming photo data
-        processedEntries.push({ ...entry, photo: undefined });
-      }
-    } else {
-      // No photo or already has marker
-      processedEntries.push(entry);
+  for (const { hasPhoto, ...entry } of entries) {
+    // Re-read syncPhotos per iteration — setting may change across await boundaries
+    const { syncPhotos } = store.getState().settings;
+    if (!hasPhoto || !syncPhotos) {
+      processedEntries.push({ ...entry, photo: undefined });
+      continue;
     }
+
+    const alreadyCached = await photoStorage.hasPhoto(entry.id);
+    processedEntries.push({
+      ...entry,
+      photo: alreadyCached ? 'indexeddb' : 'cloud',
+    });
   }
 
   return processedEntries;
@@ -204,11 +204,12 @@ async function fetchCloudEntriesImpl(): Promise<void> {
   }
 
   try {
-    // Include deviceId and deviceName for heartbeat tracking
+    // Include deviceId, deviceName and the device clock for heartbeat tracking
     const params = new URLSearchParams({
       raceId: state.raceId,
       deviceId: state.deviceId,
       deviceName: state.deviceName,
+      ...getClockReportParams(),
     });
 
     // Delta sync: only fetch entries modified since last successful sync
@@ -235,8 +236,8 @@ async function fetchCloudEntriesImpl(): Promise<void> {
       } catch {
         data = {};
       }
-      if (data.expired) {
-        // Token expired - clear and notify user
+      if (data.expired || data.racePinRequired) {
+        // Token expired or not valid for this race - clear and notify user
         clearAuthToken();
         store.setSyncStatus('disconnected');
         dispatchAuthExpired();
@@ -403,18 +404,10 @@ export async function sendEntryToCloud(entry: Entry): Promise<boolean> {
   if (!state.settings.sync || !state.raceId) return false;
 
   try {
-    // Prepare entry for sync - load photo from IndexedDB if syncPhotos is enabled
-    const entryToSync = await prepareEntryForSync(
-      entry,
-      state.settings.syncPhotos,
-    );
-
-    // Re-check raceId after async photo loading — user may have switched races
-    const currentRaceId = store.getState().raceId;
-    if (!currentRaceId || currentRaceId !== state.raceId) return false;
+    const entryToSync = prepareEntryForSync(entry);
 
     const response = await fetchWithTimeout(
-      `${API_BASE}?raceId=${encodeURIComponent(currentRaceId)}`,
+      `${API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
       {
         method: 'POST',
         headers: {
@@ -448,10 +441,6 @@ export async function sendEntryToCloud(entry: Entry): Promise<boolean> {
         return false;
       }
 
-      if (data.photoSkipped) {
-        callbacks?.showToast(t('photoTooLarge', lang), 'warning');
-      }
-
       // Check for cross-device duplicate warning
       if (data.crossDeviceDuplicate) {
         const dup = data.crossDeviceDuplicate;
@@ -478,6 +467,9 @@ export async function sendEntryToCloud(entry: Entry): Promise<boolean> {
       logger.warn('Failed to parse send response body:', parseError);
     }
 
+    // Keep the entry queued until its photo is uploaded
+    if (!(await syncEntryPhoto(entry))) return false;
+
     // Remove from sync queue on success
     store.removeFromSyncQueue(entry.id);
 
@@ -512,26 +504,10 @@ export async function sendEntriesToCloudBatch(
   const batch = entries.slice(0, SYNC_BATCH_SIZE);
 
   try {
-    // Prepare entries for sync - load photos from IndexedDB if needed
-    const entriesToSync: Entry[] = [];
-    for (const entry of batch) {
-      entriesToSync.push(
-        await prepareEntryForSync(entry, state.settings.syncPhotos),
-      );
-    }
-
-    // Re-read state after async photo loading — user may have switched races
-    // or device identity may have changed
-    const freshState = store.getState();
-    if (!freshState.raceId || freshState.raceId !== state.raceId) {
-      for (const entry of batch) {
-        resultMap.set(entry.id, false);
-      }
-      return resultMap;
-    }
+    const entriesToSync = batch.map(prepareEntryForSync);
 
     const response = await fetchWithTimeout(
-      `${API_BASE}?raceId=${encodeURIComponent(freshState.raceId)}`,
+      `${API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
       {
         method: 'POST',
         headers: {
@@ -541,8 +517,8 @@ export async function sendEntriesToCloudBatch(
         },
         body: JSON.stringify({
           entries: entriesToSync,
-          deviceId: freshState.deviceId,
-          deviceName: freshState.deviceName,
+          deviceId: state.deviceId,
+          deviceName: state.deviceName,
         }),
       },
       getAdaptiveTimeout(),
@@ -561,10 +537,14 @@ export async function sendEntriesToCloudBatch(
       }
     }
 
-    // Remove successfully synced entries from queue
+    // Remove successfully synced entries from queue (keeping entries whose
+    // photo upload failed)
     for (const entry of batch) {
-      if (resultMap.get(entry.id) === true) {
+      if (resultMap.get(entry.id) !== true) continue;
+      if (await syncEntryPhoto(entry)) {
         store.removeFromSyncQueue(entry.id);
+      } else {
+        resultMap.set(entry.id, false);
       }
     }
 
@@ -8,6 +8,7 @@ import { store } from '../../store';
 import type { FaultEntry, GateAssignment } from '../../types';
 import { fetchWithTimeout } from '../../utils/errors';
 import { logger } from '../../utils/logger';
+import type { GateCoverage } from '../../utils/validation';
 import { getAuthHeaders } from '../auth';
 import { FAULTS_API_BASE, FETCH_TIMEOUT } from './types';
 
@@ -28,6 +29,9 @@ let callbacks: FaultSyncCallbacks | null = null;
 // Gate assignments from other devices (for UI display)
 let otherGateAssignments: GateAssignment[] = [];
 
+// Server's check of all active judges against the course (null = gate count unknown)
+let gateCoverage: GateCoverage | null = null;
+
 // Concurrency guard for pushLocalFaults
 let isPushingFaults = false;
 
@@ -56,6 +60,44 @@ export function getOtherGateAssignments(): GateAssignment[] {
   return otherGateAssignments;
 }
 
+function isGateSpanList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (span) =>
+        span &&
+        typeof span === 'object' &&
+        Number.isInteger(span.gateStart) &&
+        Number.isInteger(span.gateEnd),
+    )
+  );
+}
+
+/**
+ * Accept the gate coverage from a cloud response (null when malformed)
+ */
+function parseGateCoverage(value: unknown): GateCoverage | null {
+  if (!value || typeof value !== 'object') return null;
+  const coverage = value as Partial<GateCoverage>;
+  if (
+    !Number.isInteger(coverage.gateCount) ||
+    !isGateSpanList(coverage.gaps) ||
+    !isGateSpanList(coverage.overlaps) ||
+    !coverage.overlaps!.every((overlap) => Array.isArray(overlap.deviceIds))
+  ) {
+    return null;
+  }
+  return coverage as GateCoverage;
+}
+
+/**
+ * Get gate gaps and overlaps of all active judges (null while the race's
+ * gate count is unknown)
+ */
+export function getGateCoverage(): GateCoverage | null {
+  return gateCoverage;
+}
+
 /**
  * Fetch faults from cloud
  * Called alongside entry polling
@@ -127,6 +169,7 @@ export async function fetchCloudFaults(): Promise<void> {
     if (Array.isArray(data.gateAssignments)) {
       updateGateAssignments(data.gateAssignments);
     }
+    gateCoverage = parseGateCoverage(data.gateCoverage);
 
     // Retry any local faults that failed to sync earlier (fire-and-forget)
     // This mirrors how entries use a queue processor for retries
@@ -267,5 +310,6 @@ export async function pushLocalFaults(): Promise<void> {
 export function cleanupFaultSync(): void {
   callbacks = null;
   otherGateAssignments = [];
+  gateCoverage = null;
   isPushingFaults = false;
 }
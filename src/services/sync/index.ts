@@ -11,6 +11,7 @@ import { getAuthHeaders } from '../auth';
 import { batteryService } from '../battery';
 import { photoStorage } from '../photoStorage';
 import { broadcastManager } from './broadcast';
+import { type DeviceClocksResponse, fetchDeviceClocks } from './clockSync';
 import {
   cleanupEntrySync,
   deleteEntryFromCloud,
@@ -25,18 +26,51 @@ import {
   cleanupFaultSync,
   deleteFaultFromCloudApi,
   fetchCloudFaults,
+  getGateCoverage,
   getOtherGateAssignments,
   initializeFaultSync,
   pushLocalFaults,
   sendFaultToCloud,
 } from './faultSync';
+import { liveStream } from './liveStream';
 // Import modules
 import { networkMonitor } from './networkMonitor';
+import {
+  cleanupPenaltySync,
+  fetchCloudPenaltyConfig,
+  sendPenaltyConfigToCloud,
+} from './penaltySync';
+import {
+  deleteEntryPhotoFromCloud,
+  fetchEntryPhoto,
+  type PhotoSize,
+} from './photoSync';
 import { pollingManager } from './polling';
+import {
+  fetchCloudProtests,
+  fetchProtestPhoto,
+  type JuryVote,
+  type ProtestDecisionResult,
+  sendProtestDecisionToCloud,
+  sendProtestToCloud,
+} from './protestSync';
 import { queueProcessor } from './queue';
+import {
+  cleanupRaceConfigSync,
+  fetchCloudRaceConfig,
+  type RaceConfigSection,
+  sendRaceConfigToCloud,
+} from './raceConfigSync';
+import { fetchResultsPublished, sendResultsPublished } from './resultsSync';
+import {
+  cleanupStartListSync,
+  fetchCloudStartList,
+  sendStartListToCloud,
+} from './startListSync';
 import {
   API_BASE,
   FETCH_TIMEOUT,
+  type LiveStreamEvent,
   QUEUE_PROCESS_INTERVAL_METERED,
 } from './types';
 
@@ -50,6 +84,9 @@ export {
 } from '../auth';
 
 // Re-export types
+export type { DeviceClocksResponse } from './clockSync';
+export type { JuryVote, ProtestDecisionResult } from './protestSync';
+export type { RaceConfigSection } from './raceConfigSync';
 export type {
   BroadcastMessage,
   ConnectionQuality,
@@ -67,6 +104,8 @@ class SyncService {
   private visibilityHandler: (() => void) | null = null;
   private wasQueueProcessingBeforeHidden = false;
   private faultPollInterval: ReturnType<typeof setInterval> | null = null;
+  private liveEntryFetchRunning = false;
+  private liveEntryFetchPending = false;
 
   /**
    * Initialize sync service
@@ -91,6 +130,9 @@ class SyncService {
     // Start cloud sync polling
     pollingManager.start();
 
+    // Start live push stream (pauses entry polling while connected)
+    liveStream.start();
+
     // Start independent fault polling (slower cadence than entry polling)
     this.startFaultPolling();
 
@@ -109,8 +151,9 @@ class SyncService {
     if (!this.visibilityHandler) {
       this.visibilityHandler = () => {
         if (document.hidden) {
-          // Page is hidden - slow down polling instead of stopping entirely
-          // This keeps data flowing at a reduced rate while saving battery
+          // Page is hidden - close the live stream and fall back to slow
+          // polling. This keeps data flowing at a reduced rate while saving battery
+          this.stopLiveStream();
           pollingManager.setTabHidden(true);
           // Stop queue processing and fault polling to save battery (not time-sensitive)
           this.wasQueueProcessingBeforeHidden = queueProcessor.isProcessing();
@@ -118,7 +161,9 @@ class SyncService {
           this.stopFaultPolling();
         } else {
           // Page is visible - restore normal polling (triggers immediate poll)
+          // and reopen the live stream
           pollingManager.setTabHidden(false);
+          liveStream.start();
           // Resume queue processing if it was active
           if (this.wasQueueProcessingBeforeHidden) {
             queueProcessor.start(this.getQueueInterval());
@@ -145,6 +190,7 @@ class SyncService {
         if (store.getState().syncStatus === 'offline') {
           store.setSyncStatus('connecting');
           pollingManager.start();
+          liveStream.start();
           // Push any faults that failed to sync while offline
           pushLocalFaults().catch((error) => {
             logger.error('Failed to push local faults on reconnect:', error);
@@ -176,6 +222,29 @@ class SyncService {
       });
     });
 
+    // Initialize live stream: pause polling while connected, fall back to
+    // polling when the stream drops. The server closes every stream after
+    // a while, so each (re)connect catches up on changes published in the
+    // gap with a delta fetch.
+    liveStream.initialize({
+      onEvent: (event) => this.handleLiveEvent(event),
+      onConnected: () => {
+        pollingManager.stop();
+        this.fetchEntriesForLiveEvent();
+        fetchCloudFaults().catch((err) => {
+          logger.error('Live catch-up fault fetch failed:', err);
+        });
+        fetchCloudProtests().catch((err) => {
+          logger.error('Live catch-up protests fetch failed:', err);
+        });
+      },
+      onDisconnected: () => {
+        if (!pollingManager.isPolling()) {
+          pollingManager.start();
+        }
+      },
+    });
+
     // Initialize queue processor with single and batch callbacks
     queueProcessor.initialize(sendEntryToCloud);
     queueProcessor.initializeBatch(sendEntriesToCloudBatch);
@@ -203,6 +272,68 @@ class SyncService {
     });
   }
 
+  /**
+   * Apply a pushed race event. Entry and fault changes trigger a delta fetch
+   * so the existing merge logic applies; own changes are already local.
+   */
+  private handleLiveEvent(event: LiveStreamEvent): void {
+    if (event.type === 'presence') {
+      if (typeof event.deviceCount === 'number') {
+        store.setCloudDeviceCount(event.deviceCount);
+      }
+      return;
+    }
+
+    if (event.deviceId && event.deviceId === store.getState().deviceId) {
+      return;
+    }
+
+    if (event.type === 'fault') {
+      fetchCloudFaults().catch((err) => {
+        logger.error('Live fault fetch failed:', err);
+      });
+    } else {
+      this.fetchEntriesForLiveEvent();
+    }
+  }
+
+  /**
+   * Fetch entries after a live event. Events arriving during a fetch queue
+   * one follow-up fetch, since the running fetch may predate their change.
+   */
+  private fetchEntriesForLiveEvent(): void {
+    if (this.liveEntryFetchRunning) {
+      this.liveEntryFetchPending = true;
+      return;
+    }
+    this.liveEntryFetchRunning = true;
+
+    const run = async (): Promise<void> => {
+      do {
+        this.liveEntryFetchPending = false;
+        await fetchCloudEntries();
+      } while (this.liveEntryFetchPending);
+    };
+
+    run()
+      .catch((err) => {
+        logger.error('Live entry fetch failed:', err);
+      })
+      .finally(() => {
+        this.liveEntryFetchRunning = false;
+      });
+  }
+
+  /**
+   * Close the live stream and make sure polling takes over
+   */
+  private stopLiveStream(): void {
+    liveStream.stop();
+    if (!pollingManager.isPolling()) {
+      pollingManager.start();
+    }
+  }
+
   /**
    * Get queue processing interval based on network state.
    * Uses slower interval on metered/cellular to reduce wake-ups.
@@ -224,10 +355,35 @@ class SyncService {
     fetchCloudFaults().catch((err) => {
       logger.error('Initial fault fetch failed:', err);
     });
+    // Start list changes even less often - piggyback on the fault cadence
+    fetchCloudStartList().catch((err) => {
+      logger.error('Initial start list fetch failed:', err);
+    });
+    fetchCloudPenaltyConfig().catch((err) => {
+      logger.error('Initial penalty config fetch failed:', err);
+    });
+    fetchCloudRaceConfig().catch((err) => {
+      logger.error('Initial race config fetch failed:', err);
+    });
+    fetchCloudProtests().catch((err) => {
+      logger.error('Initial protests fetch failed:', err);
+    });
     this.faultPollInterval = setInterval(() => {
       fetchCloudFaults().catch((err) => {
         logger.error('Fault poll failed:', err);
       });
+      fetchCloudStartList().catch((err) => {
+        logger.error('Start list poll failed:', err);
+      });
+      fetchCloudPenaltyConfig().catch((err) => {
+        logger.error('Penalty config poll failed:', err);
+      });
+      fetchCloudRaceConfig().catch((err) => {
+        logger.error('Race config poll failed:', err);
+      });
+      fetchCloudProtests().catch((err) => {
+        logger.error('Protests poll failed:', err);
+      });
     }, FAULT_POLL_INTERVAL);
   }
 
@@ -260,7 +416,8 @@ class SyncService {
    * Cleanup sync service
    */
   cleanup(): void {
-    // Stop polling, fault polling, and queue processing
+    // Stop live stream, polling, fault polling, and queue processing
+    liveStream.cleanup();
     pollingManager.cleanup();
     this.stopFaultPolling();
     queueProcessor.cleanup();
@@ -277,10 +434,15 @@ class SyncService {
       this.visibilityHandler = null;
     }
     this.wasQueueProcessingBeforeHidden = false;
+    this.liveEntryFetchRunning = false;
+    this.liveEntryFetchPending = false;
 
     // Cleanup module state
     cleanupEntrySync();
     cleanupFaultSync();
+    cleanupStartListSync();
+    cleanupPenaltySync();
+    cleanupRaceConfigSync();
 
     store.setSyncStatus('disconnected');
   }
@@ -371,6 +533,116 @@ class SyncService {
     return getOtherGateAssignments();
   }
 
+  /**
+   * Get gaps and overlaps in gate coverage (null while the gate count is unknown)
+   */
+  getGateCoverage(): import('../../utils/validation').GateCoverage | null {
+    return getGateCoverage();
+  }
+
+  /**
+   * Upload start list to cloud
+   */
+  sendStartListToCloud(
+    racers: import('../../types').Racer[],
+  ): Promise<boolean> {
+    return sendStartListToCloud(racers);
+  }
+
+  /**
+   * Refresh start list from cloud
+   */
+  fetchStartList(): Promise<void> {
+    return fetchCloudStartList();
+  }
+
+  /**
+   * Upload penalty config (default + per-category rules) to cloud
+   */
+  sendPenaltyConfigToCloud(): Promise<boolean> {
+    return sendPenaltyConfigToCloud();
+  }
+
+  /**
+   * Upload the changed race config sections to cloud
+   */
+  sendRaceConfigToCloud(sections: RaceConfigSection[]): Promise<boolean> {
+    return sendRaceConfigToCloud(sections);
+  }
+
+  /**
+   * Refresh the race's protests from cloud
+   */
+  fetchProtests(): Promise<void> {
+    return fetchCloudProtests();
+  }
+
+  /**
+   * File a protest with its evidence photos (data URLs)
+   */
+  sendProtestToCloud(
+    protest: import('../../types').Protest,
+    photos: string[],
+  ): Promise<import('../../types').Protest | null> {
+    return sendProtestToCloud(protest, photos);
+  }
+
+  /**
+   * Record the jury decision on a protest
+   */
+  sendProtestDecision(
+    protestId: string,
+    vote: JuryVote,
+  ): Promise<ProtestDecisionResult | null> {
+    return sendProtestDecisionToCloud(protestId, vote);
+  }
+
+  /**
+   * Download an evidence photo of a protest
+   */
+  fetchProtestPhoto(protestId: string, index: number): Promise<string | null> {
+    return fetchProtestPhoto(protestId, index);
+  }
+
+  /**
+   * Get an entry's photo or thumbnail, downloading it from the cloud when
+   * it isn't cached
+   */
+  fetchEntryPhoto(
+    entry: import('../../types').Entry,
+    size: PhotoSize,
+  ): Promise<string | null> {
+    return fetchEntryPhoto(entry, size);
+  }
+
+  /**
+   * Delete an entry's photo from the cloud
+   */
+  deleteEntryPhoto(entry: import('../../types').Entry): Promise<boolean> {
+    return deleteEntryPhotoFromCloud(entry);
+  }
+
+  /**
+   * Check if the race's results are published to the live results page
+   */
+  fetchResultsPublished(): Promise<boolean | null> {
+    return fetchResultsPublished();
+  }
+
+  /**
+   * Publish or unpublish the race's results on the live results page
+   */
+  setResultsPublished(published: boolean): Promise<boolean> {
+    return sendResultsPublished(published);
+  }
+
+  /**
+   * Fetch the clock reports of the race's devices (clock health)
+   */
+  fetchDeviceClocks(): Promise<DeviceClocksResponse | null> {
+    return fetchDeviceClocks();
+  }
+
   /**
    * Check if a race exists in the cloud
    */
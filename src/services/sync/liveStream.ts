@@ -0,0 +1,280 @@
+/**
+ * Live Stream Module
+ * Receives race events pushed by the server over Server-Sent Events.
+ * Uses fetch streaming instead of EventSource so the auth header can be sent.
+ * While the stream is connected, polling is paused; when it drops, the sync
+ * service falls back to polling and the stream reconnects with backoff.
+ */
+
+import { store } from '../../store';
+import { logger } from '../../utils/logger';
+import { getAuthHeaders } from '../auth';
+import { getClockReportParams } from './clockSync';
+import {
+  type LiveStreamEvent,
+  STREAM_API_BASE,
+  STREAM_IDLE_TIMEOUT,
+  STREAM_RECONNECT_BASE,
+  STREAM_RECONNECT_MAX,
+} from './types';
+
+const LIVE_EVENT_TYPES = new Set(['entry', 'deletion', 'fault', 'presence']);
+
+/**
+ * Callbacks for live stream state changes and events
+ */
+export interface LiveStreamCallbacks {
+  onEvent: (event: LiveStreamEvent) => void;
+  onConnected: () => void;
+  onDisconnected: () => void;
+}
+
+/**
+ * Parse one SSE message block into event name and data.
+ * Comment lines (heartbeats) and retry fields are ignored.
+ */
+export function parseSseMessage(
+  block: string,
+): { event: string; data: string } | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Live stream manager with automatic reconnect
+ */
+class LiveStreamManager {
+  private callbacks: LiveStreamCallbacks | null = null;
+  private abortController: AbortController | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private idleTimeout: ReturnType<typeof setTimeout> | null = null;
+  private reconnectDelay = STREAM_RECONNECT_BASE;
+  private connected = false;
+  private active = false;
+
+  /**
+   * Initialize with sync service callbacks
+   */
+  initialize(callbacks: LiveStreamCallbacks): void {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Check if streaming is supported in this browser
+   */
+  isSupported(): boolean {
+    return (
+      typeof ReadableStream !== 'undefined' &&
+      typeof TextDecoder !== 'undefined' &&
+      typeof AbortController !== 'undefined'
+    );
+  }
+
+  /**
+   * Start the live stream (no-op when unsupported or already running)
+   */
+  start(): void {
+    if (!this.callbacks || !this.isSupported() || this.abortController) {
+      return;
+    }
+    this.active = true;
+    this.clearReconnect();
+    void this.connect();
+  }
+
+  /**
+   * Stop the live stream without reconnecting
+   */
+  stop(): void {
+    this.active = false;
+    this.clearReconnect();
+    this.disconnect();
+  }
+
+  /**
+   * Check if the stream is currently connected
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Open the stream and read messages until it ends or fails
+   */
+  private async connect(): Promise<void> {
+    const state = store.getState();
+    if (!state.settings.sync || !state.raceId) return;
+
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    // The clock report rides along: streams reconnect every minute, so it
+    // stays fresh while polling is paused
+    const params = new URLSearchParams({
+      raceId: state.raceId,
+      deviceId: state.deviceId,
+      deviceName: state.deviceName,
+      ...getClockReportParams(),
+    });
+
+    let failed = false;
+    try {
+      const response = await fetch(`${STREAM_API_BASE}?${params}`, {
+        headers: { Accept: 'text/event-stream', ...getAuthHeaders() },
+        signal: controller.signal,
+      });
+
+      // A non-stream response (e.g. proxy error page) must not be read as a
+      // stream, otherwise the immediate reconnect would loop
+      const contentType = response.headers.get('Content-Type') || '';
+      if (
+        !response.ok ||
+        !response.body ||
+        !contentType.includes('text/event-stream')
+      ) {
+        throw new Error(`Stream unavailable (HTTP ${response.status})`);
+      }
+
+      this.connected = true;
+      this.reconnectDelay = STREAM_RECONNECT_BASE;
+      this.resetIdleTimeout();
+      this.callbacks?.onConnected();
+
+      await this.readStream(response.body);
+    } catch (error) {
+      if (!controller.signal.aborted || this.active) {
+        failed = true;
+        logger.warn('[LiveStream] Stream failed:', error);
+      }
+    } finally {
+      if (this.abortController === controller) {
+        this.disconnect();
+      }
+    }
+
+    // Stopped, or superseded by a newer connection (stop + start)
+    if (!this.active || this.abortController) return;
+
+    // Server closes the stream periodically (function time limit) - reconnect
+    // right away; after failures back off and rely on polling meanwhile
+    if (failed) {
+      this.callbacks?.onDisconnected();
+      this.scheduleReconnect(this.reconnectDelay);
+      this.reconnectDelay = Math.min(
+        this.reconnectDelay * 2,
+        STREAM_RECONNECT_MAX,
+      );
+    } else {
+      this.scheduleReconnect(0);
+    }
+  }
+
+  /**
+   * Read SSE message blocks from the response body
+   */
+  private async readStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      this.resetIdleTimeout();
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseSseMessage(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) this.handleMessage(message.event, message.data);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  }
+
+  /**
+   * Dispatch a race event (ready is sent once with the device count)
+   */
+  private handleMessage(eventName: string, data: string): void {
+    let payload: Partial<LiveStreamEvent>;
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (eventName === 'ready') {
+      this.callbacks?.onEvent({
+        type: 'presence',
+        deviceCount: payload.deviceCount,
+      });
+    } else if (LIVE_EVENT_TYPES.has(eventName)) {
+      this.callbacks?.onEvent({
+        ...payload,
+        type: eventName as LiveStreamEvent['type'],
+      });
+    }
+  }
+
+  /**
+   * Abort the stream when no data (not even a heartbeat) arrives in time
+   */
+  private resetIdleTimeout(): void {
+    if (this.idleTimeout) clearTimeout(this.idleTimeout);
+    this.idleTimeout = setTimeout(() => {
+      logger.warn('[LiveStream] No heartbeat - reconnecting');
+      this.abortController?.abort();
+    }, STREAM_IDLE_TIMEOUT);
+  }
+
+  private scheduleReconnect(delay: number): void {
+    this.clearReconnect();
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      if (this.active && !this.abortController) void this.connect();
+    }, delay);
+  }
+
+  private clearReconnect(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+  }
+
+  private disconnect(): void {
+    if (this.idleTimeout) {
+      clearTimeout(this.idleTimeout);
+      this.idleTimeout = null;
+    }
+    const controller = this.abortController;
+    this.abortController = null;
+    this.connected = false;
+    controller?.abort();
+  }
+
+  /**
+   * Cleanup resources
+   */
+  cleanup(): void {
+    this.stop();
+    this.callbacks = null;
+    this.reconnectDelay = STREAM_RECONNECT_BASE;
+  }
+}
+
+// Singleton instance
+export const liveStream = new LiveStreamManager();
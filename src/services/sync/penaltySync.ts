@@ -0,0 +1,118 @@
+/**
+ * Penalty Sync Module
+ * Handles race penalty config (default rule + per-category rules) cloud operations
+ */
+
+import { store } from '../../store';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  isValidPenaltyRule,
+  sanitizePenaltyRules,
+} from '../../utils/validation';
+import { getAuthHeaders } from '../auth';
+import { FETCH_TIMEOUT, PENALTIES_API_BASE } from './types';
+
+// lastUpdated of the cloud penalty config already applied locally
+let lastAppliedUpdate: number | null = null;
+
+/**
+ * Fetch penalty config from cloud
+ * Called alongside fault polling (penalty rules change rarely)
+ */
+export async function fetchCloudPenaltyConfig(): Promise<void> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  const originalRaceId = state.raceId;
+
+  try {
+    const params = new URLSearchParams({ raceId: originalRaceId });
+    const response = await fetchWithTimeout(
+      `${PENALTIES_API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Auth expired - handled by main sync
+        return;
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data || typeof data !== 'object') {
+      throw new Error('Invalid penalty config data structure');
+    }
+
+    // Re-check raceId after async fetch — user may have switched races
+    if (store.getState().raceId !== originalRaceId) return;
+
+    const lastUpdated =
+      typeof data.lastUpdated === 'number' ? data.lastUpdated : null;
+
+    // No penalty config in the cloud yet, or already applied
+    if (lastUpdated === null || lastUpdated === lastAppliedUpdate) return;
+
+    if (isValidPenaltyRule(data)) {
+      store.setUsePenaltyMode(data.usePenaltyMode);
+      store.setPenaltySeconds(data.penaltySeconds);
+    }
+    store.setPenaltyRules(sanitizePenaltyRules(data.rules));
+    lastAppliedUpdate = lastUpdated;
+  } catch (error) {
+    logger.error('Penalty config fetch error:', error);
+  }
+}
+
+/**
+ * Upload the local penalty config to cloud (replaces the race's config)
+ */
+export async function sendPenaltyConfigToCloud(): Promise<boolean> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return false;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${PENALTIES_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          usePenaltyMode: state.usePenaltyMode,
+          penaltySeconds: state.penaltySeconds,
+          rules: state.penaltyRules,
+          deviceName: state.deviceName,
+        }),
+      },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.lastUpdated === 'number') {
+      lastAppliedUpdate = data.lastUpdated;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Penalty config upload error:', error);
+    return false;
+  }
+}
+
+/**
+ * Cleanup module state
+ */
+export function cleanupPenaltySync(): void {
+  lastAppliedUpdate = null;
+}
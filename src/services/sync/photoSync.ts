@@ -0,0 +1,167 @@
+/**
+ * Photo Sync Module
+ * Handles entry photos on the cloud photo API (upload, on-demand download,
+ * delete). Downloaded photos and thumbnails are cached in IndexedDB.
+ */
+
+import { store } from '../../store';
+import type { Entry } from '../../types';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { getAuthHeaders } from '../auth';
+import { photoStorage } from '../photoStorage';
+import { FETCH_TIMEOUT_HIGH_LATENCY, PHOTOS_API_BASE } from './types';
+
+/**
+ * Outcome of a photo upload. Only 'failed' is worth retrying; 'tooLarge'
+ * and 'rejected' photos stay local.
+ */
+export type PhotoUploadResult = 'uploaded' | 'tooLarge' | 'rejected' | 'failed';
+
+export type PhotoSize = 'full' | 'thumbnail';
+
+// Photos are stored locally as raw base64 JPEG, the photo API uses data URLs
+const JPEG_DATA_URL_PREFIX = 'data:image/jpeg;base64,';
+
+/**
+ * Upload the locally stored photo of a synced entry
+ */
+export async function uploadEntryPhoto(
+  entry: Entry,
+): Promise<PhotoUploadResult> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return 'failed';
+
+  const photo = await photoStorage.getPhoto(entry.id);
+  if (!photo) return 'rejected';
+
+  // Re-check raceId after async photo loading — user may have switched races
+  if (store.getState().raceId !== state.raceId) return 'failed';
+
+  try {
+    const response = await fetchWithTimeout(
+      `${PHOTOS_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          entryId: entry.id,
+          deviceId: entry.deviceId,
+          photo: photo.startsWith('data:')
+            ? photo
+            : `${JPEG_DATA_URL_PREFIX}${photo}`,
+        }),
+      },
+      FETCH_TIMEOUT_HIGH_LATENCY,
+    );
+
+    if (response.status === 413) return 'tooLarge';
+    if (response.status === 400) return 'rejected';
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.thumbnail === 'string') {
+      await photoStorage.saveThumbnail(entry.id, data.thumbnail);
+    }
+    return 'uploaded';
+  } catch (error) {
+    logger.error('Photo upload error:', error);
+    return 'failed';
+  }
+}
+
+/**
+ * Get an entry's photo (raw base64) or thumbnail (data URL), from the
+ * IndexedDB cache or downloaded from the cloud (null when unavailable)
+ */
+export async function fetchEntryPhoto(
+  entry: Entry,
+  size: PhotoSize,
+): Promise<string | null> {
+  const cached =
+    size === 'full'
+      ? await photoStorage.getPhoto(entry.id)
+      : await photoStorage.getThumbnail(entry.id);
+  if (cached) return cached;
+
+  const state = store.getState();
+  if (!state.settings.sync || !state.settings.syncPhotos || !state.raceId) {
+    return null;
+  }
+
+  try {
+    const params = new URLSearchParams({
+      raceId: state.raceId,
+      entryId: entry.id,
+      deviceId: entry.deviceId,
+      size,
+    });
+    const response = await fetchWithTimeout(
+      `${PHOTOS_API_BASE}?${params}`,
+      { headers: { ...getAuthHeaders() } },
+      FETCH_TIMEOUT_HIGH_LATENCY,
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.photo !== 'string') return null;
+
+    if (size === 'thumbnail') {
+      await photoStorage.saveThumbnail(entry.id, data.photo);
+      return data.photo;
+    }
+
+    const photo = data.photo.slice(data.photo.indexOf(',') + 1);
+    await photoStorage.savePhoto(entry.id, photo);
+    return photo;
+  } catch (error) {
+    logger.error('Photo download error:', error);
+    return null;
+  }
+}
+
+/**
+ * Delete an entry's photo from the cloud
+ */
+export async function deleteEntryPhotoFromCloud(
+  entry: Entry,
+): Promise<boolean> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return false;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${PHOTOS_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          entryId: entry.id,
+          deviceId: entry.deviceId,
+        }),
+      },
+      FETCH_TIMEOUT_HIGH_LATENCY,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Photo delete error:', error);
+    return false;
+  }
+}
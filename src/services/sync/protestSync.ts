@@ -0,0 +1,224 @@
+/**
+ * Protest Sync Module
+ * Handles protests and jury decisions on the cloud protest API. Evidence
+ * photos are uploaded with the protest and downloaded on demand.
+ */
+
+import { store } from '../../store';
+import type { JuryDecision, Protest } from '../../types';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { isValidProtest } from '../../utils/validation';
+import { getAuthHeaders } from '../auth';
+import {
+  FETCH_TIMEOUT,
+  FETCH_TIMEOUT_HIGH_LATENCY,
+  PROTESTS_API_BASE,
+} from './types';
+
+/** Jury vote as recorded in the decision dialog (the server stamps time and device) */
+export type JuryVote = Omit<JuryDecision, 'decidedAt' | 'decidedBy'>;
+
+/** Recorded decision; applied when the server carried out an upheld protest */
+export interface ProtestDecisionResult {
+  protest: Protest;
+  applied: boolean;
+}
+
+function parseProtestResponse(data: unknown): Protest | null {
+  const protest = (data as { protest?: unknown } | null)?.protest;
+  return isValidProtest(protest) ? (protest as Protest) : null;
+}
+
+/**
+ * Replace a protest in the store with the server's copy
+ */
+function storeProtest(protest: Protest): void {
+  const others = store.getState().protests.filter((p) => p.id !== protest.id);
+  store.setProtests(
+    [...others, protest].sort((a, b) => a.filedAt.localeCompare(b.filedAt)),
+  );
+}
+
+/**
+ * Fetch the race's protests from cloud
+ * Called alongside fault polling (protests are rare)
+ */
+export async function fetchCloudProtests(): Promise<void> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  const originalRaceId = state.raceId;
+
+  try {
+    const params = new URLSearchParams({ raceId: originalRaceId });
+    const response = await fetchWithTimeout(
+      `${PROTESTS_API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Auth expired - handled by main sync
+        return;
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data || !Array.isArray(data.protests)) {
+      throw new Error('Invalid protests data structure');
+    }
+
+    // Re-check raceId after async fetch — user may have switched races
+    if (store.getState().raceId !== originalRaceId) return;
+
+    store.setProtests(
+      (data.protests as unknown[]).filter((p): p is Protest =>
+        isValidProtest(p),
+      ),
+    );
+  } catch (error) {
+    logger.error('Protests fetch error:', error);
+  }
+}
+
+/**
+ * File a protest with its evidence photos (data URLs)
+ * Returns the stored protest, or null when the cloud rejected it
+ */
+export async function sendProtestToCloud(
+  protest: Protest,
+  photos: string[],
+): Promise<Protest | null> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return null;
+
+  try {
+    const {
+      photoCount: _photoCount,
+      recordedBy: _recordedBy,
+      recordedByDeviceId: _recordedByDeviceId,
+      decision: _decision,
+      ...input
+    } = protest;
+    const response = await fetchWithTimeout(
+      `${PROTESTS_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          protest: input,
+          photos,
+          deviceId: state.deviceId,
+          deviceName: state.deviceName,
+        }),
+      },
+      photos.length > 0 ? FETCH_TIMEOUT_HIGH_LATENCY : FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const stored = parseProtestResponse(await response.json());
+    if (stored && store.getState().raceId === state.raceId) {
+      storeProtest(stored);
+    }
+    return stored;
+  } catch (error) {
+    logger.error('Protest upload error:', error);
+    return null;
+  }
+}
+
+/**
+ * Record the jury decision on a protest. The server carries out an upheld
+ * protest on the stored fault or entry; devices receive it through sync.
+ * Returns the decided protest, or null when the cloud rejected it (e.g.
+ * another device recorded a decision first)
+ */
+export async function sendProtestDecisionToCloud(
+  protestId: string,
+  vote: JuryVote,
+): Promise<ProtestDecisionResult | null> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return null;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${PROTESTS_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({
+          protestId,
+          ...vote,
+          deviceId: state.deviceId,
+          deviceName: state.deviceName,
+        }),
+      },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    const decided = parseProtestResponse(data);
+    if (!decided) return null;
+    if (store.getState().raceId === state.raceId) {
+      storeProtest(decided);
+    }
+    return {
+      protest: decided,
+      applied: (data as { applied?: unknown }).applied === true,
+    };
+  } catch (error) {
+    logger.error('Protest decision error:', error);
+    return null;
+  }
+}
+
+/**
+ * Download an evidence photo of a protest (data URL, null when unavailable)
+ */
+export async function fetchProtestPhoto(
+  protestId: string,
+  index: number,
+): Promise<string | null> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return null;
+
+  try {
+    const params = new URLSearchParams({
+      raceId: state.raceId,
+      protestId,
+      photo: String(index),
+    });
+    const response = await fetchWithTimeout(
+      `${PROTESTS_API_BASE}?${params}`,
+      { headers: { ...getAuthHeaders() } },
+      FETCH_TIMEOUT_HIGH_LATENCY,
+    );
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    return typeof data?.photo === 'string' ? data.photo : null;
+  } catch (error) {
+    logger.error('Protest photo download error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Race Config Sync Module
+ * Handles race config (intermediate timing points, run count, primary timing
+ * devices, course map, protest deadlines) cloud operations.
+ * The race definition (admin race metadata) arrives with the race config.
+ */
+
+import { store } from '../../store';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import {
+  sanitizeCourseGates,
+  sanitizePrimaryDevices,
+  sanitizeProtestDeadlines,
+  sanitizeRaceDefinition,
+} from '../../utils/validation';
+import { getAuthHeaders } from '../auth';
+import { FETCH_TIMEOUT, RACECONFIG_API_BASE } from './types';
+
+/** Race config sections a device uploads on their own */
+export type RaceConfigSection =
+  | 'intermediatePoints'
+  | 'runCount'
+  | 'primaryDevices'
+  | 'courseGates'
+  | 'protestDeadlines';
+
+// lastUpdated of the cloud race config already applied locally
+let lastAppliedUpdate: number | null = null;
+
+/**
+ * Fetch race config from cloud
+ * Called alongside fault polling (race config changes rarely)
+ */
+export async function fetchCloudRaceConfig(): Promise<void> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  const originalRaceId = state.raceId;
+
+  try {
+    const params = new URLSearchParams({ raceId: originalRaceId });
+    const response = await fetchWithTimeout(
+      `${RACECONFIG_API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Auth expired - handled by main sync
+        return;
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data || typeof data.intermediatePoints !== 'number') {
+      throw new Error('Invalid race config data structure');
+    }
+
+    // Re-check raceId after async fetch — user may have switched races
+    if (store.getState().raceId !== originalRaceId) return;
+
+    const lastUpdated =
+      typeof data.lastUpdated === 'number' ? data.lastUpdated : null;
+
+    // No race config in the cloud yet, or already applied
+    if (lastUpdated === null || lastUpdated === lastAppliedUpdate) return;
+
+    store.setIntermediatePoints(data.intermediatePoints);
+    if (typeof data.runCount === 'number') {
+      store.setRunCount(data.runCount);
+    }
+    if (data.primaryDevices !== undefined) {
+      store.setPrimaryDevices(sanitizePrimaryDevices(data.primaryDevices));
+    }
+    if (data.courseGates !== undefined) {
+      store.setCourseGates(sanitizeCourseGates(data.courseGates));
+    }
+    if (data.protestDeadlines !== undefined) {
+      store.setProtestDeadlines(
+        sanitizeProtestDeadlines(data.protestDeadlines),
+      );
+    }
+    if (data.definition !== undefined) {
+      store.setRaceDefinition(sanitizeRaceDefinition(data.definition));
+    }
+    lastAppliedUpdate = lastUpdated;
+  } catch (error) {
+    logger.error('Race config fetch error:', error);
+  }
+}
+
+/**
+ * Upload the given sections of the local race config to cloud. The server
+ * merges them into the race's config, so concurrent edits of other sections
+ * on other devices are kept.
+ */
+export async function sendRaceConfigToCloud(
+  sections: RaceConfigSection[],
+): Promise<boolean> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return false;
+
+  const changes: Partial<Record<RaceConfigSection, unknown>> = {};
+  for (const section of sections) {
+    changes[section] = state[section];
+  }
+
+  try {
+    const response = await fetchWithTimeout(
+      `${RACECONFIG_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ ...changes, deviceName: state.deviceName }),
+      },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.lastUpdated === 'number') {
+      lastAppliedUpdate = data.lastUpdated;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Race config upload error:', error);
+    return false;
+  }
+}
+
+/**
+ * Cleanup module state
+ */
+export function cleanupRaceConfigSync(): void {
+  lastAppliedUpdate = null;
+}
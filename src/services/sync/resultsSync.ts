@@ -0,0 +1,73 @@
+/**
+ * Results Sync Module
+ * Handles publishing race results to the public live results page
+ */
+
+import { store } from '../../store';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { getAuthHeaders } from '../auth';
+import { FETCH_TIMEOUT, RESULTS_API_BASE } from './types';
+
+/**
+ * Fetch whether the current race's results are published
+ * Returns null when sync is off or the request fails
+ */
+export async function fetchResultsPublished(): Promise<boolean | null> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return null;
+
+  try {
+    const params = new URLSearchParams({ raceId: state.raceId });
+    const response = await fetchWithTimeout(
+      `${RESULTS_API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data?.published === true;
+  } catch (error) {
+    logger.error('Results publish status fetch error:', error);
+    return null;
+  }
+}
+
+/**
+ * Publish or unpublish the current race's results (Chief Judge only)
+ */
+export async function sendResultsPublished(
+  published: boolean,
+): Promise<boolean> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return false;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${RESULTS_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ published }),
+      },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Results publish error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Start List Sync Module
+ * Handles start list (bib → racer) cloud operations
+ */
+
+import { store } from '../../store';
+import type { Racer } from '../../types';
+import { fetchWithTimeout } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { isValidRacer } from '../../utils/validation';
+import { getAuthHeaders } from '../auth';
+import { FETCH_TIMEOUT, STARTLIST_API_BASE } from './types';
+
+// lastUpdated of the cloud start list already applied locally
+let lastAppliedUpdate: number | null = null;
+
+/**
+ * Fetch start list from cloud
+ * Called alongside fault polling (start lists change rarely)
+ */
+export async function fetchCloudStartList(): Promise<void> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return;
+
+  const originalRaceId = state.raceId;
+
+  try {
+    const params = new URLSearchParams({ raceId: originalRaceId });
+    const response = await fetchWithTimeout(
+      `${STARTLIST_API_BASE}?${params}`,
+      { headers: { 'Accept-Encoding': 'gzip, deflate', ...getAuthHeaders() } },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        // Auth expired - handled by main sync
+        return;
+      }
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data || typeof data !== 'object') {
+      throw new Error('Invalid start list data structure');
+    }
+
+    // Re-check raceId after async fetch — user may have switched races
+    if (store.getState().raceId !== originalRaceId) return;
+
+    const lastUpdated =
+      typeof data.lastUpdated === 'number' ? data.lastUpdated : null;
+
+    // No start list in the cloud yet, or already applied
+    if (lastUpdated === null || lastUpdated === lastAppliedUpdate) return;
+
+    const racers = Array.isArray(data.racers)
+      ? (data.racers as unknown[]).filter((r): r is Racer => isValidRacer(r))
+      : [];
+
+    store.setStartList(racers);
+    lastAppliedUpdate = lastUpdated;
+  } catch (error) {
+    logger.error('Start list fetch error:', error);
+  }
+}
+
+/**
+ * Upload start list to cloud (replaces the race's start list)
+ */
+export async function sendStartListToCloud(racers: Racer[]): Promise<boolean> {
+  const state = store.getState();
+  if (!state.settings.sync || !state.raceId) return false;
+
+  try {
+    const response = await fetchWithTimeout(
+      `${STARTLIST_API_BASE}?raceId=${encodeURIComponent(state.raceId)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept-Encoding': 'gzip, deflate',
+          ...getAuthHeaders(),
+        },
+        body: JSON.stringify({ racers, deviceName: state.deviceName }),
+      },
+      FETCH_TIMEOUT,
+    );
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (typeof data?.lastUpdated === 'number') {
+      lastAppliedUpdate = data.lastUpdated;
+    }
+
+    return true;
+  } catch (error) {
+    logger.error('Start list upload error:', error);
+    return false;
+  }
+}
+
+/**
+ * Cleanup module state
+ */
+export function cleanupStartListSync(): void {
+  lastAppliedUpdate = null;
+}
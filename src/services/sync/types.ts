@@ -8,6 +8,14 @@ import type { BatteryLevel } from '../battery';
 // API configuration (v1)
 export const API_BASE = '/api/v1/sync';
 export const FAULTS_API_BASE = '/api/v1/faults';
+export const STARTLIST_API_BASE = '/api/v1/startlist';
+export const PENALTIES_API_BASE = '/api/v1/penalties';
+export const RESULTS_API_BASE = '/api/v1/results';
+export const RACECONFIG_API_BASE = '/api/v1/raceconfig';
+export const PROTESTS_API_BASE = '/api/v1/protests';
+export const STREAM_API_BASE = '/api/v1/stream';
+export const PHOTOS_API_BASE = '/api/v1/photos';
+export const TIME_API_BASE = '/api/v1/time';
 
 // Sync configuration
 export const POLL_INTERVAL_NORMAL = 15000; // 15 seconds - balanced polling when active
@@ -53,6 +61,23 @@ export const POLL_INTERVAL_OFFLINE = 60000; // 60s when offline
 // Hidden tab uses reduced polling to save battery/data
 export const POLL_INTERVAL_HIDDEN = 30000; // 30s when tab is hidden
 
+// Live stream (SSE) configuration
+// Server sends a heartbeat every 20s; no data for longer means a dead connection
+export const STREAM_IDLE_TIMEOUT = 45000; // 45s without data before reconnecting
+export const STREAM_RECONNECT_BASE = 5000; // 5s first reconnect delay after a drop
+export const STREAM_RECONNECT_MAX = 60000; // 60s max reconnect delay
+
+/**
+ * Live event pushed by the stream endpoint
+ */
+export interface LiveStreamEvent {
+  type: 'entry' | 'deletion' | 'fault' | 'presence';
+  deviceId?: string;
+  id?: string;
+  deviceCount?: number;
+  timestamp?: number;
+}
+
 /**
  * Connection quality levels for adaptive polling
  */
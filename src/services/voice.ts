@@ -1,21 +1,28 @@
 /**
  * Voice Mode Service
- * Orchestrates speech recognition, LLM processing, and speech synthesis
- * for hands-free operation of the ski race timer
+ * Orchestrates speech recognition, command parsing, and speech synthesis
+ * for hands-free operation of the ski race timer. Commands are parsed
+ * on-device first; only low-confidence utterances go to the LLM (when online).
  */
 
 import { t } from '../i18n/translations';
 import { store } from '../store';
 import type {
   LLMConfig,
+  TimingPoint,
   VoiceContext,
   VoiceIntent,
   VoiceStatus,
 } from '../types';
 import { getLocale } from '../utils/format';
 import { logger } from '../utils/logger';
+import { getTimingPoints } from '../utils/validation';
 import { processVoiceCommandWithTimeout } from './llmProvider';
 import { speechSynthesis } from './speechSynthesis';
+import {
+  GRAMMAR_CONFIDENCE_THRESHOLD,
+  parseVoiceCommand,
+} from './voiceGrammar';
 
 // Extend Window for Speech Recognition types
 interface SpeechRecognitionEvent extends Event {
@@ -151,6 +158,7 @@ class VoiceModeService {
       // Handle specific errors
       switch (event.error) {
         case 'network':
+          // The browser's recognizer needs the network
           this.setStatus('offline');
           break;
         case 'not-allowed':
@@ -173,18 +181,23 @@ class VoiceModeService {
     this.recognition.onend = () => {
       logger.debug('[Voice] Recognition ended');
 
-      // Restart if still enabled, online, and not paused
-      if (
-        this.isEnabled &&
-        this.isOnline &&
-        !this.isPaused &&
-        this.status !== 'error'
-      ) {
+      // Restart if still enabled and not paused
+      if (this.isEnabled && !this.isPaused && this.canRecognize()) {
         this.scheduleRestart();
       }
     };
   }
 
+  /**
+   * Whether recognition can (re)start: not after a fatal error, and not while
+   * offline once the recognizer failed for lack of network (restarted by
+   * handleOnline). Recognizers that work on-device keep running offline.
+   */
+  private canRecognize(): boolean {
+    if (this.status === 'error') return false;
+    return this.isOnline || this.status !== 'offline';
+  }
+
   /**
    * Schedule recognition restart with small delay
    */
@@ -194,7 +207,7 @@ class VoiceModeService {
     }
 
     this.restartTimeout = setTimeout(() => {
-      if (this.isEnabled && this.isOnline && !this.isPaused) {
+      if (this.isEnabled && !this.isPaused && this.canRecognize()) {
         try {
           this.recognition?.start();
         } catch (_e) {
@@ -205,7 +218,8 @@ class VoiceModeService {
   }
 
   /**
-   * Process transcribed text through LLM
+   * Parse transcribed text with the on-device grammar, falling back to the
+   * LLM for low-confidence utterances while online
    */
   private async processTranscript(transcript: string): Promise<void> {
     if (!transcript || !this.llmConfig) return;
@@ -222,16 +236,28 @@ class VoiceModeService {
           ? this.getActiveBibs(state.selectedRun)
           : undefined,
       gateRange: state.gateAssignment || undefined,
+      timingPoints:
+        state.deviceRole === 'timer'
+          ? (getTimingPoints(state.intermediatePoints) as TimingPoint[])
+          : undefined,
       pendingConfirmation: this.pendingIntent || undefined,
     };
 
     try {
-      const intent = await processVoiceCommandWithTimeout(
-        transcript,
-        context,
-        this.llmConfig,
-        this.LLM_TIMEOUT_MS,
-      );
+      let intent = parseVoiceCommand(transcript, context);
+
+      if (intent.confidence < GRAMMAR_CONFIDENCE_THRESHOLD && this.isOnline) {
+        const llmIntent = await processVoiceCommandWithTimeout(
+          transcript,
+          context,
+          this.llmConfig,
+          this.LLM_TIMEOUT_MS,
+        );
+        // Keep the grammar's guess when the LLM did no better (e.g. timeout)
+        if (llmIntent.confidence > intent.confidence) {
+          intent = llmIntent;
+        }
+      }
 
       await this.handleIntent(intent);
     } catch (error) {
@@ -266,7 +292,7 @@ class VoiceModeService {
   }
 
   /**
-   * Handle parsed intent from LLM
+   * Handle parsed intent from the grammar or LLM
    */
   private async handleIntent(intent: VoiceIntent): Promise<void> {
     // Clear any existing confirmation timeout
@@ -348,14 +374,11 @@ class VoiceModeService {
   };
 
   /**
-   * Handle going offline
+   * Handle going offline: keep listening, commands are then parsed on-device
+   * only. Recognition that needs the network reports a 'network' error.
    */
   private handleOffline = (): void => {
     this.isOnline = false;
-    if (this.isEnabled) {
-      this.setStatus('offline');
-      this.recognition?.stop();
-    }
   };
 
   /**
@@ -378,11 +401,6 @@ class VoiceModeService {
       return false;
     }
 
-    if (!this.isOnline) {
-      this.setStatus('offline');
-      return false;
-    }
-
     this.isEnabled = true;
     this.updateRecognitionLanguage();
 
@@ -458,7 +476,7 @@ class VoiceModeService {
 
     this.isPaused = false;
 
-    if (this.isOnline && this.status !== 'error') {
+    if (this.canRecognize()) {
       this.scheduleRestart();
     }
 
@@ -0,0 +1,769 @@
+/**
+ * Voice Grammar
+ * Deterministic on-device parser for the fixed voice commands of gate judges
+ * and timers in English, German and French. Scores how completely an
+ * utterance was understood so only low-confidence utterances need the LLM,
+ * and commands keep working without network on the slope.
+ */
+
+import { t } from '../i18n/translations';
+import type {
+  FaultType,
+  TimingPoint,
+  VoiceAction,
+  VoiceContext,
+  VoiceIntent,
+} from '../types';
+
+/** Grammar results at or above this confidence are used without the LLM */
+export const GRAMMAR_CONFIDENCE_THRESHOLD = 0.8;
+
+// Confidence of a fully matched command, lowered for every guess
+const FULL_MATCH = 0.95;
+const INFERRED_SLOT_PENALTY = 0.1; // Number used without its keyword
+const LEFTOVER_PENALTY = 0.15; // Word or number the command didn't use
+const DROPPED_SLOT_PENALTY = 0.5; // Bib, gate or run the command didn't use
+const CONTEXT_PENALTY = 0.1; // Bib not on course, gate outside assignment
+
+type Keyword =
+  | 'bib'
+  | 'gate'
+  | 'run'
+  | 'split'
+  | 'ready'
+  | 'confirm'
+  | 'cancel';
+
+type Slot = 'bib' | 'gate' | 'run';
+
+type Token =
+  | { type: 'number'; value: number; word: string; isDigits: boolean }
+  | { type: 'ordinal'; value: number }
+  | { type: 'keyword'; keyword: Keyword; weak?: boolean }
+  | { type: 'fault'; faultType: FaultType }
+  | { type: 'point'; point: TimingPoint }
+  | { type: 'connector'; word: string }
+  | { type: 'filler' }
+  | { type: 'unknown' };
+
+type Item = Exclude<Token, { type: 'connector' } | { type: 'filler' }>;
+
+// Words are matched lowercase, without accents and with ß as ss
+const NUMBER_WORDS: Record<string, number> = {
+  // English
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+  hundred: 100,
+  // German (compounds like "fünfundvierzig" are split in parseNumberWord)
+  null: 0,
+  eins: 1,
+  zwei: 2,
+  zwo: 2,
+  drei: 3,
+  vier: 4,
+  funf: 5,
+  sechs: 6,
+  sieben: 7,
+  acht: 8,
+  neun: 9,
+  zehn: 10,
+  elf: 11,
+  zwolf: 12,
+  dreizehn: 13,
+  vierzehn: 14,
+  funfzehn: 15,
+  sechzehn: 16,
+  siebzehn: 17,
+  achtzehn: 18,
+  neunzehn: 19,
+  zwanzig: 20,
+  dreissig: 30,
+  vierzig: 40,
+  funfzig: 50,
+  sechzig: 60,
+  siebzig: 70,
+  achtzig: 80,
+  neunzig: 90,
+  hundert: 100,
+  // French ("dix-sept", "quatre-vingt" etc. are combined in canExtend)
+  un: 1,
+  deux: 2,
+  trois: 3,
+  quatre: 4,
+  cinq: 5,
+  sept: 7,
+  huit: 8,
+  neuf: 9,
+  dix: 10,
+  onze: 11,
+  douze: 12,
+  treize: 13,
+  quatorze: 14,
+  quinze: 15,
+  seize: 16,
+  vingt: 20,
+  vingts: 20,
+  trente: 30,
+  quarante: 40,
+  cinquante: 50,
+  soixante: 60,
+  cent: 100,
+  cents: 100,
+};
+
+// German units that start a compound ("ein" only inside compounds)
+const GERMAN_UNITS: Record<string, number> = {
+  ein: 1,
+  zwei: 2,
+  drei: 3,
+  vier: 4,
+  funf: 5,
+  sechs: 6,
+  sieben: 7,
+  acht: 8,
+  neun: 9,
+};
+
+const ORDINAL_WORDS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  erste: 1,
+  erster: 1,
+  ersten: 1,
+  zweite: 2,
+  zweiter: 2,
+  zweiten: 2,
+  dritte: 3,
+  dritter: 3,
+  dritten: 3,
+  premier: 1,
+  premiere: 1,
+  deuxieme: 2,
+  seconde: 2,
+  troisieme: 3,
+};
+
+const KEYWORDS: Record<string, Keyword> = {
+  bib: 'bib',
+  racer: 'bib',
+  startnummer: 'bib',
+  fahrer: 'bib',
+  fahrerin: 'bib',
+  laufer: 'bib',
+  lauferin: 'bib',
+  dossard: 'bib',
+  coureur: 'bib',
+  coureuse: 'bib',
+  gate: 'gate',
+  tor: 'gate',
+  porte: 'gate',
+  run: 'run',
+  lauf: 'run',
+  durchgang: 'run',
+  manche: 'run',
+  split: 'split',
+  intermediate: 'split',
+  zwischenzeit: 'split',
+  intermediaire: 'split',
+  ready: 'ready',
+  bereit: 'ready',
+  fertig: 'ready',
+  pret: 'ready',
+  prete: 'ready',
+  yes: 'confirm',
+  yeah: 'confirm',
+  yep: 'confirm',
+  correct: 'confirm',
+  confirm: 'confirm',
+  confirmed: 'confirm',
+  right: 'confirm',
+  ok: 'confirm',
+  okay: 'confirm',
+  ja: 'confirm',
+  jawohl: 'confirm',
+  richtig: 'confirm',
+  stimmt: 'confirm',
+  genau: 'confirm',
+  korrekt: 'confirm',
+  bestatigen: 'confirm',
+  bestatigt: 'confirm',
+  oui: 'confirm',
+  exact: 'confirm',
+  exactement: 'confirm',
+  confirme: 'confirm',
+  confirmer: 'confirm',
+  accord: 'confirm',
+  no: 'cancel',
+  nope: 'cancel',
+  cancel: 'cancel',
+  wrong: 'cancel',
+  abort: 'cancel',
+  nein: 'cancel',
+  abbrechen: 'cancel',
+  falsch: 'cancel',
+  non: 'cancel',
+  annuler: 'cancel',
+  annule: 'cancel',
+  faux: 'cancel',
+  incorrect: 'cancel',
+};
+
+// "Number" names the bib on its own but is filler in "gate number 12"
+const WEAK_BIB_KEYWORDS = new Set(['number', 'nummer', 'numero']);
+
+const FAULT_WORDS: Record<string, FaultType> = {
+  missed: 'MG',
+  miss: 'MG',
+  skipped: 'MG',
+  mg: 'MG',
+  ausgelassen: 'MG',
+  verpasst: 'MG',
+  manque: 'MG',
+  manquee: 'MG',
+  rate: 'MG',
+  ratee: 'MG',
+  straddle: 'STR',
+  straddled: 'STR',
+  straddling: 'STR',
+  str: 'STR',
+  eingefadelt: 'STR',
+  einfadler: 'STR',
+  enfourchement: 'STR',
+  enfourche: 'STR',
+  enfourchee: 'STR',
+  binding: 'BR',
+  release: 'BR',
+  br: 'BR',
+  bindung: 'BR',
+  bindungsoffnung: 'BR',
+  fixation: 'BR',
+  dechausse: 'BR',
+  dechaussage: 'BR',
+};
+
+const POINT_WORDS: Record<string, TimingPoint> = {
+  start: 'S',
+  depart: 'S',
+  finish: 'F',
+  ziel: 'F',
+  arrivee: 'F',
+};
+
+const CONNECTORS = new Set(['and', 'und', 'et']);
+
+const FILLERS = new Set([
+  // English
+  'the',
+  'a',
+  'an',
+  'for',
+  'at',
+  'on',
+  'in',
+  'is',
+  'to',
+  'of',
+  'please',
+  'fault',
+  'set',
+  'select',
+  'not',
+  // German
+  'der',
+  'die',
+  'das',
+  'den',
+  'dem',
+  'ein',
+  'eine',
+  'einen',
+  'fur',
+  'bei',
+  'am',
+  'im',
+  'auf',
+  'ist',
+  'bitte',
+  'fehler',
+  'offen',
+  'nicht',
+  // French
+  'le',
+  'les',
+  'l',
+  'd',
+  'de',
+  'du',
+  'une',
+  'pour',
+  'au',
+  'est',
+  'sur',
+  'faute',
+  's',
+  'il',
+  'vous',
+  'plait',
+  'pas',
+]);
+
+/**
+ * Lowercase, drop accents and punctuation, split compounds at hyphens
+ */
+function normalize(transcript: string): string[] {
+  return transcript
+    .toLowerCase()
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+}
+
+/**
+ * Table lookup that ignores inherited keys such as "constructor"
+ */
+function lookup<T>(table: Record<string, T>, word: string): T | undefined {
+  return Object.hasOwn(table, word) ? table[word] : undefined;
+}
+
+/**
+ * Value of a number word, including German compounds such as
+ * "fünfundvierzig" or "zweihundertdrei"
+ */
+function parseNumberWord(word: string): number | null {
+  const value = lookup(NUMBER_WORDS, word);
+  if (value !== undefined) return value;
+
+  const hundredIndex = word.indexOf('hundert');
+  if (hundredIndex >= 0) {
+    const head = word.slice(0, hundredIndex);
+    let tail = word.slice(hundredIndex + 'hundert'.length);
+    if (tail.startsWith('und')) tail = tail.slice(3);
+    const hundreds = head === '' ? 1 : lookup(GERMAN_UNITS, head);
+    const rest = tail === '' ? 0 : parseNumberWord(tail);
+    if (hundreds === undefined || rest === null || rest >= 100) return null;
+    return hundreds * 100 + rest;
+  }
+
+  const andIndex = word.indexOf('und');
+  if (andIndex > 0) {
+    const unit = lookup(GERMAN_UNITS, word.slice(0, andIndex));
+    const tens = lookup(NUMBER_WORDS, word.slice(andIndex + 3));
+    if (unit !== undefined && tens !== undefined && tens >= 20 && tens < 100) {
+      return tens + unit;
+    }
+  }
+
+  return null;
+}
+
+function classify(word: string): Token {
+  if (/^\d+$/.test(word)) {
+    return { type: 'number', value: Number(word), word, isDigits: true };
+  }
+  const ordinalDigits = word.match(/^(\d+)(st|nd|rd|th|er|re|e|eme)$/);
+  if (ordinalDigits) {
+    return { type: 'ordinal', value: Number(ordinalDigits[1]) };
+  }
+  const ordinal = lookup(ORDINAL_WORDS, word);
+  if (ordinal !== undefined) return { type: 'ordinal', value: ordinal };
+  const value = parseNumberWord(word);
+  if (value !== null) return { type: 'number', value, word, isDigits: false };
+  const keyword = lookup(KEYWORDS, word);
+  if (keyword) return { type: 'keyword', keyword };
+  if (WEAK_BIB_KEYWORDS.has(word)) {
+    return { type: 'keyword', keyword: 'bib', weak: true };
+  }
+  const faultType = lookup(FAULT_WORDS, word);
+  if (faultType) return { type: 'fault', faultType };
+  const point = lookup(POINT_WORDS, word);
+  if (point) return { type: 'point', point };
+  if (CONNECTORS.has(word)) return { type: 'connector', word };
+  if (FILLERS.has(word)) return { type: 'filler' };
+  return { type: 'unknown' };
+}
+
+/**
+ * Whether a spoken number word continues the number built so far
+ * ("twenty" + "one", "cent" + "cinq", "quatre" + "vingt", "fünf und zwanzig")
+ */
+function canExtend(
+  current: number,
+  next: number,
+  word: string,
+  connector: string | null,
+): number | null {
+  const rest = current % 100;
+  const isTens = next >= 20 && next < 100 && next % 10 === 0;
+
+  if (next === 100) {
+    return current >= 1 && current <= 9 ? current * 100 : null;
+  }
+  if (word.startsWith('vingt') && rest === 4) return current - 4 + 80;
+  if (connector === 'und' && rest >= 1 && rest <= 9 && isTens) {
+    return current + next;
+  }
+  if (current >= 100 && rest === 0 && next < 100) return current + next;
+  if (rest >= 20 && rest % 10 === 0 && next >= 1 && next <= 9) {
+    return current + next;
+  }
+  if ((rest === 60 || rest === 80) && next >= 10 && next <= 19) {
+    return current + next;
+  }
+  if (rest === 10 && next >= 7 && next <= 9) return current + next;
+  return null;
+}
+
+/**
+ * Combine number words into numbers and drop fillers
+ */
+function toItems(tokens: Token[]): Item[] {
+  const items: Item[] = [];
+  let connector: string | null = null;
+
+  for (const token of tokens) {
+    const last = items[items.length - 1];
+
+    if (token.type === 'connector') {
+      connector = token.word;
+      continue;
+    }
+    if (token.type === 'filler') {
+      connector = null;
+      continue;
+    }
+
+    if (
+      token.type === 'number' &&
+      !token.isDigits &&
+      last?.type === 'number' &&
+      !last.isDigits
+    ) {
+      const value = canExtend(last.value, token.value, token.word, connector);
+      if (value !== null) {
+        items[items.length - 1] = { ...last, value, word: token.word };
+        connector = null;
+        continue;
+      }
+    }
+
+    // "Gate number 12": the number belongs to the gate
+    if (
+      token.type === 'keyword' &&
+      token.weak &&
+      last?.type === 'keyword' &&
+      (last.keyword === 'gate' || last.keyword === 'run')
+    ) {
+      continue;
+    }
+
+    items.push(token);
+    connector = null;
+  }
+
+  return items;
+}
+
+/** Understood parts of an utterance */
+interface Parsed {
+  bib?: number;
+  gate?: number;
+  run?: number;
+  faultTypes: Set<FaultType>;
+  points: Set<TimingPoint>;
+  keywords: Set<Keyword>;
+  numbers: number[]; // Numbers without a keyword, in spoken order
+  leftovers: number; // Unknown words and keywords without a number
+  unknownPoint: boolean; // Split point named without a valid number
+}
+
+/**
+ * Attach numbers to the keyword before them ("gate 12", "Lauf zwei") and
+ * ordinals to the run keyword ("zweiter Lauf")
+ */
+function parseItems(items: Item[]): Parsed {
+  const parsed: Parsed = {
+    faultTypes: new Set(),
+    points: new Set(),
+    keywords: new Set(),
+    numbers: [],
+    leftovers: 0,
+    unknownPoint: false,
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i]!;
+    const next = items[i + 1];
+
+    switch (item.type) {
+      case 'keyword': {
+        const { keyword } = item;
+        if (keyword === 'bib' || keyword === 'gate' || keyword === 'run') {
+          const value =
+            next?.type === 'number' ||
+            (next?.type === 'ordinal' && keyword === 'run')
+              ? next.value
+              : undefined;
+          if (value !== undefined && parsed[keyword] === undefined) {
+            parsed[keyword] = value;
+            i++;
+          } else if (keyword === 'gate') {
+            // "Missed gate" / "Tor ausgelassen": the gate is named elsewhere
+            parsed.keywords.add(keyword);
+          } else {
+            parsed.leftovers++;
+          }
+        } else if (keyword === 'split') {
+          // "Split two" / "Zwischenzeit eins": intermediate point I2 / I1
+          const point =
+            next?.type === 'number' || next?.type === 'ordinal'
+              ? toIntermediatePoint(next.value)
+              : null;
+          if (point) {
+            parsed.points.add(point);
+            i++;
+          } else {
+            parsed.unknownPoint = true;
+          }
+        } else {
+          parsed.keywords.add(keyword);
+        }
+        break;
+      }
+      case 'ordinal':
+        if (
+          next?.type === 'keyword' &&
+          next.keyword === 'run' &&
+          parsed.run === undefined
+        ) {
+          parsed.run = item.value;
+          i++;
+        } else if (next?.type === 'keyword' && next.keyword === 'split') {
+          // "Second split" / "erste Zwischenzeit"
+          const point = toIntermediatePoint(item.value);
+          if (point) parsed.points.add(point);
+          else parsed.unknownPoint = true;
+          i++;
+        } else {
+          parsed.leftovers++;
+        }
+        break;
+      case 'number':
+        parsed.numbers.push(item.value);
+        break;
+      case 'fault':
+        parsed.faultTypes.add(item.faultType);
+        break;
+      case 'point':
+        parsed.points.add(item.point);
+        break;
+      default:
+        parsed.leftovers++;
+    }
+  }
+
+  return parsed;
+}
+
+function toIntermediatePoint(value: number): TimingPoint | null {
+  return Number.isInteger(value) && value >= 1 && value <= 9
+    ? (`I${value}` as TimingPoint)
+    : null;
+}
+
+function unknownIntent(confidence = 0): VoiceIntent {
+  return { action: 'unknown', confidence, confirmationNeeded: false };
+}
+
+function intent(
+  action: VoiceAction,
+  confidence: number,
+  params?: VoiceIntent['params'],
+): VoiceIntent {
+  return {
+    action,
+    confidence: Math.max(0, Math.round(confidence * 100) / 100),
+    ...(params && { params }),
+    confirmationNeeded: false,
+  };
+}
+
+function formatBib(bib: number): string | null {
+  return Number.isInteger(bib) && bib >= 1 && bib <= 999
+    ? String(bib).padStart(3, '0')
+    : null;
+}
+
+/**
+ * Fault command: bib + gate + fault type, with numbers spoken without their
+ * keyword filled in (bib first, as in "45, gate 12, straddled")
+ */
+function parseFault(parsed: Parsed, context: VoiceContext): VoiceIntent {
+  const numbers = [...parsed.numbers];
+  let inferred = 0;
+
+  let bibNumber = parsed.bib;
+  if (bibNumber === undefined && numbers.length > 0) {
+    bibNumber = numbers.shift();
+    inferred++;
+  }
+  let gate = parsed.gate;
+  if (gate === undefined && numbers.length > 0) {
+    gate = numbers.shift();
+    inferred++;
+  }
+
+  const bib = bibNumber !== undefined ? formatBib(bibNumber) : null;
+  if (!bib || gate === undefined || gate < 1 || parsed.faultTypes.size > 1) {
+    return unknownIntent(0.3);
+  }
+
+  const faultType = [...parsed.faultTypes][0]!;
+  const leftovers =
+    parsed.leftovers +
+    numbers.length +
+    parsed.points.size +
+    [...parsed.keywords].filter((k) => k !== 'gate').length;
+
+  // Faults are recorded for the current run, so a spoken run is lost
+  let confidence =
+    FULL_MATCH -
+    inferred * INFERRED_SLOT_PENALTY -
+    leftovers * LEFTOVER_PENALTY -
+    (parsed.run !== undefined ? DROPPED_SLOT_PENALTY : 0);
+  if (context.activeBibs?.length && !context.activeBibs.includes(bib)) {
+    confidence -= CONTEXT_PENALTY;
+  }
+  if (
+    context.gateRange &&
+    (gate < context.gateRange[0] || gate > context.gateRange[1])
+  ) {
+    confidence -= CONTEXT_PENALTY;
+  }
+
+  const lang = context.language;
+  return {
+    ...intent('record_fault', confidence, { bib, gate, faultType }),
+    confirmationNeeded: true,
+    confirmationPrompt: t('voiceConfirmFault', lang)
+      .replace('{bib}', String(Number(bib)))
+      .replace('{gate}', String(gate))
+      .replace('{fault}', t(`fault${faultType}`, lang)),
+  };
+}
+
+/**
+ * Parse a voice command transcript without the network.
+ * Returns action 'unknown' with confidence 0 when nothing was recognized.
+ */
+export function parseVoiceCommand(
+  transcript: string,
+  context: VoiceContext,
+): VoiceIntent {
+  const items = toItems(normalize(transcript).map(classify));
+  if (items.length === 0) return unknownIntent();
+
+  const parsed = parseItems(items);
+  // Never mistake the number of an unknown split point for a bib
+  if (parsed.unknownPoint) return unknownIntent();
+
+  const { keywords } = parsed;
+  const slots =
+    (parsed.bib !== undefined ? 1 : 0) +
+    (parsed.gate !== undefined ? 1 : 0) +
+    (parsed.run !== undefined ? 1 : 0) +
+    parsed.numbers.length +
+    parsed.points.size +
+    parsed.faultTypes.size;
+
+  // Everything understood but not used by the chosen command lowers
+  // confidence; a dropped bib, gate or run always leaves it to the LLM
+  const score = (used: number, slot?: Slot) =>
+    FULL_MATCH -
+    (slots + keywords.size + parsed.leftovers - used) * LEFTOVER_PENALTY -
+    (['bib', 'gate', 'run'] as const).filter(
+      (s) => s !== slot && parsed[s] !== undefined,
+    ).length *
+      DROPPED_SLOT_PENALTY;
+
+  // Yes/no answers, e.g. to a fault confirmation prompt
+  const isConfirm = keywords.has('confirm');
+  const isCancel = keywords.has('cancel');
+  if (isConfirm !== isCancel && slots === 0) {
+    return intent(isConfirm ? 'confirm' : 'cancel', score(1));
+  }
+
+  if (context.role === 'gateJudge' && parsed.faultTypes.size > 0) {
+    return parseFault(parsed, context);
+  }
+
+  if (parsed.run !== undefined) {
+    return parsed.run >= 1
+      ? intent('set_run', score(1, 'run'), { run: parsed.run })
+      : unknownIntent();
+  }
+
+  if (context.role === 'gateJudge' && keywords.has('ready')) {
+    return intent('toggle_ready', score(1));
+  }
+
+  if (context.role === 'gateJudge' && parsed.gate !== undefined) {
+    return parsed.gate >= 1
+      ? intent('set_gate', score(1, 'gate'), { gate: parsed.gate })
+      : unknownIntent();
+  }
+
+  if (context.role === 'timer' && parsed.points.size === 1) {
+    const point = [...parsed.points][0]!;
+    if (context.timingPoints && !context.timingPoints.includes(point)) {
+      return unknownIntent();
+    }
+    return intent('set_point', score(1), { point });
+  }
+
+  // "Bib 45", or just "45" for a timer entering the next bib
+  const [firstNumber] = parsed.numbers;
+  const bibNumber = parsed.bib ?? firstNumber;
+  if (bibNumber !== undefined && !keywords.has('gate')) {
+    const bib = formatBib(bibNumber);
+    if (!bib) return unknownIntent();
+    const inferred =
+      parsed.bib !== undefined
+        ? 0
+        : context.role === 'timer'
+          ? INFERRED_SLOT_PENALTY
+          : 2 * INFERRED_SLOT_PENALTY;
+    return intent('set_bib', score(1, 'bib') - inferred, { bib });
+  }
+
+  return unknownIntent();
+}
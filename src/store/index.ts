@@ -25,8 +25,13 @@
  *   `$gpsStatus`, `$deviceRole`, `$faultEntries`, `$entryCount`, `$cloudDeviceCount`,
  *   `$currentView`, `$bibInput`, `$selectedPoint`, `$selectedRun`, `$undoStack`,
  *   `$isJudgeReady`, `$gateAssignment`, `$isChiefJudgeView`, `$penaltySeconds`,
- *   `$usePenaltyMode`, `$selectedEntries`, `$isSyncing`
- * Derived state: `$hasUnsyncedChanges`, `$entriesByRun`
+ *   `$usePenaltyMode`, `$penaltyRules`, `$selectedEntries`, `$isSyncing`,
+ *   `$startList`, `$intermediatePoints`, `$runCount`, `$primaryDevices`,
+ *   `$courseGates`, `$protestDeadlines`, `$protests`, `$raceDefinition`,
+ *   `$startOrders`
+ * Derived state: `$hasUnsyncedChanges`, `$entriesByRun`, `$racerLookup`,
+ *   `$timingPoints`, `$runs`, `$maxGate`, `$startOrder`, `$penaltyConfig`,
+ *   `$raceResults`, `$reconciliation`
  */
 
 import {
@@ -39,15 +44,25 @@ import {
 import { storage } from '../services/storage';
 import type {
   Action,
+  AgeCategory,
   AppState,
+  CourseGate,
   DeviceInfo,
   DeviceRole,
   Entry,
   FaultEntry,
   GateColor,
   Language,
+  PenaltyRule,
+  PenaltyRules,
+  PrimaryDevices,
+  Protest,
+  ProtestDeadlines,
+  RaceDefinition,
+  Racer,
   Run,
   Settings,
+  StartOrder,
   SyncQueueItem,
   SyncStatus,
   TimingPoint,
@@ -56,8 +71,32 @@ import { SCHEMA_VERSION } from '../types';
 import { generateDeviceId, generateDeviceName } from '../utils/id';
 import { logger } from '../utils/logger';
 import { hasFullPhotoData } from '../utils/photoHelpers';
+import { reconcileEntries } from '../utils/reconciliation';
+import {
+  computeRaceResults,
+  DEFAULT_PENALTY_RULES,
+  type ResultPenaltyConfig,
+} from '../utils/results';
+import { buildRacerLookup, findRacer } from '../utils/startList';
+import { isValidStartOrder } from '../utils/startOrder';
 import { checkLocalStorageQuota } from '../utils/storageQuota';
-import { isValidEntry, migrateSchema } from '../utils/validation';
+import {
+  DEFAULT_RUN_COUNT,
+  getRuns,
+  getTimingPoints,
+  isIntermediatePoint,
+  isValidEntry,
+  isValidRacer,
+  MAX_GATE_COUNT,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_RUNS,
+  migrateSchema,
+  sanitizeCourseGates,
+  sanitizePenaltyRules,
+  sanitizePrimaryDevices,
+  sanitizeProtestDeadlines,
+  sanitizeRaceDefinition,
+} from '../utils/validation';
 
 // Import slices
 import * as entriesSlice from './slices/entriesSlice';
@@ -88,7 +127,16 @@ const STORAGE_KEYS = {
   FAULT_ENTRIES: 'skiTimerFaultEntries',
   PENALTY_SECONDS: 'skiTimerPenaltySeconds',
   USE_PENALTY_MODE: 'skiTimerUsePenaltyMode',
+  PENALTY_RULES: 'skiTimerPenaltyRules',
   FINALIZED_RACERS: 'skiTimerFinalizedRacers',
+  START_LIST: 'skiTimerStartList',
+  INTERMEDIATE_POINTS: 'skiTimerIntermediatePoints',
+  RUN_COUNT: 'skiTimerRunCount',
+  PRIMARY_DEVICES: 'skiTimerPrimaryDevices',
+  COURSE_GATES: 'skiTimerCourseGates',
+  PROTEST_DEADLINES: 'skiTimerProtestDeadlines',
+  RACE_DEFINITION: 'skiTimerRaceDefinition',
+  START_ORDERS: 'skiTimerStartOrders',
 } as const;
 
 // All state keys that get persisted to localStorage
@@ -106,7 +154,16 @@ const PERSISTENT_KEYS = [
   'faultEntries',
   'penaltySeconds',
   'usePenaltyMode',
+  'penaltyRules',
   'finalizedRacers',
+  'startList',
+  'intermediatePoints',
+  'runCount',
+  'primaryDevices',
+  'courseGates',
+  'protestDeadlines',
+  'raceDefinition',
+  'startOrders',
 ] as const;
 
 /**
@@ -168,6 +225,45 @@ class Store {
         ...(p as object),
       }),
     );
+    const startList = parseJson<Racer[]>(STORAGE_KEYS.START_LIST, [], (p) =>
+      Array.isArray(p) ? p.filter((r) => isValidRacer(r)) : [],
+    );
+    const storedIntermediatePoints = Number(
+      storage.getRaw(STORAGE_KEYS.INTERMEDIATE_POINTS),
+    );
+    const intermediatePoints = Number.isInteger(storedIntermediatePoints)
+      ? Math.max(0, Math.min(MAX_INTERMEDIATE_POINTS, storedIntermediatePoints))
+      : 0;
+    const storedRunCount = Number(storage.getRaw(STORAGE_KEYS.RUN_COUNT));
+    const runCount =
+      Number.isInteger(storedRunCount) && storedRunCount >= 1
+        ? Math.min(MAX_RUNS, storedRunCount)
+        : DEFAULT_RUN_COUNT;
+    const primaryDevices = parseJson<PrimaryDevices>(
+      STORAGE_KEYS.PRIMARY_DEVICES,
+      {},
+      sanitizePrimaryDevices,
+    );
+    const courseGates = parseJson<CourseGate[]>(
+      STORAGE_KEYS.COURSE_GATES,
+      [],
+      sanitizeCourseGates,
+    );
+    const protestDeadlines = parseJson<ProtestDeadlines>(
+      STORAGE_KEYS.PROTEST_DEADLINES,
+      {},
+      sanitizeProtestDeadlines,
+    );
+    const raceDefinition = parseJson<RaceDefinition | null>(
+      STORAGE_KEYS.RACE_DEFINITION,
+      null,
+      sanitizeRaceDefinition,
+    );
+    const startOrders = parseJson<StartOrder[]>(
+      STORAGE_KEYS.START_ORDERS,
+      [],
+      (p) => (Array.isArray(p) ? p.filter((o) => isValidStartOrder(o)) : []),
+    );
     const syncQueue = parseJson<SyncQueueItem[]>(
       STORAGE_KEYS.SYNC_QUEUE,
       [],
@@ -212,6 +308,11 @@ class Store {
     const storedUsePenalty = storage.getRaw(STORAGE_KEYS.USE_PENALTY_MODE);
     const usePenaltyMode =
       storedUsePenalty !== null ? storedUsePenalty !== 'false' : true;
+    const penaltyRules = parseJson<PenaltyRules>(
+      STORAGE_KEYS.PENALTY_RULES,
+      DEFAULT_PENALTY_RULES,
+      sanitizePenaltyRules,
+    );
     const finalizedRacers = parseJson<string[]>(
       STORAGE_KEYS.FINALIZED_RACERS,
       [],
@@ -232,6 +333,15 @@ class Store {
       isRecording: false,
       lastRecordedEntry: null,
       entries,
+      startList,
+      intermediatePoints,
+      runCount,
+      primaryDevices,
+      courseGates,
+      protestDeadlines,
+      protests: [],
+      raceDefinition,
+      startOrders,
       deviceRole,
       gateAssignment,
       firstGateColor,
@@ -242,6 +352,7 @@ class Store {
       finalizedRacers: new Set<string>(finalizedRacers),
       penaltySeconds,
       usePenaltyMode,
+      penaltyRules,
       undoStack: [],
       redoStack: [],
       settings,
@@ -318,6 +429,59 @@ class Store {
         storage.setRaw(STORAGE_KEYS.ENTRIES, JSON.stringify(entriesToSave));
       }
 
+      if (dirty.has('startList')) {
+        storage.setRaw(
+          STORAGE_KEYS.START_LIST,
+          JSON.stringify(this.state.startList),
+        );
+      }
+
+      if (dirty.has('intermediatePoints')) {
+        storage.setRaw(
+          STORAGE_KEYS.INTERMEDIATE_POINTS,
+          String(this.state.intermediatePoints),
+        );
+      }
+
+      if (dirty.has('runCount')) {
+        storage.setRaw(STORAGE_KEYS.RUN_COUNT, String(this.state.runCount));
+      }
+
+      if (dirty.has('primaryDevices')) {
+        storage.setRaw(
+          STORAGE_KEYS.PRIMARY_DEVICES,
+          JSON.stringify(this.state.primaryDevices),
+        );
+      }
+
+      if (dirty.has('courseGates')) {
+        storage.setRaw(
+          STORAGE_KEYS.COURSE_GATES,
+          JSON.stringify(this.state.courseGates),
+        );
+      }
+
+      if (dirty.has('protestDeadlines')) {
+        storage.setRaw(
+          STORAGE_KEYS.PROTEST_DEADLINES,
+          JSON.stringify(this.state.protestDeadlines),
+        );
+      }
+
+      if (dirty.has('raceDefinition')) {
+        storage.setRaw(
+          STORAGE_KEYS.RACE_DEFINITION,
+          JSON.stringify(this.state.raceDefinition),
+        );
+      }
+
+      if (dirty.has('startOrders')) {
+        storage.setRaw(
+          STORAGE_KEYS.START_ORDERS,
+          JSON.stringify(this.state.startOrders),
+        );
+      }
+
       if (dirty.has('settings')) {
         storage.setRaw(
           STORAGE_KEYS.SETTINGS,
@@ -394,6 +558,13 @@ class Store {
         );
       }
 
+      if (dirty.has('penaltyRules')) {
+        storage.setRaw(
+          STORAGE_KEYS.PENALTY_RULES,
+          JSON.stringify(this.state.penaltyRules),
+        );
+      }
+
       if (dirty.has('finalizedRacers')) {
         storage.setRaw(
           STORAGE_KEYS.FINALIZED_RACERS,
@@ -545,6 +716,40 @@ class Store {
     return false;
   }
 
+  /**
+   * Edit bib, status or run with version history and queue the edit for
+   * cloud sync. Returns the edited entry, or null if nothing changed.
+   */
+  editEntry(
+    id: string,
+    updates: Partial<Pick<Entry, 'bib' | 'status' | 'run'>>,
+  ): Entry | null {
+    const result = entriesSlice.editEntryWithHistory(
+      this.state.entries,
+      id,
+      updates,
+      this.state.deviceName,
+      this.state.deviceId,
+      this.state.undoStack,
+    );
+    if (!result) return null;
+
+    this.setState({
+      entries: result.entries,
+      undoStack: result.undoStack,
+      redoStack: result.redoStack,
+    });
+
+    if (this.state.settings.sync && this.state.raceId) {
+      if (this.state.syncQueue.some((item) => item.entry.id === id)) {
+        this.updateSyncQueueItem(id, { entry: result.entry });
+      } else {
+        this.addToSyncQueue(result.entry);
+      }
+    }
+    return result.entry;
+  }
+
   // ===== Undo/Redo =====
 
   canUndo(): boolean {
@@ -744,6 +949,16 @@ class Store {
     this.setState(gateJudgeSlice.setUsePenaltyMode(usePenalty));
   }
 
+  setPenaltyRule(category: AgeCategory, rule: PenaltyRule | null) {
+    this.setState(
+      gateJudgeSlice.setPenaltyRule(category, rule, this.state.penaltyRules),
+    );
+  }
+
+  setPenaltyRules(rules: PenaltyRules) {
+    this.setState(gateJudgeSlice.setPenaltyRules(rules));
+  }
+
   getActiveBibs(run: Run): string[] {
     return gateJudgeSlice.getActiveBibs(this.state.entries, run);
   }
@@ -938,7 +1153,29 @@ class Store {
   setRaceId(raceId: string) {
     const result = syncSlice.setRaceId(raceId, this.state.raceId);
     if (result.clearUndoRedo) {
-      this.setState({ raceId: result.raceId, undoStack: [], redoStack: [] });
+      // Start lists, timing points, run counts, primary devices, course maps,
+      // protests and race definitions are per race - the new race's arrive
+      // via sync. Start orders are planned anew.
+      this.setState({
+        raceId: result.raceId,
+        undoStack: [],
+        redoStack: [],
+        startList: [],
+        intermediatePoints: 0,
+        runCount: DEFAULT_RUN_COUNT,
+        primaryDevices: {},
+        courseGates: [],
+        protestDeadlines: {},
+        protests: [],
+        raceDefinition: null,
+        startOrders: [],
+        ...(isIntermediatePoint(this.state.selectedPoint)
+          ? { selectedPoint: 'F' as TimingPoint }
+          : {}),
+        ...(this.state.selectedRun > DEFAULT_RUN_COUNT
+          ? { selectedRun: DEFAULT_RUN_COUNT }
+          : {}),
+      });
     } else {
       this.setState({ raceId: result.raceId });
     }
@@ -982,6 +1219,121 @@ class Store {
     this.setState(syncSlice.setRaceExistsInCloud(exists), false);
   }
 
+  // ===== Start List =====
+
+  setStartList(racers: Racer[]) {
+    this.setState({ startList: racers });
+  }
+
+  clearStartList() {
+    this.setState({ startList: [] });
+  }
+
+  // ===== Timing Points =====
+
+  /**
+   * Set the race's number of intermediate points. A selected intermediate
+   * point that no longer exists falls back to finish.
+   */
+  setIntermediatePoints(count: number) {
+    const intermediatePoints = Math.max(
+      0,
+      Math.min(MAX_INTERMEDIATE_POINTS, Math.floor(count) || 0),
+    );
+    const points = getTimingPoints(intermediatePoints);
+    this.setState({
+      intermediatePoints,
+      ...(points.includes(this.state.selectedPoint)
+        ? {}
+        : { selectedPoint: 'F' as TimingPoint }),
+    });
+  }
+
+  // ===== Runs =====
+
+  /**
+   * Set the race's number of runs. A selected run that no longer exists
+   * falls back to the last run.
+   */
+  setRunCount(count: number) {
+    const runCount = Number.isFinite(count)
+      ? Math.max(1, Math.min(MAX_RUNS, Math.floor(count)))
+      : DEFAULT_RUN_COUNT;
+    this.setState({
+      runCount,
+      ...(this.state.selectedRun > runCount ? { selectedRun: runCount } : {}),
+    });
+  }
+
+  // ===== Primary Devices =====
+
+  setPrimaryDevices(primaryDevices: PrimaryDevices) {
+    this.setState({ primaryDevices });
+  }
+
+  /**
+   * Set the official timer of a point (null = no primary, earliest time wins)
+   */
+  setPrimaryDevice(point: TimingPoint, deviceId: string | null) {
+    const { [point]: _previous, ...others } = this.state.primaryDevices;
+    this.setState({
+      primaryDevices: deviceId ? { ...others, [point]: deviceId } : others,
+    });
+  }
+
+  // ===== Course Map =====
+
+  setCourseGates(courseGates: CourseGate[]) {
+    this.setState({ courseGates });
+  }
+
+  // ===== Protests =====
+
+  setProtestDeadlines(protestDeadlines: ProtestDeadlines) {
+    this.setState({ protestDeadlines });
+  }
+
+  /**
+   * Set the protest deadline of a run (null = no deadline)
+   */
+  setProtestDeadline(run: Run, deadline: number | null) {
+    const { [String(run)]: _previous, ...others } = this.state.protestDeadlines;
+    this.setState({
+      protestDeadlines:
+        deadline !== null ? { ...others, [String(run)]: deadline } : others,
+    });
+  }
+
+  setProtests(protests: Protest[]) {
+    this.setState({ protests });
+  }
+
+  // ===== Race Definition =====
+
+  setRaceDefinition(definition: RaceDefinition | null) {
+    this.setState({ raceDefinition: definition });
+  }
+
+  // ===== Start Order =====
+
+  /**
+   * Set the planned start order of a run (replaces the run's previous plan)
+   */
+  setStartOrder(order: StartOrder) {
+    this.setState({
+      startOrders: [
+        ...this.state.startOrders.filter((o) => o.run !== order.run),
+        order,
+      ],
+    });
+  }
+
+  clearStartOrder(run: Run) {
+    this.setState({
+      startOrders: this.state.startOrders.filter((o) => o.run !== run),
+    });
+  }
+
   // ===== GPS State =====
 
   setGpsStatus(
@@ -1018,7 +1370,7 @@ class Store {
       deletedIds,
       this.state.deviceId,
     );
-    if (result.addedCount > 0) {
+    if (result.addedCount > 0 || result.updatedCount > 0) {
       this.setState({ entries: result.entries });
     }
     return result.addedCount;
@@ -1117,6 +1469,7 @@ export const $penaltySeconds = computed(
 export const $usePenaltyMode = computed(
   () => store.$state.value.usePenaltyMode,
 );
+export const $penaltyRules = computed(() => store.$state.value.penaltyRules);
 export const $selectedEntries = computed(
   () => store.$state.value.selectedEntries,
 );
@@ -1133,6 +1486,9 @@ export const $settingsGps = computed(() => store.$state.value.settings.gps);
 export const $settingsPhotoCapture = computed(
   () => store.$state.value.settings.photoCapture,
 );
+export const $settingsPhotoBurst = computed(
+  () => store.$state.value.settings.photoBurst,
+);
 export const $settingsGlassEffects = computed(
   () => store.$state.value.settings.glassEffects,
 );
@@ -1149,6 +1505,60 @@ export const $hasUnsyncedChanges = computed(() => {
   return state.entries.some((e) => !e.syncedAt) || state.syncQueue.length > 0;
 });
 
+export const $startList = computed(() => store.$state.value.startList);
+
+export const $intermediatePoints = computed(
+  () => store.$state.value.intermediatePoints,
+);
+
+/** Ordered timing points of the race (S, I1…In, F) */
+export const $timingPoints = computed(
+  (): TimingPoint[] =>
+    getTimingPoints($intermediatePoints.value) as TimingPoint[],
+);
+
+export const $runCount = computed(() => store.$state.value.runCount);
+
+/** Run numbers of the race (1…n) */
+export const $runs = computed(() => getRuns($runCount.value));
+
+/** Official timer per timing point (race config) */
+export const $primaryDevices = computed(
+  () => store.$state.value.primaryDevices,
+);
+
+/** Course map gates sorted by number (race config) */
+export const $courseGates = computed(() => store.$state.value.courseGates);
+
+/** Protest deadline per run (race config) */
+export const $protestDeadlines = computed(
+  () => store.$state.value.protestDeadlines,
+);
+
+/** Protests of the race, oldest first */
+export const $protests = computed(() => store.$state.value.protests);
+
+export const $raceDefinition = computed(
+  () => store.$state.value.raceDefinition,
+);
+
+export const $startOrders = computed(() => store.$state.value.startOrders);
+
+/** Planned start order of the selected run (null when none is planned) */
+export const $startOrder = computed(
+  () =>
+    $startOrders.value.find((order) => order.run === $selectedRun.value) ??
+    null,
+);
+
+/** Highest gate number of the course (race definition gate count) */
+export const $maxGate = computed(
+  () => $raceDefinition.value?.gateCount ?? MAX_GATE_COUNT,
+);
+
+/** Bib → racer lookup for rendering names (rebuilt only when the start list changes) */
+export const $racerLookup = computed(() => buildRacerLookup($startList.value));
+
 export const $entriesByRun = computed(() => {
   const entries = store.$state.value.entries;
   return {
@@ -1157,6 +1567,32 @@ export const $entriesByRun = computed(() => {
   };
 });
 
+/** Penalty config with per-category rules, resolving bibs via the start list */
+export const $penaltyConfig = computed((): ResultPenaltyConfig => {
+  const racerLookup = $racerLookup.value;
+  return {
+    usePenaltyMode: $usePenaltyMode.value,
+    penaltySeconds: $penaltySeconds.value,
+    rules: $penaltyRules.value,
+    getAgeCategory: (bib) => findRacer(racerLookup, bib)?.ageCategory,
+  };
+});
+
+/** Ranked run and combined results (recomputed when entries, faults, penalty config or primary devices change) */
+export const $raceResults = computed(() =>
+  computeRaceResults(
+    $entries.value,
+    $faultEntries.value,
+    $penaltyConfig.value,
+    $primaryDevices.value,
+  ),
+);
+
+/** Open start/finish/bib issues per run (recomputed when entries or primary devices change) */
+export const $reconciliation = computed(() =>
+  reconcileEntries($entries.value, $primaryDevices.value),
+);
+
 // Re-export effect and untracked for consumers that want signal-based subscriptions
 export { effect, untracked };
 
@@ -1,14 +1,25 @@
 /**
  * Entries Slice
- * Handles Entry CRUD operations, undo/redo, and cloud sync queue
+ * Handles Entry CRUD operations, edit version history, undo/redo, and cloud
+ * sync queue
  */
 
-import type { Action, Entry, SyncQueueItem } from '../../types';
-import { isValidEntry } from '../../utils/validation';
+import type { Action, Entry, EntryVersion, SyncQueueItem } from '../../types';
+import {
+  isNewerEntryVersion,
+  isValidEntry,
+  sanitizeEntryVersionHistory,
+} from '../../utils/validation';
 
 // Maximum undo stack size
 const MAX_UNDO_STACK = 50;
 
+// Maximum version history entries to keep per entry
+const MAX_VERSION_HISTORY = 50;
+
+// Entry fields that are versioned when edited
+type EditableEntryFields = Pick<Entry, 'bib' | 'status' | 'run'>;
+
 /**
  * Add entry to entries array
  */
@@ -119,6 +130,98 @@ export function updateEntry(
   return { entries: newEntries, undoStack: newUndoStack, redoStack: [] };
 }
 
+/**
+ * Create an entry version record
+ */
+export function createEntryVersion(
+  version: number,
+  changeType: EntryVersion['changeType'],
+  entry: Entry,
+  editedBy: string,
+  editedByDeviceId: string,
+  timestamp = new Date().toISOString(),
+): EntryVersion {
+  return {
+    version,
+    timestamp,
+    editedBy,
+    editedByDeviceId,
+    changeType,
+    data: { bib: entry.bib, status: entry.status, run: entry.run },
+  };
+}
+
+/**
+ * Edit bib, status or run of an entry, recording a new version so the edit
+ * wins over the older version on other devices. Returns null when the entry
+ * does not exist or nothing changed.
+ */
+export function editEntryWithHistory(
+  entries: Entry[],
+  id: string,
+  updates: Partial<EditableEntryFields>,
+  deviceName: string,
+  deviceId: string,
+  undoStack: Action[],
+): {
+  entries: Entry[];
+  undoStack: Action[];
+  redoStack: Action[];
+  entry: Entry;
+} | null {
+  const index = entries.findIndex((e) => e.id === id);
+  if (index === -1) return null;
+
+  const oldEntry = entries[index]!;
+  const changed = (Object.keys(updates) as (keyof EditableEntryFields)[]).some(
+    (key) => updates[key] !== undefined && updates[key] !== oldEntry[key],
+  );
+  if (!changed) return null;
+
+  // Entries are recorded without history - the first edit adds the
+  // recorded version
+  const oldVersion = oldEntry.currentVersion ?? 1;
+  const history = oldEntry.versionHistory?.length
+    ? oldEntry.versionHistory
+    : [
+        createEntryVersion(
+          oldVersion,
+          'create',
+          oldEntry,
+          oldEntry.deviceName,
+          oldEntry.deviceId,
+          oldEntry.timestamp,
+        ),
+      ];
+
+  const editedEntry = { ...oldEntry, ...updates };
+  const newVersion = oldVersion + 1;
+  const newEntry: Entry = {
+    ...editedEntry,
+    currentVersion: newVersion,
+    versionHistory: [
+      ...history,
+      createEntryVersion(newVersion, 'edit', editedEntry, deviceName, deviceId),
+    ].slice(-MAX_VERSION_HISTORY),
+  };
+
+  const newUndoStack = pushUndo(undoStack, {
+    type: 'UPDATE_ENTRY',
+    data: oldEntry,
+    newData: newEntry,
+    timestamp: Date.now(),
+  });
+
+  const newEntries = [...entries];
+  newEntries[index] = newEntry;
+  return {
+    entries: newEntries,
+    undoStack: newUndoStack,
+    redoStack: [],
+    entry: newEntry,
+  };
+}
+
 /**
  * Push action to undo stack
  */
@@ -314,50 +417,90 @@ export function updateSyncQueueItem(
 // ===== Cloud Merge Operations =====
 
 /**
- * Merge entries from cloud
+ * Merge entries from cloud. Known entries are replaced when the cloud has a
+ * newer version (edited on another device), including this device's own
+ * entries. This device's entries keep their local photo marker; other
+ * devices' entries take the cloud's (a photo added or deleted there).
  */
 export function mergeCloudEntries(
   entries: Entry[],
   cloudEntries: Entry[],
   deletedIds: string[],
   localDeviceId: string,
-): { entries: Entry[]; addedCount: number } {
+): { entries: Entry[]; addedCount: number; updatedCount: number } {
   let addedCount = 0;
-  const existingIds = new Set(entries.map((e) => `${e.id}:${e.deviceId}`));
+  let updatedCount = 0;
+  const existingIndexes = new Map(
+    entries.map((e, index) => [`${e.id}:${e.deviceId}`, index]),
+  );
+  const addedKeys = new Set<string>();
   const deletedSet = new Set(deletedIds);
   const newEntries: Entry[] = [];
+  let result = entries;
 
   for (const entry of cloudEntries) {
     // Skip invalid entries
     if (!isValidEntry(entry)) continue;
 
-    // Skip entries from this device
-    if (entry.deviceId === localDeviceId) continue;
-
     // Skip entries that were deleted
     const deleteKey = `${entry.id}:${entry.deviceId}`;
     if (deletedSet.has(deleteKey) || deletedSet.has(entry.id)) continue;
 
-    // Skip duplicates
+    // Skip duplicates within the batch
     const key = `${entry.id}:${entry.deviceId}`;
-    if (existingIds.has(key)) continue;
+    if (addedKeys.has(key)) continue;
+
+    const existingIndex = existingIndexes.get(key);
+    if (existingIndex !== undefined) {
+      // Apply edits with a newer version (a same-version edit made on
+      // another device may win too) and photo changes, skip duplicates
+      const existing = result[existingIndex]!;
+      const photo =
+        existing.deviceId === localDeviceId ? existing.photo : entry.photo;
+      const isNewer = isNewerEntryVersion(entry, existing);
+      if (isNewer || photo !== existing.photo) {
+        if (result === entries) result = [...entries];
+        result[existingIndex] = isNewer
+          ? {
+              ...existing,
+              bib: entry.bib ?? existing.bib,
+              status: entry.status ?? existing.status,
+              run: entry.run ?? existing.run,
+              photo,
+              currentVersion: entry.currentVersion,
+              versionHistory: sanitizeEntryVersionHistory(entry.versionHistory),
+            }
+          : { ...existing, photo };
+        updatedCount++;
+      }
+      continue;
+    }
+
+    // Skip new entries from this device
+    if (entry.deviceId === localDeviceId) continue;
 
     // Ensure run field exists (backwards compat)
-    newEntries.push({ ...entry, run: entry.run ?? 1 });
-    existingIds.add(key);
+    const newEntry: Entry = { ...entry, run: entry.run ?? 1 };
+    if (entry.versionHistory !== undefined) {
+      newEntry.versionHistory = sanitizeEntryVersionHistory(
+        entry.versionHistory,
+      );
+    }
+    newEntries.push(newEntry);
+    addedKeys.add(key);
     addedCount++;
   }
 
   if (newEntries.length > 0) {
-    const allEntries = [...entries, ...newEntries];
+    const allEntries = [...result, ...newEntries];
     allEntries.sort(
       (a, b) =>
         new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime(),
     );
-    return { entries: allEntries, addedCount };
+    return { entries: allEntries, addedCount, updatedCount };
   }
 
-  return { entries, addedCount };
+  return { entries: result, addedCount, updatedCount };
 }
 
 /**
@@ -262,7 +262,7 @@ export function approveFaultDeletion(
   deviceName: string,
 ): { faultEntries: FaultEntry[]; approvedFault: FaultEntry | null } {
   const fault = faultEntries.find((f) => f.id === id);
-  if (!fault || !fault.markedForDeletion) {
+  if (!fault || !fault.markedForDeletion || fault.reversedByProtestId) {
     return { faultEntries, approvedFault: null };
   }
 
@@ -291,6 +291,8 @@ export function rejectFaultDeletion(
   if (index === -1) return null;
 
   const oldFault = faultEntries[index]!;
+  // A jury reversal is final
+  if (oldFault.reversedByProtestId) return null;
   const newVersion = oldFault.currentVersion + 1;
   const rejectionVersionRecord = createFaultVersion(
     newVersion,
@@ -318,10 +320,12 @@ export function rejectFaultDeletion(
 }
 
 /**
- * Get faults pending deletion
+ * Get faults pending deletion (faults reversed by the jury are final)
  */
 export function getPendingDeletions(faultEntries: FaultEntry[]): FaultEntry[] {
-  return faultEntries.filter((f) => f.markedForDeletion);
+  return faultEntries.filter(
+    (f) => f.markedForDeletion && !f.reversedByProtestId,
+  );
 }
 
 /**
@@ -376,9 +380,6 @@ export function mergeFaultsFromCloud(
       continue;
     }
 
-    // Skip faults from this device
-    if (fault.deviceId === localDeviceId) continue;
-
     // Skip faults that were deleted
     const deleteKey = `${fault.id}:${fault.deviceId}`;
     if (deletedSet.has(deleteKey) || deletedSet.has(fault.id)) continue;
@@ -387,18 +388,21 @@ export function mergeFaultsFromCloud(
     const existingFault = existingFaultsMap.get(key);
 
     if (existingFault) {
-      // Check if cloud version is newer or has different deletion status
+      // Check if cloud version is newer or has different deletion status.
+      // This device's own faults only change in the cloud through a newer
+      // version (a jury reversal); its local deletion mark may be unsynced.
       const cloudVersion = fault.currentVersion || 1;
       const localVersion = existingFault.currentVersion || 1;
 
       if (
         cloudVersion > localVersion ||
-        fault.markedForDeletion !== existingFault.markedForDeletion
+        (fault.deviceId !== localDeviceId &&
+          fault.markedForDeletion !== existingFault.markedForDeletion)
       ) {
         updatedFaults.push(fault);
         updatedCount++;
       }
-    } else {
+    } else if (fault.deviceId !== localDeviceId) {
       newFaults.push(fault);
       addedCount++;
     }
@@ -3,7 +3,15 @@
  * Handles gate judge state, assignments, and ready status
  */
 
-import type { DeviceRole, Entry, GateColor, Run } from '../../types';
+import type {
+  AgeCategory,
+  DeviceRole,
+  Entry,
+  GateColor,
+  PenaltyRule,
+  PenaltyRules,
+  Run,
+} from '../../types';
 
 // Gate Judge State type
 export interface GateJudgeState {
@@ -16,6 +24,7 @@ export interface GateJudgeState {
   finalizedRacers: Set<string>;
   penaltySeconds: number;
   usePenaltyMode: boolean;
+  penaltyRules: PenaltyRules;
 }
 
 /**
@@ -164,11 +173,42 @@ export function setUsePenaltyMode(
 }
 
 /**
- * Get active bibs (started but not finished) for current run
+ * Set (or with null, remove) the penalty rule for an age category
+ */
+export function setPenaltyRule(
+  category: AgeCategory,
+  rule: PenaltyRule | null,
+  currentRules: PenaltyRules,
+): Partial<GateJudgeState> {
+  const penaltyRules = { ...currentRules };
+  if (rule) {
+    penaltyRules[category] = {
+      usePenaltyMode: rule.usePenaltyMode,
+      penaltySeconds: Math.max(0, Math.min(60, rule.penaltySeconds)),
+    };
+  } else {
+    delete penaltyRules[category];
+  }
+  return { penaltyRules };
+}
+
+/**
+ * Replace all per-category penalty rules (e.g. from cloud)
+ */
+export function setPenaltyRules(rules: PenaltyRules): Partial<GateJudgeState> {
+  return { penaltyRules: { ...rules } };
+}
+
+/**
+ * Get active bibs (started but neither finished nor DNF/DNS) for current run
  */
 export function getActiveBibs(entries: Entry[], run: Run): string[] {
   const started = entries.filter((e) => e.point === 'S' && e.run === run);
-  const finished = entries.filter((e) => e.point === 'F' && e.run === run);
+  const finished = entries.filter(
+    (e) =>
+      e.run === run &&
+      (e.point === 'F' || e.status === 'dnf' || e.status === 'dns'),
+  );
   const finishedBibs = new Set(finished.map((e) => e.bib));
   // Use Set to deduplicate bibs
   const activeBibSet = new Set(
@@ -15,6 +15,7 @@ export type BooleanSettingKey =
   | 'gps'
   | 'simple'
   | 'photoCapture'
+  | 'photoBurst'
   | 'motionEffects'
   | 'glassEffects'
   | 'outdoorMode'
@@ -32,6 +33,7 @@ export const DEFAULT_SETTINGS: Settings = {
   gps: true,
   simple: false,
   photoCapture: false,
+  photoBurst: false,
   motionEffects: true,
   glassEffects: true,
   outdoorMode: false,
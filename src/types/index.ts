@@ -1,5 +1,16 @@
 // Timing point types
-export type TimingPoint = 'S' | 'F';
+// Start and finish plus up to 9 intermediate (split) points, in course order
+export type IntermediatePoint =
+  | 'I1'
+  | 'I2'
+  | 'I3'
+  | 'I4'
+  | 'I5'
+  | 'I6'
+  | 'I7'
+  | 'I8'
+  | 'I9';
+export type TimingPoint = 'S' | IntermediatePoint | 'F';
 
 // Run types (for multi-run races)
 // Generalized to support 3+ run races (e.g. training, special formats)
@@ -26,6 +37,43 @@ export type AgeCategory =
   | 'U16'
   | 'masters';
 
+// Penalty rule: penalty time per fault, or DSQ on any fault
+export interface PenaltyRule {
+  usePenaltyMode: boolean;
+  penaltySeconds: number;
+}
+
+// Per age category penalty rules (categories without a rule use the default)
+export type PenaltyRules = Partial<Record<AgeCategory, PenaltyRule>>;
+
+// Official (primary) timing device per timing point: point → device ID.
+// Other devices at the point are backups
+export type PrimaryDevices = Partial<Record<TimingPoint, string>>;
+
+// Race discipline: slalom, giant slalom, super-G
+export type Discipline = 'SL' | 'GS' | 'SG';
+
+// Jury function listed on the race definition
+export type JuryRole = 'technicalDelegate' | 'referee' | 'chiefOfRace';
+
+export interface JuryMember {
+  role: JuryRole;
+  name: string;
+}
+
+// Race definition metadata (runs and penalty rules live in the race config
+// and penalty config)
+export interface RaceDefinition {
+  name: string;
+  date?: string; // YYYY-MM-DD
+  venue?: string;
+  discipline: Discipline;
+  gateCount: number;
+  homologationNumber?: string;
+  jury: JuryMember[];
+  lastUpdated: number;
+}
+
 // Sync status types
 export type SyncStatus =
   | 'disconnected'
@@ -39,7 +87,7 @@ export type SyncStatus =
 export type Language = 'en' | 'de' | 'fr';
 
 // Time source for timing entries
-export type TimeSource = 'gps' | 'system';
+export type TimeSource = 'gps' | 'server' | 'system' | 'manual'; // server = clock synced to /api/v1/time, manual = hand timing
 
 // Entry interface - core timing data
 export interface Entry {
@@ -52,7 +100,7 @@ export interface Entry {
   deviceId: string;
   deviceName: string;
   syncedAt?: number;
-  photo?: string; // Base64 encoded photo
+  photo?: string; // Base64 encoded photo, or the 'indexeddb'/'cloud' marker
   gpsCoords?: {
     latitude: number;
     longitude: number;
@@ -60,6 +108,29 @@ export interface Entry {
   };
   timeSource?: TimeSource; // Which clock was used for the timestamp
   gpsTimestamp?: number; // Raw GPS timestamp if available
+  timeUncertainty?: number; // ± ms of the server clock sync ('server' source)
+  enteredBy?: string; // Official who typed a manual (hand-timed) time
+
+  // Version tracking (absent until the entry is first edited)
+  currentVersion?: number; // Current version number (1 = as recorded)
+  versionHistory?: EntryVersion[]; // All versions, including the current one
+}
+
+// Photo-finish burst frame, stored locally with the entry's photo
+export interface BurstFrame {
+  offsetMs: number; // Frame time relative to the entry timestamp
+  timestamp: string; // Frame time on the entry's (GPS-corrected) clock (ISO)
+  photo: string; // Base64 encoded JPEG
+}
+
+// Entry version for the edit audit trail (bib, status and run corrections)
+export interface EntryVersion {
+  version: number; // Incrementing version number
+  timestamp: string; // When this version was created (ISO)
+  editedBy: string; // Device name of who made the change
+  editedByDeviceId: string; // Device ID for audit
+  changeType: 'create' | 'edit'; // Recorded or edited
+  data: Pick<Entry, 'bib' | 'status' | 'run'>; // Editable fields at this version
 }
 
 // Fault version for audit trail
@@ -112,6 +183,29 @@ export interface FaultEntry {
   markedForDeletionByDeviceId?: string; // Device ID
   deletionApprovedAt?: string; // When approved (ISO timestamp)
   deletionApprovedBy?: string; // Chief judge who approved
+  reversedByProtestId?: string; // Upheld protest that reversed it (kept, final)
+}
+
+// Racer gender as listed on the start list
+export type Gender = 'M' | 'F';
+
+// Start list racer - maps a bib to the person wearing it
+export interface Racer {
+  bib: string;
+  name: string; // Display name ("Lastname Firstname" for Race Horology imports)
+  club?: string;
+  nation?: string; // Nation code (e.g. "GER", "AUT")
+  gender?: Gender;
+  ageCategory?: AgeCategory;
+  birthYear?: number;
+}
+
+// Planned start order of one run (start interval planning on the start device)
+export interface StartOrder {
+  run: Run;
+  bibs: string[]; // Bibs in start order
+  firstStart: number; // Planned start of the first racer (epoch ms)
+  intervalSeconds: number; // Time between two planned starts
 }
 
 // Gate color type (alternating colors in ski racing)
@@ -128,6 +222,52 @@ export interface GateAssignment {
   firstGateColor?: GateColor; // Color of the first gate in range
 }
 
+// Gate of the course map, positioned by walking the course with GPS
+export interface CourseGate {
+  number: number;
+  color: GateColor;
+  latitude: number;
+  longitude: number;
+}
+
+// Protest deadline per run: run number → deadline (ms since epoch)
+export type ProtestDeadlines = Record<string, number>;
+
+// Jury decision on a protest
+export type ProtestOutcome = 'upheld' | 'rejected';
+
+export interface JuryDecision {
+  outcome: ProtestOutcome;
+  votesFor: number;
+  votesAgainst: number;
+  abstentions: number;
+  rationale: string;
+  decidedAt: string; // ISO
+  decidedBy: string; // Device name that recorded the decision
+}
+
+// Protest against a fault or a racer's entry status, filed by a team
+// official (coach) and decided by the jury
+export interface Protest {
+  id: string;
+  bib: string;
+  run: Run;
+  targetType: 'fault' | 'entry';
+  targetId: string; // FaultEntry or Entry ID
+  fault?: Pick<FaultEntry, 'gateNumber' | 'faultType' | 'deviceName'>; // Contested fault as filed
+  currentStatus?: EntryStatus; // Entry status as filed
+  requestedStatus?: EntryStatus; // Entry status the protest asks for
+  filedBy: string; // Coach or team official
+  filedAt: string; // ISO
+  reason: string;
+  evidenceNote?: string;
+  evidenceNoteSource?: 'voice' | 'manual';
+  photoCount: number; // Evidence photos stored in the cloud
+  recordedBy: string; // Device name that recorded the protest
+  recordedByDeviceId: string;
+  decision?: JuryDecision; // Absent while the protest is open
+}
+
 // Settings interface
 export interface Settings {
   auto: boolean; // Auto-increment bib
@@ -138,6 +278,7 @@ export interface Settings {
   gps: boolean; // GPS enabled
   simple: boolean; // Simple mode
   photoCapture: boolean; // Photo capture on timestamp
+  photoBurst: boolean; // Photo-finish burst around finish taps
   // Liquid Glass UI settings
   motionEffects: boolean; // Enable accelerometer-reactive effects
   glassEffects: boolean; // Enable glass/blur effects
@@ -152,6 +293,18 @@ export interface DeviceInfo {
   lastSeen: number;
 }
 
+// Clock state a device last reported with its sync heartbeat
+export interface DeviceClockReport {
+  deviceId: string;
+  name: string;
+  lastSeen: number;
+  source: 'gps' | 'server' | 'system';
+  skewMs: number; // Device clock minus server time (includes network latency)
+  gpsOffsetMs: number | null; // GPS time minus system time
+  gpsAccuracy: number | null; // Meters
+  point: TimingPoint | null; // Null for gate judges
+}
+
 // Sync queue item for offline support
 export interface SyncQueueItem {
   entry: Entry;
@@ -191,6 +344,15 @@ export interface AppState {
 
   // Data
   entries: Entry[];
+  startList: Racer[]; // Racers for the current race (bib → name/club/category)
+  intermediatePoints: number; // Split points between start and finish (race config)
+  runCount: number; // Runs of the race (race config)
+  primaryDevices: PrimaryDevices; // Official timer per point (race config)
+  courseGates: CourseGate[]; // Course map sorted by gate number (race config)
+  protestDeadlines: ProtestDeadlines; // Protest deadline per run (race config)
+  protests: Protest[]; // Protests of the race, oldest first (cloud)
+  raceDefinition: RaceDefinition | null; // Race metadata (admin race definition)
+  startOrders: StartOrder[]; // Planned start order per run (this device)
 
   // Gate Judge State
   deviceRole: DeviceRole;
@@ -207,6 +369,7 @@ export interface AppState {
   // Race penalty configuration
   penaltySeconds: number; // Seconds per fault (default: 5 for youth)
   usePenaltyMode: boolean; // true = penalty time, false = DSQ
+  penaltyRules: PenaltyRules; // Per age category overrides of the above
 
   // Undo/Redo
   undoStack: Action[];
@@ -243,9 +406,14 @@ export interface StateChangeEvent {
   previousState?: Partial<AppState>;
 }
 
+// Entry as returned by the sync API (photos are served by the photo API)
+export interface CloudEntry extends Entry {
+  hasPhoto?: boolean;
+}
+
 // API response types
 export interface SyncResponse {
-  entries: Entry[];
+  entries: CloudEntry[];
   lastUpdated: number | null;
   success?: boolean;
   error?: string;
@@ -267,6 +435,11 @@ export interface RaceInfo {
   entryCount: number;
   deviceCount: number;
   lastUpdated: number | null;
+  // Race definition metadata (when the race has one)
+  name?: string;
+  date?: string;
+  venue?: string;
+  discipline?: Discipline;
 }
 
 // Export format types
@@ -282,7 +455,7 @@ export interface RaceStatistics {
   dsqCount: number;
   fastestTime: number | null;
   averageTime: number | null;
-  byPoint: Record<TimingPoint, number>;
+  byPoint: Partial<Record<TimingPoint, number>>;
 }
 
 // Virtual scroll item
@@ -398,6 +571,7 @@ export interface VoiceContext {
   currentRun: Run;
   activeBibs?: string[]; // For gate judge - racers on course
   gateRange?: [number, number]; // For gate judge - assigned gates
+  timingPoints?: TimingPoint[]; // For timer - the race's configured points
   pendingConfirmation?: VoiceIntent; // Awaiting yes/no response
 }
 
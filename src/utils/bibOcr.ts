@@ -0,0 +1,417 @@
+/**
+ * Bib number recognition (OCR) for entry photos
+ * Runs fully offline: adaptive thresholding, connected components and digit
+ * classification against built-in 5x7 digit templates. Pure functions on
+ * RGBA pixel data, used by the bib recognition worker.
+ */
+
+/**
+ * RGBA pixel data (ImageData-compatible)
+ */
+export interface OcrImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | Uint8Array;
+}
+
+/**
+ * A recognized digit group that may be a bib
+ */
+export interface BibCandidate {
+  bib: string; // Digits as read, without padding
+  confidence: number; // 0-1, mean digit match
+  height: number; // Glyph height in pixels (bigger digits are likelier bibs)
+}
+
+interface Glyph {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  digit: string;
+  score: number;
+}
+
+const GRID_WIDTH = 5;
+const GRID_HEIGHT = 7;
+
+// 5x7 digit templates (bold sans-serif shapes as printed on race bibs)
+const DIGIT_TEMPLATES: Record<string, string[]> = {
+  '0': ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  '1': ['..#..', '.##..', '..#..', '..#..', '..#..', '..#..', '.###.'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['.###.', '#...#', '....#', '..##.', '....#', '#...#', '.###.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+};
+
+const TEMPLATE_GRIDS = Object.entries(DIGIT_TEMPLATES).map(([digit, rows]) => ({
+  digit,
+  grid: rows.flatMap((row) => [...row].map((c) => (c === '#' ? 1 : 0))),
+}));
+
+// Adaptive threshold: ink differs from the local mean by this fraction
+const THRESHOLD_SENSITIVITY = 0.15;
+// Glyph size limits, relative to the image height
+const MIN_GLYPH_HEIGHT = 8;
+const MIN_GLYPH_HEIGHT_RATIO = 0.03;
+const MAX_GLYPH_HEIGHT_RATIO = 0.6;
+// Minimum gray level difference between a glyph and both the gaps in its box
+// and its surroundings (rejects the outlines and halos adaptive thresholding
+// leaves around solid shapes)
+const MIN_GLYPH_CONTRAST = 40;
+// Minimum template match for a component to count as a digit
+const MIN_DIGIT_SCORE = 0.7;
+// Bibs have at most 3 digits
+const MAX_BIB_DIGITS = 3;
+
+/**
+ * Convert RGBA pixels to luminance (0-255)
+ */
+function toGrayscale(image: OcrImage): Uint8Array {
+  const { width, height, data } = image;
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    const p = i * 4;
+    gray[i] = (data[p]! * 299 + data[p + 1]! * 587 + data[p + 2]! * 114) / 1000;
+  }
+  return gray;
+}
+
+/**
+ * Binarize with a local-mean (Bradley) threshold so uneven light on the bib
+ * does not matter. Dark ink is 1, unless inverted (light digits on a dark bib).
+ */
+function binarize(
+  gray: Uint8Array,
+  width: number,
+  height: number,
+  inverted: boolean,
+): Uint8Array {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += gray[y * width + x]!;
+      integral[(y + 1) * (width + 1) + x + 1] =
+        integral[y * (width + 1) + x + 1]! + rowSum;
+    }
+  }
+
+  const half = Math.max(7, Math.round(Math.min(width, height) / 16));
+  const ink = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum =
+        integral[y1 * (width + 1) + x1]! -
+        integral[y0 * (width + 1) + x1]! -
+        integral[y1 * (width + 1) + x0]! +
+        integral[y0 * (width + 1) + x0]!;
+      const value = gray[y * width + x]! * (x1 - x0) * (y1 - y0);
+      ink[y * width + x] = inverted
+        ? Number(value > sum * (1 + THRESHOLD_SENSITIVITY))
+        : Number(value < sum * (1 - THRESHOLD_SENSITIVITY));
+    }
+  }
+  return ink;
+}
+
+/**
+ * Sample a component into the 5x7 grid as ink coverage per cell. Narrow
+ * glyphs (like "1") are centered in a 5:7 box instead of being stretched.
+ */
+function sampleGrid(
+  labels: Int32Array,
+  label: number,
+  width: number,
+  box: { x: number; y: number; width: number; height: number },
+): number[] {
+  const boxWidth = Math.max(box.width, (box.height * GRID_WIDTH) / GRID_HEIGHT);
+  const left = box.x + (box.width - boxWidth) / 2;
+  const grid: number[] = [];
+
+  for (let row = 0; row < GRID_HEIGHT; row++) {
+    const top = box.y + (row * box.height) / GRID_HEIGHT;
+    const bottom = box.y + ((row + 1) * box.height) / GRID_HEIGHT;
+    for (let col = 0; col < GRID_WIDTH; col++) {
+      const cellLeft = left + (col * boxWidth) / GRID_WIDTH;
+      const cellRight = left + ((col + 1) * boxWidth) / GRID_WIDTH;
+      let inked = 0;
+      let total = 0;
+      for (let y = Math.floor(top); y < Math.ceil(bottom); y++) {
+        for (let x = Math.floor(cellLeft); x < Math.ceil(cellRight); x++) {
+          total++;
+          if (
+            x >= box.x &&
+            x < box.x + box.width &&
+            labels[y * width + x] === label
+          ) {
+            inked++;
+          }
+        }
+      }
+      grid.push(total > 0 ? inked / total : 0);
+    }
+  }
+  return grid;
+}
+
+/**
+ * Best matching digit for a sampled grid (score 1 = identical)
+ */
+function classifyGrid(grid: number[]): { digit: string; score: number } {
+  let best = { digit: '', score: 0 };
+  for (const template of TEMPLATE_GRIDS) {
+    let diff = 0;
+    for (let i = 0; i < grid.length; i++) {
+      diff += Math.abs(grid[i]! - template.grid[i]!);
+    }
+    const score = 1 - diff / grid.length;
+    if (score > best.score) best = { digit: template.digit, score };
+  }
+  return best;
+}
+
+/**
+ * Gray level difference between a component and the rest of the picture
+ * around it: the lower of the contrast to the gaps in its box and to a frame
+ * just outside the box (positive when the component is darker)
+ */
+function glyphContrast(
+  gray: Uint8Array,
+  labels: Int32Array,
+  label: number,
+  width: number,
+  height: number,
+  box: { x: number; y: number; width: number; height: number },
+): number {
+  const margin = Math.max(1, Math.round(box.height / 10));
+  let inkSum = 0;
+  let inkCount = 0;
+  let gapSum = 0;
+  let gapCount = 0;
+  let frameSum = 0;
+  let frameCount = 0;
+  const top = Math.max(0, box.y - margin);
+  const bottom = Math.min(height, box.y + box.height + margin);
+  const left = Math.max(0, box.x - margin);
+  const right = Math.min(width, box.x + box.width + margin);
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const index = y * width + x;
+      const inBox =
+        x >= box.x &&
+        x < box.x + box.width &&
+        y >= box.y &&
+        y < box.y + box.height;
+      if (!inBox) {
+        frameSum += gray[index]!;
+        frameCount++;
+      } else if (labels[index] === label) {
+        inkSum += gray[index]!;
+        inkCount++;
+      } else {
+        gapSum += gray[index]!;
+        gapCount++;
+      }
+    }
+  }
+  if (inkCount === 0 || gapCount === 0 || frameCount === 0) return 0;
+
+  const ink = inkSum / inkCount;
+  const gapContrast = gapSum / gapCount - ink;
+  const frameContrast = frameSum / frameCount - ink;
+  return Math.abs(gapContrast) < Math.abs(frameContrast)
+    ? gapContrast
+    : frameContrast;
+}
+
+/**
+ * Label 8-connected ink regions and classify those shaped like digits
+ */
+function findGlyphs(
+  gray: Uint8Array,
+  ink: Uint8Array,
+  width: number,
+  height: number,
+  inverted: boolean,
+): Glyph[] {
+  const labels = new Int32Array(width * height);
+  const minHeight = Math.max(MIN_GLYPH_HEIGHT, height * MIN_GLYPH_HEIGHT_RATIO);
+  const maxHeight = height * MAX_GLYPH_HEIGHT_RATIO;
+  const glyphs: Glyph[] = [];
+  const stack: number[] = [];
+  let nextLabel = 0;
+
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || labels[start]) continue;
+
+    const label = ++nextLabel;
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    let area = 0;
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const neighbor = ny * width + nx;
+          if (ink[neighbor] && !labels[neighbor]) {
+            labels[neighbor] = label;
+            stack.push(neighbor);
+          }
+        }
+      }
+    }
+
+    const box = {
+      x: minX,
+      y: minY,
+      width: maxX - minX + 1,
+      height: maxY - minY + 1,
+    };
+    const aspect = box.width / box.height;
+    const fill = area / (box.width * box.height);
+    if (
+      box.height < minHeight ||
+      box.height > maxHeight ||
+      aspect < 0.1 ||
+      aspect > 1.1 ||
+      fill < 0.15 ||
+      fill > 0.85
+    ) {
+      continue;
+    }
+
+    const contrast = glyphContrast(gray, labels, label, width, height, box);
+    if ((inverted ? -contrast : contrast) < MIN_GLYPH_CONTRAST) continue;
+
+    const { digit, score } = classifyGrid(
+      sampleGrid(labels, label, width, box),
+    );
+    if (score >= MIN_DIGIT_SCORE) {
+      glyphs.push({ ...box, digit, score });
+    }
+  }
+
+  return glyphs;
+}
+
+/**
+ * Chain glyphs of similar size on one line, left to right, into digit groups
+ */
+function groupGlyphs(glyphs: Glyph[]): Glyph[][] {
+  const groups: Glyph[][] = [];
+  for (const glyph of [...glyphs].sort((a, b) => a.x - b.x)) {
+    const group = groups.find((candidate) => {
+      const last = candidate[candidate.length - 1]!;
+      const size = Math.max(last.height, glyph.height);
+      const gap = glyph.x - (last.x + last.width);
+      const centerOffset = Math.abs(
+        last.y + last.height / 2 - (glyph.y + glyph.height / 2),
+      );
+      return (
+        Math.abs(last.height - glyph.height) <= size * 0.25 &&
+        centerOffset <= size * 0.3 &&
+        gap >= -size * 0.1 &&
+        gap <= size * 0.8
+      );
+    });
+    if (group) {
+      group.push(glyph);
+    } else {
+      groups.push([glyph]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Read bib-like digit groups from a photo, best first
+ */
+export function recognizeBibs(image: OcrImage): BibCandidate[] {
+  const { width, height } = image;
+  if (width === 0 || height === 0) return [];
+
+  const gray = toGrayscale(image);
+  const candidates = new Map<string, BibCandidate>();
+
+  // Dark digits on a light bib, then light digits on a dark bib
+  for (const inverted of [false, true]) {
+    const glyphs = findGlyphs(
+      gray,
+      binarize(gray, width, height, inverted),
+      width,
+      height,
+      inverted,
+    );
+    for (const group of groupGlyphs(glyphs)) {
+      if (group.length > MAX_BIB_DIGITS) continue;
+      const bib = group.map((g) => g.digit).join('');
+      const confidence =
+        group.reduce((sum, g) => sum + g.score, 0) / group.length;
+      const groupHeight = Math.max(...group.map((g) => g.height));
+      const existing = candidates.get(bib);
+      if (!existing || existing.confidence < confidence) {
+        candidates.set(bib, { bib, confidence, height: groupHeight });
+      }
+    }
+  }
+
+  return [...candidates.values()].sort(
+    (a, b) => b.confidence - a.confidence || b.height - a.height,
+  );
+}
+
+// Without a start list or active bibs to check against, only suggest
+// readings this confident
+const UNVALIDATED_MIN_CONFIDENCE = 0.85;
+
+/**
+ * Pick the bib to suggest from recognized candidates. Candidates must be one
+ * of the allowed bibs (start list / racers on course) when any are known.
+ * Returns the bib padded like recorded bibs, or null.
+ */
+export function pickBibSuggestion(
+  candidates: BibCandidate[],
+  allowedBibs: string[],
+): string | null {
+  const allowed = new Set(
+    allowedBibs.filter((bib) => /^\d+$/.test(bib)).map((bib) => Number(bib)),
+  );
+
+  for (const candidate of candidates) {
+    const isAllowed =
+      allowed.size > 0
+        ? allowed.has(Number(candidate.bib))
+        : candidate.confidence >= UNVALIDATED_MIN_CONFIDENCE;
+    if (isAllowed && Number(candidate.bib) > 0) {
+      return candidate.bib.padStart(3, '0');
+    }
+  }
+  return null;
+}
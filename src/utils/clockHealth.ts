@@ -0,0 +1,64 @@
+/**
+ * Clock Health Utilities
+ * Compares the clocks devices report with their sync heartbeat. Each report
+ * carries the device's skew against the server, so two devices' clocks differ
+ * by the difference of their skews (up to the network latency of each report).
+ */
+
+import type { DeviceClockReport, Entry, PrimaryDevices } from '../types';
+
+/** Start and finish clocks further apart than this trigger a warning */
+export const CLOCK_DRIFT_WARNING_MS = 500;
+
+/** Largest clock difference between a start and a finish device */
+export interface ClockDrift {
+  start: DeviceClockReport;
+  finish: DeviceClockReport;
+  driftMs: number; // Finish clock - start clock
+}
+
+/**
+ * Devices timing a point; only the primary device when it has reported
+ */
+function getPointClocks(
+  devices: DeviceClockReport[],
+  point: 'S' | 'F',
+  primaryDevices: PrimaryDevices,
+): DeviceClockReport[] {
+  const atPoint = devices.filter((d) => d.point === point);
+  const primary = atPoint.find((d) => d.deviceId === primaryDevices[point]);
+  return primary ? [primary] : atPoint;
+}
+
+/**
+ * Find the start and finish devices whose clocks differ the most.
+ * Returns null unless both points have a reporting device.
+ */
+export function findStartFinishDrift(
+  devices: DeviceClockReport[],
+  primaryDevices: PrimaryDevices = {},
+): ClockDrift | null {
+  let worst: ClockDrift | null = null;
+  for (const start of getPointClocks(devices, 'S', primaryDevices)) {
+    for (const finish of getPointClocks(devices, 'F', primaryDevices)) {
+      const driftMs = finish.skewMs - start.skewMs;
+      if (!worst || Math.abs(driftMs) > Math.abs(worst.driftMs)) {
+        worst = { start, finish, driftMs };
+      }
+    }
+  }
+  return worst;
+}
+
+/**
+ * First run without any start time yet, or null once every run has started
+ */
+export function findNextRunToStart(
+  entries: Entry[],
+  runs: number[],
+): number | null {
+  const started = new Set(
+    entries.filter((e) => e.point === 'S').map((e) => e.run),
+  );
+  return runs.find((run) => !started.has(run)) ?? null;
+}
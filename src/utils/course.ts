@@ -0,0 +1,128 @@
+/**
+ * Course Map Utilities
+ * Geometry of the course map: distances between GPS positions, the gate
+ * range around a judge's location and the plan-view layout of the gates.
+ */
+
+import type { CourseGate, GateColor } from '../types';
+
+/** Gates within this distance of a judge are suggested for their range */
+export const GATE_VIEW_RADIUS_M = 75;
+
+/** No range is suggested when the nearest gate is further away */
+export const MAX_SUGGESTION_DISTANCE_M = 250;
+
+/** Coarsest GPS fix accepted for recording a gate position */
+export const MAX_GATE_FIX_ACCURACY_M = 30;
+
+const EARTH_RADIUS_M = 6371000;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/** Gate placed in a plan-view layout (north up) */
+export interface CourseMapPoint {
+  gate: CourseGate;
+  x: number;
+  y: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two positions in meters
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) *
+      Math.cos(toRadians(b.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Color of the next gate recorded: alternating from the last gate, red first
+ */
+export function getNextGateColor(gates: CourseGate[]): GateColor {
+  return gates[gates.length - 1]?.color === 'red' ? 'blue' : 'red';
+}
+
+/**
+ * Suggest the gates a judge at a position can watch: the nearest gate and
+ * the consecutive gates around it within the radius.
+ * Returns null without gates or when the nearest gate is too far away.
+ */
+export function suggestGateRange(
+  gates: CourseGate[],
+  position: GeoPoint,
+  radius: number = GATE_VIEW_RADIUS_M,
+): [number, number] | null {
+  const distances = gates.map((gate) => distanceMeters(gate, position));
+  let nearest = -1;
+  distances.forEach((distance, i) => {
+    if (nearest < 0 || distance < distances[nearest]!) nearest = i;
+  });
+  if (nearest < 0 || distances[nearest]! > MAX_SUGGESTION_DISTANCE_M) {
+    return null;
+  }
+
+  let first = nearest;
+  let last = nearest;
+  while (first > 0 && distances[first - 1]! <= radius) first--;
+  while (last < gates.length - 1 && distances[last + 1]! <= radius) last++;
+  return [gates[first]!.number, gates[last]!.number];
+}
+
+/**
+ * Fit the gates into a width × height drawing (north up, equal scale on
+ * both axes) with the given margin
+ */
+export function layoutCourseMap(
+  gates: CourseGate[],
+  width: number,
+  height: number,
+  margin: number,
+): CourseMapPoint[] {
+  if (gates.length === 0) return [];
+
+  // Equirectangular projection around the course's mean latitude
+  const meanLatitude =
+    gates.reduce((sum, gate) => sum + gate.latitude, 0) / gates.length;
+  const cosLatitude = Math.cos(toRadians(meanLatitude));
+  const projected = gates.map((gate) => ({
+    gate,
+    east: gate.longitude * cosLatitude,
+    north: gate.latitude,
+  }));
+
+  const easts = projected.map((p) => p.east);
+  const norths = projected.map((p) => p.north);
+  const minEast = Math.min(...easts);
+  const maxEast = Math.max(...easts);
+  const minNorth = Math.min(...norths);
+  const maxNorth = Math.max(...norths);
+
+  const scale = Math.min(
+    maxEast > minEast ? (width - 2 * margin) / (maxEast - minEast) : Infinity,
+    maxNorth > minNorth
+      ? (height - 2 * margin) / (maxNorth - minNorth)
+      : Infinity,
+  );
+  // All gates at one spot: draw them in the middle
+  const factor = Number.isFinite(scale) ? scale : 0;
+  const midEast = (minEast + maxEast) / 2;
+  const midNorth = (minNorth + maxNorth) / 2;
+
+  return projected.map(({ gate, east, north }) => ({
+    gate,
+    x: Math.round((width / 2 + (east - midEast) * factor) * 10) / 10,
+    y: Math.round((height / 2 - (north - midNorth) * factor) * 10) / 10,
+  }));
+}
@@ -1,5 +1,6 @@
 import { t } from '../i18n/translations';
 import type { FaultType, Language, Run, TimingPoint } from '../types';
+import { isIntermediatePoint } from './validation';
 
 const LOCALE_MAP: Record<Language, string> = {
   en: 'en-US',
@@ -74,29 +75,38 @@ export function escapeAttr(str: string): string {
 }
 
 /**
- * Get color for timing point
+ * Get color for timing point (all intermediate points share one color)
  */
 export function getPointColor(point: TimingPoint): string {
-  const colors: Record<TimingPoint, string> = {
-    S: 'var(--start-color)',
-    F: 'var(--finish-color)',
-  };
-  return colors[point] || 'var(--text-secondary)';
+  if (point === 'S') return 'var(--start-color)';
+  if (point === 'F') return 'var(--finish-color)';
+  if (isIntermediatePoint(point)) return 'var(--intermediate-color)';
+  return 'var(--text-secondary)';
 }
 
 /**
- * Get display label for timing point
+ * Get display label for timing point. Intermediate points are numbered
+ * (e.g. "Split 1", "ZZ 1").
  */
+const SPLIT_PREFIX: Record<Language, string> = {
+  de: 'ZZ',
+  en: 'Split',
+  fr: 'Inter',
+};
+
 export function getPointLabel(
   point: TimingPoint,
   lang: Language = 'de',
 ): string {
-  const labels: Record<Language, Record<TimingPoint, string>> = {
+  const labels: Record<Language, Record<'S' | 'F', string>> = {
     en: { S: 'Start', F: 'Finish' },
     de: { S: 'Start', F: 'Ziel' },
     fr: { S: 'Départ', F: 'Arrivée' },
   };
-  return labels[lang][point];
+  if (isIntermediatePoint(point)) {
+    return `${SPLIT_PREFIX[lang]} ${point.slice(1)}`;
+  }
+  return labels[lang][point as 'S' | 'F'] ?? point;
 }
 
 /**
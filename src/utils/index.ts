@@ -80,6 +80,7 @@ export {
   iconTrashDetailed,
   iconWarningCircle,
   iconX,
+  manualTimeBadge,
   photoButton,
   pointBadge,
   runBadge,
@@ -87,21 +88,32 @@ export {
 } from './templates';
 
 export {
+  clampGate,
+  DEFAULT_RUN_COUNT,
+  getRuns,
+  getTimingPointOrder,
+  getTimingPoints,
+  isIntermediatePoint,
   isValidDataSchema,
   isValidDeviceId,
   isValidEntry,
   isValidFaultEntry,
   isValidFaultVersion,
   isValidRaceId,
+  isValidRun,
   isValidSettings,
   isValidSyncQueueItem,
   MAX_BIB_LENGTH,
   MAX_DEVICE_NAME_LENGTH,
+  MAX_GATE_COUNT,
+  MAX_INTERMEDIATE_POINTS,
   MAX_RACE_ID_LENGTH,
+  MAX_RUNS,
   makeNumericInput,
   migrateSchema,
   sanitizeEntry,
   sanitizeFaultEntry,
+  sanitizeRaceDefinition,
   sanitizeString,
   VALID_FAULT_TYPES,
   VALID_POINTS,
@@ -0,0 +1,150 @@
+/**
+ * On-Course Tracker
+ * Estimates where each started racer of a run is on the course from their
+ * start time (and latest split) and the section times of racers who already
+ * passed, so gate judges know which bib is at their gates right now.
+ */
+
+import type { Entry, Run, TimingPoint } from '../types';
+
+/** Racer still on course with their estimated position */
+export interface RacerOnCourse {
+  bib: string;
+  startTime: number; // ms
+  // Estimated gate (fractional, 0 = start, gateCount = finish), null until a
+  // prior racer's section times are known
+  estimatedGate: number | null;
+}
+
+/** Statuses that take a racer off the course without a finish time */
+const OFF_COURSE_STATUSES = new Set(['dnf', 'dns']);
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[mid - 1]! + sorted[mid]!) / 2
+    : sorted[mid]!;
+}
+
+/**
+ * Timing points of the course in order: start, intermediates seen in the
+ * entries, finish
+ */
+function getCoursePoints(entries: Entry[]): TimingPoint[] {
+  const intermediates = [
+    ...new Set(
+      entries.map((e) => e.point).filter((point) => point.startsWith('I')),
+    ),
+  ].sort((a, b) => Number(a.slice(1)) - Number(b.slice(1)));
+  return ['S', ...intermediates, 'F'];
+}
+
+/**
+ * Track the racers of a run who started and have neither a finish nor a
+ * DNF/DNS recorded. Split points are assumed to divide the course's gates
+ * evenly; within a section a racer moves at the pace of the median prior
+ * racer. Sorted by start time, most recent first.
+ */
+export function trackRacersOnCourse(
+  entries: Entry[],
+  run: Run,
+  gateCount: number,
+  now: number = Date.now(),
+): RacerOnCourse[] {
+  const runEntries = entries.filter((e) => e.run === run);
+  const points = getCoursePoints(runEntries);
+  const sectionCount = points.length - 1;
+
+  // First recorded time per bib and point (redundant timers record twice)
+  const times = new Map<string, Map<TimingPoint, number>>();
+  const offCourse = new Set<string>();
+  for (const entry of runEntries) {
+    if (OFF_COURSE_STATUSES.has(entry.status)) offCourse.add(entry.bib);
+    const time = new Date(entry.timestamp).getTime();
+    if (Number.isNaN(time)) continue;
+    let bibTimes = times.get(entry.bib);
+    if (!bibTimes) {
+      bibTimes = new Map();
+      times.set(entry.bib, bibTimes);
+    }
+    const existing = bibTimes.get(entry.point);
+    if (existing === undefined || time < existing) {
+      bibTimes.set(entry.point, time);
+    }
+  }
+
+  // Typical time of each section from the racers who completed it
+  const sectionTimes = points.slice(1).map((point, i) => {
+    const durations: number[] = [];
+    for (const bibTimes of times.values()) {
+      const from = bibTimes.get(points[i]!);
+      const to = bibTimes.get(point);
+      if (from !== undefined && to !== undefined && to > from) {
+        durations.push(to - from);
+      }
+    }
+    return median(durations);
+  });
+
+  const racers: RacerOnCourse[] = [];
+  for (const [bib, bibTimes] of times) {
+    const startTime = bibTimes.get('S');
+    if (startTime === undefined || bibTimes.has('F') || offCourse.has(bib)) {
+      continue;
+    }
+
+    // Latest point passed, then the share of the next section covered
+    let section = 0;
+    let sectionStart = startTime;
+    for (let i = 1; i < sectionCount; i++) {
+      const time = bibTimes.get(points[i]!);
+      if (time !== undefined) {
+        section = i;
+        sectionStart = time;
+      }
+    }
+    const sectionTime = sectionTimes[section];
+    let estimatedGate: number | null = null;
+    if (sectionTime) {
+      const covered = Math.min(
+        1,
+        Math.max(0, (now - sectionStart) / sectionTime),
+      );
+      estimatedGate = ((section + covered) / sectionCount) * gateCount;
+    }
+
+    racers.push({ bib, startTime, estimatedGate });
+  }
+
+  return racers.sort((a, b) => b.startTime - a.startTime);
+}
+
+/**
+ * Racer most likely at a judge's gates: the one whose estimated position is
+ * inside the range, or nearest to it. Null when no position is known.
+ */
+export function findRacerAtGates(
+  racers: RacerOnCourse[],
+  gateRange: [number, number],
+): RacerOnCourse | null {
+  // Gate n spans positions n-1..n along the course
+  const from = gateRange[0] - 1;
+  const to = gateRange[1];
+  let best: RacerOnCourse | null = null;
+  let bestDistance = Infinity;
+  for (const racer of racers) {
+    if (racer.estimatedGate === null) continue;
+    const distance = Math.max(
+      0,
+      from - racer.estimatedGate,
+      racer.estimatedGate - to,
+    );
+    if (distance < bestDistance) {
+      best = racer;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -16,6 +16,16 @@ export function isPhotoMarker(
   return photo === 'indexeddb';
 }
 
+/**
+ * Check if a photo field contains the cloud marker (photo stored on the
+ * server, downloaded on demand)
+ */
+export function isCloudPhotoMarker(
+  photo: string | undefined | null,
+): photo is string {
+  return photo === 'cloud';
+}
+
 /**
  * Check if a photo field contains full base64 photo data (not a marker)
  */
@@ -23,6 +33,9 @@ export function hasFullPhotoData(
   photo: string | undefined | null,
 ): photo is string {
   return (
-    !!photo && photo !== 'indexeddb' && photo.length > MIN_PHOTO_DATA_LENGTH
+    !!photo &&
+    photo !== 'indexeddb' &&
+    photo !== 'cloud' &&
+    photo.length > MIN_PHOTO_DATA_LENGTH
   );
 }
@@ -0,0 +1,228 @@
+/**
+ * Reconciliation Utilities
+ * Finds timing entries that don't add up per run: starts without a finish,
+ * finishes without a start, entries without a bib and the same bib+point
+ * recorded by several devices. At points with a primary (official) device,
+ * the other devices are backups: their times are compared, not reported as
+ * duplicates.
+ */
+
+import type { Entry, PrimaryDevices, TimingPoint } from '../types';
+import { getTimingPointOrder } from './validation';
+
+/** Same bib and point recorded in a run by more than one device */
+export interface DuplicateEntryGroup {
+  key: string; // bib-point-run
+  bib: string;
+  point: TimingPoint;
+  run: number;
+  entries: Entry[]; // Oldest first
+}
+
+/** Primary and backup time of a racer at a point with a primary device */
+export interface BackupTimeComparison {
+  key: string; // bib-point-run
+  bib: string;
+  point: TimingPoint;
+  run: number;
+  primary: Entry | null; // Earliest primary entry, null = backup time used
+  backup: Entry; // Earliest backup entry
+  deltaMs: number | null; // Backup - primary (null without a primary entry)
+}
+
+/** Open issues of one run */
+export interface RunReconciliation {
+  run: number;
+  startedNotFinished: Entry[]; // Start entries (candidate DNF)
+  finishedNotStarted: Entry[]; // Finish entries
+  blankBib: Entry[];
+  duplicates: DuplicateEntryGroup[];
+  backupTimes: BackupTimeComparison[]; // Not issues - results use them
+}
+
+/** Open issues per run */
+export interface Reconciliation {
+  runs: RunReconciliation[]; // Runs with at least one entry, ascending
+  issueCount: number;
+}
+
+// Statuses that settle a racer's run (no start/finish needed)
+const SETTLED_STATUSES: ReadonlySet<Entry['status']> = new Set([
+  'dns',
+  'dnf',
+  'dsq',
+]);
+
+function compareEntries(a: Entry, b: Entry): number {
+  // ISO 8601 timestamps are lexicographically sortable
+  return a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0;
+}
+
+function compareBibs(a: Entry, b: Entry): number {
+  return parseInt(a.bib, 10) - parseInt(b.bib, 10) || compareEntries(a, b);
+}
+
+/**
+ * Group entries with the same bib+point+run recorded by different devices
+ * (entries without a bib are never duplicates; at a point with a primary
+ * device only backups duplicating each other are, not the primary and a
+ * backup)
+ */
+export function findDuplicateEntries(
+  entries: Entry[],
+  primaryDevices: PrimaryDevices = {},
+): DuplicateEntryGroup[] {
+  const groups = new Map<string, DuplicateEntryGroup>();
+  for (const entry of entries) {
+    if (!entry.bib || entry.deviceId === primaryDevices[entry.point]) continue;
+    const run = entry.run ?? 1;
+    const key = `${entry.bib}-${entry.point}-${run}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, bib: entry.bib, point: entry.point, run, entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+  }
+
+  return [...groups.values()]
+    .filter((group) => new Set(group.entries.map((e) => e.deviceId)).size > 1)
+    .map((group) => ({
+      ...group,
+      entries: [...group.entries].sort(compareEntries),
+    }));
+}
+
+/**
+ * Compare the primary device's time with the earliest backup time per
+ * bib+point+run at points with a primary device. Racers timed by the
+ * primary only are left out.
+ */
+export function compareBackupTimes(
+  entries: Entry[],
+  primaryDevices: PrimaryDevices,
+): BackupTimeComparison[] {
+  const groups = new Map<
+    string,
+    Omit<BackupTimeComparison, 'backup' | 'deltaMs'> & { backup: Entry | null }
+  >();
+  for (const entry of entries) {
+    const primaryDevice = primaryDevices[entry.point];
+    if (!primaryDevice || !entry.bib || SETTLED_STATUSES.has(entry.status)) {
+      continue;
+    }
+    const run = entry.run ?? 1;
+    const key = `${entry.bib}-${entry.point}-${run}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        bib: entry.bib,
+        point: entry.point,
+        run,
+        primary: null,
+        backup: null,
+      };
+      groups.set(key, group);
+    }
+    const source = entry.deviceId === primaryDevice ? 'primary' : 'backup';
+    const previous = group[source];
+    if (!previous || compareEntries(entry, previous) < 0) group[source] = entry;
+  }
+
+  const comparisons: BackupTimeComparison[] = [];
+  for (const group of groups.values()) {
+    const { backup, primary } = group;
+    if (!backup) continue;
+    comparisons.push({
+      ...group,
+      backup,
+      deltaMs: primary
+        ? new Date(backup.timestamp).getTime() -
+          new Date(primary.timestamp).getTime()
+        : null,
+    });
+  }
+  return comparisons.sort(
+    (a, b) =>
+      compareBibs(a.backup, b.backup) ||
+      getTimingPointOrder(a.point) - getTimingPointOrder(b.point),
+  );
+}
+
+/**
+ * Reconcile one run's entries
+ */
+function reconcileRun(
+  run: number,
+  entries: Entry[],
+  primaryDevices: PrimaryDevices,
+): RunReconciliation {
+  const starts = new Map<string, Entry>();
+  const finishes = new Map<string, Entry>();
+  const settledBibs = new Set<string>();
+  const blankBib: Entry[] = [];
+
+  for (const entry of entries) {
+    if (!entry.bib) {
+      blankBib.push(entry);
+      continue;
+    }
+    if (SETTLED_STATUSES.has(entry.status)) {
+      settledBibs.add(entry.bib);
+      continue;
+    }
+    // Keep the first start/finish of each bib
+    const byBib =
+      entry.point === 'S' ? starts : entry.point === 'F' ? finishes : null;
+    const previous = byBib?.get(entry.bib);
+    if (byBib && (!previous || compareEntries(entry, previous) < 0)) {
+      byBib.set(entry.bib, entry);
+    }
+  }
+
+  const unmatched = (from: Map<string, Entry>, other: Map<string, Entry>) =>
+    [...from.values()]
+      .filter((entry) => !other.has(entry.bib) && !settledBibs.has(entry.bib))
+      .sort(compareBibs);
+
+  return {
+    run,
+    startedNotFinished: unmatched(starts, finishes),
+    finishedNotStarted: unmatched(finishes, starts),
+    blankBib: blankBib.sort(compareEntries),
+    duplicates: findDuplicateEntries(entries, primaryDevices).sort((a, b) =>
+      compareBibs(a.entries[0]!, b.entries[0]!),
+    ),
+    backupTimes: compareBackupTimes(entries, primaryDevices),
+  };
+}
+
+/**
+ * Find open issues in the race's entries, per run
+ */
+export function reconcileEntries(
+  entries: Entry[],
+  primaryDevices: PrimaryDevices = {},
+): Reconciliation {
+  const byRun = new Map<number, Entry[]>();
+  for (const entry of entries) {
+    const run = entry.run ?? 1;
+    if (!byRun.has(run)) byRun.set(run, []);
+    byRun.get(run)!.push(entry);
+  }
+
+  const runs = [...byRun.keys()]
+    .sort((a, b) => a - b)
+    .map((run) => reconcileRun(run, byRun.get(run)!, primaryDevices));
+  const issueCount = runs.reduce(
+    (sum, run) =>
+      sum +
+      run.startedNotFinished.length +
+      run.finishedNotStarted.length +
+      run.blankBib.length +
+      run.duplicates.length,
+    0,
+  );
+  return { runs, issueCount };
+}
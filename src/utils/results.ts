@@ -0,0 +1,64 @@
+/**
+ * Results Utilities
+ * Run times, rankings and race statistics (engine shared with the API)
+ */
+
+import type { Entry, RaceStatistics } from '../types';
+import type { RaceResults } from './validation';
+
+// Re-export shared results engine
+export {
+  type CombinedResult,
+  computeRaceResults,
+  DEFAULT_PENALTY_OPTIONS,
+  DEFAULT_PENALTY_RULES,
+  type PenaltyRuleTable,
+  type RaceResults,
+  type ResultPenaltyConfig,
+  type ResultPenaltyOptions,
+  type ResultStatus,
+  type RunResult,
+  resolvePenaltyRule,
+} from './validation';
+
+/**
+ * Compute race statistics from entries and computed results.
+ * Fastest/average times use ranked run results (including penalties).
+ */
+export function computeRaceStatistics(
+  entries: Entry[],
+  results: RaceResults,
+): RaceStatistics {
+  const runResults = results.runs.flatMap((run) => results.byRun[run] ?? []);
+  const rankedTimes = runResults
+    .filter((r) => r.rank !== null && r.totalTime !== null)
+    .map((r) => r.totalTime!);
+
+  const finishedBibs = new Set(
+    runResults.filter((r) => r.rank !== null).map((r) => r.bib),
+  );
+
+  // Start and finish are always counted; intermediate points when recorded
+  const byPoint: RaceStatistics['byPoint'] = { S: 0, F: 0 };
+  for (const entry of entries) {
+    byPoint[entry.point] = (byPoint[entry.point] ?? 0) + 1;
+  }
+
+  return {
+    totalEntries: entries.length,
+    uniqueRacers: new Set(entries.map((e) => e.bib)).size,
+    finishedCount: finishedBibs.size,
+    dnsCount: runResults.filter((r) => r.status === 'dns').length,
+    dnfCount: runResults.filter((r) => r.status === 'dnf').length,
+    dsqCount: runResults.filter((r) => r.status === 'dsq').length,
+    fastestTime: rankedTimes.length > 0 ? Math.min(...rankedTimes) : null,
+    averageTime:
+      rankedTimes.length > 0
+        ? Math.round(
+            rankedTimes.reduce((sum, time) => sum + time, 0) /
+              rankedTimes.length,
+          )
+        : null,
+    byPoint,
+  };
+}
@@ -0,0 +1,347 @@
+/**
+ * Start List Utilities
+ * Parses CSV / Race Horology participant files and resolves bibs to racers
+ */
+
+import type { AgeCategory, Gender, Racer } from '../types';
+import {
+  MAX_BIB_LENGTH,
+  MAX_CLUB_LENGTH,
+  MAX_NATION_LENGTH,
+  MAX_RACER_NAME_LENGTH,
+  MAX_START_LIST_SIZE,
+  VALID_AGE_CATEGORIES,
+} from './validation';
+
+type StartListColumn =
+  | 'bib'
+  | 'lastName'
+  | 'firstName'
+  | 'club'
+  | 'nation'
+  | 'gender'
+  | 'category'
+  | 'birthYear';
+
+/**
+ * Header aliases (normalized: lowercase, no diacritics, alphanumeric only).
+ * Covers Race Horology participant exports (German headers) plus common
+ * English/French spreadsheet headers.
+ */
+const HEADER_ALIASES: Record<string, StartListColumn> = {
+  startnummer: 'bib',
+  startnr: 'bib',
+  stnr: 'bib',
+  bib: 'bib',
+  nr: 'bib',
+  number: 'bib',
+  dossard: 'bib',
+  name: 'lastName',
+  nachname: 'lastName',
+  lastname: 'lastName',
+  surname: 'lastName',
+  nom: 'lastName',
+  vorname: 'firstName',
+  firstname: 'firstName',
+  givenname: 'firstName',
+  prenom: 'firstName',
+  verein: 'club',
+  club: 'club',
+  skiclub: 'club',
+  team: 'club',
+  nation: 'nation',
+  nat: 'nation',
+  land: 'nation',
+  country: 'nation',
+  pays: 'nation',
+  geschlecht: 'gender',
+  gender: 'gender',
+  sex: 'gender',
+  sexe: 'gender',
+  klasse: 'category',
+  kategorie: 'category',
+  altersklasse: 'category',
+  category: 'category',
+  class: 'category',
+  categorie: 'category',
+  jahrgang: 'birthYear',
+  jg: 'birthYear',
+  birthyear: 'birthYear',
+  yob: 'birthYear',
+  annee: 'birthYear',
+};
+
+// Column order assumed for files without a recognizable header row
+const POSITIONAL_COLUMNS: StartListColumn[] = [
+  'bib',
+  'lastName',
+  'club',
+  'nation',
+  'gender',
+  'category',
+];
+
+const MALE_VALUES = new Set(['m', 'male', 'men', 'h', 'herren', 'homme']);
+const FEMALE_VALUES = new Set([
+  'f',
+  'w',
+  'd',
+  'l',
+  'female',
+  'women',
+  'ladies',
+  'damen',
+  'dame',
+  'femme',
+]);
+
+/**
+ * Result of parsing a start list file
+ */
+export interface StartListParseResult {
+  racers: Racer[];
+  skippedRows: number; // Rows without bib/name, duplicates, or over the size limit
+}
+
+/**
+ * Normalize a bib for lookup - numeric bibs are zero-padded to 3 digits
+ * to match how bibs are stored on entries and faults
+ */
+export function normalizeBib(bib: string): string {
+  const trimmed = bib.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return String(parseInt(trimmed, 10)).padStart(3, '0');
+  }
+  return trimmed;
+}
+
+/**
+ * Derive the age category from a birth year.
+ * U-categories are based on the age reached in the race year
+ * (e.g. U10 = 8-9 years), masters start at 30 (FIS masters).
+ */
+export function ageCategoryFromBirthYear(
+  birthYear: number,
+  raceYear: number = new Date().getFullYear(),
+): AgeCategory | undefined {
+  const age = raceYear - birthYear;
+  if (age < 0) return undefined;
+  if (age < 6) return 'U6';
+  if (age < 8) return 'U8';
+  if (age < 10) return 'U10';
+  if (age < 12) return 'U12';
+  if (age < 14) return 'U14';
+  if (age < 16) return 'U16';
+  if (age >= 30) return 'masters';
+  return undefined;
+}
+
+/**
+ * Parse an age category label ("U10", "u 12", "Masters", "Senioren")
+ */
+export function parseAgeCategory(value: string): AgeCategory | undefined {
+  const trimmed = value.trim();
+  const uMatch = trimmed.match(/^u\s*(\d{1,2})/i);
+  if (uMatch) {
+    const category = `U${uMatch[1]}`;
+    return (VALID_AGE_CATEGORIES as readonly string[]).includes(category)
+      ? (category as AgeCategory)
+      : undefined;
+  }
+  if (/master|senior/i.test(trimmed)) return 'masters';
+  return undefined;
+}
+
+/**
+ * Parse a gender label ("M", "W", "Damen", "Herren", "F", ...)
+ */
+export function parseGender(value: string): Gender | undefined {
+  const normalized = normalizeHeader(value);
+  if (MALE_VALUES.has(normalized)) return 'M';
+  if (FEMALE_VALUES.has(normalized)) return 'F';
+  return undefined;
+}
+
+/**
+ * Normalize a header cell for alias lookup
+ */
+function normalizeHeader(cell: string): string {
+  return cell
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Detect the delimiter used in the header line (semicolon, tab or comma)
+ */
+function detectDelimiter(line: string): string {
+  const candidates = [';', '\t', ','];
+  let best = ';';
+  let bestCount = 0;
+  for (const candidate of candidates) {
+    const count = line.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a CSV line respecting double-quoted fields
+ */
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/**
+ * Map header cells to known columns, or null if the row is not a header
+ */
+function mapHeader(cells: string[]): Map<StartListColumn, number> | null {
+  const columns = new Map<StartListColumn, number>();
+  cells.forEach((cell, index) => {
+    const column = HEADER_ALIASES[normalizeHeader(cell)];
+    if (column && !columns.has(column)) {
+      columns.set(column, index);
+    }
+  });
+  return columns.has('bib') && columns.has('lastName') ? columns : null;
+}
+
+/**
+ * Parse start list file content (CSV, semicolon or tab separated).
+ * Files with a header row are mapped by column name (Race Horology
+ * participant exports use "Startnummer;Name;Vorname;Jahrgang;Verein;...").
+ * Files without a header are read as bib, name, club, nation, gender, category.
+ */
+export function parseStartList(
+  content: string,
+  raceYear: number = new Date().getFullYear(),
+): StartListParseResult {
+  const lines = content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+
+  if (lines.length === 0) {
+    return { racers: [], skippedRows: 0 };
+  }
+
+  const delimiter = detectDelimiter(lines[0]!);
+  const headerColumns = mapHeader(splitCSVLine(lines[0]!, delimiter));
+  const columns =
+    headerColumns ??
+    new Map(POSITIONAL_COLUMNS.map((column, index) => [column, index]));
+  const dataLines = headerColumns ? lines.slice(1) : lines;
+
+  const racers: Racer[] = [];
+  const seenBibs = new Set<string>();
+  let skippedRows = 0;
+
+  for (const line of dataLines) {
+    const cells = splitCSVLine(line, delimiter);
+    const cell = (column: StartListColumn): string => {
+      const index = columns.get(column);
+      return index !== undefined ? (cells[index] ?? '') : '';
+    };
+
+    const bib = normalizeBib(cell('bib'));
+    const lastName = cell('lastName');
+    const firstName = cell('firstName');
+    const name = [lastName, firstName]
+      .filter(Boolean)
+      .join(' ')
+      .slice(0, MAX_RACER_NAME_LENGTH);
+
+    if (
+      !bib ||
+      bib.length > MAX_BIB_LENGTH ||
+      !name ||
+      seenBibs.has(bib) ||
+      racers.length >= MAX_START_LIST_SIZE
+    ) {
+      skippedRows++;
+      continue;
+    }
+    seenBibs.add(bib);
+
+    const racer: Racer = { bib, name };
+
+    const club = cell('club').slice(0, MAX_CLUB_LENGTH);
+    if (club) racer.club = club;
+
+    const nation = cell('nation').toUpperCase().slice(0, MAX_NATION_LENGTH);
+    if (nation) racer.nation = nation;
+
+    const gender = parseGender(cell('gender'));
+    if (gender) racer.gender = gender;
+
+    const birthYear = parseInt(cell('birthYear'), 10);
+    if (birthYear >= 1900 && birthYear <= 2100) {
+      racer.birthYear = birthYear;
+    }
+
+    const ageCategory =
+      parseAgeCategory(cell('category')) ??
+      (racer.birthYear
+        ? ageCategoryFromBirthYear(racer.birthYear, raceYear)
+        : undefined);
+    if (ageCategory) racer.ageCategory = ageCategory;
+
+    racers.push(racer);
+  }
+
+  return { racers, skippedRows };
+}
+
+/**
+ * Build a bib → racer lookup map
+ */
+export function buildRacerLookup(racers: Racer[]): Map<string, Racer> {
+  const lookup = new Map<string, Racer>();
+  for (const racer of racers) {
+    lookup.set(normalizeBib(racer.bib), racer);
+  }
+  return lookup;
+}
+
+/**
+ * Find the racer for a bib (tolerates differences in zero-padding)
+ */
+export function findRacer(
+  lookup: Map<string, Racer>,
+  bib: string,
+): Racer | undefined {
+  if (!bib) return undefined;
+  return lookup.get(normalizeBib(bib));
+}
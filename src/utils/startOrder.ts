@@ -0,0 +1,150 @@
+/**
+ * Start Order Utilities
+ * Plans start orders (seeded draw for the first run, reversed results for
+ * later runs) and the planned start time of each racer
+ */
+
+import type { Racer, StartOrder } from '../types';
+import { isValidRun, MAX_START_LIST_SIZE, type RunResult } from './validation';
+
+export const DEFAULT_START_INTERVAL = 60; // Seconds between starts
+export const MAX_START_INTERVAL = 600;
+export const DEFAULT_SEED_GROUP_SIZE = 15; // First seed group (FIS: top 15)
+export const DEFAULT_REVERSE_COUNT = 30; // Fastest racers starting reversed
+
+/** A racer still to start, with the planned start time */
+export interface UpcomingStart {
+  bib: string;
+  position: number; // 1-based position in the start order
+  plannedTime: number; // Epoch ms
+}
+
+/**
+ * Check that a stored value is a valid start order
+ */
+export function isValidStartOrder(data: unknown): data is StartOrder {
+  if (!data || typeof data !== 'object') return false;
+  const order = data as Record<string, unknown>;
+  return (
+    isValidRun(order.run) &&
+    Array.isArray(order.bibs) &&
+    order.bibs.length <= MAX_START_LIST_SIZE &&
+    order.bibs.every((bib) => typeof bib === 'string' && bib.length > 0) &&
+    typeof order.firstStart === 'number' &&
+    Number.isFinite(order.firstStart) &&
+    typeof order.intervalSeconds === 'number' &&
+    order.intervalSeconds > 0 &&
+    order.intervalSeconds <= MAX_START_INTERVAL
+  );
+}
+
+/**
+ * Compare bibs numerically ("9" before "10"), non-numeric bibs last
+ */
+export function compareBibs(a: string, b: string): number {
+  const numA = Number.parseInt(a, 10);
+  const numB = Number.parseInt(b, 10);
+  if (Number.isNaN(numA) || Number.isNaN(numB)) {
+    return Number.isNaN(numA) === Number.isNaN(numB)
+      ? a.localeCompare(b)
+      : Number.isNaN(numA)
+        ? 1
+        : -1;
+  }
+  return numA - numB || a.localeCompare(b);
+}
+
+/**
+ * Shuffle a copy of the list (Fisher-Yates)
+ */
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result;
+}
+
+/**
+ * Draw a first-run start order from the start list. The list order is the
+ * seeding: racers are split into groups of seedGroupSize and drawn randomly
+ * within their group (0 = one group, a free draw).
+ */
+export function drawStartOrder(
+  racers: Racer[],
+  seedGroupSize: number,
+  random: () => number = Math.random,
+): string[] {
+  const bibs = racers.map((racer) => racer.bib);
+  const groupSize = seedGroupSize > 0 ? seedGroupSize : bibs.length;
+  const order: string[] = [];
+  for (let i = 0; i < bibs.length; i += groupSize) {
+    order.push(...shuffle(bibs.slice(i, i + groupSize), random));
+  }
+  return order;
+}
+
+/**
+ * Start order of a following run from the previous run's results: the
+ * fastest reverseCount racers start in reverse order, the other ranked
+ * racers follow in bib order. Racers without a ranked result (DNF, DSQ,
+ * DNS) do not start.
+ */
+export function reverseStartOrder(
+  results: RunResult[],
+  reverseCount: number,
+): string[] {
+  const ranked = results
+    .filter((result) => result.rank !== null)
+    .sort((a, b) => a.rank! - b.rank! || compareBibs(a.bib, b.bib));
+  const reversed = ranked
+    .slice(0, Math.max(0, reverseCount))
+    .reverse()
+    .map((result) => result.bib);
+  const rest = ranked
+    .slice(Math.max(0, reverseCount))
+    .map((result) => result.bib)
+    .sort(compareBibs);
+  return [...reversed, ...rest];
+}
+
+/**
+ * Planned start time of the racer at a (0-based) index of the start order
+ */
+export function getPlannedStartTime(order: StartOrder, index: number): number {
+  return order.firstStart + index * order.intervalSeconds * 1000;
+}
+
+/**
+ * Next racers of the start order that have not started yet. The schedule is
+ * fixed, so a racer keeps the planned time of their position.
+ */
+export function getUpcomingStarts(
+  order: StartOrder,
+  startedBibs: ReadonlySet<string>,
+  count: number,
+): UpcomingStart[] {
+  const upcoming: UpcomingStart[] = [];
+  for (let i = 0; i < order.bibs.length && upcoming.length < count; i++) {
+    const bib = order.bibs[i]!;
+    if (startedBibs.has(bib)) continue;
+    upcoming.push({
+      bib,
+      position: i + 1,
+      plannedTime: getPlannedStartTime(order, i),
+    });
+  }
+  return upcoming;
+}
+
+/**
+ * Format the time until a planned start as M:SS ("+M:SS" when overdue)
+ */
+export function formatCountdown(ms: number): string {
+  const overdue = ms < 0;
+  const totalSeconds = overdue ? Math.floor(-ms / 1000) : Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return `${overdue ? '+' : ''}${minutes}:${seconds}`;
+}
@@ -150,6 +150,16 @@ export function duplicateBadge(lang: Language): string {
   return `<span class="result-duplicate-badge" title="${escapeAttr(t('multiDeviceDuplicate', lang))}" aria-label="${escapeAttr(t('multiDeviceDuplicate', lang))}">${iconDuplicate()} ${escapeHtml(t('multiDeviceDuplicate', lang))}</span>`;
 }
 
+/**
+ * Manual (hand-timed) entry badge, titled with the official who entered it
+ */
+export function manualTimeBadge(enteredBy: string, lang: Language): string {
+  const title = enteredBy
+    ? t('manualTimeEnteredBy', lang).replace('{name}', enteredBy)
+    : t('manualTime', lang);
+  return `<span class="result-manual-badge" title="${escapeAttr(title)}" aria-label="${escapeAttr(title)}">${escapeHtml(t('manualTimeShort', lang))}</span>`;
+}
+
 /**
  * Fault count badge for result items
  */
@@ -17,6 +17,15 @@ export interface TimestampGpsService {
   getTimestamp(): number | null;
 }
 
+/**
+ * Server clock interface - the subset of ServerClockService methods needed
+ * for timestamp recording.
+ */
+export interface TimestampServerClock {
+  getTimeOffset(): number | null;
+  getUncertainty(): number | null;
+}
+
 /**
  * Parameters for creating a timestamp entry.
  */
@@ -27,6 +36,7 @@ export interface CreateTimestampEntryParams {
   deviceId: string;
   deviceName: string;
   gpsService: TimestampGpsService;
+  serverClock?: TimestampServerClock; // Fallback when GPS has no fix
 }
 
 /**
@@ -35,6 +45,7 @@ export interface CreateTimestampEntryParams {
 export interface CreateTimestampEntryResult {
   entry: Entry;
   timeSource: TimeSource;
+  recordedAt: number; // Local clock (Date.now()) at the tap, for aligning camera frames
 }
 
 /**
@@ -46,17 +57,27 @@ export interface CreateTimestampEntryResult {
 export function createTimestampEntry(
   params: CreateTimestampEntryParams,
 ): CreateTimestampEntryResult {
-  const { bib, point, run, deviceId, deviceName, gpsService } = params;
+  const { bib, point, run, deviceId, deviceName, gpsService, serverClock } =
+    params;
 
-  // Capture timestamp using GPS offset if available
+  // Capture timestamp using the GPS offset if available, else the server
+  // clock offset, else the raw system clock
   const gpsOffset = gpsService.getTimeOffset();
+  const serverOffset =
+    gpsOffset === null ? (serverClock?.getTimeOffset() ?? null) : null;
+  const recordedAt = Date.now();
   let preciseTimestamp: string;
   let timeSource: TimeSource;
+  let timeUncertainty: number | undefined;
   if (gpsOffset !== null) {
-    preciseTimestamp = new Date(Date.now() + gpsOffset).toISOString();
+    preciseTimestamp = new Date(recordedAt + gpsOffset).toISOString();
     timeSource = 'gps';
+  } else if (serverOffset !== null) {
+    preciseTimestamp = new Date(recordedAt + serverOffset).toISOString();
+    timeSource = 'server';
+    timeUncertainty = serverClock?.getUncertainty() ?? undefined;
   } else {
-    preciseTimestamp = new Date().toISOString();
+    preciseTimestamp = new Date(recordedAt).toISOString();
     timeSource = 'system';
   }
   const gpsCoords = gpsService.getCoordinates();
@@ -74,9 +95,68 @@ export function createTimestampEntry(
     gpsCoords,
     timeSource,
     gpsTimestamp: rawGpsTimestamp,
+    ...(timeUncertainty !== undefined && { timeUncertainty }),
   };
 
-  return { entry, timeSource };
+  return { entry, timeSource, recordedAt };
+}
+
+/**
+ * Parameters for creating a manual (hand-timed) entry.
+ */
+export interface CreateManualEntryParams {
+  bib: string;
+  point: TimingPoint;
+  run: Run;
+  time: Date; // Clock time read from the backup hand timing
+  deviceId: string;
+  deviceName: string;
+  enteredBy: string; // Official who typed the time
+}
+
+// HH:MM:SS with optional hundredths (1-3 digits, '.' or ',' separator)
+const MANUAL_TIME_PATTERN = /^(\d{1,2}):(\d{2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+
+/**
+ * Parse a hand-timed clock time (HH:MM:SS.cc) on the day of `baseDate`.
+ * Returns null when the value is not a valid time of day.
+ */
+export function parseManualTime(
+  value: string,
+  baseDate: Date = new Date(),
+): Date | null {
+  const match = MANUAL_TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const seconds = Number(match[3]);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  const ms = Number((match[4] ?? '').padEnd(3, '0'));
+
+  const date = new Date(baseDate);
+  date.setHours(hours, minutes, seconds, ms);
+  return date;
+}
+
+/**
+ * Create an entry from a manually entered clock time (backup hand timing
+ * when a timing device failed). Marked with timeSource 'manual' and the
+ * official who entered it.
+ */
+export function createManualEntry(params: CreateManualEntryParams): Entry {
+  const { bib, point, run, time, deviceId, deviceName, enteredBy } = params;
+  return {
+    id: generateEntryId(deviceId),
+    bib: bib ? bib.padStart(3, '0') : '',
+    point,
+    run,
+    timestamp: time.toISOString(),
+    status: 'ok',
+    deviceId,
+    deviceName,
+    timeSource: 'manual',
+    enteredBy,
+  };
 }
 
 /**
@@ -23,3 +23,62 @@ export function updateButtonGroupState(
     }
   });
 }
+
+/**
+ * Show one button per run in a run selector. Buttons in the markup serve as
+ * templates: those for runs the race does not have are hidden, and missing
+ * runs get a generated copy of the first button (regenerated on every call,
+ * so labels follow language changes).
+ *
+ * @param container - Run selector element
+ * @param selector - CSS selector for the run buttons (e.g., '.run-btn')
+ * @param runs - Run numbers of the race (e.g., [1, 2, 3])
+ * @param getLabel - Label of a generated run button
+ */
+export function renderRunButtons(
+  container: Element | null,
+  selector: string,
+  runs: number[],
+  getLabel: (run: number) => string,
+): void {
+  if (!container) return;
+  container
+    .querySelectorAll(`${selector}[data-generated]`)
+    .forEach((btn) => btn.remove());
+
+  const buttons = Array.from(container.querySelectorAll<HTMLElement>(selector));
+  const template = buttons[0];
+  if (!template) return;
+
+  const existingRuns = new Set<number>();
+  for (const btn of buttons) {
+    const run = Number(btn.getAttribute('data-run'));
+    existingRuns.add(run);
+    btn.hidden = !runs.includes(run);
+  }
+
+  for (const run of runs) {
+    if (existingRuns.has(run)) continue;
+
+    const btn = template.cloneNode(true) as HTMLElement;
+    btn.hidden = false;
+    btn.setAttribute('data-run', String(run));
+    btn.setAttribute('data-generated', '');
+    btn.classList.remove('active');
+    if (btn.getAttribute('role') === 'radio') {
+      btn.setAttribute('aria-checked', 'false');
+    }
+
+    // Drop the template's translation key so updateTranslations keeps the label
+    const labelEl = btn.hasAttribute('data-i18n')
+      ? btn
+      : btn.querySelector<HTMLElement>('[data-i18n]');
+    if (labelEl) {
+      labelEl.removeAttribute('data-i18n');
+      labelEl.textContent = getLabel(run);
+    } else {
+      btn.textContent = getLabel(run);
+    }
+    container.appendChild(btn);
+  }
+}
@@ -1,43 +1,99 @@
 import type {
   DataSchema,
   Entry,
+  EntryVersion,
   FaultEntry,
   FaultType,
   FaultVersion,
-  Run,
+  PenaltyRules,
+  RaceDefinition,
   Settings,
   SyncQueueItem,
 } from '../types';
 import { SCHEMA_VERSION } from '../types';
 import { generateDeviceName } from './id';
 
+// Re-export shared gate coverage types
+export type { GateCoverage, GateSpan } from '../../shared/gateCoverage';
+// Re-export the shared results engine (src/utils/results.ts adds the
+// app-side statistics)
+export {
+  type CombinedResult,
+  computeRaceResults,
+  DEFAULT_PENALTY_OPTIONS,
+  DEFAULT_PENALTY_RULES,
+  type PenaltyRuleTable,
+  type RaceResults,
+  type ResultPenaltyConfig,
+  type ResultPenaltyOptions,
+  type ResultStatus,
+  type RunResult,
+  resolvePenaltyRule,
+} from '../../shared/results';
 // Re-export shared validation functions and constants
 export {
+  DEFAULT_RUN_COUNT,
+  getProtestOutcome,
+  getRuns,
+  getTimingPointOrder,
+  getTimingPoints,
+  isIntermediatePoint,
+  isNewerEntryVersion,
   isValidDeviceId,
   isValidEntry,
+  isValidPenaltyRule,
+  isValidProtest,
   isValidRaceId,
+  isValidRacer,
+  isValidRun,
   MAX_BIB_LENGTH,
+  MAX_CLUB_LENGTH,
   MAX_DEVICE_NAME_LENGTH,
+  MAX_GATE_COUNT,
+  MAX_HOMOLOGATION_LENGTH,
+  MAX_INTERMEDIATE_POINTS,
+  MAX_JURY_MEMBERS,
+  MAX_NATION_LENGTH,
+  MAX_PENALTY_SECONDS,
+  MAX_PROTEST_PHOTOS,
+  MAX_PROTEST_TEXT_LENGTH,
   MAX_RACE_ID_LENGTH,
+  MAX_RACE_NAME_LENGTH,
+  MAX_RACER_NAME_LENGTH,
+  MAX_RUNS,
+  MAX_START_LIST_SIZE,
+  sanitizeCourseGates,
+  sanitizePrimaryDevices,
+  sanitizeProtestDeadlines,
+  VALID_AGE_CATEGORIES,
+  VALID_DISCIPLINES,
   VALID_FAULT_TYPES,
+  VALID_GENDERS,
+  VALID_JURY_ROLES,
   VALID_POINTS,
   VALID_STATUSES,
+  VALID_TIME_SOURCES,
 } from '../../shared/validation';
 
 // Import for local use within this file (re-export above handles external consumers)
 import {
   isValidDeviceId,
   isValidEntry,
+  isValidPenaltyRule,
   isValidRaceId,
+  isValidRun,
+  MAX_DEVICE_NAME_LENGTH,
+  MAX_GATE_COUNT,
+  MAX_HOMOLOGATION_LENGTH,
+  MAX_JURY_MEMBERS,
+  MAX_RACE_NAME_LENGTH,
+  VALID_AGE_CATEGORIES,
+  VALID_DISCIPLINES,
   VALID_FAULT_TYPES,
+  VALID_JURY_ROLES,
+  VALID_STATUSES,
 } from '../../shared/validation';
 
-/**
- * Validate that a run number is a positive integer
- */
-function isValidRun(run: unknown): run is Run {
-  return run === 1 || run === 2;
-}
 const VALID_CHANGE_TYPES = ['create', 'edit', 'restore'] as const;
 
 /**
@@ -215,6 +271,11 @@ export function isValidFaultEntry(fault: unknown): fault is FaultEntry {
     typeof f.deletionApprovedBy !== 'string'
   )
     return false;
+  if (
+    f.reversedByProtestId !== undefined &&
+    typeof f.reversedByProtestId !== 'string'
+  )
+    return false;
 
   // SyncedAt is optional but must be valid number if present
   if (
@@ -264,10 +325,150 @@ export function sanitizeFaultEntry(fault: unknown): FaultEntry | null {
     deletionApprovedBy: f.deletionApprovedBy
       ? sanitizeString(f.deletionApprovedBy, 100)
       : undefined,
+    reversedByProtestId: f.reversedByProtestId
+      ? sanitizeString(f.reversedByProtestId, 150)
+      : undefined,
     versionHistory: sanitizedVersionHistory,
   };
 }
 
+/**
+ * Keep the valid records of an entry's version history, with sanitized
+ * strings (history comes from other devices via the cloud)
+ */
+export function sanitizeEntryVersionHistory(history: unknown): EntryVersion[] {
+  if (!Array.isArray(history)) return [];
+
+  const sanitized: EntryVersion[] = [];
+  for (const item of history) {
+    if (!item || typeof item !== 'object') continue;
+    const v = item as Record<string, unknown>;
+    const data = v.data as Record<string, unknown> | null | undefined;
+    if (
+      typeof v.version !== 'number' ||
+      !Number.isInteger(v.version) ||
+      v.version < 1 ||
+      typeof v.timestamp !== 'string' ||
+      Number.isNaN(Date.parse(v.timestamp)) ||
+      (v.changeType !== 'create' && v.changeType !== 'edit') ||
+      !data ||
+      typeof data !== 'object' ||
+      typeof data.bib !== 'string' ||
+      !(VALID_STATUSES as readonly string[]).includes(data.status as string) ||
+      !isValidRun(data.run)
+    ) {
+      continue;
+    }
+    sanitized.push({
+      version: v.version,
+      timestamp: v.timestamp,
+      editedBy: sanitizeString(v.editedBy, 100),
+      editedByDeviceId: sanitizeString(v.editedByDeviceId, 100),
+      changeType: v.changeType,
+      data: {
+        bib: sanitizeString(data.bib, 10),
+        status: data.status as Entry['status'],
+        run: data.run,
+      },
+    });
+  }
+  return sanitized;
+}
+
+/**
+ * Extract valid per-category penalty rules, dropping unknown categories
+ * and invalid rules
+ */
+export function sanitizePenaltyRules(rules: unknown): PenaltyRules {
+  if (!rules || typeof rules !== 'object' || Array.isArray(rules)) return {};
+
+  const r = rules as Record<string, unknown>;
+  const sanitized: PenaltyRules = {};
+  for (const category of VALID_AGE_CATEGORIES) {
+    const rule = r[category];
+    if (isValidPenaltyRule(rule)) {
+      const { usePenaltyMode, penaltySeconds } = rule as Record<
+        string,
+        unknown
+      >;
+      sanitized[category] = {
+        usePenaltyMode: usePenaltyMode as boolean,
+        penaltySeconds: penaltySeconds as number,
+      };
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * Extract a valid race definition (null when the data is not one), dropping
+ * invalid jury members and over-long texts
+ */
+export function sanitizeRaceDefinition(data: unknown): RaceDefinition | null {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return null;
+
+  const d = data as Record<string, unknown>;
+  if (
+    typeof d.name !== 'string' ||
+    !d.name ||
+    !(VALID_DISCIPLINES as readonly string[]).includes(
+      d.discipline as string,
+    ) ||
+    typeof d.gateCount !== 'number' ||
+    !Number.isInteger(d.gateCount) ||
+    d.gateCount < 1 ||
+    d.gateCount > MAX_GATE_COUNT
+  ) {
+    return null;
+  }
+
+  const jury = Array.isArray(d.jury)
+    ? d.jury
+        .filter(
+          (m): m is { role: string; name: string } =>
+            !!m &&
+            typeof m === 'object' &&
+            (VALID_JURY_ROLES as readonly string[]).includes(m.role) &&
+            typeof m.name === 'string' &&
+            m.name.length > 0,
+        )
+        .slice(0, MAX_JURY_MEMBERS)
+        .map((m) => ({
+          role: m.role as RaceDefinition['jury'][number]['role'],
+          name: m.name.slice(0, MAX_RACE_NAME_LENGTH),
+        }))
+    : [];
+
+  return {
+    name: d.name.slice(0, MAX_RACE_NAME_LENGTH),
+    ...(typeof d.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(d.date)
+      ? { date: d.date }
+      : {}),
+    ...(typeof d.venue === 'string' && d.venue
+      ? { venue: d.venue.slice(0, MAX_RACE_NAME_LENGTH) }
+      : {}),
+    discipline: d.discipline as RaceDefinition['discipline'],
+    gateCount: d.gateCount,
+    ...(typeof d.homologationNumber === 'string' && d.homologationNumber
+      ? {
+          homologationNumber: d.homologationNumber.slice(
+            0,
+            MAX_HOMOLOGATION_LENGTH,
+          ),
+        }
+      : {}),
+    jury,
+    lastUpdated: typeof d.lastUpdated === 'number' ? d.lastUpdated : 0,
+  };
+}
+
+/**
+ * Clamp a gate number to the course (1 to the highest gate)
+ */
+export function clampGate(gate: number, maxGate: number): number {
+  return Math.max(1, Math.min(maxGate, gate));
+}
+
 /**
  * Validate settings object
  */
@@ -363,6 +564,10 @@ export function sanitizeEntry(entry: unknown, deviceId: string): Entry | null {
     syncedAt: e.syncedAt,
     photo: e.photo, // Base64 doesn't need sanitization
     gpsCoords: e.gpsCoords,
+    ...(e.timeSource === 'manual' && {
+      timeSource: 'manual' as const,
+      enteredBy: sanitizeString(e.enteredBy, MAX_DEVICE_NAME_LENGTH),
+    }),
   };
 }
 
@@ -379,6 +584,7 @@ export function migrateSchema(data: unknown, deviceId: string): DataSchema {
     gps: true, // GPS enabled by default for accurate timestamps
     simple: false, // Normal mode is default
     photoCapture: false,
+    photoBurst: false, // Frame buffer costs battery, opt-in
     // Liquid Glass UI settings
     motionEffects: true,
     glassEffects: true,
@@ -428,6 +634,10 @@ export function migrateSchema(data: unknown, deviceId: string): DataSchema {
         typeof s.photoCapture === 'boolean'
           ? s.photoCapture
           : defaultSettings.photoCapture,
+      photoBurst:
+        typeof s.photoBurst === 'boolean'
+          ? s.photoBurst
+          : defaultSettings.photoBurst,
       // Liquid Glass UI settings
       motionEffects:
         typeof s.motionEffects === 'boolean'
@@ -1,4 +1,4 @@
-import { gpsService } from '../services';
+import { gpsService, serverClockService } from '../services';
 import type { AppState } from '../types';
 import { logger } from './logger';
 
@@ -23,6 +23,18 @@ export function applyGpsService(
   }
 }
 
+/**
+ * Keep the server clock offset fresh while timing, as the fallback for
+ * timestamps without a GPS fix. Needs no permission, so it starts on load.
+ */
+export function applyServerClockService(state: Readonly<AppState>): void {
+  if (state.currentView === 'timer') {
+    serverClockService.start();
+  } else {
+    serverClockService.stop();
+  }
+}
+
 /**
  * Apply camera service behavior based on current view and settings.
  * Lazy-loads camera module — only needed when photo capture is enabled.
@@ -34,6 +46,7 @@ export async function applyCameraService(
 
   if (isTimerView && state.settings.photoCapture) {
     const { cameraService } = await import('../services/camera');
+    cameraService.setBurstMode(state.settings.photoBurst);
     void cameraService.initialize().catch((error) => {
       logger.error('[Camera] Failed to initialize from view service:', error);
     });
@@ -53,5 +66,6 @@ export function applyViewServices(
   options?: { skipStart?: boolean },
 ): void {
   applyGpsService(state, options);
+  applyServerClockService(state);
   void applyCameraService(state);
 }
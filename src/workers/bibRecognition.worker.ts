@@ -0,0 +1,49 @@
+/**
+ * Bib Recognition Worker
+ * Decodes a captured photo and reads bib numbers from it off the main thread
+ */
+
+import { type BibCandidate, recognizeBibs } from '../utils/bibOcr';
+
+// Photos are scaled down to this width before recognition (enough for bibs
+// filling a few percent of the frame, and keeps recognition well under 1s)
+const MAX_RECOGNITION_WIDTH = 640;
+
+export interface BibRecognitionRequest {
+  id: number;
+  photo: string; // Base64 JPEG
+}
+
+export interface BibRecognitionResponse {
+  id: number;
+  candidates: BibCandidate[];
+}
+
+async function recognizePhoto(photo: string): Promise<BibCandidate[]> {
+  const bytes = Uint8Array.from(atob(photo), (c) => c.charCodeAt(0));
+  const bitmap = await createImageBitmap(
+    new Blob([bytes], { type: 'image/jpeg' }),
+  );
+  try {
+    const scale = Math.min(1, MAX_RECOGNITION_WIDTH / bitmap.width);
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return [];
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return recognizeBibs(ctx.getImageData(0, 0, width, height));
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = (event: MessageEvent<BibRecognitionRequest>) => {
+  const { id, photo } = event.data;
+  recognizePhoto(photo)
+    .catch(() => [])
+    .then((candidates) => {
+      const response: BibRecognitionResponse = { id, candidates };
+      self.postMessage(response);
+    });
+};
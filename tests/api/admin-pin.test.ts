@@ -22,6 +22,8 @@ vi.mock('../../api/lib/redis.js', () => ({
   hasRedisError: vi.fn(() => false),
   CLIENT_PIN_KEY: 'admin:clientPin',
   CHIEF_JUDGE_PIN_KEY: 'admin:chiefJudgePin',
+  getRaceClientPinKey: (raceId: string) => `race:${raceId}:clientPin`,
+  getRaceChiefJudgePinKey: (raceId: string) => `race:${raceId}:chiefJudgePin`,
 }));
 
 vi.mock('../../api/lib/jwt.js', () => ({
@@ -223,6 +225,25 @@ describe('API: /api/v1/admin/pin', () => {
       });
     });
 
+    it('should return race PIN status when raceId is given', async () => {
+      mockRedisClient.get.mockImplementation((key: string) => {
+        if (key === 'race:race-a:clientPin') return Promise.resolve('hash');
+        return Promise.resolve(null);
+      });
+      const req = {
+        method: 'GET',
+        query: { raceId: 'RACE-A' },
+        headers: { authorization: 'Bearer token' },
+        body: null,
+      } as any;
+      await handler(req, mockRes as any);
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        hasPin: false,
+        hasChiefPin: false,
+        raceHasPin: true,
+      });
+    });
+
     it('should return both flags true when both PINs set', async () => {
       mockRedisClient.get.mockResolvedValue('some-hash');
       const req = {
@@ -439,6 +460,155 @@ describe('API: /api/v1/admin/pin', () => {
     });
   });
 
+  // ─── POST: Race PINs ───
+
+  describe('POST /api/v1/admin/pin (race PINs)', () => {
+    function racePinReq(body: Record<string, unknown>) {
+      return {
+        method: 'POST',
+        headers: { authorization: 'Bearer token' },
+        body,
+      } as any;
+    }
+
+    beforeEach(() => {
+      vi.mocked(validateAuth).mockResolvedValue({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge' },
+      });
+    });
+
+    it('should set race PINs on a race without PINs', async () => {
+      await handler(
+        racePinReq({ raceId: 'Race-A', newPin: '1111', newChiefPin: '2222' }),
+        mockRes as any,
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:race-a:clientPin',
+        'hashed:1111',
+        'EX',
+        expect.any(Number),
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:race-a:chiefJudgePin',
+        'hashed:2222',
+        'EX',
+        expect.any(Number),
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        raceId: 'race-a',
+      });
+    });
+
+    it('should reject changes with a token not scoped to the race', async () => {
+      mockRedisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'race:race-a:clientPin' ? 'hashed:1111' : null),
+      );
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '3333', newChiefPin: '4444' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('token for this race'),
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should allow changes with a Chief Judge token for the race', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge', raceId: 'race-a' },
+      });
+      mockRedisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'race:race-a:clientPin' ? 'hashed:1111' : null),
+      );
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '3333', newChiefPin: '4444' }),
+        mockRes as any,
+      );
+      expect(sendSuccess).toHaveBeenCalled();
+    });
+
+    it('should reject tokens scoped to another race', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge', raceId: 'race-b' },
+      });
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '3333', newChiefPin: '4444' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+      );
+      expect(mockRedisClient.get).not.toHaveBeenCalledWith(
+        'race:race-a:clientPin',
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should require a global token for the first race PINs', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge', raceId: 'race-a' },
+      });
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '3333', newChiefPin: '4444' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('global Chief Judge token'),
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should require both PINs in the 4-digit format', async () => {
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '1111' }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'newPin and newChiefPin are required',
+      );
+
+      await handler(
+        racePinReq({ raceId: 'race-a', newPin: '1111', newChiefPin: '22' }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'PINs must be exactly 4 digits',
+      );
+    });
+
+    it('should reject invalid race IDs', async () => {
+      await handler(
+        racePinReq({
+          raceId: 'bad race!',
+          newPin: '1111',
+          newChiefPin: '2222',
+        }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid raceId format',
+      );
+    });
+  });
+
   // ─── Error Handling ───
 
   describe('Error Handling', () => {
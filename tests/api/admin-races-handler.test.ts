@@ -0,0 +1,183 @@
+/**
+ * API Tests - Admin Races Endpoint (api/v1/admin/races.ts)
+ *
+ * Tests DELETE (single race deletion, chiefJudge only).
+ * Covers: role enforcement, race-scoped tokens, tombstone, deleted keys.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  exists: vi.fn().mockResolvedValue(1),
+  scan: vi.fn().mockResolvedValue(['0', []]),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/redis.js')>()),
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { validateAuth } from '../../api/lib/jwt.js';
+import { sendError, sendSuccess } from '../../api/lib/response.js';
+import handler from '../../api/v1/admin/races';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(method: string, query: Record<string, any> = {}) {
+  return { method, query, body: null, headers: {} } as any;
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/admin/races', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.exists.mockResolvedValue(1);
+    vi.mocked(validateAuth).mockResolvedValue({
+      valid: true,
+      method: 'jwt',
+      payload: { role: 'chiefJudge' },
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should reject non-chiefJudge roles with 403', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'timer' },
+      });
+
+      await handler(makeReq('DELETE', { raceId: 'race1' }), mockRes as any);
+
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Race deletion requires Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.del).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 when the race does not exist', async () => {
+      mockRedisClient.exists.mockResolvedValue(0);
+
+      await handler(makeReq('DELETE', { raceId: 'race1' }), mockRes as any);
+
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Race not found',
+        404,
+      );
+      expect(mockRedisClient.del).not.toHaveBeenCalled();
+    });
+
+    it('should set a tombstone and delete all race keys', async () => {
+      await handler(makeReq('DELETE', { raceId: 'race1' }), mockRes as any);
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:race1:deleted',
+        expect.any(String),
+        'EX',
+        expect.any(Number),
+      );
+      const deletedKeys = mockRedisClient.del.mock.calls.flat();
+      expect(deletedKeys).toEqual(
+        expect.arrayContaining([
+          'race:race1',
+          'race:race1:devices',
+          'race:race1:device_clocks',
+          'race:race1:penalties',
+          'race:race1:clientPin',
+          'race:race1:chiefJudgePin',
+        ]),
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        raceId: 'race1',
+      });
+    });
+
+    it('should also delete leftover keys under the original casing', async () => {
+      await handler(makeReq('DELETE', { raceId: 'Race1' }), mockRes as any);
+
+      const deletedKeys = mockRedisClient.del.mock.calls.flat();
+      expect(deletedKeys).toEqual(
+        expect.arrayContaining([
+          'race:Race1:devices',
+          'race:Race1:device_clocks',
+          'race:race1:devices',
+          'race:race1:device_clocks',
+        ]),
+      );
+    });
+  });
+});
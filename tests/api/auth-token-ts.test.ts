@@ -3,7 +3,8 @@
  *
  * Tests the actual handler in api/v1/auth/token.ts
  * Covers: POST PIN exchange, role-based tokens, rate limiting,
- * chief judge PIN, legacy hash migration, CORS preflight, error paths
+ * chief judge PIN, race-scoped PINs, legacy hash migration, CORS preflight,
+ * error paths
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
@@ -15,6 +16,7 @@ import { beforeEach, describe, expect, it, vi } from 'vitest';
 const mockRedisClient = {
   get: vi.fn(),
   set: vi.fn(),
+  expire: vi.fn(),
   multi: vi.fn(),
   on: vi.fn(),
 };
@@ -24,6 +26,8 @@ vi.mock('../../api/lib/redis.js', () => ({
   hasRedisError: vi.fn(() => false),
   CLIENT_PIN_KEY: 'admin:clientPin',
   CHIEF_JUDGE_PIN_KEY: 'admin:chiefJudgePin',
+  getRaceClientPinKey: (raceId: string) => `race:${raceId}:clientPin`,
+  getRaceChiefJudgePinKey: (raceId: string) => `race:${raceId}:chiefJudgePin`,
 }));
 
 vi.mock('../../api/lib/jwt.js', () => ({
@@ -455,6 +459,33 @@ describe('API: /api/v1/auth/token (TypeScript handler)', () => {
       );
     });
 
+    it('should name the requesting device in the token', async () => {
+      mockRedisClient.get.mockResolvedValue('hashed:1234');
+      const req = {
+        method: 'POST',
+        headers: {},
+        body: { pin: '1234', deviceId: 'dev_abc' },
+      } as any;
+      await handler(req, mockRes as any);
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'timer', deviceId: 'dev_abc' }),
+      );
+    });
+
+    it('should reject an invalid device ID', async () => {
+      const req = {
+        method: 'POST',
+        headers: {},
+        body: { pin: '1234', deviceId: 'not-a-device' },
+      } as any;
+      await handler(req, mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid deviceId format',
+      );
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
     it('should accept gateJudge role', async () => {
       mockRedisClient.get.mockResolvedValue('hashed:1234');
       const req = {
@@ -554,6 +585,80 @@ describe('API: /api/v1/auth/token (TypeScript handler)', () => {
     });
   });
 
+  // ─── Race PINs ───
+
+  describe('Race PINs', () => {
+    function raceReq(body: Record<string, unknown>) {
+      return { method: 'POST', headers: {}, body } as any;
+    }
+
+    it('should issue a race-scoped token when the race has its own PIN', async () => {
+      mockRedisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'race:race-a:clientPin' ? 'hashed:1111' : null),
+      );
+
+      await handler(raceReq({ pin: '1111', raceId: 'RACE-A' }), mockRes as any);
+
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'timer', raceId: 'race-a' }),
+      );
+      expect(mockRedisClient.expire).toHaveBeenCalledWith(
+        'race:race-a:clientPin',
+        expect.any(Number),
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ raceId: 'race-a' }),
+      );
+    });
+
+    it('should verify the race Chief Judge PIN for the chiefJudge role', async () => {
+      mockRedisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(
+          key === 'race:race-a:chiefJudgePin' ? 'hashed:2222' : null,
+        ),
+      );
+
+      await handler(
+        raceReq({ pin: '1111', role: 'chiefJudge', raceId: 'race-a' }),
+        mockRes as any,
+      );
+
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid Chief Judge PIN',
+        401,
+      );
+      expect(generateToken).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the global PIN when the race has no PINs', async () => {
+      mockRedisClient.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'admin:clientPin' ? 'hashed:1234' : null),
+      );
+
+      await handler(raceReq({ pin: '1234', raceId: 'race-b' }), mockRes as any);
+
+      expect(generateToken).toHaveBeenCalledWith(
+        expect.not.objectContaining({ raceId: expect.anything() }),
+      );
+      expect(sendSuccess).toHaveBeenCalled();
+    });
+
+    it('should reject an invalid raceId before rate limiting', async () => {
+      await handler(
+        raceReq({ pin: '1234', raceId: 'bad race!' }),
+        mockRes as any,
+      );
+
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid raceId format',
+      );
+      expect(mockRedisClient.multi).not.toHaveBeenCalled();
+    });
+  });
+
   // ─── Error Handling ───
 
   describe('Error Handling', () => {
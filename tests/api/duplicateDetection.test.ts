@@ -0,0 +1,73 @@
+/**
+ * Tests for api/lib/duplicateDetection.ts
+ * Covers: same bib/point/run from another device, and which pairs the
+ * primary device of a point exempts
+ */
+
+import { describe, expect, it } from 'vitest';
+import { detectCrossDeviceDuplicate } from '../../api/lib/duplicateDetection.js';
+import type { RaceEntry } from '../../api/lib/syncTypes.js';
+
+function entry(overrides: Partial<RaceEntry> = {}): RaceEntry {
+  return {
+    id: 'e1',
+    bib: '042',
+    point: 'F',
+    run: 1,
+    timestamp: '2024-01-15T10:00:00.000Z',
+    deviceId: 'dev_a',
+    deviceName: 'Finish A',
+    ...overrides,
+  };
+}
+
+describe('detectCrossDeviceDuplicate', () => {
+  it('should report the same bib, point and run from another device', () => {
+    expect(
+      detectCrossDeviceDuplicate([entry()], entry({ id: 'e2' }), 'dev_b'),
+    ).toEqual({
+      bib: '042',
+      point: 'F',
+      run: 1,
+      deviceName: 'Finish A',
+      timestamp: '2024-01-15T10:00:00.000Z',
+    });
+  });
+
+  it('should ignore the own device, other points and other runs', () => {
+    const stored = [entry(), entry({ point: 'S' }), entry({ run: 2 })];
+    expect(detectCrossDeviceDuplicate(stored, entry(), 'dev_a')).toBeNull();
+    expect(
+      detectCrossDeviceDuplicate([entry({ point: 'S' })], entry(), 'dev_b'),
+    ).toBeNull();
+    expect(
+      detectCrossDeviceDuplicate([entry({ run: 2 })], entry(), 'dev_b'),
+    ).toBeNull();
+  });
+
+  it('should not report the primary device and a backup', () => {
+    const primaryDevices = { F: 'dev_a' };
+    expect(
+      detectCrossDeviceDuplicate([entry()], entry(), 'dev_b', primaryDevices),
+    ).toBeNull();
+    expect(
+      detectCrossDeviceDuplicate(
+        [entry({ deviceId: 'dev_b' })],
+        entry(),
+        'dev_a',
+        primaryDevices,
+      ),
+    ).toBeNull();
+  });
+
+  it('should still report two backups of a point with a primary', () => {
+    expect(
+      detectCrossDeviceDuplicate(
+        [entry({ deviceId: 'dev_b', deviceName: 'Finish B' })],
+        entry(),
+        'dev_c',
+        { F: 'dev_a' },
+      ),
+    ).toMatchObject({ deviceName: 'Finish B' });
+  });
+});
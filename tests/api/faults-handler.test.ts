@@ -16,6 +16,11 @@ const mockMultiResult = {
   incr: vi.fn().mockReturnThis(),
   expire: vi.fn().mockReturnThis(),
   set: vi.fn().mockReturnThis(),
+  hset: vi.fn().mockReturnThis(),
+  hsetnx: vi.fn().mockReturnThis(),
+  hdel: vi.fn().mockReturnThis(),
+  zadd: vi.fn().mockReturnThis(),
+  del: vi.fn().mockReturnThis(),
   exec: vi.fn().mockResolvedValue([[null, 1]]),
 };
 
@@ -26,12 +31,23 @@ const mockRedisClient = {
   hset: vi.fn().mockResolvedValue(1),
   hgetall: vi.fn().mockResolvedValue({}),
   hdel: vi.fn().mockResolvedValue(1),
+  hget: vi.fn().mockResolvedValue(null),
+  hexists: vi.fn().mockResolvedValue(0),
+  hlen: vi.fn().mockResolvedValue(0),
+  hsetnx: vi.fn().mockResolvedValue(1),
+  hvals: vi.fn().mockResolvedValue([]),
+  hmget: vi.fn().mockResolvedValue([]),
+  hkeys: vi.fn().mockResolvedValue([]),
+  zrange: vi.fn().mockResolvedValue([]),
+  zrangebyscore: vi.fn().mockResolvedValue([]),
+  exists: vi.fn().mockResolvedValue(0),
   smembers: vi.fn().mockResolvedValue([]),
   sadd: vi.fn().mockResolvedValue(1),
   multi: vi.fn(() => mockMultiResult),
   watch: vi.fn().mockResolvedValue('OK'),
   unwatch: vi.fn().mockResolvedValue('OK'),
   expire: vi.fn().mockResolvedValue(1),
+  publish: vi.fn().mockResolvedValue(0),
   on: vi.fn(),
 };
 
@@ -39,6 +55,8 @@ vi.mock('../../api/lib/redis.js', () => ({
   getRedis: vi.fn(() => mockRedisClient),
   hasRedisError: vi.fn(() => false),
   CLIENT_PIN_KEY: 'admin:clientPin',
+  getRaceClientPinKey: (raceId: string) => `race:${raceId}:clientPin`,
+  getRaceChiefJudgePinKey: (raceId: string) => `race:${raceId}:chiefJudgePin`,
 }));
 
 vi.mock('../../api/lib/jwt.js', () => ({
@@ -47,9 +65,11 @@ vi.mock('../../api/lib/jwt.js', () => ({
     method: 'jwt',
     payload: { role: 'timer' },
   }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
 }));
 
-vi.mock('../../api/lib/validation.js', () => ({
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
   isValidRaceId: vi.fn(
     (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
   ),
@@ -62,6 +82,13 @@ vi.mock('../../api/lib/validation.js', () => ({
   VALID_FAULT_TYPES: ['MG', 'STR', 'BR'],
   MAX_DEVICE_NAME_LENGTH: 100,
   isValidDeviceId: vi.fn(() => true),
+  isValidRun: vi.fn(
+    (run: unknown, runCount = 9) =>
+      typeof run === 'number' &&
+      Number.isInteger(run) &&
+      run >= 1 &&
+      run <= runCount,
+  ),
 }));
 
 vi.mock('../../api/lib/atomicOps.js', () => ({
@@ -132,7 +159,7 @@ vi.mock('../../api/lib/apiLogger.js', () => ({
   getRequestId: vi.fn(() => 'test-req-id'),
 }));
 
-import { validateAuth } from '../../api/lib/jwt.js';
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
 import { getRedis, hasRedisError } from '../../api/lib/redis.js';
 import {
   sendAuthRequired,
@@ -300,6 +327,47 @@ describe('API: /api/v1/faults', () => {
         false,
       );
     });
+
+    it('should check race access with the normalized raceId', async () => {
+      await handler(makeReq('GET', { raceId: 'RACE-A' }), mockRes as any);
+      expect(authorizeRaceAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'jwt' }),
+        mockRedisClient,
+        'race-a',
+      );
+    });
+
+    it('should reject tokens not valid for the race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(makeReq('POST', { raceId: 'race-a' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should flag when the race PIN is required', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'This race requires its race PIN. Please re-authenticate.',
+        status: 401,
+        racePinRequired: true,
+      });
+      await handler(makeReq('GET', { raceId: 'race-a' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('race PIN'),
+        401,
+        { racePinRequired: true },
+      );
+    });
   });
 
   // ─── GET: Fetch Faults ───
@@ -367,6 +435,57 @@ describe('API: /api/v1/faults', () => {
       );
     });
 
+    it('should report gate gaps and overlaps for the race gate count', async () => {
+      const now = Date.now();
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:definition'
+          ? JSON.stringify({ name: 'Cup', discipline: 'GS', gateCount: 30 })
+          : null,
+      );
+      // Drop queued one-time values left by earlier tests
+      mockRedisClient.hgetall.mockReset();
+      mockRedisClient.hgetall.mockImplementation(async (key: string) =>
+        key === 'race:test:gate_assignments'
+          ? {
+              'dev-1': JSON.stringify({
+                deviceName: 'Top',
+                gateStart: 1,
+                gateEnd: 12,
+                lastSeen: now,
+              }),
+              'dev-2': JSON.stringify({
+                deviceName: 'Middle',
+                gateStart: 10,
+                gateEnd: 20,
+                lastSeen: now,
+              }),
+            }
+          : {},
+      );
+
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          gateCoverage: {
+            gateCount: 30,
+            gaps: [{ gateStart: 21, gateEnd: 30 }],
+            overlaps: [
+              { gateStart: 10, gateEnd: 12, deviceIds: ['dev-1', 'dev-2'] },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should not report coverage without a race definition', async () => {
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ gateCoverage: null }),
+      );
+    });
+
     it('should update gate assignment from query params', async () => {
       await handler(
         makeReq('GET', {
@@ -461,7 +580,7 @@ describe('API: /api/v1/faults', () => {
     });
 
     it('should return 400 for invalid run number', async () => {
-      const fault = validFault({ run: 3 });
+      const fault = validFault({ run: 10 });
       await handler(
         makeReq('POST', { raceId: 'test' }, { fault }),
         mockRes as any,
@@ -472,6 +591,36 @@ describe('API: /api/v1/faults', () => {
       );
     });
 
+    it('should return 400 for a run beyond the race run count', async () => {
+      const fault = validFault({ run: 3 });
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { fault }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid fault: run must be between 1 and 2',
+      );
+    });
+
+    it('should accept later runs when the race config has them', async () => {
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:config'
+          ? JSON.stringify({ intermediatePoints: 0, runCount: 3 })
+          : null,
+      );
+      const fault = validFault({ run: 3 });
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { fault }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true }),
+      );
+    });
+
     it('should return 400 for invalid gate range', async () => {
       const fault = validFault({ gateRange: [5] });
       await handler(
@@ -526,6 +675,23 @@ describe('API: /api/v1/faults', () => {
       );
     });
 
+    it('should publish a fault event for live stream subscribers', async () => {
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'TEST' },
+          { fault: validFault(), deviceId: 'dev1', deviceName: 'iPad' },
+        ),
+        mockRes as any,
+      );
+      expect(mockRedisClient.publish).toHaveBeenCalledWith(
+        'race:test:events',
+        expect.any(String),
+      );
+      const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+      expect(event).toMatchObject({ type: 'fault', deviceId: 'dev1' });
+    });
+
     it('should accept fault with voice notes', async () => {
       const fault = validFault({
         notes: 'Fall at gate 5',
@@ -562,6 +728,36 @@ describe('API: /api/v1/faults', () => {
       );
     });
 
+    it('should keep a fault reversed by an upheld protest', async () => {
+      mockRedisClient.hexists.mockResolvedValueOnce(1);
+      mockRedisClient.hget.mockResolvedValueOnce(
+        JSON.stringify({
+          ...validFault(),
+          deviceId: 'dev1',
+          currentVersion: 2,
+          markedForDeletion: true,
+          reversedByProtestId: 'protest_1',
+        }),
+      );
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            fault: validFault({ currentVersion: 3, markedForDeletion: false }),
+            deviceId: 'dev1',
+          },
+        ),
+        mockRes as any,
+      );
+      expect(mockRedisClient.unwatch).toHaveBeenCalled();
+      expect(mockMultiResult.hset).not.toHaveBeenCalledWith(
+        'race:test:fault_items',
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
     it('should update gate assignment when provided in body', async () => {
       const fault = validFault();
       await handler(
@@ -724,6 +920,56 @@ describe('API: /api/v1/faults', () => {
       );
     });
 
+    it('should return 409 for a fault reversed by an upheld protest', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge' },
+      });
+      mockRedisClient.hmget.mockResolvedValueOnce([
+        JSON.stringify({
+          id: 'fault-1',
+          deviceId: 'dev1',
+          bib: '042',
+          reversedByProtestId: 'protest-1',
+        }),
+      ]);
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { faultId: 'fault-1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Fault was reversed by a jury decision and cannot be deleted',
+        409,
+      );
+      expect(mockMultiResult.hdel).not.toHaveBeenCalled();
+      expect(mockRedisClient.sadd).not.toHaveBeenCalled();
+      expect(mockRedisClient.publish).not.toHaveBeenCalled();
+    });
+
+    it('should publish a fault event on deletion', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge' },
+      });
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { faultId: 'fault-1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+      expect(event).toMatchObject({ type: 'fault', id: 'fault-1' });
+    });
+
     it('should track deleted fault in Redis set', async () => {
       vi.mocked(validateAuth).mockResolvedValueOnce({
         valid: true,
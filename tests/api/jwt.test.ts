@@ -13,6 +13,7 @@ const {
   verifyToken,
   extractToken,
   validateAuth,
+  authorizeRaceAccess,
   validateJwtConfig,
   hashPin,
   verifyPin,
@@ -223,6 +224,66 @@ describe('jwt.ts — direct unit tests', () => {
     });
   });
 
+  describe('authorizeRaceAccess', () => {
+    let mockRedis: { get: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      mockRedis = { get: vi.fn().mockResolvedValue(null) };
+    });
+
+    it('should allow a race-scoped token for its own race', async () => {
+      const result = await authorizeRaceAccess(
+        { valid: true, method: 'jwt', payload: { type: 'x', raceId: 'a' } },
+        mockRedis as any,
+        'a',
+      );
+      expect(result.allowed).toBe(true);
+      expect(mockRedis.get).not.toHaveBeenCalled();
+    });
+
+    it('should reject a race-scoped token for another race', async () => {
+      const result = await authorizeRaceAccess(
+        { valid: true, method: 'jwt', payload: { type: 'x', raceId: 'a' } },
+        mockRedis as any,
+        'b',
+      );
+      expect(result).toMatchObject({ allowed: false, status: 403 });
+    });
+
+    it('should allow global tokens and no-auth reads for races without PINs', async () => {
+      const globalToken = await authorizeRaceAccess(
+        { valid: true, method: 'jwt', payload: { type: 'x' } },
+        mockRedis as any,
+        'a',
+      );
+      const noAuth = await authorizeRaceAccess(
+        { valid: true, method: 'none' },
+        mockRedis as any,
+        'a',
+      );
+      expect(globalToken.allowed).toBe(true);
+      expect(noAuth.allowed).toBe(true);
+      expect(mockRedis.get).toHaveBeenCalledWith('race:a:clientPin');
+      expect(mockRedis.get).toHaveBeenCalledWith('race:a:chiefJudgePin');
+    });
+
+    it('should require the race PIN when the race has its own PINs', async () => {
+      mockRedis.get.mockImplementation((key: string) =>
+        Promise.resolve(key === 'race:a:clientPin' ? 'salt:hash' : null),
+      );
+      const result = await authorizeRaceAccess(
+        { valid: true, method: 'jwt', payload: { type: 'x' } },
+        mockRedis as any,
+        'a',
+      );
+      expect(result).toMatchObject({
+        allowed: false,
+        status: 401,
+        racePinRequired: true,
+      });
+    });
+  });
+
   describe('hashPin', () => {
     it('should return salt:hash format', async () => {
       const hash = await hashPin('1234');
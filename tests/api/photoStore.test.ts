@@ -0,0 +1,244 @@
+/**
+ * Tests for api/lib/photoStore.ts
+ * Covers: format checks, thumbnail creation, storing, lazy thumbnails,
+ * deletion and photo stats
+ */
+
+import sharp from 'sharp';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  createThumbnail,
+  deletePhoto,
+  getPhotoStats,
+  isAllowedPhoto,
+  loadPhoto,
+  savePhoto,
+  THUMBNAIL_SIZE,
+} from '../../api/lib/photoStore.js';
+
+/**
+ * Hash-backed Redis with the commands the photo store uses
+ */
+function createFakeRedis() {
+  const hashes = new Map<string, Map<string, string>>();
+  const zadds: unknown[][] = [];
+  const hash = (key: string) => {
+    if (!hashes.has(key)) hashes.set(key, new Map());
+    return hashes.get(key)!;
+  };
+
+  const commands: Record<string, (...args: any[]) => Promise<unknown>> = {
+    hget: async (key: string, field: string) => hash(key).get(field) ?? null,
+    hset: async (key: string, field: string, value: string) => {
+      hash(key).set(field, value);
+      return 1;
+    },
+    hdel: async (key: string, field: string) =>
+      hash(key).delete(field) ? 1 : 0,
+    hkeys: async (key: string) => [...hash(key).keys()],
+    hstrlen: async (key: string, field: string) =>
+      hash(key).get(field)?.length ?? 0,
+    zadd: async (...args: unknown[]) => {
+      zadds.push(args);
+      return 1;
+    },
+    expire: async () => 1,
+  };
+
+  const client = {
+    ...commands,
+    multi: () => {
+      const queued: [string, unknown[]][] = [];
+      const multi: Record<string, unknown> = {
+        exec: async () => {
+          const results: [null, unknown][] = [];
+          for (const [name, args] of queued) {
+            results.push([null, await commands[name]!(...args)]);
+          }
+          return results;
+        },
+      };
+      for (const name of Object.keys(commands)) {
+        multi[name] = (...args: unknown[]) => {
+          queued.push([name, args]);
+          return multi;
+        };
+      }
+      return multi;
+    },
+  };
+
+  return { client: client as any, hashes, zadds };
+}
+
+async function imageSize(dataUrl: string) {
+  const buffer = Buffer.from(dataUrl.split(',')[1]!, 'base64');
+  const { width, height, format } = await sharp(buffer).metadata();
+  return { width, height, format };
+}
+
+describe('photoStore', () => {
+  let photo: string;
+  let redis: ReturnType<typeof createFakeRedis>;
+
+  beforeAll(async () => {
+    const png = await sharp({
+      create: {
+        width: 640,
+        height: 480,
+        channels: 3,
+        background: { r: 200, g: 30, b: 30 },
+      },
+    })
+      .png()
+      .toBuffer();
+    photo = `data:image/png;base64,${png.toString('base64')}`;
+  });
+
+  beforeEach(() => {
+    redis = createFakeRedis();
+  });
+
+  describe('isAllowedPhoto', () => {
+    it('should accept JPEG, PNG and WebP data URLs only', () => {
+      expect(isAllowedPhoto('data:image/jpeg;base64,abc')).toBe(true);
+      expect(isAllowedPhoto('data:image/webp;base64,abc')).toBe(true);
+      expect(isAllowedPhoto('data:image/svg+xml;base64,abc')).toBe(false);
+      expect(isAllowedPhoto('https://example.com/a.jpg')).toBe(false);
+      expect(isAllowedPhoto(42)).toBe(false);
+    });
+  });
+
+  describe('createThumbnail', () => {
+    it('should scale a photo down to a JPEG thumbnail', async () => {
+      const thumbnail = await createThumbnail(photo);
+
+      expect(thumbnail).toMatch(/^data:image\/jpeg;base64,/);
+      expect(await imageSize(thumbnail!)).toEqual({
+        width: THUMBNAIL_SIZE,
+        height: 120,
+        format: 'jpeg',
+      });
+      expect(thumbnail!.length).toBeLessThan(photo.length);
+    });
+
+    it('should return null for data that is not an image', async () => {
+      expect(
+        await createThumbnail('data:image/jpeg;base64,bm90IGFuIGltYWdl'),
+      ).toBe(null);
+    });
+  });
+
+  describe('savePhoto', () => {
+    it('should store the photo and thumbnail and log the entry change', async () => {
+      const thumbnail = await savePhoto(
+        redis.client,
+        'race1',
+        'e1:dev1',
+        photo,
+      );
+
+      expect(redis.hashes.get('race:race1:entry_photos')!.get('e1:dev1')).toBe(
+        photo,
+      );
+      expect(
+        redis.hashes.get('race:race1:entry_thumbnails')!.get('e1:dev1'),
+      ).toBe(thumbnail);
+      expect(redis.zadds[0]).toEqual([
+        'race:race1:entry_changes',
+        expect.any(Number),
+        'e1:dev1',
+      ]);
+    });
+
+    it('should drop a stale thumbnail when none can be created', async () => {
+      redis.hashes.set(
+        'race:race1:entry_thumbnails',
+        new Map([['e1:dev1', 'data:image/jpeg;base64,old']]),
+      );
+
+      const thumbnail = await savePhoto(
+        redis.client,
+        'race1',
+        'e1:dev1',
+        'data:image/jpeg;base64,YnJva2Vu',
+      );
+
+      expect(thumbnail).toBeNull();
+      expect(
+        redis.hashes.get('race:race1:entry_thumbnails')!.has('e1:dev1'),
+      ).toBe(false);
+    });
+  });
+
+  describe('loadPhoto', () => {
+    it('should create and store a missing thumbnail', async () => {
+      redis.hashes.set(
+        'race:race1:entry_photos',
+        new Map([['e1:dev1', photo]]),
+      );
+
+      const thumbnail = await loadPhoto(
+        redis.client,
+        'race1',
+        'e1:dev1',
+        'thumbnail',
+      );
+
+      expect(thumbnail).toMatch(/^data:image\/jpeg;base64,/);
+      expect(
+        redis.hashes.get('race:race1:entry_thumbnails')!.get('e1:dev1'),
+      ).toBe(thumbnail);
+      expect(await loadPhoto(redis.client, 'race1', 'e1:dev1', 'full')).toBe(
+        photo,
+      );
+    });
+
+    it('should return null without a photo', async () => {
+      expect(
+        await loadPhoto(redis.client, 'race1', 'e1:dev1', 'thumbnail'),
+      ).toBeNull();
+      expect(
+        await loadPhoto(redis.client, 'race1', 'e1:dev1', 'full'),
+      ).toBeNull();
+    });
+  });
+
+  describe('deletePhoto', () => {
+    it('should remove the photo and thumbnail', async () => {
+      await savePhoto(redis.client, 'race1', 'e1:dev1', photo);
+
+      expect(await deletePhoto(redis.client, 'race1', 'e1:dev1')).toBe(true);
+      expect(redis.hashes.get('race:race1:entry_photos')!.size).toBe(0);
+      expect(redis.hashes.get('race:race1:entry_thumbnails')!.size).toBe(0);
+      expect(await deletePhoto(redis.client, 'race1', 'e1:dev1')).toBe(false);
+    });
+  });
+
+  describe('getPhotoStats', () => {
+    it('should count photos and their size', async () => {
+      redis.hashes.set(
+        'race:race1:entry_photos',
+        new Map([
+          ['e1:dev1', 'a'.repeat(100)],
+          ['e2:dev1', 'b'.repeat(50)],
+        ]),
+      );
+
+      expect(await getPhotoStats(redis.client, 'race1')).toEqual({
+        photoCount: 2,
+        photoTotalSize: 150,
+      });
+    });
+  });
+});
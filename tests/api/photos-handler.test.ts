@@ -0,0 +1,524 @@
+/**
+ * API Tests - Photos Endpoint (api/v1/photos.ts)
+ *
+ * Tests GET (photo or thumbnail by entry), POST (upload for a synced entry)
+ * and DELETE. Covers: race access, size selection, ETags, format and size
+ * checks, photo rate limiting, race events.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockRedisClient = {
+  hexists: vi.fn().mockResolvedValue(1),
+  publish: vi.fn().mockResolvedValue(0),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer', deviceId: 'dev1' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+}));
+
+vi.mock('../../api/lib/photoRateLimit.js', () => ({
+  checkPhotoRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    count: 1,
+    limit: 20,
+  }),
+}));
+
+vi.mock('../../api/lib/photoStore.js', () => ({
+  MAX_PHOTO_LENGTH: 500000,
+  isAllowedPhoto: vi.fn(
+    (photo: unknown) =>
+      typeof photo === 'string' && photo.startsWith('data:image/jpeg;base64,'),
+  ),
+  loadPhoto: vi.fn().mockResolvedValue(null),
+  savePhoto: vi.fn().mockResolvedValue('data:image/jpeg;base64,thumb'),
+  deletePhoto: vi.fn().mockResolvedValue(true),
+}));
+
+vi.mock('../../api/lib/raceStore.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/raceStore.js')>()),
+  migrateLegacyItems: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  generateETag: vi.fn(() => '"etag-1"'),
+  checkIfNoneMatch: vi.fn(() => false),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import { checkPhotoRateLimit } from '../../api/lib/photoRateLimit.js';
+import { deletePhoto, loadPhoto, savePhoto } from '../../api/lib/photoStore.js';
+import { migrateLegacyItems } from '../../api/lib/raceStore.js';
+import {
+  checkIfNoneMatch,
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/photos';
+
+// ============================================
+// Helpers
+// ============================================
+
+const PHOTO = 'data:image/jpeg;base64,/9j/full';
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body, headers } as any;
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/photos', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.hexists.mockResolvedValue(1);
+    vi.mocked(loadPhoto).mockResolvedValue(null);
+  });
+
+  describe('Race access', () => {
+    it('should return 400 when raceId is missing', async () => {
+      await handler(makeReq('GET', {}), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'raceId is required',
+      );
+    });
+
+    it('should deny tokens of another race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(
+        makeReq('GET', { raceId: 'test', entryId: 'e1' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(loadPhoto).not.toHaveBeenCalled();
+    });
+
+    it('should migrate legacy race data first', async () => {
+      await handler(
+        makeReq('GET', { raceId: 'TEST', entryId: 'e1', deviceId: 'dev1' }),
+        mockRes as any,
+      );
+      expect(migrateLegacyItems).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'entry',
+      );
+    });
+  });
+
+  describe('GET /api/v1/photos', () => {
+    it('should return 400 without an entryId', async () => {
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'entryId is required',
+      );
+    });
+
+    it('should return 404 when the entry has no photo', async () => {
+      await handler(
+        makeReq('GET', { raceId: 'test', entryId: 'e1', deviceId: 'dev1' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo not found',
+        404,
+      );
+    });
+
+    it('should return the full photo by default', async () => {
+      vi.mocked(loadPhoto).mockResolvedValueOnce(PHOTO);
+      await handler(
+        makeReq('GET', { raceId: 'test', entryId: 'e1', deviceId: 'dev1' }),
+        mockRes as any,
+      );
+      expect(loadPhoto).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'e1:dev1',
+        'full',
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        entryId: 'e1',
+        deviceId: 'dev1',
+        size: 'full',
+        photo: PHOTO,
+      });
+      expect(mockRes.setHeader).toHaveBeenCalledWith('ETag', '"etag-1"');
+    });
+
+    it('should return the thumbnail when requested', async () => {
+      vi.mocked(loadPhoto).mockResolvedValueOnce('data:image/jpeg;base64,t');
+      await handler(
+        makeReq('GET', {
+          raceId: 'test',
+          entryId: 'e1',
+          deviceId: 'dev1',
+          size: 'thumbnail',
+        }),
+        mockRes as any,
+      );
+      expect(loadPhoto).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'e1:dev1',
+        'thumbnail',
+      );
+    });
+
+    it('should return 304 when the ETag matches', async () => {
+      vi.mocked(loadPhoto).mockResolvedValueOnce(PHOTO);
+      vi.mocked(checkIfNoneMatch).mockReturnValueOnce(true);
+      await handler(
+        makeReq('GET', { raceId: 'test', entryId: 'e1', deviceId: 'dev1' }),
+        mockRes as any,
+      );
+      expect(mockRes.status).toHaveBeenCalledWith(304);
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /api/v1/photos', () => {
+    const upload = (body: Record<string, unknown>) =>
+      handler(makeReq('POST', { raceId: 'test' }, body), mockRes as any);
+
+    it('should store the photo and return the thumbnail', async () => {
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+
+      expect(mockRedisClient.hexists).toHaveBeenCalledWith(
+        'race:test:entry_items',
+        'e1:dev1',
+      );
+      expect(savePhoto).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'e1:dev1',
+        PHOTO,
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        entryId: 'e1',
+        thumbnail: 'data:image/jpeg;base64,thumb',
+      });
+    });
+
+    it("should reject overwriting another device's photo", async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'timer', deviceId: 'dev2' },
+      } as any);
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo upload requires the recording device or Chief Judge role',
+        403,
+      );
+      expect(savePhoto).not.toHaveBeenCalled();
+    });
+
+    it("should let the Chief Judge replace another device's photo", async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge' },
+      } as any);
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+
+      expect(savePhoto).toHaveBeenCalled();
+    });
+
+    it('should publish an entry event for other devices', async () => {
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+
+      expect(mockRedisClient.publish).toHaveBeenCalledWith(
+        'race:test:events',
+        expect.any(String),
+      );
+      const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+      expect(event).toMatchObject({
+        type: 'entry',
+        deviceId: 'dev1',
+        id: 'e1',
+      });
+    });
+
+    it('should reject an invalid body', async () => {
+      await upload({ entryId: 'e1', photo: PHOTO });
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid photo'),
+      );
+      expect(savePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should reject photos that are not image data URLs', async () => {
+      await upload({
+        entryId: 'e1',
+        deviceId: 'dev1',
+        photo: 'data:text/html;base64,PHNjcmlwdD4=',
+      });
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid photo: must be a JPEG, PNG or WebP data URL',
+      );
+      expect(savePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should return 413 for photos over the size limit', async () => {
+      await upload({
+        entryId: 'e1',
+        deviceId: 'dev1',
+        photo: `data:image/jpeg;base64,${'a'.repeat(500000)}`,
+      });
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo too large',
+        413,
+        { photoTooLarge: true },
+      );
+    });
+
+    it('should return 404 when the entry is not synced', async () => {
+      mockRedisClient.hexists.mockResolvedValueOnce(0);
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Entry not found',
+        404,
+      );
+      expect(savePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should return 429 when the photo rate limit is exceeded', async () => {
+      vi.mocked(checkPhotoRateLimit).mockResolvedValueOnce({
+        allowed: false,
+        count: 21,
+        limit: 20,
+      });
+      await upload({ entryId: 'e1', deviceId: 'dev1', photo: PHOTO });
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo rate limit exceeded',
+        429,
+        { photoRateLimited: true },
+      );
+      expect(savePhoto).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/v1/photos', () => {
+    /** Authenticate the next request with a token issued to a device */
+    function asDevice(deviceId: string) {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'timer', deviceId },
+      } as any);
+    }
+
+    it('should delete the photo and publish an entry event', async () => {
+      asDevice('dev1');
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'e1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(deletePhoto).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'e1:dev1',
+      );
+      expect(mockRedisClient.publish).toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        deleted: true,
+        entryId: 'e1',
+      });
+    });
+
+    it('should not publish an event when there was no photo', async () => {
+      asDevice('dev1');
+      vi.mocked(deletePhoto).mockResolvedValueOnce(false);
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'e1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(mockRedisClient.publish).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        deleted: false,
+        entryId: 'e1',
+      });
+    });
+
+    it("should reject deleting another device's photo", async () => {
+      asDevice('dev2');
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'e1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo deletion requires the recording device or Chief Judge role',
+        403,
+      );
+      expect(deletePhoto).not.toHaveBeenCalled();
+    });
+
+    it('should not trust a device ID claimed in the request body', async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'timer' },
+      } as any);
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'e1', deviceId: 'dev1', requestingDeviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo deletion requires the recording device or Chief Judge role',
+        403,
+      );
+      expect(deletePhoto).not.toHaveBeenCalled();
+    });
+
+    it("should let the Chief Judge delete another device's photo", async () => {
+      vi.mocked(validateAuth).mockResolvedValueOnce({
+        valid: true,
+        method: 'jwt',
+        payload: { role: 'chiefJudge' },
+      } as any);
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'e1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(deletePhoto).toHaveBeenCalledWith(
+        mockRedisClient,
+        'test',
+        'e1:dev1',
+      );
+    });
+  });
+});
@@ -0,0 +1,803 @@
+/**
+ * API Tests - Protests Endpoint (api/v1/protests.ts)
+ *
+ * Tests GET (list protests, evidence photo), POST (file protest), PUT (jury
+ * decision). Covers: race access, chiefJudge-only writes, protest validation,
+ * evidence photos, per-run deadlines, final decisions matching the vote and
+ * upheld protests carried out on the stored fault or entry.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  hset: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hget: vi.fn().mockResolvedValue(null),
+  hsetnx: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  atomicUpdate: vi.fn(
+    async (
+      _client: any,
+      _key: any,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const outcome = updateFn(JSON.parse(JSON.stringify(defaultData)));
+      if (outcome.abort) return outcome.result;
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/raceStore.js', () => ({
+  loadRaceItems: vi.fn().mockResolvedValue({
+    items: [],
+    total: 0,
+    lastUpdated: null,
+  }),
+  saveRaceItem: vi.fn().mockResolvedValue({ status: 'updated' }),
+}));
+
+vi.mock('../../api/lib/raceEvents.js', () => ({
+  publishRaceEvent: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock('../../api/lib/photoStore.js', () => ({
+  MAX_PHOTO_LENGTH: 500000,
+  isAllowedPhoto: vi.fn(
+    (photo: unknown) =>
+      typeof photo === 'string' && photo.startsWith('data:image/jpeg;base64,'),
+  ),
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import { publishRaceEvent } from '../../api/lib/raceEvents.js';
+import { loadRaceItems, saveRaceItem } from '../../api/lib/raceStore.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/protests';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body, headers } as any;
+}
+
+function asChiefJudge() {
+  vi.mocked(validateAuth).mockResolvedValueOnce({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  });
+}
+
+const faultProtest = {
+  id: 'protest_1',
+  bib: '042',
+  run: 1,
+  targetType: 'fault',
+  targetId: 'fault_1',
+  fault: { gateNumber: 7, faultType: 'MG', deviceName: 'Judge 1' },
+  filedBy: 'Coach <Berger>',
+  filedAt: '2026-01-15T11:00:00.000Z',
+  reason: 'Racer passed gate 7 correctly',
+  evidenceNote: 'Video from the coach',
+  evidenceNoteSource: 'voice',
+};
+
+const storedProtest = {
+  ...faultProtest,
+  filedBy: 'Coach Berger',
+  photoCount: 0,
+  recordedBy: 'Chief',
+  recordedByDeviceId: 'dev_chief',
+};
+
+const decisionBody = {
+  protestId: 'protest_1',
+  outcome: 'upheld',
+  votesFor: 2,
+  votesAgainst: 1,
+  abstentions: 0,
+  rationale: 'Video shows both feet passing the gate line',
+  deviceId: 'dev_chief',
+  deviceName: 'Chief',
+};
+
+const storedFault = {
+  id: 'fault_1',
+  bib: '042',
+  run: 1,
+  gateNumber: 7,
+  faultType: 'MG',
+  timestamp: '2026-01-15T10:00:30.000Z',
+  gateRange: [5, 10],
+  deviceId: 'dev_judge',
+  deviceName: 'Judge 1',
+  syncedAt: 1,
+  currentVersion: 1,
+  versionHistory: [],
+  markedForDeletion: false,
+};
+
+function storeItems(items: unknown[]) {
+  vi.mocked(loadRaceItems).mockResolvedValueOnce({
+    items: items as any,
+    total: items.length,
+    lastUpdated: null,
+  });
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/protests', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockResolvedValue(null);
+    mockRedisClient.hget.mockResolvedValue(null);
+    mockRedisClient.hsetnx.mockResolvedValue(1);
+    mockRedisClient.hgetall.mockResolvedValue({});
+    vi.mocked(validateAuth).mockResolvedValue({
+      valid: true,
+      method: 'jwt',
+      payload: { role: 'timer' },
+    });
+    vi.mocked(authorizeRaceAccess).mockResolvedValue({ allowed: true });
+  });
+
+  it('should reject tokens not valid for the race', async () => {
+    vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+      allowed: false,
+      error: 'Token is not valid for this race',
+      status: 403,
+    });
+
+    await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+
+    expect(sendError).toHaveBeenCalledWith(
+      expect.anything(),
+      'Token is not valid for this race',
+      403,
+      {},
+    );
+    expect(mockRedisClient.hgetall).not.toHaveBeenCalled();
+  });
+
+  describe('GET /api/v1/protests', () => {
+    it('should list valid protests oldest first for any role', async () => {
+      const later = {
+        ...storedProtest,
+        id: 'protest_2',
+        filedAt: '2026-01-15T12:00:00.000Z',
+      };
+      mockRedisClient.hgetall.mockResolvedValueOnce({
+        protest_2: JSON.stringify(later),
+        protest_1: JSON.stringify(storedProtest),
+        broken: '{"id":',
+      });
+
+      await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+
+      expect(mockRedisClient.hgetall).toHaveBeenCalledWith(
+        'race:test:protests',
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        protests: [storedProtest, later],
+      });
+    });
+
+    it('should return an evidence photo', async () => {
+      mockRedisClient.hget.mockResolvedValueOnce('data:image/jpeg;base64,abc');
+
+      await handler(
+        makeReq('GET', { raceId: 'test', protestId: 'protest_1', photo: '1' }),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.hget).toHaveBeenCalledWith(
+        'race:test:protest_photos',
+        'protest_1:1',
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        protestId: 'protest_1',
+        photo: 'data:image/jpeg;base64,abc',
+      });
+    });
+
+    it('should return 404 for a missing photo', async () => {
+      await handler(
+        makeReq('GET', { raceId: 'test', protestId: 'protest_1', photo: '0' }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Photo not found',
+        404,
+      );
+    });
+  });
+
+  describe('POST /api/v1/protests', () => {
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { protest: faultProtest }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protests require Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.multi).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 when a fault protest lacks the fault', async () => {
+      asChiefJudge();
+      const { fault: _fault, ...withoutFault } = faultProtest;
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { protest: withoutFault }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid protest'),
+      );
+    });
+
+    it('should return 400 for an invalid evidence photo', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { protest: faultProtest, photos: ['data:text/html;base64,abc'] },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid evidence photo',
+      );
+    });
+
+    it("should return 409 after the run's protest deadline", async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({ protestDeadlines: { '1': Date.now() - 1000 } }),
+      );
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { protest: faultProtest }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protest deadline has passed for this run',
+        409,
+      );
+      expect(mockRedisClient.multi).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 for a protest already filed', async () => {
+      asChiefJudge();
+      mockRedisClient.hsetnx.mockResolvedValueOnce(0);
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { protest: faultProtest, photos: ['data:image/jpeg;base64,one'] },
+        ),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protest already filed',
+        409,
+      );
+      expect(mockRedisClient.multi).not.toHaveBeenCalled();
+    });
+
+    it('should store the sanitized protest and its photos', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({ protestDeadlines: { '1': Date.now() + 60_000 } }),
+      );
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            protest: faultProtest,
+            photos: [
+              'data:image/jpeg;base64,one',
+              'data:image/jpeg;base64,two',
+            ],
+            deviceId: 'dev_chief',
+            deviceName: 'Chief',
+          },
+        ),
+        mockRes as any,
+      );
+
+      const expected = { ...storedProtest, photoCount: 2 };
+      expect(mockRedisClient.hsetnx).toHaveBeenCalledWith(
+        'race:test:protests',
+        'protest_1',
+        expect.any(String),
+      );
+      expect(JSON.parse(mockRedisClient.hsetnx.mock.calls[0]![2])).toEqual(
+        expected,
+      );
+      expect(mockMultiResult.hset).toHaveBeenCalledWith(
+        'race:test:protest_photos',
+        'protest_1:1',
+        'data:image/jpeg;base64,two',
+      );
+      expect(mockMultiResult.expire).toHaveBeenCalledWith(
+        'race:test:protest_photos',
+        86400,
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        protest: expected,
+      });
+    });
+
+    it('should store a status protest with the requested status', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            protest: {
+              id: 'protest_3',
+              bib: '007',
+              run: 2,
+              targetType: 'entry',
+              targetId: 'entry_1',
+              currentStatus: 'dnf',
+              requestedStatus: 'ok',
+              filedBy: 'Coach',
+              filedAt: '2026-01-15T11:00:00.000Z',
+              reason: 'Finish beam missed the racer',
+            },
+            deviceName: 'Chief',
+          },
+        ),
+        mockRes as any,
+      );
+
+      const stored = JSON.parse(mockRedisClient.hsetnx.mock.calls[0]![2]);
+      expect(stored).toMatchObject({
+        targetType: 'entry',
+        currentStatus: 'dnf',
+        requestedStatus: 'ok',
+        photoCount: 0,
+      });
+      expect(stored.fault).toBeUndefined();
+    });
+  });
+
+  describe('PUT /api/v1/protests', () => {
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protests require Chief Judge role',
+        403,
+      );
+    });
+
+    it('should reject an outcome the vote does not decide', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'PUT',
+          { raceId: 'test' },
+          { ...decisionBody, votesFor: 1, votesAgainst: 1 },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('outcome does not match the vote majority'),
+      );
+      expect(mockRedisClient.watch).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for an unknown protest', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protest not found',
+        404,
+      );
+    });
+
+    it('should not overwrite an earlier decision', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(
+        JSON.stringify({
+          ...storedProtest,
+          decision: {
+            outcome: 'rejected',
+            votesFor: 0,
+            votesAgainst: 3,
+            abstentions: 0,
+            rationale: 'No evidence',
+            decidedAt: '2026-01-15T12:00:00.000Z',
+            decidedBy: 'Chief 2',
+          },
+        }),
+      );
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protest already decided',
+        409,
+      );
+      expect(mockMultiResult.hset).not.toHaveBeenCalled();
+      expect(mockRedisClient.unwatch).toHaveBeenCalled();
+    });
+
+    it('should reject a decision recorded concurrently by another device', async () => {
+      asChiefJudge();
+      const otherDecision = {
+        ...storedProtest,
+        decision: {
+          outcome: 'rejected',
+          votesFor: 0,
+          votesAgainst: 3,
+          abstentions: 0,
+          rationale: 'No evidence',
+          decidedAt: '2026-01-15T12:00:00.000Z',
+          decidedBy: 'Chief 2',
+        },
+      };
+      mockRedisClient.hget
+        .mockResolvedValueOnce(JSON.stringify(storedProtest))
+        .mockResolvedValueOnce(JSON.stringify(otherDecision));
+      // The other device's write lands between the read and the exec
+      mockMultiResult.exec.mockResolvedValueOnce(null);
+
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.watch).toHaveBeenCalledWith('race:test:protests');
+      expect(mockMultiResult.exec).toHaveBeenCalledTimes(1);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Protest already decided',
+        409,
+      );
+    });
+
+    it('should record the jury decision', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(JSON.stringify(storedProtest));
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+
+      const decided = JSON.parse(mockMultiResult.hset.mock.calls[0]![2]);
+      expect(mockRedisClient.watch).toHaveBeenCalledWith('race:test:protests');
+      expect(mockMultiResult.hset).toHaveBeenCalledWith(
+        'race:test:protests',
+        'protest_1',
+        expect.any(String),
+      );
+      expect(decided.decision).toEqual({
+        outcome: 'upheld',
+        votesFor: 2,
+        votesAgainst: 1,
+        abstentions: 0,
+        rationale: 'Video shows both feet passing the gate line',
+        decidedAt: expect.any(String),
+        decidedBy: 'Chief',
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+        protest: decided,
+        applied: false,
+      });
+    });
+
+    it('should reverse the fault of an upheld fault protest and keep it', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(JSON.stringify(storedProtest));
+      storeItems([storedFault, { ...storedFault, id: 'fault_2' }]);
+
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+
+      expect(loadRaceItems).toHaveBeenCalledWith(
+        expect.anything(),
+        'test',
+        'fault',
+      );
+      expect(saveRaceItem).toHaveBeenCalledTimes(1);
+      const [, , kind, reversed, options] =
+        vi.mocked(saveRaceItem).mock.calls[0]!;
+      expect(kind).toBe('fault');
+      expect(reversed).toMatchObject({
+        id: 'fault_1',
+        deviceId: 'dev_judge',
+        currentVersion: 2,
+        markedForDeletion: true,
+        markedForDeletionBy: 'Chief',
+        markedForDeletionByDeviceId: 'dev_chief',
+        deletionApprovedBy: 'Chief',
+        reversedByProtestId: 'protest_1',
+      });
+      expect((reversed as any).versionHistory).toEqual([
+        expect.objectContaining({
+          version: 2,
+          editedBy: 'Chief',
+          editedByDeviceId: 'dev_chief',
+          changeType: 'edit',
+          changeDescription: 'Reversed by jury decision on protest protest_1',
+          data: expect.objectContaining({ id: 'fault_1', gateNumber: 7 }),
+        }),
+      ]);
+      // Never re-creates the fault, nor overwrites a newer edit
+      expect(options.existingOnly).toBe(true);
+      expect(options.shouldReplace({ ...storedFault } as any)).toBe(true);
+      expect(
+        options.shouldReplace({ ...storedFault, currentVersion: 2 } as any),
+      ).toBe(false);
+      expect(publishRaceEvent).toHaveBeenCalledWith(expect.anything(), 'test', {
+        type: 'fault',
+        id: 'fault_1',
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ applied: true }),
+      );
+    });
+
+    it('should set the requested status of an upheld status protest', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(
+        JSON.stringify({
+          ...storedProtest,
+          targetType: 'entry',
+          targetId: 'entry_1',
+          fault: undefined,
+          currentStatus: 'dnf',
+          requestedStatus: 'ok',
+        }),
+      );
+      storeItems([
+        {
+          id: 'entry_1',
+          bib: '042',
+          point: 'F',
+          run: 1,
+          timestamp: '2026-01-15T10:01:00.000Z',
+          status: 'dnf',
+          deviceId: 'dev_finish',
+          deviceName: 'Finish',
+        },
+      ]);
+
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+
+      const [, , kind, edited] = vi.mocked(saveRaceItem).mock.calls[0]!;
+      expect(kind).toBe('entry');
+      expect(edited).toMatchObject({
+        id: 'entry_1',
+        deviceId: 'dev_finish',
+        status: 'ok',
+        currentVersion: 2,
+        editedBy: 'Chief',
+        editedByDeviceId: 'dev_chief',
+      });
+      expect((edited as any).versionHistory).toEqual([
+        expect.objectContaining({
+          version: 1,
+          changeType: 'create',
+          editedBy: 'Finish',
+          data: { bib: '042', status: 'dnf', run: 1 },
+        }),
+        expect.objectContaining({
+          version: 2,
+          changeType: 'edit',
+          editedBy: 'Chief',
+          data: { bib: '042', status: 'ok', run: 1 },
+        }),
+      ]);
+      expect(publishRaceEvent).toHaveBeenCalledWith(expect.anything(), 'test', {
+        type: 'entry',
+        id: 'entry_1',
+      });
+    });
+
+    it('should report an upheld protest whose target is not stored', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(JSON.stringify(storedProtest));
+
+      await handler(
+        makeReq('PUT', { raceId: 'test' }, decisionBody),
+        mockRes as any,
+      );
+
+      expect(saveRaceItem).not.toHaveBeenCalled();
+      expect(publishRaceEvent).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ applied: false }),
+      );
+    });
+
+    it('should leave the target of a rejected protest', async () => {
+      asChiefJudge();
+      mockRedisClient.hget.mockResolvedValueOnce(JSON.stringify(storedProtest));
+
+      await handler(
+        makeReq(
+          'PUT',
+          { raceId: 'test' },
+          {
+            ...decisionBody,
+            outcome: 'rejected',
+            votesFor: 1,
+            votesAgainst: 2,
+          },
+        ),
+        mockRes as any,
+      );
+
+      expect(loadRaceItems).not.toHaveBeenCalled();
+      expect(saveRaceItem).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * API Tests - Public Results Endpoint (api/v1/public/results.ts)
+ *
+ * Tests GET (unauthenticated live results). Covers: race ID validation,
+ * 404 for unpublished races, stripping photo/device/GPS data from entries
+ * and ETag revalidation.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  hset: vi.fn().mockReturnThis(),
+  hsetnx: vi.fn().mockReturnThis(),
+  hdel: vi.fn().mockReturnThis(),
+  zadd: vi.fn().mockReturnThis(),
+  del: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  hget: vi.fn().mockResolvedValue(null),
+  hexists: vi.fn().mockResolvedValue(0),
+  hlen: vi.fn().mockResolvedValue(0),
+  hsetnx: vi.fn().mockResolvedValue(1),
+  hvals: vi.fn().mockResolvedValue([]),
+  hmget: vi.fn().mockResolvedValue([]),
+  hkeys: vi.fn().mockResolvedValue([]),
+  zrange: vi.fn().mockResolvedValue([]),
+  zrangebyscore: vi.fn().mockResolvedValue([]),
+  exists: vi.fn().mockResolvedValue(0),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+  MAX_PENALTY_SECONDS: 60,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  atomicUpdate: vi.fn(
+    async (
+      _client: any,
+      _key: any,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const outcome = updateFn(JSON.parse(JSON.stringify(defaultData)));
+      if (outcome.abort) return outcome.result;
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  generateETag: vi.fn((data: unknown) => `"${JSON.stringify(data).length}"`),
+  checkIfNoneMatch: vi.fn(
+    (req: any, etag: string) => req.headers['if-none-match'] === etag,
+  ),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { validateAuth } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendMethodNotAllowed,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/public/results';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body: null, headers } as any;
+}
+
+const stored: Record<string, string> = {
+  'race:test': JSON.stringify({
+    entries: [
+      {
+        id: '1',
+        bib: '001',
+        point: 'S',
+        run: 1,
+        timestamp: '2024-01-15T10:00:00.000Z',
+        status: 'ok',
+        deviceId: 'dev_secret',
+        deviceName: 'Start Timer',
+        photo: 'data:image/jpeg;base64,abc',
+        gpsCoords: { latitude: 47.1, longitude: 11.2, accuracy: 5 },
+      },
+      {
+        id: '2',
+        bib: '001',
+        point: 'F',
+        run: 1,
+        timestamp: '2024-01-15T10:00:45.000Z',
+        status: 'ok',
+        deviceId: 'dev_secret',
+        deviceName: 'Finish Timer',
+      },
+    ],
+    lastUpdated: 1000,
+  }),
+  'race:test:startlist': JSON.stringify({
+    racers: [{ bib: '001', name: 'Huber Anna', club: 'SC Garmisch' }],
+  }),
+  'race:test:public': JSON.stringify({ publishedAt: 1 }),
+};
+
+function lastSuccessPayload(): any {
+  return vi.mocked(sendSuccess).mock.calls.at(-1)![1];
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/public/results', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockImplementation(
+      async (key: string) => stored[key] ?? null,
+    );
+  });
+
+  it('should reject non-GET methods', async () => {
+    await handler(makeReq('POST', { raceId: 'test' }), mockRes as any);
+    expect(sendMethodNotAllowed).toHaveBeenCalled();
+  });
+
+  it('should not require authentication', async () => {
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+    expect(validateAuth).not.toHaveBeenCalled();
+    expect(sendSuccess).toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid raceId format', async () => {
+    await handler(makeReq('GET', { raceId: 'bad race!' }), mockRes as any);
+    expect(sendBadRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('Invalid raceId'),
+    );
+  });
+
+  it('should return 404 when the race is not published', async () => {
+    mockRedisClient.get.mockImplementation(async (key: string) =>
+      key === 'race:test:public' ? null : (stored[key] ?? null),
+    );
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+    expect(sendError).toHaveBeenCalledWith(
+      expect.anything(),
+      'Results are not published for this race',
+      404,
+    );
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should return ranked results with names', async () => {
+    await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+
+    const payload = lastSuccessPayload();
+    expect(payload.raceId).toBe('test');
+    expect(payload.byRun[1][0]).toMatchObject({
+      bib: '001',
+      rank: 1,
+      totalTime: 45000,
+    });
+    expect(payload.racers).toEqual({
+      '001': { name: 'Huber Anna', club: 'SC Garmisch' },
+    });
+    expect(payload.lastUpdated).toBe(1000);
+  });
+
+  it('should strip photos, device IDs and GPS coordinates from entries', async () => {
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+
+    const { entries } = lastSuccessPayload();
+    expect(entries[0]).toEqual({
+      id: '1',
+      bib: '001',
+      point: 'S',
+      run: 1,
+      timestamp: '2024-01-15T10:00:00.000Z',
+      status: 'ok',
+    });
+    const serialized = JSON.stringify(lastSuccessPayload());
+    expect(serialized).not.toContain('dev_secret');
+    expect(serialized).not.toContain('base64');
+    expect(serialized).not.toContain('latitude');
+  });
+
+  it('should return 304 when the ETag matches', async () => {
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+    const etag = mockRes.setHeader.mock.calls.find(
+      (call) => call[0] === 'ETag',
+    )![1];
+
+    vi.mocked(sendSuccess).mockClear();
+    const res = createMockRes();
+    await handler(
+      makeReq('GET', { raceId: 'test' }, { 'if-none-match': etag }),
+      res as any,
+    );
+    expect(res.status).toHaveBeenCalledWith(304);
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
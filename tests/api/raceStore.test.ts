@@ -0,0 +1,573 @@
+/**
+ * Tests for api/lib/raceStore.ts
+ * Covers: per-item saves (add, edit, duplicate, limit), photo storage,
+ * delta loads from the change log, the entry index, deletions and legacy
+ * blob migration
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  deleteRaceItems,
+  getRaceItemsSummary,
+  loadEntriesAt,
+  loadRaceItems,
+  saveRaceItem,
+} from '../../api/lib/raceStore.js';
+
+/**
+ * In-memory Redis with the string, hash and sorted set commands the store
+ * uses (transactions run their queued commands in order)
+ */
+function createFakeRedis() {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const expiries = new Map<string, number>();
+
+  const hash = (key: string) => {
+    if (!hashes.has(key)) hashes.set(key, new Map());
+    return hashes.get(key)!;
+  };
+  const zset = (key: string) => {
+    if (!zsets.has(key)) zsets.set(key, new Map());
+    return zsets.get(key)!;
+  };
+  const byScore = (key: string) =>
+    [...zset(key).entries()].sort((a, b) => a[1] - b[1]);
+
+  const commands = {
+    get: async (key: string) => strings.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      strings.set(key, value);
+      return 'OK';
+    },
+    del: async (...keys: string[]) =>
+      keys.filter(
+        (key) => strings.delete(key) || hashes.delete(key) || zsets.delete(key),
+      ).length,
+    exists: async (...keys: string[]) =>
+      keys.filter(
+        (key) => strings.has(key) || hash(key).size > 0 || zset(key).size > 0,
+      ).length,
+    expire: async (key: string, seconds: number) => {
+      expiries.set(key, seconds);
+      return 1;
+    },
+    watch: async () => 'OK',
+    unwatch: async () => 'OK',
+    hexists: async (key: string, field: string) =>
+      hash(key).has(field) ? 1 : 0,
+    hlen: async (key: string) => hash(key).size,
+    hget: async (key: string, field: string) => hash(key).get(field) ?? null,
+    hset: async (key: string, field: string, value: string) => {
+      const added = hash(key).has(field) ? 0 : 1;
+      hash(key).set(field, value);
+      return added;
+    },
+    hsetnx: async (key: string, field: string, value: string) => {
+      if (hash(key).has(field)) return 0;
+      hash(key).set(field, value);
+      return 1;
+    },
+    hdel: async (key: string, ...fields: string[]) =>
+      fields.filter((field) => hash(key).delete(field)).length,
+    hvals: async (key: string) => [...hash(key).values()],
+    hkeys: async (key: string) => [...hash(key).keys()],
+    hmget: async (key: string, ...fields: string[]) =>
+      fields.map((field) => hash(key).get(field) ?? null),
+    zadd: async (key: string, ...args: (string | number)[]) => {
+      const nx = args[0] === 'NX';
+      const pairs = nx ? args.slice(1) : args;
+      let added = 0;
+      for (let i = 0; i < pairs.length; i += 2) {
+        const member = String(pairs[i + 1]);
+        if (nx && zset(key).has(member)) continue;
+        if (!zset(key).has(member)) added++;
+        zset(key).set(member, Number(pairs[i]));
+      }
+      return added;
+    },
+    zrem: async (key: string, ...members: string[]) =>
+      members.filter((member) => zset(key).delete(member)).length,
+    // Inclusive "[" and exclusive "(" bounds, members in code unit order
+    zrangebylex: async (key: string, min: string, max: string) =>
+      [...zset(key).keys()]
+        .sort()
+        .filter(
+          (member) =>
+            (min[0] === '[' ? member >= min.slice(1) : member > min.slice(1)) &&
+            (max[0] === '[' ? member <= max.slice(1) : member < max.slice(1)),
+        ),
+    zrange: async (key: string, start: number, stop: number) => {
+      const sorted = byScore(key);
+      const from = start < 0 ? sorted.length + start : start;
+      const to = stop < 0 ? sorted.length + stop : stop;
+      return sorted
+        .slice(Math.max(0, from), to + 1)
+        .flatMap(([member, score]) => [member, String(score)]);
+    },
+    zrangebyscore: async (key: string, min: number) =>
+      byScore(key)
+        .filter(([, score]) => score >= min)
+        .map(([member]) => member),
+  };
+
+  type Command = keyof typeof commands;
+  const client = {
+    ...commands,
+    multi: () => {
+      const queued: [Command, unknown[]][] = [];
+      const multi = new Proxy(
+        {
+          exec: async () => {
+            const results: [null, unknown][] = [];
+            for (const [name, args] of queued) {
+              results.push([
+                null,
+                await (commands[name] as (...a: unknown[]) => unknown)(...args),
+              ]);
+            }
+            return results;
+          },
+        } as Record<string, unknown>,
+        {
+          get: (target, name: string) =>
+            target[name] ??
+            ((...args: unknown[]) => {
+              queued.push([name as Command, args]);
+              return multi;
+            }),
+        },
+      );
+      return multi;
+    },
+  };
+
+  return { client: client as any, strings, hashes, zsets, expiries };
+}
+
+function entry(overrides: Record<string, any> = {}) {
+  return {
+    id: 'e1',
+    bib: '001',
+    point: 'S',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    status: 'ok',
+    deviceId: 'dev1',
+    deviceName: 'Start',
+    ...overrides,
+  };
+}
+
+const addOnly = { maxItems: 100, shouldReplace: () => false };
+
+describe('raceStore', () => {
+  let redis: ReturnType<typeof createFakeRedis>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 1_000 });
+    redis = createFakeRedis();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('saveRaceItem', () => {
+    it('should store an entry per item with its photo apart', async () => {
+      const result = await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ photo: 'data:image/jpeg;base64,abc' }),
+        addOnly,
+      );
+
+      expect(result).toEqual({ status: 'added' });
+      const stored = JSON.parse(
+        redis.hashes.get('race:race1:entry_items')!.get('e1:dev1')!,
+      );
+      expect(stored.photo).toBeUndefined();
+      expect(redis.hashes.get('race:race1:entry_photos')!.get('e1:dev1')).toBe(
+        'data:image/jpeg;base64,abc',
+      );
+
+      const plain = await loadRaceItems(redis.client, 'race1', 'entry');
+      expect(plain.items[0]!.photo).toBeUndefined();
+      expect(plain.lastUpdated).toBe(1_000);
+
+      const flagged = await loadRaceItems(redis.client, 'race1', 'entry', {
+        withPhotoFlags: true,
+      });
+      expect(flagged.items[0]!.photo).toBeUndefined();
+      expect(flagged.items[0]!.hasPhoto).toBe(true);
+    });
+
+    it('should keep the race PINs alive while the race is written', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+
+      expect(redis.expiries.get('race:race1:clientPin')).toBe(86400);
+      expect(redis.expiries.get('race:race1:chiefJudgePin')).toBe(86400);
+    });
+
+    it('should keep the results published while the race is written', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+
+      expect(redis.expiries.get('race:race1:public')).toBe(86400);
+    });
+
+    it('should keep items of different devices with the same ID', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ deviceId: 'dev2' }),
+        addOnly,
+      );
+
+      const { items, total } = await loadRaceItems(
+        redis.client,
+        'race1',
+        'entry',
+      );
+      expect(total).toBe(2);
+      expect(items.map((item) => item.deviceId)).toEqual(['dev1', 'dev2']);
+    });
+
+    it('should report a duplicate unless the stored item is replaced', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+
+      const duplicate = await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ bib: '002' }),
+        addOnly,
+      );
+      expect(duplicate).toMatchObject({
+        status: 'duplicate',
+        previous: { bib: '001' },
+      });
+
+      const updated = await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ bib: '002' }),
+        { maxItems: 100, shouldReplace: () => true },
+      );
+      expect(updated).toMatchObject({
+        status: 'updated',
+        previous: { bib: '001' },
+      });
+      const { items } = await loadRaceItems(redis.client, 'race1', 'entry');
+      expect(items).toHaveLength(1);
+      expect(items[0]!.bib).toBe('002');
+    });
+
+    it('should keep the stored photo when an edit has none', async () => {
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ photo: 'data:image/jpeg;base64,abc' }),
+        addOnly,
+      );
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), {
+        maxItems: 100,
+        shouldReplace: () => true,
+      });
+
+      expect(redis.hashes.get('race:race1:entry_photos')!.get('e1:dev1')).toBe(
+        'data:image/jpeg;base64,abc',
+      );
+      const { items } = await loadRaceItems(redis.client, 'race1', 'entry', {
+        withPhotoFlags: true,
+      });
+      expect(items[0]!.hasPhoto).toBe(true);
+    });
+
+    it('should refuse new items at the limit but still replace stored ones', async () => {
+      const options = { maxItems: 1, shouldReplace: () => true };
+      await saveRaceItem(redis.client, 'race1', 'fault', entry(), options);
+
+      expect(
+        await saveRaceItem(
+          redis.client,
+          'race1',
+          'fault',
+          entry({ id: 'e2' }),
+          options,
+        ),
+      ).toEqual({ status: 'limit' });
+      expect(
+        await saveRaceItem(
+          redis.client,
+          'race1',
+          'fault',
+          entry({ bib: '009' }),
+          options,
+        ),
+      ).toMatchObject({ status: 'updated' });
+    });
+
+    it('should only replace stored items when told to', async () => {
+      const options = {
+        maxItems: 100,
+        shouldReplace: () => true,
+        existingOnly: true,
+      };
+
+      expect(
+        await saveRaceItem(redis.client, 'race1', 'entry', entry(), options),
+      ).toEqual({ status: 'missing' });
+      expect(
+        (await loadRaceItems(redis.client, 'race1', 'entry')).items,
+      ).toHaveLength(0);
+
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      expect(
+        await saveRaceItem(
+          redis.client,
+          'race1',
+          'entry',
+          entry({ bib: '009' }),
+          options,
+        ),
+      ).toMatchObject({ status: 'updated' });
+    });
+  });
+
+  describe('loadRaceItems', () => {
+    it('should load only items changed since a time', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      vi.setSystemTime(5_000);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ id: 'e2' }),
+        addOnly,
+      );
+
+      const delta = await loadRaceItems(redis.client, 'race1', 'entry', {
+        since: 2_000,
+      });
+      expect(delta.items.map((item) => item.id)).toEqual(['e2']);
+      expect(delta.total).toBe(2);
+      expect(delta.lastUpdated).toBe(5_000);
+    });
+
+    it('should order items by timestamp', async () => {
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ id: 'late', timestamp: '2024-01-15T11:00:00.000Z' }),
+        addOnly,
+      );
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+
+      const { items } = await loadRaceItems(redis.client, 'race1', 'entry');
+      expect(items.map((item) => item.id)).toEqual(['e1', 'late']);
+    });
+  });
+
+  describe('loadEntriesAt', () => {
+    const replace = { maxItems: 100, shouldReplace: () => true };
+    const at = (bib: string) => ({ id: 'x', bib, point: 'S', run: 1 });
+    const ids = (items: { id: string | number; deviceId?: string }[]) =>
+      items.map((item) => `${item.id}:${item.deviceId}`).sort();
+
+    it("should find every device's entries at a bib, point and run", async () => {
+      for (const item of [
+        entry(),
+        entry({ id: 'e2', deviceId: 'dev2' }),
+        entry({ id: 'e3', point: 'F' }),
+        entry({ id: 'e4', run: 2 }),
+        entry({ id: 'e5', bib: '0011' }),
+      ]) {
+        await saveRaceItem(redis.client, 'race1', 'entry', item, addOnly);
+      }
+
+      expect(
+        ids(await loadEntriesAt(redis.client, 'race1', at('001'))),
+      ).toEqual(['e1:dev1', 'e2:dev2']);
+    });
+
+    it('should follow edits and deletions', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ bib: '002' }),
+        replace,
+      );
+      expect(await loadEntriesAt(redis.client, 'race1', at('001'))).toEqual([]);
+      expect(
+        ids(await loadEntriesAt(redis.client, 'race1', at('002'))),
+      ).toEqual(['e1:dev1']);
+
+      await deleteRaceItems(redis.client, 'race1', 'entry', 'e1', 'dev1');
+      expect(await loadEntriesAt(redis.client, 'race1', at('002'))).toEqual([]);
+    });
+
+    it('should keep bibs with the separator apart', async () => {
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ bib: '1|x' }),
+        addOnly,
+      );
+      expect(await loadEntriesAt(redis.client, 'race1', at('1'))).toEqual([]);
+      expect(
+        ids(await loadEntriesAt(redis.client, 'race1', at('1|x'))),
+      ).toEqual(['e1:dev1']);
+    });
+
+    it('should build the index of races stored without one', async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      redis.zsets.delete('race:race1:entry_index');
+
+      expect(
+        ids(await loadEntriesAt(redis.client, 'race1', at('001'))),
+      ).toEqual(['e1:dev1']);
+      expect(redis.zsets.get('race:race1:entry_index')?.size).toBe(1);
+    });
+  });
+
+  describe('deleteRaceItems', () => {
+    it("should delete one device's item and log the change", async () => {
+      await saveRaceItem(redis.client, 'race1', 'entry', entry(), addOnly);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ deviceId: 'dev2' }),
+        addOnly,
+      );
+      vi.setSystemTime(9_000);
+
+      expect(
+        await deleteRaceItems(redis.client, 'race1', 'entry', 'e1', 'dev1'),
+      ).toEqual({ status: 'deleted', removed: 1 });
+      const { items, lastUpdated } = await loadRaceItems(
+        redis.client,
+        'race1',
+        'entry',
+      );
+      expect(items.map((item) => item.deviceId)).toEqual(['dev2']);
+      expect(lastUpdated).toBe(9_000);
+    });
+
+    it('should delete the item of every device without a device ID', async () => {
+      await saveRaceItem(redis.client, 'race1', 'fault', entry(), addOnly);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'fault',
+        entry({ deviceId: 'dev2' }),
+        addOnly,
+      );
+
+      expect(
+        await deleteRaceItems(redis.client, 'race1', 'fault', 'e1', ''),
+      ).toEqual({ status: 'deleted', removed: 2 });
+      expect(
+        await deleteRaceItems(redis.client, 'race1', 'fault', 'e1', ''),
+      ).toEqual({ status: 'deleted', removed: 0 });
+    });
+
+    it('should delete nothing when canDelete refuses one of the items', async () => {
+      await saveRaceItem(redis.client, 'race1', 'fault', entry(), addOnly);
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'fault',
+        entry({ deviceId: 'dev2', bib: '099' }),
+        addOnly,
+      );
+
+      expect(
+        await deleteRaceItems(redis.client, 'race1', 'fault', 'e1', '', {
+          canDelete: (item) => item.bib !== '099',
+        }),
+      ).toEqual({
+        status: 'kept',
+        item: expect.objectContaining({ deviceId: 'dev2' }),
+      });
+      const { items } = await loadRaceItems(redis.client, 'race1', 'fault');
+      expect(items).toHaveLength(2);
+    });
+  });
+
+  describe('legacy race blobs', () => {
+    beforeEach(() => {
+      redis.strings.set(
+        'race:race1',
+        JSON.stringify({
+          entries: [
+            entry({ syncedAt: 500, photo: 'data:image/png;base64,old' }),
+          ],
+          lastUpdated: 500,
+        }),
+      );
+    });
+
+    it('should read the blob before it is migrated', async () => {
+      expect(await getRaceItemsSummary(redis.client, 'race1', 'entry')).toEqual(
+        { exists: true, count: 1, lastUpdated: 500 },
+      );
+
+      const { items } = await loadRaceItems(redis.client, 'race1', 'entry', {
+        withPhotoFlags: true,
+      });
+      expect(items).toHaveLength(1);
+      expect(items[0]!.photo).toBeUndefined();
+      expect(items[0]!.hasPhoto).toBe(true);
+    });
+
+    it('should move the blob into per-item storage on the first write', async () => {
+      await saveRaceItem(
+        redis.client,
+        'race1',
+        'entry',
+        entry({ id: 'e2' }),
+        addOnly,
+      );
+
+      expect(redis.strings.has('race:race1')).toBe(false);
+      const { items, total } = await loadRaceItems(
+        redis.client,
+        'race1',
+        'entry',
+        { withPhotoFlags: true },
+      );
+      expect(total).toBe(2);
+      expect(items.find((item) => item.id === 'e1')!.hasPhoto).toBe(true);
+      expect(items.find((item) => item.id === 'e2')!.hasPhoto).toBeUndefined();
+      expect(redis.hashes.get('race:race1:entry_photos')!.get('e1:dev1')).toBe(
+        'data:image/png;base64,old',
+      );
+
+      // Migrated items keep their sync time in the change log
+      const delta = await loadRaceItems(redis.client, 'race1', 'entry', {
+        since: 600,
+      });
+      expect(delta.items.map((item) => item.id)).toEqual(['e2']);
+    });
+  });
+});
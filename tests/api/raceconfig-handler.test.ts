@@ -0,0 +1,583 @@
+/**
+ * API Tests - Race Config Endpoint (api/v1/raceconfig.ts)
+ *
+ * Tests GET (intermediate timing points) and POST (replace config,
+ * chiefJudge only). Covers: race ID validation, default config, role
+ * enforcement, body validation.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+  MAX_INTERMEDIATE_POINTS: 9,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  // Read, update and write back through the mock client (no WATCH retries)
+  atomicUpdate: vi.fn(
+    async (
+      client: any,
+      key: string,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const data = await client.get(key);
+      const outcome = updateFn(data ? JSON.parse(data) : defaultData);
+      if (outcome.abort) return outcome.result;
+      await client.set(key, JSON.stringify(outcome.data), 'EX', 86400);
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { atomicUpdate } from '../../api/lib/atomicOps.js';
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/raceconfig';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body, headers } as any;
+}
+
+function asChiefJudge() {
+  vi.mocked(validateAuth).mockResolvedValueOnce({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  });
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/raceconfig', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockResolvedValue(null);
+    vi.mocked(validateAuth).mockResolvedValue({
+      valid: true,
+      method: 'jwt',
+      payload: { role: 'timer' },
+    });
+  });
+
+  describe('Race ID Validation', () => {
+    it('should return 400 when raceId is missing', async () => {
+      await handler(makeReq('GET', {}), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'raceId is required',
+      );
+    });
+
+    it('should reject tokens not valid for the race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(makeReq('POST', { raceId: 'RACE-B' }), mockRes as any);
+      expect(authorizeRaceAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'jwt' }),
+        mockRedisClient,
+        'race-b',
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid raceId format', async () => {
+      await handler(makeReq('GET', { raceId: 'bad race!' }), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid raceId'),
+      );
+    });
+  });
+
+  describe('GET /api/v1/raceconfig', () => {
+    it('should return start and finish only when no config is stored', async () => {
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(mockRedisClient.get).toHaveBeenCalledWith('race:test:config');
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        intermediatePoints: 0,
+        points: ['S', 'F'],
+        runCount: 2,
+        primaryDevices: {},
+        courseGates: [],
+        protestDeadlines: {},
+        lastUpdated: null,
+        definition: null,
+      });
+    });
+
+    it('should return the stored config with its timing points', async () => {
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          intermediatePoints: 2,
+          runCount: 4,
+          lastUpdated: 1000,
+          updatedBy: 'Chief',
+        }),
+      );
+      await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        intermediatePoints: 2,
+        points: ['S', 'I1', 'I2', 'F'],
+        runCount: 4,
+        primaryDevices: {},
+        courseGates: [],
+        protestDeadlines: {},
+        lastUpdated: 1000,
+        definition: null,
+      });
+    });
+
+    it('should include the stored race definition', async () => {
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:definition'
+          ? JSON.stringify({
+              name: 'Club Championship',
+              discipline: 'GS',
+              gateCount: 45,
+              jury: [],
+              createdAt: 500,
+              lastUpdated: 1000,
+            })
+          : null,
+      );
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      const payload = vi.mocked(sendSuccess).mock.calls[0]![1] as any;
+      expect(payload.definition).toMatchObject({
+        name: 'Club Championship',
+        discipline: 'GS',
+        gateCount: 45,
+      });
+    });
+
+    it('should ignore out-of-range stored counts', async () => {
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          intermediatePoints: 42,
+          runCount: 0,
+          lastUpdated: 1000,
+        }),
+      );
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      const payload = vi.mocked(sendSuccess).mock.calls[0]![1] as any;
+      expect(payload.intermediatePoints).toBe(0);
+      expect(payload.points).toEqual(['S', 'F']);
+      expect(payload.runCount).toBe(2);
+    });
+  });
+
+  describe('POST /api/v1/raceconfig', () => {
+    const validBody = { intermediatePoints: 3, deviceName: 'Chief' };
+
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Race config changes require Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for too many intermediate points', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { intermediatePoints: 10 }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race config'),
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should store the config when user is chiefJudge', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:test:config',
+        expect.any(String),
+        'EX',
+        86400,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored).toMatchObject({
+        intermediatePoints: 3,
+        updatedBy: 'Chief',
+      });
+      expect(typeof stored.lastUpdated).toBe('number');
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          success: true,
+          points: ['S', 'I1', 'I2', 'I3', 'F'],
+        }),
+      );
+    });
+
+    it('should store the run count when provided', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { ...validBody, runCount: 5 }),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.runCount).toBe(5);
+    });
+
+    it('should keep the stored run count when none is provided', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({ intermediatePoints: 1, runCount: 4, lastUpdated: 1 }),
+      );
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored).toMatchObject({ intermediatePoints: 3, runCount: 4 });
+    });
+
+    it('should store the primary devices when provided', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { ...validBody, primaryDevices: { F: 'dev_finish1' } },
+        ),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.primaryDevices).toEqual({ F: 'dev_finish1' });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ primaryDevices: { F: 'dev_finish1' } }),
+      );
+    });
+
+    it('should keep the stored primary devices when none are provided', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          intermediatePoints: 1,
+          runCount: 2,
+          primaryDevices: { S: 'dev_start1', X: 'dev_bad', F: 'nope' },
+          lastUpdated: 1,
+        }),
+      );
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.primaryDevices).toEqual({ S: 'dev_start1' });
+    });
+
+    it('should store the course gates when provided', async () => {
+      asChiefJudge();
+      const courseGates = [
+        { number: 2, color: 'blue', latitude: 47.1002, longitude: 11.2001 },
+        { number: 1, color: 'red', latitude: 47.1, longitude: 11.2 },
+      ];
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { ...validBody, courseGates }),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(
+        stored.courseGates.map((g: { number: number }) => g.number),
+      ).toEqual([1, 2]);
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ courseGates: stored.courseGates }),
+      );
+    });
+
+    it('should keep the stored course gates when none are provided', async () => {
+      asChiefJudge();
+      const courseGates = [
+        { number: 1, color: 'red', latitude: 47.1, longitude: 11.2 },
+      ];
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          intermediatePoints: 0,
+          runCount: 2,
+          courseGates,
+          lastUpdated: 1,
+        }),
+      );
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.courseGates).toEqual(courseGates);
+    });
+
+    it('should store the protest deadlines when provided', async () => {
+      asChiefJudge();
+      const protestDeadlines = { '1': 1768478400000, '2': 1768485600000 };
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { ...validBody, protestDeadlines }),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.protestDeadlines).toEqual(protestDeadlines);
+    });
+
+    it('should merge only the sent sections into the stored config', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          intermediatePoints: 2,
+          runCount: 3,
+          primaryDevices: { S: 'dev_start1' },
+          protestDeadlines: { '1': 1768478400000 },
+          lastUpdated: 1,
+        }),
+      );
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { runCount: 1, deviceName: 'Chief 2' },
+        ),
+        mockRes as any,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored).toMatchObject({
+        intermediatePoints: 2,
+        runCount: 1,
+        primaryDevices: { S: 'dev_start1' },
+        protestDeadlines: { '1': 1768478400000 },
+        updatedBy: 'Chief 2',
+      });
+    });
+
+    it('should return 409 when concurrent changes keep conflicting', async () => {
+      asChiefJudge();
+      vi.mocked(atomicUpdate).mockResolvedValueOnce({
+        success: false,
+        error: 'Concurrent modification conflict, please retry',
+        existing: null,
+      });
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Concurrent modification conflict, please retry',
+        409,
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a protest deadline of an invalid run', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { ...validBody, protestDeadlines: { '0': 1768478400000 } },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race config'),
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a course gate outside the valid coordinates', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            ...validBody,
+            courseGates: [
+              { number: 1, color: 'red', latitude: 91, longitude: 11.2 },
+            ],
+          },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race config'),
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a primary device of an unknown point', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { ...validBody, primaryDevices: { X1: 'dev_finish1' } },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race config'),
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,510 @@
+/**
+ * API Tests - Race Definition Endpoint (api/v1/admin/racedefinition.ts)
+ *
+ * Tests GET (definition with runs and default penalty rule) and POST
+ * (create/replace, chiefJudge only). Covers: race ID validation, race
+ * access, role enforcement, body validation, write-through of runs and
+ * penalty rule to the race config and penalty config.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+  MAX_HOMOLOGATION_LENGTH: 30,
+  MAX_RACE_NAME_LENGTH: 100,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  atomicUpdate: vi.fn(
+    async (
+      client: any,
+      key: string,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const data = await client.get(key);
+      const outcome = updateFn(data ? JSON.parse(data) : defaultData);
+      if (outcome.abort) return outcome.result;
+      await client.set(key, JSON.stringify(outcome.data), 'EX', 86400);
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { atomicUpdate } from '../../api/lib/atomicOps.js';
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/admin/racedefinition';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body, headers } as any;
+}
+
+function asChiefJudge() {
+  vi.mocked(validateAuth).mockResolvedValueOnce({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  });
+}
+
+/** Stored value written for a key by the handler */
+function storedValue(key: string): any {
+  const call = mockRedisClient.set.mock.calls.find((c) => c[0] === key);
+  return call ? JSON.parse(call[1]) : undefined;
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/admin/racedefinition', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  const validBody = {
+    name: 'Club Championship',
+    date: '2026-02-14',
+    venue: 'Hochfügen',
+    discipline: 'GS',
+    runCount: 2,
+    gateCount: 45,
+    homologationNumber: '12345/01/26',
+    jury: [{ role: 'technicalDelegate', name: 'Anna Berger' }],
+    penalty: { usePenaltyMode: true, penaltySeconds: 3 },
+    deviceName: 'Chief',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockResolvedValue(null);
+    vi.mocked(validateAuth).mockResolvedValue({
+      valid: true,
+      method: 'jwt',
+      payload: { role: 'timer' },
+    });
+    vi.mocked(authorizeRaceAccess).mockResolvedValue({ allowed: true });
+  });
+
+  describe('Race ID Validation', () => {
+    it('should return 400 when raceId is missing', async () => {
+      await handler(makeReq('GET', {}), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'raceId is required',
+      );
+    });
+
+    it('should reject tokens not valid for the race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(mockRedisClient.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/admin/racedefinition', () => {
+    it('should return no definition with default runs and penalty', async () => {
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(mockRedisClient.get).toHaveBeenCalledWith('race:test:definition');
+      const payload = vi.mocked(sendSuccess).mock.calls[0]![1] as any;
+      expect(payload).toMatchObject({
+        definition: null,
+        runCount: 2,
+        penalty: { usePenaltyMode: true, penaltySeconds: 5 },
+      });
+    });
+
+    it('should return the stored definition', async () => {
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:definition'
+          ? JSON.stringify({
+              name: 'Club Championship',
+              discipline: 'SL',
+              gateCount: 60,
+              jury: [],
+              createdAt: 500,
+              lastUpdated: 1000,
+            })
+          : null,
+      );
+      await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+      const payload = vi.mocked(sendSuccess).mock.calls[0]![1] as any;
+      expect(payload.definition).toMatchObject({
+        name: 'Club Championship',
+        discipline: 'SL',
+        gateCount: 60,
+      });
+    });
+  });
+
+  describe('POST /api/v1/admin/racedefinition', () => {
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Race definition changes require Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an unknown discipline', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { ...validBody, discipline: 'DH' }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race definition'),
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for too many gates', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { ...validBody, gateCount: 101 }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race definition'),
+      );
+    });
+
+    it('should store the definition, runs and penalty rule', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+
+      expect(storedValue('race:test:definition')).toMatchObject({
+        name: 'Club Championship',
+        date: '2026-02-14',
+        discipline: 'GS',
+        gateCount: 45,
+        homologationNumber: '12345/01/26',
+        jury: [{ role: 'technicalDelegate', name: 'Anna Berger' }],
+        updatedBy: 'Chief',
+      });
+      expect(storedValue('race:test:config')).toMatchObject({
+        intermediatePoints: 0,
+        runCount: 2,
+      });
+      expect(storedValue('race:test:penalties')).toMatchObject({
+        usePenaltyMode: true,
+        penaltySeconds: 3,
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true, runCount: 2 }),
+      );
+    });
+
+    it('should keep timing points, category rules and creation time', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockImplementation(async (key: string) => {
+        if (key === 'race:test:definition') {
+          return JSON.stringify({
+            name: 'Old name',
+            discipline: 'SL',
+            gateCount: 50,
+            jury: [],
+            createdAt: 500,
+            lastUpdated: 1000,
+          });
+        }
+        if (key === 'race:test:config') {
+          return JSON.stringify({
+            intermediatePoints: 2,
+            runCount: 1,
+            lastUpdated: 1000,
+          });
+        }
+        if (key === 'race:test:penalties') {
+          return JSON.stringify({
+            usePenaltyMode: false,
+            penaltySeconds: 5,
+            rules: { U10: { usePenaltyMode: true, penaltySeconds: 2 } },
+            lastUpdated: 1000,
+          });
+        }
+        return null;
+      });
+
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+
+      expect(storedValue('race:test:definition')).toMatchObject({
+        name: 'Club Championship',
+        createdAt: 500,
+      });
+      expect(storedValue('race:test:config')).toMatchObject({
+        intermediatePoints: 2,
+        runCount: 2,
+      });
+      expect(storedValue('race:test:penalties').rules).toEqual({
+        U10: { usePenaltyMode: true, penaltySeconds: 2 },
+      });
+    });
+
+    it('should keep the stored runs when none are given', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:config'
+          ? JSON.stringify({ intermediatePoints: 1, runCount: 1 })
+          : null,
+      );
+      const { runCount: _runCount, ...bodyWithoutRuns } = validBody;
+      await handler(
+        makeReq('POST', { raceId: 'test' }, bodyWithoutRuns),
+        mockRes as any,
+      );
+      expect(storedValue('race:test:config')).toMatchObject({
+        intermediatePoints: 1,
+        runCount: 1,
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true, runCount: 1 }),
+      );
+    });
+
+    it('should return 409 when concurrent changes keep conflicting', async () => {
+      asChiefJudge();
+      vi.mocked(atomicUpdate).mockResolvedValueOnce({
+        success: false,
+        error: 'Concurrent modification conflict, please retry',
+        existing: null,
+      });
+      await handler(
+        makeReq('POST', { raceId: 'test' }, validBody),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Concurrent modification conflict, please retry',
+        409,
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should replace the category rules when sent', async () => {
+      asChiefJudge();
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:penalties'
+          ? JSON.stringify({
+              usePenaltyMode: true,
+              penaltySeconds: 3,
+              rules: { U10: { usePenaltyMode: true, penaltySeconds: 2 } },
+            })
+          : null,
+      );
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            ...validBody,
+            penalty: {
+              usePenaltyMode: true,
+              penaltySeconds: 3,
+              rules: { U8: { usePenaltyMode: false, penaltySeconds: 0 } },
+            },
+          },
+        ),
+        mockRes as any,
+      );
+      expect(storedValue('race:test:penalties').rules).toEqual({
+        U8: { usePenaltyMode: false, penaltySeconds: 0 },
+      });
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          penalty: expect.objectContaining({
+            rules: { U8: { usePenaltyMode: false, penaltySeconds: 0 } },
+          }),
+        }),
+      );
+    });
+
+    it('should return 400 for an invalid category rule', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            ...validBody,
+            penalty: {
+              usePenaltyMode: true,
+              penaltySeconds: 3,
+              rules: { U10: { usePenaltyMode: true, penaltySeconds: -1 } },
+            },
+          },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid race definition'),
+      );
+    });
+
+    it('should leave the penalty config alone when no rule is given', async () => {
+      asChiefJudge();
+      const { penalty: _penalty, ...bodyWithoutPenalty } = validBody;
+      await handler(
+        makeReq('POST', { raceId: 'test' }, bodyWithoutPenalty),
+        mockRes as any,
+      );
+      expect(storedValue('race:test:penalties')).toBeUndefined();
+      expect(storedValue('race:test:definition')).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,486 @@
+/**
+ * API Tests - Results Endpoint (api/v1/results.ts)
+ *
+ * Tests GET (ranked results) and POST (publish to the public live page).
+ * Covers: race ID validation, penalty config query params, per-category
+ * penalty rules, ranking from stored entries/faults, start list names and
+ * Chief Judge-only publishing.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  hset: vi.fn().mockReturnThis(),
+  hsetnx: vi.fn().mockReturnThis(),
+  hdel: vi.fn().mockReturnThis(),
+  zadd: vi.fn().mockReturnThis(),
+  del: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  hget: vi.fn().mockResolvedValue(null),
+  hexists: vi.fn().mockResolvedValue(0),
+  hlen: vi.fn().mockResolvedValue(0),
+  hsetnx: vi.fn().mockResolvedValue(1),
+  hvals: vi.fn().mockResolvedValue([]),
+  hmget: vi.fn().mockResolvedValue([]),
+  hkeys: vi.fn().mockResolvedValue([]),
+  zrange: vi.fn().mockResolvedValue([]),
+  zrangebyscore: vi.fn().mockResolvedValue([]),
+  exists: vi.fn().mockResolvedValue(0),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+  MAX_PENALTY_SECONDS: 60,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  atomicUpdate: vi.fn(
+    async (
+      _client: any,
+      _key: any,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const outcome = updateFn(JSON.parse(JSON.stringify(defaultData)));
+      if (outcome.abort) return outcome.result;
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendMethodNotAllowed,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/results';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+) {
+  return { method, query, body, headers: {} } as any;
+}
+
+function mockChiefJudge() {
+  vi.mocked(validateAuth).mockResolvedValueOnce({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  } as any);
+}
+
+const stored: Record<string, string> = {
+  'race:test': JSON.stringify({
+    entries: [
+      {
+        id: '1',
+        bib: '001',
+        point: 'S',
+        run: 1,
+        timestamp: '2024-01-15T10:00:00.000Z',
+      },
+      {
+        id: '2',
+        bib: '001',
+        point: 'F',
+        run: 1,
+        timestamp: '2024-01-15T10:00:45.000Z',
+      },
+      {
+        id: '3',
+        bib: '002',
+        point: 'S',
+        run: 1,
+        timestamp: '2024-01-15T10:01:00.000Z',
+      },
+      {
+        id: '4',
+        bib: '002',
+        point: 'F',
+        run: 1,
+        timestamp: '2024-01-15T10:01:47.000Z',
+      },
+    ],
+    lastUpdated: 1000,
+  }),
+  'race:test:faults': JSON.stringify({
+    faults: [{ id: 'f1', bib: '001', run: 1, markedForDeletion: false }],
+  }),
+  'race:test:startlist': JSON.stringify({
+    racers: [{ bib: '001', name: 'Huber Anna', club: 'SC Garmisch' }],
+  }),
+};
+
+function lastSuccessPayload(): any {
+  return vi.mocked(sendSuccess).mock.calls.at(-1)![1];
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/results', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockImplementation(
+      async (key: string) => stored[key] ?? null,
+    );
+  });
+
+  it('should reject unsupported methods', async () => {
+    await handler(makeReq('DELETE', { raceId: 'test' }), mockRes as any);
+    expect(sendMethodNotAllowed).toHaveBeenCalled();
+  });
+
+  it('should return 400 when raceId is missing', async () => {
+    await handler(makeReq('GET', {}), mockRes as any);
+    expect(sendBadRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      'raceId is required',
+    );
+  });
+
+  it('should reject tokens not valid for the race', async () => {
+    vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+      allowed: false,
+      error: 'Token is not valid for this race',
+      status: 403,
+    });
+    await handler(makeReq('POST', { raceId: 'RACE-B' }), mockRes as any);
+    expect(authorizeRaceAccess).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'jwt' }),
+      mockRedisClient,
+      'race-b',
+    );
+    expect(sendError).toHaveBeenCalledWith(
+      expect.anything(),
+      'Token is not valid for this race',
+      403,
+      {},
+    );
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid penalty config', async () => {
+    await handler(
+      makeReq('GET', { raceId: 'test', penaltyMode: 'bogus' }),
+      mockRes as any,
+    );
+    expect(sendBadRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('Invalid penalty config'),
+    );
+
+    await handler(
+      makeReq('GET', { raceId: 'test', penaltySeconds: '99' }),
+      mockRes as any,
+    );
+    expect(sendBadRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return empty results for an unknown race', async () => {
+    await handler(makeReq('GET', { raceId: 'unknown' }), mockRes as any);
+    expect(lastSuccessPayload()).toMatchObject({
+      runs: [],
+      combined: [],
+      racers: {},
+      lastUpdated: null,
+    });
+  });
+
+  it('should rank racers with default penalty mode (5s per fault)', async () => {
+    await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+
+    const payload = lastSuccessPayload();
+    expect(payload.runs).toEqual([1]);
+    // 001: 45s + 5s penalty = 50s > 002: 47s
+    expect(
+      payload.byRun[1].map((r: any) => [r.bib, r.rank, r.totalTime]),
+    ).toEqual([
+      ['002', 1, 47000],
+      ['001', 2, 50000],
+    ]);
+    expect(payload.racers).toEqual({
+      '001': { name: 'Huber Anna', club: 'SC Garmisch' },
+    });
+    expect(payload.penalty).toMatchObject({
+      usePenaltyMode: true,
+      penaltySeconds: 5,
+    });
+    expect(payload.lastUpdated).toBe(1000);
+  });
+
+  it('should apply penalty config from query params', async () => {
+    await handler(
+      makeReq('GET', { raceId: 'test', penaltyMode: 'dsq' }),
+      mockRes as any,
+    );
+
+    const run1 = lastSuccessPayload().byRun[1];
+    expect(run1.map((r: any) => [r.bib, r.status])).toEqual([
+      ['002', 'ok'],
+      ['001', 'dsq'],
+    ]);
+  });
+
+  it('should apply the race penalty rule of the racer age category', async () => {
+    mockRedisClient.get.mockImplementation(async (key: string) => {
+      if (key === 'race:test:startlist') {
+        return JSON.stringify({
+          racers: [{ bib: '001', name: 'Huber Anna', ageCategory: 'U12' }],
+        });
+      }
+      if (key === 'race:test:penalties') {
+        return JSON.stringify({
+          usePenaltyMode: true,
+          penaltySeconds: 5,
+          rules: { U12: { usePenaltyMode: false, penaltySeconds: 5 } },
+          lastUpdated: 2000,
+        });
+      }
+      return stored[key] ?? null;
+    });
+
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+
+    const payload = lastSuccessPayload();
+    expect(payload.byRun[1].map((r: any) => [r.bib, r.status])).toEqual([
+      ['002', 'ok'],
+      ['001', 'dsq'],
+    ]);
+    expect(payload.penalty.rules).toEqual({
+      U12: { usePenaltyMode: false, penaltySeconds: 5 },
+    });
+  });
+
+  it('should ignore category rules when query params override the config', async () => {
+    mockRedisClient.get.mockImplementation(async (key: string) => {
+      if (key === 'race:test:startlist') {
+        return JSON.stringify({
+          racers: [{ bib: '001', name: 'Huber Anna', ageCategory: 'U12' }],
+        });
+      }
+      return stored[key] ?? null;
+    });
+
+    await handler(
+      makeReq('GET', { raceId: 'test', penaltySeconds: '1' }),
+      mockRes as any,
+    );
+
+    const payload = lastSuccessPayload();
+    expect(payload.byRun[1][0]).toMatchObject({
+      bib: '001',
+      status: 'flt',
+      totalTime: 46000,
+    });
+    expect(payload.penalty.rules).toEqual({});
+  });
+
+  it('should fall back to backup times when the primary device has none', async () => {
+    mockRedisClient.get.mockImplementation(async (key: string) =>
+      key === 'race:test:config'
+        ? JSON.stringify({
+            intermediatePoints: 0,
+            runCount: 2,
+            primaryDevices: { F: 'dev_finish1' },
+            lastUpdated: 1,
+          })
+        : (stored[key] ?? null),
+    );
+
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+
+    expect(lastSuccessPayload().byRun[1][0]).toMatchObject({
+      bib: '002',
+      totalTime: 47000,
+      backupPoints: ['F'],
+    });
+  });
+
+  it('should report whether results are published', async () => {
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+    expect(lastSuccessPayload().published).toBe(false);
+
+    mockRedisClient.get.mockImplementation(async (key: string) =>
+      key === 'race:test:public'
+        ? JSON.stringify({ publishedAt: 1 })
+        : (stored[key] ?? null),
+    );
+    await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+    expect(lastSuccessPayload().published).toBe(true);
+  });
+
+  describe('POST (publish)', () => {
+    it('should reject non-chiefJudge roles', async () => {
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { published: true }),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Publishing results requires Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid body', async () => {
+      mockChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { published: 'yes' }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid request'),
+      );
+    });
+
+    it('should set the public flag when publishing', async () => {
+      mockChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'TEST' }, { published: true }),
+        mockRes as any,
+      );
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:test:public',
+        expect.any(String),
+        'EX',
+        86400,
+      );
+      expect(lastSuccessPayload()).toEqual({ success: true, published: true });
+    });
+
+    it('should delete the public flag when unpublishing', async () => {
+      mockChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { published: false }),
+        mockRes as any,
+      );
+      expect(mockRedisClient.del).toHaveBeenCalledWith('race:test:public');
+      expect(lastSuccessPayload()).toEqual({ success: true, published: false });
+    });
+  });
+});
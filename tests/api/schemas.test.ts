@@ -18,11 +18,17 @@ import {
   FaultPostBodySchema,
   FaultTypeSchema,
   GateRangeSchema,
+  PenaltyConfigPostBodySchema,
+  PenaltyRuleSchema,
   PinSchema,
+  RaceConfigPostBodySchema,
+  RaceDefinitionPostBodySchema,
   RaceIdSchema,
+  RacerSchema,
   ResetPinBodySchema,
   RoleSchema,
   RunSchema,
+  StartListPostBodySchema,
   SyncDeleteBodySchema,
   SyncPostBodySchema,
   TimestampSchema,
@@ -157,14 +163,17 @@ describe('Valibot Schemas', () => {
   });
 
   describe('RunSchema', () => {
-    it('should accept 1 and 2', () => {
+    it('should accept runs 1 to 9', () => {
       expect(isValid(RunSchema, 1)).toBe(true);
       expect(isValid(RunSchema, 2)).toBe(true);
+      expect(isValid(RunSchema, 3)).toBe(true);
+      expect(isValid(RunSchema, 9)).toBe(true);
     });
 
     it('should reject other numbers', () => {
       expect(isValid(RunSchema, 0)).toBe(false);
-      expect(isValid(RunSchema, 3)).toBe(false);
+      expect(isValid(RunSchema, 10)).toBe(false);
+      expect(isValid(RunSchema, 1.5)).toBe(false);
     });
 
     it('should reject string versions', () => {
@@ -178,8 +187,15 @@ describe('Valibot Schemas', () => {
       expect(isValid(TimingPointSchema, 'F')).toBe(true);
     });
 
+    it('should accept intermediate points I1-I9', () => {
+      expect(isValid(TimingPointSchema, 'I1')).toBe(true);
+      expect(isValid(TimingPointSchema, 'I9')).toBe(true);
+    });
+
     it('should reject other values', () => {
       expect(isValid(TimingPointSchema, 'X')).toBe(false);
+      expect(isValid(TimingPointSchema, 'I0')).toBe(false);
+      expect(isValid(TimingPointSchema, 'I10')).toBe(false);
       expect(isValid(TimingPointSchema, 's')).toBe(false);
       expect(isValid(TimingPointSchema, '')).toBe(false);
     });
@@ -325,7 +341,7 @@ describe('Valibot Schemas', () => {
     });
 
     it('should reject entry with invalid run', () => {
-      expect(isValid(EntrySchema, { ...validEntry, run: 3 })).toBe(false);
+      expect(isValid(EntrySchema, { ...validEntry, run: 10 })).toBe(false);
     });
 
     it('should reject entry with id of 0', () => {
@@ -667,6 +683,220 @@ describe('Valibot Schemas', () => {
     });
   });
 
+  // ─── Start List Schemas ───
+
+  describe('RacerSchema', () => {
+    it('should accept racer with bib and name only', () => {
+      expect(isValid(RacerSchema, { bib: '001', name: 'Huber Anna' })).toBe(
+        true,
+      );
+    });
+
+    it('should accept racer with all optional fields', () => {
+      expect(
+        isValid(RacerSchema, {
+          bib: '001',
+          name: 'Huber Anna',
+          club: 'SC Garmisch',
+          nation: 'GER',
+          gender: 'F',
+          ageCategory: 'U10',
+          birthYear: 2016,
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject missing name', () => {
+      expect(isValid(RacerSchema, { bib: '001' })).toBe(false);
+    });
+
+    it('should reject invalid gender and age category', () => {
+      expect(isValid(RacerSchema, { bib: '1', name: 'A', gender: 'X' })).toBe(
+        false,
+      );
+      expect(
+        isValid(RacerSchema, { bib: '1', name: 'A', ageCategory: 'U99' }),
+      ).toBe(false);
+    });
+  });
+
+  describe('StartListPostBodySchema', () => {
+    it('should accept racers array', () => {
+      expect(
+        isValid(StartListPostBodySchema, {
+          racers: [{ bib: '001', name: 'Huber Anna' }],
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject missing racers', () => {
+      expect(isValid(StartListPostBodySchema, {})).toBe(false);
+    });
+  });
+
+  describe('PenaltyRuleSchema', () => {
+    it('should accept seconds within 0-60', () => {
+      expect(
+        isValid(PenaltyRuleSchema, { usePenaltyMode: true, penaltySeconds: 0 }),
+      ).toBe(true);
+      expect(
+        isValid(PenaltyRuleSchema, {
+          usePenaltyMode: false,
+          penaltySeconds: 60,
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject out-of-range or fractional seconds', () => {
+      expect(
+        isValid(PenaltyRuleSchema, {
+          usePenaltyMode: true,
+          penaltySeconds: 61,
+        }),
+      ).toBe(false);
+      expect(
+        isValid(PenaltyRuleSchema, {
+          usePenaltyMode: true,
+          penaltySeconds: 1.5,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('PenaltyConfigPostBodySchema', () => {
+    it('should accept default rule with category rules', () => {
+      expect(
+        isValid(PenaltyConfigPostBodySchema, {
+          usePenaltyMode: true,
+          penaltySeconds: 5,
+          rules: { U12: { usePenaltyMode: false, penaltySeconds: 5 } },
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject missing rules', () => {
+      expect(
+        isValid(PenaltyConfigPostBodySchema, {
+          usePenaltyMode: true,
+          penaltySeconds: 5,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('RaceConfigPostBodySchema', () => {
+    it('should accept 0-9 intermediate points', () => {
+      expect(isValid(RaceConfigPostBodySchema, { intermediatePoints: 0 })).toBe(
+        true,
+      );
+      expect(
+        isValid(RaceConfigPostBodySchema, {
+          intermediatePoints: 9,
+          deviceName: 'Chief',
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject out-of-range or fractional counts', () => {
+      expect(
+        isValid(RaceConfigPostBodySchema, { intermediatePoints: 10 }),
+      ).toBe(false);
+      expect(
+        isValid(RaceConfigPostBodySchema, { intermediatePoints: -1 }),
+      ).toBe(false);
+      expect(
+        isValid(RaceConfigPostBodySchema, { intermediatePoints: 1.5 }),
+      ).toBe(false);
+    });
+
+    it('should accept an optional run count of 1-9', () => {
+      expect(
+        isValid(RaceConfigPostBodySchema, {
+          intermediatePoints: 0,
+          runCount: 4,
+        }),
+      ).toBe(true);
+      expect(
+        isValid(RaceConfigPostBodySchema, {
+          intermediatePoints: 0,
+          runCount: 0,
+        }),
+      ).toBe(false);
+      expect(
+        isValid(RaceConfigPostBodySchema, {
+          intermediatePoints: 0,
+          runCount: 10,
+        }),
+      ).toBe(false);
+    });
+  });
+
+  describe('RaceDefinitionPostBodySchema', () => {
+    const definition = {
+      name: 'Club Championship',
+      discipline: 'SL',
+      runCount: 2,
+      gateCount: 55,
+    };
+
+    it('should accept a minimal and a full definition', () => {
+      expect(isValid(RaceDefinitionPostBodySchema, definition)).toBe(true);
+      expect(
+        isValid(RaceDefinitionPostBodySchema, {
+          ...definition,
+          date: '2026-02-14',
+          venue: 'Hochfügen',
+          homologationNumber: '12345/01/26',
+          jury: [{ role: 'referee', name: 'Max Huber' }],
+          penalty: { usePenaltyMode: false, penaltySeconds: 5 },
+          deviceName: 'Chief',
+        }),
+      ).toBe(true);
+    });
+
+    it('should reject unknown disciplines and jury roles', () => {
+      expect(
+        isValid(RaceDefinitionPostBodySchema, {
+          ...definition,
+          discipline: 'DH',
+        }),
+      ).toBe(false);
+      expect(
+        isValid(RaceDefinitionPostBodySchema, {
+          ...definition,
+          jury: [{ role: 'coach', name: 'Max Huber' }],
+        }),
+      ).toBe(false);
+    });
+
+    it('should reject an empty name or malformed date', () => {
+      expect(
+        isValid(RaceDefinitionPostBodySchema, { ...definition, name: '' }),
+      ).toBe(false);
+      expect(
+        isValid(RaceDefinitionPostBodySchema, {
+          ...definition,
+          date: '14.02.2026',
+        }),
+      ).toBe(false);
+    });
+
+    it('should reject out-of-range gate and run counts', () => {
+      expect(
+        isValid(RaceDefinitionPostBodySchema, { ...definition, gateCount: 0 }),
+      ).toBe(false);
+      expect(
+        isValid(RaceDefinitionPostBodySchema, {
+          ...definition,
+          gateCount: 101,
+        }),
+      ).toBe(false);
+      expect(
+        isValid(RaceDefinitionPostBodySchema, { ...definition, runCount: 10 }),
+      ).toBe(false);
+    });
+  });
+
   // ─── validate() helper ───
 
   describe('validate()', () => {
@@ -32,6 +32,12 @@ const API_ENDPOINTS = [
   'api/v1/auth/token.ts',
   'api/v1/sync.ts',
   'api/v1/faults.ts',
+  'api/v1/startlist.ts',
+  'api/v1/penalties.ts',
+  'api/v1/raceconfig.ts',
+  'api/v1/results.ts',
+  'api/v1/stream.ts',
+  'api/v1/public/results.ts',
   'api/v1/admin/races.ts',
   'api/v1/admin/pin.ts',
   'api/v1/admin/reset-pin.ts',
@@ -43,6 +49,12 @@ const HANDLER_ENDPOINTS = [
   'api/v1/auth/token.ts',
   'api/v1/sync.ts',
   'api/v1/faults.ts',
+  'api/v1/startlist.ts',
+  'api/v1/penalties.ts',
+  'api/v1/raceconfig.ts',
+  'api/v1/results.ts',
+  'api/v1/stream.ts',
+  'api/v1/public/results.ts',
   'api/v1/admin/races.ts',
   'api/v1/admin/pin.ts',
   'api/v1/voice.ts',
@@ -68,6 +80,11 @@ describe('Security Patterns - Source Code Assertions', () => {
     const endpointsRequiringAuth = [
       'api/v1/sync.ts',
       'api/v1/faults.ts',
+      'api/v1/startlist.ts',
+      'api/v1/penalties.ts',
+      'api/v1/raceconfig.ts',
+      'api/v1/results.ts',
+      'api/v1/stream.ts',
       'api/v1/admin/races.ts',
       'api/v1/admin/pin.ts',
       'api/v1/voice.ts',
@@ -151,6 +168,11 @@ describe('Security Patterns - Source Code Assertions', () => {
     const rateLimitedViaHandler = [
       'api/v1/sync.ts',
       'api/v1/faults.ts',
+      'api/v1/startlist.ts',
+      'api/v1/penalties.ts',
+      'api/v1/raceconfig.ts',
+      'api/v1/results.ts',
+      'api/v1/public/results.ts',
       'api/v1/voice.ts',
     ];
 
@@ -307,6 +329,37 @@ describe('Security Patterns - Source Code Assertions', () => {
       expect(faultsSource).toContain('isValidRaceId');
     });
 
+    it('race data endpoints should authorize race access for race-scoped PINs', () => {
+      expect(readSource('api/lib/handler.ts')).toContain('authorizeRaceAccess');
+      for (const file of [
+        'api/v1/sync.ts',
+        'api/v1/faults.ts',
+        'api/v1/photos.ts',
+        'api/v1/protests.ts',
+        'api/v1/startlist.ts',
+        'api/v1/penalties.ts',
+        'api/v1/results.ts',
+        'api/v1/raceconfig.ts',
+        'api/v1/admin/racedefinition.ts',
+      ]) {
+        expect(readSource(file)).toContain('raceAccess: true');
+      }
+    });
+
+    it('stream.ts should validate raceId and authorize race access', () => {
+      const source = readSource('api/v1/stream.ts');
+      expect(source).toContain('isValidRaceId');
+      expect(source).toContain('raceAccess: true');
+    });
+
+    it('public/results.ts should only serve published races without device data', () => {
+      const source = readSource('api/v1/public/results.ts');
+      expect(source).toContain('isValidRaceId');
+      expect(source).toContain('getPublicResultsKey');
+      expect(source).toContain('toPublicEntry');
+      expect(source).not.toContain('auth: true');
+    });
+
     it('sync.ts should sanitize device strings', () => {
       const source = readSource('api/v1/sync.ts');
       expect(source).toContain('sanitizeString');
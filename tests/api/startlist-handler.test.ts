@@ -0,0 +1,344 @@
+/**
+ * API Tests - Start List Endpoint (api/v1/startlist.ts)
+ *
+ * Tests GET (fetch start list), POST (replace start list), DELETE (clear).
+ * Covers: race ID validation, chiefJudge-only writes, racer validation,
+ * sanitization and duplicate bib handling.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockMultiResult = {
+  incr: vi.fn().mockReturnThis(),
+  expire: vi.fn().mockReturnThis(),
+  set: vi.fn().mockReturnThis(),
+  exec: vi.fn().mockResolvedValue([[null, 1]]),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  set: vi.fn().mockResolvedValue('OK'),
+  del: vi.fn().mockResolvedValue(1),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  smembers: vi.fn().mockResolvedValue([]),
+  sadd: vi.fn().mockResolvedValue(1),
+  multi: vi.fn(() => mockMultiResult),
+  watch: vi.fn().mockResolvedValue('OK'),
+  unwatch: vi.fn().mockResolvedValue('OK'),
+  expire: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 100,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  atomicUpdate: vi.fn(
+    async (
+      _client: any,
+      _key: any,
+      defaultData: any,
+      updateFn: any,
+      _name: string,
+    ) => {
+      const outcome = updateFn(JSON.parse(JSON.stringify(defaultData)));
+      if (outcome.abort) return outcome.result;
+      return outcome.result;
+    },
+  ),
+  CACHE_EXPIRY_SECONDS: 86400,
+  MAX_ATOMIC_RETRIES: 5,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str
+      .slice(0, maxLen)
+      .replace(/[<>&]/g, '')
+      .replace(/[\x00-\x1f\x7f]/g, '');
+  }),
+  safeJsonParse: vi.fn((str: string | null, defaultValue: any) => {
+    if (str === null || str === undefined || str === '') return defaultValue;
+    try {
+      return JSON.parse(str);
+    } catch {
+      return defaultValue;
+    }
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendSuccess,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/startlist';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(
+  method: string,
+  query: Record<string, any> = {},
+  body: any = null,
+  headers: Record<string, string> = {},
+) {
+  return { method, query, body, headers } as any;
+}
+
+function asChiefJudge() {
+  vi.mocked(validateAuth).mockResolvedValueOnce({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'chiefJudge' },
+  });
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/startlist', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+    mockRedisClient.get.mockResolvedValue(null);
+    vi.mocked(validateAuth).mockResolvedValue({
+      valid: true,
+      method: 'jwt',
+      payload: { role: 'timer' },
+    });
+  });
+
+  describe('Race ID Validation', () => {
+    it('should return 400 when raceId is missing', async () => {
+      await handler(makeReq('GET', {}), mockRes as any);
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'raceId is required',
+      );
+    });
+
+    it('should reject tokens not valid for the race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(makeReq('POST', { raceId: 'RACE-B' }), mockRes as any);
+      expect(authorizeRaceAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'jwt' }),
+        mockRedisClient,
+        'race-b',
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/v1/startlist', () => {
+    it('should return empty list when none is stored', async () => {
+      await handler(makeReq('GET', { raceId: 'test' }), mockRes as any);
+      expect(mockRedisClient.get).toHaveBeenCalledWith('race:test:startlist');
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        racers: [],
+        lastUpdated: null,
+      });
+    });
+
+    it('should return stored racers for any authenticated role', async () => {
+      mockRedisClient.get.mockResolvedValueOnce(
+        JSON.stringify({
+          racers: [{ bib: '001', name: 'Huber Anna' }],
+          lastUpdated: 1000,
+        }),
+      );
+      await handler(makeReq('GET', { raceId: 'TEST' }), mockRes as any);
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        racers: [{ bib: '001', name: 'Huber Anna' }],
+        lastUpdated: 1000,
+      });
+    });
+  });
+
+  describe('POST /api/v1/startlist', () => {
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { racers: [{ bib: '001', name: 'A' }] },
+        ),
+        mockRes as any,
+      );
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Start list changes require Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.set).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for invalid racers', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq('POST', { raceId: 'test' }, { racers: [{ bib: '001' }] }),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('Invalid start list'),
+      );
+    });
+
+    it('should store sanitized racers and drop duplicate bibs', async () => {
+      asChiefJudge();
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            racers: [
+              {
+                bib: '001',
+                name: '<b>Huber</b> Anna',
+                club: 'SC Garmisch',
+                ageCategory: 'U10',
+              },
+              { bib: '001', name: 'Duplicate' },
+              { bib: '002', name: 'Maier Max', gender: 'M' },
+            ],
+            deviceName: 'Chief',
+          },
+        ),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.set).toHaveBeenCalledWith(
+        'race:test:startlist',
+        expect.any(String),
+        'EX',
+        86400,
+      );
+      const stored = JSON.parse(mockRedisClient.set.mock.calls[0]![1]);
+      expect(stored.racers).toEqual([
+        {
+          bib: '001',
+          name: 'bHuber/b Anna',
+          club: 'SC Garmisch',
+          ageCategory: 'U10',
+        },
+        { bib: '002', name: 'Maier Max', gender: 'M' },
+      ]);
+      expect(stored.updatedBy).toBe('Chief');
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true }),
+      );
+    });
+  });
+
+  describe('DELETE /api/v1/startlist', () => {
+    it('should return 403 when user is not chiefJudge', async () => {
+      await handler(makeReq('DELETE', { raceId: 'test' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Start list changes require Chief Judge role',
+        403,
+      );
+      expect(mockRedisClient.del).not.toHaveBeenCalled();
+    });
+
+    it('should clear the start list when user is chiefJudge', async () => {
+      asChiefJudge();
+      await handler(makeReq('DELETE', { raceId: 'test' }), mockRes as any);
+      expect(mockRedisClient.del).toHaveBeenCalledWith('race:test:startlist');
+      expect(sendSuccess).toHaveBeenCalledWith(expect.anything(), {
+        success: true,
+      });
+    });
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * API Tests - Stream Endpoint (api/v1/stream.ts)
+ *
+ * Tests GET (Server-Sent Events). Covers: race ID validation, race access,
+ * SSE headers, relaying pub/sub race events, presence on connect and
+ * cleanup when the client disconnects or opening the stream fails.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockSubscriber = {
+  subscribe: vi.fn().mockResolvedValue(1),
+  on: vi.fn(),
+  quit: vi.fn().mockResolvedValue('OK'),
+  disconnect: vi.fn(),
+};
+
+const mockRedisClient = {
+  get: vi.fn().mockResolvedValue(null),
+  hset: vi.fn().mockResolvedValue(1),
+  hgetall: vi.fn().mockResolvedValue({}),
+  hdel: vi.fn().mockResolvedValue(1),
+  expire: vi.fn().mockResolvedValue(1),
+  publish: vi.fn().mockResolvedValue(0),
+  duplicate: vi.fn(() => mockSubscriber),
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn().mockResolvedValue({
+    valid: true,
+    method: 'jwt',
+    payload: { role: 'timer' },
+  }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
+}));
+
+vi.mock('../../api/lib/validation.js', () => ({
+  isValidRaceId: vi.fn(
+    (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
+  ),
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 29,
+    reset: 9999,
+    limit: 30,
+  }),
+  MAX_DEVICE_NAME_LENGTH: 100,
+  VALID_POINTS: ['S', 'F'],
+}));
+
+vi.mock('../../api/lib/atomicOps.js', () => ({
+  CACHE_EXPIRY_SECONDS: 86400,
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendBadRequest: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+  sanitizeString: vi.fn((str: unknown, maxLen: number) => {
+    if (!str || typeof str !== 'string') return '';
+    return str.slice(0, maxLen).replace(/[<>&]/g, '');
+  }),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { authorizeRaceAccess } from '../../api/lib/jwt.js';
+import {
+  sendBadRequest,
+  sendError,
+  sendMethodNotAllowed,
+} from '../../api/lib/response.js';
+import handler from '../../api/v1/stream';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  const res = {
+    writableEnded: false,
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    flushHeaders: vi.fn(),
+    write: vi.fn(),
+    end: vi.fn(() => {
+      res.writableEnded = true;
+    }),
+  };
+  return res;
+}
+
+function makeReq(method: string, query: Record<string, any> = {}) {
+  const listeners: Record<string, () => void> = {};
+  return {
+    method,
+    query,
+    body: null,
+    headers: {},
+    on: vi.fn((event: string, fn: () => void) => {
+      listeners[event] = fn;
+    }),
+    emit: (event: string) => listeners[event]?.(),
+  } as any;
+}
+
+function written(res: ReturnType<typeof createMockRes>): string {
+  return res.write.mock.calls.map((call) => call[0]).join('');
+}
+
+/** Start a stream and wait until it is open (ready event written) */
+async function openStream(query: Record<string, any>) {
+  const req = makeReq('GET', query);
+  const res = createMockRes();
+  const done = handler(req, res as any);
+  await vi.waitFor(() => {
+    expect(written(res)).toContain('event: ready');
+  });
+  return { req, res, done };
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/stream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRedisClient.hgetall.mockResolvedValue({});
+    vi.mocked(authorizeRaceAccess).mockResolvedValue({ allowed: true });
+  });
+
+  it('should return 405 for POST', async () => {
+    await handler(makeReq('POST', { raceId: 'test' }), createMockRes() as any);
+    expect(sendMethodNotAllowed).toHaveBeenCalled();
+  });
+
+  it('should return 400 when raceId is missing', async () => {
+    await handler(makeReq('GET'), createMockRes() as any);
+    expect(sendBadRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      'raceId is required',
+    );
+  });
+
+  it('should return 400 for invalid raceId format', async () => {
+    await handler(
+      makeReq('GET', { raceId: 'bad race!' }),
+      createMockRes() as any,
+    );
+    expect(sendBadRequest).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.stringContaining('Invalid raceId'),
+    );
+    expect(mockRedisClient.duplicate).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens not valid for the race', async () => {
+    vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+      allowed: false,
+      error: 'Token is not valid for this race',
+      status: 403,
+    });
+    await handler(makeReq('GET', { raceId: 'test' }), createMockRes() as any);
+    expect(sendError).toHaveBeenCalledWith(
+      expect.anything(),
+      'Token is not valid for this race',
+      403,
+      {},
+    );
+    expect(mockRedisClient.duplicate).not.toHaveBeenCalled();
+  });
+
+  it('should open an event stream subscribed to the race channel', async () => {
+    const { req, res, done } = await openStream({
+      raceId: 'TEST',
+      deviceId: 'dev1',
+      deviceName: 'Timer 1',
+    });
+
+    expect(mockSubscriber.subscribe).toHaveBeenCalledWith('race:test:events');
+    expect(res.setHeader).toHaveBeenCalledWith(
+      'Content-Type',
+      'text/event-stream; charset=utf-8',
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(mockRedisClient.hset).toHaveBeenCalledWith(
+      'race:test:devices',
+      'dev1',
+      expect.any(String),
+    );
+
+    req.emit('close');
+    await done;
+  });
+
+  it('should publish presence when a device connects', async () => {
+    const { req, done } = await openStream({
+      raceId: 'test',
+      deviceId: 'dev1',
+    });
+
+    const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+    expect(event).toMatchObject({ type: 'presence', deviceId: 'dev1' });
+
+    req.emit('close');
+    await done;
+  });
+
+  it("should store the device's clock report on connect", async () => {
+    const { req, done } = await openStream({
+      raceId: 'test',
+      deviceId: 'dev1',
+      deviceName: 'Timer 1',
+      clockSource: 'gps',
+      clockTime: String(Date.now()),
+      point: 'F',
+    });
+
+    const clockCall = mockRedisClient.hset.mock.calls.find(
+      ([key]) => key === 'race:test:device_clocks',
+    );
+    expect(clockCall?.[1]).toBe('dev1');
+    expect(JSON.parse(clockCall![2])).toMatchObject({
+      deviceId: 'dev1',
+      source: 'gps',
+      point: 'F',
+    });
+
+    req.emit('close');
+    await done;
+  });
+
+  it('should relay race events and skip malformed messages', async () => {
+    const { req, res, done } = await openStream({ raceId: 'test' });
+    const onMessage = mockSubscriber.on.mock.calls.find(
+      (call) => call[0] === 'message',
+    )![1];
+
+    onMessage(
+      'race:test:events',
+      JSON.stringify({ type: 'entry', id: 'e1', timestamp: 1 }),
+    );
+    onMessage('race:test:events', 'not json');
+    onMessage('race:test:events', JSON.stringify({ type: 'unknown' }));
+
+    const output = written(res);
+    expect(output).toContain(
+      'event: entry\ndata: {"type":"entry","id":"e1","timestamp":1}\n\n',
+    );
+    expect(output).not.toContain('unknown');
+
+    req.emit('close');
+    await done;
+  });
+
+  it('should unsubscribe and end the response when the client disconnects', async () => {
+    const { req, res, done } = await openStream({ raceId: 'test' });
+
+    req.emit('close');
+    await done;
+
+    expect(mockSubscriber.quit).toHaveBeenCalled();
+    expect(res.end).toHaveBeenCalled();
+  });
+
+  it('should release the subscriber when subscribing fails', async () => {
+    mockSubscriber.subscribe.mockRejectedValueOnce(new Error('Redis down'));
+    const res = createMockRes();
+
+    await handler(makeReq('GET', { raceId: 'test' }), res as any);
+
+    expect(mockSubscriber.quit).toHaveBeenCalled();
+    expect(res.flushHeaders).not.toHaveBeenCalled();
+    expect(sendError).toHaveBeenCalledWith(
+      expect.anything(),
+      'Internal server error',
+      500,
+    );
+  });
+
+  it('should end the stream without a JSON error once headers are sent', async () => {
+    mockRedisClient.hset.mockRejectedValueOnce(new Error('Redis down'));
+    const res = createMockRes();
+
+    await handler(
+      makeReq('GET', { raceId: 'test', deviceId: 'dev1' }),
+      res as any,
+    );
+
+    expect(res.flushHeaders).toHaveBeenCalled();
+    expect(mockSubscriber.quit).toHaveBeenCalled();
+    expect(res.end).toHaveBeenCalled();
+    expect(sendError).not.toHaveBeenCalled();
+  });
+});
@@ -3,7 +3,7 @@
  *
  * Tests GET (fetch entries), POST (submit entry), DELETE (remove entry).
  * Covers: race ID validation, auth, entry validation, tombstone detection,
- * pagination, device heartbeat, error paths.
+ * versioned entry edits, pagination, device heartbeat, error paths.
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -16,6 +16,12 @@ const mockMultiResult = {
   incr: vi.fn().mockReturnThis(),
   expire: vi.fn().mockReturnThis(),
   set: vi.fn().mockReturnThis(),
+  hset: vi.fn().mockReturnThis(),
+  hsetnx: vi.fn().mockReturnThis(),
+  hdel: vi.fn().mockReturnThis(),
+  zadd: vi.fn().mockReturnThis(),
+  zrem: vi.fn().mockReturnThis(),
+  del: vi.fn().mockReturnThis(),
   exec: vi.fn().mockResolvedValue([[null, 1]]),
 };
 
@@ -26,12 +32,25 @@ const mockRedisClient = {
   hset: vi.fn().mockResolvedValue(1),
   hgetall: vi.fn().mockResolvedValue({}),
   hdel: vi.fn().mockResolvedValue(1),
+  hget: vi.fn().mockResolvedValue(null),
+  hexists: vi.fn().mockResolvedValue(0),
+  hlen: vi.fn().mockResolvedValue(0),
+  hsetnx: vi.fn().mockResolvedValue(1),
+  hvals: vi.fn().mockResolvedValue([]),
+  hmget: vi.fn().mockResolvedValue([]),
+  hkeys: vi.fn().mockResolvedValue([]),
+  zrange: vi.fn().mockResolvedValue([]),
+  zrangebyscore: vi.fn().mockResolvedValue([]),
+  zrangebylex: vi.fn().mockResolvedValue([]),
+  zadd: vi.fn().mockResolvedValue(1),
+  exists: vi.fn().mockResolvedValue(0),
   smembers: vi.fn().mockResolvedValue([]),
   sadd: vi.fn().mockResolvedValue(1),
   multi: vi.fn(() => mockMultiResult),
   watch: vi.fn().mockResolvedValue('OK'),
   unwatch: vi.fn().mockResolvedValue('OK'),
   expire: vi.fn().mockResolvedValue(1),
+  publish: vi.fn().mockResolvedValue(0),
   on: vi.fn(),
 };
 
@@ -39,6 +58,8 @@ vi.mock('../../api/lib/redis.js', () => ({
   getRedis: vi.fn(() => mockRedisClient),
   hasRedisError: vi.fn(() => false),
   CLIENT_PIN_KEY: 'admin:clientPin',
+  getRaceClientPinKey: (raceId: string) => `race:${raceId}:clientPin`,
+  getRaceChiefJudgePinKey: (raceId: string) => `race:${raceId}:chiefJudgePin`,
 }));
 
 vi.mock('../../api/lib/jwt.js', () => ({
@@ -47,9 +68,11 @@ vi.mock('../../api/lib/jwt.js', () => ({
     method: 'jwt',
     payload: { role: 'timer' },
   }),
+  authorizeRaceAccess: vi.fn().mockResolvedValue({ allowed: true }),
 }));
 
-vi.mock('../../api/lib/validation.js', () => ({
+vi.mock('../../api/lib/validation.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../api/lib/validation.js')>()),
   isValidRaceId: vi.fn(
     (id: string) => /^[a-zA-Z0-9_-]+$/.test(id) && id.length <= 50,
   ),
@@ -74,8 +97,16 @@ vi.mock('../../api/lib/validation.js', () => ({
     reset: 9999,
     limit: 100,
   }),
+  isValidRun: vi.fn(
+    (run: unknown, runCount = 9) =>
+      typeof run === 'number' &&
+      Number.isInteger(run) &&
+      run >= 1 &&
+      run <= runCount,
+  ),
   MAX_DEVICE_NAME_LENGTH: 100,
   VALID_FAULT_TYPES: ['MG', 'STR', 'BR'],
+  VALID_TIME_SOURCES: ['gps', 'server', 'system', 'manual'],
 }));
 
 vi.mock('../../api/lib/atomicOps.js', () => ({
@@ -150,7 +181,7 @@ vi.mock('../../api/lib/apiLogger.js', () => ({
   getRequestId: vi.fn(() => 'test-req-id'),
 }));
 
-import { validateAuth } from '../../api/lib/jwt.js';
+import { authorizeRaceAccess, validateAuth } from '../../api/lib/jwt.js';
 import { getRedis, hasRedisError } from '../../api/lib/redis.js';
 import {
   safeJsonParse,
@@ -346,6 +377,47 @@ describe('API: /api/v1/sync', () => {
         true,
       );
     });
+
+    it('should check race access with the normalized raceId', async () => {
+      await handler(makeReq('GET', { raceId: 'RACE-A' }), mockRes as any);
+      expect(authorizeRaceAccess).toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'jwt' }),
+        mockRedisClient,
+        'race-a',
+      );
+    });
+
+    it('should reject tokens not valid for the race', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'Token is not valid for this race',
+        status: 403,
+      });
+      await handler(makeReq('POST', { raceId: 'race-a' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        'Token is not valid for this race',
+        403,
+        {},
+      );
+      expect(sendSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should flag when the race PIN is required', async () => {
+      vi.mocked(authorizeRaceAccess).mockResolvedValueOnce({
+        allowed: false,
+        error: 'This race requires its race PIN. Please re-authenticate.',
+        status: 401,
+        racePinRequired: true,
+      });
+      await handler(makeReq('GET', { raceId: 'race-a' }), mockRes as any);
+      expect(sendError).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.stringContaining('race PIN'),
+        401,
+        { racePinRequired: true },
+      );
+    });
   });
 
   // ─── GET ───
@@ -436,6 +508,92 @@ describe('API: /api/v1/sync', () => {
         }),
       );
     });
+    it('should store the clock report sent with the heartbeat', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+
+      await handler(
+        makeReq('GET', {
+          raceId: 'test',
+          deviceId: 'dev_1',
+          deviceName: 'Start Timer',
+          clockSource: 'gps',
+          clockTime: String(now + 250),
+          gpsOffset: '-40',
+          gpsAccuracy: '6',
+          point: 'S',
+        }),
+        mockRes as any,
+      );
+
+      const call = mockRedisClient.hset.mock.calls.find(
+        ([key]) => key === 'race:test:device_clocks',
+      );
+      expect(call?.[1]).toBe('dev_1');
+      expect(JSON.parse(call?.[2])).toEqual({
+        source: 'gps',
+        skewMs: 250,
+        gpsOffsetMs: -40,
+        gpsAccuracy: 6,
+        point: 'S',
+        deviceId: 'dev_1',
+        name: 'Start Timer',
+        lastSeen: now,
+      });
+      vi.mocked(Date.now).mockRestore();
+    });
+
+    it('should not store a clock report without a valid clock', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+      await handler(
+        makeReq('GET', {
+          raceId: 'test',
+          deviceId: 'dev_1',
+          clockSource: 'gps',
+          clockTime: 'soon',
+        }),
+        mockRes as any,
+      );
+
+      expect(
+        mockRedisClient.hset.mock.calls.some(
+          ([key]) => key === 'race:test:device_clocks',
+        ),
+      ).toBe(false);
+    });
+
+    it('should return recent clock reports for the clocks query', async () => {
+      mockRedisClient.get.mockResolvedValue(null);
+      const recent = {
+        deviceId: 'dev_2',
+        name: 'Finish Timer',
+        lastSeen: Date.now(),
+        source: 'system',
+        skewMs: 900,
+        gpsOffsetMs: null,
+        gpsAccuracy: null,
+        point: 'F',
+      };
+      mockRedisClient.hgetall.mockResolvedValueOnce({
+        dev_2: JSON.stringify(recent),
+        dev_old: JSON.stringify({ ...recent, lastSeen: 1 }),
+      });
+
+      await handler(
+        makeReq('GET', { raceId: 'test', clocks: 'true' }),
+        mockRes as any,
+      );
+
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ devices: [recent] }),
+      );
+      expect(mockRedisClient.hdel).toHaveBeenCalledWith(
+        'race:test:device_clocks',
+        'dev_old',
+      );
+    });
   });
 
   // ─── POST ───
@@ -490,6 +648,424 @@ describe('API: /api/v1/sync', () => {
       );
     });
 
+    it('should return 400 for a run beyond the race run count', async () => {
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { entry: validEntry({ run: 3 }), deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).toHaveBeenCalledWith(
+        expect.anything(),
+        'Invalid entry: run must be between 1 and 2',
+      );
+      expect(mockRedisClient.hsetnx).not.toHaveBeenCalled();
+    });
+
+    it('should accept later runs when the race config has them', async () => {
+      mockRedisClient.get.mockImplementation(async (key: string) =>
+        key === 'race:test:config'
+          ? JSON.stringify({ intermediatePoints: 0, runCount: 3 })
+          : null,
+      );
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { entry: validEntry({ run: 3 }), deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendBadRequest).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true }),
+      );
+    });
+
+    it('should reject batch entries beyond the race run count', async () => {
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            entries: [validEntry(), validEntry({ id: 'entry-2', run: 3 })],
+            deviceId: 'dev1',
+          },
+        ),
+        mockRes as any,
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          results: [
+            { entryId: 'entry-1', success: true },
+            {
+              entryId: 'entry-2',
+              success: false,
+              error: 'Invalid entry: run must be between 1 and 2',
+            },
+          ],
+        }),
+      );
+    });
+
+    it('should publish an entry event for live stream subscribers', async () => {
+      vi.mocked(safeJsonParse).mockReturnValueOnce(null); // tombstone
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'TEST' },
+          { entry: validEntry(), deviceId: 'dev1', deviceName: 'Test Device' },
+        ),
+        mockRes as any,
+      );
+      expect(mockRedisClient.publish).toHaveBeenCalledWith(
+        'race:test:events',
+        expect.any(String),
+      );
+      const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+      expect(event).toMatchObject({
+        type: 'entry',
+        deviceId: 'dev1',
+        id: 'entry-1',
+      });
+    });
+
+    it('should keep the manual time source and the entering official', async () => {
+      vi.mocked(safeJsonParse).mockReturnValueOnce(null); // tombstone
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            entry: validEntry({
+              timeSource: 'manual',
+              enteredBy: '<b>Anna</b> Huber',
+            }),
+            deviceId: 'dev1',
+            deviceName: 'Test Device',
+          },
+        ),
+        mockRes as any,
+      );
+      const call = mockRedisClient.hsetnx.mock.calls.find(
+        ([key]) => key === 'race:test:entry_items',
+      );
+      expect(JSON.parse(call![2])).toMatchObject({
+        timeSource: 'manual',
+        enteredBy: 'bAnna/b Huber',
+      });
+    });
+
+    it('should keep the server clock uncertainty', async () => {
+      vi.mocked(safeJsonParse).mockReturnValueOnce(null); // tombstone
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          {
+            entry: validEntry({ timeSource: 'server', timeUncertainty: 17.4 }),
+            deviceId: 'dev1',
+            deviceName: 'Test Device',
+          },
+        ),
+        mockRes as any,
+      );
+      const call = mockRedisClient.hsetnx.mock.calls.find(
+        ([key]) => key === 'race:test:entry_items',
+      );
+      expect(JSON.parse(call![2])).toMatchObject({
+        timeSource: 'server',
+        timeUncertainty: 17,
+      });
+    });
+
+    it('should look up cross-device duplicates in the entry index', async () => {
+      // No legacy blob, the entry index exists
+      mockRedisClient.exists.mockResolvedValueOnce(0).mockResolvedValueOnce(1);
+      mockRedisClient.zrangebylex.mockResolvedValueOnce(['S|1|001|e9:dev9']);
+      mockRedisClient.hmget.mockResolvedValueOnce([
+        JSON.stringify(
+          validEntry({ id: 'e9', deviceId: 'dev9', deviceName: 'Backup' }),
+        ),
+      ]);
+
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test' },
+          { entry: validEntry(), deviceId: 'dev1', deviceName: 'Start' },
+        ),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.zrangebylex).toHaveBeenCalledWith(
+        'race:test:entry_index',
+        '[S|1|001|',
+        '(S|1|001}',
+      );
+      expect(mockRedisClient.hmget).toHaveBeenCalledWith(
+        'race:test:entry_items',
+        'e9:dev9',
+      );
+      expect(mockRedisClient.hvals).not.toHaveBeenCalled();
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          crossDeviceDuplicate: expect.objectContaining({
+            bib: '001',
+            deviceName: 'Backup',
+          }),
+        }),
+      );
+    });
+
+    it('should return the entries changed since the given time', async () => {
+      mockRedisClient.zrangebyscore.mockResolvedValueOnce(['e8:dev8']);
+      mockRedisClient.hmget.mockResolvedValueOnce([
+        JSON.stringify(validEntry({ id: 'e8', deviceId: 'dev8' })),
+      ]);
+
+      await handler(
+        makeReq(
+          'POST',
+          { raceId: 'test', since: '5000' },
+          { entry: validEntry(), deviceId: 'dev1', deviceName: 'Start' },
+        ),
+        mockRes as any,
+      );
+
+      expect(mockRedisClient.zrangebyscore).toHaveBeenCalledWith(
+        'race:test:entry_changes',
+        5000,
+        '+inf',
+      );
+      const payload = vi.mocked(sendSuccess).mock.calls[0]![1] as any;
+      expect(payload.entries.map((e: any) => e.id)).toEqual(['e8']);
+    });
+
+    describe('entry edits', () => {
+      const stored = {
+        ...validEntry({ bib: '042' }),
+        deviceId: 'dev1',
+        deviceName: 'Start',
+        photo: 'data:image/jpeg;base64,abc',
+      };
+
+      // The entry hash already holds the entry (photos are stored apart)
+      function withStoredEntry(overrides: Record<string, any> = {}): void {
+        const { photo: _photo, ...storedItem } = { ...stored, ...overrides };
+        mockRedisClient.hexists.mockResolvedValueOnce(1);
+        mockRedisClient.hget.mockResolvedValueOnce(JSON.stringify(storedItem));
+      }
+
+      // Item JSON written to the entry hash in a transaction (null = none)
+      function writtenEntry(): any {
+        const call = mockMultiResult.hset.mock.calls.find(
+          ([key]) => key === 'race:test:entry_items',
+        );
+        return call ? JSON.parse(call[2]) : null;
+      }
+
+      function edit(overrides: Record<string, any> = {}) {
+        return validEntry({
+          bib: '043',
+          status: 'dnf',
+          deviceId: 'dev1',
+          deviceName: 'Start',
+          currentVersion: 2,
+          versionHistory: [
+            {
+              version: 2,
+              timestamp: '2024-01-15T10:05:00.000Z',
+              editedBy: '<b>Finish</b>',
+              editedByDeviceId: 'dev2',
+              changeType: 'edit',
+              data: { bib: '043', status: 'dnf', run: 1 },
+            },
+            { version: 'bogus' },
+          ],
+          ...overrides,
+        });
+      }
+
+      it('should replace the entry with a newer version', async () => {
+        withStoredEntry();
+        await handler(
+          makeReq(
+            'POST',
+            { raceId: 'test' },
+            { entry: edit(), deviceId: 'dev2', deviceName: 'Finish' },
+          ),
+          mockRes as any,
+        );
+
+        const written = writtenEntry();
+        expect(written).toMatchObject({
+          bib: '043',
+          status: 'dnf',
+          // Owner stays the recording device, the editor is kept apart
+          deviceId: 'dev1',
+          deviceName: 'Start',
+          editedBy: 'Finish',
+          editedByDeviceId: 'dev2',
+          currentVersion: 2,
+        });
+        // Without a new photo the stored photo is left alone
+        expect(mockMultiResult.hset).not.toHaveBeenCalledWith(
+          'race:test:entry_photos',
+          expect.anything(),
+          expect.anything(),
+        );
+        expect(written.versionHistory).toEqual([
+          {
+            version: 2,
+            timestamp: '2024-01-15T10:05:00.000Z',
+            editedBy: 'bFinish/b',
+            editedByDeviceId: 'dev2',
+            changeType: 'edit',
+            data: { bib: '043', status: 'dnf', run: 1 },
+          },
+        ]);
+        expect(sendSuccess).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ success: true, updated: true }),
+        );
+      });
+
+      it("should not create another device's entry from an edit", async () => {
+        await handler(
+          makeReq(
+            'POST',
+            { raceId: 'test' },
+            { entry: edit(), deviceId: 'dev2', deviceName: 'Finish' },
+          ),
+          mockRes as any,
+        );
+
+        expect(mockRedisClient.hsetnx).not.toHaveBeenCalled();
+        expect(writtenEntry()).toBeNull();
+        expect(sendError).toHaveBeenCalledWith(
+          expect.anything(),
+          'Entry to edit not found',
+          404,
+        );
+      });
+
+      it('should ignore an entry that is not newer', async () => {
+        withStoredEntry();
+        await handler(
+          makeReq(
+            'POST',
+            { raceId: 'test' },
+            {
+              entry: validEntry({ bib: '043' }),
+              deviceId: 'dev1',
+              deviceName: 'Start',
+            },
+          ),
+          mockRes as any,
+        );
+
+        expect(writtenEntry()).toBeNull();
+        expect(mockRedisClient.hsetnx).not.toHaveBeenCalled();
+        expect(sendSuccess).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.objectContaining({ success: true, updated: false }),
+        );
+      });
+
+      describe('same-version edits from two devices', () => {
+        // Stored: version 2 edited on dev3 at 10:04
+        function withConcurrentEdit(): void {
+          withStoredEntry({
+            bib: '044',
+            currentVersion: 2,
+            versionHistory: [
+              {
+                version: 2,
+                timestamp: '2024-01-15T10:04:00.000Z',
+                editedBy: 'Gate',
+                editedByDeviceId: 'dev3',
+                changeType: 'edit',
+                data: { bib: '044', status: 'ok', run: 1 },
+              },
+            ],
+          });
+        }
+
+        it('should replace the entry with the later edit', async () => {
+          withConcurrentEdit();
+          await handler(
+            makeReq(
+              'POST',
+              { raceId: 'test' },
+              { entry: edit(), deviceId: 'dev2', deviceName: 'Finish' },
+            ),
+            mockRes as any,
+          );
+
+          expect(writtenEntry()).toMatchObject({
+            bib: '043',
+            currentVersion: 2,
+          });
+        });
+
+        it('should keep the stored entry over an earlier edit', async () => {
+          withConcurrentEdit();
+          await handler(
+            makeReq(
+              'POST',
+              { raceId: 'test' },
+              {
+                entry: edit({
+                  versionHistory: [
+                    {
+                      version: 2,
+                      timestamp: '2024-01-15T10:03:00.000Z',
+                      editedBy: 'Finish',
+                      editedByDeviceId: 'dev2',
+                      changeType: 'edit',
+                      data: { bib: '043', status: 'dnf', run: 1 },
+                    },
+                  ],
+                }),
+                deviceId: 'dev2',
+                deviceName: 'Finish',
+              },
+            ),
+            mockRes as any,
+          );
+
+          expect(writtenEntry()).toBeNull();
+          expect(sendSuccess).toHaveBeenCalledWith(
+            expect.anything(),
+            expect.objectContaining({ success: true, updated: false }),
+          );
+        });
+      });
+
+      it('should reject an invalid version number', async () => {
+        vi.mocked(safeJsonParse).mockReturnValueOnce(null); // tombstone
+        await handler(
+          makeReq(
+            'POST',
+            { raceId: 'test' },
+            { entry: edit({ currentVersion: 0 }), deviceId: 'dev2' },
+          ),
+          mockRes as any,
+        );
+
+        expect(sendBadRequest).toHaveBeenCalledWith(
+          expect.anything(),
+          expect.stringContaining('Invalid entry'),
+        );
+      });
+    });
+
     it('should detect tombstone on POST', async () => {
       mockRedisClient.get.mockImplementation((key: string) => {
         if (key.includes(':deleted'))
@@ -587,6 +1163,35 @@ describe('API: /api/v1/sync', () => {
       );
     });
 
+    it('should publish a deletion event for live stream subscribers', async () => {
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'entry-1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      const event = JSON.parse(mockRedisClient.publish.mock.calls[0]![1]);
+      expect(event).toMatchObject({ type: 'deletion', id: 'entry-1' });
+    });
+
+    it('should still succeed when publishing fails', async () => {
+      mockRedisClient.publish.mockRejectedValueOnce(new Error('pubsub down'));
+      await handler(
+        makeReq(
+          'DELETE',
+          { raceId: 'test' },
+          { entryId: 'entry-1', deviceId: 'dev1' },
+        ),
+        mockRes as any,
+      );
+      expect(sendSuccess).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ success: true }),
+      );
+    });
+
     it('should track deleted entry in Redis set', async () => {
       await handler(
         makeReq(
@@ -0,0 +1,128 @@
+/**
+ * API Tests - Time Endpoint (api/v1/time.ts)
+ *
+ * Tests GET (server clock for round-trip clock sync): response, no caching,
+ * unsupported methods.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// ============================================
+// Mock Dependencies
+// ============================================
+
+const mockRedisClient = {
+  on: vi.fn(),
+};
+
+vi.mock('../../api/lib/redis.js', () => ({
+  getRedis: vi.fn(() => mockRedisClient),
+  hasRedisError: vi.fn(() => false),
+  CLIENT_PIN_KEY: 'admin:clientPin',
+}));
+
+vi.mock('../../api/lib/jwt.js', () => ({
+  validateAuth: vi.fn(),
+}));
+
+vi.mock('../../api/lib/validation.js', () => ({
+  checkRateLimit: vi.fn().mockResolvedValue({
+    allowed: true,
+    remaining: 99,
+    reset: 9999,
+    limit: 120,
+  }),
+}));
+
+vi.mock('../../api/lib/response.js', () => ({
+  handlePreflight: vi.fn((req: any, res: any) => {
+    if (req.method === 'OPTIONS') {
+      res.status(200).end();
+      return true;
+    }
+    return false;
+  }),
+  sendSuccess: vi.fn(),
+  sendError: vi.fn(),
+  sendMethodNotAllowed: vi.fn(),
+  sendServiceUnavailable: vi.fn(),
+  sendRateLimitExceeded: vi.fn(),
+  sendAuthRequired: vi.fn(),
+  setRateLimitHeaders: vi.fn(),
+  getClientIP: vi.fn(() => '127.0.0.1'),
+}));
+
+vi.mock('../../api/lib/apiLogger.js', () => ({
+  apiLogger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    withRequestId: vi.fn(() => ({
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+      debug: vi.fn(),
+    })),
+  },
+  getRequestId: vi.fn(() => 'test-req-id'),
+}));
+
+import { validateAuth } from '../../api/lib/jwt.js';
+import { sendMethodNotAllowed, sendSuccess } from '../../api/lib/response.js';
+import handler from '../../api/v1/time';
+
+// ============================================
+// Helpers
+// ============================================
+
+function createMockRes() {
+  return {
+    status: vi.fn().mockReturnThis(),
+    json: vi.fn().mockReturnThis(),
+    setHeader: vi.fn().mockReturnThis(),
+    end: vi.fn().mockReturnThis(),
+  };
+}
+
+function makeReq(method: string) {
+  return { method, query: {}, body: null, headers: {} } as any;
+}
+
+// ============================================
+// Tests
+// ============================================
+
+describe('API: /api/v1/time', () => {
+  let mockRes: ReturnType<typeof createMockRes>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRes = createMockRes();
+  });
+
+  it('should return the server time without authentication', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_123);
+
+    await handler(makeReq('GET'), mockRes as any);
+
+    expect(sendSuccess).toHaveBeenCalledWith(mockRes, {
+      serverTime: 1_700_000_000_123,
+    });
+    expect(validateAuth).not.toHaveBeenCalled();
+    vi.mocked(Date.now).mockRestore();
+  });
+
+  it('should not let the response be cached', async () => {
+    await handler(makeReq('GET'), mockRes as any);
+
+    expect(mockRes.setHeader).toHaveBeenCalledWith('Cache-Control', 'no-store');
+  });
+
+  it('should return 405 for POST', async () => {
+    await handler(makeReq('POST'), mockRes as any);
+
+    expect(sendMethodNotAllowed).toHaveBeenCalled();
+    expect(sendSuccess).not.toHaveBeenCalled();
+  });
+});
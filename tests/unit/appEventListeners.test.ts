@@ -83,9 +83,11 @@ vi.mock('../../src/services/ambient', () => ({
 }));
 
 vi.mock('../../src/services', () => ({
+  bibRecognitionService: { cleanup: vi.fn() },
   cleanupFeedback: vi.fn(),
   feedbackWarning: vi.fn(),
   gpsService: { stop: vi.fn() },
+  serverClockService: { stop: vi.fn() },
   syncService: { cleanup: vi.fn() },
   wakeLockService: { disable: vi.fn() },
 }));
@@ -136,8 +138,10 @@ import {
 import { showToast } from '../../src/components';
 import { cleanupPinVerification } from '../../src/features/race';
 import {
+  bibRecognitionService,
   feedbackWarning,
   gpsService,
+  serverClockService,
   syncService,
   wakeLockService,
 } from '../../src/services';
@@ -241,7 +245,9 @@ describe('App Event Listeners Module', () => {
       handleBeforeUnload();
 
       expect(syncService.cleanup).toHaveBeenCalled();
+      expect(bibRecognitionService.cleanup).toHaveBeenCalled();
       expect(gpsService.stop).toHaveBeenCalled();
+      expect(serverClockService.stop).toHaveBeenCalled();
       expect(wakeLockService.disable).toHaveBeenCalled();
       expect(ambientModeService.cleanup).toHaveBeenCalled();
       expect(voiceModeService.cleanup).toHaveBeenCalled();
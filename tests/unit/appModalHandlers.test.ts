@@ -33,6 +33,8 @@ vi.mock('../../src/features/modals', () => ({
 vi.mock('../../src/features/photoViewer', () => ({
   closePhotoViewer: vi.fn(),
   deletePhoto: vi.fn(),
+  showBurstFrame: vi.fn(),
+  stepBurstFrame: vi.fn(),
 }));
 
 vi.mock('../../src/features/race', () => ({
@@ -45,6 +47,7 @@ vi.mock('../../src/i18n/translations', () => ({
 }));
 
 vi.mock('../../src/services', () => ({
+  bibRecognitionService: { suggestBib: vi.fn(() => Promise.resolve(null)) },
   feedbackDelete: vi.fn(),
   feedbackUndo: vi.fn(),
   photoStorage: {
@@ -66,6 +69,7 @@ vi.mock('../../src/store', () => ({
     getState: (...args: unknown[]) => mockGetState(...args),
     clearAll: vi.fn(),
     updateEntry: vi.fn(),
+    editEntry: vi.fn(() => null),
     undo: vi.fn(() => null),
     canUndo: vi.fn(() => false),
     markFaultForDeletion: vi.fn(),
@@ -89,10 +93,12 @@ vi.mock('../../src/utils/modalHelpers', () => ({
 }));
 
 vi.mock('../../src/utils/uiHelpers', () => ({
+  renderRunButtons: vi.fn(),
   updateButtonGroupState: vi.fn(),
 }));
 
 vi.mock('../../src/utils/validation', () => ({
+  getRuns: vi.fn(() => [1, 2]),
   makeNumericInput: vi.fn(),
 }));
 
@@ -106,8 +112,10 @@ import {
 } from '../../src/appModalHandlers';
 import { closeAllModalsAnimated, openModal } from '../../src/features/modals';
 import { t } from '../../src/i18n/translations';
+import { bibRecognitionService } from '../../src/services';
 import {
   clearModalContext,
+  getModalContext,
   setModalContext,
 } from '../../src/utils/modalContext';
 import { openModalWithContext } from '../../src/utils/modalHelpers';
@@ -231,6 +239,152 @@ describe('App Modal Handlers Module', () => {
         entryRun: 1,
       });
     });
+
+    it('should list the version history of an edited entry', () => {
+      const modal = document.createElement('div');
+      modal.id = 'edit-modal';
+      const history = document.createElement('div');
+      history.id = 'edit-version-history';
+      history.style.display = 'none';
+      const list = document.createElement('ul');
+      list.id = 'edit-version-list';
+      history.appendChild(list);
+      modal.appendChild(history);
+      container.appendChild(modal);
+
+      openEditModal({
+        id: 'e1',
+        bib: '043',
+        point: 'F',
+        run: 1,
+        timestamp: '2024-01-15T10:00:00.000Z',
+        status: 'dnf',
+        deviceId: 'dev_1',
+        deviceName: 'Timer 1',
+        currentVersion: 2,
+        versionHistory: [
+          {
+            version: 1,
+            timestamp: '2024-01-15T10:00:00.000Z',
+            editedBy: 'Timer 1',
+            editedByDeviceId: 'dev_1',
+            changeType: 'create',
+            data: { bib: '042', status: 'ok', run: 1 },
+          },
+          {
+            version: 2,
+            timestamp: '2024-01-15T10:05:00.000Z',
+            editedBy: 'Timer 2',
+            editedByDeviceId: 'dev_2',
+            changeType: 'edit',
+            data: { bib: '043', status: 'dnf', run: 1 },
+          },
+        ],
+      });
+
+      expect(history.style.display).toBe('block');
+      const items = list.querySelectorAll('li');
+      expect(items).toHaveLength(2);
+      expect(items[0]!.textContent).toContain('v2 - currentVersion');
+      expect(items[0]!.textContent).toContain('043');
+      expect(items[0]!.classList.contains('current')).toBe(true);
+      expect(items[1]!.textContent).toContain('v1 - originalVersion');
+      expect(items[1]!.textContent).toContain('042');
+    });
+
+    it('should hide the version history of an unedited entry', () => {
+      const modal = document.createElement('div');
+      modal.id = 'edit-modal';
+      const history = document.createElement('div');
+      history.id = 'edit-version-history';
+      const list = document.createElement('ul');
+      list.id = 'edit-version-list';
+      history.appendChild(list);
+      modal.appendChild(history);
+      container.appendChild(modal);
+
+      openEditModal({
+        id: 'e1',
+        bib: '042',
+        point: 'F',
+        run: 1,
+        timestamp: '2024-01-15T10:00:00.000Z',
+        status: 'ok',
+        deviceId: 'dev_1',
+        deviceName: 'Timer 1',
+      });
+
+      expect(history.style.display).toBe('none');
+      expect(list.children).toHaveLength(0);
+    });
+
+    describe('bib suggestion', () => {
+      const blankEntry = {
+        id: 'e1',
+        bib: '',
+        point: 'F' as const,
+        run: 1,
+        timestamp: '2024-01-15T10:00:00.000Z',
+        status: 'ok' as const,
+        deviceId: 'dev_1',
+        deviceName: 'Timer 1',
+        photo: 'indexeddb',
+      };
+      let modal: HTMLDivElement;
+      let suggestionBtn: HTMLButtonElement;
+
+      beforeEach(() => {
+        modal = document.createElement('div');
+        modal.id = 'edit-modal';
+        suggestionBtn = document.createElement('button');
+        suggestionBtn.id = 'edit-bib-suggestion';
+        suggestionBtn.hidden = true;
+        modal.appendChild(suggestionBtn);
+        container.appendChild(modal);
+      });
+
+      it('should offer the bib read from the photo', async () => {
+        vi.mocked(bibRecognitionService.suggestBib).mockResolvedValueOnce(
+          '042',
+        );
+        vi.mocked(getModalContext).mockReturnValueOnce({ entryId: 'e1' });
+
+        openEditModal(blankEntry);
+
+        await vi.waitFor(() => expect(suggestionBtn.hidden).toBe(false));
+        expect(bibRecognitionService.suggestBib).toHaveBeenCalledWith(
+          blankEntry,
+        );
+        expect(suggestionBtn.dataset.bib).toBe('042');
+        expect(suggestionBtn.textContent).toBe('suggestedBib');
+      });
+
+      it('should not offer a suggestion once another entry is open', async () => {
+        vi.mocked(bibRecognitionService.suggestBib).mockResolvedValueOnce(
+          '042',
+        );
+        vi.mocked(getModalContext).mockReturnValueOnce({ entryId: 'e2' });
+
+        openEditModal(blankEntry);
+        await vi.waitFor(() =>
+          expect(bibRecognitionService.suggestBib).toHaveBeenCalled(),
+        );
+        await Promise.resolve();
+
+        expect(suggestionBtn.hidden).toBe(true);
+      });
+
+      it('should not read the photo of an entry with a bib', () => {
+        suggestionBtn.hidden = false;
+        suggestionBtn.dataset.bib = '007';
+
+        openEditModal({ ...blankEntry, bib: '042' });
+
+        expect(bibRecognitionService.suggestBib).not.toHaveBeenCalled();
+        expect(suggestionBtn.hidden).toBe(true);
+        expect(suggestionBtn.dataset.bib).toBeUndefined();
+      });
+    });
   });
 
   describe('openConfirmModal', () => {
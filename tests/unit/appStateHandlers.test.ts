@@ -20,6 +20,7 @@ vi.mock('../../src/features/faults/faultInlineEntry', () => ({
 }));
 
 vi.mock('../../src/features/gateJudgeView', () => ({
+  updateGateJudgeRunButtons: vi.fn(),
   updateGateJudgeRunSelection: vi.fn(),
   updateGateJudgeTabVisibility: vi.fn(),
   updateGateRangeDisplay: vi.fn(),
@@ -34,6 +35,7 @@ vi.mock('../../src/features/radialTimerView', () => ({
 vi.mock('../../src/features/resultsView', () => ({
   getVirtualList: vi.fn(() => null),
   updateEntryCountBadge: vi.fn(),
+  updatePointFilterOptions: vi.fn(),
   updateStats: vi.fn(),
 }));
 
@@ -86,7 +88,9 @@ const mockState = signal({
   faultEntries: [] as unknown[],
   bibInput: '',
   selectedPoint: 'S',
+  timingPoints: ['S', 'F'] as string[],
   selectedRun: 1,
+  runs: [1, 2] as number[],
   syncStatus: 'connected',
   gpsStatus: 'active',
   cloudDeviceCount: 0,
@@ -99,9 +103,12 @@ const mockState = signal({
 vi.mock('../../src/store', () => ({
   store: { getState: () => mockState.value },
   $currentView: computed(() => mockState.value.currentView),
+  $currentLang: computed(() => mockState.value.currentLang),
   $bibInput: computed(() => mockState.value.bibInput),
   $selectedPoint: computed(() => mockState.value.selectedPoint),
+  $timingPoints: computed(() => mockState.value.timingPoints),
   $selectedRun: computed(() => mockState.value.selectedRun),
+  $runs: computed(() => mockState.value.runs),
   $entries: computed(() => mockState.value.entries),
   $faultEntries: computed(() => mockState.value.faultEntries),
   $deviceRole: computed(() => mockState.value.deviceRole),
@@ -115,6 +122,7 @@ vi.mock('../../src/store', () => ({
   $settingsSyncPhotos: computed(() => mockState.value.settings.syncPhotos),
   $settingsGps: computed(() => mockState.value.settings.gps),
   $settingsPhotoCapture: computed(() => mockState.value.settings.photoCapture),
+  $settingsPhotoBurst: computed(() => mockState.value.settings.photoBurst),
   $settingsGlassEffects: computed(() => mockState.value.settings.glassEffects),
   $settingsOutdoorMode: computed(() => mockState.value.settings.outdoorMode),
   $settingsAmbientMode: computed(() => mockState.value.settings.ambientMode),
@@ -132,6 +140,7 @@ import {
 } from '../../src/appUiUpdates';
 import { updateActiveBibsList } from '../../src/features/faults';
 import {
+  updateGateJudgeRunButtons,
   updateGateJudgeRunSelection,
   updateGateJudgeTabVisibility,
   updateGateRangeDisplay,
@@ -144,6 +153,7 @@ import {
 import {
   getVirtualList,
   updateEntryCountBadge,
+  updatePointFilterOptions,
   updateStats,
 } from '../../src/features/resultsView';
 import {
@@ -182,6 +192,7 @@ describe('App State Handlers', () => {
     bibInput: '',
     selectedPoint: 'S',
     selectedRun: 1,
+    runs: [1, 2] as number[],
     syncStatus: 'connected',
     gpsStatus: 'active',
     cloudDeviceCount: 0,
@@ -381,6 +392,21 @@ describe('App State Handlers', () => {
     });
   });
 
+  describe('timingPoints changes', () => {
+    it('should update results point filter when timing points change', () => {
+      mockState.value = {
+        ...mockState.value,
+        timingPoints: ['S', 'I1', 'F'],
+      };
+      expect(updatePointFilterOptions).toHaveBeenCalled();
+    });
+
+    it('should update results point filter when language changes', () => {
+      mockState.value = { ...mockState.value, currentLang: 'de' };
+      expect(updatePointFilterOptions).toHaveBeenCalled();
+    });
+  });
+
   describe('selectedRun changes', () => {
     it('should update run selection and gate judge', () => {
       mockState.value = { ...mockState.value, selectedRun: 2 };
@@ -401,6 +427,14 @@ describe('App State Handlers', () => {
     });
   });
 
+  describe('runs changes', () => {
+    it('should rebuild gate judge run buttons when the run count changes', () => {
+      vi.clearAllMocks();
+      mockState.value = { ...mockState.value, runs: [1, 2, 3] };
+      expect(updateGateJudgeRunButtons).toHaveBeenCalled();
+    });
+  });
+
   describe('entries changes', () => {
     it('should update stats and entry count badge', () => {
       mockState.value = { ...mockState.value, entries: [{ id: '1' }] };
@@ -311,6 +311,102 @@ describe('VirtualList Component', () => {
       list.destroy();
     });
 
+    it('should show a loaded thumbnail in the photo button', async () => {
+      const loadThumbnail = vi.fn(() =>
+        Promise.resolve('data:image/jpeg;base64,dGh1bWI='),
+      );
+      const list = new VirtualList({ container, loadThumbnail });
+      const entry = { ...createEntry(1), photo: 'cloud' };
+
+      list.setEntries([entry]);
+      await vi.waitFor(() =>
+        expect(container.querySelector('.result-photo-thumb')).not.toBeNull(),
+      );
+
+      expect(loadThumbnail).toHaveBeenCalledWith(entry);
+      const thumb = container.querySelector(
+        '.result-photo-btn .result-photo-thumb',
+      ) as HTMLImageElement;
+      expect(thumb.src).toBe('data:image/jpeg;base64,dGh1bWI=');
+
+      list.destroy();
+    });
+
+    it('should keep the photo icon without a thumbnail', async () => {
+      const loadThumbnail = vi.fn(() => Promise.resolve(null));
+      const list = new VirtualList({ container, loadThumbnail });
+
+      list.setEntries([{ ...createEntry(1), photo: 'indexeddb' }]);
+      await vi.waitFor(() => expect(loadThumbnail).toHaveBeenCalled());
+      await Promise.resolve();
+
+      const photoBtn = container.querySelector('.result-photo-btn');
+      expect(photoBtn?.querySelector('svg')).not.toBeNull();
+      expect(photoBtn?.querySelector('.result-photo-thumb')).toBeNull();
+
+      list.destroy();
+    });
+
+    it('should offer the bib suggested from the photo of a blank entry', async () => {
+      const loadBibSuggestion = vi.fn(() => Promise.resolve('042'));
+      const onAcceptBibSuggestion = vi.fn();
+      const onItemClick = vi.fn();
+      const list = new VirtualList({
+        container,
+        loadBibSuggestion,
+        onAcceptBibSuggestion,
+        onItemClick,
+      });
+      const entry = { ...createEntry(1), bib: '', photo: 'indexeddb' };
+
+      list.setEntries([entry]);
+      await vi.waitFor(() =>
+        expect(
+          container.querySelector('.result-bib-suggestion'),
+        ).not.toBeNull(),
+      );
+
+      const btn = container.querySelector(
+        '.result-bib .result-bib-suggestion',
+      ) as HTMLButtonElement;
+      expect(btn.textContent).toBe('042');
+      btn.click();
+      expect(onAcceptBibSuggestion).toHaveBeenCalledWith(entry, '042');
+      expect(onItemClick).not.toHaveBeenCalled();
+
+      list.destroy();
+    });
+
+    it('should only look for suggestions on blank entries with a photo', async () => {
+      const loadBibSuggestion = vi.fn(() => Promise.resolve('042'));
+      const list = new VirtualList({ container, loadBibSuggestion });
+
+      list.setEntries([
+        { ...createEntry(1), photo: 'indexeddb' },
+        { ...createEntry(2), bib: '' },
+      ]);
+      await Promise.resolve();
+
+      expect(loadBibSuggestion).not.toHaveBeenCalled();
+      expect(container.querySelector('.result-bib-suggestion')).toBeNull();
+
+      list.destroy();
+    });
+
+    it('should list entries without a bib separately', () => {
+      const list = new VirtualList({ container });
+
+      list.setEntries([
+        { ...createEntry(1), bib: '' },
+        { ...createEntry(2), bib: '' },
+      ]);
+
+      expect(container.querySelectorAll('.result-item')).toHaveLength(2);
+      expect(container.querySelector('.result-group-header')).toBeNull();
+
+      list.destroy();
+    });
+
     it('should not render photo button when entry has no photo', () => {
       const list = new VirtualList({ container });
       const entry = createEntry(1);
@@ -0,0 +1,78 @@
+/**
+ * Unit Tests for Bib Suggestion Module
+ * Tests: acceptSuggestedBib
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Entry } from '../../../src/types';
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => `${key} {bib}`),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackSuccess: vi.fn(),
+}));
+
+vi.mock('../../../src/services/sync', () => ({
+  syncEntry: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: vi.fn(() => ({ currentLang: 'en' })),
+    editEntry: vi.fn(),
+  },
+}));
+
+import { showToast } from '../../../src/components';
+import { acceptSuggestedBib } from '../../../src/features/bibSuggestion';
+import { feedbackSuccess } from '../../../src/services';
+import { syncEntry } from '../../../src/services/sync';
+import { store } from '../../../src/store';
+
+const entry: Entry = {
+  id: 'e1',
+  bib: '',
+  point: 'F',
+  run: 1,
+  timestamp: '2026-10-19T10:00:00.000Z',
+  status: 'ok',
+  deviceId: 'dev_1',
+  deviceName: 'Timer 1',
+  photo: 'indexeddb',
+};
+
+describe('acceptSuggestedBib', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should assign the bib and sync the edited entry', () => {
+    const edited = { ...entry, bib: '042', currentVersion: 2 };
+    vi.mocked(store.editEntry).mockReturnValueOnce(edited);
+
+    acceptSuggestedBib(entry, '042');
+
+    expect(store.editEntry).toHaveBeenCalledWith('e1', { bib: '042' });
+    expect(syncEntry).toHaveBeenCalledWith(edited);
+    expect(feedbackSuccess).toHaveBeenCalled();
+    expect(showToast).toHaveBeenCalledWith(
+      'suggestedBibAccepted 042',
+      'success',
+    );
+  });
+
+  it('should do nothing when the entry no longer exists', () => {
+    vi.mocked(store.editEntry).mockReturnValueOnce(null);
+
+    acceptSuggestedBib(entry, '042');
+
+    expect(syncEntry).not.toHaveBeenCalled();
+    expect(showToast).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,9 @@
 /**
  * Unit Tests for Chief Judge View Module
- * Tests: resolvePinVerification, updatePenaltyConfigUI,
+ * Tests: resolvePinVerification, updatePenaltyConfigUI (incl. category rules),
  *        updateChiefJudgeToggleVisibility, updateChiefJudgeView,
  *        updateJudgesOverview, updateFaultSummaryPanel, updatePendingDeletionsPanel,
- *        cleanupChiefJudgeView
+ *        live results publishing, official timers, cleanupChiefJudgeView
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -27,6 +27,11 @@ vi.mock('../../../src/services/sync', () => ({
   syncFault: vi.fn(() => Promise.resolve(true)),
   syncService: {
     getOtherGateAssignments: vi.fn(() => []),
+    getGateCoverage: vi.fn(() => null),
+    sendStartListToCloud: vi.fn(() => Promise.resolve(true)),
+    fetchResultsPublished: vi.fn(() => Promise.resolve(false)),
+    setResultsPublished: vi.fn(() => Promise.resolve(true)),
+    sendRaceConfigToCloud: vi.fn(() => Promise.resolve(true)),
   },
 }));
 
@@ -45,6 +50,16 @@ const mockChiefState = signal({
   isJudgeReady: false,
   deviceRole: 'timer' as string,
   gateAssignment: null as [number, number] | null,
+  penaltyRules: {},
+  intermediatePoints: 0,
+  runCount: 2,
+  primaryDevices: {} as Record<string, string>,
+  startList: [] as {
+    bib: string;
+    name: string;
+    club?: string;
+    ageCategory?: string;
+  }[],
 });
 
 vi.mock('../../../src/store', () => ({
@@ -55,22 +70,49 @@ vi.mock('../../../src/store', () => ({
     toggleChiefJudgeView: vi.fn(),
     setUsePenaltyMode: vi.fn(),
     setPenaltySeconds: vi.fn(),
+    setPenaltyRule: vi.fn(),
+    setIntermediatePoints: vi.fn(),
+    setRunCount: vi.fn(),
+    setPrimaryDevice: vi.fn(),
     markFaultForDeletion: vi.fn(),
     removeFaultEntry: vi.fn(),
     approveFaultDeletion: vi.fn(),
     rejectFaultDeletion: vi.fn(() => true),
     isRacerFinalized: vi.fn(() => false),
     finalizeRacer: vi.fn(),
+    setStartList: vi.fn(),
   },
   $settings: computed(() => mockChiefState.value.settings),
   $faultEntries: computed(() => mockChiefState.value.faultEntries),
   $entries: computed(() => mockChiefState.value.entries),
   $penaltySeconds: computed(() => mockChiefState.value.penaltySeconds),
   $usePenaltyMode: computed(() => mockChiefState.value.usePenaltyMode),
+  $penaltyRules: computed(() => mockChiefState.value.penaltyRules),
+  $intermediatePoints: computed(() => mockChiefState.value.intermediatePoints),
+  $runCount: computed(() => mockChiefState.value.runCount),
+  $timingPoints: computed(() => ['S', 'F']),
+  $primaryDevices: computed(() => mockChiefState.value.primaryDevices),
+  $penaltyConfig: {
+    get value() {
+      const state = mockGetState();
+      const startList = mockChiefState.value.startList;
+      return {
+        usePenaltyMode: state.usePenaltyMode,
+        penaltySeconds: state.penaltySeconds,
+        rules: state.penaltyRules,
+        getAgeCategory: (bib: string) =>
+          startList.find((r) => r.bib === bib)?.ageCategory,
+      };
+    },
+  },
   $isChiefJudgeView: computed(() => mockChiefState.value.isChiefJudgeView),
   $isJudgeReady: computed(() => mockChiefState.value.isJudgeReady),
   $deviceRole: computed(() => mockChiefState.value.deviceRole),
   $gateAssignment: computed(() => mockChiefState.value.gateAssignment),
+  $startList: computed(() => mockChiefState.value.startList),
+  $racerLookup: computed(
+    () => new Map(mockChiefState.value.startList.map((r) => [r.bib, r])),
+  ),
   effect,
 }));
 
@@ -86,6 +128,8 @@ vi.mock('../../../src/utils', () => ({
     };
     return map[lang] || 'en-US';
   }),
+  getPointLabel: vi.fn((point: string) => point),
+  getRunLabel: vi.fn((run: number) => `L${run}`),
   iconCheck: vi.fn(() => '<svg>check</svg>'),
   iconEdit: vi.fn(() => '<svg>edit</svg>'),
   iconNote: vi.fn(() => '<svg>note</svg>'),
@@ -95,30 +139,56 @@ vi.mock('../../../src/utils', () => ({
   iconX: vi.fn(() => '<svg>x</svg>'),
 }));
 
+const mockListenerAdd = vi.hoisted(() => vi.fn());
+
 vi.mock('../../../src/utils/listenerManager', () => ({
   ListenerManager: vi.fn().mockImplementation(function () {
-    return { add: vi.fn(), removeAll: vi.fn() };
+    return { add: mockListenerAdd, removeAll: vi.fn() };
   }),
 }));
 
+vi.mock('../../../src/features/clockHealthView', () => ({
+  initClockHealth: vi.fn(),
+  cleanupClockHealth: vi.fn(),
+}));
+
+vi.mock('../../../src/features/courseMapView', () => ({
+  initCourseMap: vi.fn(),
+  cleanupCourseMap: vi.fn(),
+  updateCourseMap: vi.fn(),
+}));
+
+vi.mock('../../../src/features/protestsView', () => ({
+  initProtests: vi.fn(),
+  cleanupProtests: vi.fn(),
+}));
+
 vi.mock('../../../src/features/export', () => ({
   exportChiefSummary: vi.fn(),
   exportFaultSummaryWhatsApp: vi.fn(),
   exportResults: vi.fn(),
 }));
 
+import { showToast } from '../../../src/components';
 import {
   cleanupChiefJudgeView,
+  getLiveResultsUrl,
+  importStartListFile,
   initChiefJudgeToggle,
+  refreshLiveResultsStatus,
   resolvePinVerification,
+  setLiveResultsPublished,
   updateChiefJudgeToggleVisibility,
   updateChiefJudgeView,
   updateFaultSummaryPanel,
   updateJudgesOverview,
   updatePenaltyConfigUI,
   updatePendingDeletionsPanel,
+  updateStartListInfo,
 } from '../../../src/features/chiefJudgeView';
+import { t } from '../../../src/i18n/translations';
 import { syncService } from '../../../src/services/sync';
+import { store } from '../../../src/store';
 
 describe('Chief Judge View Module', () => {
   let container: HTMLDivElement;
@@ -136,6 +206,9 @@ describe('Chief Judge View Module', () => {
       faultEntries: [],
       penaltySeconds: 3,
       usePenaltyMode: true,
+      penaltyRules: {},
+      intermediatePoints: 0,
+      runCount: 2,
       settings: { sync: true },
       selectedRun: 1,
       raceId: 'RACE-2024',
@@ -196,6 +269,43 @@ describe('Chief Judge View Module', () => {
       expect(penaltyBtn.classList.contains('active')).toBe(true);
       expect(dsqBtn.classList.contains('active')).toBe(false);
     });
+
+    it('should render a rule row per age category', () => {
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        penaltyRules: {
+          U8: { usePenaltyMode: true, penaltySeconds: 4 },
+          U12: { usePenaltyMode: false, penaltySeconds: 5 },
+        },
+      });
+      const rulesList = document.createElement('div');
+      rulesList.id = 'penalty-rules-list';
+      container.appendChild(rulesList);
+
+      updatePenaltyConfigUI();
+
+      const rows = rulesList.querySelectorAll<HTMLElement>('.penalty-rule-row');
+      expect(Array.from(rows).map((row) => row.dataset.category)).toEqual([
+        'U6',
+        'U8',
+        'U10',
+        'U12',
+        'U14',
+        'U16',
+        'masters',
+      ]);
+      expect(rows[0]!.classList.contains('default-mode')).toBe(true);
+      expect(rows[1]!.classList.contains('penalty-mode')).toBe(true);
+      expect(
+        rows[1]!.querySelector('.penalty-seconds-value')!.textContent,
+      ).toBe('4');
+      expect(rows[3]!.classList.contains('dsq-mode')).toBe(true);
+      expect(
+        rows[3]!
+          .querySelector('.penalty-mode-btn.active')!
+          .getAttribute('data-mode'),
+      ).toBe('dsq');
+    });
   });
 
   describe('updateChiefJudgeToggleVisibility', () => {
@@ -299,6 +409,79 @@ describe('Chief Judge View Module', () => {
     });
   });
 
+  describe('official timers', () => {
+    it('should list the devices of each point and select the primary', () => {
+      const toggleBtn = document.createElement('button');
+      toggleBtn.id = 'chief-judge-toggle-btn';
+      const list = document.createElement('div');
+      list.id = 'primary-devices-list';
+      container.append(toggleBtn, list);
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        deviceId: 'dev_chief',
+        deviceName: 'Chief',
+        entries: [
+          { point: 'F', deviceId: 'dev_finish', deviceName: 'Finish A' },
+          { point: 'F', deviceId: 'dev_backup', deviceName: 'Finish B' },
+        ],
+        primaryDevices: { F: 'dev_backup' },
+        settings: { sync: false },
+      });
+
+      initChiefJudgeToggle();
+
+      expect(list.querySelectorAll('[data-point] select')).toHaveLength(2);
+      const finish = list.querySelector<HTMLSelectElement>(
+        '[data-point="F"] select',
+      )!;
+      expect(Array.from(finish.options).map((o) => o.value)).toEqual([
+        '',
+        'dev_finish',
+        'dev_backup',
+        'dev_chief',
+      ]);
+      expect(finish.value).toBe('dev_backup');
+      expect(
+        list.querySelector<HTMLSelectElement>('[data-point="S"] select')!.value,
+      ).toBe('');
+    });
+
+    it('should upload only the primary devices of the race config', async () => {
+      vi.useFakeTimers();
+      const toggleBtn = document.createElement('button');
+      toggleBtn.id = 'chief-judge-toggle-btn';
+      const list = document.createElement('div');
+      list.id = 'primary-devices-list';
+      container.append(toggleBtn, list);
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        deviceId: 'dev_chief',
+        deviceName: 'Chief',
+        entries: [],
+        primaryDevices: {},
+        raceId: 'RACE-2024',
+        settings: { sync: true },
+      });
+
+      initChiefJudgeToggle();
+      const onChange = mockListenerAdd.mock.calls.find(
+        ([el, type]) => el === list && type === 'change',
+      )![2];
+      const finish = list.querySelector<HTMLSelectElement>(
+        '[data-point="F"] select',
+      )!;
+      finish.value = 'dev_chief';
+      onChange({ target: finish });
+      await vi.advanceTimersByTimeAsync(1000);
+      vi.useRealTimers();
+
+      expect(store.setPrimaryDevice).toHaveBeenCalledWith('F', 'dev_chief');
+      expect(syncService.sendRaceConfigToCloud).toHaveBeenCalledWith([
+        'primaryDevices',
+      ]);
+    });
+  });
+
   describe('updateJudgesOverview', () => {
     it('should handle missing overview elements', () => {
       expect(() => updateJudgesOverview()).not.toThrow();
@@ -380,6 +563,61 @@ describe('Chief Judge View Module', () => {
       const cards = overviewList.querySelectorAll('.judge-card');
       expect(cards.length).toBe(1);
     });
+
+    it('should show gates without a judge and overlaps in a banner', () => {
+      vi.mocked(syncService.getOtherGateAssignments).mockReturnValueOnce([
+        { deviceId: 'dev_2', deviceName: 'Judge 2', gateStart: 1, gateEnd: 8 },
+        { deviceId: 'dev_3', deviceName: 'Judge 3', gateStart: 6, gateEnd: 8 },
+      ] as any);
+      vi.mocked(syncService.getGateCoverage).mockReturnValueOnce({
+        gateCount: 12,
+        gaps: [
+          { gateStart: 9, gateEnd: 11 },
+          { gateStart: 12, gateEnd: 12 },
+        ],
+        overlaps: [{ gateStart: 6, gateEnd: 8, deviceIds: ['dev_2', 'dev_3'] }],
+      });
+      const withGates = ((key: string) => `${key}: {gates}`) as typeof t;
+      vi.mocked(t)
+        .mockImplementationOnce(withGates)
+        .mockImplementationOnce(withGates);
+
+      container.innerHTML = `
+        <p id="judges-coverage-banner" hidden></p>
+        <div id="judges-overview-list"></div>
+        <span id="judges-overview-count"></span>
+      `;
+
+      updateJudgesOverview();
+
+      const banner = document.getElementById('judges-coverage-banner')!;
+      expect(banner.hidden).toBe(false);
+      expect(
+        Array.from(banner.querySelectorAll('span')).map((el) => el.textContent),
+      ).toEqual([
+        'coverageGaps: 9–11, 12',
+        'coverageOverlaps: 6–8 (Judge 2, Judge 3)',
+      ]);
+    });
+
+    it('should hide the banner when every gate has one judge', () => {
+      container.innerHTML = `
+        <p id="judges-coverage-banner"></p>
+        <div id="judges-overview-list"></div>
+        <span id="judges-overview-count"></span>
+      `;
+      vi.mocked(syncService.getGateCoverage).mockReturnValueOnce({
+        gateCount: 10,
+        gaps: [],
+        overlaps: [],
+      });
+
+      updateJudgesOverview();
+
+      expect(document.getElementById('judges-coverage-banner')!.hidden).toBe(
+        true,
+      );
+    });
   });
 
   describe('updateFaultSummaryPanel', () => {
@@ -557,6 +795,128 @@ describe('Chief Judge View Module', () => {
     });
   });
 
+  describe('start list', () => {
+    afterEach(() => {
+      mockChiefState.value = { ...mockChiefState.value, startList: [] };
+    });
+
+    it('should show racer name on fault summary card when bib is on the start list', () => {
+      mockChiefState.value = {
+        ...mockChiefState.value,
+        startList: [{ bib: '042', name: 'Huber Anna', club: 'SC Garmisch' }],
+      };
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        faultEntries: [
+          {
+            id: 'f1',
+            bib: '042',
+            run: 1,
+            gateNumber: 5,
+            faultType: 'MG',
+            timestamp: '2024-01-15T10:00:00.000Z',
+            deviceId: 'dev_1',
+            deviceName: 'Judge 1',
+            markedForDeletion: false,
+          },
+        ],
+      });
+
+      const summaryList = document.createElement('div');
+      summaryList.id = 'fault-summary-list';
+      const summaryCount = document.createElement('span');
+      summaryCount.id = 'fault-summary-count';
+      container.appendChild(summaryList);
+      container.appendChild(summaryCount);
+
+      updateFaultSummaryPanel();
+
+      const name = summaryList.querySelector('.fault-card-name');
+      expect(name?.textContent).toBe('Huber Anna');
+    });
+
+    it('should apply the penalty rule of the racer age category', () => {
+      mockChiefState.value = {
+        ...mockChiefState.value,
+        startList: [{ bib: '042', name: 'Huber Anna', ageCategory: 'U12' }],
+      };
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        usePenaltyMode: true,
+        penaltyRules: { U12: { usePenaltyMode: false, penaltySeconds: 5 } },
+        faultEntries: [
+          {
+            id: 'f1',
+            bib: '042',
+            run: 1,
+            gateNumber: 5,
+            faultType: 'MG',
+            timestamp: '2024-01-15T10:00:00.000Z',
+            deviceId: 'dev_1',
+            deviceName: 'Judge 1',
+            markedForDeletion: false,
+          },
+        ],
+      });
+
+      const summaryList = document.createElement('div');
+      summaryList.id = 'fault-summary-list';
+      const summaryCount = document.createElement('span');
+      summaryCount.id = 'fault-summary-count';
+      container.appendChild(summaryList);
+      container.appendChild(summaryCount);
+
+      updateFaultSummaryPanel();
+
+      expect(
+        summaryList.querySelector('.fault-card-result.dsq'),
+      ).not.toBeNull();
+      expect(summaryList.querySelector('.fault-card-penalty')).toBeNull();
+    });
+
+    it('should update start list count', () => {
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        startList: [
+          { bib: '001', name: 'A' },
+          { bib: '002', name: 'B' },
+        ],
+      });
+      const countEl = document.createElement('span');
+      countEl.id = 'start-list-count';
+      container.appendChild(countEl);
+
+      updateStartListInfo();
+
+      expect(countEl.textContent).toBe('2');
+    });
+
+    it('should import, store and upload a start list file', async () => {
+      const file = new File(
+        ['Startnummer;Name;Vorname;Verein\n1;Huber;Anna;SC Garmisch\n'],
+        'startlist.csv',
+        { type: 'text/csv' },
+      );
+
+      await importStartListFile(file);
+
+      expect(store.setStartList).toHaveBeenCalledWith([
+        { bib: '001', name: 'Huber Anna', club: 'SC Garmisch' },
+      ]);
+      expect(syncService.sendStartListToCloud).toHaveBeenCalled();
+      expect(showToast).toHaveBeenCalledWith('startListImported', 'success');
+    });
+
+    it('should warn and not store when file has no racers', async () => {
+      const file = new File(['Startnummer;Name\n'], 'empty.csv');
+
+      await importStartListFile(file);
+
+      expect(store.setStartList).not.toHaveBeenCalled();
+      expect(showToast).toHaveBeenCalledWith('startListEmpty', 'warning');
+    });
+  });
+
   describe('updatePendingDeletionsPanel', () => {
     it('should show nothing when no pending deletions', () => {
       const section = document.createElement('div');
@@ -616,6 +976,80 @@ describe('Chief Judge View Module', () => {
     });
   });
 
+  describe('live results', () => {
+    function createLiveResultsRow() {
+      container.innerHTML = `
+        <span id="live-results-status"></span>
+        <button id="copy-live-results-link-btn"></button>
+        <button id="toggle-live-results-btn">
+          <span id="toggle-live-results-label"></span>
+        </button>`;
+      return {
+        status: document.getElementById('live-results-status')!,
+        copyBtn: document.getElementById(
+          'copy-live-results-link-btn',
+        ) as HTMLButtonElement,
+        toggleBtn: document.getElementById(
+          'toggle-live-results-btn',
+        ) as HTMLButtonElement,
+        label: document.getElementById('toggle-live-results-label')!,
+      };
+    }
+
+    afterEach(() => {
+      cleanupChiefJudgeView();
+    });
+
+    it('should build the public live results URL for a race', () => {
+      expect(getLiveResultsUrl('RACE 1')).toBe(
+        `${window.location.origin}/live?race=RACE%201`,
+      );
+    });
+
+    it('should show private state and disable copy when not published', async () => {
+      const row = createLiveResultsRow();
+
+      await refreshLiveResultsStatus();
+
+      expect(row.status.textContent).toBe('liveResultsPrivate');
+      expect(row.label.textContent).toBe('publishLiveResults');
+      expect(row.toggleBtn.disabled).toBe(false);
+      expect(row.copyBtn.disabled).toBe(true);
+    });
+
+    it('should disable the toggle when the publish state is unknown', async () => {
+      vi.mocked(syncService.fetchResultsPublished).mockResolvedValueOnce(null);
+      const row = createLiveResultsRow();
+
+      await refreshLiveResultsStatus();
+
+      expect(row.toggleBtn.disabled).toBe(true);
+    });
+
+    it('should publish results and update the row', async () => {
+      const row = createLiveResultsRow();
+
+      await setLiveResultsPublished(true);
+
+      expect(syncService.setResultsPublished).toHaveBeenCalledWith(true);
+      expect(row.status.textContent).toBe('liveResultsPublic');
+      expect(row.status.getAttribute('data-i18n')).toBe('liveResultsPublic');
+      expect(row.label.textContent).toBe('unpublishLiveResults');
+      expect(row.copyBtn.disabled).toBe(false);
+      expect(showToast).toHaveBeenCalledWith('liveResultsPublished', 'success');
+    });
+
+    it('should keep the state and show an error when publishing fails', async () => {
+      vi.mocked(syncService.setResultsPublished).mockResolvedValueOnce(false);
+      const row = createLiveResultsRow();
+
+      await setLiveResultsPublished(true);
+
+      expect(row.status.textContent).toBe('');
+      expect(showToast).toHaveBeenCalledWith('operationFailed', 'error');
+    });
+  });
+
   describe('cleanupChiefJudgeView', () => {
     it('should not throw', () => {
       expect(() => cleanupChiefJudgeView()).not.toThrow();
@@ -0,0 +1,209 @@
+/**
+ * Unit Tests for Clock Health View Module
+ * Tests: refreshClockHealth (device rows, empty state), start/finish drift
+ * warning (threshold, next run, one toast per run), polling while the Chief
+ * Judge panel is open
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackWarning: vi.fn(),
+}));
+
+const mockFetchDeviceClocks = vi.fn();
+
+vi.mock('../../../src/services/sync', () => ({
+  syncService: {
+    fetchDeviceClocks: () => mockFetchDeviceClocks(),
+  },
+}));
+
+import { computed, effect, signal } from '@preact/signals-core';
+import type { DeviceClockReport, Entry } from '../../../src/types';
+
+const mockEntries = signal<Entry[]>([]);
+const mockPrimaryDevices = signal<Record<string, string>>({});
+const mockChiefView = signal(false);
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => ({
+      currentLang: 'en',
+      entries: mockEntries.value,
+      primaryDevices: mockPrimaryDevices.value,
+    }),
+  },
+  $entries: computed(() => mockEntries.value),
+  $primaryDevices: computed(() => mockPrimaryDevices.value),
+  $isChiefJudgeView: computed(() => mockChiefView.value),
+  $settingsSync: computed(() => true),
+  $runs: computed(() => [1, 2]),
+  effect,
+}));
+
+vi.mock('../../../src/utils', () => ({
+  escapeAttr: vi.fn((s: string) => s),
+  escapeHtml: vi.fn((s: string) => s),
+  getPointLabel: vi.fn((point: string) => point),
+}));
+
+import { showToast } from '../../../src/components';
+import {
+  cleanupClockHealth,
+  initClockHealth,
+  refreshClockHealth,
+} from '../../../src/features/clockHealthView';
+
+const SERVER_TIME = 1_700_000_000_000;
+
+function clock(
+  deviceId: string,
+  point: DeviceClockReport['point'],
+  skewMs: number,
+  overrides: Partial<DeviceClockReport> = {},
+): DeviceClockReport {
+  return {
+    deviceId,
+    name: deviceId,
+    lastSeen: SERVER_TIME - 12000,
+    source: 'system',
+    skewMs,
+    gpsOffsetMs: null,
+    gpsAccuracy: null,
+    point,
+    ...overrides,
+  };
+}
+
+function respond(devices: DeviceClockReport[]): void {
+  mockFetchDeviceClocks.mockResolvedValue({
+    devices,
+    serverTime: SERVER_TIME,
+  });
+}
+
+function warning(): HTMLElement {
+  return document.getElementById('clock-health-warning')!;
+}
+
+describe('Clock Health View Module', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    container = document.createElement('div');
+    container.innerHTML = `
+      <p id="clock-health-warning" hidden></p>
+      <div id="clock-health-list"></div>
+    `;
+    document.body.appendChild(container);
+    mockEntries.value = [];
+    mockPrimaryDevices.value = {};
+    mockChiefView.value = false;
+    respond([]);
+  });
+
+  afterEach(() => {
+    cleanupClockHealth();
+    container.remove();
+  });
+
+  it('should show the empty state without clock reports', async () => {
+    await refreshClockHealth();
+
+    expect(document.getElementById('clock-health-list')!.textContent).toContain(
+      'clockHealthEmpty',
+    );
+    expect(warning().hidden).toBe(true);
+  });
+
+  it('should list each device with offset, GPS accuracy and last sync', async () => {
+    respond([
+      clock('Start', 'S', 120, {
+        source: 'gps',
+        gpsOffsetMs: -40,
+        gpsAccuracy: 5.4,
+      }),
+      clock('Finish', 'F', 80),
+    ]);
+
+    await refreshClockHealth();
+
+    const details = Array.from(
+      document.querySelectorAll('.clock-health-details'),
+    ).map((el) => el.textContent);
+    expect(details).toEqual([
+      'clockOffset +0.120 s · gps −0.040 s · gpsAccuracy ±5 m · clockLastSync',
+      'clockOffset +0.080 s · clockLastSync',
+    ]);
+    expect(
+      document.querySelector('.clock-health-source.system')!.textContent,
+    ).toBe('clockSourceSystem');
+    expect(warning().hidden).toBe(true);
+  });
+
+  it('should warn once before the next run when start and finish drift apart', async () => {
+    mockEntries.value = [
+      {
+        id: 'e1',
+        bib: '001',
+        point: 'S',
+        run: 1,
+        timestamp: new Date(SERVER_TIME).toISOString(),
+        status: 'ok',
+        deviceId: 'Start',
+        deviceName: 'Start',
+      },
+    ];
+    respond([clock('Start', 'S', 0), clock('Finish', 'F', 1200)]);
+
+    await refreshClockHealth();
+    await refreshClockHealth();
+
+    expect(warning().hidden).toBe(false);
+    expect(warning().textContent).toBe('clockDriftWarningRun');
+    expect(
+      document.querySelectorAll('.clock-health-row.drifting'),
+    ).toHaveLength(2);
+    expect(showToast).toHaveBeenCalledTimes(1);
+    expect(showToast).toHaveBeenCalledWith('clockDriftWarningRun', 'warning');
+  });
+
+  it('should compare only the official timers', async () => {
+    mockPrimaryDevices.value = { S: 'Start A' };
+    respond([
+      clock('Start A', 'S', 0),
+      clock('Start B', 'S', 2000),
+      clock('Finish', 'F', 100),
+    ]);
+
+    await refreshClockHealth();
+
+    expect(warning().hidden).toBe(true);
+  });
+
+  it('should poll clock reports only while the chief judge panel is open', async () => {
+    vi.useFakeTimers();
+    initClockHealth();
+    expect(mockFetchDeviceClocks).not.toHaveBeenCalled();
+
+    mockChiefView.value = true;
+    expect(mockFetchDeviceClocks).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(15000);
+    expect(mockFetchDeviceClocks).toHaveBeenCalledTimes(2);
+
+    mockChiefView.value = false;
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(mockFetchDeviceClocks).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Course Map View Module
+ * Tests: updateCourseMap (empty state, gates, judge coverage and legend),
+ * recording gates from GPS fixes (accuracy, numbering, colors, gate limit),
+ * removing the last gate
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+const mockRequestPosition = vi.fn();
+
+vi.mock('../../../src/services', () => ({
+  feedbackSuccess: vi.fn(),
+  feedbackTap: vi.fn(),
+  gpsService: {
+    requestPosition: (fresh?: boolean) => mockRequestPosition(fresh),
+  },
+}));
+
+import { computed, effect, signal } from '@preact/signals-core';
+import type { CourseGate, GateAssignment } from '../../../src/types';
+
+const mockCourseGates = signal<CourseGate[]>([]);
+const mockMaxGate = signal(99);
+const mockChiefView = signal(false);
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => ({
+      currentLang: 'en',
+      courseGates: mockCourseGates.value,
+    }),
+    setCourseGates: vi.fn((gates: CourseGate[]) => {
+      mockCourseGates.value = gates;
+    }),
+  },
+  $courseGates: computed(() => mockCourseGates.value),
+  $maxGate: computed(() => mockMaxGate.value),
+  $isChiefJudgeView: computed(() => mockChiefView.value),
+  effect,
+}));
+
+vi.mock('../../../src/utils', () => ({
+  escapeAttr: vi.fn((s: string) => s),
+  escapeHtml: vi.fn((s: string) => s),
+}));
+
+import { showToast } from '../../../src/components';
+import {
+  cleanupCourseMap,
+  initCourseMap,
+  updateCourseMap,
+} from '../../../src/features/courseMapView';
+import { store } from '../../../src/store';
+
+function gate(number: number, color: CourseGate['color']): CourseGate {
+  return { number, color, latitude: 47.1 - number * 0.0002, longitude: 11.2 };
+}
+
+function judge(name: string, gateStart: number, gateEnd: number) {
+  return {
+    deviceId: name,
+    deviceName: name,
+    gateStart,
+    gateEnd,
+    lastSeen: 0,
+  } satisfies GateAssignment;
+}
+
+function fix(accuracy: number) {
+  return {
+    coords: { latitude: 47.05, longitude: 11.21, accuracy },
+    timestamp: 0,
+  };
+}
+
+function recordButton(): HTMLButtonElement {
+  return document.getElementById('course-record-gate-btn') as HTMLButtonElement;
+}
+
+function removeButton(): HTMLButtonElement {
+  return document.getElementById('course-remove-gate-btn') as HTMLButtonElement;
+}
+
+async function clickRecord(): Promise<void> {
+  recordButton().click();
+  await vi.waitFor(() => expect(recordButton().disabled).toBe(false));
+}
+
+describe('Course Map View Module', () => {
+  let container: HTMLDivElement;
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    container = document.createElement('div');
+    container.innerHTML = `
+      <div id="course-map"></div>
+      <button id="course-record-gate-btn"></button>
+      <button id="course-remove-gate-btn"></button>
+    `;
+    document.body.appendChild(container);
+    mockCourseGates.value = [];
+    mockMaxGate.value = 99;
+    mockChiefView.value = true;
+    initCourseMap(onChange);
+  });
+
+  afterEach(() => {
+    cleanupCourseMap();
+    container.remove();
+  });
+
+  it('should show the empty state and offer gate 1 without gates', () => {
+    expect(document.getElementById('course-map')!.textContent).toContain(
+      'courseMapEmpty',
+    );
+    expect(recordButton().textContent).toBe('courseRecordGate');
+    expect(removeButton().disabled).toBe(true);
+  });
+
+  it('should draw the gates with each judge coverage and a legend', () => {
+    mockCourseGates.value = [gate(1, 'red'), gate(2, 'blue'), gate(3, 'red')];
+    updateCourseMap([judge('Upper', 2, 3), judge('Top', 1, 1)]);
+
+    expect(document.querySelectorAll('.course-gate.red')).toHaveLength(2);
+    expect(document.querySelectorAll('.course-gate.blue')).toHaveLength(1);
+    const coverage = document.querySelectorAll('.course-coverage');
+    expect(coverage).toHaveLength(2);
+    // Judges are listed by their first gate
+    expect(coverage[0]!.classList.contains('course-judge-0')).toBe(true);
+    expect(coverage[1]!.getAttribute('points')!.split(' ')).toHaveLength(2);
+    expect(
+      Array.from(document.querySelectorAll('.course-map-judge')).map((el) =>
+        el.textContent!.replace(/\s+/g, ' ').trim(),
+      ),
+    ).toEqual(['Top 1–1', 'Upper 2–3']);
+  });
+
+  it('should keep the last judges when the course changes', () => {
+    updateCourseMap([judge('Top', 1, 2)]);
+    mockCourseGates.value = [gate(1, 'red'), gate(2, 'blue')];
+
+    expect(document.querySelectorAll('.course-coverage')).toHaveLength(1);
+  });
+
+  it('should record the next gate at an accurate GPS fix', async () => {
+    mockCourseGates.value = [gate(1, 'red')];
+    mockRequestPosition.mockResolvedValue(fix(8));
+
+    await clickRecord();
+
+    expect(mockRequestPosition).toHaveBeenCalledWith(true);
+    expect(store.setCourseGates).toHaveBeenCalledWith([
+      gate(1, 'red'),
+      { number: 2, color: 'blue', latitude: 47.05, longitude: 11.21 },
+    ]);
+    expect(showToast).toHaveBeenCalledWith('courseGateRecorded', 'success');
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject inaccurate or missing GPS fixes', async () => {
+    mockRequestPosition.mockResolvedValueOnce(fix(45));
+    await clickRecord();
+    expect(showToast).toHaveBeenCalledWith('courseGpsInaccurate', 'warning');
+
+    mockRequestPosition.mockResolvedValueOnce(null);
+    await clickRecord();
+    expect(showToast).toHaveBeenCalledWith('courseGpsUnavailable', 'warning');
+
+    expect(store.setCourseGates).not.toHaveBeenCalled();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should not record more gates than the course has', () => {
+    mockMaxGate.value = 1;
+    mockCourseGates.value = [gate(1, 'red')];
+
+    expect(recordButton().disabled).toBe(true);
+  });
+
+  it('should remove the last gate', () => {
+    mockCourseGates.value = [gate(1, 'red'), gate(2, 'blue')];
+
+    removeButton().click();
+
+    expect(mockCourseGates.value).toEqual([gate(1, 'red')]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not render outside the chief judge view', () => {
+    mockChiefView.value = false;
+    mockCourseGates.value = [gate(1, 'red')];
+
+    expect(document.querySelectorAll('.course-gate')).toHaveLength(0);
+  });
+});
@@ -199,7 +199,7 @@ describe('Display Settings — handler coverage', () => {
       expect(vi.mocked(voiceModeService.disable)).toHaveBeenCalled();
     });
 
-    it('should revert toggle and show toast when offline', async () => {
+    it('should enable voice mode when offline', async () => {
       setupDOM();
       initDisplaySettings(vi.fn());
       await flushAsync();
@@ -216,8 +216,9 @@ describe('Display Settings — handler coverage', () => {
       toggle.checked = true;
       toggle.dispatchEvent(new Event('change'));
 
-      expect(toggle.checked).toBe(false);
-      expect(showToast).toHaveBeenCalledWith('voiceOffline', 'warning');
+      expect(vi.mocked(voiceModeService.enable)).toHaveBeenCalled();
+      expect(toggle.checked).toBe(true);
+      expect(showToast).not.toHaveBeenCalled();
 
       // Restore
       Object.defineProperty(navigator, 'onLine', {
@@ -1,7 +1,8 @@
 /**
  * Integration Tests for Export Module
  * Tests exportResults, exportJudgeReport, exportFaultSummaryWhatsApp,
- * exportChiefSummary with mocked store and Blob capture
+ * exportChiefSummary with mocked store and Blob capture, including
+ * per-age-category penalty rules
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -24,8 +25,33 @@ vi.mock('../../../src/utils/logger', () => ({
 }));
 
 const mockGetState = vi.fn();
+let mockRacerLookup = new Map<
+  string,
+  { bib: string; name: string; club?: string; ageCategory?: string }
+>();
 vi.mock('../../../src/store', () => ({
   store: { getState: (...args: unknown[]) => mockGetState(...args) },
+  $racerLookup: {
+    get value() {
+      return mockRacerLookup;
+    },
+  },
+  $penaltyConfig: {
+    get value() {
+      const state = mockGetState();
+      return {
+        usePenaltyMode: state.usePenaltyMode,
+        penaltySeconds: state.penaltySeconds,
+        rules: state.penaltyRules,
+        getAgeCategory: (bib: string) => mockRacerLookup.get(bib)?.ageCategory,
+      };
+    },
+  },
+  $raceDefinition: {
+    get value() {
+      return mockGetState().raceDefinition ?? null;
+    },
+  },
 }));
 
 // -- Imports --
@@ -90,6 +116,7 @@ describe('Export Integration', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     capturedBlobContents = [];
+    mockRacerLookup = new Map();
 
     // Intercept Blob constructor to capture CSV content
     OriginalBlob = globalThis.Blob;
@@ -417,6 +444,34 @@ describe('Export Integration', () => {
         }
       });
 
+      it('should add a Handzeit column naming the official of manual times', () => {
+        mockGetState.mockReturnValue({
+          entries: [
+            entry({ id: '1', bib: '042' }),
+            entry({
+              id: '2',
+              bib: '042',
+              point: 'F',
+              timestamp: '2024-01-15T10:05:00.000Z',
+              timeSource: 'manual',
+              enteredBy: 'Anna Huber',
+            }),
+          ],
+          faultEntries: [],
+          currentLang: 'en',
+          raceId: 'RACE',
+        });
+
+        exportResults();
+
+        const lines = capturedBlobContents[0]!.split('\n').filter(Boolean);
+        expect(lines[0]!.split(';')[6]).toBe('Handzeit');
+        expect(lines.slice(1).map((line) => line.split(';')[6])).toEqual([
+          '',
+          'Anna Huber',
+        ]);
+      });
+
       it('should include Datum column in header and data', () => {
         mockGetState.mockReturnValue({
           entries: [entry()],
@@ -688,6 +743,92 @@ describe('Export Integration', () => {
         expect(dataRow.split(';')[6]).toBe('6'); // 2 faults * 3s = 6
       });
     });
+
+    // -- Start list racer columns --
+    describe('start list racer columns', () => {
+      it('should not add Name/Verein columns without a start list', () => {
+        mockGetState.mockReturnValue({
+          entries: [entry()],
+          faultEntries: [],
+          currentLang: 'en',
+          raceId: 'RACE',
+        });
+
+        exportResults();
+
+        const header = capturedBlobContents[0]!.split('\n')[0]!;
+        expect(header).toContain('Startnummer;Lauf;');
+      });
+
+      it('should add Name and Verein after the bib when a start list is loaded', () => {
+        mockRacerLookup = new Map([
+          ['042', { bib: '042', name: 'Huber Anna', club: 'SC Garmisch' }],
+        ]);
+        mockGetState.mockReturnValue({
+          entries: [entry(), entry({ id: '2', bib: '043' })],
+          faultEntries: [],
+          currentLang: 'en',
+          raceId: 'RACE',
+        });
+
+        exportResults();
+
+        const lines = capturedBlobContents[0]!.split('\n');
+        expect(lines[0]).toContain('Startnummer;Name;Verein;Lauf;');
+        expect(lines[1]!.split(';').slice(0, 3)).toEqual([
+          '042',
+          'Huber Anna',
+          'SC Garmisch',
+        ]);
+        // Bibs missing from the start list keep empty racer columns
+        expect(lines[2]!.split(';').slice(0, 3)).toEqual(['043', '', '']);
+      });
+    });
+
+    // -- Per-age-category penalty rules --
+    describe('penalty rules by age category', () => {
+      it('should apply the rule of the racer age category', () => {
+        mockRacerLookup = new Map([
+          ['042', { bib: '042', name: 'Huber Anna', ageCategory: 'U8' }],
+          ['043', { bib: '043', name: 'Maier Max', ageCategory: 'U14' }],
+        ]);
+        mockGetState.mockReturnValue({
+          entries: [
+            entry({ point: 'F' }),
+            entry({
+              id: '2',
+              bib: '043',
+              point: 'F',
+              timestamp: '2024-01-15T09:01:00.000Z',
+            }),
+          ],
+          faultEntries: [fault(), fault({ id: 'f2', bib: '043' })],
+          currentLang: 'en',
+          raceId: 'RACE',
+          usePenaltyMode: true,
+          penaltySeconds: 5,
+          penaltyRules: {
+            U8: { usePenaltyMode: true, penaltySeconds: 3 },
+            U14: { usePenaltyMode: false, penaltySeconds: 5 },
+          },
+        });
+
+        exportResults();
+
+        const lines = capturedBlobContents[0]!.split('\n');
+        // Status ; Gerät ; Torstrafzeit
+        expect(lines[1]!.split(';').slice(6, 9)).toEqual([
+          'FLT',
+          'Timer 1',
+          '3',
+        ]);
+        expect(lines[2]!.split(';').slice(6, 9)).toEqual([
+          'DSQ',
+          'Timer 1',
+          '0',
+        ]);
+      });
+    });
   });
 
   // =========================================================================
@@ -784,6 +925,35 @@ describe('Export Integration', () => {
       expect(content).toContain('015');
     });
 
+    it('should head the report with the race definition', () => {
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        faultEntries: [],
+        deviceName: 'Judge A',
+        deviceId: 'dev_judge1',
+        raceId: 'GS-2024',
+        gateAssignment: [1, 10],
+        raceDefinition: {
+          name: 'Club Championship',
+          date: '2026-02-14',
+          venue: 'Hochfügen',
+          discipline: 'GS',
+          gateCount: 45,
+          homologationNumber: '12345/01/26',
+          jury: [{ role: 'referee', name: 'Max Huber' }],
+          lastUpdated: 1000,
+        },
+      });
+
+      exportJudgeReport();
+
+      const content = capturedBlobContents[0]!;
+      expect(content).toContain('Club Championship (GS-2024)');
+      expect(content).toContain('disciplineGS, Hochfügen');
+      expect(content).toContain('12345/01/26');
+      expect(content).toContain('Max Huber');
+    });
+
     it('should filter faults to only this device', () => {
       mockGetState.mockReturnValue({
         currentLang: 'en',
@@ -852,6 +1022,50 @@ describe('Export Integration', () => {
       expect(navigator.clipboard.writeText).toHaveBeenCalled();
     });
 
+    it('should label bibs with racer names from the start list', () => {
+      mockRacerLookup = new Map([['042', { bib: '042', name: 'Huber Anna' }]]);
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        faultEntries: [fault()],
+        raceId: 'RACE-2024',
+        usePenaltyMode: false,
+        penaltySeconds: 5,
+      });
+
+      exportFaultSummaryWhatsApp();
+      expect(navigator.clipboard.writeText).toHaveBeenCalledWith(
+        expect.stringContaining('#042 Huber Anna'),
+      );
+    });
+
+    it('should list penalty and DSQ racers separately by age category rule', () => {
+      mockRacerLookup = new Map([
+        ['042', { bib: '042', name: 'Huber Anna', ageCategory: 'U10' }],
+        ['043', { bib: '043', name: 'Maier Max', ageCategory: 'U12' }],
+      ]);
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        faultEntries: [fault(), fault({ id: 'f2', bib: '043' })],
+        raceId: 'RACE-2024',
+        usePenaltyMode: true,
+        penaltySeconds: 5,
+        penaltyRules: {
+          U10: { usePenaltyMode: true, penaltySeconds: 5 },
+          U12: { usePenaltyMode: false, penaltySeconds: 5 },
+        },
+      });
+
+      exportFaultSummaryWhatsApp();
+      const text = vi.mocked(navigator.clipboard.writeText).mock.calls[0]![0];
+      const lines = text.split('\n');
+      const penaltyIdx = lines.indexOf('🟡 penaltyLabel:');
+      const dsqIdx = lines.indexOf('🔴 dsq:');
+      expect(penaltyIdx).toBeGreaterThan(-1);
+      expect(dsqIdx).toBeGreaterThan(penaltyIdx);
+      expect(lines[penaltyIdx + 1]).toBe('#042 Huber Anna: T4 (MG) → +5s');
+      expect(lines[dsqIdx + 1]).toBe('#043 Maier Max: T4 (MG)');
+    });
+
     it('should include penalty info in penalty mode', () => {
       mockGetState.mockReturnValue({
         currentLang: 'en',
@@ -1008,5 +1222,20 @@ describe('Export Integration', () => {
       exportChiefSummary();
       expect(mockCreateObjectURL).toHaveBeenCalled();
     });
+
+    it('should include racer names when a start list is loaded', () => {
+      mockRacerLookup = new Map([['042', { bib: '042', name: 'Huber Anna' }]]);
+      mockGetState.mockReturnValue({
+        currentLang: 'en',
+        faultEntries: [fault()],
+        raceId: 'RACE-2024',
+        usePenaltyMode: true,
+        penaltySeconds: 5,
+      });
+
+      exportChiefSummary();
+      expect(capturedBlobContents[0]).toContain('racerName');
+      expect(capturedBlobContents[0]).toContain('Huber Anna');
+    });
   });
 });
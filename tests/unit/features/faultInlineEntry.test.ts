@@ -3,7 +3,8 @@
  * Tests: updateActiveBibsList, updateInlineFaultsList, updateInlineBibSelector,
  *        selectInlineBib, updateInlineGateSelector, selectInlineGate,
  *        initInlineFaultEntry, updateInlineSaveButtonState, saveInlineFault,
- *        openFaultDeleteConfirmation, refreshInlineFaultUI
+ *        openFaultDeleteConfirmation, refreshInlineFaultUI, on-course tracking
+ *        (racer at the judge's gates, auto-selection, refresh while judging)
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -28,8 +29,17 @@ const mockGetState = vi.fn();
 const mockGetActiveBibs = vi.fn(() => []);
 const mockGetFaultsForBib = vi.fn(() => []);
 const mockGetGateColor = vi.fn(() => 'red');
+const { mockCurrentView } = vi.hoisted(() => ({
+  mockCurrentView: { value: 'timer' },
+}));
 
 vi.mock('../../../src/store', () => ({
+  $currentView: mockCurrentView,
+  $maxGate: { value: 40 },
+  effect: (fn: () => void) => {
+    fn();
+    return () => {};
+  },
   store: {
     getState: () => mockGetState(),
     getActiveBibs: (...args: unknown[]) => mockGetActiveBibs(...args),
@@ -73,6 +83,7 @@ vi.mock('../../../src/features/faults/faultOperations', () => ({
 
 import { showToast } from '../../../src/components';
 import {
+  cleanupInlineFaultEntry,
   initInlineFaultEntry,
   openFaultDeleteConfirmation,
   refreshInlineFaultUI,
@@ -369,4 +380,131 @@ describe('Fault Inline Entry Module', () => {
       expect(() => refreshInlineFaultUI()).not.toThrow();
     });
   });
+
+  describe('on-course tracking', () => {
+    const now = Date.parse('2024-01-15T10:03:00.000Z');
+
+    // 001 finished in 60 s; 002 started 2:30 ago (done), 003 30 s ago
+    // (halfway), 004 10 s ago, 005 DNF
+    const entries = [
+      ['001', 'S', '10:00:00', 'ok'],
+      ['001', 'F', '10:01:00', 'ok'],
+      ['002', 'S', '10:00:30', 'ok'],
+      ['003', 'S', '10:02:30', 'ok'],
+      ['004', 'S', '10:02:50', 'ok'],
+      ['005', 'S', '10:01:30', 'dnf'],
+    ].map(([bib, point, time, status]) => ({
+      bib,
+      point,
+      run: 1,
+      timestamp: `2024-01-15T${time}.000Z`,
+      status,
+    }));
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        entries,
+        gateAssignment: [18, 22],
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      mockCurrentView.value = 'timer';
+    });
+
+    it('should highlight the racer at the judge gates and drop DNF', () => {
+      const list = document.createElement('div');
+      list.id = 'active-bibs-list';
+      container.appendChild(list);
+
+      updateActiveBibsList();
+
+      const cards = Array.from(list.querySelectorAll('.active-bib-card'));
+      expect(cards.map((c) => c.getAttribute('data-bib'))).toEqual([
+        '004',
+        '003',
+        '002',
+      ]);
+      expect(list.querySelector('.at-gates')!.getAttribute('data-bib')).toBe(
+        '003',
+      );
+      expect(list.querySelector('.bib-at-gates-indicator')!.textContent).toBe(
+        'racerAtYourGates',
+      );
+    });
+
+    it('should auto-select the racer at the judge gates', async () => {
+      vi.resetModules();
+      const fresh = await import(
+        '../../../src/features/faults/faultInlineEntry'
+      );
+      const bibInput = document.createElement('input');
+      bibInput.id = 'inline-bib-input';
+      container.appendChild(bibInput);
+
+      fresh.selectInlineGate(20);
+
+      expect(bibInput.value).toBe('003');
+    });
+
+    it('should re-estimate positions while the gate judge view is open', () => {
+      const list = document.createElement('div');
+      list.id = 'active-bibs-list';
+      container.appendChild(list);
+      mockCurrentView.value = 'gateJudge';
+      initInlineFaultEntry();
+
+      vi.advanceTimersByTime(5000);
+      expect(list.querySelectorAll('.active-bib-card')).toHaveLength(3);
+
+      cleanupInlineFaultEntry();
+      list.innerHTML = '';
+      vi.advanceTimersByTime(5000);
+      expect(list.querySelectorAll('.active-bib-card')).toHaveLength(0);
+    });
+
+    it('should keep the bib cards when a re-estimate finds no change', () => {
+      const list = document.createElement('div');
+      list.id = 'active-bibs-list';
+      container.appendChild(list);
+      mockCurrentView.value = 'gateJudge';
+      initInlineFaultEntry();
+
+      vi.advanceTimersByTime(5000);
+      vi.setSystemTime(now);
+      const firstCard = list.querySelector('.active-bib-card');
+      expect(firstCard).not.toBeNull();
+
+      // Same estimate on the next tick: the racers have not moved
+      vi.setSystemTime(now);
+      vi.advanceTimersByTime(5000);
+      expect(list.querySelector('.active-bib-card')).toBe(firstCard);
+
+      // Racer 004 finishes: the list changes and is rebuilt
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        entries: [
+          ...entries,
+          {
+            bib: '004',
+            point: 'F',
+            run: 1,
+            timestamp: '2024-01-15T10:02:50.000Z',
+            status: 'ok',
+          },
+        ],
+      });
+      vi.advanceTimersByTime(5000);
+      const bibs = Array.from(list.querySelectorAll('.active-bib-card')).map(
+        (c) => c.getAttribute('data-bib'),
+      );
+      expect(bibs).not.toContain('004');
+
+      cleanupInlineFaultEntry();
+    });
+  });
 });
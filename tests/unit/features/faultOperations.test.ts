@@ -31,6 +31,7 @@ vi.mock('../../../src/store', () => ({
     getState: vi.fn(() => ({
       currentLang: 'en',
       selectedRun: 1,
+      runCount: 2,
       deviceId: 'device-1',
       deviceName: 'Timer 1',
       gateAssignment: [1, 10],
@@ -50,6 +51,8 @@ vi.mock('../../../src/utils', () => ({
     const map: Record<string, string> = { en: 'en-US', de: 'de-DE' };
     return map[lang] || 'en-US';
   }),
+  getRunLabel: vi.fn((run: number) => `L${run}`),
+  getRuns: vi.fn(() => [1, 2]),
   makeNumericInput: vi.fn(),
 }));
 
@@ -1424,7 +1427,7 @@ describe('Fault Operations Feature Module', () => {
       const fault = createMockFault({ run: 2 });
       openMarkDeletionModal(fault);
 
-      expect(detailsEl.innerHTML).toContain('run2');
+      expect(detailsEl.innerHTML).toContain('L2');
     });
   });
 
@@ -5,7 +5,7 @@
  *        updateJudgeReadyStatus, updateGateJudgeRunSelection,
  *        handleGateJudgeVoiceIntent, cleanupGateJudgeView,
  *        initGateJudgeView, openGateAssignmentModal, initGateAssignmentModal,
- *        updateOtherJudgesCoverage
+ *        gate suggestions from the course map, updateOtherJudgesCoverage
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -18,15 +18,24 @@ vi.mock('../../../src/i18n/translations', () => ({
   t: vi.fn((key: string) => key),
 }));
 
+const mockRequestPosition = vi.fn();
+
 vi.mock('../../../src/services', () => ({
   feedbackSuccess: vi.fn(),
   feedbackTap: vi.fn(),
+  gpsService: {
+    requestPosition: (fresh?: boolean) => mockRequestPosition(fresh),
+  },
   syncService: {
     getOtherGateAssignments: vi.fn(() => []),
+    getGateCoverage: vi.fn(() => null),
   },
 }));
 
 const mockGetState = vi.fn();
+const mockCourseGates = vi.hoisted(() => ({
+  value: [] as import('../../../src/types').CourseGate[],
+}));
 const mockSetSelectedRun = vi.fn();
 const mockSetJudgeReady = vi.fn();
 const mockSetGateAssignment = vi.fn();
@@ -40,13 +49,28 @@ vi.mock('../../../src/store', () => ({
     setGateAssignment: (...args: unknown[]) => mockSetGateAssignment(...args),
     setFirstGateColor: (...args: unknown[]) => mockSetFirstGateColor(...args),
   },
+  $maxGate: { value: 100 },
+  $courseGates: mockCourseGates,
 }));
 
 vi.mock('../../../src/utils', () => ({
+  clampGate: vi.fn((gate: number, maxGate: number) =>
+    Math.max(1, Math.min(maxGate, gate)),
+  ),
   escapeAttr: vi.fn((s: string) => s),
   escapeHtml: vi.fn((s: string) => s),
   getElement: vi.fn((id: string) => document.getElementById(id)),
+  getRunLabel: vi.fn((run: number) => `L${run}`),
+  getRuns: vi.fn((count: number) =>
+    Array.from({ length: count }, (_, i) => i + 1),
+  ),
   iconCheck: vi.fn(() => '<svg></svg>'),
+  isValidRun: vi.fn(
+    (run: unknown, runCount = 9) =>
+      Number.isInteger(run) &&
+      (run as number) >= 1 &&
+      (run as number) <= runCount,
+  ),
 }));
 
 vi.mock('../../../src/utils/listenerManager', () => ({
@@ -87,6 +111,7 @@ vi.mock('../../../src/utils/logger', () => ({
 }));
 
 vi.mock('../../../src/features/faults/faultInlineEntry', () => ({
+  cleanupInlineFaultEntry: vi.fn(),
   initInlineFaultEntry: vi.fn(),
   refreshInlineFaultUI: vi.fn(),
   updateActiveBibsList: vi.fn(),
@@ -147,8 +172,10 @@ describe('Gate Judge View Module', () => {
     // clears mockReturnValue, only call history)
     const mockSync = syncService as {
       getOtherGateAssignments: ReturnType<typeof vi.fn>;
+      getGateCoverage: ReturnType<typeof vi.fn>;
     };
     mockSync.getOtherGateAssignments.mockReturnValue([]);
+    mockSync.getGateCoverage.mockReturnValue(null);
 
     container = document.createElement('div');
     document.body.appendChild(container);
@@ -158,6 +185,7 @@ describe('Gate Judge View Module', () => {
       currentLang: 'en',
       deviceRole: 'gateJudge',
       selectedRun: 1,
+      runCount: 2,
       gateAssignment: [1, 10],
       firstGateColor: 'red',
       isJudgeReady: false,
@@ -361,6 +389,38 @@ describe('Gate Judge View Module', () => {
       expect(countEl.textContent).toBe('1/2');
       expect(indicator.classList.contains('all-ready')).toBe(false);
     });
+
+    it('should not show all ready while gates have no judge', () => {
+      vi.mocked(syncService.getGateCoverage).mockReturnValue({
+        gateCount: 25,
+        gaps: [{ gateStart: 21, gateEnd: 25 }],
+        overlaps: [],
+      });
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        deviceRole: 'gateJudge',
+        gateAssignment: [1, 10],
+        isJudgeReady: true,
+      });
+
+      updateJudgesReadyIndicator([
+        {
+          deviceId: 'dev_2',
+          deviceName: 'Judge 2',
+          gateStart: 11,
+          gateEnd: 20,
+          isReady: true,
+          lastSeen: Date.now(),
+        },
+      ]);
+
+      expect(countEl.textContent).toBe('2/2');
+      expect(indicator.classList.contains('all-ready')).toBe(false);
+      expect(indicator.classList.contains('coverage-gap')).toBe(true);
+      expect(indicator.getAttribute('aria-label')).toContain(
+        'coverageIncomplete',
+      );
+    });
   });
 
   describe('updateJudgeReadyStatus', () => {
@@ -413,6 +473,27 @@ describe('Gate Judge View Module', () => {
 
       expect(indicator.classList.contains('all-ready')).toBe(true);
     });
+
+    it('should stay at some-ready while gates have no judge', () => {
+      vi.mocked(syncService.getGateCoverage).mockReturnValue({
+        gateCount: 20,
+        gaps: [{ gateStart: 11, gateEnd: 20 }],
+        overlaps: [],
+      });
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        isJudgeReady: true,
+      });
+
+      const indicator = document.createElement('div');
+      indicator.id = 'judge-ready-indicator';
+      container.appendChild(indicator);
+
+      updateJudgeReadyStatus();
+
+      expect(indicator.classList.contains('all-ready')).toBe(false);
+      expect(indicator.classList.contains('some-ready')).toBe(true);
+    });
   });
 
   describe('updateGateJudgeRunSelection', () => {
@@ -622,6 +703,82 @@ describe('Gate Judge View Module', () => {
     });
   });
 
+  describe('gate suggestions from the course map', () => {
+    // Gates ~22 m apart down the hill
+    const courseGates = Array.from({ length: 12 }, (_, i) => ({
+      number: i + 1,
+      color: (i % 2 === 0 ? 'red' : 'blue') as 'red' | 'blue',
+      latitude: 47.1 - i * 0.0002,
+      longitude: 11.2,
+    }));
+
+    function setupModal() {
+      container.innerHTML = `
+        <input id="gate-start-input">
+        <input id="gate-end-input">
+        <button id="gate-suggest-btn" hidden></button>
+        <div id="gate-color-selector">
+          <button class="gate-color-btn" data-color="red"></button>
+          <button class="gate-color-btn" data-color="blue"></button>
+        </div>
+      `;
+      initGateAssignmentModal();
+      openGateAssignmentModal();
+      return document.getElementById('gate-suggest-btn') as HTMLButtonElement;
+    }
+
+    afterEach(() => {
+      mockCourseGates.value = [];
+      cleanupGateJudgeView();
+    });
+
+    it('should hide the suggestion without gate positions', () => {
+      expect(setupModal().hidden).toBe(true);
+    });
+
+    it('should fill in the gates near the judge', async () => {
+      mockCourseGates.value = courseGates;
+      mockRequestPosition.mockResolvedValue({
+        coords: { ...courseGates[5]!, accuracy: 10 },
+      });
+      const btn = setupModal();
+      expect(btn.hidden).toBe(false);
+
+      btn.click();
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith('gateSuggested', 'success'),
+      );
+
+      expect(mockRequestPosition).toHaveBeenCalledWith(true);
+      expect(
+        (document.getElementById('gate-start-input') as HTMLInputElement).value,
+      ).toBe('3');
+      expect(
+        (document.getElementById('gate-end-input') as HTMLInputElement).value,
+      ).toBe('9');
+      expect(
+        document
+          .querySelector('.gate-color-btn.active')!
+          .getAttribute('data-color'),
+      ).toBe('red');
+    });
+
+    it('should warn when no gates are nearby', async () => {
+      mockCourseGates.value = courseGates;
+      mockRequestPosition.mockResolvedValue({
+        coords: { latitude: 47.2, longitude: 11.2, accuracy: 10 },
+      });
+
+      setupModal().click();
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith('gateSuggestNone', 'warning'),
+      );
+      expect(
+        (document.getElementById('gate-start-input') as HTMLInputElement).value,
+      ).toBe('1');
+    });
+  });
+
   describe('initGateAssignmentModal - save handler', () => {
     it('should not throw when save button is missing', () => {
       expect(() => initGateAssignmentModal()).not.toThrow();
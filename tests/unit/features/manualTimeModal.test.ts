@@ -0,0 +1,176 @@
+/**
+ * Unit Tests for Manual Time Modal Module
+ * Tests: openManualTimeModal (point/run options, presets), saving a manual
+ * time (validation, entry fields, sync, duplicate warning)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackSuccess: vi.fn(),
+  feedbackWarning: vi.fn(),
+}));
+
+vi.mock('../../../src/services/sync', () => ({
+  syncEntry: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../../../src/features/modals', () => ({
+  openModal: vi.fn(),
+  closeModal: vi.fn(),
+}));
+
+const mockAddEntry = vi.fn();
+const mockState = {
+  currentLang: 'en',
+  deviceId: 'dev_test',
+  deviceName: 'Timer 1',
+  selectedPoint: 'F',
+  selectedRun: 2,
+  entries: [] as unknown[],
+};
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => mockState,
+    addEntry: (...args: unknown[]) => mockAddEntry(...args),
+  },
+  $timingPoints: { value: ['S', 'I1', 'F'] },
+  $runs: { value: [1, 2] },
+}));
+
+vi.mock('../../../src/utils', () => ({
+  getElement: vi.fn((id: string) => document.getElementById(id)),
+  getPointLabel: vi.fn((point: string) => point),
+}));
+
+import { showToast } from '../../../src/components';
+import {
+  destroyManualTimeModal,
+  initManualTimeModal,
+  openManualTimeModal,
+} from '../../../src/features/manualTimeModal';
+import { closeModal, openModal } from '../../../src/features/modals';
+import { syncEntry } from '../../../src/services/sync';
+
+function setValue(id: string, value: string): void {
+  (document.getElementById(id) as HTMLInputElement).value = value;
+}
+
+function save(): void {
+  document.getElementById('save-manual-time-btn')!.click();
+}
+
+describe('Manual Time Modal Module', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockState.entries = [];
+    container = document.createElement('div');
+    container.innerHTML = `
+      <div id="manual-time-modal">
+        <input id="manual-time-bib">
+        <select id="manual-time-point"></select>
+        <select id="manual-time-run"></select>
+        <input id="manual-time-value">
+        <input id="manual-time-official">
+        <p id="manual-time-error" style="display: none;"></p>
+        <button id="save-manual-time-btn"></button>
+      </div>
+    `;
+    document.body.appendChild(container);
+    initManualTimeModal();
+  });
+
+  afterEach(() => {
+    destroyManualTimeModal();
+    container.remove();
+  });
+
+  it('should offer the race points and runs, preset to the selection', () => {
+    openManualTimeModal();
+
+    const point = document.getElementById(
+      'manual-time-point',
+    ) as HTMLSelectElement;
+    const run = document.getElementById('manual-time-run') as HTMLSelectElement;
+    expect(Array.from(point.options).map((o) => o.value)).toEqual([
+      'S',
+      'I1',
+      'F',
+    ]);
+    expect(point.value).toBe('F');
+    expect(Array.from(run.options).map((o) => o.value)).toEqual(['1', '2']);
+    expect(run.value).toBe('2');
+    expect(openModal).toHaveBeenCalled();
+  });
+
+  it('should store a manual entry with the official and sync it', () => {
+    openManualTimeModal();
+    setValue('manual-time-bib', '7');
+    setValue('manual-time-value', '10:23:45.67');
+    setValue('manual-time-official', ' Anna Huber ');
+
+    save();
+
+    const entry = mockAddEntry.mock.calls[0]![0];
+    const time = new Date(entry.timestamp);
+    expect(entry).toMatchObject({
+      bib: '007',
+      point: 'F',
+      run: 2,
+      timeSource: 'manual',
+      enteredBy: 'Anna Huber',
+      deviceId: 'dev_test',
+    });
+    expect([time.getHours(), time.getMinutes(), time.getSeconds()]).toEqual([
+      10, 23, 45,
+    ]);
+    expect(time.getMilliseconds()).toBe(670);
+    expect(syncEntry).toHaveBeenCalledWith(entry);
+    expect(showToast).toHaveBeenCalledWith('manualTimeSaved', 'success');
+    expect(closeModal).toHaveBeenCalled();
+  });
+
+  it('should show an error and not save invalid input', () => {
+    openManualTimeModal();
+    setValue('manual-time-bib', '7');
+    setValue('manual-time-value', '10:23');
+    setValue('manual-time-official', 'Anna Huber');
+
+    save();
+
+    const error = document.getElementById('manual-time-error')!;
+    expect(error.textContent).toBe('manualTimeInvalid');
+    expect(error.style.display).toBe('block');
+
+    setValue('manual-time-value', '10:23:45');
+    setValue('manual-time-official', '');
+    save();
+
+    expect(error.textContent).toBe('manualTimeOfficialRequired');
+    expect(mockAddEntry).not.toHaveBeenCalled();
+  });
+
+  it('should warn when the bib already has a time at the point', () => {
+    mockState.entries = [{ bib: '007', point: 'F', run: 2 }];
+    openManualTimeModal();
+    setValue('manual-time-bib', '7');
+    setValue('manual-time-value', '10:23:45');
+    setValue('manual-time-official', 'Anna Huber');
+
+    save();
+
+    expect(mockAddEntry).toHaveBeenCalled();
+    expect(showToast).toHaveBeenCalledWith('duplicateWarning', 'warning');
+  });
+});
@@ -1,6 +1,7 @@
 /**
  * Unit Tests for Photo Viewer Feature Module
- * Tests: openPhotoViewer, closePhotoViewer, deletePhoto, getCurrentPhotoEntryId
+ * Tests: openPhotoViewer, closePhotoViewer, deletePhoto, getCurrentPhotoEntryId,
+ * burst scrubbing
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -15,17 +16,26 @@ vi.mock('../../../src/i18n/translations', () => ({
 }));
 
 vi.mock('../../../src/services', () => ({
+  bibRecognitionService: { forget: vi.fn() },
   feedbackDelete: vi.fn(),
   photoStorage: {
     getPhoto: vi.fn(),
+    getBurst: vi.fn(() => Promise.resolve(null)),
     deletePhoto: vi.fn(() => Promise.resolve()),
   },
+  syncService: {
+    fetchEntryPhoto: vi.fn(),
+    deleteEntryPhoto: vi.fn(() => Promise.resolve(true)),
+  },
 }));
 
 vi.mock('../../../src/store', () => ({
   store: {
     getState: vi.fn(() => ({
       currentLang: 'en',
+      entries: [],
+      deviceId: 'device-1',
+      settings: { sync: false },
     })),
     updateEntry: vi.fn(),
   },
@@ -51,6 +61,7 @@ vi.mock('../../../src/utils/logger', () => ({
 
 vi.mock('../../../src/utils/photoHelpers', () => ({
   isPhotoMarker: vi.fn((photo: string) => photo === 'indexeddb'),
+  isCloudPhotoMarker: vi.fn((photo: string) => photo === 'cloud'),
 }));
 
 vi.mock('../../../src/features/modals', () => ({
@@ -65,8 +76,15 @@ import {
   deletePhoto,
   getCurrentPhotoEntryId,
   openPhotoViewer,
+  showBurstFrame,
+  stepBurstFrame,
 } from '../../../src/features/photoViewer';
-import { feedbackDelete, photoStorage } from '../../../src/services';
+import {
+  bibRecognitionService,
+  feedbackDelete,
+  photoStorage,
+  syncService,
+} from '../../../src/services';
 import { store } from '../../../src/store';
 import type { Entry } from '../../../src/types';
 import { logger } from '../../../src/utils/logger';
@@ -93,6 +111,12 @@ describe('Photo Viewer Feature Module', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.mocked(store.getState).mockReturnValue({
+      currentLang: 'en',
+      entries: [],
+      deviceId: 'device-1',
+      settings: { sync: false },
+    } as any);
 
     globalThis.URL.createObjectURL = vi.fn(() => 'blob:mock-url');
     globalThis.URL.revokeObjectURL = vi.fn();
@@ -255,6 +279,54 @@ describe('Photo Viewer Feature Module', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // openPhotoViewer — cloud photos
+  // -------------------------------------------------------------------------
+  describe('openPhotoViewer cloud photos', () => {
+    it('should download the full-size photo of a cloud entry', async () => {
+      vi.mocked(syncService.fetchEntryPhoto).mockResolvedValue('AAAA');
+
+      const entry = createMockEntry({ photo: 'cloud' });
+      await openPhotoViewer(entry);
+
+      expect(syncService.fetchEntryPhoto).toHaveBeenCalledWith(entry, 'full');
+      expect(photoStorage.getPhoto).not.toHaveBeenCalled();
+      expect(image.src).toContain('blob:');
+      expect(openModal).toHaveBeenCalledWith(modal);
+    });
+
+    it('should show a toast and NOT open modal when the download fails', async () => {
+      vi.mocked(syncService.fetchEntryPhoto).mockResolvedValue(null);
+
+      await openPhotoViewer(createMockEntry({ photo: 'cloud' }));
+
+      expect(showToast).toHaveBeenCalledWith('photoLoadFailed', 'warning');
+      expect(openModal).not.toHaveBeenCalled();
+      expect(getCurrentPhotoEntryId()).toBeNull();
+    });
+
+    it('should not show a photo when another one was opened meanwhile', async () => {
+      let resolveFetch!: (value: string) => void;
+      vi.mocked(syncService.fetchEntryPhoto).mockReturnValueOnce(
+        new Promise<string>((resolve) => {
+          resolveFetch = resolve;
+        }),
+      );
+
+      const slow = openPhotoViewer(
+        createMockEntry({ id: 'slow', photo: 'cloud' }),
+      );
+      await openPhotoViewer(createMockEntry({ id: 'inline' }));
+      vi.mocked(openModal).mockClear();
+
+      resolveFetch('AAAA');
+      await slow;
+
+      expect(openModal).not.toHaveBeenCalled();
+      expect(getCurrentPhotoEntryId()).toBe('inline');
+    });
+  });
+
   // -------------------------------------------------------------------------
   // openPhotoViewer — base64 fallback
   // -------------------------------------------------------------------------
@@ -313,6 +385,117 @@ describe('Photo Viewer Feature Module', () => {
   // -------------------------------------------------------------------------
   // closePhotoViewer — cleanup
   // -------------------------------------------------------------------------
+  // -------------------------------------------------------------------------
+  // openPhotoViewer — photo-finish bursts
+  // -------------------------------------------------------------------------
+  describe('photo-finish burst scrubber', () => {
+    let scrubber: HTMLDivElement;
+    let slider: HTMLInputElement;
+    let prevBtn: HTMLButtonElement;
+    let nextBtn: HTMLButtonElement;
+    let offsetEl: HTMLSpanElement;
+
+    const burst = [
+      { offsetMs: -100, timestamp: '2024-01-15T11:59:59.900Z', photo: 'AAAA' },
+      { offsetMs: -50, timestamp: '2024-01-15T11:59:59.950Z', photo: 'BBBB' },
+      { offsetMs: 0, timestamp: '2024-01-15T12:00:00.000Z', photo: 'CCCC' },
+      { offsetMs: 50, timestamp: '2024-01-15T12:00:00.050Z', photo: 'DDDD' },
+    ];
+
+    beforeEach(() => {
+      scrubber = document.createElement('div');
+      scrubber.id = 'photo-viewer-burst';
+      scrubber.hidden = true;
+      slider = document.createElement('input');
+      slider.type = 'range';
+      slider.id = 'photo-viewer-burst-slider';
+      prevBtn = document.createElement('button');
+      prevBtn.id = 'photo-viewer-burst-prev';
+      nextBtn = document.createElement('button');
+      nextBtn.id = 'photo-viewer-burst-next';
+      offsetEl = document.createElement('span');
+      offsetEl.id = 'photo-viewer-burst-offset';
+      scrubber.append(prevBtn, slider, nextBtn, offsetEl);
+      modal.appendChild(scrubber);
+
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('CCCC');
+      vi.mocked(photoStorage.getBurst).mockResolvedValue(null);
+    });
+
+    const decodedFrame = () => {
+      const calls = vi.mocked(URL.createObjectURL).mock.calls;
+      return (calls[calls.length - 1]![0] as Blob).size;
+    };
+
+    it('should open on the frame closest to the timestamp', async () => {
+      vi.mocked(photoStorage.getBurst).mockResolvedValue(burst);
+
+      await openPhotoViewer(
+        createMockEntry({ point: 'F', photo: 'indexeddb' }),
+      );
+
+      expect(photoStorage.getBurst).toHaveBeenCalledWith('entry-1');
+      expect(scrubber.hidden).toBe(false);
+      expect(slider.max).toBe('3');
+      expect(slider.value).toBe('2');
+      expect(offsetEl.textContent).toBe('+0 ms');
+      expect(openModal).toHaveBeenCalledWith(modal);
+    });
+
+    it('should step through frames and show their offsets', async () => {
+      vi.mocked(photoStorage.getBurst).mockResolvedValue(burst);
+      await openPhotoViewer(
+        createMockEntry({ point: 'F', photo: 'indexeddb' }),
+      );
+
+      stepBurstFrame(-1);
+      expect(slider.value).toBe('1');
+      expect(offsetEl.textContent).toBe('-50 ms');
+      expect(decodedFrame()).toBe(3);
+
+      stepBurstFrame(1);
+      stepBurstFrame(1);
+      expect(offsetEl.textContent).toBe('+50 ms');
+      expect(nextBtn.disabled).toBe(true);
+
+      // Stepping past the end stays on the last frame
+      stepBurstFrame(1);
+      expect(slider.value).toBe('3');
+    });
+
+    it('should jump to a frame from the slider', async () => {
+      vi.mocked(photoStorage.getBurst).mockResolvedValue(burst);
+      await openPhotoViewer(
+        createMockEntry({ point: 'F', photo: 'indexeddb' }),
+      );
+
+      showBurstFrame(0);
+
+      expect(offsetEl.textContent).toBe('-100 ms');
+      expect(prevBtn.disabled).toBe(true);
+      expect(URL.revokeObjectURL).toHaveBeenCalled();
+    });
+
+    it('should hide the scrubber for single photos', async () => {
+      scrubber.hidden = false;
+
+      await openPhotoViewer(createMockEntry({ photo: 'indexeddb' }));
+
+      expect(scrubber.hidden).toBe(true);
+      stepBurstFrame(1);
+      expect(offsetEl.textContent).toBe('');
+    });
+
+    it('should not look for bursts of cloud photos', async () => {
+      vi.mocked(syncService.fetchEntryPhoto).mockResolvedValue('AAAA');
+
+      await openPhotoViewer(createMockEntry({ photo: 'cloud' }));
+
+      expect(photoStorage.getBurst).not.toHaveBeenCalled();
+      expect(scrubber.hidden).toBe(true);
+    });
+  });
+
   describe('closePhotoViewer', () => {
     it('should revoke blob URL on close', async () => {
       vi.mocked(photoStorage.getPhoto).mockResolvedValue('AAAA');
@@ -371,6 +554,7 @@ describe('Photo Viewer Feature Module', () => {
       await deletePhoto();
 
       expect(photoStorage.deletePhoto).toHaveBeenCalledWith('entry-del-1');
+      expect(bibRecognitionService.forget).toHaveBeenCalledWith('entry-del-1');
     });
 
     it('should update entry to remove photo marker', async () => {
@@ -413,6 +597,37 @@ describe('Photo Viewer Feature Module', () => {
       expect(getCurrentPhotoEntryId()).toBeNull();
     });
 
+    it("should delete the cloud photo of this device's entry", async () => {
+      const entry = createMockEntry({ id: 'entry-del-3' });
+      vi.mocked(store.getState).mockReturnValue({
+        currentLang: 'en',
+        entries: [entry],
+        deviceId: 'device-1',
+        settings: { sync: true },
+      } as any);
+      await openPhotoViewer(entry);
+
+      await deletePhoto();
+
+      expect(syncService.deleteEntryPhoto).toHaveBeenCalledWith(entry);
+    });
+
+    it("should keep the cloud photo of another device's entry", async () => {
+      const entry = createMockEntry({ deviceId: 'device-2' });
+      vi.mocked(store.getState).mockReturnValue({
+        currentLang: 'en',
+        entries: [entry],
+        deviceId: 'device-1',
+        settings: { sync: true },
+      } as any);
+      await openPhotoViewer(entry);
+
+      await deletePhoto();
+
+      expect(photoStorage.deletePhoto).toHaveBeenCalledWith('entry-1');
+      expect(syncService.deleteEntryPhoto).not.toHaveBeenCalled();
+    });
+
     it('should do nothing when no photo is currently open', async () => {
       closePhotoViewer(); // ensure clean state
 
@@ -0,0 +1,501 @@
+/**
+ * Unit Tests for Protests View Module
+ * Tests: protest list (open first, decisions) and deadlines per run, filing
+ * protests (fault snapshot, requested status, deadline), jury decisions
+ * (reporting upheld fault and status protests the server carried out,
+ * rejected protests, vote majority, failures)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackSuccess: vi.fn(),
+  feedbackTap: vi.fn(),
+}));
+
+vi.mock('../../../src/services/sync', () => ({
+  syncService: {
+    fetchProtests: vi.fn(() => Promise.resolve()),
+    fetchProtestPhoto: vi.fn(() => Promise.resolve(null)),
+    sendProtestToCloud: vi.fn(),
+    sendProtestDecision: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/services/voice', () => ({
+  voiceModeService: { pause: vi.fn(), resume: vi.fn() },
+}));
+
+vi.mock('../../../src/services/voiceNote', () => ({
+  voiceNoteService: {
+    isSupported: vi.fn(() => false),
+    start: vi.fn(() => false),
+    stop: vi.fn(),
+    onStatusChange: vi.fn(() => vi.fn()),
+    onTranscript: vi.fn(() => vi.fn()),
+  },
+}));
+
+vi.mock('../../../src/features/modals', () => ({
+  openModal: vi.fn(),
+  closeModal: vi.fn(),
+}));
+
+import { computed, effect, signal } from '@preact/signals-core';
+import type {
+  Entry,
+  FaultEntry,
+  Protest,
+  ProtestDeadlines,
+} from '../../../src/types';
+
+const mockProtests = signal<Protest[]>([]);
+const mockDeadlines = signal<ProtestDeadlines>({});
+const mockChiefView = signal(false);
+const mockState = {
+  currentLang: 'en',
+  deviceId: 'dev_chief',
+  deviceName: 'Chief',
+  raceId: 'race-1',
+  selectedRun: 1,
+  settings: { sync: true },
+  faultEntries: [] as FaultEntry[],
+  entries: [] as Entry[],
+};
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => ({
+      ...mockState,
+      protests: mockProtests.value,
+      protestDeadlines: mockDeadlines.value,
+    }),
+    setProtestDeadline: vi.fn(),
+    markFaultForDeletion: vi.fn(() => true),
+    approveFaultDeletion: vi.fn((id: string) => ({ id })),
+    editEntry: vi.fn((id: string, updates: Partial<Entry>) => ({
+      id,
+      ...updates,
+    })),
+  },
+  $protests: computed(() => mockProtests.value),
+  $protestDeadlines: computed(() => mockDeadlines.value),
+  $runs: computed(() => [1, 2]),
+  $isChiefJudgeView: computed(() => mockChiefView.value),
+  effect,
+}));
+
+vi.mock('../../../src/utils', () => ({
+  escapeAttr: vi.fn((s: string) => s),
+  escapeHtml: vi.fn((s: string) => s),
+  generateEntryId: vi.fn(() => 'protest_new'),
+  getFaultTypeLabel: vi.fn((type: string) => type),
+  getLocale: vi.fn(() => 'en-US'),
+  getPointLabel: vi.fn((point: string) => point),
+  getRunLabel: vi.fn((run: number) => `R${run}`),
+}));
+
+import { showToast } from '../../../src/components';
+import {
+  cleanupProtests,
+  initProtests,
+} from '../../../src/features/protestsView';
+import { syncService } from '../../../src/services/sync';
+import { store } from '../../../src/store';
+
+const fault = {
+  id: 'fault_1',
+  bib: '042',
+  run: 1,
+  gateNumber: 7,
+  faultType: 'MG',
+  deviceName: 'Judge 1',
+  markedForDeletion: false,
+} as FaultEntry;
+
+const entry = {
+  id: 'entry_1',
+  bib: '042',
+  run: 1,
+  point: 'F',
+  status: 'dnf',
+  timestamp: '2026-01-15T10:01:00.000Z',
+} as Entry;
+
+const baseProtest: Protest = {
+  id: 'protest_1',
+  bib: '042',
+  run: 1,
+  targetType: 'fault',
+  targetId: 'fault_1',
+  fault: { gateNumber: 7, faultType: 'MG', deviceName: 'Judge 1' },
+  filedBy: 'Coach Berger',
+  filedAt: '2026-01-15T11:00:00.000Z',
+  reason: 'Racer passed gate 7 correctly',
+  photoCount: 0,
+  recordedBy: 'Chief',
+  recordedByDeviceId: 'dev_chief',
+};
+
+const upheld = {
+  outcome: 'upheld' as const,
+  votesFor: 2,
+  votesAgainst: 1,
+  abstentions: 0,
+  rationale: 'Video evidence',
+  decidedAt: '2026-01-15T12:00:00.000Z',
+  decidedBy: 'Chief',
+};
+
+function setValue(id: string, value: string): void {
+  (document.getElementById(id) as HTMLInputElement).value = value;
+}
+
+function click(id: string): void {
+  document.getElementById(id)!.click();
+}
+
+function decide(outcome: 'upheld' | 'rejected'): void {
+  (
+    document.querySelector('[data-action="decide"]') as HTMLButtonElement
+  ).click();
+  setValue('protest-outcome-select', outcome);
+  setValue('protest-votes-for', outcome === 'upheld' ? '2' : '1');
+  setValue('protest-votes-against', outcome === 'upheld' ? '1' : '2');
+  setValue('protest-rationale', 'Video evidence');
+  click('confirm-protest-decision-btn');
+}
+
+describe('Protests View Module', () => {
+  let container: HTMLDivElement;
+  const onChange = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    container = document.createElement('div');
+    container.innerHTML = `
+      <button id="file-protest-btn"></button>
+      <div id="protest-deadlines-list"></div>
+      <div id="protests-list"></div>
+      <div id="protest-modal">
+        <input id="protest-bib-input">
+        <select id="protest-run-select"></select>
+        <select id="protest-target-select"></select>
+        <div id="protest-status-row"><select id="protest-status-select"></select></div>
+        <input id="protest-filed-by-input">
+        <textarea id="protest-reason"></textarea>
+        <textarea id="protest-evidence-note"></textarea>
+        <button id="protest-evidence-mic-btn"></button>
+        <button id="protest-add-photo-btn"></button>
+        <span id="protest-photo-count"></span>
+        <input type="file" id="protest-photos-input">
+        <button id="submit-protest-btn"></button>
+      </div>
+      <div id="protest-decision-modal">
+        <div id="protest-decision-details"></div>
+        <select id="protest-outcome-select">
+          <option value="upheld">upheld</option>
+          <option value="rejected">rejected</option>
+        </select>
+        <input id="protest-votes-for">
+        <input id="protest-votes-against">
+        <input id="protest-abstentions">
+        <textarea id="protest-rationale"></textarea>
+        <button id="confirm-protest-decision-btn"></button>
+      </div>
+    `;
+    document.body.appendChild(container);
+    mockState.faultEntries = [fault];
+    mockState.entries = [entry];
+    mockProtests.value = [];
+    mockDeadlines.value = {};
+    mockChiefView.value = true;
+    initProtests(onChange);
+  });
+
+  afterEach(() => {
+    cleanupProtests();
+    container.remove();
+  });
+
+  describe('list', () => {
+    it('should list open protests before decided ones', () => {
+      mockProtests.value = [
+        { ...baseProtest, id: 'protest_old', decision: upheld },
+        baseProtest,
+      ];
+
+      const items = document.querySelectorAll('.protest-item');
+      expect(items[0]!.getAttribute('data-protest-id')).toBe('protest_1');
+      expect(items[0]!.textContent).toContain('protestOpen');
+      expect(items[1]!.classList.contains('upheld')).toBe(true);
+      expect(items[1]!.textContent).toContain('Video evidence');
+      expect(document.querySelectorAll('[data-action="decide"]')).toHaveLength(
+        1,
+      );
+    });
+
+    it('should show the empty state and a deadline per run', () => {
+      expect(document.getElementById('protests-list')!.textContent).toContain(
+        'noProtests',
+      );
+      expect(document.querySelectorAll('.protest-deadline-input')).toHaveLength(
+        2,
+      );
+      expect(syncService.fetchProtests).toHaveBeenCalled();
+    });
+
+    it('should set a run deadline and upload the race config', () => {
+      const input = document.querySelector(
+        '[data-run="2"] .protest-deadline-input',
+      ) as HTMLInputElement;
+      input.value = '2026-01-15T14:30';
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(store.setProtestDeadline).toHaveBeenCalledWith(
+        2,
+        new Date('2026-01-15T14:30').getTime(),
+      );
+      expect(onChange).toHaveBeenCalled();
+    });
+  });
+
+  describe('filing', () => {
+    function fillForm(target: string): void {
+      click('file-protest-btn');
+      setValue('protest-bib-input', '42');
+      document
+        .getElementById('protest-bib-input')!
+        .dispatchEvent(new Event('input'));
+      setValue('protest-target-select', target);
+      setValue('protest-filed-by-input', 'Coach Berger');
+      setValue('protest-reason', 'Racer passed gate 7 correctly');
+    }
+
+    it('should offer the faults and times of the bib in the run', () => {
+      fillForm('fault:fault_1');
+
+      const options = Array.from(
+        (document.getElementById('protest-target-select') as HTMLSelectElement)
+          .options,
+      ).map((o) => o.value);
+      expect(options).toEqual(['fault:fault_1', 'entry:entry_1']);
+    });
+
+    it('should file a fault protest with the fault as filed', async () => {
+      vi.mocked(syncService.sendProtestToCloud).mockResolvedValueOnce(
+        baseProtest,
+      );
+      fillForm('fault:fault_1');
+      click('submit-protest-btn');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith('protestFiled', 'success'),
+      );
+      const [protest, photos] = vi.mocked(syncService.sendProtestToCloud).mock
+        .calls[0]!;
+      expect(protest).toMatchObject({
+        id: 'protest_new',
+        bib: '042',
+        run: 1,
+        targetType: 'fault',
+        targetId: 'fault_1',
+        fault: { gateNumber: 7, faultType: 'MG', deviceName: 'Judge 1' },
+        filedBy: 'Coach Berger',
+      });
+      expect(photos).toEqual([]);
+    });
+
+    it('should file a status protest with the requested status', async () => {
+      vi.mocked(syncService.sendProtestToCloud).mockResolvedValueOnce(
+        baseProtest,
+      );
+      fillForm('entry:entry_1');
+      setValue('protest-status-select', 'ok');
+      click('submit-protest-btn');
+
+      await vi.waitFor(() =>
+        expect(syncService.sendProtestToCloud).toHaveBeenCalled(),
+      );
+      expect(
+        vi.mocked(syncService.sendProtestToCloud).mock.calls[0]![0],
+      ).toMatchObject({
+        targetType: 'entry',
+        currentStatus: 'dnf',
+        requestedStatus: 'ok',
+      });
+    });
+
+    it('should refuse protests after the run deadline', () => {
+      mockDeadlines.value = { '1': Date.now() - 1000 };
+      fillForm('fault:fault_1');
+      click('submit-protest-btn');
+
+      expect(showToast).toHaveBeenCalledWith(
+        'protestDeadlinePassed',
+        'warning',
+      );
+      expect(syncService.sendProtestToCloud).not.toHaveBeenCalled();
+    });
+
+    it('should refuse incomplete protests', () => {
+      fillForm('fault:fault_1');
+      setValue('protest-reason', '  ');
+      click('submit-protest-btn');
+
+      expect(showToast).toHaveBeenCalledWith('protestIncomplete', 'warning');
+      expect(syncService.sendProtestToCloud).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('jury decision', () => {
+    it('should report the fault reversed by the server', async () => {
+      mockProtests.value = [baseProtest];
+      vi.mocked(syncService.sendProtestDecision).mockResolvedValueOnce({
+        protest: { ...baseProtest, decision: upheld },
+        applied: true,
+      });
+
+      decide('upheld');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith(
+          'protestFaultReversed',
+          'success',
+        ),
+      );
+      expect(syncService.sendProtestDecision).toHaveBeenCalledWith(
+        'protest_1',
+        {
+          outcome: 'upheld',
+          votesFor: 2,
+          votesAgainst: 1,
+          abstentions: 0,
+          rationale: 'Video evidence',
+        },
+      );
+      // The server changes the stored fault; this device gets it via sync
+      expect(store.markFaultForDeletion).not.toHaveBeenCalled();
+      expect(store.approveFaultDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should report the status changed by the server', async () => {
+      const statusProtest: Protest = {
+        ...baseProtest,
+        targetType: 'entry',
+        targetId: 'entry_1',
+        fault: undefined,
+        currentStatus: 'dnf',
+        requestedStatus: 'ok',
+      };
+      mockProtests.value = [statusProtest];
+      vi.mocked(syncService.sendProtestDecision).mockResolvedValueOnce({
+        protest: { ...statusProtest, decision: upheld },
+        applied: true,
+      });
+
+      decide('upheld');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith(
+          'protestStatusChanged',
+          'success',
+        ),
+      );
+      expect(store.editEntry).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the server could not apply an upheld protest', async () => {
+      mockProtests.value = [baseProtest];
+      vi.mocked(syncService.sendProtestDecision).mockResolvedValueOnce({
+        protest: { ...baseProtest, decision: upheld },
+        applied: false,
+      });
+
+      decide('upheld');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith(
+          'protestTargetMissing',
+          'warning',
+        ),
+      );
+    });
+
+    it('should report nothing more for a rejected protest', async () => {
+      mockProtests.value = [baseProtest];
+      vi.mocked(syncService.sendProtestDecision).mockResolvedValueOnce({
+        protest: {
+          ...baseProtest,
+          decision: { ...upheld, outcome: 'rejected' },
+        },
+        applied: false,
+      });
+
+      decide('rejected');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith('protestDecided', 'success'),
+      );
+      expect(showToast).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh the protests when the decision is refused', async () => {
+      mockProtests.value = [baseProtest];
+      vi.mocked(syncService.sendProtestDecision).mockResolvedValueOnce(null);
+      vi.mocked(syncService.fetchProtests).mockClear();
+
+      decide('upheld');
+
+      await vi.waitFor(() =>
+        expect(showToast).toHaveBeenCalledWith(
+          'protestDecisionFailed',
+          'error',
+        ),
+      );
+      expect(syncService.fetchProtests).toHaveBeenCalled();
+      expect(store.markFaultForDeletion).not.toHaveBeenCalled();
+    });
+
+    it('should require the votes and a rationale', () => {
+      mockProtests.value = [baseProtest];
+      (
+        document.querySelector('[data-action="decide"]') as HTMLButtonElement
+      ).click();
+      setValue('protest-votes-for', '2');
+      click('confirm-protest-decision-btn');
+
+      expect(showToast).toHaveBeenCalledWith(
+        'protestDecisionIncomplete',
+        'warning',
+      );
+      expect(syncService.sendProtestDecision).not.toHaveBeenCalled();
+    });
+
+    it('should require the outcome the vote decides', () => {
+      mockProtests.value = [baseProtest];
+      (
+        document.querySelector('[data-action="decide"]') as HTMLButtonElement
+      ).click();
+      setValue('protest-outcome-select', 'upheld');
+      setValue('protest-votes-for', '1');
+      setValue('protest-votes-against', '1');
+      setValue('protest-rationale', 'Video evidence');
+      click('confirm-protest-decision-btn');
+
+      expect(showToast).toHaveBeenCalledWith(
+        'protestOutcomeMismatch',
+        'warning',
+      );
+      expect(syncService.sendProtestDecision).not.toHaveBeenCalled();
+    });
+  });
+});
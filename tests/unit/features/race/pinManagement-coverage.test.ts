@@ -1,6 +1,7 @@
 /**
  * Extended coverage tests for PIN Management Module
- * Tests: handleChangePinClick, handleSavePin, verifyPinForRaceJoin, verifyPinForChiefJudge
+ * Tests: handleChangePinClick, handleSavePin, verifyPinForRaceJoin, verifyPinForChiefJudge,
+ *        race PINs (status, modal, save)
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -22,12 +23,18 @@ const mockExchangePinForToken = vi.fn();
 const mockHasAuthToken = vi.fn(() => false);
 const mockClearAuthToken = vi.fn();
 const mockGetAuthHeaders = vi.fn(() => ({ Authorization: 'Bearer tok' }));
+const mockGetTokenRaceId = vi.fn((): string | null => null);
 
 vi.mock('../../../../src/services/auth', () => ({
   exchangePinForToken: (...args: unknown[]) => mockExchangePinForToken(...args),
   hasAuthToken: () => mockHasAuthToken(),
   clearAuthToken: () => mockClearAuthToken(),
   getAuthHeaders: () => mockGetAuthHeaders(),
+  getTokenRaceId: () => mockGetTokenRaceId(),
+  isTokenValidForRace: (raceId: string) => {
+    const tokenRaceId = mockGetTokenRaceId();
+    return tokenRaceId === null || tokenRaceId === raceId;
+  },
 }));
 
 const mockGetState = vi.fn();
@@ -80,6 +87,7 @@ import {
   verifyPinForRaceJoin,
 } from '../../../../src/features/race/pinManagement';
 import { feedbackSuccess, feedbackWarning } from '../../../../src/services';
+import { _handlers } from '../../../../src/utils/listenerManager';
 
 describe('PIN Management — extended coverage', () => {
   let container: HTMLDivElement;
@@ -163,6 +171,7 @@ describe('PIN Management — extended coverage', () => {
     mockGetState.mockReturnValue({ currentLang: 'en' });
     mockHasAuthToken.mockReturnValue(false);
     mockExchangePinForToken.mockResolvedValue({ success: true });
+    mockGetTokenRaceId.mockReturnValue(null);
   });
 
   afterEach(() => {
@@ -187,7 +196,11 @@ describe('PIN Management — extended coverage', () => {
     it('should delegate to exchangePinForToken', async () => {
       mockExchangePinForToken.mockResolvedValue({ success: true });
       const result = await authenticateWithPin('1234', 'timer');
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', 'timer');
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        'timer',
+        undefined,
+      );
       expect(result.success).toBe(true);
     });
   });
@@ -323,6 +336,7 @@ describe('PIN Management — extended coverage', () => {
       expect(mockExchangePinForToken).toHaveBeenCalledWith(
         '5678',
         'chiefJudge',
+        undefined,
       );
       await promise;
     });
@@ -373,4 +387,152 @@ describe('PIN Management — extended coverage', () => {
       );
     });
   });
+
+  describe('race PINs', () => {
+    function setupRacePinDOM(): void {
+      setupPinDOM();
+      for (const id of [
+        'race-pin-status',
+        'race-pins-modal',
+        'race-pins-modal-text',
+        'race-pin-format-error',
+      ]) {
+        const el = document.createElement('div');
+        el.id = id;
+        container.appendChild(el);
+      }
+      for (const id of ['race-pin-input', 'race-chief-pin-input']) {
+        const input = document.createElement('input');
+        input.id = id;
+        container.appendChild(input);
+      }
+      for (const id of ['race-pins-btn', 'save-race-pins-btn']) {
+        const btn = document.createElement('button');
+        btn.id = id;
+        container.appendChild(btn);
+      }
+    }
+
+    function fillRacePins(pin: string, chiefPin: string): void {
+      (document.getElementById('race-pin-input') as HTMLInputElement).value =
+        pin;
+      (
+        document.getElementById('race-chief-pin-input') as HTMLInputElement
+      ).value = chiefPin;
+    }
+
+    async function clickSave(): Promise<void> {
+      await (_handlers as Map<string, Function>).get(
+        'save-race-pins-btn:click',
+      )!();
+    }
+
+    beforeEach(() => {
+      mockGetState.mockReturnValue({ currentLang: 'en', raceId: 'race-a' });
+      global.fetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
+    });
+
+    it('should show whether the session uses the race PINs', () => {
+      setupRacePinDOM();
+      const statusEl = document.getElementById('race-pin-status')!;
+
+      updatePinStatusDisplay();
+      expect(statusEl.textContent).toBe('racePinsGlobal');
+
+      mockGetTokenRaceId.mockReturnValue('race-a');
+      updatePinStatusDisplay();
+      expect(statusEl.textContent).toBe('racePinsActive');
+
+      mockGetState.mockReturnValue({ currentLang: 'en', raceId: '' });
+      updatePinStatusDisplay();
+      expect(statusEl.textContent).toBe('racePinsNoRace');
+    });
+
+    it('should ask for the PIN when the token belongs to another race', async () => {
+      setupPinDOM();
+      mockHasAuthToken.mockReturnValue(true);
+      mockGetTokenRaceId.mockReturnValue('race-b');
+
+      verifyPinForRaceJoin('en', 'race-a');
+
+      expect(openModal).toHaveBeenCalled();
+      expect(hasPendingPinVerification()).toBe(true);
+    });
+
+    it('should authenticate race joins for the race being joined', async () => {
+      setupPinDOM();
+      const promise = verifyPinForRaceJoin('en', 'race-c');
+      (
+        document.getElementById('admin-pin-verify-input') as HTMLInputElement
+      ).value = '1234';
+
+      await handleRaceJoinPinVerify();
+
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        undefined,
+        'race-c',
+      );
+      await expect(promise).resolves.toBe(true);
+    });
+
+    it('should save race PINs and switch to a race-scoped Chief Judge token', async () => {
+      setupRacePinDOM();
+      initPinManagement();
+      fillRacePins('1111', '2222');
+
+      await clickSave();
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        '/api/v1/admin/pin',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({
+            raceId: 'race-a',
+            newPin: '1111',
+            newChiefPin: '2222',
+          }),
+        }),
+      );
+      expect(mockClearAuthToken).toHaveBeenCalled();
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '2222',
+        'chiefJudge',
+        'race-a',
+      );
+      expect(closeModal).toHaveBeenCalled();
+      expect(showToast).toHaveBeenCalledWith('racePinsSaved', 'success');
+      expect(feedbackSuccess).toHaveBeenCalled();
+    });
+
+    it('should show an error when not allowed to set race PINs', async () => {
+      setupRacePinDOM();
+      initPinManagement();
+      fillRacePins('1111', '2222');
+      vi.mocked(global.fetch).mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+      } as Response);
+
+      await clickSave();
+
+      expect(showToast).toHaveBeenCalledWith('racePinsForbidden', 'error');
+      expect(mockClearAuthToken).not.toHaveBeenCalled();
+      expect(mockExchangePinForToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject PINs that are not 4 digits', async () => {
+      setupRacePinDOM();
+      initPinManagement();
+      fillRacePins('1111', '22');
+
+      await clickSave();
+
+      expect(
+        document.getElementById('race-pin-format-error')!.style.display,
+      ).toBe('block');
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(feedbackWarning).toHaveBeenCalled();
+    });
+  });
 });
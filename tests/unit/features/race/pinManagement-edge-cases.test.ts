@@ -248,12 +248,20 @@ describe('PIN Management — Edge Cases', () => {
   describe('authenticateWithPin with role parameter', () => {
     it('should pass timer role', async () => {
       await authenticateWithPin('1234', 'timer');
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', 'timer');
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        'timer',
+        undefined,
+      );
     });
 
     it('should pass gateJudge role', async () => {
       await authenticateWithPin('1234', 'gateJudge');
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', 'gateJudge');
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        'gateJudge',
+        undefined,
+      );
     });
 
     it('should pass chiefJudge role', async () => {
@@ -261,12 +269,17 @@ describe('PIN Management — Edge Cases', () => {
       expect(mockExchangePinForToken).toHaveBeenCalledWith(
         '5678',
         'chiefJudge',
+        undefined,
       );
     });
 
     it('should pass undefined when no role specified', async () => {
       await authenticateWithPin('1234');
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', undefined);
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        undefined,
+        undefined,
+      );
     });
   });
 
@@ -536,6 +549,7 @@ describe('PIN Management — Edge Cases', () => {
       expect(mockExchangePinForToken).toHaveBeenCalledWith(
         '5678',
         'chiefJudge',
+        undefined,
       );
       await promise;
     });
@@ -553,7 +567,11 @@ describe('PIN Management — Edge Cases', () => {
 
       await handleRaceJoinPinVerify();
 
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', undefined);
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        undefined,
+        undefined,
+      );
       await promise;
     });
 
@@ -570,7 +588,11 @@ describe('PIN Management — Edge Cases', () => {
 
       await handleRaceJoinPinVerify();
 
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', undefined);
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        undefined,
+        undefined,
+      );
       await promise;
     });
   });
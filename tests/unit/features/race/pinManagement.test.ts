@@ -114,7 +114,11 @@ describe('PIN Management Module', () => {
   describe('authenticateWithPin', () => {
     it('should call exchangePinForToken', async () => {
       await authenticateWithPin('1234');
-      expect(mockExchangePinForToken).toHaveBeenCalledWith('1234', undefined);
+      expect(mockExchangePinForToken).toHaveBeenCalledWith(
+        '1234',
+        undefined,
+        undefined,
+      );
     });
 
     it('should pass role when specified', async () => {
@@ -122,6 +126,7 @@ describe('PIN Management Module', () => {
       expect(mockExchangePinForToken).toHaveBeenCalledWith(
         '1234',
         'chiefJudge',
+        undefined,
       );
     });
 
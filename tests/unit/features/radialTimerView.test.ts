@@ -1,7 +1,8 @@
 /**
  * Unit Tests for Radial Timer View Module
  * Tests: initRadialTimerView, destroyRadialTimerView, updateRadialBib,
- *        isRadialModeActive, and internal helpers
+ *        isRadialModeActive, intermediate point buttons, start order panel
+ *        and internal helpers
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -31,6 +32,9 @@ vi.mock('../../../src/services', () => ({
   gpsService: {
     getLastFix: vi.fn(() => null),
   },
+  serverClockService: {
+    getTimeOffset: vi.fn(() => null),
+  },
   photoStorage: {
     savePhoto: vi.fn(() => Promise.resolve(false)),
   },
@@ -40,14 +44,33 @@ vi.mock('../../../src/services', () => ({
 }));
 
 const mockGetState = vi.fn();
+const mockTimingPoints = vi.hoisted(() => ({
+  value: ['S', 'F'] as string[],
+}));
+const mockStartOrder = vi.hoisted(() => ({
+  value: null as {
+    run: number;
+    bibs: string[];
+    firstStart: number;
+    intervalSeconds: number;
+  } | null,
+}));
 
 vi.mock('../../../src/store', () => ({
   $cloudDeviceCount: { value: 0 },
   $entries: { value: [] },
   $gpsStatus: { value: 'inactive' },
+  $runs: { value: [1, 2] },
+  $selectedPoint: { value: 'S' },
+  $selectedRun: { value: 1 },
   $settings: { value: { sync: false, gps: false } },
+  $settingsGps: { value: false },
+  $settingsSync: { value: false },
+  $startOrder: mockStartOrder,
   $syncStatus: { value: 'disconnected' },
+  $timingPoints: mockTimingPoints,
   effect: vi.fn(() => vi.fn()),
+  untracked: vi.fn((fn: () => unknown) => fn()),
   store: {
     $state: { value: { selectedPoint: 'S', selectedRun: 1 } },
     getState: () => mockGetState(),
@@ -65,6 +88,7 @@ vi.mock('../../../src/utils', () => ({
   escapeHtml: vi.fn((s: string) => s),
   getElement: vi.fn((id: string) => document.getElementById(id)),
   getPointLabel: vi.fn(() => 'Start'),
+  isIntermediatePoint: vi.fn((point: string) => /^I[1-9]$/.test(point)),
   logWarning: vi.fn(),
 }));
 
@@ -109,6 +133,7 @@ import {
   isRadialModeActive,
   updateRadialBib,
 } from '../../../src/features/radialTimerView';
+import { effect, store } from '../../../src/store';
 
 describe('Radial Timer View Module', () => {
   let container: HTMLDivElement;
@@ -168,6 +193,139 @@ describe('Radial Timer View Module', () => {
     });
   });
 
+  describe('intermediate timing points', () => {
+    function createPointSelector(): HTMLElement {
+      const dialContainer = document.createElement('div');
+      dialContainer.id = 'dial-container';
+      container.appendChild(dialContainer);
+
+      const selector = document.createElement('div');
+      selector.id = 'radial-timing-point';
+      selector.innerHTML = `
+        <button class="radial-point-btn start" data-point="S"></button>
+        <button class="radial-point-btn finish" data-point="F"></button>
+      `;
+      container.appendChild(selector);
+      return selector;
+    }
+
+    afterEach(() => {
+      mockTimingPoints.value = ['S', 'F'];
+    });
+
+    it('should render buttons between start and finish', () => {
+      mockTimingPoints.value = ['S', 'I1', 'I2', 'F'];
+      mockGetState.mockReturnValue({ ...mockGetState(), selectedPoint: 'I2' });
+      const selector = createPointSelector();
+
+      initRadialTimerView();
+
+      const points = Array.from(
+        selector.querySelectorAll('.radial-point-btn'),
+      ).map((btn) => btn.getAttribute('data-point'));
+      expect(points).toEqual(['S', 'I1', 'I2', 'F']);
+
+      const active = selector.querySelector('.radial-point-btn.active');
+      expect(active?.getAttribute('data-point')).toBe('I2');
+      expect(active?.classList.contains('intermediate')).toBe(true);
+    });
+
+    it('should render no extra buttons without intermediate points', () => {
+      const selector = createPointSelector();
+
+      initRadialTimerView();
+
+      expect(selector.querySelectorAll('.radial-point-btn')).toHaveLength(2);
+    });
+  });
+
+  describe('start order panel', () => {
+    function createStartOrderPanel(): HTMLElement {
+      container.innerHTML = `
+        <div id="dial-container"></div>
+        <div id="radial-bib-value"></div>
+        <div id="radial-start-order" style="display: none;">
+          <span id="radial-next-bib"></span>
+          <span id="radial-following-bibs"></span>
+          <div id="radial-start-countdown"></div>
+          <button id="radial-start-order-btn"></button>
+        </div>
+      `;
+      return document.getElementById('radial-start-order')!;
+    }
+
+    beforeEach(() => {
+      // Run effects once so the panel renders on init
+      vi.mocked(effect).mockImplementation(((fn: () => void) => {
+        fn();
+        return vi.fn();
+      }) as any);
+      mockStartOrder.value = {
+        run: 1,
+        bibs: ['003', '001', '002', '004'],
+        firstStart: Date.now() + 60_000,
+        intervalSeconds: 60,
+      };
+    });
+
+    afterEach(() => {
+      vi.mocked(effect).mockImplementation((() => vi.fn()) as any);
+      mockStartOrder.value = null;
+    });
+
+    it('should show the next racers and fill the empty bib input', () => {
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        entries: [
+          { id: 'e1', bib: '003', point: 'S', run: 1, timestamp: '' },
+          { id: 'e2', bib: '001', point: 'S', run: 2, timestamp: '' },
+        ],
+      });
+      const panel = createStartOrderPanel();
+
+      initRadialTimerView();
+
+      expect(panel.style.display).toBe('flex');
+      expect(panel.classList.contains('planned')).toBe(true);
+      expect(document.getElementById('radial-next-bib')!.textContent).toBe(
+        '001',
+      );
+      expect(
+        document.getElementById('radial-following-bibs')!.textContent,
+      ).toBe('002 · 004');
+      expect(store.setBibInput).toHaveBeenCalledWith('001');
+    });
+
+    it('should keep a bib that was already entered', () => {
+      mockGetState.mockReturnValue({ ...mockGetState(), bibInput: '042' });
+      createStartOrderPanel();
+
+      initRadialTimerView();
+
+      expect(store.setBibInput).not.toHaveBeenCalled();
+    });
+
+    it('should only offer planning without a start order', () => {
+      mockStartOrder.value = null;
+      const panel = createStartOrderPanel();
+
+      initRadialTimerView();
+
+      expect(panel.style.display).toBe('flex');
+      expect(panel.classList.contains('planned')).toBe(false);
+      expect(store.setBibInput).not.toHaveBeenCalled();
+    });
+
+    it('should hide the panel when not timing the start', () => {
+      mockGetState.mockReturnValue({ ...mockGetState(), selectedPoint: 'F' });
+      const panel = createStartOrderPanel();
+
+      initRadialTimerView();
+
+      expect(panel.style.display).toBe('none');
+    });
+  });
+
   describe('destroyRadialTimerView', () => {
     it('should not throw when not initialized', () => {
       expect(() => destroyRadialTimerView()).not.toThrow();
@@ -0,0 +1,243 @@
+/**
+ * Unit Tests for Rankings View Module
+ * Tests: setRankingsVisible, updateRankingsPanel (run tabs, combined tab,
+ * racer names, gaps, split times), reactive re-render
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackTap: vi.fn(),
+}));
+
+import { computed, effect, signal } from '@preact/signals-core';
+import { computeRaceResults } from '../../../shared/results';
+
+const mockEntries = signal<any[]>([]);
+const mockPrimaryDevices = signal<Record<string, string>>({});
+const mockStartList = signal<{ bib: string; name: string; club?: string }[]>(
+  [],
+);
+
+vi.mock('../../../src/store', () => ({
+  store: { getState: () => ({ currentLang: 'en' }) },
+  $currentLang: computed(() => 'en'),
+  $raceResults: computed(() =>
+    computeRaceResults(
+      mockEntries.value,
+      [],
+      undefined,
+      mockPrimaryDevices.value,
+    ),
+  ),
+  $racerLookup: computed(
+    () => new Map(mockStartList.value.map((r) => [r.bib, r])),
+  ),
+  effect,
+}));
+
+vi.mock('../../../src/utils', () => ({
+  escapeAttr: vi.fn((s: string) => s),
+  escapeHtml: vi.fn((s: string) => s),
+  formatDuration: vi.fn((ms: number) => `${ms}ms`),
+  getElement: vi.fn((id: string) => document.getElementById(id)),
+  getPointLabel: vi.fn((point: string) => point),
+  getTimingPointOrder: vi.fn((point: string) => Number(point.slice(1))),
+}));
+
+import {
+  cleanupRankingsView,
+  initRankingsView,
+  setRankingsVisible,
+  updateRankingsPanel,
+} from '../../../src/features/rankingsView';
+
+function timed(bib: string, run: number, start: number, runTime: number) {
+  const base = Date.parse('2024-01-15T10:00:00.000Z');
+  return [
+    {
+      bib,
+      point: 'S',
+      run,
+      timestamp: new Date(base + start).toISOString(),
+      status: 'ok',
+    },
+    {
+      bib,
+      point: 'F',
+      run,
+      timestamp: new Date(base + start + runTime).toISOString(),
+      status: 'ok',
+    },
+  ];
+}
+
+describe('Rankings View Module', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.className = 'results-view';
+    container.innerHTML = `
+      <button id="rankings-toggle-btn" aria-pressed="false"></button>
+      <div id="rankings-tabs"></div>
+      <div id="rankings-list"></div>
+    `;
+    document.body.appendChild(container);
+    mockEntries.value = [];
+    mockStartList.value = [];
+  });
+
+  afterEach(() => {
+    setRankingsVisible(false);
+    cleanupRankingsView();
+    container.remove();
+  });
+
+  it('should not render while hidden', () => {
+    mockEntries.value = timed('001', 1, 0, 45000);
+    updateRankingsPanel();
+    expect(document.getElementById('rankings-list')!.innerHTML).toBe('');
+  });
+
+  it('should toggle rankings mode and aria-pressed', () => {
+    setRankingsVisible(true);
+    expect(container.classList.contains('rankings-mode')).toBe(true);
+    expect(
+      document
+        .getElementById('rankings-toggle-btn')!
+        .getAttribute('aria-pressed'),
+    ).toBe('true');
+  });
+
+  it('should show empty state without completed runs', () => {
+    setRankingsVisible(true);
+    expect(document.getElementById('rankings-list')!.textContent).toContain(
+      'noRankings',
+    );
+  });
+
+  it('should render ranked rows with racer names and gaps', () => {
+    mockStartList.value = [{ bib: '002', name: 'Huber Anna', club: 'SC' }];
+    mockEntries.value = [
+      ...timed('001', 1, 0, 45000),
+      ...timed('002', 1, 30000, 44000),
+    ];
+
+    setRankingsVisible(true);
+
+    const rows = document.querySelectorAll('.ranking-row');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]!.getAttribute('data-bib')).toBe('002');
+    expect(rows[0]!.querySelector('.ranking-name')!.textContent).toBe(
+      'Huber Anna',
+    );
+    expect(rows[1]!.querySelector('.ranking-gap')!.textContent).toBe('+1.00');
+  });
+
+  it('should show combined tab only for multiple runs and switch tabs on click', () => {
+    mockEntries.value = [
+      ...timed('001', 1, 0, 45000),
+      ...timed('001', 2, 600000, 44000),
+    ];
+    initRankingsView();
+    setRankingsVisible(true);
+
+    const tabs = document.querySelectorAll<HTMLElement>('.rankings-tab');
+    expect(Array.from(tabs).map((tab) => tab.dataset.tab)).toEqual([
+      '1',
+      '2',
+      'combined',
+    ]);
+
+    tabs[2]!.click();
+
+    const row = document.querySelector('.ranking-row')!;
+    expect(row.querySelector('.ranking-time')!.textContent).toBe('89000ms');
+    expect(row.querySelector('.ranking-detail')!.textContent).toContain(
+      'run 2: 44000ms',
+    );
+  });
+
+  it('should show split times at intermediate points in course order', () => {
+    const entries = timed('001', 1, 0, 45000);
+    const start = Date.parse(entries[0]!.timestamp);
+    mockEntries.value = [
+      ...entries,
+      {
+        bib: '001',
+        point: 'I2',
+        run: 1,
+        timestamp: new Date(start + 30000).toISOString(),
+        status: 'ok',
+      },
+      {
+        bib: '001',
+        point: 'I1',
+        run: 1,
+        timestamp: new Date(start + 15000).toISOString(),
+        status: 'ok',
+      },
+    ];
+
+    setRankingsVisible(true);
+
+    expect(document.querySelector('.ranking-detail')!.textContent).toBe(
+      'I1: 15000ms · I2: 30000ms',
+    );
+  });
+
+  it('should mark times taken from a backup device', () => {
+    mockEntries.value = timed('001', 1, 0, 45000).map((entry) => ({
+      ...entry,
+      deviceId: 'dev_backup',
+    }));
+    mockPrimaryDevices.value = { F: 'dev_finish' };
+
+    setRankingsVisible(true);
+
+    expect(document.querySelector('.ranking-backup')!.textContent).toBe(
+      'backupTimeUsed: F',
+    );
+    mockPrimaryDevices.value = {};
+  });
+
+  it('should mark hand-timed (manual) times', () => {
+    mockEntries.value = timed('001', 1, 0, 45000).map((entry) =>
+      entry.point === 'F' ? { ...entry, timeSource: 'manual' as const } : entry,
+    );
+
+    setRankingsVisible(true);
+
+    expect(document.querySelector('.ranking-manual')!.textContent).toBe(
+      'manualTimeUsed: F',
+    );
+  });
+
+  it('should close when another results panel opens', () => {
+    initRankingsView();
+    setRankingsVisible(true);
+
+    window.dispatchEvent(
+      new CustomEvent('results-panel-open', {
+        detail: { panel: 'reconciliation' },
+      }),
+    );
+
+    expect(container.classList.contains('rankings-mode')).toBe(false);
+  });
+
+  it('should re-render when entries change while visible', () => {
+    initRankingsView();
+    setRankingsVisible(true);
+    expect(document.querySelectorAll('.ranking-row')).toHaveLength(0);
+
+    mockEntries.value = timed('001', 1, 0, 45000);
+
+    expect(document.querySelectorAll('.ranking-row')).toHaveLength(1);
+  });
+});
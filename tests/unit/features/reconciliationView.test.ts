@@ -0,0 +1,286 @@
+/**
+ * Unit Tests for Reconciliation View Module
+ * Tests: setReconciliationVisible, updateReconciliationPanel (sections, run
+ * tabs, empty state, backup times), issue badge, quick actions (DNF/DNS,
+ * assign bib, merge duplicates), panel exclusivity
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) => key),
+}));
+
+vi.mock('../../../src/components', () => ({
+  showToast: vi.fn(),
+}));
+
+vi.mock('../../../src/services', () => ({
+  feedbackSuccess: vi.fn(),
+  feedbackTap: vi.fn(),
+}));
+
+vi.mock('../../../src/services/sync', () => ({
+  syncEntry: vi.fn(() => Promise.resolve()),
+}));
+
+vi.mock('../../../src/features/entryDeletion', () => ({
+  deleteEntriesWithCleanup: vi.fn(() => Promise.resolve()),
+}));
+
+import { computed, effect, signal } from '@preact/signals-core';
+import type { Entry } from '../../../src/types';
+import { reconcileEntries } from '../../../src/utils/reconciliation';
+
+const mockEntries = signal<Entry[]>([]);
+const mockPrimaryDevices = signal<Record<string, string>>({});
+const mockStartList = signal<{ bib: string; name: string }[]>([]);
+const mockEditEntry = vi.fn();
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => ({ currentLang: 'en', entries: mockEntries.value }),
+    editEntry: (...args: unknown[]) => mockEditEntry(...args),
+  },
+  $currentLang: computed(() => 'en'),
+  $reconciliation: computed(() =>
+    reconcileEntries(mockEntries.value, mockPrimaryDevices.value),
+  ),
+  $racerLookup: computed(
+    () => new Map(mockStartList.value.map((r) => [r.bib, r])),
+  ),
+  effect,
+}));
+
+vi.mock('../../../src/utils', () => ({
+  escapeAttr: vi.fn((s: string) => s),
+  escapeHtml: vi.fn((s: string) => s),
+  formatTime: vi.fn((date: Date) => date.toISOString().slice(11, 19)),
+  getElement: vi.fn((id: string) => document.getElementById(id)),
+  getPointLabel: vi.fn((point: string) => point),
+}));
+
+import { showToast } from '../../../src/components';
+import { deleteEntriesWithCleanup } from '../../../src/features/entryDeletion';
+import {
+  cleanupReconciliationView,
+  initReconciliationView,
+  setReconciliationVisible,
+  updateReconciliationPanel,
+} from '../../../src/features/reconciliationView';
+import { syncEntry } from '../../../src/services/sync';
+
+let nextId = 1;
+
+function entry(
+  bib: string,
+  point: Entry['point'],
+  overrides: Partial<Entry> = {},
+): Entry {
+  const id = nextId++;
+  return {
+    id: `e${id}`,
+    bib,
+    point,
+    run: 1,
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, 0, id)).toISOString(),
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+    ...overrides,
+  };
+}
+
+function sectionTitles(): string[] {
+  return Array.from(
+    document.querySelectorAll('.reconciliation-section-title span:first-child'),
+  ).map((el) => el.textContent!);
+}
+
+function clickAction(entryId: string, action: string): void {
+  document
+    .querySelector<HTMLElement>(
+      `.reconciliation-action[data-entry-id="${entryId}"][data-action="${action}"]`,
+    )!
+    .click();
+}
+
+describe('Reconciliation View Module', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    container = document.createElement('div');
+    container.className = 'results-view';
+    container.innerHTML = `
+      <button id="reconciliation-toggle-btn" aria-pressed="false">
+        <span id="reconciliation-count" hidden>0</span>
+      </button>
+      <div id="reconciliation-tabs"></div>
+      <div id="reconciliation-list"></div>
+    `;
+    document.body.appendChild(container);
+    mockEntries.value = [];
+    mockStartList.value = [];
+    mockPrimaryDevices.value = {};
+  });
+
+  afterEach(() => {
+    setReconciliationVisible(false);
+    cleanupReconciliationView();
+    container.remove();
+  });
+
+  it('should not render while hidden', () => {
+    mockEntries.value = [entry('001', 'S')];
+    updateReconciliationPanel();
+    expect(document.getElementById('reconciliation-list')!.innerHTML).toBe('');
+  });
+
+  it('should toggle reconciliation mode and aria-pressed', () => {
+    setReconciliationVisible(true);
+    expect(container.classList.contains('reconciliation-mode')).toBe(true);
+    expect(
+      document
+        .getElementById('reconciliation-toggle-btn')!
+        .getAttribute('aria-pressed'),
+    ).toBe('true');
+  });
+
+  it('should show the empty state when everything matches', () => {
+    mockEntries.value = [entry('001', 'S'), entry('001', 'F')];
+    setReconciliationVisible(true);
+    expect(
+      document.getElementById('reconciliation-list')!.textContent,
+    ).toContain('noReconciliationIssues');
+  });
+
+  it('should list each kind of issue with racer names', () => {
+    mockStartList.value = [{ bib: '001', name: 'Huber Anna' }];
+    mockEntries.value = [
+      entry('001', 'S'),
+      entry('002', 'F'),
+      entry('', 'F'),
+      entry('003', 'F'),
+      entry('003', 'F', { deviceId: 'dev_2', deviceName: 'Timer 2' }),
+    ];
+
+    setReconciliationVisible(true);
+
+    expect(sectionTitles()).toEqual([
+      'startedNotFinished',
+      'finishedNotStarted',
+      'blankBibEntries',
+      'duplicateEntries',
+    ]);
+    expect(document.querySelector('.reconciliation-name')!.textContent).toBe(
+      'Huber Anna',
+    );
+    expect(
+      document.querySelectorAll('.reconciliation-row[data-duplicate-key]'),
+    ).toHaveLength(2);
+  });
+
+  it('should list backup times next to the primary time with the delta', () => {
+    mockPrimaryDevices.value = { F: 'dev_1' };
+    mockEntries.value = [
+      entry('001', 'S'),
+      entry('001', 'F'),
+      entry('001', 'F', { deviceId: 'dev_2', deviceName: 'Timer 2' }),
+      entry('002', 'S'),
+      entry('002', 'F', { deviceId: 'dev_2', deviceName: 'Timer 2' }),
+    ];
+
+    setReconciliationVisible(true);
+
+    expect(sectionTitles()).toEqual(['backupTimes']);
+    const deltas = Array.from(
+      document.querySelectorAll('.reconciliation-delta'),
+    ).map((el) => el.textContent);
+    expect(deltas).toEqual(['+1.000 s', 'backupTimeUsed']);
+  });
+
+  it('should show one tab per run and switch runs on click', () => {
+    mockEntries.value = [entry('001', 'S'), entry('002', 'F', { run: 2 })];
+    initReconciliationView();
+    setReconciliationVisible(true);
+
+    const tabs = document.querySelectorAll<HTMLElement>('.rankings-tab');
+    expect(Array.from(tabs).map((tab) => tab.dataset.run)).toEqual(['1', '2']);
+    expect(sectionTitles()).toEqual(['startedNotFinished']);
+
+    tabs[1]!.click();
+
+    expect(sectionTitles()).toEqual(['finishedNotStarted']);
+  });
+
+  it('should show the open issue count on the toggle', () => {
+    initReconciliationView();
+    const badge = document.getElementById('reconciliation-count')!;
+    expect(badge.hidden).toBe(true);
+
+    mockEntries.value = [entry('001', 'S'), entry('', 'F')];
+
+    expect(badge.hidden).toBe(false);
+    expect(badge.textContent).toBe('2');
+  });
+
+  it('should set DNF on a start without a finish and sync it', () => {
+    const start = entry('001', 'S');
+    mockEntries.value = [start];
+    const edited = { ...start, status: 'dnf' as const };
+    mockEditEntry.mockReturnValueOnce(edited);
+    initReconciliationView();
+    setReconciliationVisible(true);
+
+    clickAction(start.id, 'dnf');
+
+    expect(mockEditEntry).toHaveBeenCalledWith(start.id, { status: 'dnf' });
+    expect(syncEntry).toHaveBeenCalledWith(edited);
+    expect(showToast).toHaveBeenCalledWith('saved', 'success');
+  });
+
+  it('should open the edit modal to assign a bib', () => {
+    const blank = entry('', 'F');
+    mockEntries.value = [blank];
+    const openEdit = vi.fn();
+    window.addEventListener('open-edit-modal', openEdit);
+    initReconciliationView();
+    setReconciliationVisible(true);
+
+    clickAction(blank.id, 'assign');
+
+    expect(openEdit).toHaveBeenCalledTimes(1);
+    expect((openEdit.mock.calls[0]![0] as CustomEvent).detail.entry).toBe(
+      blank,
+    );
+    window.removeEventListener('open-edit-modal', openEdit);
+  });
+
+  it('should merge duplicates by deleting the entries not kept', async () => {
+    const first = entry('003', 'F');
+    const second = entry('003', 'F', { deviceId: 'dev_2' });
+    const third = entry('003', 'F', { deviceId: 'dev_3' });
+    mockEntries.value = [entry('003', 'S'), first, second, third];
+    initReconciliationView();
+    setReconciliationVisible(true);
+
+    clickAction(second.id, 'keep');
+
+    await vi.waitFor(() =>
+      expect(showToast).toHaveBeenCalledWith('duplicatesMerged', 'success'),
+    );
+    expect(deleteEntriesWithCleanup).toHaveBeenCalledWith([first, third]);
+  });
+
+  it('should close when another results panel opens', () => {
+    initReconciliationView();
+    setReconciliationVisible(true);
+
+    window.dispatchEvent(
+      new CustomEvent('results-panel-open', { detail: { panel: 'rankings' } }),
+    );
+
+    expect(container.classList.contains('reconciliation-mode')).toBe(false);
+  });
+});
@@ -35,13 +35,16 @@ vi.mock('../../../src/i18n/translations', () => ({
 }));
 
 vi.mock('../../../src/services', () => ({
+  bibRecognitionService: { suggestBib: vi.fn(() => Promise.resolve(null)) },
   feedbackUndo: vi.fn(),
   syncService: {
     forceRefresh: vi.fn(() => Promise.resolve()),
     deleteEntryFromCloud: vi.fn(() => Promise.resolve()),
+    fetchEntryPhoto: vi.fn(() => Promise.resolve(null)),
   },
 }));
 
+const mockTimingPoints = vi.hoisted(() => ({ value: ['S', 'F'] as string[] }));
 const mockGetState = vi.fn();
 const mockCanUndo = vi.fn(() => false);
 const mockPeekUndo = vi.fn(() => null);
@@ -57,10 +60,13 @@ vi.mock('../../../src/store', () => ({
     toggleEntrySelection: (...args: unknown[]) =>
       mockToggleEntrySelection(...args),
   },
+  $timingPoints: mockTimingPoints,
 }));
 
 vi.mock('../../../src/utils', () => ({
   getElement: vi.fn((id: string) => document.getElementById(id)),
+  getPointLabel: vi.fn((point: string) => `Split ${point.slice(1)}`),
+  isIntermediatePoint: vi.fn((point: string) => /^I[1-9]$/.test(point)),
 }));
 
 vi.mock('../../../src/utils/listenerManager', () => ({
@@ -104,6 +110,16 @@ vi.mock('../../../src/features/photoViewer', () => ({
   openPhotoViewer: vi.fn(),
 }));
 
+vi.mock('../../../src/features/rankingsView', () => ({
+  initRankingsView: vi.fn(),
+  cleanupRankingsView: vi.fn(),
+}));
+
+vi.mock('../../../src/features/reconciliationView', () => ({
+  initReconciliationView: vi.fn(),
+  cleanupReconciliationView: vi.fn(),
+}));
+
 import { showToast } from '../../../src/components';
 import {
   applyFilters,
@@ -112,6 +128,7 @@ import {
   getVirtualList,
   initResultsView,
   updateEntryCountBadge,
+  updatePointFilterOptions,
   updateStats,
 } from '../../../src/features/resultsView';
 import { feedbackUndo, syncService } from '../../../src/services';
@@ -468,6 +485,51 @@ describe('Results View Module', () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // updatePointFilterOptions
+  // -------------------------------------------------------------------------
+  describe('updatePointFilterOptions', () => {
+    function createPointFilter(): HTMLSelectElement {
+      const pointFilter = document.createElement('select');
+      pointFilter.id = 'filter-point';
+      for (const value of ['all', 'S', 'F']) {
+        const opt = document.createElement('option');
+        opt.value = value;
+        pointFilter.appendChild(opt);
+      }
+      container.appendChild(pointFilter);
+      return pointFilter;
+    }
+
+    afterEach(() => {
+      mockTimingPoints.value = ['S', 'F'];
+    });
+
+    it('should insert intermediate options before finish', () => {
+      const pointFilter = createPointFilter();
+      mockTimingPoints.value = ['S', 'I1', 'I2', 'F'];
+
+      updatePointFilterOptions();
+
+      const values = Array.from(pointFilter.options).map((o) => o.value);
+      expect(values).toEqual(['all', 'S', 'I1', 'I2', 'F']);
+      expect(pointFilter.options[2]!.textContent).toBe('Split 1');
+    });
+
+    it('should reset filter when selected intermediate is removed', () => {
+      const pointFilter = createPointFilter();
+      mockTimingPoints.value = ['S', 'I1', 'I2', 'F'];
+      updatePointFilterOptions();
+      pointFilter.value = 'I2';
+
+      mockTimingPoints.value = ['S', 'I1', 'F'];
+      updatePointFilterOptions();
+
+      expect(pointFilter.value).toBe('all');
+      expect(pointFilter.querySelector('option[value="I2"]')).toBeNull();
+    });
+  });
+
   // -------------------------------------------------------------------------
   // updateStats — various entry patterns
   // -------------------------------------------------------------------------
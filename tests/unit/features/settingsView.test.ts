@@ -141,6 +141,11 @@ describe('Settings View Module', () => {
       photoToggle.type = 'checkbox';
       container.appendChild(photoToggle);
 
+      const photoBurstToggle = document.createElement('input');
+      photoBurstToggle.id = 'photo-burst-toggle';
+      photoBurstToggle.type = 'checkbox';
+      container.appendChild(photoBurstToggle);
+
       updateSettingsInputs();
 
       expect(gpsToggle.checked).toBe(true);
@@ -148,6 +153,8 @@ describe('Settings View Module', () => {
       expect(hapticToggle.checked).toBe(false);
       expect(soundToggle.checked).toBe(true);
       expect(photoToggle.checked).toBe(false);
+      // Burst needs photo capture
+      expect(photoBurstToggle.disabled).toBe(true);
     });
 
     it('should handle missing toggle elements', () => {
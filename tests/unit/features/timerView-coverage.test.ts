@@ -33,6 +33,7 @@ vi.mock('../../../src/services', () => ({
   feedbackTap: vi.fn(),
   feedbackWarning: vi.fn(),
   gpsService: { getOffset: vi.fn(() => 0) },
+  serverClockService: { getTimeOffset: vi.fn(() => null) },
   photoStorage: {
     savePhoto: vi.fn(() => Promise.resolve(true)),
     deletePhoto: vi.fn(() => Promise.resolve()),
@@ -40,6 +41,10 @@ vi.mock('../../../src/services', () => ({
   syncEntry: vi.fn(() => Promise.resolve()),
 }));
 
+vi.mock('../../../src/services/camera', () => ({
+  captureTimingPhoto: (...args: unknown[]) => mockCaptureTimingPhoto(...args),
+}));
+
 const mockGetState = vi.fn();
 const mockSetBibInput = vi.fn();
 const mockAddEntry = vi.fn();
@@ -95,6 +100,7 @@ vi.mock('../../../src/utils/timestampRecorder', () => ({
       deviceId: 'dev_1',
       deviceName: 'Timer 1',
     },
+    recordedAt: 1705312800000,
   })),
   isDuplicateEntry: (...a: unknown[]) => mockIsDuplicateEntry(...a),
 }));
@@ -251,6 +257,22 @@ describe('Timer View — extended coverage', () => {
     });
   });
 
+  describe('recordTimestamp — photo capture', () => {
+    it('should pass the entry and tap time for burst alignment', async () => {
+      mockGetState.mockReturnValue({
+        ...mockGetState(),
+        settings: { auto: false, sync: false, photoCapture: true },
+      });
+
+      await recordTimestamp();
+
+      expect(mockCaptureTimingPhoto).toHaveBeenCalledWith({
+        entry: expect.objectContaining({ id: 'test-entry-1' }),
+        recordedAt: 1705312800000,
+      });
+    });
+  });
+
   describe('recordTimestamp — always resets isRecording', () => {
     it('should call setRecording(false) in finally block even on success', async () => {
       await recordTimestamp();
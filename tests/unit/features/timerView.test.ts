@@ -36,6 +36,7 @@ vi.mock('../../../src/services', () => ({
   feedbackTap: vi.fn(),
   feedbackWarning: vi.fn(),
   gpsService: { getOffset: vi.fn(() => 0) },
+  serverClockService: { getTimeOffset: vi.fn(() => null) },
   photoStorage: {
     savePhoto: vi.fn(() => Promise.resolve(true)),
     deletePhoto: vi.fn(() => Promise.resolve()),
@@ -69,6 +70,12 @@ vi.mock('../../../src/utils', () => ({
   getPointLabel: vi.fn((p: string) => (p === 'S' ? 'Start' : 'Finish')),
   getRunColor: vi.fn(() => '#fff'),
   getRunLabel: vi.fn((r: number) => `Run ${r}`),
+  isValidRun: vi.fn(
+    (run: unknown, runCount = 9) =>
+      Number.isInteger(run) &&
+      (run as number) >= 1 &&
+      (run as number) <= runCount,
+  ),
   logWarning: vi.fn(),
 }));
 
@@ -137,6 +144,7 @@ describe('Timer View Module', () => {
       bibInput: '042',
       selectedPoint: 'S',
       selectedRun: 1,
+      runCount: 2,
       currentView: 'timer',
       currentLang: 'en',
       deviceId: 'dev_1',
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for Live Results Page Rendering
+ * Tests: fetchPublicResults, formatLiveDuration, escapeLiveHtml, tab
+ *        selection, result table rendering and language detection
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  escapeLiveHtml,
+  fetchPublicResults,
+  formatLiveDuration,
+  type PublicResultsData,
+  renderLiveResults,
+  renderLiveTabs,
+  resolveLiveTab,
+} from '../../../src/live/liveResults';
+import { detectLiveLanguage } from '../../../src/live/translations';
+
+const mockFetch = vi.fn();
+Object.defineProperty(globalThis, 'fetch', {
+  value: mockFetch,
+  writable: true,
+});
+
+function runResult(overrides: Record<string, unknown>) {
+  return {
+    bib: '001',
+    run: 1,
+    rank: 1,
+    status: 'ok',
+    startTime: 0,
+    finishTime: 45000,
+    runTime: 45000,
+    faultCount: 0,
+    penaltyMs: 0,
+    totalTime: 45000,
+    gap: null,
+    splits: {},
+    backupPoints: [],
+    manualPoints: [],
+    ...overrides,
+  } as any;
+}
+
+function createData(): PublicResultsData {
+  const run1 = [
+    runResult({ bib: '001' }),
+    runResult({
+      bib: '002',
+      rank: 2,
+      status: 'flt',
+      faultCount: 1,
+      penaltyMs: 5000,
+      totalTime: 52000,
+      gap: 7000,
+    }),
+    runResult({ bib: '003', rank: null, status: 'dnf', totalTime: null }),
+  ];
+  const run2 = [runResult({ bib: '001', run: 2, totalTime: 46000 })];
+  return {
+    raceId: 'race-1',
+    runs: [1, 2],
+    byRun: { 1: run1, 2: run2 },
+    combined: [
+      {
+        bib: '001',
+        rank: 1,
+        status: 'ok',
+        runs: { 1: run1[0], 2: run2[0] },
+        totalTime: 91000,
+        gap: null,
+      },
+    ],
+    racers: {
+      '001': { name: 'Huber <Anna>', club: 'SC Garmisch' },
+    },
+    lastUpdated: 1000,
+  };
+}
+
+describe('Live Results', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  describe('fetchPublicResults', () => {
+    it('should request the public endpoint for the race', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve(createData()),
+      });
+
+      const result = await fetchPublicResults('race 1');
+
+      expect(mockFetch.mock.calls[0]![0]).toBe(
+        '/api/v1/public/results?raceId=race+1',
+      );
+      expect(result.status).toBe('ok');
+    });
+
+    it('should report unpublished races', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 404 });
+      expect(await fetchPublicResults('race-1')).toEqual({
+        status: 'notPublished',
+      });
+    });
+
+    it('should report errors for failed or malformed responses', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('offline'));
+      expect((await fetchPublicResults('race-1')).status).toBe('error');
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ foo: 1 }),
+      });
+      expect((await fetchPublicResults('race-1')).status).toBe('error');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should format durations as MM:SS.cc', () => {
+      expect(formatLiveDuration(45678)).toBe('00:45.67');
+      expect(formatLiveDuration(61230)).toBe('01:01.23');
+      expect(formatLiveDuration(-1)).toBe('--:--.--');
+    });
+
+    it('should escape HTML', () => {
+      expect(escapeLiveHtml('<b>"A" & \'B\'</b>')).toBe(
+        '&lt;b&gt;&quot;A&quot; &amp; &#39;B&#39;&lt;/b&gt;',
+      );
+    });
+  });
+
+  describe('tabs', () => {
+    it('should add a combined tab for multi-run races', () => {
+      const html = renderLiveTabs([1, 2], 'combined', 'en');
+      expect(html).toContain('data-tab="1"');
+      expect(html).toContain('data-tab="2"');
+      expect(html).toMatch(/class="live-tab active"[^>]*data-tab="combined"/);
+    });
+
+    it('should fall back to the first run when the tab no longer exists', () => {
+      expect(resolveLiveTab('combined', [1])).toBe(1);
+      expect(resolveLiveTab(2, [1, 2])).toBe(2);
+      expect(resolveLiveTab(3, [])).toBe(1);
+    });
+  });
+
+  describe('renderLiveResults', () => {
+    it('should render ranked times, penalties and DNF status', () => {
+      const container = document.createElement('div');
+      container.innerHTML = renderLiveResults(createData(), 1, 'en');
+
+      const rows = container.querySelectorAll('.live-row:not(.live-header)');
+      expect(rows).toHaveLength(3);
+      expect(rows[0]!.querySelector('.live-time')!.textContent).toBe(
+        '00:45.00',
+      );
+      expect(rows[1]!.querySelector('.live-penalty')!.textContent).toBe('+5s');
+      expect(rows[1]!.querySelector('.live-gap')!.textContent).toBe('+7.00');
+      expect(rows[2]!.classList.contains('unranked')).toBe(true);
+      expect(rows[2]!.querySelector('.live-status.dnf')!.textContent).toBe(
+        'DNF',
+      );
+    });
+
+    it('should escape racer names', () => {
+      const html = renderLiveResults(createData(), 1, 'en');
+      expect(html).toContain('Huber &lt;Anna&gt;');
+      expect(html).not.toContain('<Anna>');
+    });
+
+    it('should render combined results with per-run detail', () => {
+      const container = document.createElement('div');
+      container.innerHTML = renderLiveResults(createData(), 'combined', 'de');
+
+      expect(container.querySelector('.live-time')!.textContent).toBe(
+        '01:31.00',
+      );
+      expect(container.querySelector('.live-detail')!.textContent).toBe(
+        'Lauf 1: 00:45.00 · Lauf 2: 00:46.00',
+      );
+    });
+
+    it('should show split times on run tabs', () => {
+      const data = createData();
+      data.byRun[1]![0] = runResult({ splits: { I2: 31000, I1: 15500 } });
+      const container = document.createElement('div');
+      container.innerHTML = renderLiveResults(data, 1, 'en');
+
+      expect(container.querySelector('.live-detail')!.textContent).toBe(
+        'Split 1: 00:15.50 · Split 2: 00:31.00',
+      );
+    });
+
+    it('should show a message when there are no results', () => {
+      const data = { ...createData(), runs: [], byRun: {}, combined: [] };
+      expect(renderLiveResults(data, 1, 'fr')).toContain(
+        'Aucune manche terminée',
+      );
+    });
+  });
+
+  describe('detectLiveLanguage', () => {
+    it('should prefer the lang param, then browser languages', () => {
+      expect(detectLiveLanguage('fr', ['de-DE'])).toBe('fr');
+      expect(detectLiveLanguage(null, ['it-IT', 'de-AT'])).toBe('de');
+      expect(detectLiveLanguage('xx', ['it-IT'])).toBe('en');
+    });
+  });
+});
@@ -64,6 +64,7 @@ vi.mock('../../src/store', () => ({
     updateSettings: vi.fn(),
     forceSave: vi.fn(),
   },
+  $maxGate: { value: 100 },
 }));
 
 vi.mock('../../src/utils/errors', () => ({
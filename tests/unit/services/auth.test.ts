@@ -22,6 +22,10 @@ vi.mock('../../../src/services/storage', () => ({
   },
 }));
 
+vi.mock('../../../src/store', () => ({
+  store: { getState: () => ({ deviceId: 'dev_test' }) },
+}));
+
 // ── Import after mocks ────────────────────────────────────────────────────
 
 import {
@@ -32,9 +36,11 @@ import {
   exchangePinForToken,
   getAuthHeaders,
   getAuthToken,
+  getTokenRaceId,
   getTokenRole,
   hasAuthToken,
   hasChiefJudgeRole,
+  isTokenValidForRace,
   setAuthToken,
 } from '../../../src/services/auth';
 import { storage } from '../../../src/services/storage';
@@ -173,7 +179,11 @@ describe('exchangePinForToken', () => {
     expect(fetchMock).toHaveBeenCalledWith('/api/v1/auth/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ pin: '1234', role: undefined }),
+      body: JSON.stringify({
+        pin: '1234',
+        role: undefined,
+        deviceId: 'dev_test',
+      }),
       signal: expect.any(AbortSignal),
     });
     expect(result).toEqual({ success: true, token, isNewPin: false });
@@ -258,7 +268,33 @@ describe('exchangePinForToken', () => {
     expect(fetchMock).toHaveBeenCalledWith('/api/v1/auth/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ pin: '1234', role: 'gateJudge' }),
+      body: JSON.stringify({
+        pin: '1234',
+        role: 'gateJudge',
+        deviceId: 'dev_test',
+      }),
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('passes the raceId for race-scoped PINs', async () => {
+    const token = createJWT({ role: 'timer', raceId: 'race-a' });
+    fetchMock.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ token }),
+    });
+
+    await exchangePinForToken('1234', 'timer', 'race-a');
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/v1/auth/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        pin: '1234',
+        role: 'timer',
+        raceId: 'race-a',
+        deviceId: 'dev_test',
+      }),
       signal: expect.any(AbortSignal),
     });
   });
@@ -319,7 +355,11 @@ describe('exchangeChiefJudgePin', () => {
     expect(fetchMock).toHaveBeenCalledWith('/api/v1/auth/token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ pin: '9999', role: 'chiefJudge' }),
+      body: JSON.stringify({
+        pin: '9999',
+        role: 'chiefJudge',
+        deviceId: 'dev_test',
+      }),
       signal: expect.any(AbortSignal),
     });
     expect(result.success).toBe(true);
@@ -361,6 +401,23 @@ describe('getTokenRole', () => {
   });
 });
 
+describe('getTokenRaceId / isTokenValidForRace', () => {
+  it('returns the race of a race-scoped token', () => {
+    storageStore.set(AUTH_TOKEN_KEY, createJWT({ raceId: 'race-a' }));
+
+    expect(getTokenRaceId()).toBe('race-a');
+    expect(isTokenValidForRace('RACE-A')).toBe(true);
+    expect(isTokenValidForRace('race-b')).toBe(false);
+  });
+
+  it('treats global tokens as usable for any race', () => {
+    storageStore.set(AUTH_TOKEN_KEY, createJWT({ role: 'timer' }));
+
+    expect(getTokenRaceId()).toBeNull();
+    expect(isTokenValidForRace('race-b')).toBe(true);
+  });
+});
+
 describe('hasChiefJudgeRole', () => {
   it('returns true when token has chiefJudge role', () => {
     const token = createJWT({ role: 'chiefJudge' });
@@ -0,0 +1,189 @@
+/**
+ * Unit Tests for Bib Recognition Service
+ * Tests: suggestBib (photo sources, worker round trip, validation against
+ * active bibs and start list, caching), forget, worker failure
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Entry } from '../../../src/types';
+
+const mockGetState = vi.fn();
+const mockGetActiveBibs = vi.fn((_run: number): string[] => []);
+
+vi.mock('../../../src/store', () => ({
+  store: {
+    getState: () => mockGetState(),
+    getActiveBibs: (run: number) => mockGetActiveBibs(run),
+  },
+}));
+
+const mockGetPhoto = vi.fn();
+vi.mock('../../../src/services/photoStorage', () => ({
+  photoStorage: {
+    getPhoto: (id: string) => mockGetPhoto(id),
+  },
+}));
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    log: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { bibRecognitionService } from '../../../src/services/bibRecognition';
+
+/**
+ * Worker stand-in answering every photo with the candidates set for it
+ */
+class MockWorker {
+  static instances: MockWorker[] = [];
+  static candidates: Record<
+    string,
+    { bib: string; confidence: number; height: number }[]
+  > = {};
+
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  postMessage = vi.fn((data: { id: number; photo: string }) => {
+    queueMicrotask(() => {
+      this.onmessage?.({
+        data: { id: data.id, candidates: MockWorker.candidates[data.photo] },
+      } as MessageEvent);
+    });
+  });
+  terminate = vi.fn();
+
+  constructor() {
+    MockWorker.instances.push(this);
+  }
+}
+
+const PHOTO = 'A'.repeat(100);
+
+function makeEntry(overrides: Partial<Entry> = {}): Entry {
+  return {
+    id: 'e1',
+    bib: '',
+    point: 'F',
+    run: 1,
+    timestamp: '2026-10-19T10:00:00.000Z',
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+    photo: 'indexeddb',
+    ...overrides,
+  };
+}
+
+describe('bibRecognitionService', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Worker', MockWorker);
+    vi.stubGlobal('OffscreenCanvas', class {});
+    MockWorker.instances = [];
+    MockWorker.candidates = {
+      [PHOTO]: [
+        { bib: '42', confidence: 0.95, height: 40 },
+        { bib: '7', confidence: 0.8, height: 30 },
+      ],
+    };
+    mockGetPhoto.mockResolvedValue(PHOTO);
+    mockGetActiveBibs.mockReturnValue([]);
+    mockGetState.mockReturnValue({ startList: [] });
+  });
+
+  afterEach(() => {
+    bibRecognitionService.cleanup();
+    vi.unstubAllGlobals();
+  });
+
+  it('should suggest a confident reading of the stored photo', async () => {
+    const suggestion = await bibRecognitionService.suggestBib(makeEntry());
+
+    expect(suggestion).toBe('042');
+    expect(mockGetPhoto).toHaveBeenCalledWith('e1');
+    expect(MockWorker.instances[0]!.postMessage).toHaveBeenCalledWith({
+      id: expect.any(Number),
+      photo: PHOTO,
+    });
+  });
+
+  it('should only suggest bibs on course or on the start list', async () => {
+    mockGetActiveBibs.mockReturnValue(['007']);
+
+    expect(await bibRecognitionService.suggestBib(makeEntry())).toBe('007');
+    expect(mockGetActiveBibs).toHaveBeenCalledWith(1);
+
+    mockGetActiveBibs.mockReturnValue([]);
+    mockGetState.mockReturnValue({
+      startList: [{ bib: '042', name: 'Anna' }],
+    });
+    expect(await bibRecognitionService.suggestBib(makeEntry())).toBe('042');
+
+    mockGetState.mockReturnValue({
+      startList: [{ bib: '012', name: 'Ben' }],
+    });
+    expect(await bibRecognitionService.suggestBib(makeEntry())).toBeNull();
+  });
+
+  it('should read inline photos', async () => {
+    const suggestion = await bibRecognitionService.suggestBib(
+      makeEntry({ id: 'e2', photo: PHOTO }),
+    );
+
+    expect(suggestion).toBe('042');
+    expect(mockGetPhoto).not.toHaveBeenCalled();
+  });
+
+  it('should not read entries with a bib, no photo or a cloud photo', async () => {
+    expect(
+      await bibRecognitionService.suggestBib(makeEntry({ bib: '042' })),
+    ).toBeNull();
+    expect(
+      await bibRecognitionService.suggestBib(makeEntry({ photo: undefined })),
+    ).toBeNull();
+    expect(
+      await bibRecognitionService.suggestBib(makeEntry({ photo: 'cloud' })),
+    ).toBeNull();
+    expect(MockWorker.instances).toHaveLength(0);
+  });
+
+  it('should read each photo once until forgotten', async () => {
+    await bibRecognitionService.suggestBib(makeEntry());
+    await bibRecognitionService.suggestBib(makeEntry());
+    expect(MockWorker.instances[0]!.postMessage).toHaveBeenCalledTimes(1);
+
+    bibRecognitionService.forget('e1');
+    await bibRecognitionService.suggestBib(makeEntry());
+    expect(MockWorker.instances[0]!.postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null without worker support', async () => {
+    vi.stubGlobal('OffscreenCanvas', undefined);
+
+    expect(await bibRecognitionService.suggestBib(makeEntry())).toBeNull();
+    expect(MockWorker.instances).toHaveLength(0);
+  });
+
+  it('should give up on pending readings when the worker fails', async () => {
+    const postMessage = vi.fn();
+    vi.stubGlobal(
+      'Worker',
+      class extends MockWorker {
+        postMessage = postMessage;
+      },
+    );
+
+    const suggestion = bibRecognitionService.suggestBib(makeEntry());
+    await vi.waitFor(() => expect(postMessage).toHaveBeenCalled());
+    MockWorker.instances[0]!.onerror?.({
+      message: 'boom',
+    } as ErrorEvent);
+
+    expect(await suggestion).toBeNull();
+    expect(MockWorker.instances[0]!.terminate).toHaveBeenCalled();
+  });
+});
@@ -2,7 +2,7 @@
  * Unit Tests for Camera Service - Full Coverage
  * Tests: state machine transitions, battery-aware init, visibility handling,
  *        reinitialize retries, capturePhoto, idle timeout, setPreviewElement,
- *        captureTimingPhoto helper
+ *        captureTimingPhoto helper, photo-finish burst buffer
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -51,6 +51,14 @@ vi.mock('../../../src/services/battery', () => ({
   },
 }));
 
+const mockSaveBurst = vi.fn((..._args: unknown[]) => Promise.resolve(true));
+
+vi.mock('../../../src/services/photoStorage', () => ({
+  photoStorage: {
+    saveBurst: (...args: unknown[]) => mockSaveBurst(...args),
+  },
+}));
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -1129,6 +1137,154 @@ describe('Camera Service - Full Coverage', () => {
     });
   });
 
+  // ----------------------------------------------------------
+  // Photo-finish burst (fake timers drive the frame buffer)
+  // ----------------------------------------------------------
+
+  describe('Photo-finish burst', () => {
+    const entryTime = Date.parse('2026-01-10T10:00:00.000Z');
+    let bitmaps: {
+      width: number;
+      height: number;
+      close: ReturnType<typeof vi.fn>;
+    }[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      bitmaps = [];
+      vi.stubGlobal(
+        'createImageBitmap',
+        vi.fn(async () => {
+          const bitmap = { width: 640, height: 360, close: vi.fn() };
+          bitmaps.push(bitmap);
+          return bitmap;
+        }),
+      );
+      patchCreateElement({ videoWidth: 1280, videoHeight: 720 });
+      installGetUserMedia();
+    });
+
+    afterEach(() => {
+      cameraService.setBurstMode(false);
+      cameraService.stop();
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    });
+
+    it('buffers frames only while burst mode is on and the camera is ready', async () => {
+      cameraService.setBurstMode(true);
+      expect(cameraService.isBurstActive()).toBe(false);
+
+      await cameraService.initialize();
+      expect(cameraService.isBurstActive()).toBe(true);
+
+      await vi.advanceTimersByTimeAsync(200);
+      expect(createImageBitmap).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ resizeWidth: 640 }),
+      );
+
+      cameraService.setBurstMode(false);
+      expect(cameraService.isBurstActive()).toBe(false);
+      expect(bitmaps.every((b) => b.close.mock.calls.length === 1)).toBe(true);
+    });
+
+    it('keeps a bounded ring buffer', async () => {
+      cameraService.setBurstMode(true);
+      await cameraService.initialize();
+
+      await vi.advanceTimersByTimeAsync(2000);
+
+      const open = bitmaps.filter((b) => b.close.mock.calls.length === 0);
+      expect(bitmaps.length).toBe(40);
+      expect(open.length).toBe(14);
+    });
+
+    it('saves frames from 300 ms before to 300 ms after the tap', async () => {
+      cameraService.setBurstMode(true);
+      await cameraService.initialize();
+      await vi.advanceTimersByTimeAsync(500);
+
+      const recordedAt = Date.now();
+      const burst = cameraService.captureBurst(recordedAt, entryTime);
+      await vi.advanceTimersByTimeAsync(400);
+      const frames = await burst;
+
+      expect(frames.map((f) => f.offsetMs)).toEqual([
+        -300, -250, -200, -150, -100, -50, 0, 50, 100, 150, 200, 250, 300,
+      ]);
+      expect(frames[0]).toEqual({
+        offsetMs: -300,
+        timestamp: '2026-01-10T09:59:59.700Z',
+        photo: 'mockBase64ImageData',
+      });
+      expect(frames[12]!.timestamp).toBe('2026-01-10T10:00:00.300Z');
+    });
+
+    it('returns no frames when the buffer is not running', async () => {
+      await cameraService.initialize();
+
+      expect(await cameraService.captureBurst(Date.now(), entryTime)).toEqual(
+        [],
+      );
+    });
+
+    it('stops buffering when the camera pauses', async () => {
+      cameraService.setBurstMode(true);
+      await cameraService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+
+      setDocumentHidden(true);
+
+      expect(cameraService.isBurstActive()).toBe(false);
+      expect(bitmaps.every((b) => b.close.mock.calls.length === 1)).toBe(true);
+    });
+
+    it('captureTimingPhoto saves the burst of a finish tap and returns the closest frame', async () => {
+      mockGetState.mockReturnValue({
+        settings: { photoCapture: true, photoBurst: true },
+        cameraError: null,
+      });
+      cameraService.setBurstMode(true);
+      await cameraService.initialize();
+      await vi.advanceTimersByTimeAsync(500);
+
+      const entry = {
+        id: 'entry-1',
+        point: 'F',
+        timestamp: new Date(entryTime).toISOString(),
+      } as any;
+      const photo = captureTimingPhoto({ entry, recordedAt: Date.now() });
+      await vi.advanceTimersByTimeAsync(400);
+
+      expect(await photo).toBe('mockBase64ImageData');
+      expect(mockSaveBurst).toHaveBeenCalledWith(
+        'entry-1',
+        expect.arrayContaining([expect.objectContaining({ offsetMs: 0 })]),
+      );
+    });
+
+    it('captureTimingPhoto takes a single photo for start taps', async () => {
+      mockGetState.mockReturnValue({
+        settings: { photoCapture: true, photoBurst: true },
+        cameraError: null,
+      });
+      cameraService.setBurstMode(true);
+      await cameraService.initialize();
+
+      const entry = {
+        id: 'entry-1',
+        point: 'S',
+        timestamp: new Date(entryTime).toISOString(),
+      } as any;
+
+      expect(await captureTimingPhoto({ entry, recordedAt: Date.now() })).toBe(
+        'mockBase64ImageData',
+      );
+      expect(mockSaveBurst).not.toHaveBeenCalled();
+    });
+  });
+
   // ----------------------------------------------------------
   // Idle timeout (uses fake timers — MUST be last to avoid
   // timer state leaking to subsequent tests)
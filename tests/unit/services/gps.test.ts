@@ -443,6 +443,26 @@ describe('GPS Service', () => {
       expect(result).toBeNull();
     });
 
+    it('should ask for a fresh high-accuracy fix when requested', async () => {
+      mockGetCurrentPosition.mockImplementation((_, error) => {
+        error({
+          code: 3,
+          message: 'Timeout',
+          PERMISSION_DENIED: 1,
+          POSITION_UNAVAILABLE: 2,
+          TIMEOUT: 3,
+        });
+      });
+
+      await gpsService.requestPosition(true);
+
+      expect(mockGetCurrentPosition).toHaveBeenCalledWith(
+        expect.any(Function),
+        expect.any(Function),
+        expect.objectContaining({ enableHighAccuracy: true, maximumAge: 0 }),
+      );
+    });
+
     it('should return null if geolocation not available', async () => {
       // Skip this test as we can't easily undefine navigator.geolocation in jsdom
       // The functionality is tested through integration tests
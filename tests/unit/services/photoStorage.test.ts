@@ -403,6 +403,101 @@ describe('PhotoStorage - Queue Serialization', () => {
   });
 });
 
+describe('PhotoStorage - Thumbnails', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStoreData.clear();
+  });
+
+  it('should create the thumbnails store on upgrade', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    await module.photoStorage.initialize();
+
+    expect(indexedDB.open).toHaveBeenCalledWith('ski-timer-photos', 3);
+    expect(mockDb.createObjectStore).toHaveBeenCalledWith('thumbnails', {
+      keyPath: 'entryId',
+    });
+  });
+
+  it('should save and read a thumbnail', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    const saved = await module.photoStorage.saveThumbnail(
+      'entry-1',
+      'data:image/jpeg;base64,thumb',
+    );
+
+    expect(saved).toBe(true);
+    expect(mockDb.transaction).toHaveBeenCalledWith(
+      ['thumbnails'],
+      'readwrite',
+    );
+    expect(await module.photoStorage.getThumbnail('entry-1')).toBe(
+      'data:image/jpeg;base64,thumb',
+    );
+  });
+
+  it('should delete the thumbnail and burst with the photo', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    await module.photoStorage.deletePhoto('entry-1');
+
+    expect(mockDb.transaction).toHaveBeenCalledWith(
+      ['photos', 'thumbnails', 'bursts'],
+      'readwrite',
+    );
+    expect(mockTransaction.objectStore).toHaveBeenCalledWith('thumbnails');
+    expect(mockTransaction.objectStore).toHaveBeenCalledWith('bursts');
+    expect(mockStore.delete).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('PhotoStorage - Bursts', () => {
+  const frames = [
+    { offsetMs: -50, timestamp: '2026-01-10T10:00:00.950Z', photo: 'a' },
+    { offsetMs: 0, timestamp: '2026-01-10T10:00:01.000Z', photo: 'b' },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockStoreData.clear();
+  });
+
+  it('should create the bursts store on upgrade', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    await module.photoStorage.initialize();
+
+    expect(mockDb.createObjectStore).toHaveBeenCalledWith('bursts', {
+      keyPath: 'entryId',
+    });
+  });
+
+  it('should save and read burst frames', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    expect(await module.photoStorage.saveBurst('entry-1', frames)).toBe(true);
+    expect(mockDb.transaction).toHaveBeenCalledWith(['bursts'], 'readwrite');
+    expect(await module.photoStorage.getBurst('entry-1')).toEqual(frames);
+  });
+
+  it('should return null for entries without a burst', async () => {
+    vi.resetModules();
+    const module = await import('../../../src/services/photoStorage');
+
+    expect(await module.photoStorage.getBurst('entry-2')).toBeNull();
+
+    await module.photoStorage.saveBurst('entry-2', []);
+    expect(await module.photoStorage.getBurst('entry-2')).toBeNull();
+  });
+});
+
 describe('PhotoStorage - Return Types', () => {
   it('savePhoto should return a Promise', async () => {
     vi.resetModules();
@@ -0,0 +1,133 @@
+/**
+ * Unit Tests for Server Clock Service
+ * Tests: estimateClockOffset (RTT filtering, median, uncertainty), sync
+ * (sampling, failures), estimate expiry, periodic resync
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/utils/errors', () => ({
+  fetchWithTimeout: vi.fn(),
+}));
+
+vi.mock('../../../src/utils/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), debug: vi.fn(), info: vi.fn() },
+}));
+
+import { fetchWithTimeout } from '../../../src/utils/errors';
+
+type ServerClockModule = typeof import('../../../src/services/serverClock');
+
+const SERVER_AHEAD_MS = 1000;
+
+function respondWithServerTime(): void {
+  vi.mocked(fetchWithTimeout).mockImplementation(
+    async () =>
+      ({
+        ok: true,
+        json: async () => ({ serverTime: Date.now() + SERVER_AHEAD_MS }),
+      }) as Response,
+  );
+}
+
+describe('Server Clock Service', () => {
+  let mod: ServerClockModule;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    // Fresh singleton per test
+    vi.resetModules();
+    mod = await import('../../../src/services/serverClock');
+  });
+
+  afterEach(() => {
+    mod.serverClockService.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('estimateClockOffset', () => {
+    it('should take the median offset of the fastest third', () => {
+      expect(
+        mod.estimateClockOffset([
+          { offsetMs: 500, rttMs: 400 },
+          { offsetMs: 102, rttMs: 20 },
+          { offsetMs: 98, rttMs: 10 },
+          { offsetMs: -300, rttMs: 300 },
+          { offsetMs: 100, rttMs: 16 },
+          { offsetMs: 250, rttMs: 90 },
+        ]),
+      ).toEqual({ offsetMs: 99, uncertaintyMs: 8 });
+    });
+
+    it('should use a single sample as is', () => {
+      expect(mod.estimateClockOffset([{ offsetMs: 42.4, rttMs: 31 }])).toEqual({
+        offsetMs: 42,
+        uncertaintyMs: 16,
+      });
+      expect(mod.estimateClockOffset([])).toBeNull();
+    });
+  });
+
+  describe('sync', () => {
+    it('should estimate the server offset from several round trips', async () => {
+      respondWithServerTime();
+
+      await expect(mod.serverClockService.sync()).resolves.toBe(true);
+
+      expect(fetchWithTimeout).toHaveBeenCalledTimes(8);
+      expect(vi.mocked(fetchWithTimeout).mock.calls[0]![0]).toBe(
+        '/api/v1/time',
+      );
+      const offset = mod.serverClockService.getTimeOffset();
+      expect(Math.abs(offset! - SERVER_AHEAD_MS)).toBeLessThanOrEqual(5);
+      expect(mod.serverClockService.getUncertainty()).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should keep no estimate when too few round trips succeed', async () => {
+      vi.mocked(fetchWithTimeout).mockRejectedValue(new Error('offline'));
+
+      await expect(mod.serverClockService.sync()).resolves.toBe(false);
+
+      expect(mod.serverClockService.getTimeOffset()).toBeNull();
+      expect(mod.serverClockService.getUncertainty()).toBeNull();
+    });
+
+    it('should ignore responses without a server time', async () => {
+      vi.mocked(fetchWithTimeout).mockResolvedValue({
+        ok: true,
+        json: async () => ({}),
+      } as Response);
+
+      await expect(mod.serverClockService.sync()).resolves.toBe(false);
+    });
+
+    it('should drop the estimate after 15 minutes', async () => {
+      respondWithServerTime();
+      await mod.serverClockService.sync();
+      const now = Date.now();
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 16 * 60 * 1000);
+
+      expect(mod.serverClockService.getTimeOffset()).toBeNull();
+    });
+  });
+
+  describe('start', () => {
+    it('should sync now and every 5 minutes', async () => {
+      vi.useFakeTimers();
+      respondWithServerTime();
+
+      mod.serverClockService.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fetchWithTimeout).toHaveBeenCalledTimes(8);
+
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+      expect(fetchWithTimeout).toHaveBeenCalledTimes(16);
+
+      mod.serverClockService.stop();
+      await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+      expect(fetchWithTimeout).toHaveBeenCalledTimes(16);
+    });
+  });
+});
@@ -32,6 +32,28 @@ Object.defineProperty(globalThis, 'localStorage', {
   writable: true,
 });
 
+// Mock live stream (tested separately) - capture callbacks so tests can
+// simulate connect/drop/events without a streaming response
+const liveStreamMock = vi.hoisted(() => ({
+  callbacks: null as null | {
+    onEvent: (event: Record<string, unknown>) => void;
+    onConnected: () => void;
+    onDisconnected: () => void;
+  },
+}));
+
+vi.mock('../../../src/services/sync/liveStream', () => ({
+  liveStream: {
+    initialize: vi.fn((callbacks) => {
+      liveStreamMock.callbacks = callbacks;
+    }),
+    start: vi.fn(),
+    stop: vi.fn(),
+    cleanup: vi.fn(),
+    isConnected: vi.fn(() => false),
+  },
+}));
+
 // Mock fetch
 const mockFetch = vi.fn();
 Object.defineProperty(globalThis, 'fetch', {
@@ -173,9 +195,12 @@ describe('Token Management Functions', () => {
         expect.objectContaining({
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ pin: '1234' }),
         }),
       );
+      expect(JSON.parse(mockFetch.mock.calls[0]![1].body)).toEqual({
+        pin: '1234',
+        deviceId: expect.stringMatching(/^dev_/),
+      });
     });
 
     it('should store token in localStorage on success', async () => {
@@ -518,20 +543,22 @@ describe('Sync Service', () => {
       syncService.initialize();
 
       // Wait for initial async operations to complete
-      // Initial: 1 entry fetch + 1 fault fetch (independent) = 2 calls
+      // Initial: 1 entry fetch + 1 fault fetch + 1 protest fetch
+      // + 1 start list fetch + 1 penalty config fetch
+      // + 1 race config fetch (independent) = 6 calls
       await vi.advanceTimersByTimeAsync(100);
-      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch).toHaveBeenCalledTimes(6);
 
       // Advance timer past entry poll interval (15 seconds)
-      // Entry polling fires every 15s, fault polling every 120s (independent)
+      // Entry polling fires every 15s, fault/start list/config polling every 120s (independent)
       await vi.advanceTimersByTimeAsync(15000);
-      // Poll 1: 1 entry fetch, total 3
-      expect(mockFetch).toHaveBeenCalledTimes(3);
+      // Poll 1: 1 entry fetch, total 7
+      expect(mockFetch).toHaveBeenCalledTimes(7);
 
       // Another entry poll interval
       await vi.advanceTimersByTimeAsync(15000);
-      // Poll 2: 1 entry fetch, total 4
-      expect(mockFetch).toHaveBeenCalledTimes(4);
+      // Poll 2: 1 entry fetch, total 8
+      expect(mockFetch).toHaveBeenCalledTimes(8);
     });
 
     it('should slow down polling after errors', async () => {
@@ -562,6 +589,89 @@ describe('Sync Service', () => {
     });
   });
 
+  describe('live stream', () => {
+    it('should pause entry polling while the stream is connected', async () => {
+      syncService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      const callCount = mockFetch.mock.calls.length;
+
+      await vi.advanceTimersByTimeAsync(30000);
+      expect(mockFetch).toHaveBeenCalledTimes(callCount);
+    });
+
+    it('should catch up with a delta fetch on every (re)connect', async () => {
+      syncService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+      const callCount = mockFetch.mock.calls.length;
+
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      const urls = mockFetch.mock.calls
+        .slice(callCount)
+        .map(([url]) => String(url));
+      expect(urls.some((url) => url.includes('/api/v1/sync'))).toBe(true);
+      expect(urls.some((url) => url.includes('/api/v1/faults'))).toBe(true);
+      expect(urls.some((url) => url.includes('/api/v1/protests'))).toBe(true);
+
+      // Reconnect after the server closed the stream
+      const reconnectCount = mockFetch.mock.calls.length;
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      expect(
+        mockFetch.mock.calls
+          .slice(reconnectCount)
+          .some(([url]) => String(url).includes('/api/v1/sync')),
+      ).toBe(true);
+    });
+
+    it('should fall back to polling when the stream drops', async () => {
+      syncService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      const callCount = mockFetch.mock.calls.length;
+
+      liveStreamMock.callbacks!.onDisconnected();
+      // Immediate catch-up fetch, then regular polling
+      await vi.advanceTimersByTimeAsync(100);
+      expect(mockFetch).toHaveBeenCalledTimes(callCount + 1);
+      await vi.advanceTimersByTimeAsync(15000);
+      expect(mockFetch).toHaveBeenCalledTimes(callCount + 2);
+    });
+
+    it('should fetch entries for entry events from other devices', async () => {
+      syncService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      const callCount = mockFetch.mock.calls.length;
+
+      liveStreamMock.callbacks!.onEvent({ type: 'entry', deviceId: 'dev_x' });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(mockFetch).toHaveBeenCalledTimes(callCount + 1);
+      expect(mockFetch.mock.calls.at(-1)![0]).toContain('/api/v1/sync');
+    });
+
+    it('should ignore events from this device', async () => {
+      syncService.initialize();
+      await vi.advanceTimersByTimeAsync(100);
+      liveStreamMock.callbacks!.onConnected();
+      await vi.advanceTimersByTimeAsync(100);
+      const callCount = mockFetch.mock.calls.length;
+
+      liveStreamMock.callbacks!.onEvent({
+        type: 'entry',
+        deviceId: 'dev_test123',
+      });
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(mockFetch).toHaveBeenCalledTimes(callCount);
+    });
+  });
+
   describe('getQueueLength', () => {
     it('should return sync queue length', () => {
       const length = syncService.getQueueLength();
@@ -712,10 +822,11 @@ describe('Sync Service', () => {
       syncService.initialize();
       await syncService.forceRefresh();
 
-      // Check that deviceId is included in the URL
-      const fetchCalls = mockFetch.mock.calls;
-      const lastCall = fetchCalls[fetchCalls.length - 1];
-      const url = lastCall[0] as string;
+      // Check that deviceId is included in the entry sync URL
+      const syncCall = mockFetch.mock.calls.find((call) =>
+        (call[0] as string).startsWith('/api/v1/sync'),
+      );
+      const url = syncCall![0] as string;
 
       expect(url).toContain('deviceId=');
       expect(url).toContain('deviceName=');
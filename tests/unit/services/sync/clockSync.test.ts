@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Clock Sync Module
+ * Tests: getClockReportParams (GPS, server and system clock, timing point by
+ *        role),
+ *        fetchDeviceClocks (request, sync off, errors)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockGetState = vi.fn();
+
+vi.mock('../../../../src/store', () => ({
+  store: {
+    getState: () => mockGetState(),
+  },
+}));
+
+vi.mock('../../../../src/utils/errors', () => ({
+  fetchWithTimeout: vi.fn(),
+}));
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: { error: vi.fn(), warn: vi.fn(), debug: vi.fn(), info: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/auth', () => ({
+  getAuthHeaders: vi.fn(() => ({ Authorization: 'Bearer test-token' })),
+}));
+
+const mockGps = vi.hoisted(() => ({
+  getTimeOffset: vi.fn<() => number | null>(() => null),
+  getCoordinates: vi.fn(() => undefined as { accuracy: number } | undefined),
+}));
+
+vi.mock('../../../../src/services/gps', () => ({
+  gpsService: mockGps,
+}));
+
+const mockServerClock = vi.hoisted(() => ({
+  getTimeOffset: vi.fn<() => number | null>(() => null),
+}));
+
+vi.mock('../../../../src/services/serverClock', () => ({
+  serverClockService: mockServerClock,
+}));
+
+import {
+  fetchDeviceClocks,
+  getClockReportParams,
+} from '../../../../src/services/sync/clockSync';
+import { fetchWithTimeout } from '../../../../src/utils/errors';
+
+describe('Clock Sync Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGps.getTimeOffset.mockReturnValue(null);
+    mockGps.getCoordinates.mockReturnValue(undefined);
+    mockServerClock.getTimeOffset.mockReturnValue(null);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+    mockGetState.mockReturnValue({
+      raceId: 'RACE-1',
+      deviceRole: 'timer',
+      selectedPoint: 'F',
+      settings: { sync: true },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('getClockReportParams', () => {
+    it('should report the system clock without a GPS fix', () => {
+      expect(getClockReportParams()).toEqual({
+        clockSource: 'system',
+        clockTime: String(Date.now()),
+        point: 'F',
+      });
+    });
+
+    it('should report the GPS-corrected clock with offset and accuracy', () => {
+      mockGps.getTimeOffset.mockReturnValue(-120);
+      mockGps.getCoordinates.mockReturnValue({ accuracy: 4.6 });
+
+      expect(getClockReportParams()).toEqual({
+        clockSource: 'gps',
+        clockTime: String(Date.now() - 120),
+        gpsOffset: '-120',
+        gpsAccuracy: '5',
+        point: 'F',
+      });
+    });
+
+    it('should report the server-synced clock without a GPS fix', () => {
+      mockServerClock.getTimeOffset.mockReturnValue(850);
+
+      expect(getClockReportParams()).toMatchObject({
+        clockSource: 'server',
+        clockTime: String(Date.now() + 850),
+      });
+    });
+
+    it('should not report a timing point for gate judges', () => {
+      mockGetState.mockReturnValue({
+        deviceRole: 'gateJudge',
+        selectedPoint: 'F',
+      });
+
+      expect(getClockReportParams()).not.toHaveProperty('point');
+    });
+  });
+
+  describe('fetchDeviceClocks', () => {
+    it('should request the clock reports of the race', async () => {
+      const devices = [{ deviceId: 'dev_1', name: 'Timer 1', skewMs: 10 }];
+      vi.mocked(fetchWithTimeout).mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ devices, serverTime: 1234 }),
+      } as Response);
+
+      await expect(fetchDeviceClocks()).resolves.toEqual({
+        devices,
+        serverTime: 1234,
+      });
+      expect(vi.mocked(fetchWithTimeout).mock.calls[0]![0]).toBe(
+        '/api/v1/sync?raceId=RACE-1&clocks=true',
+      );
+    });
+
+    it('should return null when sync is off', async () => {
+      mockGetState.mockReturnValue({
+        raceId: 'RACE-1',
+        settings: { sync: false },
+      });
+
+      await expect(fetchDeviceClocks()).resolves.toBeNull();
+      expect(fetchWithTimeout).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the request fails', async () => {
+      vi.mocked(fetchWithTimeout).mockResolvedValue({
+        ok: false,
+        status: 500,
+      } as Response);
+
+      await expect(fetchDeviceClocks()).resolves.toBeNull();
+    });
+  });
+});
@@ -4,7 +4,8 @@
  *        deleteEntryFromCloud, sendEntryToCloud, pushLocalEntries, cleanupEntrySync
  *
  * Internal functions tested via exported behavior:
- *   processCloudPhotos, fetchCloudEntriesImpl, classifySyncError
+ *   processCloudPhotos, syncEntryPhoto, fetchCloudEntriesImpl,
+ *   classifySyncError
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -83,9 +84,14 @@ vi.mock('../../../../src/services/photoStorage', () => ({
   },
 }));
 
+vi.mock('../../../../src/services/sync/photoSync', () => ({
+  uploadEntryPhoto: vi.fn(() => Promise.resolve('uploaded')),
+}));
+
 vi.mock('../../../../src/services/sync/types', () => ({
   API_BASE: 'https://test.api/v1/sync',
   FETCH_TIMEOUT: 5000,
+  SYNC_BATCH_SIZE: 10,
 }));
 
 // ---------------------------------------------------------------------------
@@ -105,8 +111,10 @@ import {
   getLastSyncTimestamp,
   initializeEntrySync,
   pushLocalEntries,
+  sendEntriesToCloudBatch,
   sendEntryToCloud,
 } from '../../../../src/services/sync/entrySync';
+import { uploadEntryPhoto } from '../../../../src/services/sync/photoSync';
 import { fetchWithTimeout } from '../../../../src/utils/errors';
 import { addRecentRace } from '../../../../src/utils/recentRaces';
 import { isValidEntry } from '../../../../src/utils/validation';
@@ -155,6 +163,7 @@ describe('Entry Sync Module', () => {
     (photoStorage.savePhoto as ReturnType<typeof vi.fn>).mockResolvedValue(
       true,
     );
+    vi.mocked(uploadEntryPhoto).mockResolvedValue('uploaded');
     mockGetState.mockReturnValue({ ...baseState });
     initializeEntrySync(mockCallbacks);
   });
@@ -1074,81 +1083,84 @@ describe('Entry Sync Module', () => {
 
     // Photo handling
 
-    it('should load photo from IndexedDB when photo is "indexeddb" marker and syncPhotos enabled', async () => {
-      mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: true },
-      });
-
-      (photoStorage.getPhoto as ReturnType<typeof vi.fn>).mockResolvedValue(
-        'data:image/jpeg;base64,/9j/photo-data-here',
-      );
+    const photoSyncState = {
+      ...baseState,
+      deviceId: 'dev_test',
+      settings: { ...baseState.settings, syncPhotos: true },
+    };
 
+    it('should never send photo data with the entry', async () => {
+      mockGetState.mockReturnValue(photoSyncState);
       mockFetch.mockResolvedValue(mockResponse({ success: true }));
 
       const entry = createEntry({ photo: 'indexeddb' });
       await sendEntryToCloud(entry);
 
-      expect(photoStorage.getPhoto).toHaveBeenCalledWith(entry.id);
-
+      expect(photoStorage.getPhoto).not.toHaveBeenCalled();
       const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
-      expect(body.entry.photo).toBe(
-        'data:image/jpeg;base64,/9j/photo-data-here',
-      );
+      expect(body.entry.photo).toBeUndefined();
     });
 
-    it('should send without photo when IndexedDB lookup fails', async () => {
-      mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: true },
-      });
+    it('should upload the photo after the entry when syncPhotos enabled', async () => {
+      mockGetState.mockReturnValue(photoSyncState);
+      mockFetch.mockResolvedValue(mockResponse({ success: true }));
 
-      (photoStorage.getPhoto as ReturnType<typeof vi.fn>).mockResolvedValue(
-        null,
-      );
+      const entry = createEntry({ photo: 'indexeddb' });
+      const result = await sendEntryToCloud(entry);
+
+      expect(uploadEntryPhoto).toHaveBeenCalledWith(entry);
+      expect(result).toBe(true);
+      expect(mockRemoveFromSyncQueue).toHaveBeenCalledWith(entry.id);
+    });
 
+    it('should keep the entry queued when the photo upload fails', async () => {
+      mockGetState.mockReturnValue(photoSyncState);
       mockFetch.mockResolvedValue(mockResponse({ success: true }));
+      vi.mocked(uploadEntryPhoto).mockResolvedValue('failed');
 
       const entry = createEntry({ photo: 'indexeddb' });
-      await sendEntryToCloud(entry);
+      const result = await sendEntryToCloud(entry);
 
-      const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
-      expect(body.entry.photo).toBeUndefined();
+      expect(result).toBe(false);
+      expect(mockRemoveFromSyncQueue).not.toHaveBeenCalled();
     });
 
-    it('should strip photo data when syncPhotos is disabled', async () => {
-      mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: false },
-      });
-
+    it('should show warning toast when the photo is too large', async () => {
+      mockGetState.mockReturnValue(photoSyncState);
       mockFetch.mockResolvedValue(mockResponse({ success: true }));
+      vi.mocked(uploadEntryPhoto).mockResolvedValue('tooLarge');
 
-      const entry = createEntry({
-        photo: 'data:image/jpeg;base64,/9j/some-photo',
-      });
-      await sendEntryToCloud(entry);
+      const entry = createEntry({ photo: 'indexeddb' });
+      const result = await sendEntryToCloud(entry);
 
-      const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
-      expect(body.entry.photo).toBeUndefined();
+      expect(result).toBe(true);
+      expect(mockCallbacks.showToast).toHaveBeenCalledWith(
+        'photoTooLarge',
+        'warning',
+      );
     });
 
-    it('should strip indexeddb marker when syncPhotos is disabled', async () => {
+    it('should not upload photos when syncPhotos is disabled', async () => {
       mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: false },
+        ...photoSyncState,
+        settings: baseState.settings,
       });
-
       mockFetch.mockResolvedValue(mockResponse({ success: true }));
 
-      const entry = createEntry({ photo: 'indexeddb' });
-      await sendEntryToCloud(entry);
+      await sendEntryToCloud(createEntry({ photo: 'indexeddb' }));
 
-      // Should not even attempt to load from IndexedDB
-      expect(photoStorage.getPhoto).not.toHaveBeenCalled();
+      expect(uploadEntryPhoto).not.toHaveBeenCalled();
+    });
 
-      const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
-      expect(body.entry.photo).toBeUndefined();
+    it("should not upload photos of other devices' entries", async () => {
+      mockGetState.mockReturnValue(photoSyncState);
+      mockFetch.mockResolvedValue(mockResponse({ success: true }));
+
+      await sendEntryToCloud(
+        createEntry({ photo: 'indexeddb', deviceId: 'dev_other' }),
+      );
+
+      expect(uploadEntryPhoto).not.toHaveBeenCalled();
     });
 
     it('should send entry without photo field when entry has no photo', async () => {
@@ -1159,22 +1171,31 @@ describe('Entry Sync Module', () => {
 
       const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
       expect(body.entry.photo).toBeUndefined();
+      expect(uploadEntryPhoto).not.toHaveBeenCalled();
     });
 
-    // photoSkipped warning
-
-    it('should show warning toast when photoSkipped flag is set', async () => {
+    it('should keep batch entries queued when their photo upload fails', async () => {
+      mockGetState.mockReturnValue(photoSyncState);
+      const withPhoto = createEntry({ photo: 'indexeddb' });
+      const plain = createEntry();
       mockFetch.mockResolvedValue(
-        mockResponse({ success: true, photoSkipped: true }),
+        mockResponse({
+          results: [
+            { entryId: withPhoto.id, success: true },
+            { entryId: plain.id, success: true },
+          ],
+        }),
       );
+      vi.mocked(uploadEntryPhoto).mockResolvedValue('failed');
 
-      const entry = createEntry();
-      await sendEntryToCloud(entry);
+      const results = await sendEntriesToCloudBatch([withPhoto, plain]);
 
-      expect(mockCallbacks.showToast).toHaveBeenCalledWith(
-        'photoTooLarge',
-        'warning',
-      );
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body as string);
+      expect(body.entries[0].photo).toBeUndefined();
+      expect(results.get(withPhoto.id)).toBe(false);
+      expect(results.get(plain.id)).toBe(true);
+      expect(mockRemoveFromSyncQueue).toHaveBeenCalledTimes(1);
+      expect(mockRemoveFromSyncQueue).toHaveBeenCalledWith(plain.id);
     });
 
     // Cross-device duplicate warning
@@ -1383,158 +1404,71 @@ describe('Entry Sync Module', () => {
   // =========================================================================
 
   describe('processCloudPhotos (via fetchCloudEntries)', () => {
-    it('should save full photo data to IndexedDB when syncPhotos enabled', async () => {
-      mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: true },
-      });
-
-      const entryWithPhoto = createEntry({
-        photo: 'data:image/jpeg;base64,/9j/long-enough-photo-data-here',
-      });
-
+    const fetchWith = (entry: Record<string, unknown>) =>
       mockFetch.mockResolvedValue(
         mockResponse({
-          entries: [entryWithPhoto],
+          entries: [entry],
           lastUpdated: Date.now(),
           deletedIds: [],
         }),
       );
 
-      await fetchCloudEntries();
+    it('should mark cloud photos for download when syncPhotos enabled', async () => {
+      mockGetState.mockReturnValue({
+        ...baseState,
+        settings: { ...baseState.settings, syncPhotos: true },
+      });
+      const entry = createEntry();
+      fetchWith({ ...entry, hasPhoto: true });
 
-      expect(photoStorage.savePhoto).toHaveBeenCalledWith(
-        entryWithPhoto.id,
-        entryWithPhoto.photo,
-      );
+      await fetchCloudEntries();
 
-      // mergeCloudEntries should receive the entry with 'indexeddb' marker
+      expect(photoStorage.savePhoto).not.toHaveBeenCalled();
       const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
-      expect(mergedEntries?.[0]?.photo).toBe('indexeddb');
+      expect(mergedEntries?.[0]?.photo).toBe('cloud');
+      expect(mergedEntries?.[0]).not.toHaveProperty('hasPhoto');
     });
 
-    it('should skip download when photo is already cached', async () => {
+    it('should use the indexeddb marker when the photo is already cached', async () => {
       mockGetState.mockReturnValue({
         ...baseState,
         settings: { ...baseState.settings, syncPhotos: true },
       });
-
       (photoStorage.hasPhoto as ReturnType<typeof vi.fn>).mockResolvedValue(
         true,
       );
-
-      const entryWithPhoto = createEntry({
-        photo: 'data:image/jpeg;base64,/9j/some-photo-data-that-is-long',
-      });
-
-      mockFetch.mockResolvedValue(
-        mockResponse({
-          entries: [entryWithPhoto],
-          lastUpdated: Date.now(),
-          deletedIds: [],
-        }),
-      );
+      const entry = createEntry();
+      fetchWith({ ...entry, hasPhoto: true });
 
       await fetchCloudEntries();
 
-      // Should check if cached
-      expect(photoStorage.hasPhoto).toHaveBeenCalledWith(entryWithPhoto.id);
-      // Should NOT save (already cached)
-      expect(photoStorage.savePhoto).not.toHaveBeenCalled();
-      // Should still set marker
+      expect(photoStorage.hasPhoto).toHaveBeenCalledWith(entry.id);
       const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
       expect(mergedEntries?.[0]?.photo).toBe('indexeddb');
     });
 
-    it('should discard photo when syncPhotos is disabled', async () => {
-      mockGetState.mockReturnValue({
-        ...baseState,
-        settings: { ...baseState.settings, syncPhotos: false },
-      });
-
-      const entryWithPhoto = createEntry({
-        photo: 'data:image/jpeg;base64,/9j/long-enough-photo-data-here',
-      });
-
-      mockFetch.mockResolvedValue(
-        mockResponse({
-          entries: [entryWithPhoto],
-          lastUpdated: Date.now(),
-          deletedIds: [],
-        }),
-      );
+    it('should drop photos when syncPhotos is disabled', async () => {
+      fetchWith({ ...createEntry(), hasPhoto: true });
 
       await fetchCloudEntries();
 
-      expect(photoStorage.savePhoto).not.toHaveBeenCalled();
-
+      expect(photoStorage.hasPhoto).not.toHaveBeenCalled();
       const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
       expect(mergedEntries?.[0]?.photo).toBeUndefined();
     });
 
-    it('should clear photo when IndexedDB save fails', async () => {
+    it('should leave entries without photos without a marker', async () => {
       mockGetState.mockReturnValue({
         ...baseState,
         settings: { ...baseState.settings, syncPhotos: true },
       });
-
-      (photoStorage.savePhoto as ReturnType<typeof vi.fn>).mockResolvedValue(
-        false,
-      );
-
-      const entryWithPhoto = createEntry({
-        photo: 'data:image/jpeg;base64,/9j/long-enough-photo-data-here',
-      });
-
-      mockFetch.mockResolvedValue(
-        mockResponse({
-          entries: [entryWithPhoto],
-          lastUpdated: Date.now(),
-          deletedIds: [],
-        }),
-      );
+      fetchWith(createEntry({ photo: 'indexeddb' }));
 
       await fetchCloudEntries();
 
       const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
       expect(mergedEntries?.[0]?.photo).toBeUndefined();
     });
-
-    it('should pass through entries without photos unchanged', async () => {
-      const entryNoPhoto = createEntry({ photo: undefined });
-
-      mockFetch.mockResolvedValue(
-        mockResponse({
-          entries: [entryNoPhoto],
-          lastUpdated: Date.now(),
-          deletedIds: [],
-        }),
-      );
-
-      await fetchCloudEntries();
-
-      expect(photoStorage.savePhoto).not.toHaveBeenCalled();
-
-      const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
-      expect(mergedEntries?.[0]?.photo).toBeUndefined();
-    });
-
-    it('should pass through entries with indexeddb marker unchanged', async () => {
-      const entryWithMarker = createEntry({ photo: 'indexeddb' });
-
-      mockFetch.mockResolvedValue(
-        mockResponse({
-          entries: [entryWithMarker],
-          lastUpdated: Date.now(),
-          deletedIds: [],
-        }),
-      );
-
-      await fetchCloudEntries();
-
-      const mergedEntries = mockMergeCloudEntries.mock.calls[0]?.[0];
-      expect(mergedEntries?.[0]?.photo).toBe('indexeddb');
-    });
   });
 
   // =========================================================================
@@ -1,7 +1,8 @@
 /**
  * Unit Tests for Fault Sync Module
  * Tests: initializeFaultSync, fetchCloudFaults, sendFaultToCloud,
- *        deleteFaultFromCloudApi, pushLocalFaults, getOtherGateAssignments, cleanupFaultSync
+ *        deleteFaultFromCloudApi, pushLocalFaults, getOtherGateAssignments,
+ *        getGateCoverage, cleanupFaultSync
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -50,6 +51,7 @@ import {
   cleanupFaultSync,
   deleteFaultFromCloudApi,
   fetchCloudFaults,
+  getGateCoverage,
   getOtherGateAssignments,
   initializeFaultSync,
   pushLocalFaults,
@@ -138,6 +140,46 @@ describe('Fault Sync Module', () => {
       expect(mockFetch).toHaveBeenCalled();
     });
 
+    it('should keep the gate coverage from the response', async () => {
+      const gateCoverage = {
+        gateCount: 20,
+        gaps: [{ gateStart: 11, gateEnd: 20 }],
+        overlaps: [{ gateStart: 5, gateEnd: 6, deviceIds: ['a', 'b'] }],
+      };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            faults: [],
+            deletedIds: [],
+            gateAssignments: [],
+            gateCoverage,
+          }),
+      });
+
+      await fetchCloudFaults();
+      expect(getGateCoverage()).toEqual(gateCoverage);
+
+      cleanupFaultSync();
+      expect(getGateCoverage()).toBeNull();
+    });
+
+    it('should ignore malformed gate coverage', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            faults: [],
+            deletedIds: [],
+            gateAssignments: [],
+            gateCoverage: { gateCount: 20, gaps: 'none', overlaps: [] },
+          }),
+      });
+
+      await fetchCloudFaults();
+      expect(getGateCoverage()).toBeNull();
+    });
+
     it('should merge cloud faults into store', async () => {
       const cloudFaults = [
         {
@@ -0,0 +1,193 @@
+/**
+ * Unit Tests for Live Stream Module
+ * Tests: parseSseMessage, event dispatch, connect/disconnect callbacks,
+ *        reconnect after server close and backoff after failures
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../../src/store', () => ({
+  store: {
+    getState: () => ({
+      settings: { sync: true },
+      raceId: 'RACE001',
+      deviceId: 'dev_1',
+      deviceName: 'Timer 1',
+    }),
+  },
+}));
+
+vi.mock('../../../../src/services/auth', () => ({
+  getAuthHeaders: () => ({ Authorization: 'Bearer token' }),
+}));
+
+vi.mock('../../../../src/services/sync/clockSync', () => ({
+  getClockReportParams: () => ({ clockSource: 'gps', clockTime: '1000' }),
+}));
+
+import {
+  liveStream,
+  parseSseMessage,
+} from '../../../../src/services/sync/liveStream';
+
+const mockFetch = vi.fn();
+Object.defineProperty(globalThis, 'fetch', {
+  value: mockFetch,
+  writable: true,
+});
+
+/** Controllable SSE response: push chunks, then close */
+function createStreamResponse() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  const encoder = new TextEncoder();
+  return {
+    response: {
+      ok: true,
+      status: 200,
+      headers: { get: () => 'text/event-stream; charset=utf-8' },
+      body,
+    },
+    push: (text: string) => controller.enqueue(encoder.encode(text)),
+    close: () => controller.close(),
+  };
+}
+
+describe('parseSseMessage', () => {
+  it('should parse event name and data', () => {
+    expect(parseSseMessage('event: entry\ndata: {"id":"e1"}')).toEqual({
+      event: 'entry',
+      data: '{"id":"e1"}',
+    });
+  });
+
+  it('should ignore comment-only blocks (heartbeats)', () => {
+    expect(parseSseMessage(': ping')).toBeNull();
+    expect(parseSseMessage('retry: 3000')).toBeNull();
+  });
+});
+
+describe('Live Stream Module', () => {
+  const callbacks = {
+    onEvent: vi.fn(),
+    onConnected: vi.fn(),
+    onDisconnected: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockReset();
+    liveStream.initialize(callbacks);
+  });
+
+  afterEach(() => {
+    liveStream.cleanup();
+    vi.useRealTimers();
+  });
+
+  it('should connect with auth header and report connected', async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValue(stream.response);
+
+    liveStream.start();
+    await vi.waitFor(() => expect(callbacks.onConnected).toHaveBeenCalled());
+
+    const [url, options] = mockFetch.mock.calls[0]!;
+    expect(url).toContain('/api/v1/stream?raceId=RACE001');
+    expect(url).toContain('deviceId=dev_1');
+    expect(url).toContain('clockSource=gps&clockTime=1000');
+    expect(options.headers).toMatchObject({
+      Accept: 'text/event-stream',
+      Authorization: 'Bearer token',
+    });
+    expect(liveStream.isConnected()).toBe(true);
+  });
+
+  it('should dispatch race events split across chunks', async () => {
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValue(stream.response);
+
+    liveStream.start();
+    await vi.waitFor(() => expect(callbacks.onConnected).toHaveBeenCalled());
+
+    stream.push('event: ready\ndata: {"deviceCount":3}\n\n: ping\n\nevent: en');
+    stream.push('try\ndata: {"type":"entry","deviceId":"dev_2","id":"e1"}\n\n');
+
+    await vi.waitFor(() => expect(callbacks.onEvent).toHaveBeenCalledTimes(2));
+    expect(callbacks.onEvent).toHaveBeenNthCalledWith(1, {
+      type: 'presence',
+      deviceCount: 3,
+    });
+    expect(callbacks.onEvent).toHaveBeenNthCalledWith(2, {
+      type: 'entry',
+      deviceId: 'dev_2',
+      id: 'e1',
+    });
+  });
+
+  it('should report disconnect and back off when the stream fails', async () => {
+    vi.useFakeTimers();
+    mockFetch.mockRejectedValue(new Error('Network error'));
+
+    liveStream.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callbacks.onDisconnected).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    // First retry after 5s, second after a further 10s
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should treat non-stream responses as failures', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => 'text/html' },
+      body: {},
+    });
+
+    liveStream.start();
+    await vi.waitFor(() => expect(callbacks.onDisconnected).toHaveBeenCalled());
+    expect(callbacks.onConnected).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect without falling back when the server closes the stream', async () => {
+    const first = createStreamResponse();
+    const second = createStreamResponse();
+    mockFetch
+      .mockResolvedValueOnce(first.response)
+      .mockResolvedValueOnce(second.response);
+
+    liveStream.start();
+    await vi.waitFor(() => expect(callbacks.onConnected).toHaveBeenCalled());
+
+    first.close();
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    expect(callbacks.onDisconnected).not.toHaveBeenCalled();
+  });
+
+  it('should not reconnect after stop', async () => {
+    vi.useFakeTimers();
+    const stream = createStreamResponse();
+    mockFetch.mockResolvedValue(stream.response);
+
+    liveStream.start();
+    await vi.advanceTimersByTimeAsync(0);
+    liveStream.stop();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(callbacks.onDisconnected).not.toHaveBeenCalled();
+    expect(liveStream.isConnected()).toBe(false);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Unit Tests for Photo Sync Module
+ * Tests: uploadEntryPhoto, fetchEntryPhoto, deleteEntryPhotoFromCloud
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { createEntry } from '../../../helpers/factories';
+
+// ---------------------------------------------------------------------------
+// Mocks (must be declared before the module-under-test import)
+// ---------------------------------------------------------------------------
+
+const mockGetState = vi.fn();
+
+vi.mock('../../../../src/store', () => ({
+  store: {
+    getState: () => mockGetState(),
+  },
+}));
+
+vi.mock('../../../../src/utils/errors', () => ({
+  fetchWithTimeout: vi.fn(),
+}));
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/services/auth', () => ({
+  getAuthHeaders: vi.fn(() => ({ Authorization: 'Bearer test-token' })),
+}));
+
+vi.mock('../../../../src/services/photoStorage', () => ({
+  photoStorage: {
+    getPhoto: vi.fn(() => Promise.resolve(null)),
+    savePhoto: vi.fn(() => Promise.resolve(true)),
+    getThumbnail: vi.fn(() => Promise.resolve(null)),
+    saveThumbnail: vi.fn(() => Promise.resolve(true)),
+  },
+}));
+
+vi.mock('../../../../src/services/sync/types', () => ({
+  PHOTOS_API_BASE: 'https://test.api/v1/photos',
+  FETCH_TIMEOUT_HIGH_LATENCY: 15000,
+}));
+
+import { photoStorage } from '../../../../src/services/photoStorage';
+import {
+  deleteEntryPhotoFromCloud,
+  fetchEntryPhoto,
+  uploadEntryPhoto,
+} from '../../../../src/services/sync/photoSync';
+import { fetchWithTimeout } from '../../../../src/utils/errors';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const mockFetch = fetchWithTimeout as ReturnType<typeof vi.fn>;
+
+const mockResponse = (data: unknown, ok = true, status = 200) => ({
+  ok,
+  status,
+  json: () => Promise.resolve(data),
+});
+
+const baseState = {
+  settings: { sync: true, syncPhotos: true },
+  raceId: 'test-race',
+  deviceId: 'dev_test',
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Photo Sync Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetState.mockReturnValue({ ...baseState });
+    vi.mocked(photoStorage.getPhoto).mockResolvedValue(null);
+    vi.mocked(photoStorage.getThumbnail).mockResolvedValue(null);
+  });
+
+  describe('uploadEntryPhoto', () => {
+    it('should upload the stored photo as a JPEG data URL', async () => {
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('/9j/photo');
+      mockFetch.mockResolvedValue(
+        mockResponse({ success: true, thumbnail: 'data:image/jpeg;base64,t' }),
+      );
+      const entry = createEntry({ photo: 'indexeddb' });
+
+      expect(await uploadEntryPhoto(entry)).toBe('uploaded');
+
+      const [url, init] = mockFetch.mock.calls[0]!;
+      expect(url).toBe('https://test.api/v1/photos?raceId=test-race');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({
+        entryId: entry.id,
+        deviceId: 'dev_test',
+        photo: 'data:image/jpeg;base64,/9j/photo',
+      });
+    });
+
+    it('should cache the returned thumbnail', async () => {
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('/9j/photo');
+      mockFetch.mockResolvedValue(
+        mockResponse({ success: true, thumbnail: 'data:image/jpeg;base64,t' }),
+      );
+      const entry = createEntry({ photo: 'indexeddb' });
+
+      await uploadEntryPhoto(entry);
+
+      expect(photoStorage.saveThumbnail).toHaveBeenCalledWith(
+        entry.id,
+        'data:image/jpeg;base64,t',
+      );
+    });
+
+    it('should not upload when there is no stored photo', async () => {
+      expect(await uploadEntryPhoto(createEntry())).toBe('rejected');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should report photos the server refuses', async () => {
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('/9j/photo');
+
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 413));
+      expect(await uploadEntryPhoto(createEntry())).toBe('tooLarge');
+
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 400));
+      expect(await uploadEntryPhoto(createEntry())).toBe('rejected');
+    });
+
+    it('should report failures worth retrying', async () => {
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('/9j/photo');
+
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 429));
+      expect(await uploadEntryPhoto(createEntry())).toBe('failed');
+
+      mockFetch.mockRejectedValueOnce(new Error('Failed to fetch'));
+      expect(await uploadEntryPhoto(createEntry())).toBe('failed');
+    });
+  });
+
+  describe('fetchEntryPhoto', () => {
+    it('should return a cached photo without downloading', async () => {
+      vi.mocked(photoStorage.getPhoto).mockResolvedValue('/9j/cached');
+
+      expect(await fetchEntryPhoto(createEntry(), 'full')).toBe('/9j/cached');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should download and cache a full-size photo as raw base64', async () => {
+      mockFetch.mockResolvedValue(
+        mockResponse({ photo: 'data:image/jpeg;base64,/9j/full' }),
+      );
+      const entry = createEntry({ id: 'e1', deviceId: 'dev_other' });
+
+      expect(await fetchEntryPhoto(entry, 'full')).toBe('/9j/full');
+
+      const url = new URL(mockFetch.mock.calls[0]![0], 'https://test.api');
+      expect(url.searchParams.get('entryId')).toBe('e1');
+      expect(url.searchParams.get('deviceId')).toBe('dev_other');
+      expect(url.searchParams.get('size')).toBe('full');
+      expect(photoStorage.savePhoto).toHaveBeenCalledWith('e1', '/9j/full');
+    });
+
+    it('should download and cache a thumbnail as a data URL', async () => {
+      mockFetch.mockResolvedValue(
+        mockResponse({ photo: 'data:image/jpeg;base64,thumb' }),
+      );
+      const entry = createEntry({ id: 'e1' });
+
+      expect(await fetchEntryPhoto(entry, 'thumbnail')).toBe(
+        'data:image/jpeg;base64,thumb',
+      );
+      expect(photoStorage.saveThumbnail).toHaveBeenCalledWith(
+        'e1',
+        'data:image/jpeg;base64,thumb',
+      );
+    });
+
+    it('should not download when photo sync is disabled', async () => {
+      mockGetState.mockReturnValue({
+        ...baseState,
+        settings: { sync: true, syncPhotos: false },
+      });
+
+      expect(await fetchEntryPhoto(createEntry(), 'thumbnail')).toBeNull();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should return null when the photo is missing or unreachable', async () => {
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 404));
+      expect(await fetchEntryPhoto(createEntry(), 'full')).toBeNull();
+
+      mockFetch.mockRejectedValueOnce(new Error('Failed to fetch'));
+      expect(await fetchEntryPhoto(createEntry(), 'full')).toBeNull();
+      expect(photoStorage.savePhoto).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteEntryPhotoFromCloud', () => {
+    it("should delete the entry's photo", async () => {
+      mockFetch.mockResolvedValue(mockResponse({ success: true }));
+      const entry = createEntry({ id: 'e1' });
+
+      expect(await deleteEntryPhotoFromCloud(entry)).toBe(true);
+
+      const [, init] = mockFetch.mock.calls[0]!;
+      expect(init.method).toBe('DELETE');
+      expect(JSON.parse(init.body)).toEqual({
+        entryId: 'e1',
+        deviceId: 'dev_test',
+      });
+    });
+
+    it('should return false when sync is off or the request fails', async () => {
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 500));
+      expect(await deleteEntryPhotoFromCloud(createEntry())).toBe(false);
+
+      mockGetState.mockReturnValue({
+        ...baseState,
+        settings: { sync: false, syncPhotos: true },
+      });
+      expect(await deleteEntryPhotoFromCloud(createEntry())).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
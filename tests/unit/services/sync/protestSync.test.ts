@@ -0,0 +1,263 @@
+/**
+ * Unit Tests for Protest Sync Module
+ * Tests: fetchCloudProtests, sendProtestToCloud, sendProtestDecisionToCloud,
+ *        fetchProtestPhoto
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Protest } from '../../../../src/types';
+
+// ---------------------------------------------------------------------------
+// Mocks (must be declared before the module-under-test import)
+// ---------------------------------------------------------------------------
+
+const mockGetState = vi.fn();
+const mockSetProtests = vi.fn();
+
+vi.mock('../../../../src/store', () => ({
+  store: {
+    getState: () => mockGetState(),
+    setProtests: (...args: unknown[]) => mockSetProtests(...args),
+  },
+}));
+
+vi.mock('../../../../src/utils/errors', () => ({
+  fetchWithTimeout: vi.fn(),
+}));
+
+vi.mock('../../../../src/utils/logger', () => ({
+  logger: {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/services/auth', () => ({
+  getAuthHeaders: vi.fn(() => ({ Authorization: 'Bearer test-token' })),
+}));
+
+vi.mock('../../../../src/services/sync/types', () => ({
+  PROTESTS_API_BASE: 'https://test.api/v1/protests',
+  FETCH_TIMEOUT: 8000,
+  FETCH_TIMEOUT_HIGH_LATENCY: 15000,
+}));
+
+import {
+  fetchCloudProtests,
+  fetchProtestPhoto,
+  sendProtestDecisionToCloud,
+  sendProtestToCloud,
+} from '../../../../src/services/sync/protestSync';
+import { fetchWithTimeout } from '../../../../src/utils/errors';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const mockFetch = fetchWithTimeout as ReturnType<typeof vi.fn>;
+
+const mockResponse = (data: unknown, ok = true, status = 200) => ({
+  ok,
+  status,
+  json: () => Promise.resolve(data),
+});
+
+const protest: Protest = {
+  id: 'protest_1',
+  bib: '042',
+  run: 1,
+  targetType: 'entry',
+  targetId: 'entry_1',
+  currentStatus: 'dnf',
+  requestedStatus: 'ok',
+  filedBy: 'Coach',
+  filedAt: '2026-01-15T11:00:00.000Z',
+  reason: 'Finish beam missed the racer',
+  photoCount: 1,
+  recordedBy: 'Chief',
+  recordedByDeviceId: 'dev_chief',
+};
+
+const decided: Protest = {
+  ...protest,
+  decision: {
+    outcome: 'upheld',
+    votesFor: 3,
+    votesAgainst: 0,
+    abstentions: 0,
+    rationale: 'Video shows the finish',
+    decidedAt: '2026-01-15T12:00:00.000Z',
+    decidedBy: 'Chief',
+  },
+};
+
+const baseState = {
+  settings: { sync: true },
+  raceId: 'test-race',
+  deviceId: 'dev_chief',
+  deviceName: 'Chief',
+  protests: [] as Protest[],
+};
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('Protest Sync Module', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetState.mockReturnValue({ ...baseState });
+  });
+
+  describe('fetchCloudProtests', () => {
+    it('should store the valid protests of the race', async () => {
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ protests: [protest, { id: 'broken' }] }),
+      );
+
+      await fetchCloudProtests();
+
+      expect(mockFetch.mock.calls[0]![0]).toBe(
+        'https://test.api/v1/protests?raceId=test-race',
+      );
+      expect(mockSetProtests).toHaveBeenCalledWith([protest]);
+    });
+
+    it('should discard the result when the race changed meanwhile', async () => {
+      mockFetch.mockImplementationOnce(async () => {
+        mockGetState.mockReturnValue({ ...baseState, raceId: 'other-race' });
+        return mockResponse({ protests: [protest] });
+      });
+
+      await fetchCloudProtests();
+
+      expect(mockSetProtests).not.toHaveBeenCalled();
+    });
+
+    it('should not fetch without sync', async () => {
+      mockGetState.mockReturnValue({ ...baseState, settings: { sync: false } });
+
+      await fetchCloudProtests();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendProtestToCloud', () => {
+    it('should send the protest input with its photos', async () => {
+      mockFetch.mockResolvedValueOnce(mockResponse({ success: true, protest }));
+
+      const result = await sendProtestToCloud(protest, [
+        'data:image/jpeg;base64,abc',
+      ]);
+
+      expect(result).toEqual(protest);
+      const [url, init, timeout] = mockFetch.mock.calls[0]!;
+      expect(url).toBe('https://test.api/v1/protests?raceId=test-race');
+      expect(init.method).toBe('POST');
+      expect(timeout).toBe(15000);
+      const body = JSON.parse(init.body);
+      expect(body.photos).toEqual(['data:image/jpeg;base64,abc']);
+      expect(body.deviceName).toBe('Chief');
+      // Server-assigned fields are not sent
+      expect(body.protest.photoCount).toBeUndefined();
+      expect(body.protest.recordedBy).toBeUndefined();
+      expect(body.protest.requestedStatus).toBe('ok');
+      expect(mockSetProtests).toHaveBeenCalledWith([protest]);
+    });
+
+    it('should return null when the cloud rejects the protest', async () => {
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ error: 'deadline' }, false, 409),
+      );
+
+      expect(await sendProtestToCloud(protest, [])).toBeNull();
+      expect(mockSetProtests).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendProtestDecisionToCloud', () => {
+    it('should send the vote and replace the stored protest', async () => {
+      mockGetState.mockReturnValue({ ...baseState, protests: [protest] });
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ success: true, protest: decided, applied: true }),
+      );
+
+      const result = await sendProtestDecisionToCloud('protest_1', {
+        outcome: 'upheld',
+        votesFor: 3,
+        votesAgainst: 0,
+        abstentions: 0,
+        rationale: 'Video shows the finish',
+      });
+
+      expect(result).toEqual({ protest: decided, applied: true });
+      const init = mockFetch.mock.calls[0]![1];
+      expect(init.method).toBe('PUT');
+      expect(JSON.parse(init.body)).toEqual({
+        protestId: 'protest_1',
+        outcome: 'upheld',
+        votesFor: 3,
+        votesAgainst: 0,
+        abstentions: 0,
+        rationale: 'Video shows the finish',
+        deviceId: 'dev_chief',
+        deviceName: 'Chief',
+      });
+      expect(mockSetProtests).toHaveBeenCalledWith([decided]);
+    });
+
+    it('should report an upheld protest the server could not apply', async () => {
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ success: true, protest: decided, applied: false }),
+      );
+
+      const result = await sendProtestDecisionToCloud('protest_1', {
+        outcome: 'upheld',
+        votesFor: 3,
+        votesAgainst: 0,
+        abstentions: 0,
+        rationale: 'Video shows the finish',
+      });
+
+      expect(result).toEqual({ protest: decided, applied: false });
+    });
+
+    it('should return null when the protest was already decided', async () => {
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ error: 'Protest already decided' }, false, 409),
+      );
+
+      const result = await sendProtestDecisionToCloud('protest_1', {
+        outcome: 'rejected',
+        votesFor: 0,
+        votesAgainst: 3,
+        abstentions: 0,
+        rationale: 'No evidence',
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('fetchProtestPhoto', () => {
+    it('should download an evidence photo', async () => {
+      mockFetch.mockResolvedValueOnce(
+        mockResponse({ protestId: 'protest_1', photo: 'data:image/jpeg;x' }),
+      );
+
+      expect(await fetchProtestPhoto('protest_1', 0)).toBe('data:image/jpeg;x');
+      expect(mockFetch.mock.calls[0]![0]).toBe(
+        'https://test.api/v1/protests?raceId=test-race&protestId=protest_1&photo=0',
+      );
+    });
+
+    it('should return null for a missing photo', async () => {
+      mockFetch.mockResolvedValueOnce(mockResponse({}, false, 404));
+
+      expect(await fetchProtestPhoto('protest_1', 2)).toBeNull();
+    });
+  });
+});
@@ -211,7 +211,7 @@ describe('Voice Mode Service - Full Coverage', () => {
       expect(mockRecognition.start).toHaveBeenCalled();
     });
 
-    it('should return false when offline', async () => {
+    it('should start listening when offline', async () => {
       Object.defineProperty(navigator, 'onLine', {
         value: false,
         writable: true,
@@ -225,7 +225,8 @@ describe('Voice Mode Service - Full Coverage', () => {
         model: 'gpt-4',
       });
       const result = service.enable();
-      expect(result).toBe(false);
+      expect(result).toBe(true);
+      expect(mockRecognition.start).toHaveBeenCalled();
     });
 
     it('should handle start failure gracefully', async () => {
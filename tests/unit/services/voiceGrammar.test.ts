@@ -0,0 +1,261 @@
+/**
+ * Unit Tests for the Voice Grammar
+ * Tests: number words (EN/DE/FR), fault commands with bib/gate inference,
+ * run/ready/confirm/cancel commands, timer commands, confidence scoring
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../src/i18n/translations', () => ({
+  t: vi.fn((key: string) =>
+    key === 'voiceConfirmFault' ? 'Bib {bib}, gate {gate}, {fault}?' : key,
+  ),
+}));
+
+import {
+  GRAMMAR_CONFIDENCE_THRESHOLD,
+  parseVoiceCommand,
+} from '../../../src/services/voiceGrammar';
+import type { VoiceContext } from '../../../src/types';
+
+const judge: VoiceContext = {
+  role: 'gateJudge',
+  language: 'en',
+  currentRun: 1,
+};
+
+const timer: VoiceContext = {
+  role: 'timer',
+  language: 'en',
+  currentRun: 1,
+};
+
+function bibOf(transcript: string, context = timer): string | undefined {
+  return parseVoiceCommand(transcript, context).params?.bib;
+}
+
+describe('Voice Grammar', () => {
+  describe('number words', () => {
+    it.each([
+      ['bib 45', '045'],
+      ['bib forty-five', '045'],
+      ['bib one hundred and five', '105'],
+      ['bib hundred twelve', '112'],
+      ['Startnummer fünfundvierzig', '045'],
+      ['Startnummer zweihundertdreiundzwanzig', '223'],
+      ['Startnummer hundertfünf', '105'],
+      ['Startnummer fünf und vierzig', '045'],
+      ['dossard vingt et un', '021'],
+      ['dossard dix-sept', '017'],
+      ['dossard soixante-douze', '072'],
+      ['dossard quatre-vingt-dix-neuf', '099'],
+      ['dossard deux cent trente', '230'],
+    ])('should read "%s" as bib %s', (transcript, bib) => {
+      expect(bibOf(transcript)).toBe(bib);
+    });
+
+    it('should reject bibs outside 1-999', () => {
+      expect(parseVoiceCommand('bib 1000', timer).action).toBe('unknown');
+      expect(parseVoiceCommand('bib zero', timer).action).toBe('unknown');
+    });
+  });
+
+  describe('fault commands', () => {
+    it('should parse a fully spoken fault with a confirmation prompt', () => {
+      const intent = parseVoiceCommand(
+        'Bib forty five, gate twelve, straddled',
+        judge,
+      );
+
+      expect(intent).toEqual({
+        action: 'record_fault',
+        confidence: 0.95,
+        params: { bib: '045', gate: 12, faultType: 'STR' },
+        confirmationNeeded: true,
+        confirmationPrompt: 'Bib 45, gate 12, faultSTR?',
+      });
+    });
+
+    it.each([
+      ['Startnummer 7 Tor 3 eingefädelt', 'STR'],
+      ['Startnummer sieben, Tor drei, ausgelassen', 'MG'],
+      ['Dossard sept, porte trois, enfourchement', 'STR'],
+      ['dossard 7 porte 3 déchaussage', 'BR'],
+      ['bib 7 missed gate 3', 'MG'],
+      ['bib 7 gate number 3 binding release', 'BR'],
+    ])('should parse "%s"', (transcript, faultType) => {
+      const intent = parseVoiceCommand(transcript, judge);
+      expect(intent.action).toBe('record_fault');
+      expect(intent.params).toEqual({ bib: '007', gate: 3, faultType });
+      expect(intent.confidence).toBeGreaterThanOrEqual(
+        GRAMMAR_CONFIDENCE_THRESHOLD,
+      );
+    });
+
+    it('should infer the bib from a number without keyword', () => {
+      const intent = parseVoiceCommand('45 gate 12 straddled', judge);
+      expect(intent.params).toEqual({ bib: '045', gate: 12, faultType: 'STR' });
+      expect(intent.confidence).toBe(0.85);
+    });
+
+    it('should leave two bare numbers to the LLM', () => {
+      const intent = parseVoiceCommand('45 12 straddled', judge);
+      expect(intent.action).toBe('record_fault');
+      expect(intent.params).toMatchObject({ bib: '045', gate: 12 });
+      expect(intent.confidence).toBeLessThan(GRAMMAR_CONFIDENCE_THRESHOLD);
+    });
+
+    it('should lower confidence for bibs not on course and foreign gates', () => {
+      const intent = parseVoiceCommand('bib 45 gate 12 missed', {
+        ...judge,
+        activeBibs: ['007'],
+        gateRange: [1, 10],
+      });
+      expect(intent.confidence).toBeLessThan(GRAMMAR_CONFIDENCE_THRESHOLD);
+    });
+
+    it('should not guess a fault without gate or with two fault types', () => {
+      expect(parseVoiceCommand('bib 45 straddled', judge).action).toBe(
+        'unknown',
+      );
+      expect(
+        parseVoiceCommand('bib 45 gate 3 straddled missed', judge).action,
+      ).toBe('unknown');
+    });
+
+    it('should not record faults for timers', () => {
+      expect(
+        parseVoiceCommand('bib 45 gate 12 straddled', timer).action,
+      ).not.toBe('record_fault');
+    });
+  });
+
+  describe('other commands', () => {
+    it.each([
+      ['run two', 2],
+      ['second run', 2],
+      ['zweiter Lauf', 2],
+      ['Lauf 1', 1],
+      ['deuxième manche', 2],
+      ['manche un', 1],
+    ])('should parse "%s" as run %i', (transcript, run) => {
+      expect(parseVoiceCommand(transcript, judge)).toMatchObject({
+        action: 'set_run',
+        confidence: 0.95,
+        params: { run },
+      });
+    });
+
+    it.each([
+      'ready',
+      'Bereit',
+      'fertig',
+      'prêt',
+    ])('should parse "%s" as toggle_ready for gate judges', (transcript) => {
+      expect(parseVoiceCommand(transcript, judge).action).toBe('toggle_ready');
+    });
+
+    it.each([
+      'yes',
+      'Ja, richtig',
+      "d'accord",
+      'oui',
+    ])('should parse "%s" as confirm', (transcript) => {
+      expect(parseVoiceCommand(transcript, judge)).toMatchObject({
+        action: 'confirm',
+        confidence: 0.95,
+      });
+    });
+
+    it.each([
+      'no',
+      'Nein, falsch',
+      'annuler',
+    ])('should parse "%s" as cancel', (transcript) => {
+      expect(parseVoiceCommand(transcript, judge).action).toBe('cancel');
+    });
+
+    it('should parse a gate for gate judges', () => {
+      expect(parseVoiceCommand('Tor zwölf', judge)).toMatchObject({
+        action: 'set_gate',
+        params: { gate: 12 },
+      });
+    });
+
+    it('should parse timing points and bare bibs for timers', () => {
+      expect(parseVoiceCommand('Ziel', timer)).toMatchObject({
+        action: 'set_point',
+        params: { point: 'F' },
+      });
+      expect(parseVoiceCommand('forty two', timer)).toMatchObject({
+        action: 'set_bib',
+        confidence: 0.85,
+        params: { bib: '042' },
+      });
+    });
+
+    it.each([
+      ['split one', 'I1'],
+      ['Zwischenzeit zwei', 'I2'],
+      ['second split', 'I2'],
+      ['intermédiaire 1', 'I1'],
+    ])('should parse "%s" as intermediate point %s', (transcript, point) => {
+      const context: VoiceContext = {
+        ...timer,
+        timingPoints: ['S', 'I1', 'I2', 'F'],
+      };
+      expect(parseVoiceCommand(transcript, context)).toMatchObject({
+        action: 'set_point',
+        confidence: 0.95,
+        params: { point },
+      });
+    });
+
+    it('should not turn a split point the race lacks into a bib', () => {
+      const context: VoiceContext = { ...timer, timingPoints: ['S', 'F'] };
+      expect(parseVoiceCommand('split one', context).action).toBe('unknown');
+      expect(parseVoiceCommand('zwischenzeit eins', timer).action).not.toBe(
+        'set_bib',
+      );
+      expect(parseVoiceCommand('split twelve', timer).action).toBe('unknown');
+      expect(parseVoiceCommand('split', timer).action).toBe('unknown');
+    });
+  });
+
+  describe('confidence', () => {
+    it('should return unknown with zero confidence for unrelated speech', () => {
+      expect(parseVoiceCommand('what a lovely day', judge)).toEqual({
+        action: 'unknown',
+        confidence: 0,
+        confirmationNeeded: false,
+      });
+      expect(parseVoiceCommand('', judge).confidence).toBe(0);
+    });
+
+    it('should ignore inherited object keys', () => {
+      expect(parseVoiceCommand('constructor', judge).action).toBe('unknown');
+    });
+
+    it('should lower confidence for words it did not understand', () => {
+      const intent = parseVoiceCommand('ready or maybe not', judge);
+      expect(intent.action).toBe('toggle_ready');
+      expect(intent.confidence).toBeLessThan(GRAMMAR_CONFIDENCE_THRESHOLD);
+    });
+
+    it.each([
+      ['fehler tor 7 startnummer 12', judge],
+      ['Tor sieben Lauf zwei', judge],
+      ['ready bib 45', judge],
+      ['run two gate 5', timer],
+      ['bib 12 gate 7 straddled run 2', judge],
+    ])('should leave "%s" to the LLM when a spoken slot goes unused', (transcript, context) => {
+      expect(parseVoiceCommand(transcript, context).confidence).toBeLessThan(
+        GRAMMAR_CONFIDENCE_THRESHOLD,
+      );
+    });
+
+    it('should not treat yes/no with numbers as an answer', () => {
+      expect(parseVoiceCommand('no, bib 45', timer).action).not.toBe('cancel');
+    });
+  });
+});
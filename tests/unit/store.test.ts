@@ -1,7 +1,7 @@
 /**
  * Unit Tests for Store (State Management)
  * Tests: initialization, CRUD operations, undo/redo, sync queue,
- *        UI state, settings, cloud merge, export/import
+ *        UI state, settings, timing points, cloud merge, export/import
  */
 
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
@@ -737,6 +737,297 @@ describe('Store', () => {
     });
   });
 
+  describe('Timing Points', () => {
+    it('should default to start and finish only', () => {
+      expect(store.getState().intermediatePoints).toBe(0);
+    });
+
+    it('should clamp the intermediate point count', () => {
+      store.setIntermediatePoints(3);
+      expect(store.getState().intermediatePoints).toBe(3);
+
+      store.setIntermediatePoints(42);
+      expect(store.getState().intermediatePoints).toBe(9);
+
+      store.setIntermediatePoints(-2);
+      expect(store.getState().intermediatePoints).toBe(0);
+    });
+
+    it('should fall back to finish when the selected point is removed', () => {
+      store.setIntermediatePoints(2);
+      store.setSelectedPoint('I2');
+
+      store.setIntermediatePoints(1);
+      expect(store.getState().selectedPoint).toBe('F');
+    });
+
+    it('should keep a selected point that still exists', () => {
+      store.setIntermediatePoints(2);
+      store.setSelectedPoint('I1');
+
+      store.setIntermediatePoints(1);
+      expect(store.getState().selectedPoint).toBe('I1');
+    });
+
+    it('should reset timing points when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setIntermediatePoints(2);
+      store.setSelectedPoint('I1');
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().intermediatePoints).toBe(0);
+      expect(store.getState().selectedPoint).toBe('F');
+    });
+
+    it('should persist the intermediate point count', () => {
+      store.setIntermediatePoints(4);
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerIntermediatePoints',
+        '4',
+      );
+    });
+  });
+
+  describe('Runs', () => {
+    it('should default to two runs', () => {
+      expect(store.getState().runCount).toBe(2);
+    });
+
+    it('should clamp the run count', () => {
+      store.setRunCount(4);
+      expect(store.getState().runCount).toBe(4);
+
+      store.setRunCount(42);
+      expect(store.getState().runCount).toBe(9);
+
+      store.setRunCount(0);
+      expect(store.getState().runCount).toBe(1);
+    });
+
+    it('should fall back to the last run when the selected run is removed', () => {
+      store.setRunCount(4);
+      store.setSelectedRun(4);
+
+      store.setRunCount(3);
+      expect(store.getState().selectedRun).toBe(3);
+    });
+
+    it('should reset the run count when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setRunCount(5);
+      store.setSelectedRun(5);
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().runCount).toBe(2);
+      expect(store.getState().selectedRun).toBe(2);
+    });
+
+    it('should persist the run count', () => {
+      store.setRunCount(3);
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerRunCount',
+        '3',
+      );
+    });
+  });
+
+  describe('Primary Devices', () => {
+    it('should set and clear the primary device of a point', () => {
+      store.setPrimaryDevice('F', 'dev_finish');
+      store.setPrimaryDevice('S', 'dev_start');
+      expect(store.getState().primaryDevices).toEqual({
+        S: 'dev_start',
+        F: 'dev_finish',
+      });
+
+      store.setPrimaryDevice('F', null);
+      expect(store.getState().primaryDevices).toEqual({ S: 'dev_start' });
+    });
+
+    it('should reset the primary devices when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setPrimaryDevice('F', 'dev_finish');
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().primaryDevices).toEqual({});
+    });
+
+    it('should persist the primary devices', () => {
+      store.setPrimaryDevices({ F: 'dev_finish' });
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerPrimaryDevices',
+        JSON.stringify({ F: 'dev_finish' }),
+      );
+    });
+  });
+
+  describe('Course Gates', () => {
+    const courseGates = [
+      { number: 1, color: 'red' as const, latitude: 47.1, longitude: 11.2 },
+    ];
+
+    it('should reset the course gates when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setCourseGates(courseGates);
+      expect(store.getState().courseGates).toEqual(courseGates);
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().courseGates).toEqual([]);
+    });
+
+    it('should persist the course gates', () => {
+      store.setCourseGates(courseGates);
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerCourseGates',
+        JSON.stringify(courseGates),
+      );
+    });
+  });
+
+  describe('Protests', () => {
+    const deadline = Date.parse('2026-01-15T12:00:00.000Z');
+
+    it('should set and clear the protest deadline of a run', () => {
+      store.setProtestDeadline(1, deadline);
+      store.setProtestDeadline(2, deadline + 3_600_000);
+      expect(store.getState().protestDeadlines).toEqual({
+        '1': deadline,
+        '2': deadline + 3_600_000,
+      });
+
+      store.setProtestDeadline(1, null);
+      expect(store.getState().protestDeadlines).toEqual({
+        '2': deadline + 3_600_000,
+      });
+    });
+
+    it('should reset deadlines and protests when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setProtestDeadline(1, deadline);
+      store.setProtests([
+        {
+          id: 'protest_1',
+          bib: '042',
+          run: 1,
+          targetType: 'entry',
+          targetId: 'entry_1',
+          requestedStatus: 'ok',
+          filedBy: 'Coach',
+          filedAt: '2026-01-15T11:00:00.000Z',
+          reason: 'Timing error',
+          photoCount: 0,
+          recordedBy: 'Chief',
+          recordedByDeviceId: 'dev_chief',
+        },
+      ]);
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().protestDeadlines).toEqual({});
+      expect(store.getState().protests).toEqual([]);
+    });
+
+    it('should persist the protest deadlines', () => {
+      store.setProtestDeadlines({ '1': deadline });
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerProtestDeadlines',
+        JSON.stringify({ '1': deadline }),
+      );
+    });
+  });
+
+  describe('Race Definition', () => {
+    const definition = {
+      name: 'Club Championship',
+      discipline: 'SL' as const,
+      gateCount: 55,
+      jury: [],
+      lastUpdated: 1000,
+    };
+
+    it('should limit gates to the race gate count', async () => {
+      const { $maxGate } = await import('../../src/store/index');
+      expect($maxGate.value).toBe(100);
+
+      store.setRaceDefinition(definition);
+      expect(store.getState().raceDefinition).toEqual(definition);
+      expect($maxGate.value).toBe(55);
+    });
+
+    it('should clear the definition when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setRaceDefinition(definition);
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().raceDefinition).toBeNull();
+    });
+
+    it('should persist the definition', () => {
+      store.setRaceDefinition(definition);
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerRaceDefinition',
+        JSON.stringify(definition),
+      );
+    });
+  });
+
+  describe('Start Order', () => {
+    const order = {
+      run: 1,
+      bibs: ['003', '001', '002'],
+      firstStart: 1_000_000,
+      intervalSeconds: 60,
+    };
+
+    it('should keep one start order per run', async () => {
+      const { $startOrder } = await import('../../src/store/index');
+      store.setStartOrder(order);
+      store.setStartOrder({ ...order, run: 2, bibs: ['002'] });
+      store.setStartOrder({ ...order, bibs: ['001'] });
+
+      expect(store.getState().startOrders).toHaveLength(2);
+      expect($startOrder.value?.bibs).toEqual(['001']);
+
+      store.setSelectedRun(2);
+      expect($startOrder.value?.bibs).toEqual(['002']);
+    });
+
+    it('should clear the start order of a run', () => {
+      store.setStartOrder(order);
+      store.clearStartOrder(1);
+      expect(store.getState().startOrders).toEqual([]);
+    });
+
+    it('should clear start orders when switching races', () => {
+      store.setRaceId('RACE-A');
+      store.setStartOrder(order);
+
+      store.setRaceId('RACE-B');
+      expect(store.getState().startOrders).toEqual([]);
+    });
+
+    it('should persist start orders', () => {
+      store.setStartOrder(order);
+      vi.advanceTimersByTime(150);
+
+      expect(localStorageMock.setItem).toHaveBeenCalledWith(
+        'skiTimerStartOrders',
+        JSON.stringify([order]),
+      );
+    });
+  });
+
   describe('GPS State', () => {
     it('should set GPS status', () => {
       store.setGpsStatus('searching');
@@ -1,6 +1,6 @@
 /**
  * Unit Tests for Entries Slice
- * Tests: CRUD operations, undo/redo, sync queue, cloud merge
+ * Tests: CRUD operations, edit versioning, undo/redo, sync queue, cloud merge
  */
 
 import { beforeEach, describe, expect, it } from 'vitest';
@@ -10,6 +10,7 @@ import {
   clearAll,
   deleteEntry,
   deleteMultiple,
+  editEntryWithHistory,
   mergeCloudEntries,
   pushUndo,
   redo,
@@ -1548,6 +1549,275 @@ describe('Entries Slice', () => {
     });
   });
 
+  // =========================================================================
+  // 11b. Edit versioning
+  // =========================================================================
+  describe('editEntryWithHistory', () => {
+    it('should record the original and the edit as versions', () => {
+      const entry = createEntry({
+        id: 'e1',
+        bib: '042',
+        status: 'ok',
+        deviceId: 'dev_a',
+        deviceName: 'Timer A',
+      });
+
+      const result = editEntryWithHistory(
+        [entry],
+        'e1',
+        { bib: '043', status: 'dnf' },
+        'Timer B',
+        'dev_b',
+        [],
+      );
+
+      expect(result).not.toBeNull();
+      expect(result!.entry).toMatchObject({
+        bib: '043',
+        status: 'dnf',
+        deviceId: 'dev_a',
+        currentVersion: 2,
+      });
+      expect(result!.entry.versionHistory).toHaveLength(2);
+      expect(result!.entry.versionHistory![0]).toMatchObject({
+        version: 1,
+        changeType: 'create',
+        editedBy: 'Timer A',
+        timestamp: entry.timestamp,
+        data: { bib: '042', status: 'ok', run: entry.run },
+      });
+      expect(result!.entry.versionHistory![1]).toMatchObject({
+        version: 2,
+        changeType: 'edit',
+        editedBy: 'Timer B',
+        editedByDeviceId: 'dev_b',
+        data: { bib: '043', status: 'dnf' },
+      });
+      expect(result!.entries[0]).toBe(result!.entry);
+      expect(result!.undoStack[0]!.type).toBe('UPDATE_ENTRY');
+    });
+
+    it('should append to an existing history', () => {
+      const first = editEntryWithHistory(
+        [createEntry({ id: 'e1', bib: '042' })],
+        'e1',
+        { bib: '043' },
+        'Timer A',
+        'dev_a',
+        [],
+      )!;
+      const second = editEntryWithHistory(
+        first.entries,
+        'e1',
+        { run: 2 },
+        'Timer A',
+        'dev_a',
+        first.undoStack,
+      )!;
+
+      expect(second.entry.currentVersion).toBe(3);
+      expect(second.entry.versionHistory!.map((v) => v.version)).toEqual([
+        1, 2, 3,
+      ]);
+      expect(second.entry.versionHistory![2]!.data).toEqual({
+        bib: '043',
+        status: 'ok',
+        run: 2,
+      });
+    });
+
+    it('should return null when nothing changed or the entry is missing', () => {
+      const entry = createEntry({ id: 'e1', bib: '042', status: 'ok' });
+
+      expect(
+        editEntryWithHistory(
+          [entry],
+          'e1',
+          { bib: '042', status: 'ok' },
+          'Timer A',
+          'dev_a',
+          [],
+        ),
+      ).toBeNull();
+      expect(
+        editEntryWithHistory(
+          [entry],
+          'missing',
+          { bib: '043' },
+          'Timer A',
+          'dev_a',
+          [],
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('mergeCloudEntries with versions', () => {
+    function editedCopy(entry: Entry, version: number, bib: string): Entry {
+      return {
+        ...entry,
+        bib,
+        status: 'dnf',
+        currentVersion: version,
+        versionHistory: [
+          {
+            version,
+            timestamp: '2024-01-15T10:05:00.000Z',
+            editedBy: 'Timer B',
+            editedByDeviceId: 'dev_b',
+            changeType: 'edit',
+            data: { bib, status: 'dnf', run: entry.run },
+          },
+        ],
+      };
+    }
+
+    it('should apply a newer cloud version of a known entry', () => {
+      const local = createEntry({
+        id: 'e1',
+        bib: '042',
+        deviceId: 'dev_a',
+        photo: 'indexeddb',
+      });
+      const cloud = editedCopy(local, 2, '043');
+
+      const result = mergeCloudEntries([local], [cloud], [], 'dev_local');
+
+      expect(result.addedCount).toBe(0);
+      expect(result.updatedCount).toBe(1);
+      expect(result.entries[0]).toMatchObject({
+        bib: '043',
+        status: 'dnf',
+        currentVersion: 2,
+        photo: 'indexeddb',
+      });
+      expect(result.entries[0]!.versionHistory).toHaveLength(1);
+    });
+
+    it("should keep the local photo marker of this device's entries", () => {
+      const local = createEntry({
+        id: 'e1',
+        deviceId: 'dev_local',
+        photo: 'indexeddb',
+      });
+      const cloud = { ...editedCopy(local, 2, '043'), photo: undefined };
+
+      const result = mergeCloudEntries([local], [cloud], [], 'dev_local');
+
+      expect(result.entries[0]).toMatchObject({
+        bib: '043',
+        photo: 'indexeddb',
+      });
+    });
+
+    it("should apply photo changes of other devices' entries", () => {
+      const local = createEntry({ id: 'e1', deviceId: 'dev_a' });
+
+      const added = mergeCloudEntries(
+        [local],
+        [{ ...local, photo: 'cloud' }],
+        [],
+        'dev_local',
+      );
+      expect(added.updatedCount).toBe(1);
+      expect(added.entries[0]!.photo).toBe('cloud');
+
+      const removed = mergeCloudEntries(
+        added.entries,
+        [{ ...local, photo: undefined }],
+        [],
+        'dev_local',
+      );
+      expect(removed.updatedCount).toBe(1);
+      expect(removed.entries[0]!.photo).toBeUndefined();
+    });
+
+    it("should apply edits of this device's entries made elsewhere", () => {
+      const local = createEntry({
+        id: 'e1',
+        bib: '042',
+        deviceId: 'dev_local',
+      });
+
+      const result = mergeCloudEntries(
+        [local],
+        [editedCopy(local, 2, '043')],
+        [],
+        'dev_local',
+      );
+
+      expect(result.updatedCount).toBe(1);
+      expect(result.entries[0]!.bib).toBe('043');
+    });
+
+    it('should keep the local entry when its version is not older', () => {
+      const local = editedCopy(
+        createEntry({ id: 'e1', deviceId: 'dev_a' }),
+        3,
+        '044',
+      );
+
+      const result = mergeCloudEntries(
+        [local],
+        [editedCopy(local, 2, '043')],
+        [],
+        'dev_local',
+      );
+
+      expect(result.updatedCount).toBe(0);
+      expect(result.entries[0]).toBe(local);
+    });
+
+    it('should adopt a later same-version edit made on another device', () => {
+      const base = createEntry({ id: 'e1', bib: '042', deviceId: 'dev_a' });
+      const cloud = editedCopy(base, 2, '043');
+      const local: Entry = {
+        ...editedCopy(base, 2, '044'),
+        versionHistory: [
+          {
+            ...cloud.versionHistory![0]!,
+            timestamp: '2024-01-15T10:04:00.000Z',
+            editedByDeviceId: 'dev_local',
+            data: { bib: '044', status: 'dnf', run: base.run },
+          },
+        ],
+      };
+
+      const result = mergeCloudEntries([local], [cloud], [], 'dev_local');
+      expect(result.updatedCount).toBe(1);
+      expect(result.entries[0]!.bib).toBe('043');
+
+      // The device that made the later edit keeps it
+      const other = mergeCloudEntries([cloud], [local], [], 'dev_b');
+      expect(other.updatedCount).toBe(0);
+    });
+
+    it('should drop invalid version history records from the cloud', () => {
+      const cloud = {
+        ...createEntry({ id: 'e1', deviceId: 'dev_a' }),
+        currentVersion: 2,
+        versionHistory: [
+          { version: 'two', data: null },
+          {
+            version: 2,
+            timestamp: '2024-01-15T10:05:00.000Z',
+            editedBy: '<b>Timer B</b>',
+            editedByDeviceId: 'dev_b',
+            changeType: 'edit',
+            data: { bib: '043', status: 'ok', run: 1 },
+          },
+        ],
+      } as unknown as Entry;
+
+      const result = mergeCloudEntries([], [cloud], [], 'dev_local');
+
+      expect(result.entries[0]!.versionHistory).toHaveLength(1);
+      expect(result.entries[0]!.versionHistory![0]!.editedBy).toBe(
+        'bTimer B/b',
+      );
+    });
+  });
+
   // =========================================================================
   // 12. removeDeletedCloudEntries
   // =========================================================================
@@ -830,6 +830,21 @@ describe('Faults Slice', () => {
       expect(result.faultEntries).toHaveLength(1);
       expect(result.faultEntries[0].id).toBe('fault-2');
     });
+
+    it('should refuse a fault reversed by the jury', () => {
+      const faults = [
+        createTestFault({
+          id: 'fault-1',
+          markedForDeletion: true,
+          reversedByProtestId: 'protest-1',
+        }),
+      ];
+
+      const result = approveFaultDeletion(faults, 'fault-1', 'Chief');
+
+      expect(result.faultEntries).toHaveLength(1);
+      expect(result.approvedFault).toBeNull();
+    });
   });
 
   describe('rejectFaultDeletion', () => {
@@ -872,6 +887,22 @@ describe('Faults Slice', () => {
       );
       expect(result).toBeNull();
     });
+
+    it('should return null for a fault reversed by the jury', () => {
+      const fault = createTestFault({
+        id: 'fault-1',
+        markedForDeletion: true,
+        reversedByProtestId: 'protest-1',
+      });
+
+      const result = rejectFaultDeletion(
+        [fault],
+        'fault-1',
+        'Chief Judge',
+        'dev_chief',
+      );
+      expect(result).toBeNull();
+    });
   });
 
   describe('getPendingDeletions', () => {
@@ -901,6 +932,22 @@ describe('Faults Slice', () => {
     it('should return empty array for empty input', () => {
       expect(getPendingDeletions([])).toHaveLength(0);
     });
+
+    it('should exclude faults reversed by the jury', () => {
+      const faults = [
+        createTestFault({ id: 'fault-1', markedForDeletion: true }),
+        createTestFault({
+          id: 'fault-2',
+          markedForDeletion: true,
+          reversedByProtestId: 'protest-1',
+        }),
+      ];
+
+      const result = getPendingDeletions(faults);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].id).toBe('fault-1');
+    });
   });
 
   describe('getFaultsForBib', () => {
@@ -995,6 +1042,59 @@ describe('Faults Slice', () => {
       expect(result.faultEntries).toHaveLength(0);
     });
 
+    it('should apply a newer cloud version of a local device fault', () => {
+      const localFault = createTestFault({
+        id: 'fault-1',
+        deviceId: 'dev_local',
+        currentVersion: 1,
+      });
+
+      const cloudFault = createTestFault({
+        id: 'fault-1',
+        deviceId: 'dev_local',
+        markedForDeletion: true,
+        reversedByProtestId: 'protest-1',
+        currentVersion: 2,
+      });
+
+      const result = mergeFaultsFromCloud(
+        [localFault],
+        [cloudFault],
+        [],
+        'dev_local',
+      );
+
+      expect(result.addedCount).toBe(1);
+      expect(result.faultEntries[0].reversedByProtestId).toBe('protest-1');
+      expect(result.faultEntries[0].markedForDeletion).toBe(true);
+    });
+
+    it('should keep the local deletion mark of a local device fault', () => {
+      const localFault = createTestFault({
+        id: 'fault-1',
+        deviceId: 'dev_local',
+        markedForDeletion: true,
+        currentVersion: 2,
+      });
+
+      const cloudFault = createTestFault({
+        id: 'fault-1',
+        deviceId: 'dev_local',
+        markedForDeletion: false,
+        currentVersion: 2,
+      });
+
+      const result = mergeFaultsFromCloud(
+        [localFault],
+        [cloudFault],
+        [],
+        'dev_local',
+      );
+
+      expect(result.addedCount).toBe(0);
+      expect(result.faultEntries[0].markedForDeletion).toBe(true);
+    });
+
     it('should skip deleted faults (using id:deviceId key)', () => {
       const cloudFaults = [
         createTestFault({
@@ -17,6 +17,8 @@ import {
   setFirstGateColor,
   setGateAssignment,
   setJudgeReady,
+  setPenaltyRule,
+  setPenaltyRules,
   setPenaltySeconds,
   setSelectedFaultBib,
   setUsePenaltyMode,
@@ -303,6 +305,47 @@ describe('Gate Judge Slice', () => {
     });
   });
 
+  describe('setPenaltyRule', () => {
+    it('should set a category rule without mutating current rules', () => {
+      const current = { U8: { usePenaltyMode: true, penaltySeconds: 5 } };
+      const result = setPenaltyRule(
+        'U12',
+        { usePenaltyMode: false, penaltySeconds: 5 },
+        current,
+      );
+      expect(result.penaltyRules).toEqual({
+        U8: { usePenaltyMode: true, penaltySeconds: 5 },
+        U12: { usePenaltyMode: false, penaltySeconds: 5 },
+      });
+      expect(current).not.toHaveProperty('U12');
+    });
+
+    it('should clamp penalty seconds to 0-60', () => {
+      const result = setPenaltyRule(
+        'U8',
+        { usePenaltyMode: true, penaltySeconds: 99 },
+        {},
+      );
+      expect(result.penaltyRules?.U8?.penaltySeconds).toBe(60);
+    });
+
+    it('should remove the rule when null', () => {
+      const result = setPenaltyRule('U8', null, {
+        U8: { usePenaltyMode: true, penaltySeconds: 5 },
+      });
+      expect(result.penaltyRules).toEqual({});
+    });
+  });
+
+  describe('setPenaltyRules', () => {
+    it('should replace all rules', () => {
+      const rules = { masters: { usePenaltyMode: false, penaltySeconds: 5 } };
+      const result = setPenaltyRules(rules);
+      expect(result.penaltyRules).toEqual(rules);
+      expect(result.penaltyRules).not.toBe(rules);
+    });
+  });
+
   describe('getActiveBibs', () => {
     it('should return bibs that started but not finished', () => {
       const entries: Entry[] = [
@@ -334,6 +377,16 @@ describe('Gate Judge Slice', () => {
       expect(result).toHaveLength(0);
     });
 
+    it('should drop racers marked DNF or DNS', () => {
+      const entries: Entry[] = [
+        createEntry({ bib: '042', point: 'S', run: 1, status: 'dnf' }),
+        createEntry({ bib: '043', point: 'S', run: 1, status: 'dns' }),
+        createEntry({ bib: '044', point: 'S', run: 1 }),
+      ];
+
+      expect(getActiveBibs(entries, 1)).toEqual(['044']);
+    });
+
     it('should filter by run number', () => {
       const entries: Entry[] = [
         createEntry({ bib: '042', point: 'S', run: 1 }),
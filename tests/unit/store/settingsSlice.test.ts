@@ -22,6 +22,7 @@ const ALL_BOOLEAN_KEYS: BooleanSettingKey[] = [
   'gps',
   'simple',
   'photoCapture',
+  'photoBurst',
   'motionEffects',
   'glassEffects',
   'outdoorMode',
@@ -39,6 +40,7 @@ describe('DEFAULT_SETTINGS', () => {
       gps: true,
       simple: false,
       photoCapture: false,
+      photoBurst: false,
       motionEffects: true,
       glassEffects: true,
       outdoorMode: false,
@@ -0,0 +1,188 @@
+/**
+ * Unit Tests for Bib OCR
+ * Tests: recognizeBibs on synthetic bib images, pickBibSuggestion
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  type BibCandidate,
+  type OcrImage,
+  pickBibSuggestion,
+  recognizeBibs,
+} from '../../../src/utils/bibOcr';
+
+// Bold blocky digits, drawn differently from the recognizer's templates
+// (thicker strokes, rounded corners left out)
+const FONT: Record<string, string[]> = {
+  '0': ['.####.', '##..##', '##..##', '##..##', '##..##', '##..##', '.####.'],
+  '1': ['..##..', '.###..', '..##..', '..##..', '..##..', '..##..', '.####.'],
+  '2': ['.####.', '##..##', '....##', '...##.', '..##..', '.##...', '######'],
+  '3': ['.####.', '##..##', '....##', '..###.', '....##', '##..##', '.####.'],
+  '4': ['...##.', '..###.', '.##.#.', '##..#.', '######', '....#.', '....#.'],
+  '5': ['######', '##....', '#####.', '....##', '....##', '##..##', '.####.'],
+  '6': ['..###.', '.##...', '##....', '#####.', '##..##', '##..##', '.####.'],
+  '7': ['######', '....##', '...##.', '..##..', '.##...', '.##...', '.##...'],
+  '8': ['.####.', '##..##', '##..##', '.####.', '##..##', '##..##', '.####.'],
+  '9': ['.####.', '##..##', '##..##', '.#####', '....##', '...##.', '.###..'],
+};
+
+interface DrawOptions {
+  x: number;
+  y: number;
+  cell: number; // Pixels per font cell
+  ink?: number; // Gray level of the digits
+}
+
+/**
+ * Gray image with bibs drawn on it, plus a soft light gradient and noise
+ */
+function createImage(
+  width: number,
+  height: number,
+  texts: (DrawOptions & { text: string })[],
+  background = 235,
+): OcrImage {
+  const gray = new Uint8Array(width * height);
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gradient = (x / width) * 30;
+      gray[y * width + x] = background - gradient + random() * 10;
+    }
+  }
+
+  for (const { text, x, y, cell, ink = 25 } of texts) {
+    let left = x;
+    for (const char of text) {
+      const rows = FONT[char]!;
+      rows.forEach((row, r) => {
+        [...row].forEach((c, col) => {
+          if (c !== '#') return;
+          for (let py = 0; py < cell; py++) {
+            for (let px = 0; px < cell; px++) {
+              gray[(y + r * cell + py) * width + left + col * cell + px] =
+                ink + random() * 10;
+            }
+          }
+        });
+      });
+      left += 7 * cell;
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < gray.length; i++) {
+    data[i * 4] = gray[i]!;
+    data[i * 4 + 1] = gray[i]!;
+    data[i * 4 + 2] = gray[i]!;
+    data[i * 4 + 3] = 255;
+  }
+  return { width, height, data };
+}
+
+describe('recognizeBibs', () => {
+  it('should read a bib number', () => {
+    const image = createImage(320, 240, [
+      { text: '42', x: 100, y: 80, cell: 8 },
+    ]);
+
+    expect(recognizeBibs(image)[0]?.bib).toBe('42');
+  });
+
+  it.each(['0123', '4567', '89'])('should read every digit (%s)', (digits) => {
+    const image = createImage(480, 200, [
+      { text: digits.slice(0, 3), x: 40, y: 50, cell: 8 },
+      ...(digits.length > 3
+        ? [{ text: digits.slice(3), x: 340, y: 50, cell: 8 }]
+        : []),
+    ]);
+
+    const bibs = recognizeBibs(image).map((c) => c.bib);
+    expect(bibs).toContain(digits.slice(0, 3));
+  });
+
+  it('should read light digits on a dark bib', () => {
+    const image = createImage(
+      320,
+      240,
+      [{ text: '107', x: 80, y: 80, cell: 7, ink: 240 }],
+      30,
+    );
+
+    expect(recognizeBibs(image)[0]?.bib).toBe('107');
+  });
+
+  it('should read small and large digits', () => {
+    const small = createImage(320, 240, [
+      { text: '9', x: 150, y: 100, cell: 3 },
+    ]);
+    const large = createImage(640, 480, [
+      { text: '58', x: 200, y: 120, cell: 20 },
+    ]);
+
+    expect(recognizeBibs(small)[0]?.bib).toBe('9');
+    expect(recognizeBibs(large)[0]?.bib).toBe('58');
+  });
+
+  it('should keep separate numbers apart', () => {
+    const image = createImage(480, 240, [
+      { text: '12', x: 40, y: 40, cell: 8 },
+      { text: '7', x: 360, y: 140, cell: 6 },
+    ]);
+
+    const bibs = recognizeBibs(image).map((c) => c.bib);
+    expect(bibs).toContain('12');
+    expect(bibs).toContain('7');
+  });
+
+  it('should ignore long digit runs and non-digit shapes', () => {
+    const image = createImage(640, 240, [
+      { text: '2026', x: 40, y: 40, cell: 6 },
+    ]);
+    // Solid block
+    for (let y = 150; y < 210; y++) {
+      for (let x = 400; x < 460; x++) {
+        image.data.fill(20, (y * 640 + x) * 4, (y * 640 + x) * 4 + 3);
+      }
+    }
+
+    expect(recognizeBibs(image)).toEqual([]);
+  });
+
+  it('should return nothing for an empty image', () => {
+    expect(recognizeBibs(createImage(200, 150, []))).toEqual([]);
+    expect(
+      recognizeBibs({ width: 0, height: 0, data: new Uint8ClampedArray() }),
+    ).toEqual([]);
+  });
+});
+
+describe('pickBibSuggestion', () => {
+  const candidates: BibCandidate[] = [
+    { bib: '41', confidence: 0.95, height: 50 },
+    { bib: '7', confidence: 0.8, height: 30 },
+  ];
+
+  it('should suggest the best allowed candidate, padded', () => {
+    expect(pickBibSuggestion(candidates, ['007', '012'])).toBe('007');
+  });
+
+  it('should suggest nothing when no candidate is allowed', () => {
+    expect(pickBibSuggestion(candidates, ['012'])).toBeNull();
+  });
+
+  it('should only suggest confident readings without allowed bibs', () => {
+    expect(pickBibSuggestion(candidates, [])).toBe('041');
+    expect(pickBibSuggestion(candidates.slice(1), [])).toBeNull();
+  });
+
+  it('should never suggest bib zero', () => {
+    expect(
+      pickBibSuggestion([{ bib: '0', confidence: 1, height: 40 }], []),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit Tests for Clock Health Utilities
+ * Tests: findStartFinishDrift (largest pair, primary devices, missing points),
+ * findNextRunToStart
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { DeviceClockReport, Entry } from '../../../src/types';
+import {
+  findNextRunToStart,
+  findStartFinishDrift,
+} from '../../../src/utils/clockHealth';
+
+function clock(
+  deviceId: string,
+  point: DeviceClockReport['point'],
+  skewMs: number,
+): DeviceClockReport {
+  return {
+    deviceId,
+    name: deviceId,
+    lastSeen: 0,
+    source: 'system',
+    skewMs,
+    gpsOffsetMs: null,
+    gpsAccuracy: null,
+    point,
+  };
+}
+
+function entry(point: Entry['point'], run: number): Entry {
+  return {
+    id: `${point}-${run}`,
+    bib: '001',
+    point,
+    run,
+    timestamp: '2024-01-15T10:00:00.000Z',
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+  };
+}
+
+describe('findStartFinishDrift', () => {
+  it('should compare the start and finish clocks', () => {
+    const start = clock('start', 'S', 100);
+    const finish = clock('finish', 'F', -700);
+
+    expect(
+      findStartFinishDrift([start, clock('gate', null, 5000), finish]),
+    ).toEqual({ start, finish, driftMs: -800 });
+  });
+
+  it('should pick the pair furthest apart', () => {
+    const drift = findStartFinishDrift([
+      clock('s1', 'S', 0),
+      clock('s2', 'S', 300),
+      clock('f1', 'F', 100),
+      clock('f2', 'F', -200),
+    ]);
+
+    expect([drift?.start.deviceId, drift?.finish.deviceId]).toEqual([
+      's2',
+      'f2',
+    ]);
+    expect(drift?.driftMs).toBe(-500);
+  });
+
+  it('should only compare primary devices that have reported', () => {
+    const devices = [
+      clock('s1', 'S', 0),
+      clock('s2', 'S', 900),
+      clock('f1', 'F', 50),
+    ];
+
+    expect(findStartFinishDrift(devices, { S: 's1' })?.driftMs).toBe(50);
+    expect(findStartFinishDrift(devices, { S: 'gone' })?.driftMs).toBe(-850);
+  });
+
+  it('should return null without both a start and a finish clock', () => {
+    expect(findStartFinishDrift([clock('s1', 'S', 0)])).toBeNull();
+    expect(findStartFinishDrift([])).toBeNull();
+  });
+});
+
+describe('findNextRunToStart', () => {
+  it('should return the first run without a start time', () => {
+    expect(findNextRunToStart([], [1, 2])).toBe(1);
+    expect(findNextRunToStart([entry('S', 1), entry('F', 2)], [1, 2])).toBe(2);
+    expect(findNextRunToStart([entry('S', 1), entry('S', 2)], [1, 2])).toBe(
+      null,
+    );
+  });
+});
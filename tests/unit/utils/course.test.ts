@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Course Map Utilities
+ * Tests: distanceMeters, getNextGateColor, suggestGateRange (radius, gaps,
+ * far away), layoutCourseMap (north up, fit, single gate)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { CourseGate } from '../../../src/types';
+import {
+  distanceMeters,
+  getNextGateColor,
+  layoutCourseMap,
+  suggestGateRange,
+} from '../../../src/utils/course';
+
+// Ten gates straight down the hill, ~22 m apart
+const gates: CourseGate[] = Array.from({ length: 10 }, (_, i) => ({
+  number: i + 1,
+  color: i % 2 === 0 ? 'red' : 'blue',
+  latitude: 47.1 - i * 0.0002,
+  longitude: 11.2,
+}));
+
+describe('Course Map Utilities', () => {
+  describe('distanceMeters', () => {
+    it('should measure distances along a meridian', () => {
+      const d = distanceMeters(
+        { latitude: 47, longitude: 11 },
+        { latitude: 47.001, longitude: 11 },
+      );
+      expect(d).toBeCloseTo(111.2, 0);
+    });
+
+    it('should shrink longitude distances away from the equator', () => {
+      const d = distanceMeters(
+        { latitude: 60, longitude: 11 },
+        { latitude: 60, longitude: 11.001 },
+      );
+      expect(d).toBeCloseTo(55.6, 0);
+    });
+  });
+
+  describe('getNextGateColor', () => {
+    it('should start with red and alternate', () => {
+      expect(getNextGateColor([])).toBe('red');
+      expect(getNextGateColor(gates.slice(0, 1))).toBe('blue');
+      expect(getNextGateColor(gates.slice(0, 2))).toBe('red');
+    });
+  });
+
+  describe('suggestGateRange', () => {
+    it('should suggest the gates within the radius around the nearest gate', () => {
+      expect(suggestGateRange(gates, gates[4]!)).toEqual([2, 8]);
+    });
+
+    it('should clip the range at the start and end of the course', () => {
+      expect(suggestGateRange(gates, gates[0]!)).toEqual([1, 4]);
+      expect(suggestGateRange(gates, gates[9]!, 30)).toEqual([9, 10]);
+    });
+
+    it('should stop at the first gate out of view', () => {
+      const bend = gates.map((gate) =>
+        gate.number === 7 ? { ...gate, longitude: 11.21 } : gate,
+      );
+      expect(suggestGateRange(bend, gates[4]!)).toEqual([2, 6]);
+    });
+
+    it('should suggest nothing far from the course or without gates', () => {
+      expect(
+        suggestGateRange(gates, { latitude: 47.11, longitude: 11.2 }),
+      ).toBeNull();
+      expect(suggestGateRange([], gates[0]!)).toBeNull();
+    });
+  });
+
+  describe('layoutCourseMap', () => {
+    it('should draw north up and fit the course into the margins', () => {
+      const points = layoutCourseMap(gates, 320, 240, 16);
+
+      expect(points.map((p) => p.gate.number)).toEqual(
+        gates.map((g) => g.number),
+      );
+      expect(points[0]!.y).toBe(16);
+      expect(points[9]!.y).toBe(224);
+      for (const p of points) expect(p.x).toBe(160);
+    });
+
+    it('should keep equal scale on both axes', () => {
+      const square: CourseGate[] = [
+        { number: 1, color: 'red', latitude: 47.001, longitude: 11 },
+        {
+          number: 2,
+          color: 'blue',
+          latitude: 47,
+          longitude: 11 + 0.001 / Math.cos((47.0005 * Math.PI) / 180),
+        },
+      ];
+      const [a, b] = layoutCourseMap(square, 320, 240, 20);
+
+      expect(b!.x - a!.x).toBeCloseTo(b!.y - a!.y, 0);
+      expect(b!.y - a!.y).toBe(200);
+    });
+
+    it('should center a single gate', () => {
+      expect(layoutCourseMap(gates.slice(0, 1), 320, 240, 16)).toEqual([
+        { gate: gates[0], x: 160, y: 120 },
+      ]);
+      expect(layoutCourseMap([], 320, 240, 16)).toEqual([]);
+    });
+  });
+});
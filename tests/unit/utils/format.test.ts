@@ -1,11 +1,12 @@
 /**
  * Unit Tests for format utilities
- * Tests: getLocale, getPointLabel, getRunLabel for all languages
+ * Tests: getLocale, getPointLabel, getPointColor, getRunLabel for all languages
  */
 
 import { describe, expect, it } from 'vitest';
 import {
   getLocale,
+  getPointColor,
   getPointLabel,
   getRunLabel,
 } from '../../../src/utils/format';
@@ -39,6 +40,21 @@ describe('getPointLabel', () => {
     expect(getPointLabel('S', 'fr')).toBe('Départ');
     expect(getPointLabel('F', 'fr')).toBe('Arrivée');
   });
+
+  it('should number intermediate points per language', () => {
+    expect(getPointLabel('I1', 'en')).toBe('Split 1');
+    expect(getPointLabel('I2', 'de')).toBe('ZZ 2');
+    expect(getPointLabel('I3', 'fr')).toBe('Inter 3');
+  });
+});
+
+describe('getPointColor', () => {
+  it('should use one color for all intermediate points', () => {
+    expect(getPointColor('S')).toBe('var(--start-color)');
+    expect(getPointColor('F')).toBe('var(--finish-color)');
+    expect(getPointColor('I1')).toBe('var(--intermediate-color)');
+    expect(getPointColor('I9')).toBe('var(--intermediate-color)');
+  });
 });
 
 describe('getRunLabel', () => {
@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for Gate Coverage
+ * Tests: computeGateCoverage (gaps, overlaps, merged spans, gates beyond the
+ * course, no judges)
+ */
+
+import { describe, expect, it } from 'vitest';
+import { computeGateCoverage } from '../../../shared/gateCoverage';
+
+function judge(deviceId: string, gateStart: number, gateEnd: number) {
+  return { deviceId, gateStart, gateEnd };
+}
+
+describe('Gate Coverage', () => {
+  it('should report nothing when every gate has one judge', () => {
+    expect(
+      computeGateCoverage([judge('a', 1, 10), judge('b', 11, 20)], 20),
+    ).toEqual({ gateCount: 20, gaps: [], overlaps: [] });
+  });
+
+  it('should merge consecutive gates without a judge into spans', () => {
+    expect(
+      computeGateCoverage([judge('a', 3, 5), judge('b', 8, 8)], 10).gaps,
+    ).toEqual([
+      { gateStart: 1, gateEnd: 2 },
+      { gateStart: 6, gateEnd: 7 },
+      { gateStart: 9, gateEnd: 10 },
+    ]);
+  });
+
+  it('should split overlaps where the judges watching change', () => {
+    const { overlaps } = computeGateCoverage(
+      [judge('a', 1, 10), judge('c', 4, 6), judge('b', 6, 12)],
+      12,
+    );
+
+    expect(overlaps).toEqual([
+      { gateStart: 4, gateEnd: 5, deviceIds: ['a', 'c'] },
+      { gateStart: 6, gateEnd: 6, deviceIds: ['a', 'b', 'c'] },
+      { gateStart: 7, gateEnd: 10, deviceIds: ['a', 'b'] },
+    ]);
+  });
+
+  it('should ignore assigned gates beyond the course', () => {
+    expect(computeGateCoverage([judge('a', 1, 40)], 30)).toEqual({
+      gateCount: 30,
+      gaps: [],
+      overlaps: [],
+    });
+  });
+
+  it('should count a judge listed twice once', () => {
+    expect(
+      computeGateCoverage([judge('a', 1, 5), judge('a', 1, 5)], 5).overlaps,
+    ).toEqual([]);
+  });
+
+  it('should report the whole course without judges', () => {
+    expect(computeGateCoverage([], 8).gaps).toEqual([
+      { gateStart: 1, gateEnd: 8 },
+    ]);
+  });
+});
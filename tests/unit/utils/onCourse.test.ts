@@ -0,0 +1,144 @@
+/**
+ * Unit Tests for On-Course Tracker
+ * Tests: trackRacersOnCourse (start-to-finish pace, splits, finish and DNF
+ * removal, no prior racers, runs), findRacerAtGates (inside, nearest,
+ * unknown positions)
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Entry, TimingPoint } from '../../../src/types';
+import {
+  findRacerAtGates,
+  type RacerOnCourse,
+  trackRacersOnCourse,
+} from '../../../src/utils/onCourse';
+
+const T0 = Date.parse('2026-01-15T10:00:00.000Z');
+
+function entry(
+  bib: string,
+  point: TimingPoint,
+  seconds: number,
+  overrides: Partial<Entry> = {},
+): Entry {
+  return {
+    id: `${bib}-${point}-${seconds}`,
+    bib,
+    point,
+    run: 1,
+    timestamp: new Date(T0 + seconds * 1000).toISOString(),
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+    ...overrides,
+  };
+}
+
+function racer(bib: string, estimatedGate: number | null): RacerOnCourse {
+  return { bib, startTime: T0, estimatedGate };
+}
+
+describe('On-Course Tracker', () => {
+  describe('trackRacersOnCourse', () => {
+    it('should place racers at the pace of the racers who finished', () => {
+      const entries = [
+        entry('001', 'S', 0),
+        entry('001', 'F', 60),
+        entry('002', 'S', 40),
+        entry('002', 'F', 120), // median of 60 s and 80 s = 70 s
+        entry('003', 'S', 100),
+      ];
+
+      const racers = trackRacersOnCourse(entries, 1, 40, T0 + 135_000);
+
+      expect(racers).toHaveLength(1);
+      expect(racers[0]!.bib).toBe('003');
+      expect(racers[0]!.estimatedGate).toBeCloseTo(20);
+    });
+
+    it('should continue from the latest split with that section time', () => {
+      const entries = [
+        entry('001', 'S', 0),
+        entry('001', 'I1', 20),
+        entry('001', 'F', 60),
+        entry('002', 'S', 50),
+        entry('002', 'I1', 80), // slower than 001 to the split
+      ];
+
+      // 10 s into the 40 s second half of the course: a quarter of it
+      const [tracked] = trackRacersOnCourse(entries, 1, 40, T0 + 90_000);
+
+      expect(tracked!.estimatedGate).toBeCloseTo(25);
+    });
+
+    it('should hold racers at the end of their section when overdue', () => {
+      const entries = [
+        entry('001', 'S', 0),
+        entry('001', 'F', 60),
+        entry('002', 'S', 30),
+      ];
+
+      const [tracked] = trackRacersOnCourse(entries, 1, 40, T0 + 300_000);
+
+      expect(tracked!.estimatedGate).toBe(40);
+    });
+
+    it('should remove racers with a finish or DNF', () => {
+      const entries = [
+        entry('001', 'S', 0),
+        entry('001', 'F', 60),
+        entry('002', 'S', 30, { status: 'dnf' }),
+        entry('003', 'S', 45),
+        entry('004', 'S', 50),
+      ];
+
+      const racers = trackRacersOnCourse(entries, 1, 40, T0 + 60_000);
+
+      // Most recent start first
+      expect(racers.map((r) => r.bib)).toEqual(['004', '003']);
+    });
+
+    it('should not estimate positions before anyone finished', () => {
+      const racers = trackRacersOnCourse(
+        [entry('001', 'S', 0), entry('002', 'S', 30)],
+        1,
+        40,
+        T0 + 40_000,
+      );
+
+      expect(racers.map((r) => r.estimatedGate)).toEqual([null, null]);
+    });
+
+    it('should only track the requested run', () => {
+      const entries = [
+        entry('001', 'S', 0, { run: 2 }),
+        entry('002', 'S', 30),
+        entry('002', 'F', 80),
+      ];
+
+      expect(trackRacersOnCourse(entries, 1, 40)).toEqual([]);
+      expect(trackRacersOnCourse(entries, 2, 40).map((r) => r.bib)).toEqual([
+        '001',
+      ]);
+    });
+  });
+
+  describe('findRacerAtGates', () => {
+    it('should pick the racer inside the gate range', () => {
+      const racers = [racer('003', 4), racer('002', 12.5), racer('001', 30)];
+
+      expect(findRacerAtGates(racers, [11, 15])!.bib).toBe('002');
+    });
+
+    it('should pick the nearest racer when nobody is inside', () => {
+      const racers = [racer('003', 2), racer('002', 8), racer('001', 30)];
+
+      expect(findRacerAtGates(racers, [11, 15])!.bib).toBe('002');
+    });
+
+    it('should ignore racers without an estimate', () => {
+      expect(findRacerAtGates([racer('001', null)], [1, 10])).toBeNull();
+      expect(findRacerAtGates([], [1, 10])).toBeNull();
+    });
+  });
+});
@@ -1,11 +1,12 @@
 /**
  * Unit Tests for Photo Helpers
- * Tests: isPhotoMarker, hasFullPhotoData
+ * Tests: isPhotoMarker, isCloudPhotoMarker, hasFullPhotoData
  */
 
 import { describe, expect, it } from 'vitest';
 import {
   hasFullPhotoData,
+  isCloudPhotoMarker,
   isPhotoMarker,
 } from '../../../src/utils/photoHelpers';
 
@@ -39,6 +40,18 @@ describe('isPhotoMarker', () => {
   });
 });
 
+describe('isCloudPhotoMarker', () => {
+  it('returns true for "cloud"', () => {
+    expect(isCloudPhotoMarker('cloud')).toBe(true);
+  });
+
+  it('returns false for the IndexedDB marker and photo data', () => {
+    expect(isCloudPhotoMarker('indexeddb')).toBe(false);
+    expect(isCloudPhotoMarker('data:image/jpeg;base64,/9j/4AAQ')).toBe(false);
+    expect(isCloudPhotoMarker(undefined)).toBe(false);
+  });
+});
+
 describe('hasFullPhotoData', () => {
   it('returns true for a long base64 string', () => {
     const base64 = 'data:image/jpeg;base64,/9j/4AAQSkZJRgABAQ';
@@ -50,6 +63,10 @@ describe('hasFullPhotoData', () => {
     expect(hasFullPhotoData('indexeddb')).toBe(false);
   });
 
+  it('returns false for "cloud" marker', () => {
+    expect(hasFullPhotoData('cloud')).toBe(false);
+  });
+
   it('returns false for short strings', () => {
     expect(hasFullPhotoData('abc')).toBe(false);
     expect(hasFullPhotoData('short')).toBe(false);
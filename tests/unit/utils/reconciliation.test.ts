@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for Reconciliation Utilities
+ * Tests: reconcileEntries (unmatched starts/finishes, settled statuses,
+ * blank bibs, runs, issue count), findDuplicateEntries, compareBackupTimes
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Entry } from '../../../src/types';
+import {
+  compareBackupTimes,
+  findDuplicateEntries,
+  reconcileEntries,
+} from '../../../src/utils/reconciliation';
+
+let nextId = 1;
+
+function entry(
+  bib: string,
+  point: Entry['point'],
+  overrides: Partial<Entry> = {},
+): Entry {
+  const id = nextId++;
+  return {
+    id: `e${id}`,
+    bib,
+    point,
+    run: 1,
+    timestamp: new Date(Date.UTC(2024, 0, 15, 10, 0, id)).toISOString(),
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+    ...overrides,
+  };
+}
+
+describe('reconcileEntries', () => {
+  it('should list starts without a finish and finishes without a start', () => {
+    const start1 = entry('001', 'S');
+    const start2 = entry('010', 'S');
+    const start3 = entry('002', 'S');
+    const finish3 = entry('002', 'F');
+    const finish4 = entry('004', 'F');
+
+    const { runs } = reconcileEntries([
+      start1,
+      start2,
+      start3,
+      finish3,
+      finish4,
+    ]);
+
+    expect(runs).toHaveLength(1);
+    expect(runs[0]!.startedNotFinished).toEqual([start1, start2]);
+    expect(runs[0]!.finishedNotStarted).toEqual([finish4]);
+  });
+
+  it('should ignore racers whose run is settled as DNS, DNF or DSQ', () => {
+    const { runs } = reconcileEntries([
+      entry('001', 'S', { status: 'dnf' }),
+      entry('002', 'S'),
+      entry('002', 'S', { status: 'dsq', deviceId: 'dev_2' }),
+      entry('003', 'F', { status: 'dns' }),
+    ]);
+
+    expect(runs[0]!.startedNotFinished).toEqual([]);
+    expect(runs[0]!.finishedNotStarted).toEqual([]);
+  });
+
+  it('should not match starts and finishes across runs', () => {
+    const start = entry('001', 'S', { run: 1 });
+    const finish = entry('001', 'F', { run: 2 });
+
+    const { runs } = reconcileEntries([finish, start]);
+
+    expect(runs.map((r) => r.run)).toEqual([1, 2]);
+    expect(runs[0]!.startedNotFinished).toEqual([start]);
+    expect(runs[1]!.finishedNotStarted).toEqual([finish]);
+  });
+
+  it('should list entries without a bib, oldest first', () => {
+    const first = entry('', 'F');
+    const second = entry('', 'S');
+
+    const { runs, issueCount } = reconcileEntries([second, first]);
+
+    expect(runs[0]!.blankBib).toEqual([first, second]);
+    expect(issueCount).toBe(2);
+  });
+
+  it('should count every issue across runs', () => {
+    const { issueCount } = reconcileEntries([
+      entry('001', 'S'),
+      entry('002', 'F', { run: 2 }),
+      entry('', 'F'),
+      entry('003', 'S'),
+      entry('003', 'F'),
+      entry('003', 'F', { deviceId: 'dev_2' }),
+    ]);
+
+    expect(issueCount).toBe(4);
+  });
+
+  it('should report nothing for matched entries', () => {
+    expect(
+      reconcileEntries([entry('001', 'S'), entry('001', 'F')]).issueCount,
+    ).toBe(0);
+    expect(reconcileEntries([])).toEqual({ runs: [], issueCount: 0 });
+  });
+});
+
+describe('findDuplicateEntries', () => {
+  it('should group the same bib and point from different devices', () => {
+    const a = entry('001', 'F', { deviceId: 'dev_1' });
+    const b = entry('001', 'F', { deviceId: 'dev_2' });
+
+    expect(findDuplicateEntries([b, a])).toEqual([
+      { key: '001-F-1', bib: '001', point: 'F', run: 1, entries: [a, b] },
+    ]);
+  });
+
+  it('should ignore repeats from one device, other runs and blank bibs', () => {
+    expect(
+      findDuplicateEntries([
+        entry('001', 'F'),
+        entry('001', 'F'),
+        entry('002', 'F', { run: 1 }),
+        entry('002', 'F', { run: 2, deviceId: 'dev_2' }),
+        entry('', 'F'),
+        entry('', 'F', { deviceId: 'dev_2' }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it('should ignore the primary device and a backup at one point', () => {
+    const entries = [
+      entry('001', 'F', { deviceId: 'dev_1' }),
+      entry('001', 'F', { deviceId: 'dev_2' }),
+    ];
+
+    expect(findDuplicateEntries(entries, { F: 'dev_1' })).toEqual([]);
+    expect(
+      reconcileEntries([entry('001', 'S'), ...entries], { F: 'dev_1' })
+        .issueCount,
+    ).toBe(0);
+  });
+
+  it('should still group two backups of a point with a primary', () => {
+    const groups = findDuplicateEntries(
+      [
+        entry('001', 'F', { deviceId: 'dev_1' }),
+        entry('001', 'F', { deviceId: 'dev_2' }),
+        entry('001', 'F', { deviceId: 'dev_3' }),
+      ],
+      { F: 'dev_1' },
+    );
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]!.entries.map((e) => e.deviceId)).toEqual([
+      'dev_2',
+      'dev_3',
+    ]);
+  });
+});
+
+describe('compareBackupTimes', () => {
+  it('should pair primary and backup times with their delta', () => {
+    const primary = entry('001', 'F', { deviceId: 'dev_1' });
+    const backup = entry('001', 'F', { deviceId: 'dev_2' });
+
+    expect(compareBackupTimes([backup, primary], { F: 'dev_1' })).toEqual([
+      {
+        key: '001-F-1',
+        bib: '001',
+        point: 'F',
+        run: 1,
+        primary,
+        backup,
+        deltaMs: 1000,
+      },
+    ]);
+  });
+
+  it('should mark racers without a primary time as timed by the backup', () => {
+    const backup = entry('002', 'S', { deviceId: 'dev_2' });
+
+    const [comparison] = compareBackupTimes(
+      [backup, entry('003', 'S', { deviceId: 'dev_1' })],
+      { S: 'dev_1' },
+    );
+
+    expect(comparison).toMatchObject({ primary: null, backup, deltaMs: null });
+  });
+
+  it('should skip points without a primary device and blank bibs', () => {
+    expect(
+      compareBackupTimes(
+        [
+          entry('001', 'S', { deviceId: 'dev_2' }),
+          entry('', 'F', { deviceId: 'dev_2' }),
+        ],
+        { F: 'dev_1' },
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Unit Tests for results utilities
+ * Tests: computeRaceResults (run pairing, split times, penalties, ranking,
+ * combined),
+ * resolvePenaltyRule (per-age-category rules), computeRaceStatistics
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { Entry, FaultEntry } from '../../../src/types';
+import {
+  computeRaceResults,
+  computeRaceStatistics,
+  DEFAULT_PENALTY_RULES,
+  resolvePenaltyRule,
+} from '../../../src/utils/results';
+
+const BASE = Date.parse('2024-01-15T10:00:00.000Z');
+
+/** Create an entry at BASE + offset seconds */
+function entry(
+  bib: string,
+  point: Entry['point'],
+  offsetSeconds: number,
+  overrides: Partial<Entry> = {},
+): Entry {
+  return {
+    id: `${bib}-${point}-${offsetSeconds}`,
+    bib,
+    point,
+    run: 1,
+    timestamp: new Date(BASE + offsetSeconds * 1000).toISOString(),
+    status: 'ok',
+    deviceId: 'dev_1',
+    deviceName: 'Timer 1',
+    ...overrides,
+  };
+}
+
+/** Create a start + finish pair with the given run time in seconds */
+function runEntries(bib: string, start: number, runTime: number, run = 1) {
+  return [
+    entry(bib, 'S', start, { run }),
+    entry(bib, 'F', start + runTime, { run }),
+  ];
+}
+
+function fault(bib: string, run = 1, overrides: Partial<FaultEntry> = {}) {
+  return {
+    id: `f-${bib}-${run}`,
+    bib,
+    run,
+    gateNumber: 4,
+    faultType: 'MG',
+    timestamp: new Date(BASE).toISOString(),
+    deviceId: 'dev_2',
+    deviceName: 'Judge 1',
+    gateRange: [1, 10],
+    currentVersion: 1,
+    versionHistory: [],
+    markedForDeletion: false,
+    ...overrides,
+  } as FaultEntry;
+}
+
+describe('computeRaceResults', () => {
+  it('should pair start and finish into run times and rank by time', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45.5),
+        ...runEntries('002', 30, 44.25),
+        ...runEntries('003', 60, 46),
+      ],
+      [],
+    );
+
+    expect(results.runs).toEqual([1]);
+    const run1 = results.byRun[1]!;
+    expect(run1.map((r) => [r.bib, r.rank, r.runTime])).toEqual([
+      ['002', 1, 44250],
+      ['001', 2, 45500],
+      ['003', 3, 46000],
+    ]);
+    expect(run1[1]!.gap).toBe(1250);
+  });
+
+  it('should give equal times the same rank', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45),
+        ...runEntries('002', 30, 45),
+        ...runEntries('003', 60, 46),
+      ],
+      [],
+    );
+
+    expect(results.byRun[1]!.map((r) => r.rank)).toEqual([1, 1, 3]);
+  });
+
+  it('should use the earliest timestamp for duplicate entries', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45),
+        entry('001', 'F', 45.3, { deviceId: 'dev_2' }),
+      ],
+      [],
+    );
+
+    expect(results.byRun[1]![0]!.runTime).toBe(45000);
+  });
+
+  it('should compute split times since start at intermediate points', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 10, 45),
+        entry('001', 'I1', 25.5),
+        entry('001', 'I2', 40),
+        entry('001', 'I2', 40.2, { deviceId: 'dev_2' }),
+        // Recorded before the start: no split
+        entry('001', 'I3', 5),
+      ],
+      [],
+    );
+
+    const result = results.byRun[1]![0]!;
+    expect(result.runTime).toBe(45000);
+    expect(result.splits).toEqual({ I1: 15500, I2: 30000 });
+  });
+
+  it('should not compute splits without a start', () => {
+    const results = computeRaceResults(
+      [entry('001', 'I1', 20), entry('001', 'F', 45)],
+      [],
+    );
+
+    expect(results.byRun[1]![0]!.splits).toEqual({});
+    expect(results.byRun[1]![0]!.status).toBe('pending');
+  });
+
+  it('should add fault penalties in penalty mode', () => {
+    const results = computeRaceResults(
+      [...runEntries('001', 0, 45), ...runEntries('002', 30, 47)],
+      [fault('001'), fault('001', 1, { id: 'f2', gateNumber: 8 })],
+      { usePenaltyMode: true, penaltySeconds: 3 },
+    );
+
+    const run1 = results.byRun[1]!;
+    expect(run1[0]!.bib).toBe('002');
+    expect(run1[1]).toMatchObject({
+      bib: '001',
+      status: 'flt',
+      faultCount: 2,
+      penaltyMs: 6000,
+      totalTime: 51000,
+      rank: 2,
+    });
+  });
+
+  it('should disqualify racers with faults in DSQ mode', () => {
+    const results = computeRaceResults(
+      [...runEntries('001', 0, 45)],
+      [fault('001')],
+      { usePenaltyMode: false, penaltySeconds: 5 },
+    );
+
+    expect(results.byRun[1]![0]).toMatchObject({
+      status: 'dsq',
+      rank: null,
+      totalTime: null,
+    });
+  });
+
+  it('should ignore faults marked for deletion', () => {
+    const results = computeRaceResults(
+      [...runEntries('001', 0, 45)],
+      [fault('001', 1, { markedForDeletion: true })],
+    );
+
+    expect(results.byRun[1]![0]).toMatchObject({ status: 'ok', faultCount: 0 });
+  });
+
+  it('should list unranked racers after ranked ones', () => {
+    const results = computeRaceResults(
+      [
+        entry('004', 'S', 0, { status: 'dnf' }),
+        entry('003', 'S', 10),
+        ...runEntries('002', 20, 50),
+        entry('001', 'S', 0, { status: 'dns' }),
+      ],
+      [],
+    );
+
+    expect(results.byRun[1]!.map((r) => [r.bib, r.status])).toEqual([
+      ['002', 'ok'],
+      ['003', 'pending'],
+      ['001', 'dns'],
+      ['004', 'dnf'],
+    ]);
+  });
+
+  it('should prefer DNF over DNS when devices disagree', () => {
+    const results = computeRaceResults(
+      [
+        entry('001', 'S', 0, { status: 'dnf' }),
+        entry('001', 'F', 0, { status: 'dns', deviceId: 'dev_2' }),
+        entry('002', 'F', 0, { status: 'dns', deviceId: 'dev_2' }),
+        entry('002', 'S', 0, { status: 'dnf' }),
+      ],
+      [],
+    );
+
+    expect(results.byRun[1]!.map((r) => [r.bib, r.status])).toEqual([
+      ['001', 'dnf'],
+      ['002', 'dnf'],
+    ]);
+  });
+
+  it('should rank combined results by the sum of all runs', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45),
+        ...runEntries('002', 30, 44),
+        ...runEntries('001', 600, 44, 2),
+        ...runEntries('002', 630, 46, 2),
+        ...runEntries('003', 60, 40),
+        entry('003', 'S', 660, { run: 2, status: 'dnf' }),
+      ],
+      [],
+    );
+
+    expect(results.runs).toEqual([1, 2]);
+    expect(
+      results.combined.map((r) => [r.bib, r.rank, r.status, r.totalTime]),
+    ).toEqual([
+      ['001', 1, 'ok', 89000],
+      ['002', 2, 'ok', 90000],
+      ['003', null, 'dnf', null],
+    ]);
+    expect(results.combined[1]!.gap).toBe(1000);
+  });
+
+  it('should mark combined result pending when a run is missing', () => {
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45),
+        ...runEntries('002', 30, 44),
+        ...runEntries('001', 600, 44, 2),
+      ],
+      [],
+    );
+
+    const racer2 = results.combined.find((r) => r.bib === '002')!;
+    expect(racer2).toMatchObject({ status: 'pending', rank: null });
+  });
+
+  it('should use the primary device time over an earlier backup time', () => {
+    const results = computeRaceResults(
+      [
+        entry('001', 'S', 0),
+        entry('001', 'F', 45, { deviceId: 'dev_finish' }),
+        entry('001', 'F', 44.9, { deviceId: 'dev_backup' }),
+      ],
+      [],
+      undefined,
+      { F: 'dev_finish' },
+    );
+
+    expect(results.byRun[1]![0]).toMatchObject({
+      runTime: 45000,
+      backupPoints: [],
+    });
+  });
+
+  it('should fall back to the backup time when the primary is missing', () => {
+    const results = computeRaceResults(
+      [
+        entry('001', 'S', 0, { deviceId: 'dev_backup' }),
+        entry('001', 'F', 45, { deviceId: 'dev_finish' }),
+        entry('001', 'I1', 20, { deviceId: 'dev_backup' }),
+      ],
+      [],
+      undefined,
+      { S: 'dev_start', I1: 'dev_split', F: 'dev_finish' },
+    );
+
+    expect(results.byRun[1]![0]).toMatchObject({
+      status: 'ok',
+      runTime: 45000,
+      splits: { I1: 20000 },
+      backupPoints: ['S', 'I1'],
+    });
+  });
+
+  it('should report points timed with a manually entered time', () => {
+    const results = computeRaceResults(
+      [
+        entry('001', 'S', 0),
+        entry('001', 'F', 45, { timeSource: 'manual' }),
+        entry('002', 'S', 0),
+        entry('002', 'F', 46),
+        entry('002', 'F', 46.5, { timeSource: 'manual' }),
+      ],
+      [],
+    );
+
+    expect(results.byRun[1]!.map((r) => r.manualPoints)).toEqual([['F'], []]);
+  });
+
+  it('should return empty results without entries', () => {
+    expect(computeRaceResults([], [])).toEqual({
+      runs: [],
+      byRun: {},
+      combined: [],
+    });
+  });
+});
+
+describe('resolvePenaltyRule', () => {
+  const config = {
+    usePenaltyMode: true,
+    penaltySeconds: 3,
+    rules: DEFAULT_PENALTY_RULES,
+  };
+
+  it('should use time penalties for U8/U10 and DSQ from U12 up', () => {
+    expect(resolvePenaltyRule(config, 'U8').usePenaltyMode).toBe(true);
+    expect(resolvePenaltyRule(config, 'U10').usePenaltyMode).toBe(true);
+    expect(resolvePenaltyRule(config, 'U12').usePenaltyMode).toBe(false);
+    expect(resolvePenaltyRule(config, 'masters').usePenaltyMode).toBe(false);
+  });
+
+  it('should fall back to the default rule without a category rule', () => {
+    expect(resolvePenaltyRule(config, undefined)).toEqual({
+      usePenaltyMode: true,
+      penaltySeconds: 3,
+    });
+    expect(resolvePenaltyRule({ ...config, rules: {} }, 'U12')).toEqual({
+      usePenaltyMode: true,
+      penaltySeconds: 3,
+    });
+  });
+});
+
+describe('computeRaceResults with penalty rules', () => {
+  it('should apply the rule of each racer age category', () => {
+    const categories: Record<string, string> = { '001': 'U10', '002': 'U14' };
+    const results = computeRaceResults(
+      [
+        ...runEntries('001', 0, 45),
+        ...runEntries('002', 30, 44),
+        ...runEntries('003', 60, 46),
+      ],
+      [fault('001'), fault('002'), fault('003')],
+      {
+        usePenaltyMode: true,
+        penaltySeconds: 2,
+        rules: {
+          U10: { usePenaltyMode: true, penaltySeconds: 5 },
+          U14: { usePenaltyMode: false, penaltySeconds: 5 },
+        },
+        getAgeCategory: (bib) => categories[bib],
+      },
+    );
+
+    expect(
+      results.byRun[1]!.map((r) => [r.bib, r.status, r.totalTime]),
+    ).toEqual([
+      ['003', 'flt', 48000],
+      ['001', 'flt', 50000],
+      ['002', 'dsq', null],
+    ]);
+  });
+});
+
+describe('computeRaceStatistics', () => {
+  it('should compute counts and fastest/average times', () => {
+    const entries = [
+      ...runEntries('001', 0, 45),
+      ...runEntries('002', 30, 47),
+      entry('003', 'S', 60, { status: 'dnf' }),
+    ];
+    const stats = computeRaceStatistics(
+      entries,
+      computeRaceResults(entries, []),
+    );
+
+    expect(stats).toEqual({
+      totalEntries: 5,
+      uniqueRacers: 3,
+      finishedCount: 2,
+      dnsCount: 0,
+      dnfCount: 1,
+      dsqCount: 0,
+      fastestTime: 45000,
+      averageTime: 46000,
+      byPoint: { S: 3, F: 2 },
+    });
+  });
+
+  it('should count recorded intermediate points', () => {
+    const entries = [...runEntries('001', 0, 45), entry('001', 'I1', 20)];
+    const stats = computeRaceStatistics(
+      entries,
+      computeRaceResults(entries, []),
+    );
+
+    expect(stats.byPoint).toEqual({ S: 1, I1: 1, F: 1 });
+  });
+
+  it('should return null times when no racer finished', () => {
+    const entries = [entry('001', 'S', 0)];
+    const stats = computeRaceStatistics(
+      entries,
+      computeRaceResults(entries, []),
+    );
+
+    expect(stats.fastestTime).toBeNull();
+    expect(stats.averageTime).toBeNull();
+  });
+});
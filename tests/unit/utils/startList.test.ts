@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for start list utilities
+ * Tests: normalizeBib, ageCategoryFromBirthYear, parseAgeCategory,
+ * parseGender, parseStartList, buildRacerLookup/findRacer
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ageCategoryFromBirthYear,
+  buildRacerLookup,
+  findRacer,
+  normalizeBib,
+  parseAgeCategory,
+  parseGender,
+  parseStartList,
+} from '../../../src/utils/startList';
+
+describe('normalizeBib', () => {
+  it('should zero-pad numeric bibs to 3 digits', () => {
+    expect(normalizeBib('7')).toBe('007');
+    expect(normalizeBib('042')).toBe('042');
+    expect(normalizeBib('0042')).toBe('042');
+  });
+
+  it('should keep non-numeric bibs as-is', () => {
+    expect(normalizeBib(' A12 ')).toBe('A12');
+  });
+});
+
+describe('ageCategoryFromBirthYear', () => {
+  it('should derive U-categories from age in race year', () => {
+    expect(ageCategoryFromBirthYear(2021, 2026)).toBe('U6');
+    expect(ageCategoryFromBirthYear(2017, 2026)).toBe('U10');
+    expect(ageCategoryFromBirthYear(2011, 2026)).toBe('U16');
+  });
+
+  it('should return masters from age 30', () => {
+    expect(ageCategoryFromBirthYear(1990, 2026)).toBe('masters');
+  });
+
+  it('should return undefined for adults below masters age', () => {
+    expect(ageCategoryFromBirthYear(2000, 2026)).toBeUndefined();
+  });
+});
+
+describe('parseAgeCategory', () => {
+  it('should parse U-categories case-insensitively', () => {
+    expect(parseAgeCategory('U10')).toBe('U10');
+    expect(parseAgeCategory('u 12 weiblich')).toBe('U12');
+  });
+
+  it('should parse masters/senior labels', () => {
+    expect(parseAgeCategory('Masters')).toBe('masters');
+    expect(parseAgeCategory('Senioren')).toBe('masters');
+  });
+
+  it('should reject unknown categories', () => {
+    expect(parseAgeCategory('U18')).toBeUndefined();
+    expect(parseAgeCategory('Elite')).toBeUndefined();
+  });
+});
+
+describe('parseGender', () => {
+  it('should parse German, English and French labels', () => {
+    expect(parseGender('W')).toBe('F');
+    expect(parseGender('Damen')).toBe('F');
+    expect(parseGender('Herren')).toBe('M');
+    expect(parseGender('homme')).toBe('M');
+  });
+
+  it('should return undefined for unknown values', () => {
+    expect(parseGender('')).toBeUndefined();
+    expect(parseGender('x')).toBeUndefined();
+  });
+});
+
+describe('parseStartList', () => {
+  it('should parse Race Horology participant exports', () => {
+    const content =
+      '\uFEFFStartnummer;Name;Vorname;Jahrgang;Verein;Nation;Geschlecht;Klasse\r\n' +
+      '1;Huber;Anna;2017;SC Garmisch;ger;W;U10\r\n' +
+      '2;Müller;Max;2015;SV Oberau;GER;M;\r\n';
+
+    const { racers, skippedRows } = parseStartList(content, 2026);
+
+    expect(skippedRows).toBe(0);
+    expect(racers).toEqual([
+      {
+        bib: '001',
+        name: 'Huber Anna',
+        club: 'SC Garmisch',
+        nation: 'GER',
+        gender: 'F',
+        birthYear: 2017,
+        ageCategory: 'U10',
+      },
+      {
+        bib: '002',
+        name: 'Müller Max',
+        club: 'SV Oberau',
+        nation: 'GER',
+        gender: 'M',
+        birthYear: 2015,
+        ageCategory: 'U12',
+      },
+    ]);
+  });
+
+  it('should parse comma separated files with English headers and quotes', () => {
+    const content =
+      'Bib,Last Name,First Name,Club\n' +
+      '5,"Smith, Jr.",John,"Ski ""Club"""\n';
+
+    const { racers } = parseStartList(content, 2026);
+
+    expect(racers).toEqual([
+      { bib: '005', name: 'Smith, Jr. John', club: 'Ski "Club"' },
+    ]);
+  });
+
+  it('should read files without header positionally', () => {
+    const content = '12;Huber Anna;SC Garmisch;AUT;F;U8\n';
+
+    const { racers } = parseStartList(content, 2026);
+
+    expect(racers).toEqual([
+      {
+        bib: '012',
+        name: 'Huber Anna',
+        club: 'SC Garmisch',
+        nation: 'AUT',
+        gender: 'F',
+        ageCategory: 'U8',
+      },
+    ]);
+  });
+
+  it('should skip rows without bib or name and duplicate bibs', () => {
+    const content =
+      'Startnummer;Name\n' +
+      '1;Huber\n' +
+      ';NoBib\n' +
+      '2;\n' +
+      '01;Duplicate\n';
+
+    const { racers, skippedRows } = parseStartList(content, 2026);
+
+    expect(racers).toEqual([{ bib: '001', name: 'Huber' }]);
+    expect(skippedRows).toBe(3);
+  });
+
+  it('should return empty result for empty content', () => {
+    expect(parseStartList('  \n\n', 2026)).toEqual({
+      racers: [],
+      skippedRows: 0,
+    });
+  });
+});
+
+describe('buildRacerLookup / findRacer', () => {
+  it('should find racers regardless of bib zero-padding', () => {
+    const lookup = buildRacerLookup([{ bib: '7', name: 'Huber Anna' }]);
+
+    expect(findRacer(lookup, '007')?.name).toBe('Huber Anna');
+    expect(findRacer(lookup, '7')?.name).toBe('Huber Anna');
+    expect(findRacer(lookup, '008')).toBeUndefined();
+    expect(findRacer(lookup, '')).toBeUndefined();
+  });
+});
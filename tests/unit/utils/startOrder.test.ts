@@ -0,0 +1,178 @@
+/**
+ * Unit Tests for start order utilities
+ * Tests: isValidStartOrder, compareBibs, drawStartOrder, reverseStartOrder,
+ * getPlannedStartTime, getUpcomingStarts, formatCountdown
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { RunResult } from '../../../shared/results';
+import type { Racer, StartOrder } from '../../../src/types';
+import {
+  compareBibs,
+  drawStartOrder,
+  formatCountdown,
+  getPlannedStartTime,
+  getUpcomingStarts,
+  isValidStartOrder,
+  reverseStartOrder,
+} from '../../../src/utils/startOrder';
+
+function racers(count: number): Racer[] {
+  return Array.from({ length: count }, (_, i) => ({
+    bib: String(i + 1).padStart(3, '0'),
+    name: `Racer ${i + 1}`,
+  }));
+}
+
+function result(bib: string, rank: number | null): RunResult {
+  return {
+    bib,
+    run: 1,
+    rank,
+    status: rank === null ? 'dnf' : 'ok',
+    startTime: null,
+    finishTime: null,
+    runTime: null,
+    faultCount: 0,
+    penaltyMs: 0,
+    totalTime: null,
+    gap: null,
+    splits: {},
+    backupPoints: [],
+    manualPoints: [],
+  };
+}
+
+const order: StartOrder = {
+  run: 1,
+  bibs: ['003', '001', '002', '004'],
+  firstStart: 1_000_000,
+  intervalSeconds: 60,
+};
+
+describe('isValidStartOrder', () => {
+  it('should accept a valid start order', () => {
+    expect(isValidStartOrder(order)).toBe(true);
+  });
+
+  it('should reject invalid runs, bibs and intervals', () => {
+    expect(isValidStartOrder(null)).toBe(false);
+    expect(isValidStartOrder({ ...order, run: 0 })).toBe(false);
+    expect(isValidStartOrder({ ...order, bibs: ['001', ''] })).toBe(false);
+    expect(isValidStartOrder({ ...order, intervalSeconds: 0 })).toBe(false);
+    expect(isValidStartOrder({ ...order, intervalSeconds: 601 })).toBe(false);
+    expect(isValidStartOrder({ ...order, firstStart: 'soon' })).toBe(false);
+  });
+});
+
+describe('compareBibs', () => {
+  it('should sort numeric bibs by value and others last', () => {
+    expect(['10', 'A1', '9', '002'].sort(compareBibs)).toEqual([
+      '002',
+      '9',
+      '10',
+      'A1',
+    ]);
+  });
+});
+
+describe('drawStartOrder', () => {
+  it('should keep every racer within their seed group', () => {
+    const drawn = drawStartOrder(racers(10), 4, () => 0);
+    expect(drawn).toHaveLength(10);
+    expect(new Set(drawn.slice(0, 4))).toEqual(
+      new Set(['001', '002', '003', '004']),
+    );
+    expect(new Set(drawn.slice(4, 8))).toEqual(
+      new Set(['005', '006', '007', '008']),
+    );
+    expect(new Set(drawn.slice(8))).toEqual(new Set(['009', '010']));
+  });
+
+  it('should shuffle within a group', () => {
+    // random() = 0 always swaps with the first element
+    expect(drawStartOrder(racers(3), 3, () => 0)).toEqual([
+      '002',
+      '003',
+      '001',
+    ]);
+  });
+
+  it('should draw all racers as one group when the group size is 0', () => {
+    const drawn = drawStartOrder(racers(5), 0, () => 0.99);
+    expect(drawn).toEqual(['001', '002', '003', '004', '005']);
+  });
+});
+
+describe('reverseStartOrder', () => {
+  const results = [
+    result('004', 3),
+    result('001', 1),
+    result('009', null),
+    result('002', 4),
+    result('003', 2),
+    result('005', 5),
+  ];
+
+  it('should reverse the fastest racers and add the rest in bib order', () => {
+    expect(reverseStartOrder(results, 3)).toEqual([
+      '004',
+      '003',
+      '001',
+      '002',
+      '005',
+    ]);
+  });
+
+  it('should leave out racers without a ranked result', () => {
+    expect(reverseStartOrder(results, 30)).not.toContain('009');
+    expect(reverseStartOrder(results, 30)).toEqual([
+      '005',
+      '002',
+      '004',
+      '003',
+      '001',
+    ]);
+  });
+
+  it('should use bib order when nothing is reversed', () => {
+    expect(reverseStartOrder(results, 0)).toEqual([
+      '001',
+      '002',
+      '003',
+      '004',
+      '005',
+    ]);
+  });
+});
+
+describe('planned start times', () => {
+  it('should space starts by the interval', () => {
+    expect(getPlannedStartTime(order, 0)).toBe(1_000_000);
+    expect(getPlannedStartTime(order, 2)).toBe(1_120_000);
+  });
+
+  it('should skip started racers and keep their schedule', () => {
+    const upcoming = getUpcomingStarts(order, new Set(['003', '002']), 2);
+    expect(upcoming).toEqual([
+      { bib: '001', position: 2, plannedTime: 1_060_000 },
+      { bib: '004', position: 4, plannedTime: 1_180_000 },
+    ]);
+  });
+
+  it('should return nothing when everyone has started', () => {
+    expect(getUpcomingStarts(order, new Set(order.bibs), 3)).toEqual([]);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('should count down to the planned start', () => {
+    expect(formatCountdown(65_000)).toBe('1:05');
+    expect(formatCountdown(9_100)).toBe('0:10');
+    expect(formatCountdown(0)).toBe('0:00');
+  });
+
+  it('should show overdue time with a plus sign', () => {
+    expect(formatCountdown(-3_500)).toBe('+0:03');
+  });
+});
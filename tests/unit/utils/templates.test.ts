@@ -17,6 +17,7 @@ import {
   iconTrashDetailed,
   iconWarningCircle,
   iconX,
+  manualTimeBadge,
   photoButton,
   pointBadge,
   runBadge,
@@ -153,6 +154,12 @@ describe('templates', () => {
       expect(html).toContain('result-point');
     });
 
+    it('manualTimeBadge names the official who entered the time', () => {
+      const html = manualTimeBadge('Anna Huber', 'en');
+      expect(html).toContain('result-manual-badge');
+      expect(html).toContain('Anna Huber');
+    });
+
     it('faultBadge returns empty for no faults', () => {
       expect(faultBadge({ faults: [], lang: 'en' })).toBe('');
     });
@@ -1,14 +1,17 @@
 /**
  * Unit Tests for Timestamp Recorder Utility
- * Tests: createTimestampEntry(), isDuplicateEntry()
+ * Tests: createTimestampEntry(), parseManualTime(), createManualEntry(),
+ * isDuplicateEntry()
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { Entry } from '../../../src/types';
 import {
   type CreateTimestampEntryParams,
+  createManualEntry,
   createTimestampEntry,
   isDuplicateEntry,
+  parseManualTime,
   type TimestampGpsService,
 } from '../../../src/utils/timestampRecorder';
 
@@ -125,6 +128,14 @@ describe('Timestamp Recorder', () => {
         const { timeSource } = createTimestampEntry(baseParams);
         expect(timeSource).toBe('gps');
       });
+
+      it('should return the local tap time the GPS offset was applied to', () => {
+        vi.mocked(mockGpsService.getTimeOffset).mockReturnValue(250);
+
+        const { entry, recordedAt } = createTimestampEntry(baseParams);
+
+        expect(new Date(entry.timestamp).getTime()).toBe(recordedAt + 250);
+      });
     });
 
     describe('without GPS offset', () => {
@@ -135,6 +146,47 @@ describe('Timestamp Recorder', () => {
 
         expect(timeSource).toBe('system');
         expect(entry.timeSource).toBe('system');
+        expect(entry.timeUncertainty).toBeUndefined();
+      });
+    });
+
+    describe('with server clock offset', () => {
+      const serverClock = {
+        getTimeOffset: vi.fn<() => number | null>(() => -1200),
+        getUncertainty: vi.fn<() => number | null>(() => 18),
+      };
+
+      it('should use the server-corrected time and store its uncertainty', () => {
+        const { entry, timeSource, recordedAt } = createTimestampEntry({
+          ...baseParams,
+          serverClock,
+        });
+
+        expect(timeSource).toBe('server');
+        expect(entry.timeSource).toBe('server');
+        expect(entry.timeUncertainty).toBe(18);
+        expect(new Date(entry.timestamp).getTime()).toBe(recordedAt - 1200);
+      });
+
+      it('should prefer the GPS offset', () => {
+        vi.mocked(mockGpsService.getTimeOffset).mockReturnValue(100);
+
+        const { entry } = createTimestampEntry({ ...baseParams, serverClock });
+
+        expect(entry.timeSource).toBe('gps');
+        expect(entry.timeUncertainty).toBeUndefined();
+      });
+
+      it('should fall back to system time without a server estimate', () => {
+        const { entry } = createTimestampEntry({
+          ...baseParams,
+          serverClock: {
+            getTimeOffset: () => null,
+            getUncertainty: () => null,
+          },
+        });
+
+        expect(entry.timeSource).toBe('system');
       });
     });
 
@@ -173,6 +225,64 @@ describe('Timestamp Recorder', () => {
     });
   });
 
+  describe('parseManualTime', () => {
+    const baseDate = new Date(2026, 0, 15, 8, 0, 0, 0);
+
+    it('should parse HH:MM:SS.cc on the day of the base date', () => {
+      expect(parseManualTime('10:23:45.67', baseDate)).toEqual(
+        new Date(2026, 0, 15, 10, 23, 45, 670),
+      );
+    });
+
+    it('should accept missing hundredths, thousandths and a decimal comma', () => {
+      expect(parseManualTime('9:05:00', baseDate)).toEqual(
+        new Date(2026, 0, 15, 9, 5, 0, 0),
+      );
+      expect(parseManualTime(' 10:00:01,5 ', baseDate)).toEqual(
+        new Date(2026, 0, 15, 10, 0, 1, 500),
+      );
+      expect(parseManualTime('10:00:01.234', baseDate)).toEqual(
+        new Date(2026, 0, 15, 10, 0, 1, 234),
+      );
+    });
+
+    it('should reject invalid times', () => {
+      for (const value of ['', '10:00', '24:00:00', '10:60:00', '10:00:60']) {
+        expect(parseManualTime(value, baseDate)).toBeNull();
+      }
+      expect(parseManualTime('10:00:00.1234', baseDate)).toBeNull();
+    });
+  });
+
+  describe('createManualEntry', () => {
+    it('should mark the entry as manual with the entering official', () => {
+      const time = new Date('2026-01-15T10:23:45.670Z');
+      const entry = createManualEntry({
+        bib: '7',
+        point: 'F',
+        run: 2,
+        time,
+        deviceId: 'dev_test-fox-1',
+        deviceName: 'Test Fox 1',
+        enteredBy: 'Anna Huber',
+      });
+
+      expect(entry).toMatchObject({
+        bib: '007',
+        point: 'F',
+        run: 2,
+        timestamp: '2026-01-15T10:23:45.670Z',
+        status: 'ok',
+        deviceId: 'dev_test-fox-1',
+        deviceName: 'Test Fox 1',
+        timeSource: 'manual',
+        enteredBy: 'Anna Huber',
+      });
+      expect(entry.id).toMatch(/^dev_test-fox-1-/);
+      expect(entry.gpsCoords).toBeUndefined();
+    });
+  });
+
   describe('isDuplicateEntry', () => {
     const makeEntry = (overrides: Partial<Entry> = {}): Entry => ({
       id: 'test-123-abc',
@@ -207,6 +317,17 @@ describe('Timestamp Recorder', () => {
       expect(isDuplicateEntry(entry, existing)).toBe(false);
     });
 
+    it('should tell intermediate points apart', () => {
+      const entry = makeEntry({ bib: '042', point: 'I2', run: 1 });
+
+      expect(
+        isDuplicateEntry(entry, [makeEntry({ bib: '042', point: 'I1' })]),
+      ).toBe(false);
+      expect(
+        isDuplicateEntry(entry, [makeEntry({ bib: '042', point: 'I2' })]),
+      ).toBe(true);
+    });
+
     it('should return false when run differs', () => {
       const entry = makeEntry({ bib: '042', point: 'S', run: 1 });
       const existing = [makeEntry({ bib: '042', point: 'S', run: 2 })];
@@ -1,5 +1,8 @@
 import { beforeEach, describe, expect, it } from 'vitest';
-import { updateButtonGroupState } from '../../../src/utils/uiHelpers';
+import {
+  renderRunButtons,
+  updateButtonGroupState,
+} from '../../../src/utils/uiHelpers';
 
 describe('updateButtonGroupState', () => {
   let container: HTMLDivElement;
@@ -46,3 +49,52 @@ describe('updateButtonGroupState', () => {
     expect(buttons[1]!.classList.contains('active')).toBe(false);
   });
 });
+
+describe('renderRunButtons', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.innerHTML = `
+      <button class="run-btn active" data-run="1" role="radio" aria-checked="true"><span data-i18n="run1">R1</span></button>
+      <button class="run-btn" data-run="2" role="radio" aria-checked="false"><span data-i18n="run2">R2</span></button>
+    `;
+  });
+
+  function visibleRuns(): string[] {
+    return Array.from(container.querySelectorAll<HTMLElement>('.run-btn'))
+      .filter((btn) => !btn.hidden)
+      .map((btn) => btn.getAttribute('data-run')!);
+  }
+
+  it('adds generated buttons for runs beyond the markup', () => {
+    renderRunButtons(container, '.run-btn', [1, 2, 3], (run) => `R${run}`);
+
+    expect(visibleRuns()).toEqual(['1', '2', '3']);
+    const generated = container.querySelector('[data-run="3"]')!;
+    expect(generated.textContent).toBe('R3');
+    expect(generated.querySelector('[data-i18n]')).toBeNull();
+    expect(generated.classList.contains('active')).toBe(false);
+    expect(generated.getAttribute('aria-checked')).toBe('false');
+  });
+
+  it('hides markup buttons for runs the race does not have', () => {
+    renderRunButtons(container, '.run-btn', [1], (run) => `R${run}`);
+    expect(visibleRuns()).toEqual(['1']);
+  });
+
+  it('regenerates buttons with new labels on every call', () => {
+    renderRunButtons(container, '.run-btn', [1, 2, 3], (run) => `R${run}`);
+    renderRunButtons(container, '.run-btn', [1, 2, 3, 4], (run) => `L${run}`);
+
+    expect(visibleRuns()).toEqual(['1', '2', '3', '4']);
+    expect(container.querySelector('[data-run="3"]')!.textContent).toBe('L3');
+    expect(container.querySelectorAll('[data-generated]')).toHaveLength(2);
+  });
+
+  it('handles null container gracefully', () => {
+    expect(() =>
+      renderRunButtons(null, '.run-btn', [1, 2], String),
+    ).not.toThrow();
+  });
+});
@@ -11,16 +11,21 @@ vi.mock('../../../src/services', () => ({
     stop: vi.fn(),
     pause: vi.fn(),
   },
+  serverClockService: {
+    start: vi.fn(),
+    stop: vi.fn(),
+  },
 }));
 
 vi.mock('../../../src/services/camera', () => ({
   cameraService: {
     initialize: vi.fn(() => Promise.resolve(true)),
+    setBurstMode: vi.fn(),
     stop: vi.fn(),
   },
 }));
 
-import { gpsService } from '../../../src/services';
+import { gpsService, serverClockService } from '../../../src/services';
 import { cameraService } from '../../../src/services/camera';
 import { applyViewServices } from '../../../src/utils/viewServices';
 
@@ -98,6 +103,23 @@ describe('applyViewServices', () => {
     expect(cameraService.stop).not.toHaveBeenCalled();
   });
 
+  it('passes the burst setting to the camera in timer view', async () => {
+    const state = createState({
+      currentView: 'timer',
+      settings: {
+        ...baseSettings,
+        photoCapture: true,
+        photoBurst: true,
+      },
+    });
+
+    applyViewServices(state);
+    await flushAsync();
+
+    expect(cameraService.setBurstMode).toHaveBeenCalledWith(true);
+    expect(cameraService.initialize).toHaveBeenCalled();
+  });
+
   it('stops GPS and camera outside timer view', async () => {
     const state = createState({
       currentView: 'results',
@@ -118,6 +140,17 @@ describe('applyViewServices', () => {
     expect(cameraService.initialize).not.toHaveBeenCalled();
   });
 
+  it('syncs the server clock only in timer view', () => {
+    applyViewServices(createState({ currentView: 'timer' }), {
+      skipStart: true,
+    });
+    expect(serverClockService.start).toHaveBeenCalled();
+    expect(gpsService.start).not.toHaveBeenCalled();
+
+    applyViewServices(createState({ currentView: 'results' }));
+    expect(serverClockService.stop).toHaveBeenCalled();
+  });
+
   it('stops GPS and camera when settings are disabled', async () => {
     const state = createState({
       currentView: 'timer',
@@ -1,16 +1,24 @@
 /**
  * Extended Unit Tests for Validation Utilities
  * Tests: isValidFaultVersion, isValidFaultEntry, sanitizeFaultEntry,
+ *        isValidPenaltyRule, sanitizePenaltyRules, sanitizeCourseGates,
+ *        sanitizeProtestDeadlines, getProtestOutcome, isValidProtest,
  *        makeNumericInput, and edge cases for existing functions
  */
 
 import { describe, expect, it } from 'vitest';
 import type { FaultEntry, FaultVersion } from '../../src/types';
 import {
+  getProtestOutcome,
   isValidFaultEntry,
   isValidFaultVersion,
+  isValidPenaltyRule,
+  isValidProtest,
   makeNumericInput,
+  sanitizeCourseGates,
   sanitizeFaultEntry,
+  sanitizePenaltyRules,
+  sanitizeProtestDeadlines,
   sanitizeString,
 } from '../../src/utils/validation';
 
@@ -630,6 +638,164 @@ describe('Extended Validation Utilities', () => {
     });
   });
 
+  describe('isValidPenaltyRule', () => {
+    it('should accept penalty and DSQ rules', () => {
+      expect(
+        isValidPenaltyRule({ usePenaltyMode: true, penaltySeconds: 5 }),
+      ).toBe(true);
+      expect(
+        isValidPenaltyRule({ usePenaltyMode: false, penaltySeconds: 0 }),
+      ).toBe(true);
+    });
+
+    it('should reject invalid rules', () => {
+      expect(isValidPenaltyRule(null)).toBe(false);
+      expect(isValidPenaltyRule({ penaltySeconds: 5 })).toBe(false);
+      expect(
+        isValidPenaltyRule({ usePenaltyMode: true, penaltySeconds: 61 }),
+      ).toBe(false);
+      expect(
+        isValidPenaltyRule({ usePenaltyMode: true, penaltySeconds: 2.5 }),
+      ).toBe(false);
+      expect(
+        isValidPenaltyRule({ usePenaltyMode: 'yes', penaltySeconds: 5 }),
+      ).toBe(false);
+    });
+  });
+
+  describe('sanitizePenaltyRules', () => {
+    it('should keep valid rules of known categories only', () => {
+      expect(
+        sanitizePenaltyRules({
+          U8: { usePenaltyMode: true, penaltySeconds: 3, extra: 'x' },
+          U12: { usePenaltyMode: false, penaltySeconds: -1 },
+          U99: { usePenaltyMode: false, penaltySeconds: 5 },
+        }),
+      ).toEqual({ U8: { usePenaltyMode: true, penaltySeconds: 3 } });
+    });
+
+    it('should return empty rules for non-objects', () => {
+      expect(sanitizePenaltyRules(null)).toEqual({});
+      expect(sanitizePenaltyRules([])).toEqual({});
+      expect(sanitizePenaltyRules('rules')).toEqual({});
+    });
+  });
+
+  describe('sanitizeCourseGates', () => {
+    it('should keep valid gates sorted by number, first of each number', () => {
+      expect(
+        sanitizeCourseGates([
+          { number: 2, color: 'blue', latitude: 47.2, longitude: 11.2 },
+          { number: 1, color: 'red', latitude: 47.1, longitude: 11.1, x: 1 },
+          { number: 2, color: 'red', latitude: 47.3, longitude: 11.3 },
+          { number: 3, color: 'green', latitude: 47.4, longitude: 11.4 },
+          { number: 4, color: 'red', latitude: 47.5, longitude: 181 },
+        ]),
+      ).toEqual([
+        { number: 1, color: 'red', latitude: 47.1, longitude: 11.1 },
+        { number: 2, color: 'blue', latitude: 47.2, longitude: 11.2 },
+      ]);
+    });
+
+    it('should return no gates for non-arrays', () => {
+      expect(sanitizeCourseGates(null)).toEqual([]);
+      expect(sanitizeCourseGates({ number: 1 })).toEqual([]);
+    });
+  });
+
+  describe('sanitizeProtestDeadlines', () => {
+    it('should keep positive deadlines of valid runs', () => {
+      expect(
+        sanitizeProtestDeadlines({
+          '1': 1768478400000,
+          '2': -5,
+          '0': 1768478400000,
+          '10': 1768478400000,
+          x: 1768478400000,
+          '3': 'soon',
+        }),
+      ).toEqual({ '1': 1768478400000 });
+    });
+
+    it('should return no deadlines for non-objects', () => {
+      expect(sanitizeProtestDeadlines(null)).toEqual({});
+      expect(sanitizeProtestDeadlines([1768478400000])).toEqual({});
+    });
+  });
+
+  describe('getProtestOutcome', () => {
+    it('should uphold a protest only with more votes for than against', () => {
+      expect(getProtestOutcome(3, 2)).toBe('upheld');
+      expect(getProtestOutcome(2, 2)).toBe('rejected');
+      expect(getProtestOutcome(0, 1)).toBe('rejected');
+    });
+  });
+
+  describe('isValidProtest', () => {
+    const faultProtest = {
+      id: 'protest_1',
+      bib: '042',
+      run: 1,
+      targetType: 'fault',
+      targetId: 'fault_1',
+      fault: { gateNumber: 7, faultType: 'MG', deviceName: 'Judge 1' },
+      filedBy: 'Coach',
+      filedAt: '2026-01-15T11:00:00.000Z',
+      reason: 'Racer passed the gate',
+      photoCount: 0,
+      recordedBy: 'Chief',
+      recordedByDeviceId: 'dev_chief',
+    };
+    const decision = {
+      outcome: 'upheld',
+      votesFor: 2,
+      votesAgainst: 1,
+      abstentions: 0,
+      rationale: 'Video evidence',
+      decidedAt: '2026-01-15T12:00:00.000Z',
+      decidedBy: 'Chief',
+    };
+
+    it('should accept open and decided protests', () => {
+      expect(isValidProtest(faultProtest)).toBe(true);
+      expect(isValidProtest({ ...faultProtest, decision })).toBe(true);
+    });
+
+    it('should require the contested fault or requested status', () => {
+      const { fault: _fault, ...withoutFault } = faultProtest;
+      expect(isValidProtest(withoutFault)).toBe(false);
+      expect(
+        isValidProtest({
+          ...withoutFault,
+          targetType: 'entry',
+          requestedStatus: 'ok',
+        }),
+      ).toBe(true);
+      expect(
+        isValidProtest({
+          ...withoutFault,
+          targetType: 'entry',
+          requestedStatus: 'late',
+        }),
+      ).toBe(false);
+    });
+
+    it('should reject malformed decisions', () => {
+      expect(
+        isValidProtest({
+          ...faultProtest,
+          decision: { ...decision, outcome: 'maybe' },
+        }),
+      ).toBe(false);
+      expect(
+        isValidProtest({
+          ...faultProtest,
+          decision: { ...decision, votesFor: -1 },
+        }),
+      ).toBe(false);
+    });
+  });
+
   describe('makeNumericInput', () => {
     it('should strip non-numeric characters on input', () => {
       const input = document.createElement('input');
@@ -2,21 +2,30 @@
  * Unit Tests for Validation Utilities
  * Tests: isValidEntry, isValidSettings, isValidSyncQueueItem, isValidRaceId,
  *        isValidDeviceId, isValidDataSchema, sanitizeString, sanitizeEntry,
- *        migrateSchema
+ *        migrateSchema, getTimingPoints, isIntermediatePoint,
+ *        getTimingPointOrder, isValidRun, getRuns, sanitizeRaceDefinition,
+ *        clampGate
  */
 
 import { describe, expect, it } from 'vitest';
 import type { Entry, Settings, SyncQueueItem } from '../../src/types';
 import { SCHEMA_VERSION } from '../../src/types';
 import {
+  clampGate,
+  getRuns,
+  getTimingPointOrder,
+  getTimingPoints,
+  isIntermediatePoint,
   isValidDataSchema,
   isValidDeviceId,
   isValidEntry,
   isValidRaceId,
+  isValidRun,
   isValidSettings,
   isValidSyncQueueItem,
   migrateSchema,
   sanitizeEntry,
+  sanitizeRaceDefinition,
   sanitizeString,
 } from '../../src/utils/validation';
 
@@ -44,6 +53,8 @@ describe('Validation Utilities', () => {
 
     it('should validate all timing points', () => {
       expect(isValidEntry({ ...validEntry, point: 'S' })).toBe(true);
+      expect(isValidEntry({ ...validEntry, point: 'I1' })).toBe(true);
+      expect(isValidEntry({ ...validEntry, point: 'I9' })).toBe(true);
       expect(isValidEntry({ ...validEntry, point: 'F' })).toBe(true);
     });
 
@@ -59,12 +70,48 @@ describe('Validation Utilities', () => {
       expect(isValidEntry({ ...validEntry, run: 2 })).toBe(true);
     });
 
+    it('should validate time sources and the entering official', () => {
+      expect(isValidEntry({ ...validEntry, timeSource: 'gps' })).toBe(true);
+      expect(
+        isValidEntry({
+          ...validEntry,
+          timeSource: 'manual',
+          enteredBy: 'Anna Huber',
+        }),
+      ).toBe(true);
+      expect(isValidEntry({ ...validEntry, timeSource: 'radio' })).toBe(false);
+      expect(isValidEntry({ ...validEntry, enteredBy: 42 })).toBe(false);
+    });
+
+    it('should validate the server clock uncertainty', () => {
+      expect(
+        isValidEntry({
+          ...validEntry,
+          timeSource: 'server',
+          timeUncertainty: 12,
+        }),
+      ).toBe(true);
+      expect(isValidEntry({ ...validEntry, timeUncertainty: -1 })).toBe(false);
+      expect(isValidEntry({ ...validEntry, timeUncertainty: '12' })).toBe(
+        false,
+      );
+    });
+
     it('should accept entry without run (backwards compatibility)', () => {
       const entryWithoutRun = { ...validEntry };
       delete (entryWithoutRun as { run?: number }).run;
       expect(isValidEntry(entryWithoutRun)).toBe(true);
     });
 
+    it('should validate entry version fields', () => {
+      expect(
+        isValidEntry({ ...validEntry, currentVersion: 2, versionHistory: [] }),
+      ).toBe(true);
+      expect(isValidEntry({ ...validEntry, currentVersion: 0 })).toBe(false);
+      expect(isValidEntry({ ...validEntry, currentVersion: 1.5 })).toBe(false);
+      expect(isValidEntry({ ...validEntry, versionHistory: 'v1' })).toBe(false);
+    });
+
     it('should accept legacy numeric ID', () => {
       const entry = { ...validEntry, id: 1704067200000 as unknown as string };
       expect(isValidEntry(entry)).toBe(true);
@@ -80,7 +127,10 @@ describe('Validation Utilities', () => {
         isValidEntry({ ...validEntry, point: 'X' as Entry['point'] }),
       ).toBe(false);
       expect(
-        isValidEntry({ ...validEntry, point: 'I4' as Entry['point'] }),
+        isValidEntry({ ...validEntry, point: 'I0' as Entry['point'] }),
+      ).toBe(false);
+      expect(
+        isValidEntry({ ...validEntry, point: 'I10' as Entry['point'] }),
       ).toBe(false);
     });
 
@@ -228,6 +278,102 @@ describe('Validation Utilities', () => {
     });
   });
 
+  describe('timing points', () => {
+    it('should list start, intermediate points and finish in course order', () => {
+      expect(getTimingPoints(0)).toEqual(['S', 'F']);
+      expect(getTimingPoints(2)).toEqual(['S', 'I1', 'I2', 'F']);
+    });
+
+    it('should clamp the intermediate point count', () => {
+      expect(getTimingPoints(-1)).toEqual(['S', 'F']);
+      expect(getTimingPoints(20)).toHaveLength(11);
+      expect(getTimingPoints(Number.NaN)).toEqual(['S', 'F']);
+    });
+
+    it('should recognize intermediate points', () => {
+      expect(isIntermediatePoint('I1')).toBe(true);
+      expect(isIntermediatePoint('S')).toBe(false);
+      expect(isIntermediatePoint('F')).toBe(false);
+      expect(isIntermediatePoint('I10')).toBe(false);
+    });
+
+    it('should order points along the course', () => {
+      const points = ['F', 'I2', 'S', 'I1'];
+      points.sort((a, b) => getTimingPointOrder(a) - getTimingPointOrder(b));
+      expect(points).toEqual(['S', 'I1', 'I2', 'F']);
+      expect(getTimingPointOrder('X')).toBeGreaterThan(
+        getTimingPointOrder('F'),
+      );
+    });
+  });
+
+  describe('runs', () => {
+    it('should accept runs 1 to 9 by default', () => {
+      expect(isValidRun(1)).toBe(true);
+      expect(isValidRun(9)).toBe(true);
+      expect(isValidRun(0)).toBe(false);
+      expect(isValidRun(10)).toBe(false);
+      expect(isValidRun(1.5)).toBe(false);
+      expect(isValidRun('1')).toBe(false);
+    });
+
+    it('should limit runs to the race run count', () => {
+      expect(isValidRun(3, 3)).toBe(true);
+      expect(isValidRun(3, 2)).toBe(false);
+    });
+
+    it('should list run numbers and clamp the run count', () => {
+      expect(getRuns(3)).toEqual([1, 2, 3]);
+      expect(getRuns(0)).toEqual([1]);
+      expect(getRuns(20)).toHaveLength(9);
+      expect(getRuns(Number.NaN)).toEqual([1, 2]);
+    });
+  });
+
+  describe('race definition', () => {
+    const definition = {
+      name: 'Club Championship',
+      discipline: 'GS',
+      gateCount: 45,
+      jury: [{ role: 'referee', name: 'Max Huber' }],
+      lastUpdated: 1000,
+    };
+
+    it('should keep a valid definition', () => {
+      expect(sanitizeRaceDefinition(definition)).toEqual(definition);
+    });
+
+    it('should reject definitions without name, discipline or gate count', () => {
+      expect(sanitizeRaceDefinition(null)).toBeNull();
+      expect(sanitizeRaceDefinition({ ...definition, name: '' })).toBeNull();
+      expect(
+        sanitizeRaceDefinition({ ...definition, discipline: 'DH' }),
+      ).toBeNull();
+      expect(
+        sanitizeRaceDefinition({ ...definition, gateCount: 101 }),
+      ).toBeNull();
+    });
+
+    it('should drop malformed dates and jury members', () => {
+      const result = sanitizeRaceDefinition({
+        ...definition,
+        date: 'tomorrow',
+        jury: [
+          { role: 'coach', name: 'X' },
+          { role: 'referee', name: '' },
+        ],
+      });
+      expect(result?.date).toBeUndefined();
+      expect(result?.jury).toEqual([]);
+    });
+
+    it('should clamp gates to the course', () => {
+      expect(clampGate(12, 40)).toBe(12);
+      expect(clampGate(55, 40)).toBe(40);
+      expect(clampGate(0, 40)).toBe(1);
+    });
+  });
+
   describe('isValidSettings', () => {
     const validSettings: Settings = {
       auto: true,
@@ -465,6 +611,17 @@ describe('Validation Utilities', () => {
       expect(result!.run).toBe(2);
     });
 
+    it('should keep the manual time source and entering official', () => {
+      const entry = {
+        ...validEntry,
+        timeSource: 'manual' as const,
+        enteredBy: '<b>Anna</b>',
+      };
+      const result = sanitizeEntry(entry, 'dev_default');
+      expect(result!.timeSource).toBe('manual');
+      expect(result!.enteredBy).toBe('bAnna/b');
+    });
+
     it('should default run to 1 if not present', () => {
       const entryWithoutRun = { ...validEntry };
       delete (entryWithoutRun as { run?: number }).run;
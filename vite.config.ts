@@ -18,6 +18,9 @@ export default defineConfig({
     rollupOptions: {
       input: {
         main: resolve(__dirname, 'index.html'),
+        // Public spectator page - must not import store/services/utils/i18n
+        // (they are bundled into the shared chunk)
+        live: resolve(__dirname, 'live.html'),
       },
       output: {
         manualChunks(id) {
@@ -163,6 +166,8 @@ export default defineConfig({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // The live results page is its own document, not the app shell
+        navigateFallbackDenylist: [/^\/live/],
         runtimeCaching: [
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,